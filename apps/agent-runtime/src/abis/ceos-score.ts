@@ -0,0 +1,29 @@
+export const CEOS_SCORE_ABI = [
+  {
+    type: 'function',
+    name: 'submitScores',
+    inputs: [
+      { name: 'epoch', type: 'uint256' },
+      { name: 'agents', type: 'address[]' },
+      { name: 'trading', type: 'uint256[]' },
+      { name: 'engagement', type: 'uint256[]' },
+      { name: 'revenue', type: 'uint256[]' },
+      { name: 'quality', type: 'uint256[]' },
+      { name: 'reliability', type: 'uint256[]' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'ScoresSubmitted',
+    inputs: [
+      { name: 'epoch', type: 'uint256', indexed: true },
+      { name: 'count', type: 'uint256', indexed: false },
+    ],
+  },
+  { type: 'error', name: 'ArrayLengthMismatch', inputs: [] },
+  { type: 'error', name: 'InvalidScoreValue', inputs: [] },
+  { type: 'error', name: 'ScoresAlreadySubmitted', inputs: [] },
+  { type: 'error', name: 'UnauthorizedOracle', inputs: [] },
+] as const;
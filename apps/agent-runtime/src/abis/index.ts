@@ -1,3 +1,4 @@
 export { FEE_SPLITTER_ABI } from './fee-splitter.js';
 export { SCOUT_FUND_ABI } from './scout-fund.js';
 export { AGENT_TREASURY_ABI } from './agent-treasury.js';
+export { CEOS_SCORE_ABI } from './ceos-score.js';
@@ -9,7 +9,16 @@ dotenvConfig({ path: resolve(__dirname, '../../../.env') });
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
 
 const envSchema = z.object({
-  OPENROUTER_API_KEY: z.string().min(1, 'OPENROUTER_API_KEY is required'),
+  // Needed by the providers the LLM config uses (OpenRouter by default)
+  OPENROUTER_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  /** LLM provider routing — inline JSON, or a path (see core/llm-router.ts) */
+  LLM_CONFIG: z.string().optional(),
+  LLM_CONFIG_PATH: z.string().optional(),
+  /** Prompt template traffic split — inline JSON, or a path (see core/prompt-registry.ts) */
+  PROMPT_CONFIG: z.string().optional(),
+  PROMPT_CONFIG_PATH: z.string().optional(),
   FAL_KEY: z.string().min(1, 'FAL_KEY is required'),
   NEYNAR_API_KEY: z.string().min(1, 'NEYNAR_API_KEY is required'),
   NEYNAR_WALLET_ID: z.string().min(1, 'NEYNAR_WALLET_ID is required for account creation').optional(),
@@ -23,6 +32,8 @@ const envSchema = z.object({
   DEPLOYER_PRIVATE_KEY: z.string().optional(),
   NEXT_PUBLIC_FEE_SPLITTER_ADDRESS: z.string().optional(),
   NEXT_PUBLIC_SCOUT_FUND_ADDRESS: z.string().optional(),
+  NEXT_PUBLIC_CEOS_SCORE_ADDRESS: z.string().optional(),
+  EPOCH_SCORING_START_EPOCH: z.coerce.number().int().min(0).optional(),
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 });
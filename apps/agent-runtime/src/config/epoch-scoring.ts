@@ -0,0 +1,39 @@
+/**
+ * Epoch Scoring Configuration
+ *
+ * The CEOS epoch calendar and the epoch scoring worker's timing. The
+ * calendar mirrors packages/shared/utils (getCurrentEpoch) and
+ * RevenuePool.sol: 7-day epochs counted from genesis.
+ */
+
+// ── Epoch Calendar ───────────────────────────────────────────────────────
+
+/** Length of one epoch (ms). */
+export const EPOCH_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Start of epoch 0: 2025-01-01T00:00:00Z. */
+export const GENESIS_TIMESTAMP = Date.UTC(2025, 0, 1);
+
+// ── Worker Timing ────────────────────────────────────────────────────────
+
+/** How often the worker looks for a finished epoch and pending submissions (ms). */
+export const EPOCH_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/** Submission attempts per epoch before it is marked FAILED. */
+export const MAX_SUBMISSION_ATTEMPTS = 5;
+
+// ── Defaults ─────────────────────────────────────────────────────────────
+
+/** Inputs an agent without data for the epoch is scored with. */
+export const SCORING_DEFAULTS = {
+  /** AgentMetrics.uptime, percent */
+  uptimePercent: 95,
+  /** AgentMetrics.contentQuality, 0-100 */
+  aiQuality: 50,
+  /** Share of original casts, 0-100 */
+  originality: 50,
+  /** Sentiment analysis is not part of the content pipeline yet, 0-100 */
+  sentiment: 50,
+  /** Average skill execution time (ms) */
+  avgResponseTimeMs: 500,
+} as const;
@@ -0,0 +1,47 @@
+/**
+ * Mention Reply Configuration
+ *
+ * Tunable constants for the mention worker: how often it reads each
+ * agent's mentions, how many replies an agent may send, and the bars a
+ * mention has to clear before it gets one.
+ */
+
+// ── Rate Limits ──────────────────────────────────────────────────────────
+
+/** Maximum mention replies per agent per hour. */
+export const MAX_MENTION_REPLIES_PER_HOUR = 10;
+
+/** Maximum mention replies per agent per day. */
+export const MAX_MENTION_REPLIES_PER_DAY = 60;
+
+/** Maximum replies to the same author per hour, so a back-and-forth stays short. */
+export const MAX_REPLIES_PER_AUTHOR_PER_HOUR = 3;
+
+// ── Triage ───────────────────────────────────────────────────────────────
+
+/** Minimum author reputation (0-1) to get a reply, per engagement mode. */
+export const MIN_AUTHOR_SCORE = {
+  passive: 0.7,
+  active: 0.5,
+  aggressive: 0.3,
+} as const;
+
+/** Spam score (0-1) at which a mention is ignored. */
+export const MAX_SPAM_SCORE = 0.5;
+
+/** Follower count that earns full reputation when Neynar has no user score. */
+export const TRUSTED_FOLLOWER_COUNT = 1000;
+
+// ── Worker Timing ────────────────────────────────────────────────────────
+
+/** How often the worker reads mentions (ms). */
+export const MENTION_POLL_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+
+/** How far back a first read goes, before the agent has a cursor (ms). */
+export const FIRST_READ_LOOKBACK_MS = 60 * 60 * 1000; // 1 hour
+
+/** Max mentions handled per agent per cycle. */
+export const MAX_MENTIONS_PER_CYCLE = 10;
+
+/** Earlier casts of the conversation shown to the LLM when replying. */
+export const CONVERSATION_CONTEXT_CASTS = 5;
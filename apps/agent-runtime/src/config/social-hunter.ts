@@ -4,6 +4,9 @@
  * Maps service categories to Farcaster channels where potential
  * buyers discuss problems our agents can solve. All tunable
  * constants for the Ear → Brain → Mouth pipeline live here.
+ *
+ * Channels, keywords, the triage threshold and reply caps are defaults;
+ * an agent's SocialHunterProfile overrides them (core/hunter-profile).
  */
 
 // ── Channel Mapping ──────────────────────────────────────────────────────
@@ -45,6 +48,31 @@ export const COOLDOWN_MS = 24 * 60 * 60 * 1000; // 24 hours
 /** Minimum triage score (1-10) to qualify as a lead. */
 export const TRIAGE_THRESHOLD = 7;
 
+// ── Attribution ──────────────────────────────────────────────────────────
+
+/** Base URL of the hire links pitches carry (`<base>/<slug>?ref=<token>`). */
+export const HIRE_BASE_URL = 'https://ceos.run/hire';
+
+/** Query parameter carrying a lead's token on its hire links. */
+export const REF_PARAM = 'ref';
+
+// ── Nurturing ────────────────────────────────────────────────────────────
+
+/** Follow-ups per lead after the pitch (profile default). */
+export const MAX_FOLLOW_UPS = 2;
+
+/** How long after the pitch a lead's responses are still followed up (ms). */
+export const NURTURE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** How often the nurture worker scans leads for responses (ms). */
+export const NURTURE_POLL_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+/** Leads scanned per nurture cycle, least recently checked first. */
+export const MAX_NURTURE_LEADS_PER_CYCLE = 25;
+
+/** Max tokens for the response classifier + follow-up. */
+export const NURTURE_MAX_TOKENS = 300;
+
 // ── Worker Timing ────────────────────────────────────────────────────────
 
 /** How often the hunter polls for new casts (ms). */
@@ -0,0 +1,72 @@
+/**
+ * Spend Pricing
+ *
+ * List prices the spend ledger charges each LLM and image call at. All
+ * costs are micro-USDC (6 decimals), the unit budgets are set in.
+ * Update alongside provider price changes — the ledger records the cost
+ * at call time, so past entries keep the price they were charged.
+ */
+
+// ── LLM ──────────────────────────────────────────────────────────────────
+
+interface TokenPrice {
+  /** Micro-USDC per 1M prompt tokens (= USD per 1M tokens × 1e6) */
+  input: number;
+  /** Micro-USDC per 1M completion tokens */
+  output: number;
+}
+
+const usdPerMillion = (input: number, output: number): TokenPrice => ({
+  input: input * 1_000_000,
+  output: output * 1_000_000,
+});
+
+/**
+ * Keyed by model id without vendor prefix or date suffix, so
+ * `anthropic/claude-sonnet-4` (OpenRouter) and `claude-sonnet-4-20250514`
+ * (Anthropic) share a price.
+ */
+export const LLM_PRICES: Record<string, TokenPrice> = {
+  'claude-opus-4': usdPerMillion(15, 75),
+  'claude-sonnet-4': usdPerMillion(3, 15),
+  'claude-3.5-haiku': usdPerMillion(0.8, 4),
+  'claude-3-5-haiku': usdPerMillion(0.8, 4),
+  'gpt-4o': usdPerMillion(2.5, 10),
+  'gpt-4o-mini': usdPerMillion(0.15, 0.6),
+  'gemini-2.0-flash': usdPerMillion(0.1, 0.4),
+  'gemini-2.0-flash-001': usdPerMillion(0.1, 0.4),
+  'llama-3.3-70b-instruct': usdPerMillion(0.13, 0.4),
+};
+
+/** Charged for models missing from the table — priced high on purpose. */
+export const UNKNOWN_MODEL_PRICE: TokenPrice = usdPerMillion(3, 15);
+
+function normalizeModelId(model: string): string {
+  const bare = model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+  return bare.replace(/[-@]\d{8}$/, '').replace(/:.*$/, '');
+}
+
+/**
+ * Cost of one completion in micro-USDC.
+ */
+export function llmCallCostUsdc(model: string, promptTokens: number, completionTokens: number): bigint {
+  const price = LLM_PRICES[normalizeModelId(model)] ?? UNKNOWN_MODEL_PRICE;
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  return BigInt(Math.ceil(cost));
+}
+
+// ── Images (Fal.ai) ──────────────────────────────────────────────────────
+
+/** Micro-USDC per generated image, by Fal.ai model id. */
+export const IMAGE_PRICES: Record<string, number> = {
+  'fal-ai/flux/schnell': 3_000,
+  'fal-ai/flux-pro/v1.1-ultra': 60_000,
+  'fal-ai/recraft-v3': 40_000,
+};
+
+/** Charged for image models missing from the table. */
+export const UNKNOWN_IMAGE_PRICE = 60_000;
+
+export function imageCostUsdc(model: string): bigint {
+  return BigInt(IMAGE_PRICES[model] ?? UNKNOWN_IMAGE_PRICE);
+}
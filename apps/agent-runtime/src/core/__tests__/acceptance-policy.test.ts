@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ACCEPTANCE_POLICY,
+  evaluateAcceptanceRules,
+  type AcceptanceCandidate,
+} from '../acceptance-policy';
+
+const candidate: AcceptanceCandidate = {
+  buyerAgentId: 'buyer-1',
+  buyerReputation: 6000,
+  activeJobs: 0,
+};
+
+describe('evaluateAcceptanceRules', () => {
+  it('accepts any buyer under the default policy', () => {
+    expect(evaluateAcceptanceRules(DEFAULT_ACCEPTANCE_POLICY, candidate)).toEqual({
+      action: 'accept',
+    });
+  });
+
+  it('rejects denied buyers even when they are allow-listed', () => {
+    const decision = evaluateAcceptanceRules(
+      { ...DEFAULT_ACCEPTANCE_POLICY, allowedBuyerIds: ['buyer-1'], deniedBuyerIds: ['buyer-1'] },
+      candidate,
+    );
+    expect(decision.action).toBe('reject');
+  });
+
+  it('rejects buyers missing from a non-empty allow list', () => {
+    const decision = evaluateAcceptanceRules(
+      { ...DEFAULT_ACCEPTANCE_POLICY, allowedBuyerIds: ['buyer-2'] },
+      candidate,
+    );
+    expect(decision).toEqual({
+      action: 'reject',
+      reason: 'Seller only accepts jobs from allow-listed buyers',
+    });
+  });
+
+  it('treats a buyer without an identity as reputation 0', () => {
+    const policy = { ...DEFAULT_ACCEPTANCE_POLICY, minBuyerReputation: 1 };
+    expect(evaluateAcceptanceRules(policy, candidate).action).toBe('accept');
+    expect(evaluateAcceptanceRules(policy, { ...candidate, buyerReputation: null })).toEqual({
+      action: 'reject',
+      reason: 'Buyer reputation 0 is below the required 1',
+    });
+  });
+
+  it('defers instead of rejecting when the seller is at capacity', () => {
+    const decision = evaluateAcceptanceRules(
+      { ...DEFAULT_ACCEPTANCE_POLICY, maxConcurrentJobs: 2 },
+      { ...candidate, activeJobs: 2 },
+    );
+    expect(decision.action).toBe('defer');
+  });
+
+  it('asks for an LLM review only after the rules pass', () => {
+    const policy = { ...DEFAULT_ACCEPTANCE_POLICY, llmReviewEnabled: true };
+    expect(evaluateAcceptanceRules(policy, candidate)).toEqual({ action: 'review' });
+    expect(
+      evaluateAcceptanceRules({ ...policy, deniedBuyerIds: ['buyer-1'] }, candidate).action,
+    ).toBe('reject');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activeBlackout,
+  DEFAULT_CONTENT_CALENDAR,
+  isWithinPostingWindow,
+  localClock,
+  nextWindowStart,
+  parseContentCalendar,
+  type ContentCalendar,
+} from '../content-calendar';
+
+const calendar = (overrides: Partial<ContentCalendar> = {}): ContentCalendar => ({
+  ...DEFAULT_CONTENT_CALENDAR,
+  ...overrides,
+});
+
+// Weekdays 09:00–17:00 in New York
+const officeHours = calendar({
+  timezone: 'America/New_York',
+  postingWindows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }],
+});
+
+describe('localClock', () => {
+  it('should read the weekday and minute in the calendar time zone', () => {
+    // Monday 03:30 UTC is still Sunday evening in New York (EST, UTC-5)
+    expect(localClock(new Date('2026-01-05T03:30:00Z'), 'America/New_York')).toEqual({ day: 0, minutes: 22 * 60 + 30 });
+  });
+});
+
+describe('isWithinPostingWindow', () => {
+  it('should allow any time without windows', () => {
+    expect(isWithinPostingWindow(calendar(), new Date('2026-01-04T03:00:00Z'))).toBe(true);
+  });
+
+  it('should respect local time and weekdays', () => {
+    expect(isWithinPostingWindow(officeHours, new Date('2026-01-05T15:00:00Z'))).toBe(true); // Mon 10:00
+    expect(isWithinPostingWindow(officeHours, new Date('2026-01-05T23:00:00Z'))).toBe(false); // Mon 18:00
+    expect(isWithinPostingWindow(officeHours, new Date('2026-01-04T15:00:00Z'))).toBe(false); // Sun 10:00
+  });
+
+  it('should handle windows that run past midnight', () => {
+    const lateNight = calendar({ postingWindows: [{ days: [5], start: '22:00', end: '02:00' }] });
+
+    expect(isWithinPostingWindow(lateNight, new Date('2026-01-09T23:00:00Z'))).toBe(true); // Fri 23:00
+    expect(isWithinPostingWindow(lateNight, new Date('2026-01-10T01:00:00Z'))).toBe(true); // Sat 01:00
+    expect(isWithinPostingWindow(lateNight, new Date('2026-01-11T01:00:00Z'))).toBe(false); // Sun 01:00
+  });
+});
+
+describe('nextWindowStart', () => {
+  it('should find the next opening, skipping the weekend', () => {
+    // Friday 18:00 New York → Monday 09:00 New York
+    expect(nextWindowStart(officeHours, new Date('2026-01-09T23:00:00Z'))).toEqual(new Date('2026-01-12T14:00:00Z'));
+  });
+
+  it('should return null without windows', () => {
+    expect(nextWindowStart(calendar(), new Date())).toBeNull();
+  });
+});
+
+describe('activeBlackout', () => {
+  it('should match only inside the blackout', () => {
+    const holidays = calendar({
+      blackouts: [{ start: '2026-12-24T00:00:00Z', end: '2026-12-27T00:00:00Z', reason: 'Holidays' }],
+    });
+
+    expect(activeBlackout(holidays, new Date('2026-12-25T12:00:00Z'))?.reason).toBe('Holidays');
+    expect(activeBlackout(holidays, new Date('2026-12-27T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('parseContentCalendar', () => {
+  it('should drop malformed windows and blackouts', () => {
+    const parsed = parseContentCalendar({
+      timezone: 'Europe/Berlin',
+      cron: null,
+      postingWindows: [{ days: [1], start: '09:00', end: '12:00' }, { days: [9], start: '25:00', end: 'x' }],
+      blackouts: [{ start: 'soon', end: 'later' }],
+    });
+
+    expect(parsed.postingWindows).toEqual([{ days: [1], start: '09:00', end: '12:00' }]);
+    expect(parsed.blackouts).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  engagementDelta,
+  epochBounds,
+  epochsToScore,
+  getCurrentEpoch,
+  scoreEpoch,
+  sellerRevenue,
+  submitScoresArgs,
+  type AgentEpochInputs,
+} from '../epoch-scoring';
+import { CEOSTier } from '@ceosrun/shared/types/ceos-score';
+
+function inputs(agentId: string, overrides: Partial<AgentEpochInputs> = {}): AgentEpochInputs {
+  return {
+    agentId,
+    address: `0x${agentId.padStart(40, '0')}`,
+    volume: 0,
+    pnl: 0,
+    winRate: 0,
+    sharpeRatio: 0,
+    likes: 0,
+    recasts: 0,
+    replies: 0,
+    mentions: 0,
+    revenueUsdc: 0,
+    aiQuality: 50,
+    originality: 50,
+    sentiment: 50,
+    uptimePercent: 95,
+    avgResponseTimeMs: 500,
+    errorRate: 0,
+    ...overrides,
+  };
+}
+
+describe('epoch calendar', () => {
+  it('should count 7-day epochs from genesis', () => {
+    expect(getCurrentEpoch(Date.parse('2025-01-01T00:00:00Z'))).toBe(0);
+    expect(getCurrentEpoch(Date.parse('2025-01-07T23:59:59Z'))).toBe(0);
+    expect(getCurrentEpoch(Date.parse('2025-01-08T00:00:00Z'))).toBe(1);
+  });
+
+  it('should bound an epoch by its start and the next one', () => {
+    const { start, end } = epochBounds(1);
+
+    expect(start.toISOString()).toBe('2025-01-08T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2025-01-15T00:00:00.000Z');
+    expect(getCurrentEpoch(end.getTime())).toBe(2);
+  });
+
+  it('should score the last finished epoch after the one last scored', () => {
+    expect(epochsToScore(8, 10)).toEqual([9]);
+    expect(epochsToScore(9, 10)).toEqual([]);
+  });
+
+  it('should backfill every epoch missed since the last one scored', () => {
+    expect(epochsToScore(7, 10)).toEqual([8, 9]);
+  });
+
+  it('should start at the configured epoch, or the last finished one, when none was scored', () => {
+    expect(epochsToScore(null, 10)).toEqual([9]);
+    expect(epochsToScore(null, 10, 7)).toEqual([7, 8, 9]);
+    expect(epochsToScore(null, 0)).toEqual([]);
+  });
+});
+
+describe('engagementDelta', () => {
+  const totals = (n: number) => ({ totalLikes: n, totalRecasts: n, totalReplies: n, totalMentions: n });
+
+  it('should count what the totals gained over the epoch', () => {
+    expect(engagementDelta(totals(10), { ...totals(15), totalMentions: 12 })).toEqual({
+      likes: 5,
+      recasts: 5,
+      replies: 5,
+      mentions: 2,
+    });
+  });
+
+  it('should start an agent with no earlier snapshot at zero, and never go negative', () => {
+    expect(engagementDelta(null, totals(4)).likes).toBe(4);
+    expect(engagementDelta(totals(9), totals(4)).likes).toBe(0);
+    expect(engagementDelta(null, null).likes).toBe(0);
+  });
+});
+
+describe('sellerRevenue', () => {
+  it('should keep the price less any refund', () => {
+    expect(sellerRevenue({ priceUsdc: 25_000_000n, refundUsdc: null, escrowStatus: 'RELEASED' })).toBe(25_000_000n);
+    expect(sellerRevenue({ priceUsdc: 25_000_000n, refundUsdc: 5_000_000n, escrowStatus: 'RELEASED' })).toBe(
+      20_000_000n,
+    );
+  });
+
+  it('should count a full refund as no revenue', () => {
+    expect(sellerRevenue({ priceUsdc: 25_000_000n, refundUsdc: null, escrowStatus: 'REFUNDED' })).toBe(0n);
+  });
+});
+
+describe('scoreEpoch', () => {
+  it('should score agents against the best of the epoch', () => {
+    const [leader, idle] = scoreEpoch(12, [
+      inputs('a', { volume: 5000, pnl: 800, winRate: 0.7, sharpeRatio: 2, likes: 200, mentions: 20, revenueUsdc: 75 }),
+      inputs('b'),
+    ]);
+
+    expect(leader!.breakdown.engagement).toBe(10_000);
+    expect(leader!.breakdown.revenue).toBe(10_000);
+    expect(idle!.breakdown.engagement).toBe(0);
+    expect(idle!.breakdown.revenue).toBe(0);
+    expect(leader!.breakdown.totalScore).toBeGreaterThan(idle!.breakdown.totalScore);
+  });
+
+  it('should be deterministic, so rescoring an epoch writes the same rows', () => {
+    const epoch = [inputs('a', { likes: 40, errorRate: 0.1 }), inputs('b', { likes: 10, avgResponseTimeMs: 3000 })];
+
+    expect(scoreEpoch(3, epoch)).toEqual(scoreEpoch(3, epoch));
+  });
+
+  it('should mark failing agents down on reliability', () => {
+    const [steady, flaky] = scoreEpoch(3, [inputs('a'), inputs('b', { errorRate: 0.5, uptimePercent: 60 })]);
+
+    expect(flaky!.breakdown.reliability).toBeLessThan(steady!.breakdown.reliability);
+    expect(steady!.breakdown.tier).toBe(CEOSTier.Bronze);
+  });
+});
+
+describe('submitScoresArgs', () => {
+  it('should lay the scores out as one column per dimension, in agent order', () => {
+    const score = (address: string, n: number) => ({
+      address,
+      trading: n,
+      engagement: n + 1,
+      revenue: n + 2,
+      quality: n + 3,
+      reliability: n + 4,
+    });
+
+    expect(submitScoresArgs(7, [score('0xa', 100), score('0xb', 200)])).toEqual([
+      7n,
+      ['0xa', '0xb'],
+      [100n, 200n],
+      [101n, 201n],
+      [102n, 202n],
+      [103n, 203n],
+      [104n, 204n],
+    ]);
+  });
+});
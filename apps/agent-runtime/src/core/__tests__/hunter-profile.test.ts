@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HUNTER_PROFILE,
+  huntChannels,
+  huntKeywords,
+  isHuntingHour,
+  negativeKeywordIn,
+  parseHunterProfile,
+  pitchableOfferings,
+  type HunterProfile,
+} from '../hunter-profile';
+import { CATEGORY_CHANNELS, HUNT_KEYWORDS } from '../../config/social-hunter';
+
+const profile = (overrides: Partial<HunterProfile>): HunterProfile => ({ ...DEFAULT_HUNTER_PROFILE, ...overrides });
+
+describe('parseHunterProfile', () => {
+  it('should fall back to the defaults without a row', () => {
+    expect(parseHunterProfile(null)).toBe(DEFAULT_HUNTER_PROFILE);
+  });
+
+  it('should drop malformed active-hour windows', () => {
+    const parsed = parseHunterProfile({
+      ...DEFAULT_HUNTER_PROFILE,
+      activeHours: [{ days: [1], start: '09:00', end: '17:00' }, { days: [9], start: '25:00', end: 'x' }],
+    });
+
+    expect(parsed.activeHours).toEqual([{ days: [1], start: '09:00', end: '17:00' }]);
+  });
+});
+
+describe('huntChannels / huntKeywords', () => {
+  it('should use the category defaults when the profile names none', () => {
+    expect(huntChannels(DEFAULT_HUNTER_PROFILE, ['trading', 'trading'])).toEqual(CATEGORY_CHANNELS.trading);
+    expect(huntKeywords(DEFAULT_HUNTER_PROFILE)).toEqual(HUNT_KEYWORDS);
+  });
+
+  it('should use only the profile channels and keywords when set', () => {
+    const custom = profile({ channels: ['dev', 'dev', 'rust'], keywords: ['need a rust auditor'] });
+
+    expect(huntChannels(custom, ['trading'])).toEqual(['dev', 'rust']);
+    expect(huntKeywords(custom)).toEqual(['need a rust auditor']);
+  });
+});
+
+describe('isHuntingHour', () => {
+  it('should hunt at any hour without active hours', () => {
+    expect(isHuntingHour(DEFAULT_HUNTER_PROFILE, new Date('2026-10-19T03:00:00Z'))).toBe(true);
+  });
+
+  it('should only hunt inside the active hours, in the profile time zone', () => {
+    const weekdays = profile({
+      timezone: 'America/New_York',
+      activeHours: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }],
+    });
+
+    // Monday 10:00 and 22:00 in New York
+    expect(isHuntingHour(weekdays, new Date('2026-10-19T14:00:00Z'))).toBe(true);
+    expect(isHuntingHour(weekdays, new Date('2026-10-20T02:00:00Z'))).toBe(false);
+  });
+});
+
+describe('negativeKeywordIn', () => {
+  it('should match case-insensitively', () => {
+    const filtered = profile({ negativeKeywords: ['NSFW', 'airdrop'] });
+
+    expect(negativeKeywordIn(filtered, 'Anyone running an Airdrop bot?')).toBe('airdrop');
+    expect(negativeKeywordIn(filtered, 'need help with my landing page')).toBeNull();
+  });
+});
+
+describe('pitchableOfferings', () => {
+  const offerings = [{ slug: 'audit' }, { slug: 'copy' }];
+
+  it('should allow every offering unless the profile lists some', () => {
+    expect(pitchableOfferings(DEFAULT_HUNTER_PROFILE, offerings)).toEqual(offerings);
+    expect(pitchableOfferings(profile({ offeringSlugs: ['copy', 'retired'] }), offerings)).toEqual([{ slug: 'copy' }]);
+  });
+});
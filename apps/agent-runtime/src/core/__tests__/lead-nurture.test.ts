@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { decideNurture, isStopSignal, newResponses } from '../lead-nurture';
+
+describe('isStopSignal', () => {
+  it('should catch explicit requests to stop', () => {
+    expect(isStopSignal('not interested, thanks')).toBe(true);
+    expect(isStopSignal('Please stop replying to me')).toBe(true);
+    expect(isStopSignal('this is spam')).toBe(true);
+  });
+
+  it('should leave ordinary replies to the classifier', () => {
+    expect(isStopSignal('does it support stop loss orders?')).toBe(false);
+    expect(isStopSignal('how much for a weekly report?')).toBe(false);
+  });
+});
+
+describe('decideNurture', () => {
+  it('should stop at once when the lead is not interested', () => {
+    expect(decideNurture('NOT_INTERESTED', 0, 2)).toEqual({
+      status: 'DECLINED',
+      followUp: false,
+      stopReason: 'Not interested',
+    });
+  });
+
+  it('should follow up while under the limit', () => {
+    expect(decideNurture('QUESTION', 0, 2)).toEqual({ status: 'NURTURING', followUp: true });
+    expect(decideNurture('OBJECTION', 1, 2)).toEqual({ status: 'NURTURING', followUp: true });
+  });
+
+  it('should stall once the limit is reached', () => {
+    expect(decideNurture(null, 2, 2)).toMatchObject({ status: 'STALLED', followUp: false });
+    expect(decideNurture('INTERESTED', 0, 0)).toMatchObject({ status: 'STALLED', followUp: false });
+  });
+});
+
+describe('newResponses', () => {
+  const reply = (hash: string, authorFid: number, timestamp: string) => ({ hash, authorFid, timestamp });
+
+  it("should keep the author's unlogged replies, oldest first", () => {
+    const replies = [
+      reply('0xc', 42, '2026-10-19T12:03:00Z'),
+      reply('0xa', 42, '2026-10-19T12:01:00Z'),
+      reply('0xb', 7, '2026-10-19T12:02:00Z'),
+      reply('0xd', 42, '2026-10-19T12:00:00Z'),
+    ];
+
+    expect(newResponses(replies, 42, new Set(['0xd'])).map((r) => r.hash)).toEqual(['0xa', '0xc']);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+
+// Mock the logger
+vi.mock('../../config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+import { LLMRouter, createLLMRouter, llmConfigSchema } from '../llm-router';
+import type { GenerateTextOptions, LLMProvider } from '../../integrations/llm';
+
+const CONFIG = llmConfigSchema.parse({
+  providers: {
+    fixture: {
+      type: 'fixture',
+      responses: { 'lead-triage': '```json\n{"score": 8}\n```' },
+    },
+    local: { type: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', defaultModel: 'llama3.1:8b' },
+  },
+  default: { provider: 'fixture' },
+  tasks: { content: { provider: 'local' } },
+  agents: {
+    'agent-1': { tasks: { content: { provider: 'fixture', model: 'pinned' } } },
+    'agent-2': { default: { provider: 'local' } },
+  },
+});
+
+function recordingProvider(name: string, acceptsModelHints: boolean) {
+  const calls: GenerateTextOptions[] = [];
+  const provider: LLMProvider = {
+    name,
+    acceptsModelHints,
+    generateText: async (_prompt, options) => {
+      calls.push(options ?? {});
+      return { text: name, model: options?.model ?? 'default', tokensUsed: 0 };
+    },
+  };
+  return { provider, calls };
+}
+
+describe('LLMRouter.resolveRoute', () => {
+  const router = createLLMRouter(CONFIG, {});
+
+  it('prefers agent task routes, then agent default, then task, then default', () => {
+    expect(router.resolveRoute('agent-1', 'content')).toEqual({ provider: 'fixture', model: 'pinned' });
+    expect(router.resolveRoute('agent-2', 'content')).toEqual({ provider: 'local' });
+    expect(router.resolveRoute('agent-3', 'content')).toEqual({ provider: 'local' });
+    expect(router.resolveRoute('agent-3', 'trends')).toEqual({ provider: 'fixture' });
+    expect(router.resolveRoute()).toEqual({ provider: 'fixture' });
+  });
+});
+
+describe('LLMRouter.generateText', () => {
+  it('passes model hints only to providers that accept them', async () => {
+    const hinted = recordingProvider('fixture', true);
+    const local = recordingProvider('local', false);
+    const router = new LLMRouter(
+      new Map([
+        ['fixture', hinted.provider],
+        ['local', local.provider],
+      ]),
+      CONFIG,
+    );
+
+    await router.generateText('hi', { task: 'trends', model: 'openai/gpt-4o-mini' });
+    await router.generateText('hi', { task: 'content', model: 'openai/gpt-4o-mini' });
+    await router.generateText('hi', { agentId: 'agent-1', task: 'content', model: 'openai/gpt-4o-mini' });
+
+    expect(hinted.calls[0]?.model).toBe('openai/gpt-4o-mini');
+    expect(local.calls[0]?.model).toBeUndefined();
+    expect(hinted.calls[1]?.model).toBe('pinned');
+  });
+
+  it('answers deterministically offline with the fixture provider', async () => {
+    const router = createLLMRouter(CONFIG, {});
+
+    const first = await router.generateText('same prompt', { task: 'trends' });
+    const second = await router.generateText('same prompt', { task: 'trends' });
+    expect(first.text).toBe(second.text);
+    expect(first.text).toMatch(/^fixture:trends:[0-9a-f]{12}$/);
+
+    const triage = await router.generateJSON('triage', z.object({ score: z.number() }), {
+      task: 'lead-triage',
+    });
+    expect(triage).toEqual({ score: 8 });
+  });
+});
+
+describe('LLM config', () => {
+  it('rejects routes to unknown providers', () => {
+    const result = llmConfigSchema.safeParse({
+      providers: { fixture: { type: 'fixture' } },
+      default: { provider: 'missing' },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('requires API keys for hosted providers', () => {
+    const config = llmConfigSchema.parse({
+      providers: { anthropic: { type: 'anthropic' } },
+      default: { provider: 'anthropic' },
+    });
+    expect(() => createLLMRouter(config, {})).toThrow('ANTHROPIC_API_KEY');
+  });
+});
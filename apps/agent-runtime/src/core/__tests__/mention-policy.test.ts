@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { Mention } from '../../integrations/neynar';
+import { assessMention, authorReputation, engagementMode, spamScore } from '../mention-policy';
+
+const mention = (overrides: Partial<Mention>): Mention => ({
+  castHash: '0xmention',
+  authorFid: 4242,
+  authorUsername: 'alice',
+  text: '@agent what do you make of the new L2 fee market?',
+  timestamp: '2026-10-19T12:00:00.000Z',
+  authorScore: 0.8,
+  ...overrides,
+});
+
+const context = { agentFid: 1, mode: 'active' as const, repliesToAuthorLastHour: 0 };
+
+describe('spamScore', () => {
+  it('should pass an ordinary question', () => {
+    expect(spamScore('@agent what do you make of the new L2 fee market?')).toBe(0);
+  });
+
+  it('should flag giveaway bait with links and mass tags', () => {
+    expect(spamScore('FREE MINT airdrop https://x.io https://y.io @a @b @c @d')).toBe(1);
+  });
+
+  it('should flag a bare tag with nothing to answer', () => {
+    expect(spamScore('@agent')).toBeGreaterThanOrEqual(0.3);
+  });
+});
+
+describe('authorReputation', () => {
+  it('should use the Neynar user score when there is one', () => {
+    expect(authorReputation(mention({ authorScore: 0.42, authorFollowerCount: 100_000 }))).toBe(0.42);
+  });
+
+  it('should fall back to followers, lifted by a power badge', () => {
+    expect(authorReputation(mention({ authorScore: undefined, authorFollowerCount: 1000 }))).toBeCloseTo(1);
+    expect(authorReputation(mention({ authorScore: undefined, authorFollowerCount: 0 }))).toBe(0);
+    expect(authorReputation(mention({ authorScore: undefined, authorPowerBadge: true }))).toBe(0.9);
+  });
+});
+
+describe('assessMention', () => {
+  it('should reply to a reputable author asking something', () => {
+    expect(assessMention(mention({}), context)).toMatchObject({ reply: true, authorScore: 0.8, spamScore: 0 });
+  });
+
+  it('should skip own casts, spam, low reputation and authors in cooldown', () => {
+    expect(assessMention(mention({ authorFid: 1 }), context).reason).toBe('own cast');
+    expect(assessMention(mention({ text: 'claim your airdrop https://x.io https://y.io' }), context).reason).toMatch(/^spam/);
+    expect(assessMention(mention({ authorScore: 0.2 }), context).reason).toMatch(/^author reputation/);
+    expect(assessMention(mention({}), { ...context, repliesToAuthorLastHour: 3 }).reason).toBe('author cooldown');
+  });
+
+  it('should hold a lower bar for aggressive agents and only answer questions when passive', () => {
+    expect(assessMention(mention({ authorScore: 0.35 }), { ...context, mode: 'aggressive' }).reply).toBe(true);
+    expect(assessMention(mention({ text: '@agent gm' }), { ...context, mode: 'passive' }).reason).toBe(
+      'passive agent, not a question',
+    );
+  });
+});
+
+describe('engagementMode', () => {
+  it('should default to active', () => {
+    expect(engagementMode({ engagementMode: 'passive' })).toBe('passive');
+    expect(engagementMode({ engagementMode: 'loud' })).toBe('active');
+    expect(engagementMode(null)).toBe('active');
+  });
+});
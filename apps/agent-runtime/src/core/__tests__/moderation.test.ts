@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the logger
+vi.mock('../../config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+import {
+  applyModerationRules,
+  ContentModerator,
+  DEFAULT_MODERATION_POLICY,
+  textSimilarity,
+  type ModerationPolicy,
+  type ModerationStore,
+} from '../moderation';
+import type { LLMClient } from '../../integrations/llm';
+
+const policy = (overrides: Partial<ModerationPolicy> = {}): ModerationPolicy => ({
+  ...DEFAULT_MODERATION_POLICY,
+  ...overrides,
+});
+
+describe('applyModerationRules', () => {
+  it('should pass ordinary posts untouched', () => {
+    const result = applyModerationRules(policy(), { text: 'Shipping beats planning, most weeks.' }, []);
+
+    expect(result).toEqual({ verdict: 'PASS', text: 'Shipping beats planning, most weeks.', findings: [] });
+  });
+
+  it('should block banned topics and mask banned words', () => {
+    const blocked = applyModerationRules(
+      policy({ bannedTopics: ['election'] }),
+      { text: 'Hot take on the Election results' },
+      [],
+    );
+    expect(blocked.verdict).toBe('BLOCK');
+
+    const masked = applyModerationRules(policy({ bannedWords: ['darn'] }), { text: 'Darn fine yields' }, []);
+    expect(masked).toMatchObject({ verdict: 'REWRITE', text: 'D*** fine yields' });
+  });
+
+  it('should disclaim financial advice and redact contact details', () => {
+    const result = applyModerationRules(
+      policy(),
+      { text: 'You should buy ETH before Friday. Questions? ops@example.com or +1 415 555 0100' },
+      [],
+    );
+
+    expect(result.verdict).toBe('REWRITE');
+    expect(result.text).toBe(
+      'You should buy ETH before Friday. Questions? [redacted] or [redacted]\n\nNot financial advice.',
+    );
+    expect(result.findings.map((f) => f.check)).toEqual(['financial-advice', 'pii']);
+  });
+
+  it('should leave year ranges alone', () => {
+    expect(applyModerationRules(policy(), { text: 'Lessons from 2024 - 2025' }, []).verdict).toBe('PASS');
+  });
+
+  it('should block scams and near-duplicates of recent casts', () => {
+    expect(
+      applyModerationRules(policy(), { text: 'Connect your wallet to claim the free airdrop' }, []).verdict,
+    ).toBe('BLOCK');
+
+    const duplicate = applyModerationRules(
+      policy(),
+      { text: 'Onchain agents will replace most dashboards.' },
+      ['Onchain agents will replace most dashboards'],
+    );
+    expect(duplicate.findings[0]).toMatchObject({ check: 'duplicate', verdict: 'BLOCK' });
+    expect(textSimilarity('a b c', 'x y z')).toBe(0);
+  });
+
+  it('should rewrite every part of a thread', () => {
+    const result = applyModerationRules(
+      policy({ bannedWords: ['heck'] }),
+      { text: 'Part one', parts: ['Part one', 'What the heck is restaking'] },
+      [],
+    );
+
+    expect(result.parts).toEqual(['Part one', 'What the h*** is restaking']);
+  });
+});
+
+describe('ContentModerator', () => {
+  const store = (overrides: Partial<ModerationPolicy>): ModerationStore => ({
+    getPolicy: () => Promise.resolve(policy(overrides)),
+    recentCastTexts: () => Promise.resolve([]),
+  });
+
+  it('should let the classifier block what the rules passed', async () => {
+    const llm = {
+      generateJSON: vi.fn().mockResolvedValue({ verdict: 'block', reason: 'Mocks a named founder' }),
+    } as unknown as LLMClient;
+    const moderator = new ContentModerator(store({ llmClassifier: true }), llm);
+
+    const result = await moderator.moderate({ agentId: 'a1', persona: 'p' }, { text: 'A spicy post' });
+
+    expect(result.verdict).toBe('BLOCK');
+    expect(result.findings).toEqual([{ check: 'classifier', verdict: 'BLOCK', reason: 'Mocks a named founder' }]);
+    expect(llm.generateJSON).toHaveBeenCalledWith(
+      expect.stringContaining('A spicy post'),
+      expect.anything(),
+      expect.objectContaining({ task: 'moderation', agentId: 'a1' }),
+    );
+  });
+
+  it('should keep the rule verdict when the classifier fails', async () => {
+    const llm = { generateJSON: vi.fn().mockRejectedValue(new Error('timeout')) } as unknown as LLMClient;
+    const moderator = new ContentModerator(store({ llmClassifier: true }), llm);
+
+    const result = await moderator.moderate({ agentId: 'a1', persona: 'p' }, { text: 'A calm post' });
+
+    expect(result.verdict).toBe('PASS');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PromptRegistry,
+  promptConfigSchema,
+  readPromptRef,
+  renderTemplate,
+} from '../prompt-registry';
+import { PROMPT_TEMPLATES, type PromptTemplate } from '../../prompts/templates';
+
+const persona = 'A DeFi researcher who explains yield strategies';
+
+const originalV2: PromptTemplate = {
+  name: 'post.original',
+  version: 2,
+  prompt: 'v2 for {{persona}}',
+};
+
+describe('renderTemplate', () => {
+  it('should fill placeholders in a single pass', () => {
+    expect(renderTemplate('Hi {{name}}, {{n}} left', { name: '{{n}}', n: 3 })).toBe('Hi {{n}}, 3 left');
+  });
+
+  it('should throw on a missing variable', () => {
+    expect(() => renderTemplate('Hi {{name}}', {})).toThrow('Missing prompt variable "name"');
+  });
+});
+
+describe('PromptRegistry', () => {
+  it('should serve the latest version by default', () => {
+    const registry = new PromptRegistry([...PROMPT_TEMPLATES, originalV2]);
+
+    const rendered = registry.render('post.original', { persona });
+
+    expect(rendered).toEqual({ template: 'post.original', version: 2, prompt: `v2 for ${persona}` });
+  });
+
+  it('should split traffic between versions by weight', () => {
+    const registry = new PromptRegistry([...PROMPT_TEMPLATES, originalV2], {
+      traffic: { 'post.original': { '1': 1, '2': 3 } },
+    });
+
+    expect(registry.select('post.original', () => 0.2)).toBe(1);
+    expect(registry.select('post.original', () => 0.3)).toBe(2);
+    expect(registry.select('post.original', () => 0.99)).toBe(2);
+    // Untouched names still get their latest version
+    expect(registry.select('post.thread', () => 0)).toBe(1);
+  });
+
+  it('should render the system prompt when the template has one', () => {
+    const registry = new PromptRegistry(PROMPT_TEMPLATES);
+
+    const rendered = registry.render('lead-triage', {
+      agentName: 'Yieldy',
+      agentPersona: persona,
+      offerings: '- Yield audit (analysis): Reviews a vault [yield-audit] — $5 USDC',
+      hireBaseUrl: 'https://ceos.run/hire',
+      maxPitchLength: 280,
+      threshold: 7,
+      castAuthor: 'alice',
+      channelLine: 'Channel: (none)',
+      castText: 'anyone know a good vault auditor?',
+    });
+
+    expect(rendered.systemPrompt).toContain('You are Yieldy');
+    expect(rendered.prompt).toContain('Author: @alice');
+  });
+
+  it('should reject traffic for unknown versions and duplicate templates', () => {
+    expect(
+      () => new PromptRegistry(PROMPT_TEMPLATES, { traffic: { 'post.original': { '9': 1 } } }),
+    ).toThrow('unknown version post.original v9');
+    expect(() => new PromptRegistry([...PROMPT_TEMPLATES, ...PROMPT_TEMPLATES])).toThrow('Duplicate');
+  });
+
+  it('should ignore traffic for the web preview templates', () => {
+    const config = promptConfigSchema.parse({ traffic: { 'preview.cast': { '1': 1 } } });
+
+    expect(() => new PromptRegistry(PROMPT_TEMPLATES, config)).not.toThrow();
+  });
+});
+
+describe('readPromptRef', () => {
+  it('should read the prompt reference a skill reports', () => {
+    expect(readPromptRef({ text: 'hi', prompt: { template: 'lead-triage', version: 1 } })).toEqual({
+      template: 'lead-triage',
+      version: 1,
+    });
+    expect(readPromptRef({ prompt: 'free text' })).toBeNull();
+    expect(readPromptRef(null)).toBeNull();
+  });
+});
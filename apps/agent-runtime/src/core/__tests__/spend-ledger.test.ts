@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the logger
+vi.mock('../../config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+import {
+  BudgetExceededError,
+  evaluateBudget,
+  spendWindows,
+  type BudgetStatus,
+  type SpendEntryInput,
+  type SpendLedger,
+} from '../spend-ledger';
+import { LLMRouter, llmConfigSchema } from '../llm-router';
+import { llmCallCostUsdc } from '../../config/spend-pricing';
+import type { LLMProvider } from '../../integrations/llm';
+
+const budget = (onExhausted: 'REFUSE' | 'DOWNGRADE') => ({
+  dailyLimitUsdc: 1_000_000n,
+  monthlyLimitUsdc: 10_000_000n,
+  onExhausted,
+});
+
+describe('evaluateBudget', () => {
+  it('allows spend under both limits', () => {
+    expect(evaluateBudget(budget('REFUSE'), { todayUsdc: 999_999n, monthUsdc: 5_000_000n })).toEqual({
+      state: 'ok',
+    });
+  });
+
+  it('applies the exhausted action once either limit is reached', () => {
+    expect(evaluateBudget(budget('REFUSE'), { todayUsdc: 1_000_000n, monthUsdc: 1_000_000n })).toMatchObject({
+      state: 'refuse',
+      reason: expect.stringContaining('daily'),
+    });
+    expect(evaluateBudget(budget('DOWNGRADE'), { todayUsdc: 0n, monthUsdc: 10_000_000n })).toMatchObject({
+      state: 'downgrade',
+      reason: expect.stringContaining('monthly'),
+    });
+  });
+
+  it('ignores unset limits', () => {
+    const unlimited = { dailyLimitUsdc: null, monthlyLimitUsdc: null, onExhausted: 'REFUSE' as const };
+    expect(evaluateBudget(unlimited, { todayUsdc: 10n ** 12n, monthUsdc: 10n ** 12n })).toEqual({ state: 'ok' });
+  });
+});
+
+describe('spendWindows', () => {
+  it('starts at the UTC day and month', () => {
+    const { dayStart, monthStart } = spendWindows(new Date('2025-03-15T23:30:00-05:00'));
+    expect(dayStart.toISOString()).toBe('2025-03-16T00:00:00.000Z');
+    expect(monthStart.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+});
+
+describe('LLMRouter with a spend ledger', () => {
+  const config = llmConfigSchema.parse({
+    providers: {
+      hosted: { type: 'openrouter' },
+      local: { type: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', defaultModel: 'llama3.1:8b' },
+    },
+    default: { provider: 'hosted' },
+    budgetFallback: { provider: 'hosted', model: 'openai/gpt-4o-mini' },
+  });
+
+  function setup(status: BudgetStatus) {
+    const entries: SpendEntryInput[] = [];
+    const ledger: SpendLedger = {
+      getStatus: async () => status,
+      record: async (entry) => {
+        entries.push(entry);
+      },
+    };
+    const generateText = vi.fn<LLMProvider['generateText']>(async (_prompt, options) => ({
+      text: 'ok',
+      model: options?.model ?? 'anthropic/claude-sonnet-4',
+      tokensUsed: 1500,
+      promptTokens: 1000,
+      completionTokens: 500,
+    }));
+    const provider: LLMProvider = { name: 'hosted', acceptsModelHints: true, generateText };
+    const router = new LLMRouter(
+      new Map([
+        ['hosted', provider],
+        ['local', { ...provider, name: 'local' }],
+      ]),
+      config,
+      ledger,
+    );
+    return { router, entries, generateText };
+  }
+
+  it('records the priced cost of calls made for an agent', async () => {
+    const { router, entries } = setup({ state: 'ok' });
+
+    await router.generateText('hi', { agentId: 'agent-1', task: 'content' });
+    await router.generateText('hi', { task: 'trends' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      agentId: 'agent-1',
+      kind: 'LLM',
+      provider: 'hosted',
+      model: 'anthropic/claude-sonnet-4',
+      task: 'content',
+      costUsdc: llmCallCostUsdc('anthropic/claude-sonnet-4', 1000, 500),
+    });
+    // $3/M in + $15/M out
+    expect(entries[0]?.costUsdc).toBe(10_500n);
+  });
+
+  it('refuses calls once a REFUSE budget is exhausted', async () => {
+    const { router, entries, generateText } = setup({ state: 'refuse', reason: 'daily limit reached' });
+
+    await expect(router.generateText('hi', { agentId: 'agent-1', task: 'content' })).rejects.toBeInstanceOf(
+      BudgetExceededError,
+    );
+    expect(generateText).not.toHaveBeenCalled();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('downgrades to the fallback route in DOWNGRADE mode', async () => {
+    const { router, entries } = setup({ state: 'downgrade', reason: 'daily limit reached' });
+
+    const result = await router.generateText('hi', {
+      agentId: 'agent-1',
+      task: 'content',
+      model: 'anthropic/claude-opus-4',
+    });
+
+    expect(result.model).toBe('openai/gpt-4o-mini');
+    expect(entries[0]?.costUsdc).toBe(llmCallCostUsdc('openai/gpt-4o-mini', 1000, 500));
+  });
+});
+
+describe('llmCallCostUsdc', () => {
+  it('prices vendor-prefixed and dated ids alike', () => {
+    expect(llmCallCostUsdc('claude-sonnet-4-20250514', 1_000_000, 0)).toBe(
+      llmCallCostUsdc('anthropic/claude-sonnet-4', 1_000_000, 0),
+    );
+    expect(llmCallCostUsdc('openai/gpt-4o-mini', 1_000_000, 1_000_000)).toBe(750_000n);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { ContentType } from '../types';
+import { resolveStrategy } from '../../strategies/posting';
+import {
+  applyTuning,
+  clampToBounds,
+  describeChanges,
+  engagementScore,
+  learnStrategy,
+  MIN_TUNING_SAMPLE,
+  postingDelayHours,
+  thompsonWeights,
+  armPosteriors,
+  type CastOutcome,
+} from '../strategy-tuner';
+
+/** Deterministic PRNG (mulberry32), so sampled weights are repeatable. */
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const outcome = (overrides: Partial<CastOutcome>): CastOutcome => ({
+  contentType: ContentType.ORIGINAL,
+  topic: null,
+  hour: 12,
+  hasMedia: false,
+  score: 5,
+  ...overrides,
+});
+
+/** Threads earn far more than originals; media posts sit in between. */
+const history: CastOutcome[] = [
+  ...Array.from({ length: 12 }, () => outcome({ contentType: ContentType.THREAD, score: 40, hour: 9, topic: 'L2 fees' })),
+  ...Array.from({ length: 12 }, () => outcome({ contentType: ContentType.ORIGINAL, score: 1, hour: 22, topic: 'memes' })),
+  ...Array.from({ length: 6 }, () => outcome({ contentType: ContentType.MEDIA, score: 10, hour: 15, hasMedia: true })),
+];
+
+describe('engagementScore', () => {
+  it('should weigh replies over recasts over likes', () => {
+    expect(engagementScore({ likes: 1, recasts: 1, replies: 1 })).toBe(6);
+  });
+});
+
+describe('thompsonWeights', () => {
+  it('should favour the arm with more engagement, while still trying the others', () => {
+    const posteriors = armPosteriors(history, (o) => o.contentType);
+    const weights = thompsonWeights(['thread', 'original'], posteriors, seeded(1));
+
+    expect(weights.thread).toBeGreaterThan(0.9);
+    expect(weights.thread! + weights.original!).toBeCloseTo(1);
+  });
+});
+
+describe('clampToBounds', () => {
+  it('should pin arms at their bounds and share the rest in proportion', () => {
+    const clamped = clampToBounds(
+      { a: 0.9, b: 0.06, c: 0.04 },
+      { a: { min: 0, max: 0.5 }, b: { min: 0, max: 1 }, c: { min: 0, max: 1 } },
+    );
+
+    expect(clamped.a).toBeCloseTo(0.5);
+    expect(clamped.b).toBeCloseTo(0.3);
+    expect(clamped.c).toBeCloseTo(0.2);
+  });
+
+  it('should lift arms to their minimum', () => {
+    const clamped = clampToBounds({ a: 1, b: 0 }, { a: { min: 0, max: 1 }, b: { min: 0.1, max: 1 } });
+
+    expect(clamped.b).toBeCloseTo(0.1);
+    expect(clamped.a).toBeCloseTo(0.9);
+  });
+});
+
+describe('learnStrategy', () => {
+  const strategy = resolveStrategy({
+    name: 'Balanced',
+    topics: ['L2 fees', 'memes'],
+    adaptive: { enabled: true, bounds: { thread: { min: 0.1, max: 0.4 } } },
+  });
+
+  it('should not tune on too few casts', () => {
+    expect(learnStrategy(strategy, history.slice(0, MIN_TUNING_SAMPLE - 1))).toBeNull();
+  });
+
+  it('should shift weight towards what earns engagement, within bounds', () => {
+    const learned = learnStrategy(strategy, history, seeded(7))!;
+    const { contentWeights, topicWeights, hourWeights } = learned.tuning;
+
+    expect(contentWeights.thread).toBeCloseTo(0.4); // Wants more, held at the creator's max
+    expect(contentWeights.original!).toBeLessThan(0.15);
+    // Default bounds: no less than half the base weight
+    expect(contentWeights.original!).toBeGreaterThanOrEqual(0.075 - 1e-9);
+    expect(Object.values(contentWeights).reduce((sum, w) => sum + w, 0)).toBeCloseTo(1);
+
+    expect(topicWeights['L2 fees']!).toBeGreaterThan(topicWeights.memes!);
+    expect(hourWeights).toHaveLength(24);
+    expect(hourWeights[9]!).toBeGreaterThan(hourWeights[22]!);
+  });
+
+  it('should not learn an image chance for agents without media', () => {
+    const noMedia = resolveStrategy({ mediaGeneration: false, adaptive: { enabled: true } });
+    expect(learnStrategy(noMedia, history, seeded(3))!.tuning.mediaProbability).toBeNull();
+  });
+
+  it('should explain each change with the engagement behind it', () => {
+    const learned = learnStrategy(strategy, history, seeded(7))!;
+    const changes = describeChanges(strategy, null, learned);
+    const content = changes.find((change) => change.dimension === 'CONTENT_TYPE')!;
+
+    expect(content.before.thread).toBeCloseTo(0.15);
+    expect(content.after.thread).toBeCloseTo(0.4);
+    expect(content.explanation).toContain('thread 0.15 → 0.40 (12 casts, avg engagement 40.0)');
+    expect(content.explanation).toContain('Learned from 30 casts');
+  });
+
+  it('should log nothing when the weights hold still', () => {
+    const learned = learnStrategy(strategy, history, seeded(7))!;
+    expect(describeChanges(strategy, learned.tuning, learned)).toEqual([]);
+  });
+});
+
+describe('applyTuning', () => {
+  it('should post by the tuned weights, keeping types the strategy dropped out', () => {
+    const strategy = resolveStrategy({ mediaGeneration: false, adaptive: { enabled: true } });
+    const tuned = applyTuning(strategy, {
+      contentWeights: { original: 0.5, thread: 0.3, engagement: 0.2, media: 0.9 },
+      topicWeights: {},
+      hourWeights: [],
+      mediaProbability: null,
+      sampleSize: 20,
+    });
+
+    expect(tuned.weights.map((w) => w.type)).not.toContain(ContentType.MEDIA);
+    expect(tuned.weights.find((w) => w.type === ContentType.ORIGINAL)?.weight).toBe(0.5);
+    expect(tuned.mediaProbability).toBe(0);
+    expect(tuned.hourWeights).toBeUndefined();
+  });
+});
+
+describe('postingDelayHours', () => {
+  const hourWeights = Array.from({ length: 24 }, (_, hour) => (hour === 15 ? 1 : 0));
+
+  it('should hold the post for the best hour before the next one is due', () => {
+    expect(postingDelayHours(hourWeights, 12, 6, () => true, seeded(1))).toBe(3);
+  });
+
+  it('should post now when the best hour is out of reach or not allowed', () => {
+    expect(postingDelayHours(hourWeights, 16, 6, () => true, seeded(1))).toBe(0);
+    expect(postingDelayHours(hourWeights, 12, 6, (offset) => offset !== 3, seeded(1))).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import {
+  autoPublishAt,
+  DEFAULT_SUPERVISION_POLICY,
+  DraftQueue,
+  holdsDraft,
+  type SupervisionPolicy,
+} from '../supervision';
+
+const policy = (overrides: Partial<SupervisionPolicy> = {}): SupervisionPolicy => ({
+  ...DEFAULT_SUPERVISION_POLICY,
+  enabled: true,
+  ...overrides,
+});
+
+describe('holdsDraft', () => {
+  it('should hold nothing while supervision is off', () => {
+    expect(holdsDraft(DEFAULT_SUPERVISION_POLICY, 'CAST')).toBe(false);
+    expect(holdsDraft(DEFAULT_SUPERVISION_POLICY, 'HUNT_PITCH')).toBe(false);
+  });
+
+  it('should hold only the kinds the policy selects', () => {
+    const p = policy({ holdReplies: false });
+
+    expect(holdsDraft(p, 'CAST')).toBe(true);
+    expect(holdsDraft(p, 'THREAD')).toBe(true);
+    expect(holdsDraft(p, 'MENTION_REPLY')).toBe(false);
+    expect(holdsDraft(p, 'HUNT_PITCH')).toBe(true);
+    expect(holdsDraft(p, 'HUNT_FOLLOW_UP')).toBe(true);
+  });
+});
+
+describe('autoPublishAt', () => {
+  it('should wait indefinitely without a timeout', () => {
+    expect(autoPublishAt(policy())).toBeNull();
+  });
+
+  it('should publish after the configured minutes', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    expect(autoPublishAt(policy({ autoPublishAfterMinutes: 90 }), now)).toEqual(new Date('2026-01-01T13:30:00Z'));
+  });
+});
+
+describe('DraftQueue', () => {
+  function mockPrisma(row: Record<string, unknown> | null) {
+    return {
+      agentSupervisionPolicy: { findUnique: vi.fn().mockResolvedValue(row) },
+      agentDraft: { create: vi.fn().mockResolvedValue({ id: 'draft-1' }) },
+    };
+  }
+
+  it('should let unsupervised agents publish', async () => {
+    const prisma = mockPrisma(null);
+    const queue = new DraftQueue(prisma as unknown as PrismaClient);
+
+    await expect(queue.holdIfSupervised({ agentId: 'a1', kind: 'CAST', text: 'gm' })).resolves.toBeNull();
+    expect(prisma.agentDraft.create).not.toHaveBeenCalled();
+  });
+
+  it('should hold a thread with its joined text as the generated original', async () => {
+    const prisma = mockPrisma({ ...policy(), agentId: 'a1' });
+    const queue = new DraftQueue(prisma as unknown as PrismaClient);
+
+    const id = await queue.holdIfSupervised({ agentId: 'a1', kind: 'THREAD', text: 'One', parts: ['One', 'Two'] });
+
+    expect(id).toBe('draft-1');
+    expect(prisma.agentDraft.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        kind: 'THREAD',
+        parts: ['One', 'Two'],
+        generatedText: 'One\n\nTwo',
+        autoPublishAt: null,
+      }),
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { resumePoint, threadLinks } from '../threads';
+
+describe('threadLinks', () => {
+  const hashes = ['0xa', '0xb', '0xc'];
+
+  it('should link each part to the one before and the opening cast', () => {
+    expect(threadLinks(hashes, 0)).toEqual({ parentHash: null, threadRootHash: '0xa', threadPosition: 0 });
+    expect(threadLinks(hashes, 2)).toEqual({ parentHash: '0xb', threadRootHash: '0xa', threadPosition: 2 });
+  });
+
+  it('should reject parts not posted yet', () => {
+    expect(() => threadLinks(hashes, 3)).toThrow('Thread part 3 has not been posted');
+    expect(() => threadLinks([], 0)).toThrow();
+  });
+});
+
+describe('resumePoint', () => {
+  it('should start over when nothing is up', () => {
+    expect(resumePoint([])).toBeUndefined();
+  });
+
+  it('should pick up after the last posted part', () => {
+    expect(resumePoint(['0xa', '0xb'])).toEqual({ fromIndex: 2, parentHash: '0xb' });
+  });
+});
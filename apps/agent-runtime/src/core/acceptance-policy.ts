@@ -0,0 +1,93 @@
+/**
+ * Service Job Acceptance Policy
+ *
+ * Decides whether a seller agent takes on a CREATED service job. The
+ * rules come from the agent's ServiceAcceptancePolicy (managed through
+ * PUT /api/agents/[id]/acceptance-policy) and are applied in order:
+ *
+ *   1. Buyer on the deny list                → reject
+ *   2. Allow list set and buyer not on it    → reject
+ *   3. Buyer reputation below the minimum    → reject
+ *   4. Seller at its concurrent job limit    → defer (retried next poll)
+ *
+ * A job that passes the rules is accepted, unless the policy asks for an
+ * LLM review of its requirements — the acceptance worker runs that last,
+ * since it is the only step that costs anything.
+ */
+
+export interface AcceptancePolicy {
+  enabled: boolean;
+  allowedBuyerIds: string[];
+  deniedBuyerIds: string[];
+  /** ERC8004Identity.reputationScore (0–10000); null = no minimum */
+  minBuyerReputation: number | null;
+  /** ACCEPTED + DELIVERING jobs the seller works on at once */
+  maxConcurrentJobs: number;
+  llmReviewEnabled: boolean;
+  llmReviewInstructions: string | null;
+}
+
+/** Used for agents that never saved a policy. */
+export const DEFAULT_ACCEPTANCE_POLICY: AcceptancePolicy = {
+  enabled: true,
+  allowedBuyerIds: [],
+  deniedBuyerIds: [],
+  minBuyerReputation: null,
+  maxConcurrentJobs: 5,
+  llmReviewEnabled: false,
+  llmReviewInstructions: null,
+};
+
+export interface AcceptanceCandidate {
+  buyerAgentId: string;
+  /** Buyer's reputation score; null when the buyer has no ERC-8004 identity */
+  buyerReputation: number | null;
+  /** Seller jobs currently ACCEPTED or DELIVERING */
+  activeJobs: number;
+}
+
+export type AcceptanceDecision =
+  | { action: 'accept' }
+  | { action: 'review' }
+  | { action: 'reject'; reason: string }
+  | { action: 'defer'; reason: string };
+
+/**
+ * Apply the policy's deterministic rules to a CREATED job.
+ *
+ * @returns 'review' when the job passed the rules but needs the LLM check
+ */
+export function evaluateAcceptanceRules(
+  policy: AcceptancePolicy,
+  candidate: AcceptanceCandidate,
+): AcceptanceDecision {
+  if (policy.deniedBuyerIds.includes(candidate.buyerAgentId)) {
+    return { action: 'reject', reason: 'Buyer is on the seller deny list' };
+  }
+
+  if (
+    policy.allowedBuyerIds.length > 0 &&
+    !policy.allowedBuyerIds.includes(candidate.buyerAgentId)
+  ) {
+    return { action: 'reject', reason: 'Seller only accepts jobs from allow-listed buyers' };
+  }
+
+  if (policy.minBuyerReputation !== null) {
+    const reputation = candidate.buyerReputation ?? 0;
+    if (reputation < policy.minBuyerReputation) {
+      return {
+        action: 'reject',
+        reason: `Buyer reputation ${reputation} is below the required ${policy.minBuyerReputation}`,
+      };
+    }
+  }
+
+  if (candidate.activeJobs >= policy.maxConcurrentJobs) {
+    return {
+      action: 'defer',
+      reason: `Seller is at its limit of ${policy.maxConcurrentJobs} concurrent jobs`,
+    };
+  }
+
+  return policy.llmReviewEnabled ? { action: 'review' } : { action: 'accept' };
+}
@@ -3,8 +3,17 @@ import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
 import { ContentPipeline } from './content-pipeline.js';
 import { AgentScheduler } from './scheduler.js';
-import { ServiceClient, type ServiceJob, type X402SignFn } from '../integrations/service-client.js';
+import {
+  ServiceClient,
+  type NegotiatedQuote,
+  type ServiceJob,
+  type ServiceWorkflow,
+  type WorkflowDefinition,
+  type X402SignFn,
+} from '../integrations/service-client.js';
+import type { A2ASignFn } from '../integrations/a2a-signing.js';
 import type { ContentStrategy } from '../strategies/posting.js';
+import type { AgentCalendar } from './content-calendar.js';
 
 export enum AgentState {
   IDLE = 'IDLE',
@@ -22,6 +31,8 @@ interface AgentConfig {
   fid: number;
   walletAddress: string; // V2: required for ServiceClient binding
   strategy: ContentStrategy;
+  /** Posting cadence, windows, series and one-off posts; absent = strategy interval */
+  calendar?: AgentCalendar;
   maxRetries?: number;
 }
 
@@ -45,6 +56,8 @@ interface AgentEngineEvents {
 
 const MAX_RETRIES_DEFAULT = 3;
 const DEFAULT_MAX_PRICE_USDC = 50_000; // 50 USDC in micro-USDC (6 decimals = 50_000_000, but spec says 50000)
+/** Bids a buyer sends before walking away (the seller caps rounds too) */
+const MAX_NEGOTIATION_BIDS = 10;
 
 export class AgentEngine extends EventEmitter {
   private readonly agents: Map<string, AgentInstance> = new Map();
@@ -52,6 +65,7 @@ export class AgentEngine extends EventEmitter {
   private readonly scheduler: AgentScheduler;
   private readonly apiBaseUrl: string;
   private readonly signPayment: X402SignFn | undefined;
+  private readonly signA2A: A2ASignFn | undefined;
   private readonly logger: pino.Logger;
   private isShuttingDown = false;
 
@@ -65,11 +79,13 @@ export class AgentEngine extends EventEmitter {
     pipeline: ContentPipeline,
     scheduler: AgentScheduler,
     signPayment?: X402SignFn,
+    signA2A?: A2ASignFn,
   ) {
     super();
     this.pipeline = pipeline;
     this.scheduler = scheduler;
     this.signPayment = signPayment;
+    this.signA2A = signA2A;
     this.apiBaseUrl = process.env.CEOS_API_URL ?? 'http://localhost:3000';
     this.logger = rootLogger.child({ module: 'AgentEngine' });
 
@@ -85,12 +101,14 @@ export class AgentEngine extends EventEmitter {
     }
 
     // V2: Each agent gets its own identity-bound ServiceClient
-    // Pass the x402 signing function so createJob() can sign USDC payments
+    // Pass the x402 signing function so createJob() can sign USDC payments,
+    // and the A2A signer so negotiation messages are attributable
     const serviceClient = new ServiceClient(
       this.apiBaseUrl,
       agentConfig.id,
       agentConfig.walletAddress,
       this.signPayment,
+      this.signA2A,
     );
 
     const instance: AgentInstance = {
@@ -108,7 +126,7 @@ export class AgentEngine extends EventEmitter {
 
     this.logger.info({ agentId: id, name: agentConfig.name }, 'Starting agent');
 
-    await this.scheduler.scheduleAgent(id, agentConfig.strategy);
+    await this.scheduler.scheduleAgent(id, agentConfig.strategy, agentConfig.calendar);
 
     this.emit('agent-started', id);
     this.logger.info({ agentId: id }, 'Agent started and scheduled');
@@ -134,6 +152,16 @@ export class AgentEngine extends EventEmitter {
     this.logger.info({ agentId }, 'Agent stopped');
   }
 
+  /** Apply a running agent's latest strategy and content calendar to its jobs. */
+  async syncSchedule(agentId: string, strategy: ContentStrategy, calendar: AgentCalendar): Promise<void> {
+    const instance = this.agents.get(agentId);
+    if (!instance) return;
+
+    instance.config.strategy = strategy;
+    instance.config.calendar = calendar;
+    await this.scheduler.syncSchedule(agentId, strategy, calendar);
+  }
+
   getState(agentId: string): AgentState | null {
     const instance = this.agents.get(agentId);
     return instance?.state ?? null;
@@ -238,11 +266,13 @@ export class AgentEngine extends EventEmitter {
    * V2 Signature: (agentId, capability, requirements, maxPriceUsdc?)
    *
    * Flow:
-   * 1. Discover offerings matching the capability
+   * 1. Discover offerings for the capability tag, ranked by relevance
+   *    (tag match, inputSchema fit, reputation, price, latency)
    * 2. Filter by maxPriceUsdc budget
-   * 3. Pick the best match (highest rated, then most jobs completed)
+   * 3. Pick the most relevant offering that declares the capability tag
    * 4. Create a service job with the given requirements
    * 5. Wait for completion and return the result
+   * 6. Approve usable deliverables so the escrowed payment is released
    *
    * This is the "sovereign action" — the agent autonomously decides to buy
    * a service from the marketplace. The x402 payment is handled by the API.
@@ -253,82 +283,231 @@ export class AgentEngine extends EventEmitter {
     requirements: Record<string, unknown>,
     maxPriceUsdc: number = DEFAULT_MAX_PRICE_USDC,
   ): Promise<ServiceJob> {
-    const instance = this.agents.get(agentId);
-    if (!instance) {
-      throw new Error(`Agent ${agentId} is not running — cannot purchase service`);
+    const { job } = await this.hireService(agentId, capability, requirements, { maxPriceUsdc });
+    const { serviceClient } = this.getInstanceOrThrow(agentId);
+
+    // TODO: RLAIF — log purchase decision context for training data
+    // (capability query, offerings considered, selection rationale, price)
+
+    // 4. Wait for job completion
+    const completed = await serviceClient.waitForCompletion(job.id);
+
+    // 5. Release escrow only for deliverables the buyer can actually use.
+    // Anything else is left HELD — the buyer's creator can dispute it, and
+    // otherwise it auto-releases when the approval window lapses.
+    if (
+      completed.status === 'COMPLETED' &&
+      completed.escrowStatus === 'HELD' &&
+      completed.deliverables &&
+      !('error' in completed.deliverables)
+    ) {
+      try {
+        return await serviceClient.approveJob(completed.id);
+      } catch (err) {
+        this.logger.warn(
+          { agentId, jobId: completed.id, error: err instanceof Error ? err.message : String(err) },
+          'Failed to approve completed job — escrow will auto-release',
+        );
+      }
     }
 
-    const { serviceClient } = instance;
+    return completed;
+  }
+
+  /**
+   * Select an offering and create (and pay for) a service job without
+   * waiting for it — steps 1–4 of `purchaseService`. Workflows use this
+   * to hire each step and track the job themselves.
+   *
+   * The job is paid for at the quoted charge of the offering's pricing
+   * model (subscription calls already covered cost nothing; metered jobs
+   * pre-authorize their unit cap), and that charge is what the price cap
+   * is checked against. A per_call offering over the cap whose seller
+   * negotiates is bid down to the cap; the job is then created with the
+   * seller's signed quote.
+   *
+   * @param options.offeringSlug - Hire this offering instead of discovering one
+   * @param options.maxPriceUsdc - Price cap in micro-USDC
+   */
+  async hireService(
+    agentId: string,
+    capability: string,
+    requirements: Record<string, unknown>,
+    options: { maxPriceUsdc?: number; offeringSlug?: string } = {},
+  ): Promise<{ job: ServiceJob; offeringSlug: string; priceUsdc: bigint }> {
+    const { serviceClient } = this.getInstanceOrThrow(agentId);
+    const maxPriceUsdc = options.maxPriceUsdc ?? DEFAULT_MAX_PRICE_USDC;
 
     this.logger.info(
-      { agentId, capability, maxPriceUsdc },
+      { agentId, capability, maxPriceUsdc, offeringSlug: options.offeringSlug },
       'Agent purchasing service by capability',
     );
 
-    // 1. Discover services matching the capability
-    const offerings = await serviceClient.discover({
-      capability,
-      maxPrice: maxPriceUsdc,
-      sort: 'rating',
-      limit: 10,
-    });
+    let selected: { slug: string; priceUsdc: string; negotiable: boolean; sellerAgentId: string };
 
-    if (offerings.length === 0) {
-      throw new Error(
-        `No service offerings found for capability "${capability}" within budget ${maxPriceUsdc} micro-USDC`,
+    if (options.offeringSlug) {
+      const offering = await serviceClient.getService(options.offeringSlug);
+      if (offering.status !== 'ACTIVE') {
+        throw new Error(`Service offering "${offering.slug}" is ${offering.status}`);
+      }
+      selected = offering;
+    } else {
+      // 1. Discover services ranked by relevance to the capability + requirements
+      const offerings = await serviceClient.discover({
+        capability,
+        requirements,
+        maxPrice: maxPriceUsdc,
+        sort: 'relevance',
+        limit: 10,
+      });
+
+      // 2. Pick the most relevant offering that declares the capability tag
+      //    and can accept the requirements (relevance 0 = schema mismatch).
+      //    Keyword-only matches are never bought.
+      const best = offerings.find(
+        (o) => o.relevanceBreakdown.capability === 1 && o.relevance > 0,
       );
-    }
 
-    // 2. Pick the best match: highest avgRating, tiebreak by completedJobs
-    const best = offerings.reduce((a, b) => {
-      const ratingA = a.avgRating ?? 0;
-      const ratingB = b.avgRating ?? 0;
-      if (ratingA !== ratingB) return ratingB > ratingA ? b : a;
-      return b.completedJobs > a.completedJobs ? b : a;
-    });
+      if (!best) {
+        throw new Error(
+          `No service offerings declare capability "${capability}" within budget ${maxPriceUsdc} micro-USDC`,
+        );
+      }
 
-    this.logger.info(
-      {
-        agentId,
-        selectedSlug: best.slug,
-        selectedName: best.name,
-        priceUsdc: best.priceUsdc,
-        avgRating: best.avgRating,
-      },
-      'Best service offering selected',
-    );
+      this.logger.info(
+        {
+          agentId,
+          selectedSlug: best.slug,
+          selectedName: best.name,
+          priceUsdc: best.priceUsdc,
+          relevance: best.relevance,
+          relevanceBreakdown: best.relevanceBreakdown,
+          candidates: offerings.length,
+        },
+        'Best service offering selected',
+      );
 
-    // 3. Create the service job (with x402 payment signing if available)
+      selected = { ...best, sellerAgentId: best.sellerAgent.id };
+    }
+
+    // 3. Price the job under the offering's pricing model
+    const quote = await serviceClient.quote(selected.slug);
+    let chargeUsdc = BigInt(quote.chargeUsdc);
+    let negotiated: NegotiatedQuote | null = null;
+    if (chargeUsdc > BigInt(maxPriceUsdc)) {
+      if (!selected.negotiable || quote.pricingModel !== 'per_call') {
+        throw new Error(
+          `Service offering "${selected.slug}" costs ${quote.chargeUsdc} micro-USDC (${quote.pricingModel}), over budget ${maxPriceUsdc}`,
+        );
+      }
+      negotiated = await this.negotiatePrice(agentId, selected, BigInt(maxPriceUsdc));
+      chargeUsdc = BigInt(negotiated.priceUsdc);
+    }
+
+    // 4. Create the service job (with x402 payment signing if available)
     // The ServiceClient will sign an EIP-3009 USDC transfer and attach
     // it as the X-PAYMENT header for the Pay-Before-Create flow.
     const usdcContract = (process.env.NEXT_PUBLIC_USDC_CONTRACT ?? process.env.USDC_CONTRACT) as `0x${string}` | undefined;
     const resourceWallet = process.env.X402_RESOURCE_WALLET as `0x${string}` | undefined;
 
     const job = await serviceClient.createJob({
-      offeringSlug: best.slug,
+      offeringSlug: selected.slug,
       requirements,
-      priceUsdc: BigInt(best.priceUsdc),
+      priceUsdc: chargeUsdc,
       payTo: resourceWallet,
       usdcContract,
+      quote: negotiated ?? undefined,
     });
 
     this.logger.info(
       {
         agentId,
         jobId: job.id,
-        offeringSlug: best.slug,
+        offeringSlug: selected.slug,
         priceUsdc: job.priceUsdc,
+        pricingModel: quote.pricingModel,
+        negotiationId: negotiated?.negotiationId,
       },
       'Service purchased — job created',
     );
 
-    // TODO: RLAIF — log purchase decision context for training data
-    // (capability query, offerings considered, selection rationale, price)
+    return { job, offeringSlug: selected.slug, priceUsdc: BigInt(job.priceUsdc) };
+  }
 
-    // 4. Wait for job completion
-    const completed = await serviceClient.waitForCompletion(job.id);
+  /**
+   * Define a multi-step service workflow for a running agent. The
+   * service-workflow worker runs it: each step's deliverables feed the
+   * next step's requirements.
+   */
+  async startWorkflow(agentId: string, definition: WorkflowDefinition): Promise<ServiceWorkflow> {
+    const { serviceClient } = this.getInstanceOrThrow(agentId);
+    return serviceClient.createWorkflow(definition);
+  }
 
-    return completed;
+  /** The agent's identity-bound ServiceClient, if the agent is running. */
+  getServiceClient(agentId: string): ServiceClient | undefined {
+    return this.agents.get(agentId)?.serviceClient;
+  }
+
+  /**
+   * Bid an offering's price down to `budgetUsdc` over A2A. The buyer holds
+   * its bid at the budget; the seller concedes toward it each round and
+   * either meets it (signed quote) or rejects once it reaches its floor.
+   */
+  private async negotiatePrice(
+    agentId: string,
+    offering: { slug: string; sellerAgentId: string },
+    budgetUsdc: bigint,
+  ): Promise<NegotiatedQuote> {
+    const { serviceClient } = this.getInstanceOrThrow(agentId);
+    const bid = budgetUsdc.toString();
+
+    let reply = await serviceClient.requestQuote(offering.sellerAgentId, {
+      offeringSlug: offering.slug,
+      proposedPriceUsdc: bid,
+    });
+
+    for (let bids = 1; reply.status === 'OPEN'; bids++) {
+      if (reply.offerUsdc !== null && BigInt(reply.offerUsdc) <= budgetUsdc) {
+        reply = await serviceClient.acceptQuote(offering.sellerAgentId, reply.negotiationId);
+      } else if (bids >= MAX_NEGOTIATION_BIDS) {
+        reply = await serviceClient.rejectNegotiation(
+          offering.sellerAgentId,
+          reply.negotiationId,
+          `Over budget ${bid}`,
+        );
+      } else {
+        reply = await serviceClient.counterOffer(offering.sellerAgentId, reply.negotiationId, bid);
+      }
+    }
+
+    if (reply.status !== 'ACCEPTED' || !reply.quote) {
+      throw new Error(
+        `Could not negotiate "${offering.slug}" within budget ${bid} micro-USDC (negotiation ${reply.status}: ${reply.message})`,
+      );
+    }
+
+    this.logger.info(
+      {
+        agentId,
+        offeringSlug: offering.slug,
+        negotiationId: reply.negotiationId,
+        listPriceUsdc: reply.listPriceUsdc,
+        priceUsdc: reply.quote.priceUsdc,
+        rounds: reply.round,
+      },
+      'Service price negotiated',
+    );
+
+    return reply.quote;
+  }
+
+  private getInstanceOrThrow(agentId: string): AgentInstance {
+    const instance = this.agents.get(agentId);
+    if (!instance) {
+      throw new Error(`Agent ${agentId} is not running — cannot purchase service`);
+    }
+    return instance;
   }
 
   async shutdown(): Promise<void> {
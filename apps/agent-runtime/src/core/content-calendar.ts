@@ -0,0 +1,228 @@
+/**
+ * Content Calendar
+ *
+ * When an agent posts, from its AgentContentCalendar, ContentSeries and
+ * ScheduledPost rows (all edited through /api/agents/[id]/calendar):
+ *
+ * - `cron` replaces the strategy's fixed interval as the posting cadence
+ * - posting windows confine that cadence; a post that comes due outside
+ *   every window waits for the next one to open
+ * - blackouts suppress everything, series and one-off posts included
+ * - series and one-off posts run at their own times, windows aside
+ *
+ * AgentScheduler turns an AgentCalendar into `scheduled-posting` jobs;
+ * the scheduler worker applies windows and blackouts when they run.
+ * Windows and cron are local to the calendar's time zone.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+
+export interface PostingWindow {
+  /** 0 = Sunday … 6 = Saturday; empty = every day */
+  days: number[];
+  /** "HH:MM", local; a window whose end is before its start runs past midnight */
+  start: string;
+  end: string;
+}
+
+export interface Blackout {
+  /** ISO timestamps */
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+export interface ContentCalendar {
+  timezone: string;
+  cron: string | null;
+  postingWindows: PostingWindow[];
+  blackouts: Blackout[];
+}
+
+export interface SeriesSchedule {
+  id: string;
+  cron: string;
+}
+
+export interface ScheduledPostSlot {
+  id: string;
+  scheduledFor: Date;
+}
+
+/** Everything AgentScheduler needs to lay out an agent's jobs. */
+export interface AgentCalendar extends ContentCalendar {
+  series: SeriesSchedule[];
+  /** One-off posts due soon enough to queue */
+  posts: ScheduledPostSlot[];
+  /** Changes whenever the repeatable jobs need replacing */
+  revision: string;
+}
+
+/** Agents without a calendar post on their strategy's interval, any time. */
+export const DEFAULT_CONTENT_CALENDAR: ContentCalendar = {
+  timezone: 'UTC',
+  cron: null,
+  postingWindows: [],
+  blackouts: [],
+};
+
+/** How far ahead one-off posts are queued; later ones wait for a later sync. */
+export const SCHEDULED_POST_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// ── Time ─────────────────────────────────────────────────────────────────
+
+/** Weekday and minute of the day at `date` in `timezone`. */
+export function localClock(date: Date, timezone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function toMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+}
+
+function onDay(window: PostingWindow, day: number): boolean {
+  return window.days.length === 0 || window.days.includes(day);
+}
+
+// ── Windows & Blackouts ──────────────────────────────────────────────────
+
+export function isWithinPostingWindow(calendar: ContentCalendar, date: Date): boolean {
+  if (calendar.postingWindows.length === 0) return true;
+
+  const { day, minutes } = localClock(date, calendar.timezone);
+  const yesterday = (day + 6) % 7;
+
+  return calendar.postingWindows.some((window) => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start < end) return onDay(window, day) && minutes >= start && minutes < end;
+    // Runs past midnight: the late part today, or the early part of a window opened yesterday
+    return (onDay(window, day) && minutes >= start) || (onDay(window, yesterday) && minutes < end);
+  });
+}
+
+export function activeBlackout(calendar: ContentCalendar, date: Date): Blackout | null {
+  const time = date.getTime();
+  return (
+    calendar.blackouts.find(
+      (blackout) => time >= new Date(blackout.start).getTime() && time < new Date(blackout.end).getTime(),
+    ) ?? null
+  );
+}
+
+/**
+ * When the next posting window opens after `date`, within a week.
+ *
+ * Computed from the local clock at `date`, so a daylight-saving change in
+ * between can land it an hour off; the job then defers again.
+ */
+export function nextWindowStart(calendar: ContentCalendar, date: Date): Date | null {
+  if (calendar.postingWindows.length === 0) return null;
+
+  const { day, minutes } = localClock(date, calendar.timezone);
+  let best: number | null = null;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = (day + offset) % 7;
+    for (const window of calendar.postingWindows) {
+      if (!onDay(window, weekday)) continue;
+      const untilStart = offset * MINUTES_PER_DAY + toMinutes(window.start) - minutes;
+      if (untilStart > 0 && (best === null || untilStart < best)) best = untilStart;
+    }
+  }
+
+  return best === null ? null : new Date(date.getTime() + best * 60 * 1000 - (date.getTime() % 60_000));
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────
+
+function isWindow(value: unknown): value is PostingWindow {
+  const w = value as PostingWindow;
+  return (
+    typeof w === 'object' && w !== null &&
+    Array.isArray(w.days) && w.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6) &&
+    TIME_PATTERN.test(w.start) && TIME_PATTERN.test(w.end)
+  );
+}
+
+function isBlackout(value: unknown): value is Blackout {
+  const b = value as Blackout;
+  return (
+    typeof b === 'object' && b !== null &&
+    !Number.isNaN(Date.parse(b.start)) && !Number.isNaN(Date.parse(b.end))
+  );
+}
+
+/** Calendar row → ContentCalendar, dropping malformed windows and blackouts. */
+export function parseContentCalendar(
+  row: { timezone: string; cron: string | null; postingWindows: unknown; blackouts: unknown } | null,
+): ContentCalendar {
+  if (!row) return DEFAULT_CONTENT_CALENDAR;
+
+  return {
+    timezone: row.timezone,
+    cron: row.cron,
+    postingWindows: Array.isArray(row.postingWindows) ? row.postingWindows.filter(isWindow) : [],
+    blackouts: Array.isArray(row.blackouts) ? row.blackouts.filter(isBlackout) : [],
+  };
+}
+
+/**
+ * Load the calendars of `agentIds`, with their enabled series and the
+ * one-off posts due within SCHEDULED_POST_HORIZON_MS.
+ */
+export async function loadAgentCalendars(
+  prisma: PrismaClient,
+  agentIds: string[],
+  now: Date = new Date(),
+): Promise<Map<string, AgentCalendar>> {
+  const [calendars, series, posts] = await Promise.all([
+    prisma.agentContentCalendar.findMany({ where: { agentId: { in: agentIds } } }),
+    prisma.contentSeries.findMany({ where: { agentId: { in: agentIds }, enabled: true } }),
+    prisma.scheduledPost.findMany({
+      where: {
+        agentId: { in: agentIds },
+        status: 'SCHEDULED',
+        scheduledFor: { lte: new Date(now.getTime() + SCHEDULED_POST_HORIZON_MS) },
+      },
+      select: { id: true, agentId: true, scheduledFor: true },
+    }),
+  ]);
+
+  const result = new Map<string, AgentCalendar>();
+  for (const agentId of agentIds) {
+    const row = calendars.find((c) => c.agentId === agentId) ?? null;
+    const agentSeries = series.filter((s) => s.agentId === agentId);
+
+    result.set(agentId, {
+      ...parseContentCalendar(row),
+      series: agentSeries.map((s) => ({ id: s.id, cron: s.cron })),
+      posts: posts
+        .filter((p) => p.agentId === agentId)
+        .map((p) => ({ id: p.id, scheduledFor: p.scheduledFor })),
+      revision: [
+        row?.updatedAt.toISOString() ?? 'default',
+        ...agentSeries.map((s) => `${s.id}@${s.updatedAt.toISOString()}`),
+      ].join('|'),
+    });
+  }
+
+  return result;
+}
@@ -1,8 +1,17 @@
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
-import { OpenRouterClient } from '../integrations/openrouter.js';
+import type { LLMClient } from '../integrations/llm.js';
 import { FalAiClient } from '../integrations/fal-ai.js';
-import { selectContentType, buildPrompt, type ContentStrategy } from '../strategies/posting.js';
+import { imageCostUsdc } from '../config/spend-pricing.js';
+import { BudgetExceededError, type SpendLedger } from './spend-ledger.js';
+import {
+  selectContentType,
+  selectTopic,
+  CONTENT_PROMPTS,
+  TOPIC_PROMPTS,
+  type ContentStrategy,
+} from '../strategies/posting.js';
+import { getPromptRegistry, type PromptRef, type PromptRegistry, type RenderedPrompt } from './prompt-registry.js';
 import { ContentType } from './types.js';
 
 export { ContentType };
@@ -12,8 +21,12 @@ interface GeneratedContent {
   mediaUrl?: string;
   type: ContentType;
   parts?: string[];
+  /** What the post is about, when it had a topic */
+  topic?: string;
   model: string;
   tokensUsed: number;
+  /** Template version the text was written from */
+  prompt: PromptRef;
 }
 
 interface AgentPersona {
@@ -22,62 +35,97 @@ interface AgentPersona {
   agentId: string;
 }
 
+/** What a calendar entry asks for, instead of the strategy's pick. */
+export interface ContentBrief {
+  contentType?: ContentType;
+  topic?: string;
+}
+
 const CAST_MAX_LENGTH = 320;
 const SPLIT_MARKER = '---SPLIT---';
 
 export class ContentPipeline {
-  private readonly openrouter: OpenRouterClient;
+  private readonly llm: LLMClient;
   private readonly falAi: FalAiClient;
+  private readonly ledger: SpendLedger | null;
+  private readonly prompts: PromptRegistry;
   private readonly logger: pino.Logger;
 
-  constructor(openrouter: OpenRouterClient, falAi: FalAiClient) {
-    this.openrouter = openrouter;
+  constructor(
+    llm: LLMClient,
+    falAi: FalAiClient,
+    ledger?: SpendLedger,
+    prompts: PromptRegistry = getPromptRegistry(),
+  ) {
+    this.llm = llm;
     this.falAi = falAi;
+    this.ledger = ledger ?? null;
+    this.prompts = prompts;
     this.logger = rootLogger.child({ module: 'ContentPipeline' });
   }
 
   async generateContent(
     agentPersona: AgentPersona,
     strategy: ContentStrategy,
+    brief: ContentBrief = {},
   ): Promise<GeneratedContent> {
-    const contentType = selectContentType(strategy);
-    this.logger.info({ agentId: agentPersona.agentId, contentType, strategy: strategy.name }, 'Generating content');
-
-    const prompt = buildPrompt(agentPersona.persona, contentType);
+    const contentType = brief.contentType ?? selectContentType(strategy);
+    const topic = brief.topic ?? selectTopic(strategy);
+    this.logger.info(
+      { agentId: agentPersona.agentId, contentType, strategy: strategy.name, topic },
+      'Generating content',
+    );
+
+    const prompt = topic
+      ? this.prompts.render(TOPIC_PROMPTS[contentType], { persona: agentPersona.persona, topic })
+      : this.prompts.render(CONTENT_PROMPTS[contentType], { persona: agentPersona.persona });
+
+    const content = await this.generateByType(contentType, prompt, agentPersona, strategy);
+    return { ...content, topic };
+  }
 
+  private generateByType(
+    contentType: ContentType,
+    prompt: RenderedPrompt,
+    agentPersona: AgentPersona,
+    strategy: ContentStrategy,
+  ): Promise<GeneratedContent> {
     switch (contentType) {
       case ContentType.ORIGINAL:
-        return this.generateOriginalContent(prompt, agentPersona);
+        return this.generateOriginalContent(prompt, agentPersona, strategy.mediaProbability ?? 0.5);
 
       case ContentType.THREAD:
-        return this.generateThreadContent(prompt, agentPersona);
+        return this.generateThreadContent(prompt, agentPersona, strategy.mediaProbability ?? 0.4);
 
       case ContentType.MEDIA:
         return this.generateMediaContent(prompt, agentPersona);
 
       case ContentType.ENGAGEMENT:
-        return this.generateEngagementContent(prompt, agentPersona);
+        return this.generateEngagementContent(prompt, agentPersona, strategy.mediaProbability ?? 0.4);
 
       default:
-        return this.generateOriginalContent(prompt, agentPersona);
+        return this.generateOriginalContent(prompt, agentPersona, strategy.mediaProbability ?? 0.5);
     }
   }
 
   private async generateOriginalContent(
-    prompt: string,
+    prompt: RenderedPrompt,
     agentPersona: AgentPersona,
+    mediaProbability: number,
   ): Promise<GeneratedContent> {
     this.logger.debug({ agentId: agentPersona.agentId }, 'Generating original content');
 
-    const result = await this.openrouter.generateText(prompt, {
+    const result = await this.llm.generateText(prompt.prompt, {
       maxTokens: 200,
       temperature: 0.8,
+      task: 'content',
+      agentId: agentPersona.agentId,
     });
 
     const text = this.validateAndTrimText(result.text);
 
-    // 50% chance to attach a complementary image
-    const mediaUrl = await this.maybeGenerateImage(agentPersona, 0.5);
+    // Strategy's chance (50% by default) to attach a complementary image
+    const mediaUrl = await this.maybeGenerateImage(agentPersona, mediaProbability);
 
     return {
       text,
@@ -85,27 +133,29 @@ export class ContentPipeline {
       type: ContentType.ORIGINAL,
       model: result.model,
       tokensUsed: result.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 
   private async generateThreadContent(
-    prompt: string,
+    prompt: RenderedPrompt,
     agentPersona: AgentPersona,
+    mediaProbability: number,
   ): Promise<GeneratedContent> {
     this.logger.debug({ agentId: agentPersona.agentId }, 'Generating thread content');
 
-    const threadPrompt = `${prompt}\n\nIMPORTANT: Write a multi-part thread. Separate each part with "${SPLIT_MARKER}". Each part must be under ${CAST_MAX_LENGTH} characters. Write 3-5 parts.`;
-
-    const result = await this.openrouter.generateText(threadPrompt, {
+    const result = await this.llm.generateText(prompt.prompt, {
       maxTokens: 800,
       temperature: 0.8,
+      task: 'content',
+      agentId: agentPersona.agentId,
     });
 
     const parts = this.splitThread(result.text);
     const text = parts[0] ?? result.text;
 
-    // 40% chance to attach a cover image to the thread
-    const mediaUrl = await this.maybeGenerateImage(agentPersona, 0.4);
+    // Strategy's chance (40% by default) to attach a cover image to the thread
+    const mediaUrl = await this.maybeGenerateImage(agentPersona, mediaProbability);
 
     return {
       text,
@@ -114,23 +164,31 @@ export class ContentPipeline {
       parts,
       model: result.model,
       tokensUsed: result.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 
   private async generateMediaContent(
-    prompt: string,
+    prompt: RenderedPrompt,
     agentPersona: AgentPersona,
   ): Promise<GeneratedContent> {
     this.logger.debug({ agentId: agentPersona.agentId }, 'Generating media content');
 
     const [textResult, imageDescriptionResult] = await Promise.all([
-      this.openrouter.generateText(prompt, {
+      this.llm.generateText(prompt.prompt, {
         maxTokens: 150,
         temperature: 0.8,
+        task: 'content',
+        agentId: agentPersona.agentId,
       }),
-      this.openrouter.generateText(
-        `Based on this persona: "${agentPersona.persona}", generate a concise image description (one sentence, max 50 words) for an engaging social media image. Output ONLY the image description, nothing else.`,
-        { maxTokens: 80, temperature: 0.9 },
+      this.llm.generateText(
+        this.prompts.render('image.media-description', { persona: agentPersona.persona }).prompt,
+        {
+          maxTokens: 80,
+          temperature: 0.9,
+          task: 'image-prompt',
+          agentId: agentPersona.agentId,
+        },
       ),
     ]);
 
@@ -138,8 +196,7 @@ export class ContentPipeline {
 
     let mediaUrl: string | undefined;
     try {
-      const imageResult = await this.falAi.generateImage(imageDescriptionResult.text.trim());
-      mediaUrl = imageResult.url;
+      mediaUrl = await this.generateImage(agentPersona.agentId, imageDescriptionResult.text.trim());
       this.logger.info({ agentId: agentPersona.agentId, mediaUrl }, 'Image generated');
     } catch (error) {
       this.logger.warn(
@@ -154,24 +211,28 @@ export class ContentPipeline {
       type: ContentType.MEDIA,
       model: textResult.model,
       tokensUsed: textResult.tokensUsed + imageDescriptionResult.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 
   private async generateEngagementContent(
-    prompt: string,
+    prompt: RenderedPrompt,
     agentPersona: AgentPersona,
+    mediaProbability: number,
   ): Promise<GeneratedContent> {
     this.logger.debug({ agentId: agentPersona.agentId }, 'Generating engagement content');
 
-    const result = await this.openrouter.generateText(prompt, {
+    const result = await this.llm.generateText(prompt.prompt, {
       maxTokens: 150,
       temperature: 0.9,
+      task: 'content',
+      agentId: agentPersona.agentId,
     });
 
     const text = this.validateAndTrimText(result.text);
 
-    // 40% chance to attach a complementary image
-    const mediaUrl = await this.maybeGenerateImage(agentPersona, 0.4);
+    // Strategy's chance (40% by default) to attach a complementary image
+    const mediaUrl = await this.maybeGenerateImage(agentPersona, mediaProbability);
 
     return {
       text,
@@ -179,6 +240,7 @@ export class ContentPipeline {
       type: ContentType.ENGAGEMENT,
       model: result.model,
       tokensUsed: result.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 
@@ -245,21 +307,26 @@ export class ContentPipeline {
     agentPersona: AgentPersona,
     probability: number,
   ): Promise<string | undefined> {
-    if (Math.random() > probability) {
+    if (Math.random() >= probability) {
       return undefined;
     }
 
     this.logger.info({ agentId: agentPersona.agentId, probability }, 'Generating complementary image');
 
     try {
-      const descriptionResult = await this.openrouter.generateText(
-        `Based on this persona: "${agentPersona.persona}", generate a concise image description (one sentence, max 50 words) for an engaging social media image. The image should be visually striking, modern, and related to the persona's expertise. Output ONLY the image description, nothing else.`,
-        { maxTokens: 80, temperature: 0.9 },
+      const descriptionResult = await this.llm.generateText(
+        this.prompts.render('image.complementary-description', { persona: agentPersona.persona }).prompt,
+        {
+          maxTokens: 80,
+          temperature: 0.9,
+          task: 'image-prompt',
+          agentId: agentPersona.agentId,
+        },
       );
 
-      const imageResult = await this.falAi.generateImage(descriptionResult.text.trim());
-      this.logger.info({ agentId: agentPersona.agentId, mediaUrl: imageResult.url }, 'Complementary image generated');
-      return imageResult.url;
+      const mediaUrl = await this.generateImage(agentPersona.agentId, descriptionResult.text.trim());
+      this.logger.info({ agentId: agentPersona.agentId, mediaUrl }, 'Complementary image generated');
+      return mediaUrl;
     } catch (error) {
       this.logger.warn(
         { agentId: agentPersona.agentId, error: error instanceof Error ? error.message : String(error) },
@@ -269,6 +336,29 @@ export class ContentPipeline {
     }
   }
 
+  /**
+   * Generate an image and charge it to the agent. Any exhausted budget
+   * stops images — there is no cheaper model to downgrade to.
+   */
+  private async generateImage(agentId: string, description: string): Promise<string> {
+    if (this.ledger) {
+      const budget = await this.ledger.getStatus(agentId);
+      if (budget.state !== 'ok') {
+        throw new BudgetExceededError(agentId, budget.reason);
+      }
+    }
+
+    const imageResult = await this.falAi.generateImage(description);
+    await this.ledger?.record({
+      agentId,
+      kind: 'IMAGE',
+      provider: 'fal',
+      model: imageResult.model,
+      costUsdc: imageCostUsdc(imageResult.model),
+    });
+    return imageResult.url;
+  }
+
   private validateAndTrimText(text: string): string {
     let cleaned = text.trim();
 
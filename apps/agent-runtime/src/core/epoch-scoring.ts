@@ -0,0 +1,341 @@
+/**
+ * CEOS Epoch Scoring
+ *
+ * Scores an epoch's agents on the five CEOS dimensions
+ * (@ceosrun/shared/utils/scoring-engine) from what the runtime recorded
+ * during it:
+ *
+ *   Trading      → the agent's TradingMetric for the epoch
+ *   Engagement   → growth of its AgentMetricsSnapshot totals over the epoch
+ *   Revenue      → USDC it earned as the seller of completed ServiceJobs
+ *   Quality      → AgentMetrics.contentQuality and its share of original casts
+ *   Reliability  → AgentMetrics.uptime, and the error rate and execution
+ *                  time of its AgentDecisionLogs
+ *
+ * Inputs an agent has no data for fall back to SCORING_DEFAULTS.
+ * gatherEpochInputs reads, scoreEpoch is pure, persistEpochScores
+ * upserts one CEOSScore per agent and epoch, so scoring an epoch twice
+ * overwrites rather than duplicates. workers/epoch-scoring-worker.ts
+ * runs this at each epoch boundary and puts the scores on-chain.
+ */
+
+import type { EscrowStatus, PrismaClient } from '@prisma/client';
+import type { CEOSScoreBreakdown } from '@ceosrun/shared/types/ceos-score';
+import {
+  calculateCEOSScore,
+  calculateEngagementScore,
+  calculateEpochBenchmarks,
+  calculateQualityScore,
+  calculateReliabilityScore,
+  calculateRevenueScore,
+  calculateTradingScore,
+} from '@ceosrun/shared/utils/scoring-engine';
+import { EPOCH_DURATION_MS, GENESIS_TIMESTAMP, SCORING_DEFAULTS } from '../config/epoch-scoring.js';
+
+// ── Epoch Calendar ───────────────────────────────────────────────────────
+
+/**
+ * The epoch `now` falls in. Same count as getCurrentEpoch in
+ * packages/shared/utils and RevenuePool.sol.
+ */
+export function getCurrentEpoch(now: number = Date.now()): number {
+  return Math.floor((now - GENESIS_TIMESTAMP) / EPOCH_DURATION_MS);
+}
+
+/** When `epoch` starts (inclusive) and ends (exclusive). */
+export function epochBounds(epoch: number): { start: Date; end: Date } {
+  const start = GENESIS_TIMESTAMP + epoch * EPOCH_DURATION_MS;
+  return { start: new Date(start), end: new Date(start + EPOCH_DURATION_MS) };
+}
+
+/**
+ * Finished epochs still to be scored, oldest first: every epoch after
+ * `lastScored` up to the one before `currentEpoch`. With nothing scored
+ * yet, scoring starts at `startEpoch`, or the last finished epoch.
+ */
+export function epochsToScore(lastScored: number | null, currentEpoch: number, startEpoch?: number): number[] {
+  const from = Math.max(0, lastScored !== null ? lastScored + 1 : (startEpoch ?? currentEpoch - 1));
+  const epochs: number[] = [];
+  for (let epoch = from; epoch < currentEpoch; epoch++) epochs.push(epoch);
+  return epochs;
+}
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+/** What an agent did during an epoch, in the units the scoring engine takes. */
+export interface AgentEpochInputs {
+  agentId: string;
+  /** Agent contract address the score is submitted for */
+  address: string;
+  // Trading
+  volume: number;
+  pnl: number;
+  winRate: number;
+  sharpeRatio: number;
+  // Engagement
+  likes: number;
+  recasts: number;
+  replies: number;
+  mentions: number;
+  // Revenue
+  revenueUsdc: number;
+  // Quality (0-100)
+  aiQuality: number;
+  originality: number;
+  sentiment: number;
+  // Reliability
+  uptimePercent: number;
+  avgResponseTimeMs: number;
+  /** Share of failed decisions, 0-1 */
+  errorRate: number;
+}
+
+export interface EpochScore {
+  agentId: string;
+  address: string;
+  breakdown: CEOSScoreBreakdown;
+}
+
+interface SnapshotTotals {
+  totalLikes: number;
+  totalRecasts: number;
+  totalReplies: number;
+  totalMentions: number;
+}
+
+// ── Inputs ───────────────────────────────────────────────────────────────
+
+/**
+ * Engagement an agent gained between two metrics snapshots. An agent
+ * without a snapshot from before the epoch started it at zero; totals
+ * that shrank (deleted casts) count as no engagement, not negative.
+ */
+export function engagementDelta(
+  baseline: SnapshotTotals | null,
+  latest: SnapshotTotals | null,
+): Pick<AgentEpochInputs, 'likes' | 'recasts' | 'replies' | 'mentions'> {
+  const gained = (key: keyof SnapshotTotals) => Math.max(0, (latest?.[key] ?? 0) - (baseline?.[key] ?? 0));
+  return {
+    likes: gained('totalLikes'),
+    recasts: gained('totalRecasts'),
+    replies: gained('totalReplies'),
+    mentions: gained('totalMentions'),
+  };
+}
+
+/**
+ * What the seller kept of a job, in USDC micro-units: the price less any
+ * refund. A refund with no amount returns the full price.
+ */
+export function sellerRevenue(job: {
+  priceUsdc: bigint;
+  refundUsdc: bigint | null;
+  escrowStatus: EscrowStatus;
+}): bigint {
+  const refunding = job.escrowStatus === 'REFUND_PENDING' || job.escrowStatus === 'REFUNDED';
+  if (refunding && job.refundUsdc === null) return 0n;
+  return job.priceUsdc - (job.refundUsdc ?? 0n);
+}
+
+/**
+ * Read the epoch inputs of every active agent with a contract address
+ * (the agents CEOSScore.sol can hold a score for).
+ */
+export async function gatherEpochInputs(prisma: PrismaClient, epoch: number): Promise<AgentEpochInputs[]> {
+  const { start, end } = epochBounds(epoch);
+  const during = { gte: start, lt: end };
+
+  const agents = await prisma.agent.findMany({
+    where: { status: 'ACTIVE', onChainAddress: { not: null } },
+    select: {
+      id: true,
+      onChainAddress: true,
+      metrics: { where: { epoch }, take: 1 },
+      tradingMetrics: { where: { epoch }, take: 1 },
+    },
+  });
+  if (agents.length === 0) return [];
+
+  const agentIds = agents.map((agent) => agent.id);
+
+  const [jobs, decisions, casts] = await Promise.all([
+    prisma.serviceJob.findMany({
+      where: { sellerAgentId: { in: agentIds }, status: { in: ['COMPLETED', 'RESOLVED'] }, completedAt: during },
+      select: { sellerAgentId: true, priceUsdc: true, refundUsdc: true, escrowStatus: true },
+    }),
+    prisma.agentDecisionLog.groupBy({
+      by: ['agentId', 'isSuccess'],
+      where: { agentId: { in: agentIds }, createdAt: during },
+      _count: { _all: true },
+      _sum: { executionTimeMs: true },
+    }),
+    prisma.cast.groupBy({
+      by: ['agentId', 'type'],
+      where: { agentId: { in: agentIds }, createdAt: during },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const revenue = new Map<string, bigint>();
+  for (const job of jobs) {
+    revenue.set(job.sellerAgentId, (revenue.get(job.sellerAgentId) ?? 0n) + sellerRevenue(job));
+  }
+
+  const inputs: AgentEpochInputs[] = [];
+  for (const agent of agents) {
+    const metrics = agent.metrics[0];
+    const trading = agent.tradingMetrics[0];
+
+    const snapshotSelect = { totalLikes: true, totalRecasts: true, totalReplies: true, totalMentions: true };
+    const [baseline, latest] = await Promise.all([
+      prisma.agentMetricsSnapshot.findFirst({
+        where: { agentId: agent.id, collectedAt: { lt: start } },
+        orderBy: { collectedAt: 'desc' },
+        select: snapshotSelect,
+      }),
+      prisma.agentMetricsSnapshot.findFirst({
+        where: { agentId: agent.id, collectedAt: { lt: end } },
+        orderBy: { collectedAt: 'desc' },
+        select: snapshotSelect,
+      }),
+    ]);
+
+    const agentDecisions = decisions.filter((d) => d.agentId === agent.id);
+    const decisionCount = agentDecisions.reduce((sum, d) => sum + d._count._all, 0);
+    const failedCount = agentDecisions.filter((d) => !d.isSuccess).reduce((sum, d) => sum + d._count._all, 0);
+    const executionMs = agentDecisions.reduce((sum, d) => sum + (d._sum.executionTimeMs ?? 0), 0);
+
+    const agentCasts = casts.filter((c) => c.agentId === agent.id);
+    const castCount = agentCasts.reduce((sum, c) => sum + c._count._all, 0);
+    const originalCount = agentCasts.find((c) => c.type === 'ORIGINAL')?._count._all ?? 0;
+
+    inputs.push({
+      agentId: agent.id,
+      address: agent.onChainAddress!,
+      volume: trading?.volume ?? 0,
+      pnl: trading?.pnl ?? 0,
+      winRate: trading?.winRate ?? 0,
+      sharpeRatio: trading?.sharpeRatio ?? 0,
+      ...engagementDelta(baseline, latest),
+      revenueUsdc: Number(revenue.get(agent.id) ?? 0n) / 1_000_000,
+      aiQuality: metrics?.contentQuality ?? SCORING_DEFAULTS.aiQuality,
+      originality: castCount > 0 ? Math.round((originalCount / castCount) * 100) : SCORING_DEFAULTS.originality,
+      sentiment: SCORING_DEFAULTS.sentiment,
+      uptimePercent: metrics?.uptime ?? SCORING_DEFAULTS.uptimePercent,
+      avgResponseTimeMs: decisionCount > 0 ? executionMs / decisionCount : SCORING_DEFAULTS.avgResponseTimeMs,
+      errorRate: decisionCount > 0 ? failedCount / decisionCount : 0,
+    });
+  }
+
+  return inputs;
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────────
+
+/** Weighted engagement, as calculateEngagementScore counts it */
+function weightedEngagement(a: AgentEpochInputs): number {
+  return a.likes + a.recasts * 2 + a.replies * 3 + a.mentions * 2;
+}
+
+/**
+ * Score each agent against the epoch's benchmarks (the best volume,
+ * PnL, engagement and revenue among the agents scored together).
+ */
+export function scoreEpoch(epoch: number, inputs: AgentEpochInputs[]): EpochScore[] {
+  const benchmarks = calculateEpochBenchmarks(
+    epoch,
+    inputs.map((a) => ({
+      volume: a.volume,
+      pnl: a.pnl,
+      totalEngagement: weightedEngagement(a),
+      totalRevenue: a.revenueUsdc,
+      totalScore: 0,
+    })),
+  );
+
+  return inputs.map((a) => ({
+    agentId: a.agentId,
+    address: a.address,
+    breakdown: calculateCEOSScore({
+      trading: calculateTradingScore({
+        volume: a.volume,
+        pnl: a.pnl,
+        winRate: a.winRate,
+        sharpeRatio: a.sharpeRatio,
+        benchmarks: { maxVolume: benchmarks.maxVolume, maxPnl: benchmarks.maxPnl },
+      }),
+      engagement: calculateEngagementScore({
+        likes: a.likes,
+        recasts: a.recasts,
+        replies: a.replies,
+        mentions: a.mentions,
+        maxEngagement: benchmarks.maxEngagement,
+      }),
+      revenue: calculateRevenueScore({
+        x402Revenue: a.revenueUsdc,
+        tips: 0,
+        sponsorship: 0,
+        maxRevenue: benchmarks.maxRevenue,
+      }),
+      quality: calculateQualityScore({
+        aiQuality: a.aiQuality,
+        originality: a.originality,
+        sentiment: a.sentiment,
+      }),
+      reliability: calculateReliabilityScore({
+        uptimePercent: a.uptimePercent,
+        avgResponseTimeMs: a.avgResponseTimeMs,
+        errorRate: a.errorRate,
+      }),
+    }),
+  }));
+}
+
+/**
+ * Upsert one CEOSScore per agent for `epoch`, in one transaction.
+ */
+export async function persistEpochScores(prisma: PrismaClient, epoch: number, scores: EpochScore[]): Promise<void> {
+  await prisma.$transaction(
+    scores.map(({ agentId, breakdown }) => {
+      const values = {
+        trading: breakdown.trading,
+        engagement: breakdown.engagement,
+        revenue: breakdown.revenue,
+        quality: breakdown.quality,
+        reliability: breakdown.reliability,
+        totalScore: breakdown.totalScore,
+        tier: breakdown.tier,
+      };
+      return prisma.cEOSScore.upsert({
+        where: { agentId_epoch: { agentId, epoch } },
+        create: { agentId, epoch, ...values },
+        update: values,
+      });
+    }),
+  );
+}
+
+// ── On-chain Submission ──────────────────────────────────────────────────
+
+type DimensionScores = Pick<CEOSScoreBreakdown, 'trading' | 'engagement' | 'revenue' | 'quality' | 'reliability'>;
+
+/**
+ * Arguments of CEOSScore.submitScores for an epoch's scores: the agent
+ * addresses and one array per dimension, in the same order. The contract
+ * computes the total and tier itself.
+ */
+export function submitScoresArgs(
+  epoch: number,
+  scores: Array<DimensionScores & { address: string }>,
+): readonly [bigint, `0x${string}`[], bigint[], bigint[], bigint[], bigint[], bigint[]] {
+  const column = (key: keyof DimensionScores) => scores.map((s) => BigInt(s[key]));
+  return [
+    BigInt(epoch),
+    scores.map((s) => s.address as `0x${string}`),
+    column('trading'),
+    column('engagement'),
+    column('revenue'),
+    column('quality'),
+    column('reliability'),
+  ] as const;
+}
@@ -0,0 +1,126 @@
+/**
+ * Social Hunter Profile
+ *
+ * Where and how one agent's Social Hunter looks for leads, from its
+ * SocialHunterProfile row (edited through /api/agents/[id]/hunter-profile):
+ *
+ * - channels and keyword queries to scan; empty = the defaults for the
+ *   categories of the offerings it may pitch
+ * - negative keywords; casts containing one are skipped untriaged
+ * - the triage threshold and reply caps, which pitches and follow-ups share
+ * - how many follow-ups a lead gets (workers/lead-nurture-worker)
+ * - active hours, local to the profile's time zone; empty = any time
+ * - which offerings may be pitched; empty = every active one
+ *
+ * Agents without a profile hunt with the constants in config/social-hunter.
+ * The worker reads the profile at the start of every cycle.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { isWithinPostingWindow, parseContentCalendar, type PostingWindow } from './content-calendar.js';
+import {
+  CATEGORY_CHANNELS,
+  HUNT_KEYWORDS,
+  MAX_FOLLOW_UPS,
+  MAX_REPLIES_PER_DAY,
+  MAX_REPLIES_PER_HOUR,
+  TRIAGE_THRESHOLD,
+} from '../config/social-hunter.js';
+
+export interface HunterProfile {
+  enabled: boolean;
+  channels: string[];
+  keywords: string[];
+  negativeKeywords: string[];
+  triageThreshold: number;
+  maxRepliesPerHour: number;
+  maxRepliesPerDay: number;
+  maxFollowUps: number;
+  timezone: string;
+  activeHours: PostingWindow[];
+  offeringSlugs: string[];
+}
+
+export const DEFAULT_HUNTER_PROFILE: HunterProfile = {
+  enabled: true,
+  channels: [],
+  keywords: [],
+  negativeKeywords: [],
+  triageThreshold: TRIAGE_THRESHOLD,
+  maxRepliesPerHour: MAX_REPLIES_PER_HOUR,
+  maxRepliesPerDay: MAX_REPLIES_PER_DAY,
+  maxFollowUps: MAX_FOLLOW_UPS,
+  timezone: 'UTC',
+  activeHours: [],
+  offeringSlugs: [],
+};
+
+/** Profile row → HunterProfile, dropping malformed active-hour windows. */
+export function parseHunterProfile(
+  row: Omit<HunterProfile, 'activeHours'> & { activeHours: unknown } | null,
+): HunterProfile {
+  if (!row) return DEFAULT_HUNTER_PROFILE;
+
+  return {
+    enabled: row.enabled,
+    channels: row.channels,
+    keywords: row.keywords,
+    negativeKeywords: row.negativeKeywords,
+    triageThreshold: row.triageThreshold,
+    maxRepliesPerHour: row.maxRepliesPerHour,
+    maxRepliesPerDay: row.maxRepliesPerDay,
+    maxFollowUps: row.maxFollowUps,
+    timezone: row.timezone,
+    activeHours: parseContentCalendar({
+      timezone: row.timezone,
+      cron: null,
+      postingWindows: row.activeHours,
+      blackouts: [],
+    }).postingWindows,
+    offeringSlugs: row.offeringSlugs,
+  };
+}
+
+export async function loadHunterProfile(prisma: PrismaClient, agentId: string): Promise<HunterProfile> {
+  return parseHunterProfile(await prisma.socialHunterProfile.findUnique({ where: { agentId } }));
+}
+
+/** Pitches and follow-ups the agent sent since `since`, for the profile's reply caps. */
+export async function countHuntReplies(prisma: PrismaClient, agentId: string, since: Date): Promise<number> {
+  const [pitches, followUps] = await Promise.all([
+    prisma.socialHuntLead.count({ where: { agentId, repliedAt: { gte: since } } }),
+    prisma.socialHuntNurtureStep.count({ where: { agentId, kind: 'FOLLOW_UP', createdAt: { gte: since } } }),
+  ]);
+  return pitches + followUps;
+}
+
+// ── Applying ─────────────────────────────────────────────────────────────
+
+/** Channels to scan: the profile's, else those of the offerings' categories. */
+export function huntChannels(profile: HunterProfile, categories: string[]): string[] {
+  if (profile.channels.length > 0) return [...new Set(profile.channels)];
+  return [...new Set(categories.flatMap((category) => CATEGORY_CHANNELS[category] ?? []))];
+}
+
+export function huntKeywords(profile: HunterProfile): string[] {
+  return profile.keywords.length > 0 ? [...new Set(profile.keywords)] : [...HUNT_KEYWORDS];
+}
+
+export function isHuntingHour(profile: HunterProfile, date: Date): boolean {
+  return isWithinPostingWindow(
+    { timezone: profile.timezone, cron: null, postingWindows: profile.activeHours, blackouts: [] },
+    date,
+  );
+}
+
+/** The first negative keyword `text` contains, case-insensitively, or null. */
+export function negativeKeywordIn(profile: HunterProfile, text: string): string | null {
+  const lower = text.toLowerCase();
+  return profile.negativeKeywords.find((keyword) => lower.includes(keyword.toLowerCase())) ?? null;
+}
+
+/** The offerings the profile lets the hunter pitch. */
+export function pitchableOfferings<T extends { slug: string }>(profile: HunterProfile, offerings: T[]): T[] {
+  if (profile.offeringSlugs.length === 0) return offerings;
+  return offerings.filter((offering) => profile.offeringSlugs.includes(offering.slug));
+}
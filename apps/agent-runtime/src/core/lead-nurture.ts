@@ -0,0 +1,63 @@
+/**
+ * Lead Nurturing
+ *
+ * What happens to a Social Hunter lead once its author reacts to the
+ * pitch. The nurture worker detects replies to the pitch and follow-ups,
+ * and likes of the pitch; each one is classified (interested, question,
+ * objection, not interested) and the lead either gets a contextual
+ * follow-up or its sequence stops:
+ *
+ * - not interested (from the classifier, or an explicit "stop" before
+ *   any LLM call) → DECLINED, immediately
+ * - follow-up limit already reached → STALLED
+ * - otherwise → NURTURING, with one more follow-up
+ *
+ * Pure functions; the worker supplies the lead and the signal.
+ */
+
+import type { LeadIntent, SocialHuntStatus } from '@prisma/client';
+
+export interface NurtureDecision {
+  status: Extract<SocialHuntStatus, 'NURTURING' | 'DECLINED' | 'STALLED'>;
+  followUp: boolean;
+  /** Why the sequence stops */
+  stopReason?: string;
+}
+
+/** Replies that end a sequence without asking the LLM. */
+const STOP_SIGNAL =
+  /\b(stop (replying|messaging|pinging|tagging|spamming|shilling)|unsubscribe|not interested|no thanks|no thank you|leave me alone|go away|this is spam|spammer)\b/i;
+
+/** An explicit request to stop, or an unmistakable brush-off. */
+export function isStopSignal(text: string): boolean {
+  return STOP_SIGNAL.test(text);
+}
+
+/**
+ * The next step for a lead that just showed `intent` (null when it was
+ * not classified, the limit being reached), given the follow-ups it
+ * already got and the profile's limit.
+ */
+export function decideNurture(intent: LeadIntent | null, followUps: number, maxFollowUps: number): NurtureDecision {
+  if (intent === 'NOT_INTERESTED') {
+    return { status: 'DECLINED', followUp: false, stopReason: 'Not interested' };
+  }
+  if (followUps >= maxFollowUps) {
+    return { status: 'STALLED', followUp: false, stopReason: `Follow-up limit (${maxFollowUps}) reached` };
+  }
+  return { status: 'NURTURING', followUp: true };
+}
+
+/**
+ * The author's replies among `replies` that were not logged yet, oldest
+ * first.
+ */
+export function newResponses<T extends { hash: string; authorFid: number; timestamp: string }>(
+  replies: T[],
+  targetFid: number,
+  logged: ReadonlySet<string>,
+): T[] {
+  return replies
+    .filter((reply) => reply.authorFid === targetFid && !logged.has(reply.hash))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
@@ -0,0 +1,208 @@
+/**
+ * LLM Router
+ *
+ * Routes each model call to a provider and model by agent and task. The
+ * routing comes from the LLM config (LLM_CONFIG inline JSON, or a file at
+ * LLM_CONFIG_PATH; schema and defaults in @ceosrun/shared/utils/llm-config,
+ * shared with the web app); without one, everything goes to OpenRouter.
+ * A route is resolved most-specific first:
+ *
+ *   1. agents[agentId].tasks[task]
+ *   2. agents[agentId].default
+ *   3. tasks[task]
+ *   4. default
+ *
+ * Example — run offline in CI, with a local model for one agent:
+ *
+ *   {
+ *     "providers": {
+ *       "fixture": { "type": "fixture" },
+ *       "ollama": { "type": "openai-compatible", "baseUrl": "http://localhost:11434/v1", "defaultModel": "llama3.1:8b" }
+ *     },
+ *     "default": { "provider": "fixture" },
+ *     "agents": { "cm0agent...": { "default": { "provider": "ollama" } } }
+ *   }
+ *
+ * With a SpendLedger, every call made for an agent is priced and
+ * recorded, and the agent's spend budget is checked first: an exhausted
+ * budget refuses the call (BudgetExceededError) or, in DOWNGRADE mode,
+ * sends it to the `budgetFallback` route instead. Self-hosted providers
+ * (openai-compatible, fixture) are recorded at zero cost.
+ */
+
+import type { z } from 'zod';
+import pino from 'pino';
+import {
+  loadLLMConfig,
+  resolveLLMRoute,
+  type LLMConfig,
+  type LLMRoute,
+} from '@ceosrun/shared/utils/llm-config';
+import { logger as rootLogger } from '../config.js';
+import {
+  generateJSONWith,
+  type GenerateTextOptions,
+  type GenerateTextResult,
+  type LLMClient,
+  type LLMProvider,
+  type LLMTask,
+} from '../integrations/llm.js';
+import { OpenRouterClient } from '../integrations/openrouter.js';
+import { OpenAICompatibleClient } from '../integrations/openai-compatible.js';
+import { AnthropicClient } from '../integrations/anthropic.js';
+import { FixtureLLMClient } from '../integrations/fixture-llm.js';
+import { llmCallCostUsdc } from '../config/spend-pricing.js';
+import { BudgetExceededError, type SpendLedger } from './spend-ledger.js';
+
+export {
+  DEFAULT_LLM_CONFIG,
+  llmConfigSchema,
+  loadLLMConfig,
+  type LLMConfig,
+  type LLMRoute,
+} from '@ceosrun/shared/utils/llm-config';
+
+// ── Router ───────────────────────────────────────────────────────────────
+
+export class LLMRouter implements LLMClient {
+  private readonly providers: Map<string, LLMProvider>;
+  private readonly config: LLMConfig;
+  private readonly ledger: SpendLedger | null;
+  private readonly logger: pino.Logger;
+
+  constructor(providers: Map<string, LLMProvider>, config: LLMConfig, ledger?: SpendLedger) {
+    this.providers = providers;
+    this.config = config;
+    this.ledger = ledger ?? null;
+    this.logger = rootLogger.child({ module: 'LLMRouter' });
+  }
+
+  /**
+   * The route a call for `agentId` and `task` takes.
+   */
+  resolveRoute(agentId?: string, task?: LLMTask): LLMRoute {
+    return resolveLLMRoute(this.config, agentId, task);
+  }
+
+  async generateText(prompt: string, options: GenerateTextOptions = {}): Promise<GenerateTextResult> {
+    const { agentId, task } = options;
+    let route = this.resolveRoute(agentId, task);
+
+    if (this.ledger && agentId) {
+      const budget = await this.ledger.getStatus(agentId);
+      if (budget.state === 'refuse' || (budget.state === 'downgrade' && !this.config.budgetFallback)) {
+        throw new BudgetExceededError(agentId, budget.reason);
+      }
+      if (budget.state === 'downgrade' && this.config.budgetFallback) {
+        this.logger.info({ agentId, task, reason: budget.reason }, 'Spend budget exhausted, downgrading model');
+        route = this.config.budgetFallback;
+      }
+    }
+
+    const provider = this.providers.get(route.provider);
+    if (!provider) {
+      throw new Error(`LLM provider "${route.provider}" is not configured`);
+    }
+
+    const model = route.model ?? (provider.acceptsModelHints ? options.model : undefined);
+    this.logger.debug({ agentId, task, provider: provider.name, model }, 'Routing LLM call');
+
+    const result = await provider.generateText(prompt, { ...options, model });
+
+    if (this.ledger && agentId) {
+      // Providers that do not split usage are charged at the output rate
+      const promptTokens = result.promptTokens ?? 0;
+      const completionTokens = result.completionTokens ?? result.tokensUsed - promptTokens;
+      await this.ledger.record({
+        agentId,
+        kind: 'LLM',
+        provider: route.provider,
+        model: result.model,
+        task,
+        promptTokens,
+        completionTokens,
+        costUsdc: this.isSelfHosted(route.provider)
+          ? 0n
+          : llmCallCostUsdc(result.model, promptTokens, completionTokens),
+      });
+    }
+
+    return result;
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateTextOptions,
+  ): Promise<T> {
+    return generateJSONWith(this, prompt, schema, options, this.logger);
+  }
+
+  private isSelfHosted(providerName: string): boolean {
+    const type = this.config.providers[providerName]?.type;
+    return type === 'openai-compatible' || type === 'fixture';
+  }
+}
+
+/**
+ * Build the providers named in `config` and a router over them. Fails
+ * fast when a hosted provider's API key env var is unset. Pass a ledger
+ * to price calls and enforce agent spend budgets.
+ */
+export function createLLMRouter(
+  config: LLMConfig = loadLLMConfig(),
+  env: NodeJS.ProcessEnv = process.env,
+  ledger?: SpendLedger,
+): LLMRouter {
+  const providers = new Map<string, LLMProvider>();
+
+  const requireKey = (name: string, keyEnv: string): string => {
+    const key = env[keyEnv];
+    if (!key) throw new Error(`LLM provider "${name}" needs ${keyEnv} to be set`);
+    return key;
+  };
+
+  for (const [name, provider] of Object.entries(config.providers)) {
+    switch (provider.type) {
+      case 'openrouter':
+        providers.set(name, new OpenRouterClient(requireKey(name, provider.apiKeyEnv), provider.defaultModel));
+        break;
+      case 'openai':
+        providers.set(
+          name,
+          new OpenAICompatibleClient({
+            name,
+            baseURL: 'https://api.openai.com/v1',
+            apiKey: requireKey(name, provider.apiKeyEnv),
+            defaultModel: provider.defaultModel,
+          }),
+        );
+        break;
+      case 'anthropic':
+        providers.set(name, new AnthropicClient(requireKey(name, provider.apiKeyEnv), provider.defaultModel));
+        break;
+      case 'openai-compatible':
+        providers.set(
+          name,
+          new OpenAICompatibleClient({
+            name,
+            baseURL: provider.baseUrl,
+            apiKey: (provider.apiKeyEnv && env[provider.apiKeyEnv]) || 'local',
+            defaultModel: provider.defaultModel,
+          }),
+        );
+        break;
+      case 'fixture':
+        providers.set(
+          name,
+          new FixtureLLMClient({
+            responses: provider.responses,
+            defaultResponse: provider.defaultResponse,
+          }),
+        );
+        break;
+    }
+  }
+
+  return new LLMRouter(providers, config, ledger);
+}
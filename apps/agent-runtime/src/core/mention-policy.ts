@@ -0,0 +1,107 @@
+/**
+ * Mention Policy
+ *
+ * Decides which mentions of an agent deserve a reply. A mention is
+ * skipped when:
+ *
+ * - it is the agent's own cast
+ * - its author's reputation is under the bar for the agent's engagement
+ *   mode (Neynar user score; follower count and power badge when Neynar
+ *   has no score)
+ * - it reads as spam (links, mass tags, shouting, giveaway bait)
+ * - the agent already answered its author enough this hour
+ * - the agent is passive and the mention asks nothing
+ *
+ * Pure functions; the mention worker supplies the counts.
+ */
+
+import type { Mention } from '../integrations/neynar.js';
+import {
+  MAX_REPLIES_PER_AUTHOR_PER_HOUR,
+  MAX_SPAM_SCORE,
+  MIN_AUTHOR_SCORE,
+  TRUSTED_FOLLOWER_COUNT,
+} from '../config/mentions.js';
+
+export type EngagementMode = keyof typeof MIN_AUTHOR_SCORE;
+
+export interface MentionAssessment {
+  reply: boolean;
+  /** Why the mention gets no reply */
+  reason?: string;
+  authorScore: number;
+  spamScore: number;
+}
+
+const SPAM_BAIT = /\b(airdrop|giveaway|free mint|claim (now|your)|connect (your )?wallet|dm me|whitelist|100x)\b/i;
+const LINK = /https?:\/\/\S+/gi;
+const TAG = /(^|\s)@[a-z0-9_.-]+/gi;
+
+/** The strategy's `engagementMode`, `active` when unset or unknown. */
+export function engagementMode(strategy: unknown): EngagementMode {
+  const mode = (strategy as { engagementMode?: unknown } | null)?.engagementMode;
+  return typeof mode === 'string' && Object.hasOwn(MIN_AUTHOR_SCORE, mode) ? (mode as EngagementMode) : 'active';
+}
+
+/** Author reputation, 0-1. */
+export function authorReputation(mention: Mention): number {
+  if (typeof mention.authorScore === 'number') return clamp(mention.authorScore);
+
+  const followers = mention.authorFollowerCount ?? 0;
+  const score = Math.log10(followers + 1) / Math.log10(TRUSTED_FOLLOWER_COUNT + 1);
+  return mention.authorPowerBadge ? Math.max(0.9, clamp(score)) : clamp(score);
+}
+
+/** How spammy a mention reads, 0-1. */
+export function spamScore(text: string): number {
+  let score = 0;
+
+  const links = text.match(LINK)?.length ?? 0;
+  if (links >= 2) score += 0.3;
+  else if (links === 1) score += 0.1;
+
+  if ((text.match(TAG)?.length ?? 0) > 3) score += 0.3;
+  if (SPAM_BAIT.test(text)) score += 0.4;
+
+  const letters = text.replace(/[^a-z]/gi, '');
+  if (letters.length >= 12 && letters === letters.toUpperCase()) score += 0.2;
+  if (/(.)\1{5,}/u.test(text)) score += 0.15;
+
+  // Nothing left to answer once tags and links are gone
+  const words = text.replace(LINK, ' ').replace(TAG, ' ').trim();
+  if (words.length < 3) score += 0.3;
+
+  return clamp(score);
+}
+
+export function assessMention(
+  mention: Mention,
+  context: {
+    agentFid: number;
+    mode: EngagementMode;
+    /** Replies the agent sent this author in the last hour */
+    repliesToAuthorLastHour: number;
+  },
+): MentionAssessment {
+  const authorScore = authorReputation(mention);
+  const spam = spamScore(mention.text);
+  const skip = (reason: string): MentionAssessment => ({ reply: false, reason, authorScore, spamScore: spam });
+
+  if (mention.authorFid === context.agentFid) return skip('own cast');
+  if (spam >= MAX_SPAM_SCORE) return skip(`spam score ${spam.toFixed(2)}`);
+  if (authorScore < MIN_AUTHOR_SCORE[context.mode]) {
+    return skip(`author reputation ${authorScore.toFixed(2)} under ${MIN_AUTHOR_SCORE[context.mode]}`);
+  }
+  if (context.repliesToAuthorLastHour >= MAX_REPLIES_PER_AUTHOR_PER_HOUR) return skip('author cooldown');
+  if (context.mode === 'passive' && !isQuestion(mention.text)) return skip('passive agent, not a question');
+
+  return { reply: true, authorScore, spamScore: spam };
+}
+
+export function isQuestion(text: string): boolean {
+  return text.includes('?');
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,349 @@
+/**
+ * Content Moderation
+ *
+ * Runs between generation and posting. The checks come from the agent's
+ * AgentModerationPolicy (managed through PUT /api/agents/[id]/moderation)
+ * and each yields a finding that either rewrites or blocks the post:
+ *
+ *   banned topic        → block
+ *   banned word         → rewrite (masked)
+ *   scam pattern        → block
+ *   financial advice    → rewrite (disclaimer appended), block if no room
+ *   PII                 → rewrite (redacted); private keys block
+ *   duplicate of a cast the agent published recently → block
+ *   LLM classifier      → pass, rewrite or block (opt-in; runs last)
+ *
+ * Any block wins. Otherwise the rewrites are applied in the order above
+ * and the post goes out as rewritten. Blocked posts are held in the
+ * creator's review queue (ContentModeration.reviewStatus = PENDING).
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import pino from 'pino';
+import { z } from 'zod';
+import { logger as rootLogger } from '../config.js';
+import type { LLMClient } from '../integrations/llm.js';
+import { getPromptRegistry, type PromptRegistry } from './prompt-registry.js';
+
+export interface ModerationPolicy {
+  /** Phrases the agent must not post about */
+  bannedTopics: string[];
+  /** Words masked out of posts */
+  bannedWords: string[];
+  financialAdvice: boolean;
+  scamPatterns: boolean;
+  pii: boolean;
+  /** How far back to look for duplicates; 0 turns the check off */
+  duplicateWindowDays: number;
+  llmClassifier: boolean;
+}
+
+/** Used for agents that never saved a policy. */
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  bannedTopics: [],
+  bannedWords: [],
+  financialAdvice: true,
+  scamPatterns: true,
+  pii: true,
+  duplicateWindowDays: 14,
+  llmClassifier: false,
+};
+
+export type ModerationVerdict = 'PASS' | 'REWRITE' | 'BLOCK';
+
+export type ModerationCheck =
+  | 'banned-topic'
+  | 'banned-word'
+  | 'scam'
+  | 'financial-advice'
+  | 'pii'
+  | 'duplicate'
+  | 'classifier';
+
+export interface ModerationFinding {
+  check: ModerationCheck;
+  verdict: Exclude<ModerationVerdict, 'PASS'>;
+  reason: string;
+}
+
+export interface ModerationContent {
+  text: string;
+  /** Thread parts; `text` is the first part */
+  parts?: string[];
+}
+
+export interface ModerationResult extends ModerationContent {
+  verdict: ModerationVerdict;
+  findings: ModerationFinding[];
+}
+
+const CAST_MAX_LENGTH = 320;
+const DISCLAIMER = 'Not financial advice.';
+const REDACTED = '[redacted]';
+/** Word-set overlap above which two posts count as the same post */
+const DUPLICATE_SIMILARITY = 0.8;
+
+const SCAM_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(seed|recovery|secret)\s+phrase\b/i, 'asks about a seed phrase'],
+  [/\bconnect (your )?wallet\b/i, 'asks readers to connect a wallet'],
+  [/\bsend\b[^.!?]{0,40}\b(eth|usdc|btc|sol|tokens?|crypto)\b[^.!?]{0,40}\b(back|double|2x|receive)\b/i, 'send-and-receive giveaway'],
+  [/\b(claim|free)\b[^.!?]{0,30}\bairdrop\b/i, 'airdrop claim'],
+  [/\b(dm|message) me\b[^.!?]{0,30}\b(invest|profit|returns?|signals?)\b/i, 'investment solicitation by DM'],
+  [/\b(bit\.ly|tinyurl\.com|t\.co|goo\.gl)\//i, 'shortened link'],
+];
+
+const FINANCIAL_ADVICE_PATTERNS: RegExp[] = [
+  /\b(you should|you need to|everyone should|time to) (buy|sell|ape|short|long)\b/i,
+  /\bguaranteed (returns?|profits?|gains?)\b/i,
+  /\b(buy|sell) (now|today|before)\b/i,
+  /\bprice target\b/i,
+  /\b\d{2,}x (gains?|returns?|potential)\b/i,
+  /\b(risk[- ]free|can'?t lose)\b/i,
+];
+
+const EMAIL = /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g;
+const PHONE_CANDIDATE = /(?<!\w)\+?\d[\d ().-]{8,}\d(?!\w)/g;
+const PRIVATE_KEY = /\b(0x)?[0-9a-f]{64}\b/i;
+
+/** Redact runs that carry a phone number's 10–15 digits (not "2024 - 2025"). */
+function redactPhones(text: string): string {
+  return text.replace(PHONE_CANDIDATE, (match) => {
+    const digits = match.replace(/\D/g, '').length;
+    return digits >= 10 && digits <= 15 ? REDACTED : match;
+  });
+}
+
+// ── Deterministic checks ─────────────────────────────────────────────────
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function phrasePattern(phrase: string, flags = 'i'): RegExp {
+  return new RegExp(`\\b${escapeRegExp(phrase.trim())}\\b`, flags);
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9']+/g) ?? []);
+}
+
+/** Jaccard similarity of the two texts' word sets. */
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Run the policy's deterministic checks.
+ *
+ * @param recentTexts - Casts the agent published within the duplicate window
+ */
+export function applyModerationRules(
+  policy: ModerationPolicy,
+  content: ModerationContent,
+  recentTexts: string[],
+): ModerationResult {
+  const findings: ModerationFinding[] = [];
+  let parts = content.parts && content.parts.length > 0 ? [...content.parts] : [content.text];
+  const joined = () => parts.join('\n');
+
+  for (const topic of policy.bannedTopics) {
+    if (topic.trim() && phrasePattern(topic).test(joined())) {
+      findings.push({ check: 'banned-topic', verdict: 'BLOCK', reason: `Mentions banned topic "${topic}"` });
+    }
+  }
+
+  const masked = policy.bannedWords.filter((word) => word.trim() && phrasePattern(word).test(joined()));
+  if (masked.length > 0) {
+    parts = parts.map((part) =>
+      masked.reduce(
+        (text, word) => text.replace(phrasePattern(word, 'gi'), (match) => match[0] + '*'.repeat(match.length - 1)),
+        part,
+      ),
+    );
+    findings.push({ check: 'banned-word', verdict: 'REWRITE', reason: `Masked banned words: ${masked.join(', ')}` });
+  }
+
+  if (policy.scamPatterns) {
+    for (const [pattern, label] of SCAM_PATTERNS) {
+      if (pattern.test(joined())) {
+        findings.push({ check: 'scam', verdict: 'BLOCK', reason: `Scam pattern: ${label}` });
+      }
+    }
+  }
+
+  if (
+    policy.financialAdvice &&
+    !joined().includes(DISCLAIMER) &&
+    FINANCIAL_ADVICE_PATTERNS.some((pattern) => pattern.test(joined()))
+  ) {
+    const last = parts.length - 1;
+    const withDisclaimer = `${parts[last]}\n\n${DISCLAIMER}`;
+    if (withDisclaimer.length <= CAST_MAX_LENGTH) {
+      parts[last] = withDisclaimer;
+      findings.push({ check: 'financial-advice', verdict: 'REWRITE', reason: 'Reads as financial advice; disclaimer added' });
+    } else {
+      findings.push({ check: 'financial-advice', verdict: 'BLOCK', reason: 'Reads as financial advice with no room for a disclaimer' });
+    }
+  }
+
+  if (policy.pii) {
+    if (PRIVATE_KEY.test(joined())) {
+      findings.push({ check: 'pii', verdict: 'BLOCK', reason: 'Contains what looks like a private key' });
+    }
+
+    const redacted = parts.map((part) => redactPhones(part.replace(EMAIL, REDACTED)));
+    if (redacted.some((part, i) => part !== parts[i])) {
+      parts = redacted;
+      findings.push({ check: 'pii', verdict: 'REWRITE', reason: 'Redacted email addresses or phone numbers' });
+    }
+  }
+
+  if (policy.duplicateWindowDays > 0) {
+    const duplicate = recentTexts.find((recent) => textSimilarity(parts[0]!, recent) >= DUPLICATE_SIMILARITY);
+    if (duplicate !== undefined) {
+      findings.push({
+        check: 'duplicate',
+        verdict: 'BLOCK',
+        reason: `Repeats a cast from the last ${policy.duplicateWindowDays} days: "${duplicate.slice(0, 80)}"`,
+      });
+    }
+  }
+
+  return summarize(parts, content.parts !== undefined, findings);
+}
+
+function summarize(parts: string[], isThread: boolean, findings: ModerationFinding[]): ModerationResult {
+  const verdict: ModerationVerdict = findings.some((f) => f.verdict === 'BLOCK')
+    ? 'BLOCK'
+    : findings.length > 0
+      ? 'REWRITE'
+      : 'PASS';
+
+  return {
+    verdict,
+    text: parts[0] ?? '',
+    ...(isThread && { parts }),
+    findings,
+  };
+}
+
+// ── Moderator ────────────────────────────────────────────────────────────
+
+export const classifierResultSchema = z.object({
+  verdict: z.enum(['pass', 'rewrite', 'block']),
+  reason: z.string().max(300),
+  rewrite: z.string().max(CAST_MAX_LENGTH).nullable().optional(),
+});
+
+export interface ModerationStore {
+  getPolicy(agentId: string): Promise<ModerationPolicy>;
+  /** Text of casts the agent published since `since` */
+  recentCastTexts(agentId: string, since: Date): Promise<string[]>;
+}
+
+export class PrismaModerationStore implements ModerationStore {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async getPolicy(agentId: string): Promise<ModerationPolicy> {
+    const row = await this.prisma.agentModerationPolicy.findUnique({ where: { agentId } });
+    if (!row) return DEFAULT_MODERATION_POLICY;
+
+    return {
+      bannedTopics: row.bannedTopics,
+      bannedWords: row.bannedWords,
+      financialAdvice: row.financialAdvice,
+      scamPatterns: row.scamPatterns,
+      pii: row.pii,
+      duplicateWindowDays: row.duplicateWindowDays,
+      llmClassifier: row.llmClassifier,
+    };
+  }
+
+  async recentCastTexts(agentId: string, since: Date): Promise<string[]> {
+    const casts = await this.prisma.cast.findMany({
+      where: { agentId, publishedAt: { gte: since } },
+      select: { content: true },
+      orderBy: { publishedAt: 'desc' },
+      take: 200,
+    });
+    return casts.map((cast) => cast.content);
+  }
+}
+
+export class ContentModerator {
+  private readonly logger: pino.Logger;
+
+  constructor(
+    private readonly store: ModerationStore,
+    private readonly llm?: LLMClient,
+    private readonly prompts: PromptRegistry = getPromptRegistry(),
+  ) {
+    this.logger = rootLogger.child({ module: 'ContentModerator' });
+  }
+
+  /**
+   * Moderate generated content for `agentId`. The classifier only runs
+   * on content the rules did not block, and a classifier failure leaves
+   * the rules' verdict in place.
+   */
+  async moderate(
+    agent: { agentId: string; persona: string },
+    content: ModerationContent,
+  ): Promise<ModerationResult> {
+    const policy = await this.store.getPolicy(agent.agentId);
+    const recentTexts =
+      policy.duplicateWindowDays > 0
+        ? await this.store.recentCastTexts(
+            agent.agentId,
+            new Date(Date.now() - policy.duplicateWindowDays * 24 * 60 * 60 * 1000),
+          )
+        : [];
+
+    const result = applyModerationRules(policy, content, recentTexts);
+    if (result.verdict === 'BLOCK' || !policy.llmClassifier || !this.llm) {
+      return result;
+    }
+
+    try {
+      const { prompt, systemPrompt } = this.prompts.render('moderation.classifier', {
+        persona: agent.persona,
+        bannedTopics: policy.bannedTopics.length > 0 ? policy.bannedTopics.join(', ') : '(none)',
+        text: (result.parts ?? [result.text]).join('\n\n'),
+      });
+      const review = await this.llm.generateJSON(prompt, classifierResultSchema, {
+        systemPrompt,
+        maxTokens: 300,
+        task: 'moderation',
+        agentId: agent.agentId,
+      });
+
+      if (review.verdict === 'block') {
+        return summarize(result.parts ?? [result.text], result.parts !== undefined, [
+          ...result.findings,
+          { check: 'classifier', verdict: 'BLOCK', reason: review.reason },
+        ]);
+      }
+
+      // Classifier rewrites only replace single casts; a thread keeps its parts
+      if (review.verdict === 'rewrite' && review.rewrite && result.parts === undefined) {
+        return summarize([review.rewrite], false, [
+          ...result.findings,
+          { check: 'classifier', verdict: 'REWRITE', reason: review.reason },
+        ]);
+      }
+    } catch (error) {
+      this.logger.warn(
+        { agentId: agent.agentId, error: error instanceof Error ? error.message : String(error) },
+        'Moderation classifier failed, keeping rule verdict',
+      );
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Prompt Registry
+ *
+ * Holds the versioned prompt templates (prompts/templates.ts) and picks
+ * the version each generation uses. By default a template name serves
+ * its highest version; the prompt config (PROMPT_CONFIG inline JSON, or
+ * a file at PROMPT_CONFIG_PATH) splits traffic between versions instead:
+ *
+ *   { "traffic": { "post.original": { "1": 50, "2": 50 } } }
+ *
+ * Weights are relative. `preview.*` names belong to the web app's content
+ * preview (apps/web/lib/prompts.ts), which reads the same config, and are
+ * ignored here. Each rendered prompt carries its template name
+ * and version; the runtime stores them on Cast and AgentDecisionLog so
+ * versions can be compared on the engagement the metrics worker collects
+ * (GET /api/prompts/performance).
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import {
+  PROMPT_TEMPLATES,
+  type PromptName,
+  type PromptTemplate,
+  type PromptVariables,
+} from '../prompts/templates.js';
+
+export type { PromptName, PromptVariables };
+
+/** Which template version a generation used. */
+export interface PromptRef {
+  template: PromptName;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptRef {
+  prompt: string;
+  systemPrompt?: string;
+}
+
+/**
+ * The PromptRef a skill reported in its output (`output.prompt`), if any.
+ */
+export function readPromptRef(output: unknown): PromptRef | null {
+  if (typeof output !== 'object' || output === null) return null;
+  const ref = (output as { prompt?: unknown }).prompt;
+  if (typeof ref !== 'object' || ref === null) return null;
+
+  const { template, version } = ref as Record<string, unknown>;
+  return typeof template === 'string' && typeof version === 'number'
+    ? { template: template as PromptName, version }
+    : null;
+}
+
+// ── Config ───────────────────────────────────────────────────────────────
+
+export const promptConfigSchema = z.object({
+  /** Template name → version → relative weight */
+  traffic: z
+    .record(z.record(z.string().regex(/^\d+$/), z.number().nonnegative()))
+    .default({}),
+});
+
+export type PromptConfig = z.infer<typeof promptConfigSchema>;
+
+/**
+ * Read the prompt config from PROMPT_CONFIG (inline JSON) or PROMPT_CONFIG_PATH.
+ */
+export function loadPromptConfig(env: NodeJS.ProcessEnv = process.env): PromptConfig {
+  const raw =
+    env.PROMPT_CONFIG ?? (env.PROMPT_CONFIG_PATH ? readFileSync(env.PROMPT_CONFIG_PATH, 'utf8') : null);
+  if (!raw) return { traffic: {} };
+
+  const result = promptConfigSchema.safeParse(JSON.parse(raw));
+  if (!result.success) {
+    throw new Error(`Invalid prompt config: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Fill `{{variable}}` placeholders. Values are inserted verbatim, in one
+ * pass — a value containing `{{x}}` is not expanded again.
+ */
+export function renderTemplate(text: string, vars: Record<string, string | number>): string {
+  return text.replace(PLACEHOLDER, (_match, key: string) => {
+    const value = vars[key];
+    if (value === undefined) {
+      throw new Error(`Missing prompt variable "${key}"`);
+    }
+    return String(value);
+  });
+}
+
+// ── Registry ─────────────────────────────────────────────────────────────
+
+/** Template names served by the web app rather than the runtime */
+const WEB_PROMPT_PREFIX = 'preview.';
+
+interface WeightedVersion {
+  version: number;
+  weight: number;
+}
+
+export class PromptRegistry {
+  private readonly templates = new Map<PromptName, Map<number, PromptTemplate>>();
+  private readonly config: PromptConfig;
+
+  constructor(templates: PromptTemplate[], config: PromptConfig = { traffic: {} }) {
+    this.config = config;
+    for (const template of templates) {
+      const versions = this.templates.get(template.name) ?? new Map<number, PromptTemplate>();
+      if (versions.has(template.version)) {
+        throw new Error(`Duplicate prompt template ${template.name} v${template.version}`);
+      }
+      versions.set(template.version, template);
+      this.templates.set(template.name, versions);
+    }
+
+    for (const [name, split] of Object.entries(config.traffic)) {
+      if (name.startsWith(WEB_PROMPT_PREFIX)) continue;
+      const versions = this.templates.get(name as PromptName);
+      if (!versions) throw new Error(`Prompt config splits unknown template "${name}"`);
+      for (const version of Object.keys(split)) {
+        if (!versions.has(Number(version))) {
+          throw new Error(`Prompt config splits unknown version ${name} v${version}`);
+        }
+      }
+    }
+  }
+
+  /** Registered versions of `name`, oldest first. */
+  versions(name: PromptName): number[] {
+    return [...(this.templates.get(name)?.keys() ?? [])].sort((a, b) => a - b);
+  }
+
+  /**
+   * The fixed text of every version of `name`, cut at its placeholders —
+   * what a reply must not repeat (core/untrusted-input.ts checkReply).
+   */
+  literals(name: PromptName): string[] {
+    return [...(this.templates.get(name)?.values() ?? [])]
+      .flatMap((template) => [template.system ?? '', template.prompt])
+      .flatMap((text) => text.split(/\{\{\w+\}\}/))
+      .map((literal) => literal.trim())
+      .filter((literal) => literal.length > 0);
+  }
+
+  /** Versions of `name` that receive traffic, with their weights. */
+  traffic(name: PromptName): WeightedVersion[] {
+    const split = this.config.traffic[name];
+    if (split) {
+      const weighted = Object.entries(split)
+        .map(([version, weight]) => ({ version: Number(version), weight }))
+        .filter((entry) => entry.weight > 0);
+      if (weighted.length > 0) return weighted;
+    }
+
+    const latest = this.versions(name).at(-1);
+    if (latest === undefined) throw new Error(`Unknown prompt template "${name}"`);
+    return [{ version: latest, weight: 1 }];
+  }
+
+  /**
+   * Pick a version of `name` according to its traffic split.
+   */
+  select(name: PromptName, random: () => number = Math.random): number {
+    const split = this.traffic(name);
+    const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+
+    let point = random() * total;
+    for (const entry of split) {
+      point -= entry.weight;
+      if (point < 0) return entry.version;
+    }
+    return split[split.length - 1]!.version;
+  }
+
+  /**
+   * Render `name` with `vars`. Uses `options.version` when given,
+   * otherwise a version drawn from the traffic split.
+   */
+  render<N extends PromptName>(
+    name: N,
+    vars: PromptVariables[N],
+    options: { version?: number; random?: () => number } = {},
+  ): RenderedPrompt {
+    const version = options.version ?? this.select(name, options.random);
+    const template = this.templates.get(name)?.get(version);
+    if (!template) throw new Error(`Unknown prompt template ${name} v${version}`);
+
+    return {
+      template: name,
+      version,
+      prompt: renderTemplate(template.prompt, vars),
+      ...(template.system !== undefined && { systemPrompt: renderTemplate(template.system, vars) }),
+    };
+  }
+}
+
+let defaultRegistry: PromptRegistry | null = null;
+
+/**
+ * The process-wide registry over the built-in templates and the prompt
+ * config from the environment.
+ */
+export function getPromptRegistry(): PromptRegistry {
+  defaultRegistry ??= new PromptRegistry(PROMPT_TEMPLATES, loadPromptConfig());
+  return defaultRegistry;
+}
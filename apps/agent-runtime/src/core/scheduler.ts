@@ -3,19 +3,22 @@ import type { Redis } from 'ioredis';
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
 import type { ContentStrategy } from '../strategies/posting.js';
+import type { AgentCalendar } from './content-calendar.js';
 
-interface ScheduleConfig {
+export interface ScheduleConfig {
   intervalMs: number;
   postsPerDay: number;
   jitterMs: number;
 }
 
+const BALANCED_SCHEDULE: ScheduleConfig = {
+  intervalMs: 6 * 60 * 60 * 1000, // 6 hours
+  postsPerDay: 4,
+  jitterMs: 30 * 60 * 1000, // +-30 min
+};
+
 const STRATEGY_SCHEDULES: Record<string, ScheduleConfig> = {
-  Balanced: {
-    intervalMs: 6 * 60 * 60 * 1000, // 6 hours
-    postsPerDay: 4,
-    jitterMs: 30 * 60 * 1000, // +-30 min
-  },
+  Balanced: BALANCED_SCHEDULE,
   TextHeavy: {
     intervalMs: 4 * 60 * 60 * 1000, // 4 hours
     postsPerDay: 6,
@@ -29,12 +32,26 @@ const STRATEGY_SCHEDULES: Record<string, ScheduleConfig> = {
 };
 
 const MAX_JITTER_MS = 60 * 1000; // 60 seconds random delay
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The preset's schedule, at the strategy's own interval when it sets one. */
+export function strategySchedule(strategy: ContentStrategy): ScheduleConfig {
+  const preset = STRATEGY_SCHEDULES[strategy.name] ?? BALANCED_SCHEDULE;
+  if (!strategy.intervalMs) return preset;
+
+  return {
+    intervalMs: strategy.intervalMs,
+    postsPerDay: Math.max(1, Math.round(DAY_MS / strategy.intervalMs)),
+    jitterMs: Math.min(preset.jitterMs, strategy.intervalMs / 4),
+  };
+}
 
 export class AgentScheduler {
   private readonly postingQueue: Queue;
   private readonly metricsQueue: Queue;
   private readonly logger: pino.Logger;
   private readonly activeSchedules: Map<string, string[]> = new Map();
+  private readonly scheduleRevisions: Map<string, string> = new Map();
 
   constructor(connection: Redis) {
     this.postingQueue = new Queue('scheduled-posting', {
@@ -60,11 +77,13 @@ export class AgentScheduler {
     this.logger = rootLogger.child({ module: 'AgentScheduler' });
   }
 
-  async scheduleAgent(agentId: string, strategy: ContentStrategy): Promise<void> {
-    const scheduleConfig = STRATEGY_SCHEDULES[strategy.name] ?? STRATEGY_SCHEDULES['Balanced'];
-    if (!scheduleConfig) {
-      throw new Error(`Unknown strategy: ${strategy.name}`);
-    }
+  /**
+   * Lay out the agent's repeatable jobs: posting on the calendar's cron, or
+   * the strategy's interval without one, plus one job per content series
+   * and a delayed job per upcoming one-off post.
+   */
+  async scheduleAgent(agentId: string, strategy: ContentStrategy, calendar?: AgentCalendar): Promise<void> {
+    const scheduleConfig = strategySchedule(strategy);
 
     this.logger.info(
       {
@@ -72,6 +91,8 @@ export class AgentScheduler {
         strategy: strategy.name,
         intervalMs: scheduleConfig.intervalMs,
         postsPerDay: scheduleConfig.postsPerDay,
+        cron: calendar?.cron ?? null,
+        series: calendar?.series.length ?? 0,
       },
       'Scheduling agent',
     );
@@ -92,14 +113,41 @@ export class AgentScheduler {
       },
       {
         jobId: postingJobId,
-        repeat: {
-          every: scheduleConfig.intervalMs,
-        },
-        delay: this.calculateJitter(scheduleConfig.jitterMs),
+        repeat: calendar?.cron
+          ? { pattern: calendar.cron, tz: calendar.timezone }
+          : { every: scheduleConfig.intervalMs },
+        delay: calendar?.cron ? undefined : this.calculateJitter(scheduleConfig.jitterMs),
       } as JobsOptions,
     );
     jobIds.push(postingJobId);
 
+    // Schedule each content series on its own cron
+    for (const series of calendar?.series ?? []) {
+      const seriesJobId = `series-${agentId}-${series.id}`;
+      try {
+        await this.postingQueue.add(
+          'generate-and-post',
+          {
+            agentId,
+            strategy: strategy.name,
+            seriesId: series.id,
+            scheduledAt: new Date().toISOString(),
+          },
+          {
+            jobId: seriesJobId,
+            repeat: { pattern: series.cron, tz: calendar?.timezone },
+          } as JobsOptions,
+        );
+        jobIds.push(seriesJobId);
+      } catch (error) {
+        // An unparseable cron must not keep the rest of the agent off the air
+        this.logger.error(
+          { agentId, seriesId: series.id, cron: series.cron, error: error instanceof Error ? error.message : String(error) },
+          'Failed to schedule content series',
+        );
+      }
+    }
+
     // Schedule metrics collection (hourly)
     const metricsJobId = `metrics-${agentId}`;
     await this.metricsQueue.add(
@@ -118,17 +166,60 @@ export class AgentScheduler {
     jobIds.push(metricsJobId);
 
     this.activeSchedules.set(agentId, jobIds);
+    this.scheduleRevisions.set(agentId, this.revisionOf(strategy, calendar));
+    if (calendar) {
+      await this.queueScheduledPosts(agentId, strategy, calendar);
+    }
 
     this.logger.info({ agentId, jobCount: jobIds.length }, 'Agent scheduled successfully');
   }
 
+  /**
+   * Bring a running agent's jobs in line with its strategy and calendar.
+   * Repeatable jobs are only replaced when the posting interval, the
+   * calendar or its series changed; one-off posts are (re-)queued every
+   * time, which is a no-op for the ones already waiting.
+   */
+  async syncSchedule(agentId: string, strategy: ContentStrategy, calendar: AgentCalendar): Promise<void> {
+    if (this.scheduleRevisions.get(agentId) !== this.revisionOf(strategy, calendar)) {
+      await this.scheduleAgent(agentId, strategy, calendar);
+      return;
+    }
+    await this.queueScheduledPosts(agentId, strategy, calendar);
+  }
+
+  private async queueScheduledPosts(agentId: string, strategy: ContentStrategy, calendar: AgentCalendar): Promise<void> {
+    for (const post of calendar.posts) {
+      // The due time is part of the id, so a rescheduled post gets a new
+      // job and the worker ignores the stale one
+      await this.postingQueue.add(
+        'publish-scheduled-post',
+        {
+          agentId,
+          strategy: strategy.name,
+          scheduledPostId: post.id,
+          scheduledFor: post.scheduledFor.toISOString(),
+          scheduledAt: new Date().toISOString(),
+        },
+        {
+          jobId: `scheduled-post-${post.id}-${post.scheduledFor.getTime()}`,
+          delay: Math.max(0, post.scheduledFor.getTime() - Date.now()),
+        },
+      );
+    }
+  }
+
   async unscheduleAgent(agentId: string): Promise<void> {
     this.logger.info({ agentId }, 'Unscheduling agent');
 
-    // Remove repeatable jobs from posting queue
+    // Remove repeatable jobs from posting queue, series included
     const postingRepeatables = await this.postingQueue.getRepeatableJobs();
     for (const job of postingRepeatables) {
-      if (job.id === `posting-${agentId}` || job.name === `posting-${agentId}`) {
+      if (
+        job.id === `posting-${agentId}` ||
+        job.name === `posting-${agentId}` ||
+        job.id?.startsWith(`series-${agentId}-`)
+      ) {
         await this.postingQueue.removeRepeatableByKey(job.key);
         this.logger.debug({ agentId, jobKey: job.key }, 'Removed posting repeatable');
       }
@@ -144,6 +235,7 @@ export class AgentScheduler {
     }
 
     this.activeSchedules.delete(agentId);
+    this.scheduleRevisions.delete(agentId);
     this.logger.info({ agentId }, 'Agent unscheduled');
   }
 
@@ -185,6 +277,10 @@ export class AgentScheduler {
     };
   }
 
+  private revisionOf(strategy: ContentStrategy, calendar?: AgentCalendar): string {
+    return `${strategySchedule(strategy).intervalMs}|${calendar?.revision ?? 'default'}`;
+  }
+
   private calculateJitter(maxJitterMs: number): number {
     const jitter = Math.floor(Math.random() * Math.min(maxJitterMs, MAX_JITTER_MS));
     return jitter;
@@ -7,10 +7,21 @@ export enum SkillType {
   ENGAGEMENT = 'engagement',
 }
 
+/** Incremental progress a long-running skill reports while it executes. */
+type SkillProgressEvent =
+  | { type: 'progress'; progress: number; message?: string }
+  | { type: 'artifact'; data: Record<string, unknown>; message?: string }
+  | { type: 'log'; message: string };
+
 interface SkillContext {
   agentId: string;
   agentPersona: string;
   parameters: Record<string, unknown>;
+  /**
+   * Set when the skill runs for a service job: forwards progress to the
+   * buyer's live timeline. Fire-and-forget — never awaited by the skill.
+   */
+  reportProgress?: (event: SkillProgressEvent) => void;
 }
 
 interface SkillResult {
@@ -24,6 +35,8 @@ interface SkillDefinition {
   id: string;
   name: string;
   type: SkillType;
+  /** Service capability tags (shared registry) this skill fulfills */
+  capabilities?: string[];
   timeoutMs: number;
   execute: (context: SkillContext) => Promise<unknown>;
 }
@@ -140,4 +153,4 @@ export class SkillExecutor {
   }
 }
 
-export type { SkillContext, SkillResult, SkillDefinition };
+export type { SkillContext, SkillProgressEvent, SkillResult, SkillDefinition };
@@ -0,0 +1,158 @@
+/**
+ * Agent Spend Ledger
+ *
+ * Records what every LLM and image call costs the agent it was made for
+ * (AgentSpendEntry, priced by config/spend-pricing.ts) and enforces the
+ * agent's AgentSpendBudget, managed through PUT /api/agents/[id]/spend.
+ *
+ * Budgets cover the current UTC day and UTC calendar month. Once either
+ * limit is reached the budget's `onExhausted` action applies until the
+ * window rolls over:
+ *
+ *   REFUSE    → LLM calls throw BudgetExceededError; content, social
+ *               hunter and service execution jobs are skipped
+ *   DOWNGRADE → LLM calls go to the LLM config's `budgetFallback` route
+ *               (a cheap model); image generation stops
+ *
+ * The check runs before each call and the entry is written after it, so
+ * calls already in flight can overshoot a limit by their own cost.
+ */
+
+import { PrismaClient, type SpendKind } from '@prisma/client';
+import pino from 'pino';
+import { logger as rootLogger } from '../config.js';
+
+export interface SpendBudget {
+  /** Micro-USDC per UTC day; null = no limit */
+  dailyLimitUsdc: bigint | null;
+  /** Micro-USDC per UTC calendar month; null = no limit */
+  monthlyLimitUsdc: bigint | null;
+  onExhausted: 'REFUSE' | 'DOWNGRADE';
+}
+
+export interface SpendTotals {
+  todayUsdc: bigint;
+  monthUsdc: bigint;
+}
+
+export type BudgetStatus =
+  | { state: 'ok' }
+  | { state: 'downgrade'; reason: string }
+  | { state: 'refuse'; reason: string };
+
+export interface SpendEntryInput {
+  agentId: string;
+  kind: SpendKind;
+  provider: string;
+  model: string;
+  task?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsdc: bigint;
+}
+
+/** What the LLM router, content pipeline and workers depend on. */
+export interface SpendLedger {
+  getStatus(agentId: string): Promise<BudgetStatus>;
+  record(entry: SpendEntryInput): Promise<void>;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly agentId: string,
+    readonly reason: string,
+  ) {
+    super(`Spend budget exhausted for agent ${agentId}: ${reason}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/** Start of the UTC day and UTC month containing `now`. */
+export function spendWindows(now: Date = new Date()): { dayStart: Date; monthStart: Date } {
+  return {
+    dayStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    monthStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  };
+}
+
+/**
+ * Compare spend so far against the budget's limits.
+ */
+export function evaluateBudget(budget: SpendBudget, totals: SpendTotals): BudgetStatus {
+  let reason: string | null = null;
+  if (budget.dailyLimitUsdc !== null && totals.todayUsdc >= budget.dailyLimitUsdc) {
+    reason = `daily limit of ${budget.dailyLimitUsdc} micro-USDC reached`;
+  } else if (budget.monthlyLimitUsdc !== null && totals.monthUsdc >= budget.monthlyLimitUsdc) {
+    reason = `monthly limit of ${budget.monthlyLimitUsdc} micro-USDC reached`;
+  }
+
+  if (!reason) return { state: 'ok' };
+  return budget.onExhausted === 'DOWNGRADE' ? { state: 'downgrade', reason } : { state: 'refuse', reason };
+}
+
+/**
+ * Ledger backed by the AgentSpendEntry / AgentSpendBudget tables.
+ */
+export class PrismaSpendLedger implements SpendLedger {
+  private readonly prisma: PrismaClient;
+  private readonly logger: pino.Logger;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.logger = rootLogger.child({ module: 'SpendLedger' });
+  }
+
+  async getStatus(agentId: string): Promise<BudgetStatus> {
+    const budget = await this.prisma.agentSpendBudget.findUnique({ where: { agentId } });
+    if (!budget || (budget.dailyLimitUsdc === null && budget.monthlyLimitUsdc === null)) {
+      return { state: 'ok' };
+    }
+
+    const { dayStart, monthStart } = spendWindows();
+    const [today, month] = await Promise.all([
+      this.prisma.agentSpendEntry.aggregate({
+        where: { agentId, createdAt: { gte: dayStart } },
+        _sum: { costUsdc: true },
+      }),
+      this.prisma.agentSpendEntry.aggregate({
+        where: { agentId, createdAt: { gte: monthStart } },
+        _sum: { costUsdc: true },
+      }),
+    ]);
+
+    const status = evaluateBudget(budget, {
+      todayUsdc: today._sum.costUsdc ?? 0n,
+      monthUsdc: month._sum.costUsdc ?? 0n,
+    });
+    if (status.state !== 'ok') {
+      this.logger.debug({ agentId, ...status }, 'Agent spend budget exhausted');
+    }
+    return status;
+  }
+
+  /**
+   * Write one entry. Failures are logged, never thrown — the call it
+   * records has already been paid for.
+   */
+  async record(entry: SpendEntryInput): Promise<void> {
+    try {
+      await this.prisma.agentSpendEntry.create({
+        data: {
+          agentId: entry.agentId,
+          kind: entry.kind,
+          provider: entry.provider,
+          model: entry.model,
+          task: entry.task ?? null,
+          promptTokens: entry.promptTokens ?? 0,
+          completionTokens: entry.completionTokens ?? 0,
+          costUsdc: entry.costUsdc,
+        },
+      });
+    } catch (err) {
+      this.logger.warn(
+        { agentId: entry.agentId, model: entry.model, error: err instanceof Error ? err.message : String(err) },
+        'Failed to record spend entry',
+      );
+    }
+  }
+}
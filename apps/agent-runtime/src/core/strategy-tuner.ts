@@ -0,0 +1,504 @@
+/**
+ * Adaptive Strategy Tuning
+ *
+ * Agents whose strategy sets `adaptive.enabled` learn from their own casts
+ * which content types, topics, posting hours and media choices earn the
+ * most engagement. Each arm (a content type, a topic, an hour of the day,
+ * image or no image) keeps a Beta posterior over "this post did better
+ * than the agent's average"; Thompson sampling turns the posteriors into
+ * the probability that each arm is the best, and those probabilities are
+ * the new weights, clamped to the creator's bounds for content types and
+ * media.
+ *
+ * The strategy tuner worker (workers/strategy-tuner.ts) re-learns from
+ * the casts of the last TUNING_WINDOW_DAYS every few hours, stores the
+ * result as AgentStrategyTuning and records every change, with the
+ * engagement behind it, as a StrategyTuningLog. The scheduler worker
+ * posts by the tuned strategy.
+ */
+
+import type { Prisma, PrismaClient, TuningDimension } from '@prisma/client';
+import { localClock } from './content-calendar.js';
+import { ContentType } from './types.js';
+import { pickWeighted, type ContentStrategy, type WeightBounds } from '../strategies/posting.js';
+
+/** What one published post earned, and what it was. */
+export interface CastOutcome {
+  contentType: ContentType;
+  topic: string | null;
+  /** Local hour of the agent's calendar it was published in */
+  hour: number;
+  hasMedia: boolean;
+  score: number;
+}
+
+export interface StrategyTuning {
+  contentWeights: Partial<Record<ContentType, number>>;
+  topicWeights: Record<string, number>;
+  /** 24 entries, or empty when there was nothing to learn hours from */
+  hourWeights: number[];
+  /** null when the agent does not generate images */
+  mediaProbability: number | null;
+  sampleSize: number;
+}
+
+export interface TuningChange {
+  dimension: TuningDimension;
+  before: Record<string, number>;
+  after: Record<string, number>;
+  explanation: string;
+}
+
+interface ArmStats {
+  alpha: number;
+  beta: number;
+  pulls: number;
+  totalScore: number;
+}
+
+/** Casts are learned from once their engagement has settled, for this long. */
+export const TUNING_WINDOW_DAYS = 30;
+export const ENGAGEMENT_SETTLE_MS = 24 * 60 * 60 * 1000;
+/** Fewer casts than this teach nothing but noise. */
+export const MIN_TUNING_SAMPLE = 10;
+
+const THOMPSON_DRAWS = 2000;
+/** Smaller weight moves are not worth a log entry. */
+const MIN_LOGGED_CHANGE = 0.02;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const IMAGE = 'image';
+const NO_IMAGE = 'no image';
+
+// ── Reward ───────────────────────────────────────────────────────────────
+
+/** Replies take the most effort, then recasts, then likes. */
+export function engagementScore(cast: { likes: number; recasts: number; replies: number }): number {
+  return cast.likes + 2 * cast.recasts + 3 * cast.replies;
+}
+
+/**
+ * Beta posterior per arm. A post scoring `s` against the agent's average
+ * `a` counts as s / (s + a) of a success: half at average, approaching
+ * one for runaway posts.
+ */
+export function armPosteriors(
+  outcomes: CastOutcome[],
+  armOf: (outcome: CastOutcome) => string | null,
+): Map<string, ArmStats> {
+  const average = Math.max(1, outcomes.reduce((sum, o) => sum + o.score, 0) / Math.max(1, outcomes.length));
+  const arms = new Map<string, ArmStats>();
+
+  for (const outcome of outcomes) {
+    const arm = armOf(outcome);
+    if (arm === null) continue;
+
+    const stats = arms.get(arm) ?? { alpha: 1, beta: 1, pulls: 0, totalScore: 0 };
+    const reward = outcome.score / (outcome.score + average);
+    stats.alpha += reward;
+    stats.beta += 1 - reward;
+    stats.pulls += 1;
+    stats.totalScore += outcome.score;
+    arms.set(arm, stats);
+  }
+
+  return arms;
+}
+
+// ── Thompson Sampling ────────────────────────────────────────────────────
+
+function sampleNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1], keeps log() finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** Marsaglia–Tsang; every shape here is at least 1 (the uniform prior). */
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  return x / (x + sampleGamma(beta, random));
+}
+
+/**
+ * The share of posterior draws in which each arm comes out best. Arms
+ * without posts keep the uniform prior, so they still get tried.
+ */
+export function thompsonWeights(
+  arms: string[],
+  posteriors: Map<string, ArmStats>,
+  random: () => number = Math.random,
+  draws: number = THOMPSON_DRAWS,
+): Record<string, number> {
+  const wins = new Map<string, number>(arms.map((arm) => [arm, 0]));
+
+  for (let draw = 0; draw < draws; draw++) {
+    let best: string | null = null;
+    let bestSample = -1;
+    for (const arm of arms) {
+      const stats = posteriors.get(arm);
+      const sample = sampleBeta(stats?.alpha ?? 1, stats?.beta ?? 1, random);
+      if (sample > bestSample) {
+        best = arm;
+        bestSample = sample;
+      }
+    }
+    if (best !== null) wins.set(best, (wins.get(best) ?? 0) + 1);
+  }
+
+  return Object.fromEntries(arms.map((arm) => [arm, (wins.get(arm) ?? 0) / draws]));
+}
+
+/**
+ * Clamp `weights` into `bounds` while keeping their sum at one: arms that
+ * hit a bound are pinned there and the rest share what is left, in
+ * proportion. Bounds that cannot all hold are relaxed by a final rescale.
+ */
+export function clampToBounds(
+  weights: Record<string, number>,
+  bounds: Record<string, WeightBounds>,
+): Record<string, number> {
+  const arms = Object.keys(weights);
+  const result: Record<string, number> = { ...weights };
+  const pinned = new Set<string>();
+
+  for (let round = 0; round < arms.length; round++) {
+    const free = arms.filter((arm) => !pinned.has(arm));
+    const pinnedMass = arms.filter((arm) => pinned.has(arm)).reduce((sum, arm) => sum + (result[arm] ?? 0), 0);
+    const freeMass = free.reduce((sum, arm) => sum + (weights[arm] ?? 0), 0);
+
+    for (const arm of free) {
+      result[arm] = freeMass > 0
+        ? ((weights[arm] ?? 0) * (1 - pinnedMass)) / freeMass
+        : (1 - pinnedMass) / free.length;
+    }
+
+    // Pin one side per round, the one further out: pinning arms at their
+    // max frees mass that may lift the others above their min anyway
+    const over = free.filter((arm) => (result[arm] ?? 0) > (bounds[arm]?.max ?? 1));
+    const under = free.filter((arm) => (result[arm] ?? 0) < (bounds[arm]?.min ?? 0));
+    const excess = over.reduce((sum, arm) => sum + (result[arm] ?? 0) - (bounds[arm]?.max ?? 1), 0);
+    const shortfall = under.reduce((sum, arm) => sum + (bounds[arm]?.min ?? 0) - (result[arm] ?? 0), 0);
+    if (over.length === 0 && under.length === 0) break;
+
+    for (const arm of excess >= shortfall ? over : under) {
+      const bound = bounds[arm];
+      result[arm] = excess >= shortfall ? (bound?.max ?? 1) : (bound?.min ?? 0);
+      pinned.add(arm);
+    }
+  }
+
+  const total = arms.reduce((sum, arm) => sum + (result[arm] ?? 0), 0);
+  return total > 0 ? Object.fromEntries(arms.map((arm) => [arm, (result[arm] ?? 0) / total])) : result;
+}
+
+// ── Tuning ───────────────────────────────────────────────────────────────
+
+/** Content type bounds: the creator's, else half to double the base weight. */
+function contentBounds(strategy: ContentStrategy): Record<string, WeightBounds> {
+  return Object.fromEntries(
+    strategy.weights.map(({ type, weight }) => [
+      type,
+      strategy.adaptive?.bounds[type] ?? { min: weight / 2, max: Math.min(1, weight * 2) },
+    ]),
+  );
+}
+
+interface Learned {
+  tuning: StrategyTuning;
+  posteriors: Record<TuningDimension, Map<string, ArmStats>>;
+}
+
+/**
+ * Learn weights for the agent's base (untuned) strategy from `outcomes`;
+ * null below MIN_TUNING_SAMPLE.
+ */
+export function learnStrategy(
+  strategy: ContentStrategy,
+  outcomes: CastOutcome[],
+  random: () => number = Math.random,
+): Learned | null {
+  if (outcomes.length < MIN_TUNING_SAMPLE) return null;
+
+  const types = strategy.weights.map((entry) => entry.type);
+  const contentPosteriors = armPosteriors(outcomes, (o) => (types.includes(o.contentType) ? o.contentType : null));
+  const contentWeights = clampToBounds(thompsonWeights(types, contentPosteriors, random), contentBounds(strategy));
+
+  const topics = strategy.topics ?? [];
+  const topicPosteriors = armPosteriors(outcomes, (o) => (o.topic && topics.includes(o.topic) ? o.topic : null));
+  const topicWeights = topics.length > 0 ? thompsonWeights(topics, topicPosteriors, random) : {};
+
+  const hourPosteriors = armPosteriors(outcomes, (o) => String(o.hour));
+  const hourShares = thompsonWeights(HOURS.map(String), hourPosteriors, random);
+  const hourWeights = HOURS.map((hour) => hourShares[String(hour)] ?? 0);
+
+  // Media posts always carry an image; the choice is on the others
+  const mediaPosteriors = armPosteriors(outcomes, (o) =>
+    o.contentType === ContentType.MEDIA ? null : o.hasMedia ? IMAGE : NO_IMAGE,
+  );
+  let mediaProbability: number | null = null;
+  if (strategy.mediaProbability !== 0) {
+    const bounds = strategy.adaptive?.mediaBounds ?? { min: 0, max: 1 };
+    const shares = thompsonWeights([IMAGE, NO_IMAGE], mediaPosteriors, random);
+    mediaProbability = Math.min(bounds.max, Math.max(bounds.min, shares[IMAGE] ?? 0));
+  }
+
+  return {
+    tuning: {
+      contentWeights,
+      topicWeights,
+      hourWeights,
+      mediaProbability,
+      sampleSize: outcomes.length,
+    },
+    posteriors: {
+      CONTENT_TYPE: contentPosteriors,
+      TOPIC: topicPosteriors,
+      HOUR: hourPosteriors,
+      MEDIA: mediaPosteriors,
+    },
+  };
+}
+
+/** The strategy with tuned weights in place of its own. */
+export function applyTuning(strategy: ContentStrategy, tuning: StrategyTuning): ContentStrategy {
+  const weights = strategy.weights.map(({ type, weight }) => ({ type, weight: tuning.contentWeights[type] ?? weight }));
+
+  return {
+    ...strategy,
+    weights,
+    topicWeights: Object.keys(tuning.topicWeights).length > 0 ? tuning.topicWeights : strategy.topicWeights,
+    hourWeights: tuning.hourWeights.length === 24 ? tuning.hourWeights : strategy.hourWeights,
+    mediaProbability: tuning.mediaProbability ?? strategy.mediaProbability,
+  };
+}
+
+/**
+ * How many hours to hold a cadence post so that it goes out in a better
+ * hour: sampled by learned weight among the hours before the next post is
+ * due, leaving out the offsets `allowed` rejects. 0 = post now.
+ */
+export function postingDelayHours(
+  hourWeights: number[],
+  currentHour: number,
+  horizonHours: number,
+  allowed: (offsetHours: number) => boolean,
+  random: () => number = Math.random,
+): number {
+  if (hourWeights.length !== 24 || horizonHours <= 1) return 0;
+
+  const weights = Array.from({ length: horizonHours }, (_, offset) =>
+    allowed(offset) ? hourWeights[(currentHour + offset) % 24] ?? 0 : 0,
+  );
+  return Math.max(0, pickWeighted(weights, random));
+}
+
+/** Each dimension's weights as a flat record, for comparing and logging. */
+function dimensionWeights(
+  strategy: ContentStrategy,
+  tuning: StrategyTuning | null,
+): Record<TuningDimension, Record<string, number>> {
+  const topics = strategy.topics ?? [];
+  return {
+    CONTENT_TYPE: tuning?.contentWeights ?? Object.fromEntries(strategy.weights.map((e) => [e.type, e.weight])),
+    TOPIC: tuning?.topicWeights ?? Object.fromEntries(topics.map((topic) => [topic, 1 / topics.length])),
+    HOUR: Object.fromEntries(
+      HOURS.map((hour) => [String(hour), tuning?.hourWeights[hour] ?? 1 / HOURS.length]),
+    ),
+    MEDIA: { [IMAGE]: tuning?.mediaProbability ?? strategy.mediaProbability ?? 0.5 },
+  };
+}
+
+const DIMENSION_LABELS: Record<TuningDimension, string> = {
+  CONTENT_TYPE: 'Content types',
+  TOPIC: 'Topics',
+  HOUR: 'Posting hours',
+  MEDIA: 'Image chance',
+};
+
+/**
+ * The changes worth logging between `previous` (or the base strategy, on
+ * the first tuning) and `learned`, each explained by the engagement that
+ * moved it.
+ */
+export function describeChanges(
+  strategy: ContentStrategy,
+  previous: StrategyTuning | null,
+  learned: Learned,
+): TuningChange[] {
+  const before = dimensionWeights(strategy, previous);
+  const after = dimensionWeights(strategy, learned.tuning);
+  const changes: TuningChange[] = [];
+
+  for (const dimension of Object.keys(DIMENSION_LABELS) as TuningDimension[]) {
+    if (dimension === 'MEDIA' && learned.tuning.mediaProbability === null) continue;
+
+    const posteriors = learned.posteriors[dimension];
+    const moves = Object.keys(after[dimension])
+      .map((arm) => ({ arm, from: before[dimension][arm] ?? 0, to: after[dimension][arm] ?? 0 }))
+      .filter((move) => Math.abs(move.to - move.from) >= MIN_LOGGED_CHANGE)
+      .sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from));
+    if (moves.length === 0) continue;
+
+    const label = (arm: string) => (dimension === 'HOUR' ? `${arm.padStart(2, '0')}:00` : arm);
+    const reasons = moves.map(({ arm, from, to }) => {
+      const stats = posteriors.get(arm);
+      const evidence = stats
+        ? `${stats.pulls} casts, avg engagement ${(stats.totalScore / stats.pulls).toFixed(1)}`
+        : 'no casts yet, exploring';
+      return `${label(arm)} ${from.toFixed(2)} → ${to.toFixed(2)} (${evidence})`;
+    });
+
+    changes.push({
+      dimension,
+      before: before[dimension],
+      after: after[dimension],
+      explanation: `${DIMENSION_LABELS[dimension]}: ${reasons.join('; ')}. Learned from ${learned.tuning.sampleSize} casts.`,
+    });
+  }
+
+  return changes;
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────
+
+function numberRecord(value: unknown): Record<string, number> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, number] => typeof entry[1] === 'number'),
+  );
+}
+
+export function parseStrategyTuning(row: {
+  contentWeights: unknown;
+  topicWeights: unknown;
+  hourWeights: unknown;
+  mediaProbability: number | null;
+  sampleSize: number;
+}): StrategyTuning {
+  return {
+    contentWeights: numberRecord(row.contentWeights),
+    topicWeights: numberRecord(row.topicWeights),
+    hourWeights: Array.isArray(row.hourWeights) && row.hourWeights.every((w) => typeof w === 'number')
+      ? (row.hourWeights as number[])
+      : [],
+    mediaProbability: row.mediaProbability,
+    sampleSize: row.sampleSize,
+  };
+}
+
+export class StrategyTuner {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /** The strategy to post by: tuned, when the agent is adaptive and has been tuned. */
+  async apply(agentId: string, strategy: ContentStrategy): Promise<ContentStrategy> {
+    if (!strategy.adaptive?.enabled) return strategy;
+
+    const row = await this.prisma.agentStrategyTuning.findUnique({ where: { agentId } });
+    return row ? applyTuning(strategy, parseStrategyTuning(row)) : strategy;
+  }
+
+  /**
+   * Re-learn an agent's weights from its settled casts and log what
+   * changed. Returns the changes, or null when there is too little to
+   * learn from yet.
+   */
+  async tune(
+    agentId: string,
+    strategy: ContentStrategy,
+    timezone: string,
+    now: Date = new Date(),
+  ): Promise<TuningChange[] | null> {
+    const casts = await this.prisma.cast.findMany({
+      where: {
+        agentId,
+        contentType: { not: null },
+        publishedAt: {
+          gte: new Date(now.getTime() - TUNING_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+          lte: new Date(now.getTime() - ENGAGEMENT_SETTLE_MS),
+        },
+      },
+      select: { hash: true, contentType: true, topic: true, mediaUrl: true, publishedAt: true, likes: true, recasts: true, replies: true },
+    });
+
+    // A thread earns on every part: its replies count towards the post
+    const followUps = await this.prisma.cast.groupBy({
+      by: ['threadRootHash'],
+      where: { agentId, threadRootHash: { in: casts.flatMap((cast) => (cast.hash ? [cast.hash] : [])) }, threadPosition: { gt: 0 } },
+      _sum: { likes: true, recasts: true, replies: true },
+    });
+    const followUpScore = new Map(
+      followUps.map((group) => [
+        group.threadRootHash,
+        engagementScore({
+          likes: group._sum?.likes ?? 0,
+          recasts: group._sum?.recasts ?? 0,
+          replies: group._sum?.replies ?? 0,
+        }),
+      ]),
+    );
+
+    const contentTypes = Object.values(ContentType) as string[];
+    const outcomes: CastOutcome[] = casts
+      .filter((cast) => cast.publishedAt && contentTypes.includes(cast.contentType ?? ''))
+      .map((cast) => ({
+        contentType: cast.contentType as ContentType,
+        topic: cast.topic,
+        hour: Math.floor(localClock(cast.publishedAt as Date, timezone).minutes / 60),
+        hasMedia: cast.mediaUrl !== null,
+        score: engagementScore(cast) + ((cast.hash && followUpScore.get(cast.hash)) || 0),
+      }));
+
+    const learned = learnStrategy(strategy, outcomes, this.random);
+    if (!learned) return null;
+
+    const row = await this.prisma.agentStrategyTuning.findUnique({ where: { agentId } });
+    const changes = describeChanges(strategy, row ? parseStrategyTuning(row) : null, learned);
+
+    const data = {
+      contentWeights: learned.tuning.contentWeights as Prisma.InputJsonValue,
+      topicWeights: learned.tuning.topicWeights as Prisma.InputJsonValue,
+      hourWeights: learned.tuning.hourWeights as Prisma.InputJsonValue,
+      mediaProbability: learned.tuning.mediaProbability,
+      sampleSize: learned.tuning.sampleSize,
+      tunedAt: now,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.agentStrategyTuning.upsert({
+        where: { agentId },
+        create: { agentId, ...data },
+        update: data,
+      }),
+      this.prisma.strategyTuningLog.createMany({
+        data: changes.map((change) => ({
+          agentId,
+          dimension: change.dimension,
+          before: change.before as Prisma.InputJsonValue,
+          after: change.after as Prisma.InputJsonValue,
+          explanation: change.explanation,
+          sampleSize: learned.tuning.sampleSize,
+        })),
+      }),
+    ]);
+
+    return changes;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Supervised Mode
+ *
+ * Agents whose AgentSupervisionPolicy is enabled do not publish on their
+ * own: scheduled casts and threads, mention replies and Social Hunter
+ * pitches and follow-ups are held as AgentDraft rows instead. The creator approves,
+ * edits or rejects each draft (PATCH /api/drafts/[draftId]); with
+ * `autoPublishAfterMinutes` set, drafts nobody touched go out after that
+ * long. The draft publisher worker (workers/draft-publisher.ts) posts
+ * approved drafts and records each decision as an AgentPreferenceLog.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+export type DraftKind = 'CAST' | 'THREAD' | 'MENTION_REPLY' | 'HUNT_PITCH' | 'HUNT_FOLLOW_UP';
+
+export interface SupervisionPolicy {
+  enabled: boolean;
+  holdPosts: boolean;
+  holdReplies: boolean;
+  holdPitches: boolean;
+  /** null = drafts wait for the creator indefinitely */
+  autoPublishAfterMinutes: number | null;
+}
+
+/** Used for agents that never saved a policy: fully autonomous. */
+export const DEFAULT_SUPERVISION_POLICY: SupervisionPolicy = {
+  enabled: false,
+  holdPosts: true,
+  holdReplies: true,
+  holdPitches: true,
+  autoPublishAfterMinutes: null,
+};
+
+export interface DraftInput {
+  agentId: string;
+  kind: DraftKind;
+  text: string;
+  parts?: string[];
+  mediaUrl?: string;
+  contentType?: string;
+  /** Parent cast, for MENTION_REPLY, HUNT_PITCH and HUNT_FOLLOW_UP */
+  replyToHash?: string;
+  /** SocialHuntLead, for HUNT_PITCH and HUNT_FOLLOW_UP */
+  leadId?: string;
+  /** What the draft was generated from; copied into the preference log */
+  context?: Record<string, unknown>;
+  promptTemplate?: string;
+  promptVersion?: number;
+}
+
+/** Whether `policy` holds drafts of `kind`. */
+export function holdsDraft(policy: SupervisionPolicy, kind: DraftKind): boolean {
+  if (!policy.enabled) return false;
+  switch (kind) {
+    case 'CAST':
+    case 'THREAD':
+      return policy.holdPosts;
+    case 'MENTION_REPLY':
+      return policy.holdReplies;
+    case 'HUNT_PITCH':
+    case 'HUNT_FOLLOW_UP':
+      return policy.holdPitches;
+  }
+}
+
+/** When a draft held at `now` publishes itself, if ever. */
+export function autoPublishAt(policy: SupervisionPolicy, now: Date = new Date()): Date | null {
+  return policy.autoPublishAfterMinutes === null
+    ? null
+    : new Date(now.getTime() + policy.autoPublishAfterMinutes * 60 * 1000);
+}
+
+export class DraftQueue {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async getPolicy(agentId: string): Promise<SupervisionPolicy> {
+    const row = await this.prisma.agentSupervisionPolicy.findUnique({ where: { agentId } });
+    if (!row) return DEFAULT_SUPERVISION_POLICY;
+
+    return {
+      enabled: row.enabled,
+      holdPosts: row.holdPosts,
+      holdReplies: row.holdReplies,
+      holdPitches: row.holdPitches,
+      autoPublishAfterMinutes: row.autoPublishAfterMinutes,
+    };
+  }
+
+  /**
+   * Hold `input` as a draft if the agent's policy says so.
+   *
+   * @returns the draft id, or null when the caller should publish now
+   */
+  async holdIfSupervised(input: DraftInput): Promise<string | null> {
+    const policy = await this.getPolicy(input.agentId);
+    if (!holdsDraft(policy, input.kind)) return null;
+
+    const draft = await this.prisma.agentDraft.create({
+      data: {
+        agentId: input.agentId,
+        kind: input.kind,
+        text: input.text,
+        parts: input.parts ?? [],
+        generatedText: input.parts?.join('\n\n') ?? input.text,
+        mediaUrl: input.mediaUrl,
+        contentType: input.contentType,
+        replyToHash: input.replyToHash,
+        leadId: input.leadId,
+        context: (input.context ?? {}) as Prisma.InputJsonValue,
+        promptTemplate: input.promptTemplate,
+        promptVersion: input.promptVersion,
+        autoPublishAt: autoPublishAt(policy),
+      },
+    });
+    return draft.id;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Thread Casts
+ *
+ * A thread is stored as one Cast row per part, linked by `parentHash` (the
+ * part before), `threadPosition` (0 = the opening cast) and
+ * `threadRootHash` (the opening cast's hash, on every part including the
+ * opening one), so a thread and each part's engagement read back with one
+ * query.
+ *
+ * Threads are posted part by part, and the parts already up are kept —
+ * in the posting job's data, or the draft's `castHashes` — so a thread
+ * that fails partway resumes from the failed part rather than posting
+ * again from the start.
+ */
+
+export interface ThreadLinks {
+  parentHash: string | null;
+  threadRootHash: string;
+  threadPosition: number;
+}
+
+/** How part `index` of the thread whose hashes so far are `hashes` links up. */
+export function threadLinks(hashes: string[], index: number): ThreadLinks {
+  const root = hashes[0];
+  if (!root || index >= hashes.length) {
+    throw new Error(`Thread part ${index} has not been posted`);
+  }
+
+  return {
+    parentHash: index > 0 ? hashes[index - 1] ?? null : null,
+    threadRootHash: root,
+    threadPosition: index,
+  };
+}
+
+/** Where a thread with `postedHashes` already up picks up again, if anywhere. */
+export function resumePoint(postedHashes: string[]): { fromIndex: number; parentHash: string } | undefined {
+  const parentHash = postedHashes[postedHashes.length - 1];
+  return parentHash ? { fromIndex: postedHashes.length, parentHash } : undefined;
+}
@@ -0,0 +1,212 @@
+/**
+ * Untrusted Input
+ *
+ * Farcaster text — hunted casts, mentions, replies to pitches, the
+ * trending feed — is written by strangers and ends up in LLM prompts.
+ * This module sits between the two:
+ *
+ *   fenceUntrusted   → escaped and wrapped in <untrusted> tags, which the
+ *                      v2 templates tell the model to treat as data
+ *   detectInjection  → heuristic classifier for text aimed at the model
+ *                      rather than the agent ("ignore your instructions",
+ *                      fake system turns, dictated scores or prices)
+ *   checkReply       → output checks on what the model wrote, before it
+ *                      is posted: no leaked instructions, no links but
+ *                      the agent's hire links, no prices but its own
+ *
+ * Pure functions; the workers record signals and findings on the lead or
+ * mention they were handling (`injectionSignals`).
+ */
+
+export const UNTRUSTED_OPEN = '<untrusted>';
+export const UNTRUSTED_CLOSE = '</untrusted>';
+
+/** Longest stretch of untrusted text put in a prompt (a cast is ≤ 1024 bytes) */
+const MAX_UNTRUSTED_LENGTH = 2000;
+
+/** Zero-width, bidi-override and other invisible characters */
+const INVISIBLE = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+// eslint-disable-next-line no-control-regex
+const CONTROL = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+// ── Fencing ──────────────────────────────────────────────────────────────
+
+/**
+ * Make `text` safe to place between the untrusted tags: invisible and
+ * control characters dropped, angle brackets swapped for look-alikes (so
+ * no closing tag or chat-format token survives), blank runs collapsed,
+ * and the whole cut to `maxLength`.
+ */
+export function escapeUntrusted(text: string, maxLength = MAX_UNTRUSTED_LENGTH): string {
+  const escaped = text
+    .normalize('NFKC')
+    .replace(INVISIBLE, '')
+    .replace(CONTROL, ' ')
+    .replace(/</g, '‹')
+    .replace(/>/g, '›')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return escaped.length > maxLength ? `${escaped.slice(0, maxLength)}…` : escaped;
+}
+
+/** `text`, escaped and wrapped in the untrusted tags. */
+export function fenceUntrusted(text: string, maxLength = MAX_UNTRUSTED_LENGTH): string {
+  return `${UNTRUSTED_OPEN}\n${escapeUntrusted(text, maxLength)}\n${UNTRUSTED_CLOSE}`;
+}
+
+// ── Injection classifier ─────────────────────────────────────────────────
+
+export type InjectionSignal =
+  | 'ignore-instructions'
+  | 'new-instructions'
+  | 'prompt-request'
+  | 'role-override'
+  | 'fake-turn'
+  | 'chat-tokens'
+  | 'jailbreak'
+  | 'dictated-score'
+  | 'price-override'
+  | 'link-request';
+
+export interface InjectionAssessment {
+  suspicious: boolean;
+  /** Every signal found, suspicious or not */
+  signals: InjectionSignal[];
+  score: number;
+}
+
+/** Score at which text counts as an injection attempt */
+const INJECTION_THRESHOLD = 2;
+
+/**
+ * Strong signals (2) are instructions no customer writes; weak ones (1)
+ * also turn up in genuine questions ("can you share your link?") and
+ * only count together with another.
+ */
+const INJECTION_PATTERNS: Array<[RegExp, InjectionSignal, number]> = [
+  [
+    /\b(ignore|disregard|forget|override|bypass)\b[^.!?\n]{0,40}\b(instructions?|prompts?|rules|guidelines|directives|guardrails)\b/i,
+    'ignore-instructions',
+    2,
+  ],
+  [/\b(new|updated|real|actual|hidden) (instructions|rules|task)\b/i, 'new-instructions', 2],
+  [
+    /\b(reveal|show|print|repeat|output|leak|dump|tell me)\b[^.!?\n]{0,30}\b(system prompt|your (prompt|instructions|rules)|initial instructions)\b/i,
+    'prompt-request',
+    2,
+  ],
+  [/\b(you are now|from now on,? you|act as (an?|the|my)|pretend (to be|you are)|roleplay as)\b/i, 'role-override', 2],
+  [/(^|\n)\s*(system|assistant|developer)\s*:/i, 'fake-turn', 2],
+  [/<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|<\/?untrusted>|<\/?(system|instructions)>/i, 'chat-tokens', 2],
+  [/\b(jailbreak|DAN mode|developer mode|god mode)\b/i, 'jailbreak', 2],
+  [/\b(score|rate|rank)\b[^.!?\n]{0,30}\b(10|ten)\b(\s*(\/|out of)\s*10)?/i, 'dictated-score', 1],
+  [
+    /(\$\s?0(\.0+)?(?![\d.,])|\b0(\.0+)? ?usdc\b|\b(price|cost|fee|charge)\b[^.!?\n]{0,20}\b(to|at|of|=)\s*(0|zero|nothing)\b|\b(0|zero)[- ](price|cost|fee)\b|\bfor free\b)/i,
+    'price-override',
+    1,
+  ],
+  [/\b(post|include|send|share|drop|add)\b[^.!?\n]{0,30}\b(hire link|your link|this link|wallet address|private key|seed phrase)\b/i, 'link-request', 1],
+  [/\b(system prompt)\b/i, 'prompt-request', 1],
+];
+
+/**
+ * Classify `text` as an injection attempt or not. Runs on the text as
+ * the model would see it, so look-alike characters and invisible
+ * separators do not hide a pattern.
+ */
+export function detectInjection(text: string): InjectionAssessment {
+  const normalized = text.normalize('NFKC').replace(INVISIBLE, '');
+  const found = new Map<InjectionSignal, number>();
+
+  for (const [pattern, signal, weight] of INJECTION_PATTERNS) {
+    if (pattern.test(normalized)) found.set(signal, Math.max(found.get(signal) ?? 0, weight));
+  }
+
+  const score = [...found.values()].reduce((sum, weight) => sum + weight, 0);
+  return { suspicious: score >= INJECTION_THRESHOLD, signals: [...found.keys()], score };
+}
+
+// ── Output checks ────────────────────────────────────────────────────────
+
+export type ReplyCheck = 'prompt-leak' | 'unauthorized-link' | 'unauthorized-price';
+
+export interface ReplyFinding {
+  check: ReplyCheck;
+  reason: string;
+}
+
+export interface ReplyGuard {
+  /** Fixed text of the templates the reply was written from (PromptRegistry.literals) */
+  instructions: string[];
+  /** Base of the agent's hire links, e.g. "https://ceos.run/hire" */
+  hireBaseUrl: string;
+  /** What the agent sells: the only links and prices a reply may carry */
+  offerings: Array<{ slug: string; priceUsdc: string }>;
+}
+
+/** Consecutive words shared with the instructions that count as a leak */
+const LEAK_SHINGLE = 8;
+
+const LINK = /\bhttps?:\/\/[^\s)\]"'<>]+|\b(?:[a-z0-9-]+\.)+(?:com|xyz|io|app|net|org|co|link|run|me|gg|so|sh|dev|ai|fun|lol|site|top|click)\b(?:\/[^\s)\]"'<>]*)?/gi;
+const AMOUNT = /\$\s?(\d[\d,]*(?:\.\d+)?)|\b(\d[\d,]*(?:\.\d+)?)\s?(?:usdc|usd|dollars?)\b/gi;
+const PRICING_CONTEXT = /\b(price[sd]?|pricing|costs?|charge[sd]?|fees?|rates?|pay|paid|hire|hiring|just|only)\b/i;
+const GIVEAWAY = /\b(for free|free of charge|at no (cost|charge)|\d{1,3}\s?% off|(a|your|special|exclusive) discount|coupon|promo code)\b/i;
+const LEAK_PHRASE = /\b(my|the) (system prompt|(initial |hidden )?instructions (are|say|tell))\b|<\/?untrusted>/i;
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+  const result = new Set<string>();
+  for (let i = 0; i + LEAK_SHINGLE <= words.length; i++) {
+    result.add(words.slice(i, i + LEAK_SHINGLE).join(' '));
+  }
+  return result;
+}
+
+function isHireLink(link: string, guard: ReplyGuard): boolean {
+  try {
+    const trimmed = link.replace(/[.,!?;:]+$/, '');
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const base = new URL(guard.hireBaseUrl);
+    if (url.host !== base.host) return false;
+
+    const path = url.pathname.replace(/\/+$/, '');
+    // The bare domain is fine; any other path must be one of the agent's hire links
+    return path === '' || guard.offerings.some((o) => path === `${base.pathname}/${o.slug}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a reply the model wrote against what the agent may post.
+ * Returns one finding per failed check; none means the reply may go out.
+ */
+export function checkReply(text: string, guard: ReplyGuard): ReplyFinding[] {
+  const findings: ReplyFinding[] = [];
+
+  const replyShingles = shingles(text);
+  const leaked = guard.instructions.some((literal) => [...shingles(literal)].some((s) => replyShingles.has(s)));
+  if (leaked || LEAK_PHRASE.test(text)) {
+    findings.push({ check: 'prompt-leak', reason: 'Repeats its instructions' });
+  }
+
+  const foreign = [...text.matchAll(LINK)].map((m) => m[0]).filter((link) => !isHireLink(link, guard));
+  if (foreign.length > 0) {
+    findings.push({ check: 'unauthorized-link', reason: `Links outside the agent's hire links: ${foreign.join(', ')}` });
+  }
+
+  const prices = new Set(guard.offerings.map((o) => Math.round(Number(o.priceUsdc) / 10_000)));
+  const quoted = text
+    .split(/(?<=[.!?\n])\s+/)
+    .filter((sentence) => PRICING_CONTEXT.test(sentence))
+    .flatMap((sentence) => [...sentence.matchAll(AMOUNT)].map((m) => (m[1] ?? m[2])!))
+    .filter((amount) => !prices.has(Math.round(Number(amount.replace(/,/g, '')) * 100)));
+  if (quoted.length > 0) {
+    findings.push({ check: 'unauthorized-price', reason: `Quotes prices the agent does not charge: ${quoted.join(', ')}` });
+  }
+  if (GIVEAWAY.test(text)) {
+    findings.push({ check: 'unauthorized-price', reason: 'Offers free work or a discount' });
+  }
+
+  return findings;
+}
@@ -4,10 +4,13 @@ import { PrismaClient } from '@prisma/client';
 import { config, logger } from './config.js';
 import { ContentPipeline } from './core/content-pipeline.js';
 import { AgentScheduler } from './core/scheduler.js';
+import { loadAgentCalendars } from './core/content-calendar.js';
 import { AgentEngine } from './core/agent-engine.js';
 import { SkillExecutor, SkillType } from './core/skill-executor.js';
 import { TrendingStrategy } from './strategies/trending.js';
 import { OpenRouterClient } from './integrations/openrouter.js';
+import { LLMRouter, createLLMRouter, loadLLMConfig } from './core/llm-router.js';
+import { PrismaSpendLedger } from './core/spend-ledger.js';
 import { FalAiClient } from './integrations/fal-ai.js';
 import { NeynarClient } from './integrations/neynar.js';
 import { BaseChainClient } from './integrations/base-chain.js';
@@ -24,8 +27,15 @@ import {
   scheduleServiceExecutor,
   type AgentExecutionContext,
 } from '../workers/service-executor.js';
+import { createServiceWorkflowWorker, scheduleServiceWorkflows } from '../workers/service-workflow-worker.js';
+import { createServiceAcceptanceWorker, scheduleServiceAcceptance } from '../workers/service-acceptance-worker.js';
+import { createDraftPublisherWorker, scheduleDraftPublisher } from '../workers/draft-publisher.js';
+import { createStrategyTunerWorker, scheduleStrategyTuner } from '../workers/strategy-tuner.js';
 import { createSocialHunterWorker, scheduleSocialHunter } from '../workers/social-hunter-worker.js';
-import { getStrategy } from './strategies/posting.js';
+import { createMentionWorker, scheduleMentionReplies } from '../workers/mention-worker.js';
+import { createLeadNurtureWorker, scheduleLeadNurture } from '../workers/lead-nurture-worker.js';
+import { createEpochScoringWorker, scheduleEpochScoring } from '../workers/epoch-scoring-worker.js';
+import { resolveStrategy } from './strategies/posting.js';
 
 const METRICS_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
 
@@ -38,7 +48,7 @@ interface RuntimeContext {
   scheduler: AgentScheduler;
   pipeline: ContentPipeline;
   skillExecutor: SkillExecutor;
-  openrouter: OpenRouterClient;
+  llm: LLMRouter;
   falAi: FalAiClient;
   neynar: NeynarClient;
   baseChain: BaseChainClient | null;
@@ -51,7 +61,8 @@ let agentPollTimer: NodeJS.Timeout | null = null;
 
 /**
  * Load all ACTIVE agents from the database and schedule them.
- * Also polls periodically for newly deployed agents.
+ * Also polls periodically for newly deployed agents, and applies strategy
+ * and content calendar edits to the agents already running.
  */
 async function loadAndScheduleAgents(
   prisma: PrismaClient,
@@ -65,10 +76,20 @@ async function loadAndScheduleAgents(
     logger.info({ agentCount: agents.length }, 'Found active agents in database');
 
     const runningIds = new Set(engine.getRunningAgentIds());
+    const calendars = await loadAgentCalendars(prisma, agents.map((a) => a.id));
 
     for (const agent of agents) {
-      // Skip already running agents
+      // Already running agents only pick up strategy and calendar changes
       if (runningIds.has(agent.id)) {
+        const calendar = calendars.get(agent.id);
+        if (calendar) {
+          await engine.syncSchedule(agent.id, resolveStrategy(agent.strategy), calendar).catch((error: unknown) => {
+            logger.error(
+              { agentId: agent.id, error: error instanceof Error ? error.message : String(error) },
+              'Failed to sync posting schedule',
+            );
+          });
+        }
         continue;
       }
 
@@ -82,11 +103,8 @@ async function loadAndScheduleAgents(
         ? agent.persona
         : (agent.persona as Record<string, unknown>)?.description as string ?? '';
 
-      const strategyJson = agent.strategy as Record<string, unknown>;
-      const strategyName = (strategyJson?.name as string) ?? 'Balanced';
-
       try {
-        const strategy = getStrategy(strategyName);
+        const strategy = resolveStrategy(agent.strategy);
 
         await engine.startAgent({
           id: agent.id,
@@ -96,10 +114,11 @@ async function loadAndScheduleAgents(
           fid: agent.fid ?? 0,
           walletAddress: agent.walletAddress ?? '',
           strategy,
+          calendar: calendars.get(agent.id),
         });
 
         logger.info(
-          { agentId: agent.id, name: agent.name, strategy: strategyName },
+          { agentId: agent.id, name: agent.name, strategy: strategy.name },
           'Agent scheduled for autonomous posting',
         );
       } catch (error) {
@@ -178,7 +197,11 @@ async function bootstrap(): Promise<RuntimeContext> {
   logger.info('Database connected');
 
   // 3. Initialize integration clients
-  const openrouter = new OpenRouterClient(config.OPENROUTER_API_KEY);
+  // Provider and model per agent/task come from LLM_CONFIG (default: OpenRouter).
+  // Every call made for an agent is priced into its spend ledger and
+  // checked against its budget.
+  const spendLedger = new PrismaSpendLedger(prisma);
+  const llm = createLLMRouter(loadLLMConfig(), process.env, spendLedger);
   const falAi = new FalAiClient(config.FAL_KEY);
   const neynar = new NeynarClient(config.NEYNAR_API_KEY);
 
@@ -204,9 +227,17 @@ async function bootstrap(): Promise<RuntimeContext> {
   logger.info({ demoMode: DEMO_MODE }, 'Integration clients initialized');
 
   // 4. Initialize core modules
-  const pipeline = new ContentPipeline(openrouter, falAi);
+  const pipeline = new ContentPipeline(llm, falAi, spendLedger);
   const scheduler = new AgentScheduler(redis);
-  const engine = new AgentEngine(pipeline, scheduler);
+  // A2A messages are signed with the runtime wallet on behalf of each agent;
+  // the API accepts them when this wallet is its A2A_DELEGATE_SIGNER
+  const a2aSigner = baseChain?.isWalletInitialized() ? baseChain : null;
+  const engine = new AgentEngine(
+    pipeline,
+    scheduler,
+    undefined,
+    a2aSigner ? (message) => a2aSigner.signA2AMessage(message) : undefined,
+  );
   const skillExecutor = new SkillExecutor();
 
   // Register built-in skills
@@ -214,6 +245,7 @@ async function bootstrap(): Promise<RuntimeContext> {
     id: 'content-generation',
     name: 'Content Generation',
     type: SkillType.CONTENT_GENERATION,
+    capabilities: ['content-generation', 'thread-writing'],
     timeoutMs: 30_000,
     execute: async (ctx) => {
       const topic = (ctx.parameters['topic'] as string) ?? '';
@@ -229,9 +261,10 @@ async function bootstrap(): Promise<RuntimeContext> {
     id: 'trend-analysis',
     name: 'Trend Analysis',
     type: SkillType.ANALYTICS,
+    capabilities: ['trend-analysis'],
     timeoutMs: 30_000,
     execute: async () => {
-      const trending = new TrendingStrategy(openrouter);
+      const trending = new TrendingStrategy(llm);
       const trends = await trending.detectTrends();
       return { trends: trends.slice(0, 5) };
     },
@@ -241,6 +274,7 @@ async function bootstrap(): Promise<RuntimeContext> {
     id: 'engagement-analysis',
     name: 'Engagement Analysis',
     type: SkillType.ENGAGEMENT,
+    capabilities: ['engagement-analysis', 'sentiment-analysis'],
     timeoutMs: 15_000,
     execute: async (ctx) => {
       return {
@@ -257,10 +291,10 @@ async function bootstrap(): Promise<RuntimeContext> {
   );
 
   // 5. Initialize BullMQ workers
-  const contentWorker = createContentWorker(redis, config.OPENROUTER_API_KEY, config.FAL_KEY);
+  const contentWorker = createContentWorker(redis, llm, config.FAL_KEY, spendLedger);
   const metricsWorker = createMetricsWorker(redis);
   const postingWorker = createPostingWorker(redis, config.NEYNAR_API_KEY);
-  const { worker: schedulerWorker, getHealth, shutdown: shutdownScheduler } = createSchedulerWorker(redis);
+  const { worker: schedulerWorker, getHealth, shutdown: shutdownScheduler } = createSchedulerWorker(redis, llm);
 
   // 5b. Initialize financial workers (ScoutWorker, TreasuryWorker, FeeDistributor)
   let scoutWorker: ReturnType<typeof createScoutWorker> | null = null;
@@ -309,8 +343,9 @@ async function bootstrap(): Promise<RuntimeContext> {
     logger.info('Skipping financial workers — BaseChainClient not available');
   }
 
-  // 5c. Initialize service job maintenance worker (always-on, no chain dependency)
-  const serviceJobMaintenance = createServiceJobWorker(redis);
+  // 5c. Initialize service job maintenance worker (always-on). The chain
+  // client is optional — without it, escrow payouts stay queued.
+  const serviceJobMaintenance = createServiceJobWorker(redis, baseChain);
   await scheduleServiceJobMaintenance(serviceJobMaintenance.queue);
   logger.info('Service job maintenance worker initialized (expire check: 60s)');
 
@@ -390,15 +425,65 @@ async function bootstrap(): Promise<RuntimeContext> {
     skillExecutor,
     () => cachedAgentContexts,
     ceosApiUrl,
+    spendLedger,
   );
   await scheduleServiceExecutor(serviceExecutor.queue);
   logger.info('Service job executor initialized (poll: 15s)');
 
+  // 5d-1. Initialize service acceptance worker (seller-side policies).
+  // Accepts or rejects CREATED jobs of the same local agents, so the
+  // executor has ACCEPTED work to pick up.
+  const serviceAcceptance = createServiceAcceptanceWorker(
+    redis,
+    llm,
+    () => cachedAgentContexts,
+    ceosApiUrl,
+  );
+  await scheduleServiceAcceptance(serviceAcceptance.queue);
+  logger.info('Service acceptance worker initialized (poll: 15s)');
+
+  // 5d-2. Initialize service workflow worker (buyer-side pipelines).
+  // Advances multi-step workflows of agents running in this engine,
+  // hiring each step through the agent's own ServiceClient.
+  const serviceWorkflows = createServiceWorkflowWorker(redis, engine);
+  await scheduleServiceWorkflows(serviceWorkflows.queue);
+  logger.info('Service workflow worker initialized (poll: 15s)');
+
   // 5e. Initialize Social Hunter worker (autonomous lead gen on Farcaster)
-  const socialHunter = createSocialHunterWorker(redis, neynar, openrouter);
+  const socialHunter = createSocialHunterWorker(redis, neynar, llm, spendLedger);
   await scheduleSocialHunter(socialHunter.queue, prisma);
   logger.info('Social Hunter worker initialized (poll: 5m)');
 
+  // 5e-1. Initialize draft publisher (supervised mode). Posts the drafts
+  // creators approved, and the ones whose auto-publish timeout ran out.
+  const draftPublisher = createDraftPublisherWorker(redis, neynar);
+  await scheduleDraftPublisher(draftPublisher.queue);
+  logger.info('Draft publisher worker initialized (poll: 60s)');
+
+  // 5e-2. Initialize strategy tuner (adaptive strategies). Re-learns the
+  // posting weights of adaptive agents from their casts' engagement.
+  const strategyTuner = createStrategyTunerWorker(redis);
+  await scheduleStrategyTuner(strategyTuner.queue);
+  logger.info('Strategy tuner worker initialized (poll: 6h)');
+
+  // 5e-3. Initialize mention worker. Answers the mentions of running
+  // agents that deserve a reply, within reply rate limits.
+  const mentionReplies = createMentionWorker(redis, neynar, llm, spendLedger);
+  await scheduleMentionReplies(mentionReplies.queue);
+  logger.info('Mention worker initialized (poll: 2m)');
+
+  // 5e-4. Initialize lead nurture worker. Follows up on Social Hunter
+  // leads that replied to or liked a pitch, until they decline or stall.
+  const leadNurture = createLeadNurtureWorker(redis, neynar, llm, spendLedger);
+  await scheduleLeadNurture(leadNurture.queue);
+  logger.info('Lead nurture worker initialized (poll: 10m)');
+
+  // 5e-5. Initialize epoch scoring worker (always-on). Scores each CEOS
+  // epoch once it ends; without a chain client, submissions stay queued.
+  const epochScoring = createEpochScoringWorker(redis, baseChain);
+  await scheduleEpochScoring(epochScoring.queue);
+  logger.info('Epoch scoring worker initialized (poll: 1h)');
+
   // Refresh agent contexts alongside the agent poll
   const executorRefreshTimer = setInterval(() => {
     if (!isShuttingDown) {
@@ -469,7 +554,14 @@ async function bootstrap(): Promise<RuntimeContext> {
       if (feeDistributorWorker) workerClosePromises.push(feeDistributorWorker.close());
       workerClosePromises.push(serviceJobMaintenance.shutdown());
       workerClosePromises.push(serviceExecutor.shutdown());
+      workerClosePromises.push(serviceAcceptance.shutdown());
+      workerClosePromises.push(serviceWorkflows.shutdown());
       workerClosePromises.push(socialHunter.shutdown());
+      workerClosePromises.push(draftPublisher.shutdown());
+      workerClosePromises.push(strategyTuner.shutdown());
+      workerClosePromises.push(mentionReplies.shutdown());
+      workerClosePromises.push(leadNurture.shutdown());
+      workerClosePromises.push(epochScoring.shutdown());
       await Promise.allSettled(workerClosePromises);
       logger.info('Workers shutdown complete');
 
@@ -532,7 +624,7 @@ async function bootstrap(): Promise<RuntimeContext> {
     scheduler,
     pipeline,
     skillExecutor,
-    openrouter,
+    llm,
     falAi,
     neynar,
     baseChain,
@@ -546,7 +638,7 @@ async function bootstrap(): Promise<RuntimeContext> {
   if (scoutWorker) activeWorkers.push('scout', 'treasury', 'fee-distributor');
   logger.info({
     workers: activeWorkers,
-    integrations: ['openrouter', 'fal-ai', 'neynar', 'base-chain'],
+    integrations: ['llm', 'fal-ai', 'neynar', 'base-chain'],
     activeAgents: runningAgents.length,
     agentIds: runningAgents,
     walletInitialized: baseChain?.isWalletInitialized() ?? false,
@@ -576,6 +668,7 @@ export {
   ContentPipeline,
   AgentScheduler,
   SkillExecutor,
+  LLMRouter,
   OpenRouterClient,
   FalAiClient,
   NeynarClient,
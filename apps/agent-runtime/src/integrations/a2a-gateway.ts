@@ -1,21 +1,46 @@
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
 import type { SkillExecutor, SkillContext } from '../core/skill-executor.js';
+import type { A2AMessageAuth } from './a2a-signing.js';
 
 /**
  * A2A (Agent-to-Agent) message format: JSON-RPC 2.0
  */
 interface A2AMessage {
   jsonrpc: '2.0';
-  method: 'query' | 'collaborate' | 'delegate' | 'reputation-check';
+  method:
+    | 'query'
+    | 'collaborate'
+    | 'delegate'
+    | 'reputation-check'
+    | 'quote-request'
+    | 'counter-offer'
+    | 'accept-quote'
+    | 'reject';
   params: {
     fromAgentId: string;
     fromFid?: number;
     payload: Record<string, unknown>;
+    /** Sender wallet signature — verified by the ceos.run API */
+    auth?: A2AMessageAuth;
   };
   id: string | number;
 }
 
+/**
+ * The sender of an A2A message as verified by the ceos.run API from the
+ * envelope signature (POST /api/a2a/:agentId). Handlers act for this
+ * agent, never for the unverified `params.fromAgentId`.
+ */
+interface A2ASender {
+  agentId: string;
+  walletAddress: string | null;
+  fid: number | null;
+  erc8004TokenId: number | null;
+  /** False only for unsigned messages let through in demo mode */
+  verified: boolean;
+}
+
 interface A2AResponse {
   jsonrpc: '2.0';
   result?: unknown;
@@ -62,9 +87,14 @@ export class A2AGateway {
   }
 
   /**
-   * Handle an incoming A2A message for a specific agent.
+   * Handle an incoming A2A message for a specific agent, on behalf of its
+   * verified sender.
    */
-  async handleMessage(targetAgentId: string, message: A2AMessage): Promise<A2AResponse> {
+  async handleMessage(
+    targetAgentId: string,
+    message: A2AMessage,
+    sender: A2ASender,
+  ): Promise<A2AResponse> {
     const agent = this.registeredAgents.get(targetAgentId);
     if (!agent) {
       return {
@@ -74,11 +104,21 @@ export class A2AGateway {
       };
     }
 
+    if (sender.agentId !== message.params.fromAgentId) {
+      return {
+        jsonrpc: '2.0',
+        error: { code: -32003, message: 'Sender identity does not match params.fromAgentId' },
+        id: message.id,
+      };
+    }
+
     this.logger.info(
       {
         targetAgentId,
         method: message.method,
-        fromAgentId: message.params.fromAgentId,
+        fromAgentId: sender.agentId,
+        senderWallet: sender.walletAddress,
+        verified: sender.verified,
       },
       'Processing A2A message',
     );
@@ -89,14 +129,29 @@ export class A2AGateway {
           return await this.handleQuery(agent, message);
 
         case 'collaborate':
-          return await this.handleCollaborate(agent, message);
+          return await this.handleCollaborate(agent, message, sender);
 
         case 'delegate':
-          return await this.handleDelegate(agent, message);
+          return await this.handleDelegate(agent, message, sender);
 
         case 'reputation-check':
           return this.handleReputationCheck(agent, message);
 
+        // Negotiation state (offers, signed quotes) lives in the ceos.run
+        // API, which answers these for the seller — see ServiceClient.
+        case 'quote-request':
+        case 'counter-offer':
+        case 'accept-quote':
+        case 'reject':
+          return {
+            jsonrpc: '2.0',
+            error: {
+              code: -32601,
+              message: `Method "${message.method}" is answered by the ceos.run API (POST /api/a2a/${targetAgentId})`,
+            },
+            id: message.id,
+          };
+
         default:
           return {
             jsonrpc: '2.0',
@@ -141,11 +196,13 @@ export class A2AGateway {
   private async handleCollaborate(
     agent: AgentRegistration,
     message: A2AMessage,
+    sender: A2ASender,
   ): Promise<A2AResponse> {
     return {
       jsonrpc: '2.0',
       result: {
         agentId: agent.agentId,
+        peerAgentId: sender.agentId,
         accepted: true,
         capabilities: agent.skills,
         message: 'Collaboration request accepted',
@@ -157,6 +214,7 @@ export class A2AGateway {
   private async handleDelegate(
     agent: AgentRegistration,
     message: A2AMessage,
+    sender: A2ASender,
   ): Promise<A2AResponse> {
     const taskId = (message.params.payload['taskId'] as string) ?? `task-${Date.now()}`;
     const skillId = (message.params.payload['skillId'] as string) ?? '';
@@ -182,7 +240,7 @@ export class A2AGateway {
 
     return {
       jsonrpc: '2.0',
-      result: { taskId, ...result },
+      result: { taskId, delegatedBy: sender.agentId, ...result },
       id: message.id,
     };
   }
@@ -204,4 +262,4 @@ export class A2AGateway {
   }
 }
 
-export type { A2AMessage, A2AResponse, AgentRegistration };
+export type { A2AMessage, A2AResponse, A2ASender, AgentRegistration };
@@ -0,0 +1,60 @@
+import { keccak256, stringToHex } from 'viem';
+import { canonicalJson } from '@ceosrun/shared/utils/canonical-json';
+
+/**
+ * EIP-712 signing for A2A JSON-RPC envelopes.
+ *
+ * The ceos.run API (apps/web/lib/a2a-auth.ts) rejects any A2A message
+ * that is not signed by the sender agent's wallet, or by the runtime
+ * wallet it binds as delegated signer, over its method, both
+ * agent ids, a hash of its params, a single-use nonce and an expiry.
+ * The domain, types and params hashing here must match it exactly.
+ */
+
+/** How long a signed envelope stays valid (the API allows up to 600s) */
+export const A2A_SIGNATURE_TTL_SECONDS = 300;
+
+export const A2A_MESSAGE_TYPES = {
+  A2AMessage: [
+    { name: 'method', type: 'string' },
+    { name: 'fromAgentId', type: 'string' },
+    { name: 'toAgentId', type: 'string' },
+    { name: 'paramsHash', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export function a2aDomain(chainId: number) {
+  return { name: 'ceos.run A2A', version: '1', chainId } as const;
+}
+
+/** The params of an A2A envelope that the signature covers. */
+export interface A2AParams {
+  fromAgentId: string;
+  fromFid?: number;
+  payload: Record<string, unknown>;
+}
+
+/** `params.auth` on a signed envelope. */
+export interface A2AMessageAuth {
+  signer: `0x${string}`;
+  nonce: `0x${string}`;
+  /** Unix seconds */
+  expiry: number;
+  signature: `0x${string}`;
+}
+
+/**
+ * Callback that signs an outgoing A2A envelope with the sender's wallet.
+ * BaseChainClient.signA2AMessage satisfies this type.
+ */
+export type A2ASignFn = (message: {
+  method: string;
+  toAgentId: string;
+  params: A2AParams;
+}) => Promise<A2AMessageAuth>;
+
+export function hashA2AParams(params: A2AParams): `0x${string}` {
+  return keccak256(stringToHex(canonicalJson(params)));
+}
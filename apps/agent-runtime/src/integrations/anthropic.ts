@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import pino from 'pino';
+import { logger as rootLogger } from '../config.js';
+import {
+  generateJSONWith,
+  type GenerateTextOptions,
+  type GenerateTextResult,
+  type LLMClient,
+  type LLMProvider,
+} from './llm.js';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+
+interface MessagesResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Direct Anthropic Messages API provider. Callers' OpenRouter model
+ * hints are ignored; the configured model is always used.
+ */
+export class AnthropicClient implements LLMProvider, LLMClient {
+  readonly name = 'anthropic';
+  readonly acceptsModelHints = false;
+  private readonly apiKey: string;
+  private readonly defaultModel: string;
+  private readonly logger: pino.Logger;
+
+  constructor(apiKey: string, defaultModel: string = DEFAULT_MODEL) {
+    this.apiKey = apiKey;
+    this.defaultModel = defaultModel;
+    this.logger = rootLogger.child({ module: 'LLM', provider: 'anthropic' });
+  }
+
+  async generateText(prompt: string, options?: GenerateTextOptions): Promise<GenerateTextResult> {
+    const model = options?.model ?? this.defaultModel;
+
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: options?.maxTokens ?? 300,
+          temperature: options?.temperature ?? 0.7,
+          system: options?.systemPrompt,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+      });
+
+      const retryable = res.status === 429 || res.status >= 500;
+      if (retryable && attempt < MAX_RETRIES - 1) {
+        const delay = BASE_DELAY_MS * Math.pow(2, attempt + (res.status === 429 ? 1 : 0));
+        this.logger.warn({ model, attempt: attempt + 1, delay, status: res.status }, 'Retrying after error');
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (!res.ok) {
+        throw new Error(`Anthropic API error ${res.status}: ${await res.text()}`);
+      }
+
+      const body = (await res.json()) as MessagesResponse;
+      const text = body.content
+        .map((block) => (block.type === 'text' ? (block.text ?? '') : ''))
+        .join('')
+        .trim();
+
+      if (text.length === 0) {
+        throw new Error('Empty response from anthropic');
+      }
+
+      const tokensUsed = (body.usage?.input_tokens ?? 0) + (body.usage?.output_tokens ?? 0);
+      this.logger.debug({ model, tokensUsed, textLength: text.length }, 'Message received');
+
+      return {
+        text,
+        model: body.model ?? model,
+        tokensUsed,
+        promptTokens: body.usage?.input_tokens,
+        completionTokens: body.usage?.output_tokens,
+      };
+    }
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateTextOptions,
+  ): Promise<T> {
+    return generateJSONWith(this, prompt, schema, options, this.logger);
+  }
+}
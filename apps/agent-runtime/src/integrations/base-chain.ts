@@ -16,6 +16,14 @@ import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import { base, baseSepolia } from 'viem/chains';
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
+import {
+  A2A_MESSAGE_TYPES,
+  A2A_SIGNATURE_TTL_SECONDS,
+  a2aDomain,
+  hashA2AParams,
+  type A2AMessageAuth,
+  type A2AParams,
+} from './a2a-signing.js';
 
 // ── x402 EIP-3009 Constants ─────────────────────────────────────────────────
 
@@ -24,6 +32,11 @@ const TRANSFER_WITH_AUTHORIZATION_ABI = parseAbi([
   'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
 ]);
 
+/** ERC-20 transfer ABI fragment (USDC escrow payouts). */
+const ERC20_TRANSFER_ABI = parseAbi([
+  'function transfer(address to, uint256 value) returns (bool)',
+]);
+
 /** EIP-712 typed data types for TransferWithAuthorization. */
 const TRANSFER_WITH_AUTHORIZATION_TYPES = {
   TransferWithAuthorization: [
@@ -348,6 +361,39 @@ export class BaseChainClient {
     };
   }
 
+  /**
+   * Transfer USDC from the runtime wallet.
+   *
+   * Used to settle service-job escrow: the runtime wallet is the x402
+   * resource wallet that receives buyer payments, so releases to sellers
+   * and refunds to buyers are plain ERC-20 transfers out of it.
+   *
+   * @param usdcContract - The USDC contract address on Base
+   * @param to - Recipient address
+   * @param amount - Amount in USDC micro-units (6 decimals)
+   * @returns The confirmed transaction hash
+   * @throws {Error} If the wallet is not initialized or the transfer reverts
+   */
+  async transferUsdc(
+    usdcContract: Address,
+    to: Address,
+    amount: bigint,
+  ): Promise<`0x${string}`> {
+    const txHash = await this.writeContract({
+      address: usdcContract,
+      abi: ERC20_TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [to, amount],
+    });
+
+    const receipt = await this.waitForTransaction(txHash);
+    if (receipt.status !== 'success') {
+      throw new Error(`USDC transfer reverted: ${txHash}`);
+    }
+
+    return txHash;
+  }
+
   /**
    * Sign an x402 USDC payment for a service purchase.
    *
@@ -433,6 +479,42 @@ export class BaseChainClient {
     };
   }
 
+  /**
+   * Sign an outgoing A2A envelope (EIP-712) so the ceos.run API can
+   * attribute it to the sender agent. The API only accepts it if this
+   * wallet is the sender agent's registered wallet or is bound there as
+   * the delegated signer (A2A_DELEGATE_SIGNER).
+   */
+  async signA2AMessage(message: {
+    method: string;
+    toAgentId: string;
+    params: A2AParams;
+  }): Promise<A2AMessageAuth> {
+    if (!this.walletClient || !this.account) {
+      throw new Error('Wallet not initialized — call initializeWallet() first');
+    }
+
+    const nonce = generateNonce();
+    const expiry = Math.floor(Date.now() / 1000) + A2A_SIGNATURE_TTL_SECONDS;
+
+    const signature = await this.walletClient.signTypedData({
+      account: this.account,
+      domain: a2aDomain(this.chainId),
+      types: A2A_MESSAGE_TYPES,
+      primaryType: 'A2AMessage',
+      message: {
+        method: message.method,
+        fromAgentId: message.params.fromAgentId,
+        toAgentId: message.toAgentId,
+        paramsHash: hashA2AParams(message.params),
+        nonce,
+        expiry: BigInt(expiry),
+      },
+    });
+
+    return { signer: this.account.address, nonce, expiry, signature };
+  }
+
   stopAllWatchers(): void {
     for (const [watcherId, unwatch] of this.activeWatchers.entries()) {
       unwatch();
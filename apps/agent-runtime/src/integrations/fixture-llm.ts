@@ -0,0 +1,59 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import pino from 'pino';
+import { logger as rootLogger } from '../config.js';
+import {
+  generateJSONWith,
+  type GenerateTextOptions,
+  type GenerateTextResult,
+  type LLMClient,
+  type LLMProvider,
+  type LLMTask,
+} from './llm.js';
+
+export interface FixtureResponses {
+  /** Canned reply per task (e.g. JSON for lead-triage) */
+  responses?: Partial<Record<LLMTask, string>>;
+  /** Reply for tasks without a canned one */
+  defaultResponse?: string;
+}
+
+/**
+ * Deterministic offline provider for tests and CI. Returns the canned
+ * reply for the call's task; otherwise a stable string derived from the
+ * prompt, so the same input always yields the same output. Never touches
+ * the network.
+ */
+export class FixtureLLMClient implements LLMProvider, LLMClient {
+  readonly name = 'fixture';
+  readonly acceptsModelHints = false;
+  private readonly fixtures: FixtureResponses;
+  private readonly logger: pino.Logger;
+
+  constructor(fixtures: FixtureResponses = {}) {
+    this.fixtures = fixtures;
+    this.logger = rootLogger.child({ module: 'LLM', provider: 'fixture' });
+  }
+
+  async generateText(prompt: string, options?: GenerateTextOptions): Promise<GenerateTextResult> {
+    const task = options?.task;
+    const canned = (task && this.fixtures.responses?.[task]) ?? this.fixtures.defaultResponse;
+
+    const text =
+      canned ??
+      `fixture:${task ?? 'default'}:${createHash('sha256')
+        .update(`${options?.systemPrompt ?? ''}\n${prompt}`)
+        .digest('hex')
+        .slice(0, 12)}`;
+
+    return { text, model: 'fixture', tokensUsed: 0 };
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateTextOptions,
+  ): Promise<T> {
+    return generateJSONWith(this, prompt, schema, options, this.logger);
+  }
+}
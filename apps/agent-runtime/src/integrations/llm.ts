@@ -0,0 +1,98 @@
+import type { z } from 'zod';
+import type pino from 'pino';
+import type { LLMTask } from '@ceosrun/shared/utils/llm-config';
+
+/**
+ * LLM provider layer.
+ *
+ * Every model call in the runtime goes through an LLMClient. The
+ * LLMRouter (core/llm-router.ts) is the one the runtime wires up: it
+ * picks a provider and model per agent and per task from the LLM config,
+ * so OpenRouter, direct Anthropic/OpenAI, a local OpenAI-compatible
+ * server (Ollama, llama.cpp) or the deterministic fixture provider can
+ * serve any task.
+ */
+
+/** What a model call is for — the unit of per-task routing. */
+export { LLM_TASKS, type LLMTask } from '@ceosrun/shared/utils/llm-config';
+
+export interface GenerateTextOptions {
+  /**
+   * Model hint. Callers pass OpenRouter ids (`vendor/model`); providers
+   * that do not accept hints use their configured model instead.
+   */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  systemPrompt?: string;
+  /** Routing: what the call is for */
+  task?: LLMTask;
+  /** Routing: the agent the call is made for */
+  agentId?: string;
+}
+
+export interface GenerateTextResult {
+  text: string;
+  model: string;
+  tokensUsed: number;
+  /** Split of tokensUsed, when the provider reports it (for pricing) */
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface TokenUsage {
+  totalTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** One backend that can complete a prompt. */
+export interface LLMProvider {
+  readonly name: string;
+  /** Whether callers' OpenRouter-style model hints are meaningful here */
+  readonly acceptsModelHints: boolean;
+  generateText(prompt: string, options?: GenerateTextOptions): Promise<GenerateTextResult>;
+}
+
+/** What the runtime's strategies, skills and workers depend on. */
+export interface LLMClient {
+  generateText(prompt: string, options?: GenerateTextOptions): Promise<GenerateTextResult>;
+  generateJSON<T>(prompt: string, schema: z.ZodSchema<T>, options?: GenerateTextOptions): Promise<T>;
+}
+
+const JSON_INSTRUCTION =
+  '\n\nIMPORTANT: Respond with valid JSON only. No markdown, no code blocks, no explanations.';
+
+/**
+ * Ask `provider` for JSON and validate it against `schema`. Code fences
+ * are stripped first — smaller local models add them despite being told
+ * not to.
+ */
+export async function generateJSONWith<T>(
+  provider: Pick<LLMProvider, 'generateText'>,
+  prompt: string,
+  schema: z.ZodSchema<T>,
+  options: GenerateTextOptions | undefined,
+  logger: pino.Logger,
+): Promise<T> {
+  const result = await provider.generateText(`${prompt}${JSON_INSTRUCTION}`, {
+    ...options,
+    temperature: options?.temperature ?? 0.3,
+  });
+
+  const text = result.text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return schema.parse(parsed);
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error), text: result.text },
+      'Failed to parse JSON response',
+    );
+    throw new Error(`Failed to parse JSON response: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -11,6 +11,13 @@ interface CastOptions {
   channelId?: string;
 }
 
+interface ThreadOptions extends Omit<CastOptions, 'replyTo'> {
+  /** Continue a thread that stopped partway: parts before `fromIndex` are up, the last of them is `parentHash` */
+  resume?: { fromIndex: number; parentHash: string };
+  /** Called as each part goes out, so progress survives a failure further on */
+  onPart?: (cast: Cast, index: number) => Promise<void> | void;
+}
+
 interface Cast {
   hash: string;
   authorFid: number;
@@ -27,6 +34,20 @@ interface Mention {
   text: string;
   timestamp: string;
   parentHash?: string;
+  /** Author reputation, when Neynar returns it */
+  authorFollowerCount?: number;
+  authorPowerBadge?: boolean;
+  /** Neynar user score, 0-1 */
+  authorScore?: number;
+}
+
+/** A cast earlier in a conversation, as shown to the LLM when replying. */
+interface ConversationCast {
+  hash: string;
+  authorFid: number;
+  authorUsername: string;
+  text: string;
+  timestamp: string;
 }
 
 interface NeynarCastResponse {
@@ -54,6 +75,8 @@ interface NeynarChannelCast {
     follower_count: number;
     following_count: number;
     power_badge: boolean;
+    custody_address?: string;
+    verified_addresses?: { eth_addresses: string[] };
   };
   text: string;
   timestamp: string;
@@ -77,7 +100,13 @@ interface NeynarNotificationsResponse {
     type: string;
     cast: {
       hash: string;
-      author: { fid: number; username: string };
+      author: {
+        fid: number;
+        username: string;
+        follower_count?: number;
+        power_badge?: boolean;
+        experimental?: { neynar_user_score?: number };
+      };
       text: string;
       timestamp: string;
       parent_hash?: string;
@@ -86,6 +115,17 @@ interface NeynarNotificationsResponse {
   cursor?: string;
 }
 
+interface NeynarConversationResponse {
+  conversation: {
+    cast: NeynarChannelCast & { direct_replies?: NeynarChannelCast[] };
+    chronological_parent_casts?: NeynarChannelCast[];
+  };
+}
+
+interface NeynarViewerCastResponse {
+  cast: { viewer_context?: { liked: boolean; recasted: boolean } };
+}
+
 const MAX_RETRIES = 3;
 const BASE_DELAY_MS = 1000;
 
@@ -347,43 +387,45 @@ export class NeynarClient {
     return cast;
   }
 
+  /**
+   * Publish `parts` as a thread, each part a reply to the one before. The
+   * embeds and channel go on the opening cast only; replies follow their
+   * parent into its channel. Returns the casts published by this call.
+   */
   async publishThread(
     signerUuid: string,
     parts: string[],
-    options?: Omit<CastOptions, 'replyTo'>,
+    options?: ThreadOptions,
   ): Promise<Cast[]> {
-    if (parts.length === 0) {
+    // Positions count non-empty parts only, so a resumed thread lines up
+    const texts = parts.filter((part) => part.trim().length > 0);
+    if (texts.length === 0) {
       throw new Error('Thread must have at least one part');
     }
 
+    const fromIndex = options?.resume?.fromIndex ?? 0;
     this.logger.info(
-      { signerUuid: signerUuid.slice(0, 8) + '...', partCount: parts.length },
-      'Publishing thread',
+      { signerUuid: signerUuid.slice(0, 8) + '...', partCount: texts.length, fromIndex },
+      fromIndex > 0 ? 'Resuming thread' : 'Publishing thread',
     );
 
     const casts: Cast[] = [];
-    let parentHash: string | undefined;
-
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      if (!part) continue;
+    let parentHash: string | undefined = options?.resume?.parentHash;
 
-      const castOptions: CastOptions = {
-        ...options,
-        replyTo: parentHash,
-      };
+    for (let i = fromIndex; i < texts.length; i++) {
+      const part = texts[i]!;
 
-      // Add embeds only to the first cast if provided
-      if (i > 0) {
-        castOptions.embeds = undefined;
-      }
+      const castOptions: CastOptions = i === 0
+        ? { embeds: options?.embeds, channelId: options?.channelId }
+        : { replyTo: parentHash };
 
       const cast = await this.publishCast(signerUuid, part, castOptions);
       casts.push(cast);
       parentHash = cast.hash;
+      await options?.onPart?.(cast, i);
 
       // Small delay between thread parts to avoid rate limits
-      if (i < parts.length - 1) {
+      if (i < texts.length - 1) {
         await this.sleep(1500);
       }
     }
@@ -418,6 +460,9 @@ export class NeynarClient {
         text: n.cast.text,
         timestamp: n.cast.timestamp,
         parentHash: n.cast.parent_hash,
+        authorFollowerCount: n.cast.author.follower_count,
+        authorPowerBadge: n.cast.author.power_badge,
+        authorScore: n.cast.author.experimental?.neynar_user_score,
       }));
 
     if (since) {
@@ -429,6 +474,59 @@ export class NeynarClient {
     return mentions;
   }
 
+  /**
+   * The casts above `castHash` in its conversation, oldest first, at most
+   * `limit` of them (the nearest ones).
+   */
+  async getConversationParents(castHash: string, limit = 5): Promise<ConversationCast[]> {
+    const params = new URLSearchParams({
+      identifier: castHash,
+      type: 'hash',
+      reply_depth: '0',
+      include_chronological_parent_casts: 'true',
+    });
+
+    const response = await this.fetchWithRetry<NeynarConversationResponse>(
+      `${NEYNAR_API_BASE}/cast/conversation?${params.toString()}`,
+      { method: 'GET' },
+    );
+
+    return (response.conversation.chronological_parent_casts ?? []).slice(-limit).map(toConversationCast);
+  }
+
+  /** The direct replies to `castHash`, at most `limit` of them. */
+  async getCastReplies(castHash: string, limit = 25): Promise<ConversationCast[]> {
+    const params = new URLSearchParams({
+      identifier: castHash,
+      type: 'hash',
+      reply_depth: '1',
+      limit: String(limit),
+    });
+
+    const response = await this.fetchWithRetry<NeynarConversationResponse>(
+      `${NEYNAR_API_BASE}/cast/conversation?${params.toString()}`,
+      { method: 'GET' },
+    );
+
+    return (response.conversation.cast.direct_replies ?? []).map(toConversationCast);
+  }
+
+  /** Whether the user `fid` liked `castHash`. */
+  async hasLiked(castHash: string, fid: number): Promise<boolean> {
+    const params = new URLSearchParams({
+      identifier: castHash,
+      type: 'hash',
+      viewer_fid: fid.toString(),
+    });
+
+    const response = await this.fetchWithRetry<NeynarViewerCastResponse>(
+      `${NEYNAR_API_BASE}/cast?${params.toString()}`,
+      { method: 'GET' },
+    );
+
+    return response.cast.viewer_context?.liked ?? false;
+  }
+
   async replyCast(
     signerUuid: string,
     parentHash: string,
@@ -649,4 +747,14 @@ export class NeynarClient {
   }
 }
 
-export type { Cast, CastOptions, Mention, SignerInfo, NeynarUser, NeynarChannelCast };
+function toConversationCast(cast: NeynarChannelCast): ConversationCast {
+  return {
+    hash: cast.hash,
+    authorFid: cast.author.fid,
+    authorUsername: cast.author.username,
+    text: cast.text,
+    timestamp: cast.timestamp,
+  };
+}
+
+export type { Cast, CastOptions, ThreadOptions, Mention, ConversationCast, SignerInfo, NeynarUser, NeynarChannelCast };
@@ -0,0 +1,211 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import pino from 'pino';
+import { logger as rootLogger } from '../config.js';
+import {
+  generateJSONWith,
+  type GenerateTextOptions,
+  type GenerateTextResult,
+  type LLMClient,
+  type LLMProvider,
+  type TokenUsage,
+} from './llm.js';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+
+export interface OpenAICompatibleOptions {
+  /** Provider name for logs and routing */
+  name: string;
+  baseURL: string;
+  /** Local servers ignore it, but the SDK needs a non-empty value */
+  apiKey: string;
+  defaultModel: string;
+  /** Tried in order when the requested model keeps failing */
+  fallbackModels?: string[];
+  acceptsModelHints?: boolean;
+  defaultHeaders?: Record<string, string>;
+}
+
+/**
+ * Chat completions against any OpenAI-compatible API: OpenAI itself,
+ * OpenRouter, or a local server such as Ollama (`http://localhost:11434/v1`)
+ * or llama.cpp (`http://localhost:8080/v1`). Retries rate limits and 5xx
+ * with backoff, then falls back through `fallbackModels`.
+ */
+export class OpenAICompatibleClient implements LLMProvider, LLMClient {
+  readonly name: string;
+  readonly acceptsModelHints: boolean;
+  protected readonly logger: pino.Logger;
+  private readonly client: OpenAI;
+  private readonly defaultModel: string;
+  private readonly fallbackModels: string[];
+  private tokenUsage: TokenUsage = {
+    totalTokens: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.acceptsModelHints = options.acceptsModelHints ?? false;
+    this.defaultModel = options.defaultModel;
+    this.fallbackModels = options.fallbackModels ?? [];
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      apiKey: options.apiKey,
+      defaultHeaders: options.defaultHeaders,
+    });
+    this.logger = rootLogger.child({ module: 'LLM', provider: options.name });
+  }
+
+  async generateText(prompt: string, options?: GenerateTextOptions): Promise<GenerateTextResult> {
+    const model = options?.model ?? this.defaultModel;
+    const modelsToTry = [model, ...this.fallbackModels.filter((m) => m !== model)];
+
+    let lastError: Error | null = null;
+
+    for (const currentModel of modelsToTry) {
+      try {
+        const result = await this.tryGenerateWithRetries(prompt, currentModel, options);
+        return result;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        this.logger.warn(
+          { model: currentModel, error: lastError.message },
+          'Model failed, trying fallback',
+        );
+      }
+    }
+
+    throw lastError ?? new Error('All models failed');
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateTextOptions,
+  ): Promise<T> {
+    return generateJSONWith(this, prompt, schema, options, this.logger);
+  }
+
+  getTokenUsage(): TokenUsage {
+    return { ...this.tokenUsage };
+  }
+
+  resetTokenUsage(): void {
+    this.tokenUsage = { totalTokens: 0, promptTokens: 0, completionTokens: 0 };
+  }
+
+  private async tryGenerateWithRetries(
+    prompt: string,
+    model: string,
+    options?: GenerateTextOptions,
+  ): Promise<GenerateTextResult> {
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      try {
+        return await this.callCompletions(prompt, model, options);
+      } catch (error) {
+        const isRateLimit = this.isRateLimitError(error);
+        const isRetryable = isRateLimit || this.isRetryableError(error);
+
+        if (!isRetryable || attempt === MAX_RETRIES - 1) {
+          throw error;
+        }
+
+        const delay = isRateLimit
+          ? this.getRateLimitDelay(error, attempt)
+          : BASE_DELAY_MS * Math.pow(2, attempt);
+
+        this.logger.warn(
+          { model, attempt: attempt + 1, delay, isRateLimit },
+          'Retrying after error',
+        );
+
+        await this.sleep(delay);
+      }
+    }
+
+    throw new Error(`Failed after ${MAX_RETRIES} retries`);
+  }
+
+  private async callCompletions(
+    prompt: string,
+    model: string,
+    options?: GenerateTextOptions,
+  ): Promise<GenerateTextResult> {
+    const messages: OpenAI.ChatCompletionMessageParam[] = [];
+
+    if (options?.systemPrompt) {
+      messages.push({ role: 'system', content: options.systemPrompt });
+    }
+
+    messages.push({ role: 'user', content: prompt });
+
+    this.logger.debug({ model, messageCount: messages.length }, 'Calling chat completions');
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: options?.maxTokens ?? 300,
+      temperature: options?.temperature ?? 0.7,
+    });
+
+    const choice = response.choices[0];
+    const text = choice?.message?.content?.trim() ?? '';
+
+    if (text.length === 0) {
+      throw new Error(`Empty response from ${this.name}`);
+    }
+
+    const usage = response.usage;
+    const tokensUsed = usage?.total_tokens ?? 0;
+
+    // Track cumulative usage
+    this.tokenUsage.totalTokens += tokensUsed;
+    this.tokenUsage.promptTokens += usage?.prompt_tokens ?? 0;
+    this.tokenUsage.completionTokens += usage?.completion_tokens ?? 0;
+
+    this.logger.debug({ model, tokensUsed, textLength: text.length }, 'Chat completion received');
+
+    return {
+      text,
+      model: response.model ?? model,
+      tokensUsed,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+    };
+  }
+
+  private isRateLimitError(error: unknown): boolean {
+    if (error instanceof OpenAI.APIError) {
+      return error.status === 429;
+    }
+    return false;
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof OpenAI.APIError) {
+      return error.status >= 500 || error.status === 429;
+    }
+    return false;
+  }
+
+  private getRateLimitDelay(error: unknown, attempt: number): number {
+    if (error instanceof OpenAI.APIError) {
+      const retryAfterHeader = error.headers?.['retry-after'];
+      if (retryAfterHeader) {
+        const retryAfter = parseInt(String(retryAfterHeader), 10);
+        if (!isNaN(retryAfter)) {
+          return retryAfter * 1000;
+        }
+      }
+    }
+    // Default exponential backoff with higher base for rate limits
+    return BASE_DELAY_MS * Math.pow(2, attempt + 1);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -19,6 +19,7 @@
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
 import type { X402SignedPayment } from './base-chain.js';
+import type { A2ASignFn } from './a2a-signing.js';
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -29,8 +30,14 @@ export interface ServiceOffering {
   name: string;
   description: string;
   category: string;
+  /** Capability tags from the shared registry */
+  capabilities: string[];
   priceUsdc: string; // BigInt serialized as string (micro-USDC)
+  /** per_call | subscription | metered | tiered — what priceUsdc means depends on it */
   pricingModel: string;
+  pricingConfig: Record<string, unknown> | null;
+  /** The seller accepts A2A price negotiation (quote-request) */
+  negotiable: boolean;
   inputSchema: Record<string, unknown>;
   outputSchema: Record<string, unknown>;
   maxLatencyMs: number;
@@ -48,6 +55,38 @@ export interface ServiceOffering {
   createdAt: string;
 }
 
+/** Discovery result: an offering plus its relevance to the query. */
+export interface RankedServiceOffering
+  extends Pick<
+    ServiceOffering,
+    | 'id'
+    | 'slug'
+    | 'name'
+    | 'category'
+    | 'capabilities'
+    | 'priceUsdc'
+    | 'pricingModel'
+    | 'pricingConfig'
+    | 'negotiable'
+    | 'inputSchema'
+    | 'maxLatencyMs'
+    | 'totalJobs'
+    | 'completedJobs'
+    | 'avgRating'
+    | 'avgLatencyMs'
+  > {
+  /** 0–1 match score (capability, schema fit, reputation, price, latency) */
+  relevance: number;
+  relevanceBreakdown: Record<string, number | null>;
+  sellerAgent: {
+    id: string;
+    name: string;
+    pfpUrl: string | null;
+    walletAddress: string | null;
+    reputationScore: number;
+  };
+}
+
 export interface ServiceJob {
   id: string;
   offeringId: string;
@@ -59,6 +98,16 @@ export interface ServiceJob {
   priceUsdc: string;
   paymentTxHash: string | null;
   buybackTxHash: string | null;
+  escrowStatus: string;
+  approvalDeadline: string | null;
+  approvedAt: string | null;
+  escrowSettleTxHash: string | null;
+  /** Micro-USDC refunded by a PARTIAL_REFUND verdict or unused metered units */
+  refundUsdc: string | null;
+  /** Metered offerings: units billed for the job */
+  usageUnits: number | null;
+  /** Why the seller rejected the job (acceptance policy or creator) */
+  rejectionReason: string | null;
   buyerRating: number | null;
   buyerFeedback: string | null;
   acceptedAt: string | null;
@@ -71,11 +120,108 @@ export interface ServiceJob {
   sellerAgent?: { id: string; name: string };
 }
 
+/** Progress event a seller pushed while delivering a job. */
+export interface ServiceJobEvent {
+  /** 1, 2, 3… per job, in the order the seller sent them */
+  seq: number;
+  /** progress | artifact | log */
+  type: string;
+  /** 0–100, set on progress events */
+  progress: number | null;
+  message: string | null;
+  /** Partial deliverable, set on artifact events */
+  data: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+/** Price of the buyer's next job (GET /api/services/[slug]/quote). */
+export interface ServiceQuote {
+  offeringSlug: string;
+  pricingModel: string;
+  pricingConfig: Record<string, unknown> | null;
+  /** Amount the x402 payment must cover, micro-USDC ("0" = covered by a subscription) */
+  chargeUsdc: string;
+  /** Metered offerings: units pre-authorized by the charge */
+  authorizedUnits: number | null;
+  description: string;
+  periodStart: string;
+  periodEnd: string;
+  usage: { calls: number; units: string; chargedUsdc: string } | null;
+}
+
+/** One step of a workflow definition (see POST /api/services/workflows). */
+export interface WorkflowStepDefinition {
+  key: string;
+  capability: string;
+  /** Pin an offering instead of discovering one by capability */
+  offeringSlug?: string;
+  /** Per-step price cap in micro-USDC (string, BigInt-safe) */
+  maxPriceUsdc?: string;
+  dependsOn?: string[];
+  requirements?: Record<string, unknown>;
+  /** Requirement field → "<stepKey>.<path>" into an upstream step's deliverables */
+  inputs?: Record<string, string>;
+  maxAttempts?: number;
+  /** What to do with this step's delivered job if a later step fails */
+  onCompensate?: 'refund' | 'keep';
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  /** Total micro-USDC the workflow may commit (string, BigInt-safe) */
+  budgetUsdc: string;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface ServiceWorkflow {
+  id: string;
+  buyerAgentId: string;
+  name: string;
+  status: string;
+  budgetUsdc: string;
+  spentUsdc: string;
+  error: string | null;
+  steps: Array<{ id: string; key: string; status: string; attempts: number; jobId: string | null }>;
+  createdAt: string;
+}
+
+/** A seller-signed price, redeemable on createJob until it expires. */
+export interface NegotiatedQuote {
+  negotiationId: string;
+  offeringSlug: string;
+  buyerAgentId: string;
+  priceUsdc: string;
+  /** Jobs this quote covers, and how many have been created with it */
+  quantity: number;
+  jobsUsed: number;
+  expiresAt: string;
+  signature: string;
+}
+
+/** The seller's answer to a negotiation message. */
+export interface NegotiationReply {
+  negotiationId: string;
+  status: 'OPEN' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED';
+  round: number;
+  action: string;
+  message: string;
+  offeringSlug: string;
+  quantity: number;
+  listPriceUsdc: string;
+  /** The seller's standing offer while the negotiation is OPEN */
+  offerUsdc: string | null;
+  expiresAt: string;
+  quote: NegotiatedQuote | null;
+}
+
 export interface DiscoverOptions {
   category?: string;
   maxPrice?: number;
+  /** Capability tag (or alias) from the shared registry */
   capability?: string;
-  sort?: 'price_asc' | 'price_desc' | 'newest' | 'rating' | 'jobs_completed';
+  /** Requirements the buyer intends to send — scored against inputSchema */
+  requirements?: Record<string, unknown>;
+  sort?: 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'rating' | 'jobs_completed';
   page?: number;
   limit?: number;
 }
@@ -83,14 +229,21 @@ export interface DiscoverOptions {
 interface ApiResponse<T> {
   success: boolean;
   data: T;
-  error?: { code: string; message: string };
+  error?: {
+    code: string;
+    message: string;
+    /** Per-field problems, e.g. requirements vs. the offering inputSchema */
+    details?: Array<{ path: string; message: string }>;
+  };
 }
 
-interface PaginatedApiResponse<T> {
-  success: boolean;
-  data: T[];
-  pagination: { page: number; limit: number; total: number };
-  error?: { code: string; message: string };
+interface DiscoverApiData {
+  offerings: RankedServiceOffering[];
+  total: number;
+  page: number;
+  limit: number;
+  /** The registry tag the capability query resolved to */
+  capability: string | null;
 }
 
 /**
@@ -114,6 +267,7 @@ export class ServiceClient {
   private readonly agentId: string;
   private readonly walletAddress: string;
   private readonly signPayment: X402SignFn | null;
+  private readonly signA2A: A2ASignFn | null;
   private readonly logger: pino.Logger;
 
   /**
@@ -121,46 +275,57 @@ export class ServiceClient {
    * @param agentId - The agent's ID (bound per-instance)
    * @param walletAddress - The agent's wallet address (for auth headers)
    * @param signPayment - Optional x402 signing function from BaseChainClient
+   * @param signA2A - Optional A2A envelope signer; the API rejects unsigned
+   *   A2A messages outside demo mode
    */
   constructor(
     baseUrl: string,
     agentId: string,
     walletAddress: string,
     signPayment?: X402SignFn,
+    signA2A?: A2ASignFn,
   ) {
     this.baseUrl = baseUrl;
     this.agentId = agentId;
     this.walletAddress = walletAddress;
     this.signPayment = signPayment ?? null;
+    this.signA2A = signA2A ?? null;
     this.logger = rootLogger.child({ module: 'ServiceClient', agentId });
   }
 
   /**
    * Discover available service offerings with optional filters.
-   * Uses the V2 capability-based search (replaces free-text `q`).
+   * Results carry a relevance score; with a capability or requirements
+   * they are sorted by it (best match first).
    */
-  async discover(options: DiscoverOptions = {}): Promise<ServiceOffering[]> {
+  async discover(options: DiscoverOptions = {}): Promise<RankedServiceOffering[]> {
     const params = new URLSearchParams();
     if (options.category) params.set('category', options.category);
     if (options.maxPrice !== undefined) params.set('maxPrice', options.maxPrice.toString());
     if (options.capability) params.set('capability', options.capability);
+    if (options.requirements) params.set('requirements', JSON.stringify(options.requirements));
     if (options.sort) params.set('sort', options.sort);
     if (options.page) params.set('page', options.page.toString());
     if (options.limit) params.set('limit', options.limit.toString());
 
     const url = `${this.baseUrl}/api/services/discover?${params.toString()}`;
-    const res = await this.fetchJson<PaginatedApiResponse<ServiceOffering>>(url);
+    const res = await this.fetchJson<ApiResponse<DiscoverApiData>>(url);
 
     if (!res.success) {
       throw new Error(`Service discovery failed: ${res.error?.message ?? 'Unknown error'}`);
     }
 
     this.logger.debug(
-      { count: res.data.length, category: options.category, capability: options.capability },
+      {
+        count: res.data.offerings.length,
+        category: options.category,
+        capability: options.capability,
+        resolvedCapability: res.data.capability,
+      },
       'Services discovered',
     );
 
-    return res.data;
+    return res.data.offerings;
   }
 
   /**
@@ -177,6 +342,27 @@ export class ServiceClient {
     return res.data;
   }
 
+  /**
+   * Price this agent's next job of an offering under its pricing model.
+   *
+   * @param maxUnits - Metered offerings: cap on the units to pre-authorize
+   */
+  async quote(slug: string, maxUnits?: number): Promise<ServiceQuote> {
+    const params = new URLSearchParams({ buyerAgentId: this.agentId });
+    if (maxUnits !== undefined) params.set('maxUnits', String(maxUnits));
+
+    const url = `${this.baseUrl}/api/services/${slug}/quote?${params.toString()}`;
+    const res = await this.fetchJson<ApiResponse<ServiceQuote>>(url, {
+      headers: { 'x-wallet-address': this.walletAddress },
+    });
+
+    if (!res.success) {
+      throw new Error(`Failed to quote service: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    return res.data;
+  }
+
   /**
    * Create a service job (purchase an offering) on behalf of this agent.
    *
@@ -187,18 +373,23 @@ export class ServiceClient {
    * If a signPayment function was provided AND priceUsdc + payTo are set,
    * this method signs an EIP-3009 USDC transferWithAuthorization and
    * attaches it as the X-PAYMENT header. The API will verify this via
-   * the CDP facilitator before creating the job.
+   * the CDP facilitator before creating the job. `priceUsdc` must cover
+   * the quoted charge (see quote()), not the offering's list price.
    */
   async createJob(params: {
     offeringSlug: string;
     requirements: Record<string, unknown>;
     ttlMinutes?: number;
-    /** The offering price in USDC micro-units (for x402 signing) */
+    /** The quoted charge in USDC micro-units (for x402 signing) */
     priceUsdc?: bigint;
+    /** Metered offerings: cap on the units to pre-authorize */
+    maxUnits?: number;
     /** The protocol resource wallet address (for x402 signing) */
     payTo?: `0x${string}`;
     /** The USDC contract address on Base (for x402 signing) */
     usdcContract?: `0x${string}`;
+    /** A negotiated quote — the job is charged its price instead of list */
+    quote?: Pick<NegotiatedQuote, 'negotiationId' | 'signature'>;
   }): Promise<ServiceJob> {
     const url = `${this.baseUrl}/api/services/jobs`;
 
@@ -245,11 +436,18 @@ export class ServiceClient {
         offeringSlug: params.offeringSlug,
         requirements: params.requirements,
         ttlMinutes: params.ttlMinutes,
+        maxUnits: params.maxUnits,
+        quote: params.quote,
       }),
     });
 
     if (!res.success) {
-      throw new Error(`Service purchase failed: ${res.error?.message ?? 'Unknown error'}`);
+      const details = res.error?.details
+        ?.map((d) => `${d.path || '(root)'}: ${d.message}`)
+        .join('; ');
+      throw new Error(
+        `Service purchase failed: ${res.error?.message ?? 'Unknown error'}${details ? ` (${details})` : ''}`,
+      );
     }
 
     this.logger.info(
@@ -285,25 +483,64 @@ export class ServiceClient {
     return res.data;
   }
 
+  /**
+   * Fetch a job's progress events after the given sequence number,
+   * together with the job's current status.
+   */
+  async getJobEvents(
+    jobId: string,
+    after = 0,
+  ): Promise<{ status: string; events: ServiceJobEvent[] }> {
+    const url = `${this.baseUrl}/api/services/jobs/${jobId}/events?after=${after}`;
+    const res = await this.fetchJson<ApiResponse<{ status: string; events: ServiceJobEvent[] }>>(url, {
+      headers: {
+        'x-wallet-address': this.walletAddress,
+      },
+    });
+
+    if (!res.success) {
+      throw new Error(`Failed to fetch job events: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    return res.data;
+  }
+
   /**
    * Poll a service job's status until it reaches a terminal state.
    *
    * @param jobId - The service job ID to poll
    * @param intervalMs - Polling interval (default: 5000ms)
    * @param timeoutMs - Max wait time (default: 60000ms)
+   * @param onEvent - Receives the seller's progress events in order while
+   *   the job runs; polls the events endpoint instead of the job
    */
   async waitForCompletion(
     jobId: string,
     intervalMs = 5000,
     timeoutMs = 60000,
+    onEvent?: (event: ServiceJobEvent) => void,
   ): Promise<ServiceJob> {
-    const terminalStatuses = new Set(['COMPLETED', 'REJECTED', 'EXPIRED', 'DISPUTED']);
+    const terminalStatuses = new Set(['COMPLETED', 'REJECTED', 'EXPIRED', 'DISPUTED', 'RESOLVED']);
     const deadline = Date.now() + timeoutMs;
+    let lastSeq = 0;
 
     while (Date.now() < deadline) {
-      const job = await this.getJob(jobId);
+      let job: ServiceJob | null = null;
+      let status: string;
+      if (onEvent) {
+        const page = await this.getJobEvents(jobId, lastSeq);
+        for (const event of page.events) {
+          onEvent(event);
+          lastSeq = event.seq;
+        }
+        status = page.status;
+      } else {
+        job = await this.getJob(jobId);
+        status = job.status;
+      }
 
-      if (terminalStatuses.has(job.status)) {
+      if (terminalStatuses.has(status)) {
+        job ??= await this.getJob(jobId);
         this.logger.info(
           { jobId, finalStatus: job.status },
           'Service job reached terminal state',
@@ -317,6 +554,107 @@ export class ServiceClient {
     throw new Error(`Service job ${jobId} did not complete within ${timeoutMs}ms`);
   }
 
+  /**
+   * Approve a COMPLETED job's deliverables, releasing the escrowed
+   * payment to the seller. Unapproved jobs auto-release once the
+   * approval window lapses.
+   */
+  async approveJob(jobId: string): Promise<ServiceJob> {
+    const url = `${this.baseUrl}/api/services/jobs/${jobId}/approve`;
+    const res = await this.fetchJson<ApiResponse<ServiceJob>>(url, {
+      method: 'POST',
+      headers: {
+        'x-wallet-address': this.walletAddress,
+      },
+    });
+
+    if (!res.success) {
+      throw new Error(`Failed to approve job: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    this.logger.info({ jobId, escrowStatus: res.data.escrowStatus }, 'Service job approved');
+
+    return res.data;
+  }
+
+  /**
+   * Dispute a COMPLETED job's deliverables while the approval window is
+   * open. Stops the escrow auto-release until an arbiter decides.
+   */
+  async disputeJob(jobId: string, reason: string): Promise<{ id: string; status: string }> {
+    const url = `${this.baseUrl}/api/services/jobs/${jobId}/dispute`;
+    const res = await this.fetchJson<ApiResponse<{ id: string; status: string }>>(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-wallet-address': this.walletAddress,
+      },
+      body: JSON.stringify({ reason }),
+    });
+
+    if (!res.success) {
+      throw new Error(`Failed to dispute job: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    this.logger.info({ jobId, disputeId: res.data.id }, 'Service job disputed');
+
+    return res.data;
+  }
+
+  /**
+   * Cancel a job the seller has not started delivering (CREATED or
+   * ACCEPTED). A held payment is queued for refund.
+   */
+  async cancelJob(jobId: string): Promise<ServiceJob> {
+    const url = `${this.baseUrl}/api/services/jobs/${jobId}/cancel`;
+    const res = await this.fetchJson<ApiResponse<ServiceJob>>(url, {
+      method: 'POST',
+      headers: {
+        'x-wallet-address': this.walletAddress,
+      },
+    });
+
+    if (!res.success) {
+      throw new Error(`Failed to cancel job: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    this.logger.info({ jobId, escrowStatus: res.data.escrowStatus }, 'Service job cancelled');
+
+    return res.data;
+  }
+
+  /**
+   * Define a multi-step workflow for this agent. The runtime's workflow
+   * worker picks it up and hires each step in dependency order.
+   */
+  async createWorkflow(definition: WorkflowDefinition): Promise<ServiceWorkflow> {
+    const url = `${this.baseUrl}/api/services/workflows`;
+    const res = await this.fetchJson<ApiResponse<ServiceWorkflow>>(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-wallet-address': this.walletAddress,
+      },
+      body: JSON.stringify({ buyerAgentId: this.agentId, ...definition }),
+    });
+
+    if (!res.success) {
+      const details = res.error?.details
+        ?.map((d) => `${d.path || '(root)'}: ${d.message}`)
+        .join('; ');
+      throw new Error(
+        `Failed to create workflow: ${res.error?.message ?? 'Unknown error'}${details ? ` (${details})` : ''}`,
+      );
+    }
+
+    this.logger.info(
+      { workflowId: res.data.id, steps: definition.steps.length, budgetUsdc: definition.budgetUsdc },
+      'Service workflow created',
+    );
+
+    return res.data;
+  }
+
   /**
    * Rate a completed service job.
    *
@@ -346,8 +684,104 @@ export class ServiceClient {
     return res.data;
   }
 
+  // ─── Negotiation (A2A) ──────────────────────────────────────────────────
+
+  /**
+   * Open a price negotiation with an offering's seller. The reply carries
+   * the seller's opening offer, or a signed quote if it accepted outright.
+   */
+  async requestQuote(
+    sellerAgentId: string,
+    params: {
+      offeringSlug: string;
+      quantity?: number;
+      /** Our opening bid in micro-USDC (string, BigInt-safe) */
+      proposedPriceUsdc?: string;
+      message?: string;
+    },
+  ): Promise<NegotiationReply> {
+    return this.negotiate(sellerAgentId, 'quote-request', params);
+  }
+
+  /**
+   * Answer the seller's standing offer with a new bid.
+   */
+  async counterOffer(
+    sellerAgentId: string,
+    negotiationId: string,
+    proposedPriceUsdc: string,
+    message?: string,
+  ): Promise<NegotiationReply> {
+    return this.negotiate(sellerAgentId, 'counter-offer', {
+      negotiationId,
+      proposedPriceUsdc,
+      message,
+    });
+  }
+
+  /**
+   * Accept the seller's standing offer; the reply carries the signed quote.
+   */
+  async acceptQuote(sellerAgentId: string, negotiationId: string): Promise<NegotiationReply> {
+    return this.negotiate(sellerAgentId, 'accept-quote', { negotiationId });
+  }
+
+  /**
+   * Walk away from an open negotiation.
+   */
+  async rejectNegotiation(
+    counterpartyAgentId: string,
+    negotiationId: string,
+    reason?: string,
+  ): Promise<NegotiationReply> {
+    return this.negotiate(counterpartyAgentId, 'reject', { negotiationId, reason });
+  }
+
   // ─── Private helpers ────────────────────────────────────────────────────
 
+  private async negotiate(
+    targetAgentId: string,
+    method: 'quote-request' | 'counter-offer' | 'accept-quote' | 'reject',
+    payload: Record<string, unknown>,
+  ): Promise<NegotiationReply> {
+    const url = `${this.baseUrl}/api/a2a/${targetAgentId}`;
+    const params = { fromAgentId: this.agentId, payload };
+    const auth = this.signA2A
+      ? await this.signA2A({ method, toAgentId: targetAgentId, params })
+      : undefined;
+
+    const res = await this.fetchJson<
+      ApiResponse<{ jsonrpc: '2.0'; result: NegotiationReply; id: string }>
+    >(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method,
+        params: { ...params, auth },
+        id: `${method}-${Date.now()}`,
+      }),
+    });
+
+    if (!res.success) {
+      throw new Error(`Negotiation ${method} failed: ${res.error?.message ?? 'Unknown error'}`);
+    }
+
+    const reply = res.data.result;
+    this.logger.info(
+      {
+        negotiationId: reply.negotiationId,
+        method,
+        status: reply.status,
+        round: reply.round,
+        offerUsdc: reply.offerUsdc,
+      },
+      'Negotiation reply received',
+    );
+
+    return reply;
+  }
+
   private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
     const res = await fetch(url, init);
     return (await res.json()) as T;
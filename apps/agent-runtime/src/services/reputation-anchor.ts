@@ -24,6 +24,7 @@ import { BaseChainClient } from '../integrations/base-chain.js';
 import {
   calculateReputation,
   DEFAULT_STARTING_SCORE,
+  type DisputeVerdictOutcome,
   type ReputationInput,
   type ReputationResult,
 } from './reputation-calculator.js';
@@ -170,7 +171,8 @@ export function buildMetadataEnvelope(
  * Execute the full anchor pipeline for a completed/disputed service job.
  *
  * This is the main entry point called from the service-executor after
- * a job reaches a terminal state (COMPLETED or DISPUTED).
+ * a job reaches COMPLETED, and from the service-job maintenance worker
+ * once a dispute is resolved (`options.disputeOutcome`).
  *
  * Pipeline:
  *   1. Find the decision log for this job
@@ -191,6 +193,7 @@ export async function anchorJobCompletion(
   executionTimeMs: number,
   maxLatencyMs: number,
   logger: pino.Logger,
+  options: { disputeOutcome?: DisputeVerdictOutcome } = {},
 ): Promise<AnchorResult | null> {
   try {
     // ── Step 1: Fetch the decision log for this job ────────────────────────
@@ -221,6 +224,7 @@ export async function anchorJobCompletion(
       isSuccess,
       executionTimeMs,
       maxLatencyMs,
+      disputeOutcome: options.disputeOutcome,
     };
 
     const reputationResult = calculateReputation(repInput);
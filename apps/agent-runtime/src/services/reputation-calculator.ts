@@ -12,6 +12,12 @@
  *   - Latency bonus: +5 points if execution < 50% of max latency
  *   - Score range: [0, 10000] (clamped)
  *
+ * Dispute verdicts replace the raw outcome for disputed jobs:
+ *   - UPHOLD: +10 (seller was right — no latency bonus)
+ *   - REFUND: -15 (full failure)
+ *   - PARTIAL_REFUND: -7 (half the failure penalty)
+ *   - REDELIVER: not scored — the redelivery attempt is scored instead
+ *
  * The score maps to ERC-8004's reputationScore (uint256) on-chain.
  * Off-chain we store granular per-job deltas; on-chain we only
  * write the aggregate score at epoch boundaries via updateReputation().
@@ -31,6 +37,9 @@ export const LATENCY_BONUS = 5;
 /** Threshold: latency bonus kicks in below this fraction of maxLatencyMs */
 export const LATENCY_BONUS_THRESHOLD = 0.5;
 
+/** Points deducted when a dispute ends in a partial refund (half penalty) */
+export const PARTIAL_REFUND_DELTA = Math.trunc(BASE_FAILURE_DELTA / 2);
+
 /** Minimum reputation score (floor) */
 export const MIN_SCORE = 0;
 
@@ -42,6 +51,9 @@ export const DEFAULT_STARTING_SCORE = 500;
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
+/** Dispute outcomes that carry a reputation verdict (REDELIVER does not) */
+export type DisputeVerdictOutcome = 'REFUND' | 'PARTIAL_REFUND' | 'UPHOLD';
+
 export interface ReputationInput {
   /** The agent's current reputation score (0–10000) */
   currentScore: number;
@@ -51,6 +63,8 @@ export interface ReputationInput {
   executionTimeMs: number;
   /** Maximum allowed latency from the ServiceOffering */
   maxLatencyMs: number;
+  /** Dispute verdict — when set, it decides the delta instead of isSuccess */
+  disputeOutcome?: DisputeVerdictOutcome;
 }
 
 export interface ReputationResult {
@@ -73,7 +87,11 @@ export interface ReputationResult {
  * This makes it trivially testable and composable.
  */
 export function calculateReputation(input: ReputationInput): ReputationResult {
-  const { currentScore, isSuccess, executionTimeMs, maxLatencyMs } = input;
+  const { currentScore, isSuccess, executionTimeMs, maxLatencyMs, disputeOutcome } = input;
+
+  if (disputeOutcome) {
+    return calculateDisputeVerdict(currentScore, disputeOutcome);
+  }
 
   // Start with base delta
   let delta = isSuccess ? BASE_SUCCESS_DELTA : BASE_FAILURE_DELTA;
@@ -109,6 +127,32 @@ export function calculateReputation(input: ReputationInput): ReputationResult {
   };
 }
 
+/**
+ * Score a dispute verdict. Latency is irrelevant here — the arbiter (or
+ * auto-resolution rule) has already judged the delivery.
+ */
+function calculateDisputeVerdict(
+  currentScore: number,
+  outcome: DisputeVerdictOutcome,
+): ReputationResult {
+  const delta =
+    outcome === 'UPHOLD'
+      ? BASE_SUCCESS_DELTA
+      : outcome === 'PARTIAL_REFUND'
+        ? PARTIAL_REFUND_DELTA
+        : BASE_FAILURE_DELTA;
+
+  const newScore = Math.max(MIN_SCORE, Math.min(MAX_SCORE, currentScore + delta));
+  const sign = delta > 0 ? '+' : '';
+
+  return {
+    newScore,
+    delta,
+    latencyBonusApplied: false,
+    breakdown: `${currentScore} → ${newScore} [${sign}${delta} (dispute: ${outcome.toLowerCase()})]`,
+  };
+}
+
 /**
  * Map a numeric reputation score to a human-readable tier.
  *
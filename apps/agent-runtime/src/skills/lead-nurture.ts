@@ -0,0 +1,98 @@
+/**
+ * Social Hunter — Lead Nurture Module
+ *
+ * Classifies how a lead reacted to the agent's pitch (or a follow-up)
+ * and writes the next follow-up in the same call, using structured LLM
+ * output (Zod-validated JSON). The nurture worker decides whether the
+ * follow-up is sent (core/lead-nurture.ts).
+ */
+
+import { z } from 'zod';
+import type { LeadIntent } from '@prisma/client';
+import type { LLMClient } from '../integrations/llm.js';
+import { getPromptRegistry, type PromptRegistry } from '../core/prompt-registry.js';
+import { fenceUntrusted } from '../core/untrusted-input.js';
+import { MAX_PITCH_LENGTH, NURTURE_MAX_TOKENS, TRIAGE_MODEL } from '../config/social-hunter.js';
+
+// ── Zod Schema ───────────────────────────────────────────────────────────
+
+export const nurtureResultSchema = z.object({
+  intent: z
+    .enum(['interested', 'question', 'objection', 'not_interested'])
+    .describe("The lead's latest reaction"),
+  reason: z.string().max(200).describe('One-sentence explanation of the intent'),
+  followUp: z
+    .string()
+    .max(MAX_PITCH_LENGTH)
+    .describe('The next reply to the lead; empty when not interested'),
+});
+
+export type NurtureResult = z.infer<typeof nurtureResultSchema>;
+
+// ── Nurture Input ────────────────────────────────────────────────────────
+
+export interface NurtureInput {
+  agentId: string;
+  agentName: string;
+  agentPersona: string;
+  offerings: Array<{
+    slug: string;
+    name: string;
+    category: string;
+    description: string;
+    /** USDC amount as string (micro-USDC, 6 decimals) */
+    priceUsdc: string;
+  }>;
+  /** The pitched offering's hire link, ref token included */
+  hireLink: string;
+  /** The lead's cast, the pitch and every reply since, oldest first */
+  conversation: Array<{ authorUsername: string; text: string }>;
+  /** What the lead just did */
+  signal: { kind: 'reply'; authorUsername: string; text: string } | { kind: 'like'; authorUsername: string };
+}
+
+// ── Main Function ────────────────────────────────────────────────────────
+
+/**
+ * Classify the lead's latest reaction and write the follow-up.
+ *
+ * @param llm - LLM client (routed as the `lead-nurture` task)
+ * @param input - Conversation + agent context
+ * @param prompts - Registry the `lead-nurture` template is rendered from
+ */
+export async function classifyLeadResponse(
+  llm: LLMClient,
+  input: NurtureInput,
+  prompts: PromptRegistry = getPromptRegistry(),
+): Promise<NurtureResult> {
+  const { prompt, systemPrompt } = prompts.render('lead-nurture', {
+    agentName: input.agentName,
+    agentPersona: input.agentPersona,
+    offerings: input.offerings
+      .map(
+        (o) =>
+          `- ${o.name} (${o.category}): ${o.description} [${o.slug}] — $${(Number(o.priceUsdc) / 1_000_000).toFixed(2)} USDC`,
+      )
+      .join('\n'),
+    hireLink: input.hireLink,
+    maxLength: MAX_PITCH_LENGTH,
+    conversation: fenceUntrusted(input.conversation.map((cast) => `@${cast.authorUsername}: ${cast.text}`).join('\n')),
+    signal:
+      input.signal.kind === 'reply'
+        ? `@${input.signal.authorUsername} replied:\n${fenceUntrusted(input.signal.text)}`
+        : `@${input.signal.authorUsername} liked your pitch without replying`,
+  });
+
+  return llm.generateJSON<NurtureResult>(prompt, nurtureResultSchema, {
+    model: TRIAGE_MODEL,
+    maxTokens: NURTURE_MAX_TOKENS,
+    systemPrompt,
+    task: 'lead-nurture',
+    agentId: input.agentId,
+  });
+}
+
+/** The classifier's intent as stored on leads and nurture steps. */
+export function toLeadIntent(intent: NurtureResult['intent']): LeadIntent {
+  return intent.toUpperCase() as LeadIntent;
+}
@@ -6,17 +6,20 @@
  * reasoning, and a ready-to-send pitch reply when the score meets
  * the threshold.
  *
- * Uses OpenRouterClient.generateJSON<T>(prompt, schema, options) to
+ * Uses LLMClient.generateJSON<T>(prompt, schema, options) to
  * guarantee type-safe, schema-validated responses.
  */
 
 import { z } from 'zod';
-import type { OpenRouterClient } from '../integrations/openrouter.js';
+import type { LLMClient } from '../integrations/llm.js';
+import { getPromptRegistry, type PromptRegistry } from '../core/prompt-registry.js';
+import { fenceUntrusted } from '../core/untrusted-input.js';
 import {
   TRIAGE_MODEL,
   TRIAGE_MAX_TOKENS,
   TRIAGE_THRESHOLD,
   MAX_PITCH_LENGTH,
+  REF_PARAM,
 } from '../config/social-hunter.js';
 
 // ── Zod Schema ───────────────────────────────────────────────────────────
@@ -54,6 +57,8 @@ export type TriageResult = z.infer<typeof triageResultSchema>;
 // ── Triage Input ─────────────────────────────────────────────────────────
 
 export interface TriageInput {
+  /** The hunting agent, for per-agent LLM routing */
+  agentId?: string;
   /** The text content of the Farcaster cast to evaluate */
   castText: string;
   /** The username of the cast's author */
@@ -77,60 +82,32 @@ export interface TriageInput {
   hireBaseUrl: string;
 }
 
-// ── System Prompt Builder ────────────────────────────────────────────────
+// ── Prompt ───────────────────────────────────────────────────────────────
 
 /**
- * Build the system prompt that establishes the agent's identity,
- * scoring rubric, and pitch-writing rules.
+ * Render the `lead-triage` template: the system prompt carries the
+ * agent's identity, offerings, scoring rubric and pitch rules; the user
+ * prompt carries the cast to evaluate, fenced as untrusted input.
  */
-function buildSystemPrompt(input: TriageInput): string {
-  const offeringsContext = input.offerings
+function renderTriagePrompt(input: TriageInput, prompts: PromptRegistry) {
+  const offerings = input.offerings
     .map(
       (o) =>
         `- ${o.name} (${o.category}): ${o.description} [${o.slug}] — $${(Number(o.priceUsdc) / 1_000_000).toFixed(2)} USDC`,
     )
     .join('\n');
 
-  return `You are ${input.agentName}, an autonomous AI agent on ceos.run.
-Your persona: ${input.agentPersona}
-
-You are scanning Farcaster for potential customers who could benefit from your services.
-
-YOUR SERVICES:
-${offeringsContext}
-
-HIRE LINK FORMAT: ${input.hireBaseUrl}/{slug}
-
-RULES FOR SCORING:
-- Score 1-3: Cast is completely unrelated to your services
-- Score 4-6: Cast is tangentially related but not a clear buying signal
-- Score 7-8: Cast expresses a clear need that matches one of your services
-- Score 9-10: Cast is an explicit request for exactly what you offer
-
-RULES FOR THE PITCH:
-- Be genuinely helpful. Answer their question or add value FIRST.
-- Mention your service naturally, as if a friend is recommending something.
-- Include exactly ONE hire link: ${input.hireBaseUrl}/{matchedSlug}
-- Keep it under ${MAX_PITCH_LENGTH} characters.
-- Do NOT use hashtags, emojis spam, or "DM me" language.
-- Do NOT be salesy. Think "helpful community member", not "cold outreach."
-- Match the tone of the Farcaster community (casual, authentic, builder-friendly).
-
-If score < ${TRIAGE_THRESHOLD}, the pitch field can be a placeholder — it won't be sent.`;
-}
-
-// ── User Prompt Builder ──────────────────────────────────────────────────
-
-/**
- * Build the user prompt containing the cast to evaluate.
- */
-function buildUserPrompt(input: TriageInput): string {
-  return `CAST TO EVALUATE:
-Author: @${input.castAuthor}
-${input.castChannel ? `Channel: /${input.castChannel}` : 'Channel: (none)'}
-Text: "${input.castText}"
-
-Evaluate this cast and respond with your triage assessment as JSON.`;
+  return prompts.render('lead-triage', {
+    agentName: input.agentName,
+    agentPersona: input.agentPersona,
+    offerings,
+    hireBaseUrl: input.hireBaseUrl,
+    maxPitchLength: MAX_PITCH_LENGTH,
+    threshold: TRIAGE_THRESHOLD,
+    castAuthor: input.castAuthor,
+    channelLine: input.castChannel ? `Channel: /${input.castChannel}` : 'Channel: (none)',
+    castText: fenceUntrusted(input.castText),
+  });
 }
 
 // ── Main Triage Function ─────────────────────────────────────────────────
@@ -141,23 +118,41 @@ Evaluate this cast and respond with your triage assessment as JSON.`;
  * Returns a structured triage result with score, reasoning, and
  * a ready-to-send pitch reply if the score meets the threshold.
  *
- * @param llm - OpenRouter client instance
+ * @param llm - LLM client (routed as the `lead-triage` task)
  * @param input - Cast + agent context for triage
+ * @param prompts - Registry the `lead-triage` template is rendered from
  * @returns Zod-validated TriageResult
  */
 export async function triageCast(
-  llm: OpenRouterClient,
+  llm: LLMClient,
   input: TriageInput,
+  prompts: PromptRegistry = getPromptRegistry(),
 ): Promise<TriageResult> {
-  const systemPrompt = buildSystemPrompt(input);
-  const userPrompt = buildUserPrompt(input);
+  const { prompt, systemPrompt } = renderTriagePrompt(input, prompts);
 
-  // OpenRouterClient.generateJSON<T>(prompt, schema, options?)
+  // LLMClient.generateJSON<T>(prompt, schema, options?)
   // The prompt arg becomes the user message;
   // systemPrompt is passed in options and becomes the system message.
-  return llm.generateJSON<TriageResult>(userPrompt, triageResultSchema, {
+  return llm.generateJSON<TriageResult>(prompt, triageResultSchema, {
     model: TRIAGE_MODEL,
     maxTokens: TRIAGE_MAX_TOKENS,
     systemPrompt,
+    task: 'lead-triage',
+    agentId: input.agentId,
+  });
+}
+
+// ── Attribution ──────────────────────────────────────────────────────────
+
+/**
+ * Add the lead's `token` to every hire link in `pitch`, so a job created
+ * from the link is attributed to the lead.
+ */
+export function tagHireLinks(pitch: string, hireBaseUrl: string, token: string): string {
+  const escaped = hireBaseUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return pitch.replace(new RegExp(`${escaped}/[a-z0-9-]+(\\?[^\\s]*)?`, 'gi'), (link) => {
+    const url = new URL(link);
+    url.searchParams.set(REF_PARAM, token);
+    return url.toString();
   });
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ContentType } from '../../core/types';
+import { BALANCED_STRATEGY, MEDIA_HEAVY_STRATEGY, resolveStrategy, selectChannel } from '../posting';
+
+const weightOf = (weights: Array<{ type: ContentType; weight: number }>, type: ContentType) =>
+  weights.find((entry) => entry.type === type)?.weight ?? 0;
+
+describe('resolveStrategy', () => {
+  it('should fall back to Balanced for missing or unknown strategies', () => {
+    expect(resolveStrategy(null).weights).toEqual(BALANCED_STRATEGY.weights);
+    expect(resolveStrategy({ name: 'Mystery' }).weights).toEqual(BALANCED_STRATEGY.weights);
+    expect(resolveStrategy({ name: 'Mystery' }).name).toBe('Mystery');
+  });
+
+  it('should start from the named preset', () => {
+    const strategy = resolveStrategy({ name: 'MediaHeavy' });
+
+    expect(strategy.name).toBe('MediaHeavy');
+    expect(strategy.weights).toEqual(MEDIA_HEAVY_STRATEGY.weights);
+    expect(strategy.intervalMs).toBeUndefined();
+    expect(strategy.mediaProbability).toBeUndefined();
+  });
+
+  it('should normalize custom content weights and ignore unusable ones', () => {
+    const strategy = resolveStrategy({
+      contentWeights: { original: 3, thread: 1, engagement: 0, media: 'lots' },
+    });
+
+    expect(strategy.weights).toEqual([
+      { type: ContentType.ORIGINAL, weight: 0.75 },
+      { type: ContentType.THREAD, weight: 0.25 },
+    ]);
+  });
+
+  it('should turn posting frequency into an interval', () => {
+    expect(resolveStrategy({ postingFrequency: 2 }).intervalMs).toBe(2 * 60 * 60 * 1000);
+    expect(resolveStrategy({ postingFrequency: -1 }).intervalMs).toBeUndefined();
+  });
+
+  it('should drop media posts and images when media generation is off', () => {
+    const strategy = resolveStrategy({ name: 'MediaHeavy', mediaGeneration: false, mediaProbability: 0.9 });
+
+    expect(weightOf(strategy.weights, ContentType.MEDIA)).toBe(0);
+    expect(strategy.weights.reduce((sum, entry) => sum + entry.weight, 0)).toBeCloseTo(1);
+    expect(strategy.mediaProbability).toBe(0);
+  });
+
+  it('should keep media probability, topics and channels', () => {
+    const strategy = resolveStrategy({
+      mediaProbability: 0.2,
+      topics: ['L2 fees', ' L2 fees ', '', 42],
+      channels: ['base', 'dev'],
+    });
+
+    expect(strategy.mediaProbability).toBe(0.2);
+    expect(strategy.topics).toEqual(['L2 fees']);
+    expect(strategy.channels).toEqual(['base', 'dev']);
+  });
+});
+
+describe('selectChannel', () => {
+  const strategy = resolveStrategy({
+    topics: ['L2 fees', 'base ecosystem', 'memes'],
+    channels: ['base', 'dev'],
+    topicChannels: { 'L2 fees': 'ethereum', memes: '' },
+  });
+
+  it('should send a mapped topic to its channel', () => {
+    expect(strategy.topicChannels).toEqual({ 'L2 fees': 'ethereum' });
+    expect(selectChannel(strategy, 'L2 fees')).toBe('ethereum');
+  });
+
+  it('should send a topic naming one of the channels there', () => {
+    expect(selectChannel(strategy, 'base ecosystem')).toBe('base');
+  });
+
+  it('should fall back to any channel, or the feed without channels', () => {
+    expect(['base', 'dev']).toContain(selectChannel(strategy, 'memes'));
+    expect(selectChannel(resolveStrategy({}), 'base ecosystem')).toBeUndefined();
+  });
+});
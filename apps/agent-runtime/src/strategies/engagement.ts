@@ -1,7 +1,9 @@
 import pino from 'pino';
 import { logger as rootLogger } from '../config.js';
-import { OpenRouterClient } from '../integrations/openrouter.js';
+import type { LLMClient } from '../integrations/llm.js';
 import type { Mention, Cast } from '../integrations/neynar.js';
+import { getPromptRegistry, type PromptRef, type PromptRegistry } from '../core/prompt-registry.js';
+import { fenceUntrusted } from '../core/untrusted-input.js';
 
 interface AgentContext {
   agentId: string;
@@ -15,17 +17,27 @@ interface ReplyResult {
   text: string;
   model: string;
   tokensUsed: number;
+  /** Template version the reply was written from */
+  prompt: PromptRef;
 }
 
 const ENGAGEMENT_THRESHOLD = 5; // Minimum likes/recasts to consider for recast
 const REPLY_MAX_LENGTH = 280;
 
+const CONTEXT_INSTRUCTIONS: Record<ConversationContext['type'], string> = {
+  question: 'The last message asks a question. Answer it thoughtfully.',
+  debate: 'Share your perspective on the ongoing discussion.',
+  casual: 'Continue the conversation naturally.',
+};
+
 export class EngagementStrategy {
-  private readonly openrouter: OpenRouterClient;
+  private readonly llm: LLMClient;
+  private readonly prompts: PromptRegistry;
   private readonly logger: pino.Logger;
 
-  constructor(openrouter: OpenRouterClient) {
-    this.openrouter = openrouter;
+  constructor(llm: LLMClient, prompts: PromptRegistry = getPromptRegistry()) {
+    this.llm = llm;
+    this.prompts = prompts;
     this.logger = rootLogger.child({ module: 'EngagementStrategy' });
   }
 
@@ -39,26 +51,19 @@ export class EngagementStrategy {
       'Handling mention',
     );
 
-    const prompt = `You are "${agent.name}", an AI agent on Farcaster. Your persona: ${agent.persona}
-
-Someone mentioned you in a post. Here is what they said:
-"${mention.text}"
-
-Their username is @${mention.authorUsername}.
-
-Write a natural, contextual reply (under ${REPLY_MAX_LENGTH} characters). Be helpful, friendly, and stay in character. If they asked a question, answer it. If they made a comment, engage thoughtfully.
-
-Do NOT:
-- Use hashtags
-- Be overly formal
-- Start with "Hey!" or "Hi there!"
-- Mention that you are an AI
-
-Output ONLY your reply text, nothing else.`;
+    const prompt = this.prompts.render('engagement.mention-reply', {
+      name: agent.name,
+      persona: agent.persona,
+      mentionText: fenceUntrusted(mention.text),
+      authorUsername: mention.authorUsername,
+      maxLength: REPLY_MAX_LENGTH,
+    });
 
-    const result = await this.openrouter.generateText(prompt, {
+    const result = await this.llm.generateText(prompt.prompt, {
       maxTokens: 150,
       temperature: 0.8,
+      task: 'engagement',
+      agentId: agent.agentId,
     });
 
     let replyText = result.text.trim();
@@ -85,6 +90,7 @@ Output ONLY your reply text, nothing else.`;
       text: replyText,
       model: result.model,
       tokensUsed: result.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 
@@ -102,15 +108,12 @@ Output ONLY your reply text, nothing else.`;
 
     // Use AI for semantic relevance scoring
     try {
-      const result = await this.openrouter.generateText(
-        `You are evaluating whether a Farcaster cast is relevant to an AI agent's persona.
-
-Agent persona: "${agent.persona}"
-
-Cast text: "${cast.text}"
-
-Rate the relevance from 0 to 10 where 0 is completely irrelevant and 10 is perfectly aligned. Output ONLY a single number, nothing else.`,
-        { maxTokens: 5, temperature: 0 },
+      const result = await this.llm.generateText(
+        this.prompts.render('engagement.recast-relevance', {
+          persona: agent.persona,
+          castText: fenceUntrusted(cast.text),
+        }).prompt,
+        { maxTokens: 5, temperature: 0, task: 'engagement', agentId: agent.agentId },
       );
 
       const score = parseInt(result.text.trim(), 10);
@@ -154,26 +157,23 @@ Rate the relevance from 0 to 10 where 0 is completely irrelevant and 10 is perfe
       'Generating contextual reply',
     );
 
-    const conversationHistory = context.previousCasts
-      .map((c) => `@${c.authorUsername}: "${c.text}"`)
-      .join('\n');
-
-    const prompt = `You are "${agent.name}", an AI agent on Farcaster. Your persona: ${agent.persona}
-
-You are participating in a conversation. Here is the conversation so far:
-${conversationHistory}
-
-${context.type === 'question' ? 'The last message asks a question. Answer it thoughtfully.' : ''}
-${context.type === 'debate' ? 'Share your perspective on the ongoing discussion.' : ''}
-${context.type === 'casual' ? 'Continue the conversation naturally.' : ''}
-
-Write a reply (under ${REPLY_MAX_LENGTH} characters). Stay in character. Be genuine.
+    const conversationHistory = fenceUntrusted(
+      context.previousCasts.map((c) => `@${c.authorUsername}: "${c.text}"`).join('\n'),
+    );
 
-Output ONLY your reply text, nothing else.`;
+    const prompt = this.prompts.render('engagement.conversation-reply', {
+      name: agent.name,
+      persona: agent.persona,
+      conversationHistory,
+      contextInstruction: CONTEXT_INSTRUCTIONS[context.type],
+      maxLength: REPLY_MAX_LENGTH,
+    });
 
-    const result = await this.openrouter.generateText(prompt, {
+    const result = await this.llm.generateText(prompt.prompt, {
       maxTokens: 150,
       temperature: 0.85,
+      task: 'engagement',
+      agentId: agent.agentId,
     });
 
     let replyText = result.text.trim();
@@ -186,6 +186,7 @@ Output ONLY your reply text, nothing else.`;
       text: replyText,
       model: result.model,
       tokensUsed: result.tokensUsed,
+      prompt: { template: prompt.template, version: prompt.version },
     };
   }
 }
@@ -1,14 +1,43 @@
 import { ContentType } from '../core/types.js';
+import type { PromptName } from '../prompts/templates.js';
 
 interface ContentWeight {
   type: ContentType;
   weight: number;
 }
 
+export interface WeightBounds {
+  min: number;
+  max: number;
+}
+
+/** Adaptive tuning (src/core/strategy-tuner.ts) and the bounds it stays within. */
+export interface AdaptiveSettings {
+  enabled: boolean;
+  /** Per content type; absent types stay within half to double their base weight */
+  bounds: Partial<Record<ContentType, WeightBounds>>;
+  mediaBounds: WeightBounds;
+}
+
 export interface ContentStrategy {
   name: string;
   description: string;
   weights: ContentWeight[];
+  /** Time between cadence posts; absent = the preset schedule */
+  intervalMs?: number;
+  /** Chance of an image on original, thread and engagement posts; absent = the pipeline default */
+  mediaProbability?: number;
+  /** Cadence posts are written about one of these, picked at random */
+  topics?: string[];
+  /** Channel ids cadence posts go to, picked by topic or at random; absent = the agent's feed */
+  channels?: string[];
+  /** Topic → channel id, for topics that belong in a particular channel */
+  topicChannels?: Record<string, string>;
+  adaptive?: AdaptiveSettings;
+  /** Learned by the strategy tuner; topics missing here are picked uniformly */
+  topicWeights?: Record<string, number>;
+  /** Learned by the strategy tuner: 24 weights, local hours of the agent's calendar */
+  hourWeights?: number[];
 }
 
 export const BALANCED_STRATEGY: ContentStrategy = {
@@ -58,63 +87,215 @@ export function getStrategy(name: string): ContentStrategy {
   return strategy;
 }
 
-export function selectContentType(strategy: ContentStrategy): ContentType {
-  const random = Math.random();
-  let cumulative = 0;
+/**
+ * Build the strategy an agent posts by from its `Agent.strategy` JSON, as
+ * validated by the web app's agentStrategySchema. `name` picks the preset
+ * to start from (Balanced when unknown or absent); the creator's fields
+ * override it:
+ *
+ * - `contentWeights` — relative weight per content type, normalized
+ * - `postingFrequency` — hours between posts
+ * - `mediaProbability` — chance of an image on non-media posts
+ * - `mediaGeneration: false` — no media posts and no images at all
+ * - `topics`, `channels`
+ * - `topicChannels` — the channel posts on a topic go to
+ * - `adaptive` — let the strategy tuner shift the weights within bounds
+ *
+ * Malformed fields are ignored rather than rejected, so an agent never
+ * stops posting over its strategy.
+ */
+export function resolveStrategy(json: unknown): ContentStrategy {
+  const config = (typeof json === 'object' && json !== null ? json : {}) as Record<string, unknown>;
+  const name = typeof config.name === 'string' && config.name.trim() ? config.name.trim() : null;
+  const preset = (name && STRATEGIES[name]) || BALANCED_STRATEGY;
+  const mediaEnabled = config.mediaGeneration !== false;
 
-  for (const entry of strategy.weights) {
-    cumulative += entry.weight;
-    if (random <= cumulative) {
-      return entry.type;
-    }
+  const custom = customWeights(config.contentWeights);
+  let weights = custom ?? preset.weights;
+  if (!mediaEnabled) {
+    weights = weights.filter((entry) => entry.type !== ContentType.MEDIA);
   }
 
-  // Fallback to last weight entry (handles floating point edge cases)
-  const lastEntry = strategy.weights[strategy.weights.length - 1];
-  return lastEntry?.type ?? ContentType.ORIGINAL;
+  const strategy: ContentStrategy = {
+    name: name ?? preset.name,
+    description: custom ? 'Custom content mix' : preset.description,
+    weights: normalizeWeights(weights),
+  };
+
+  const hours = config.postingFrequency;
+  if (typeof hours === 'number' && Number.isFinite(hours) && hours > 0) {
+    strategy.intervalMs = Math.round(hours * 60 * 60 * 1000);
+  }
+
+  const probability = config.mediaProbability;
+  if (!mediaEnabled) {
+    strategy.mediaProbability = 0;
+  } else if (typeof probability === 'number' && probability >= 0 && probability <= 1) {
+    strategy.mediaProbability = probability;
+  }
+
+  const topics = stringList(config.topics);
+  if (topics.length > 0) strategy.topics = topics;
+
+  const channels = stringList(config.channels);
+  if (channels.length > 0) strategy.channels = channels;
+
+  const topicChannels = stringRecord(config.topicChannels);
+  if (Object.keys(topicChannels).length > 0) strategy.topicChannels = topicChannels;
+
+  const adaptive = adaptiveSettings(config.adaptive);
+  if (adaptive) strategy.adaptive = adaptive;
+
+  return strategy;
 }
 
-export function buildPrompt(agentPersona: string, contentType: ContentType): string {
-  const basePersonaInstruction = `You are an AI agent posting on Farcaster (a decentralized social network). Your persona: ${agentPersona}
+const DEFAULT_MEDIA_BOUNDS: WeightBounds = { min: 0.1, max: 0.9 };
 
-Stay in character at all times. Be authentic, engaging, and conversational. Do NOT use hashtags. Do NOT use emojis excessively. Write like a real person.`;
+function adaptiveSettings(value: unknown): AdaptiveSettings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  if (record.enabled !== true) return null;
 
-  switch (contentType) {
-    case ContentType.ORIGINAL:
-      return `${basePersonaInstruction}
+  const bounds: Partial<Record<ContentType, WeightBounds>> = {};
+  const rawBounds = (typeof record.bounds === 'object' && record.bounds !== null ? record.bounds : {}) as Record<string, unknown>;
+  for (const type of Object.values(ContentType)) {
+    const parsed = weightBounds(rawBounds[type]);
+    if (parsed) bounds[type] = parsed;
+  }
 
-Write a single, original Farcaster post (under 320 characters). It should be thought-provoking, insightful, or entertaining. Share an opinion, observation, or idea that fits your persona.
+  return {
+    enabled: true,
+    bounds,
+    mediaBounds: weightBounds(record.mediaProbability) ?? DEFAULT_MEDIA_BOUNDS,
+  };
+}
 
-Output ONLY the post text, nothing else.`;
+function weightBounds(value: unknown): WeightBounds | null {
+  const bounds = value as WeightBounds;
+  if (typeof bounds !== 'object' || bounds === null) return null;
+  const { min, max } = bounds;
+  if (typeof min !== 'number' || typeof max !== 'number' || min < 0 || max > 1 || min > max) return null;
+  return { min, max };
+}
 
-    case ContentType.THREAD:
-      return `${basePersonaInstruction}
+function customWeights(value: unknown): ContentWeight[] | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
 
-Write a multi-part thread for Farcaster. Each part must be under 320 characters. Write 3-5 parts that explore a topic in depth. The first part should hook the reader.
+  const weights = Object.values(ContentType)
+    .map((type) => ({ type, weight: record[type] }))
+    .filter((entry): entry is ContentWeight => typeof entry.weight === 'number' && entry.weight > 0);
 
-Separate each part with "---SPLIT---".
+  return weights.length > 0 ? weights : null;
+}
 
-Output ONLY the thread parts separated by ---SPLIT---, nothing else.`;
+function normalizeWeights(weights: ContentWeight[]): ContentWeight[] {
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  if (total <= 0) return [{ type: ContentType.ORIGINAL, weight: 1 }];
+  return weights.map((entry) => ({ type: entry.type, weight: entry.weight / total }));
+}
 
-    case ContentType.ENGAGEMENT:
-      return `${basePersonaInstruction}
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return [...new Set(items)];
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const record: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item === 'string' && key.trim() && item.trim()) record[key.trim()] = item.trim();
+  }
+  return record;
+}
 
-Write a Farcaster post (under 320 characters) designed to spark conversation and engagement. Ask a question, share a hot take, or start a debate. Make people want to reply.
+function pickOne<T>(items: T[] | undefined): T | undefined {
+  if (!items || items.length === 0) return undefined;
+  return items[Math.floor(Math.random() * items.length)];
+}
 
-Output ONLY the post text, nothing else.`;
+/** Index into `weights`, sampled in proportion to them; -1 when none is positive. */
+export function pickWeighted(weights: number[], random: () => number = Math.random): number {
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total <= 0) return -1;
 
-    case ContentType.MEDIA:
-      return `${basePersonaInstruction}
+  let remaining = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    remaining -= Math.max(0, weights[i] ?? 0);
+    if (remaining < 0) return i;
+  }
 
-Write a short Farcaster post (under 250 characters) that will accompany an image. The text should complement a visual element. Be descriptive but brief.
+  // Floating point left a sliver: the last positive weight takes it
+  let last = weights.length - 1;
+  while ((weights[last] ?? 0) <= 0) last--;
+  return last;
+}
 
-Output ONLY the post text, nothing else.`;
+/** A topic for a cadence post, if the strategy has any; by learned weight when tuned. */
+export function selectTopic(strategy: ContentStrategy): string | undefined {
+  const { topics, topicWeights } = strategy;
+  if (!topics || !topicWeights) return pickOne(topics);
 
-    default:
-      return `${basePersonaInstruction}
+  // Topics the tuner has not seen yet get an even share
+  const evenShare = 1 / topics.length;
+  const index = pickWeighted(topics.map((topic) => topicWeights[topic] ?? evenShare));
+  return index >= 0 ? topics[index] : pickOne(topics);
+}
 
-Write a single Farcaster post (under 320 characters). Be engaging and authentic.
+/**
+ * The channel a post goes to, if the strategy posts into channels: the one
+ * `topicChannels` maps the post's topic to, else one of `channels` named
+ * in the topic (a "base" topic goes to /base), else any of `channels`.
+ */
+export function selectChannel(strategy: ContentStrategy, topic?: string): string | undefined {
+  if (topic) {
+    const mapped = strategy.topicChannels?.[topic];
+    if (mapped) return mapped;
 
-Output ONLY the post text, nothing else.`;
+    const words = new Set(topic.toLowerCase().split(/[^a-z0-9-]+/));
+    const named = strategy.channels?.filter((channel) => words.has(channel.toLowerCase()));
+    if (named && named.length > 0) return pickOne(named);
   }
+
+  return pickOne(strategy.channels);
 }
+
+export function selectContentType(strategy: ContentStrategy): ContentType {
+  const random = Math.random();
+  let cumulative = 0;
+
+  for (const entry of strategy.weights) {
+    cumulative += entry.weight;
+    if (random <= cumulative) {
+      return entry.type;
+    }
+  }
+
+  // Fallback to last weight entry (handles floating point edge cases)
+  const lastEntry = strategy.weights[strategy.weights.length - 1];
+  return lastEntry?.type ?? ContentType.ORIGINAL;
+}
+
+/** The prompt registry template each content type is written from. */
+export const CONTENT_PROMPTS: Record<ContentType, PromptName> = {
+  [ContentType.ORIGINAL]: 'post.original',
+  [ContentType.THREAD]: 'post.thread',
+  [ContentType.ENGAGEMENT]: 'post.engagement',
+  [ContentType.MEDIA]: 'post.media',
+};
+
+/**
+ * The template each content type is written from when the post has a set
+ * topic (content series, scheduled posts). Engagement posts have no topical
+ * variant and are written as originals.
+ */
+export const TOPIC_PROMPTS: Record<ContentType, PromptName> = {
+  [ContentType.ORIGINAL]: 'post.topic.original',
+  [ContentType.THREAD]: 'post.topic.thread',
+  [ContentType.ENGAGEMENT]: 'post.topic.original',
+  [ContentType.MEDIA]: 'post.topic.media',
+};
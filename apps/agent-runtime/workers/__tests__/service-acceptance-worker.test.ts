@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the logger
+vi.mock('../../src/config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      fatal: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+vi.mock('../service-executor.js', () => ({
+  transitionJobStatus: vi.fn(async () => true),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import type pino from 'pino';
+import type { LLMClient } from '../../src/integrations/llm.js';
+import { DEFAULT_ACCEPTANCE_POLICY, type AcceptancePolicy } from '../../src/core/acceptance-policy.js';
+import { reviewCreatedJobs } from '../service-acceptance-worker';
+import { transitionJobStatus } from '../service-executor.js';
+
+interface FakeJob {
+  id: string;
+  sellerAgentId: string;
+}
+
+/** Just enough of PrismaClient for an acceptance tick */
+function fakePrisma(
+  jobs: FakeJob[],
+  policies: (AcceptancePolicy & { agentId: string })[],
+  active: Record<string, number>,
+) {
+  return {
+    serviceAcceptancePolicy: {
+      findMany: vi.fn(async () => policies),
+    },
+    serviceJob: {
+      groupBy: vi.fn(async () =>
+        Object.entries(active).map(([sellerAgentId, n]) => ({ sellerAgentId, _count: { _all: n } })),
+      ),
+      findMany: vi.fn(async ({ where }: { where: { sellerAgentId: { in: string[] } } }) =>
+        jobs
+          .filter((j) => where.sellerAgentId.in.includes(j.sellerAgentId))
+          .map((j) => ({
+            ...j,
+            buyerAgentId: 'buyer',
+            requirements: {},
+            offering: { name: 'Trend report', category: 'research', description: '' },
+            buyerAgent: { identity: null },
+            sellerAgent: { name: j.sellerAgentId },
+          })),
+      ),
+    },
+  };
+}
+
+const logger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn(),
+  child: () => logger,
+} as unknown as pino.Logger;
+
+const agents = [
+  { agentId: 'busy', walletAddress: '0xbusy', persona: 'analyst' },
+  { agentId: 'idle', walletAddress: '0xidle', persona: 'analyst' },
+];
+
+async function tick(prisma: ReturnType<typeof fakePrisma>) {
+  return reviewCreatedJobs(
+    prisma as unknown as PrismaClient,
+    {} as LLMClient,
+    () => agents,
+    'http://localhost:3000',
+    logger,
+  );
+}
+
+describe('reviewCreatedJobs', () => {
+  it('leaves sellers at their concurrency limit out of the batch', async () => {
+    const jobs = [
+      ...Array.from({ length: 20 }, (_, i) => ({ id: `busy-${i}`, sellerAgentId: 'busy' })),
+      { id: 'idle-0', sellerAgentId: 'idle' },
+    ];
+    const prisma = fakePrisma(
+      jobs,
+      [{ ...DEFAULT_ACCEPTANCE_POLICY, agentId: 'busy', maxConcurrentJobs: 2 }],
+      { busy: 2 },
+    );
+
+    const result = await tick(prisma);
+
+    expect(prisma.serviceJob.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ sellerAgentId: { in: ['idle'] } }),
+      }),
+    );
+    expect(result).toMatchObject({ acceptedCount: 1, deferredCount: 0 });
+    expect(transitionJobStatus).toHaveBeenCalledWith(
+      'http://localhost:3000',
+      'idle-0',
+      'ACCEPTED',
+      '0xidle',
+      undefined,
+      expect.anything(),
+      undefined,
+    );
+  });
+
+  it('skips the query when no seller has room or acceptance enabled', async () => {
+    const prisma = fakePrisma(
+      [],
+      [
+        { ...DEFAULT_ACCEPTANCE_POLICY, agentId: 'busy', maxConcurrentJobs: 1 },
+        { ...DEFAULT_ACCEPTANCE_POLICY, agentId: 'idle', enabled: false },
+      ],
+      { busy: 1 },
+    );
+
+    await tick(prisma);
+
+    expect(prisma.serviceJob.findMany).not.toHaveBeenCalled();
+  });
+});
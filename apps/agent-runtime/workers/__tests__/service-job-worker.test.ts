@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock the logger
+vi.mock('../../src/config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      fatal: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+vi.mock('../../src/services/reputation-anchor.js', () => ({
+  anchorJobCompletion: vi.fn(),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import type pino from 'pino';
+import type { BaseChainClient } from '../../src/integrations/base-chain';
+import { expireOverdueJobs, settleEscrows } from '../service-job-worker';
+
+const BUYER_WALLET = '0x00000000000000000000000000000000000000b1';
+const SELLER_WALLET = '0x00000000000000000000000000000000000000a1';
+const USDC = '0x00000000000000000000000000000000000000c1';
+
+interface FakeJob {
+  id: string;
+  buyerAgentId: string;
+  sellerAgentId: string;
+  priceUsdc: bigint;
+  refundUsdc: bigint | null;
+  escrowStatus: string;
+  escrowPayer: string;
+  escrowUsdc: bigint | null;
+  sellerAgent: { walletAddress: string };
+}
+
+function job(overrides: Partial<FakeJob>): FakeJob {
+  return {
+    id: 'job-1',
+    buyerAgentId: 'buyer',
+    sellerAgentId: 'seller',
+    priceUsdc: 10_000_000n,
+    refundUsdc: null,
+    escrowStatus: 'REFUND_PENDING',
+    escrowPayer: BUYER_WALLET,
+    escrowUsdc: null,
+    sellerAgent: { walletAddress: SELLER_WALLET },
+    ...overrides,
+  };
+}
+
+/** Just enough of PrismaClient for the settlement pass, over one job */
+function fakePrisma(row: FakeJob) {
+  const prisma = {
+    serviceJob: {
+      updateMany: vi.fn(async () => ({ count: 0 })),
+      findMany: vi.fn(async () =>
+        ['RELEASE_PENDING', 'REFUND_PENDING'].includes(row.escrowStatus) ? [{ ...row }] : [],
+      ),
+      update: vi.fn(async ({ data }: { data: Partial<FakeJob> }) => Object.assign(row, data)),
+    },
+    walletTransaction: { create: vi.fn(async () => ({})) },
+    serviceUsagePeriod: { updateMany: vi.fn(async () => ({ count: 0 })) },
+    socialHuntLead: { updateMany: vi.fn(async () => ({ count: 0 })) },
+    $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+  return prisma;
+}
+
+function fakeChain() {
+  return {
+    isWalletInitialized: () => true,
+    transferUsdc: vi.fn(async () => '0xhash' as `0x${string}`),
+  };
+}
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), fatal: vi.fn() } as unknown as pino.Logger;
+
+/** Run `ticks` settlement passes, returning every transfer made */
+async function settle(row: FakeJob, ticks = 3, prisma = fakePrisma(row)) {
+  const chain = fakeChain();
+  for (let i = 0; i < ticks; i++) {
+    await settleEscrows(prisma as unknown as PrismaClient, chain as unknown as BaseChainClient, logger);
+  }
+  return chain.transferUsdc.mock.calls.map(([, to, amount]) => ({ to, amount }));
+}
+
+describe('settleEscrows', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_USDC_CONTRACT', USDC);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refunds the whole price on a full refund and never releases afterwards', async () => {
+    const row = job({ refundUsdc: null });
+
+    expect(await settle(row)).toEqual([{ to: BUYER_WALLET, amount: 10_000_000n }]);
+    expect(row.escrowStatus).toBe('REFUNDED');
+  });
+
+  it('refunds and releases the amount actually paid into escrow', async () => {
+    const refunded = job({ escrowUsdc: 12_000_000n });
+    expect(await settle(refunded)).toEqual([{ to: BUYER_WALLET, amount: 12_000_000n }]);
+
+    const released = job({ escrowStatus: 'RELEASE_PENDING', escrowUsdc: 12_000_000n });
+    expect(await settle(released)).toEqual([{ to: SELLER_WALLET, amount: 11_760_000n }]);
+  });
+
+  it('refunds the buyer share of a partial refund, then releases the rest minus the fee', async () => {
+    const row = job({ refundUsdc: 4_000_000n });
+
+    expect(await settle(row)).toEqual([
+      { to: BUYER_WALLET, amount: 4_000_000n },
+      // (10 - 4) USDC less the 2% protocol fee
+      { to: SELLER_WALLET, amount: 5_880_000n },
+    ]);
+    expect(row.escrowStatus).toBe('RELEASED');
+  });
+
+  it('releases the price minus the fee to the seller', async () => {
+    const row = job({ escrowStatus: 'RELEASE_PENDING' });
+
+    expect(await settle(row)).toEqual([{ to: SELLER_WALLET, amount: 9_800_000n }]);
+    expect(row.escrowStatus).toBe('RELEASED');
+  });
+
+  it('credits the price less refunds to the converted lead on release', async () => {
+    const row = job({ refundUsdc: 4_000_000n });
+    const prisma = fakePrisma(row);
+
+    await settle(row, 3, prisma);
+
+    expect(prisma.socialHuntLead.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.socialHuntLead.updateMany).toHaveBeenCalledWith({
+      where: { convertedJobId: 'job-1' },
+      data: { revenueUsdc: 6_000_000n },
+    });
+  });
+
+  it('credits no lead revenue for a refunded job', async () => {
+    const row = job({ refundUsdc: null });
+    const prisma = fakePrisma(row);
+
+    await settle(row, 3, prisma);
+
+    expect(prisma.socialHuntLead.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rolls back the usage period when the job that paid its subscription fee is refunded', async () => {
+    const row = job({ refundUsdc: null });
+    const prisma = fakePrisma(row);
+
+    await settle(row, 1, prisma);
+
+    expect(prisma.serviceUsagePeriod.updateMany).toHaveBeenCalledWith({
+      where: { feeJobId: 'job-1' },
+      data: { feeJobId: null, calls: { decrement: 1 }, chargedUsdc: { decrement: 10_000_000n } },
+    });
+  });
+
+  it('keeps the subscription fee paid after a partial refund', async () => {
+    const row = job({ refundUsdc: 4_000_000n });
+    const prisma = fakePrisma(row);
+
+    await settle(row, 3, prisma);
+
+    expect(prisma.serviceUsagePeriod.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('expireOverdueJobs', () => {
+  it('expires jobs stuck in DELIVERING past their TTL and queues their refund', async () => {
+    const updateMany = vi.fn(async () => ({ count: 1 }));
+    const prisma = {
+      serviceJob: { updateMany },
+      $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+    };
+
+    await expireOverdueJobs(prisma as unknown as PrismaClient, logger);
+
+    expect(updateMany).toHaveBeenCalledWith({
+      where: {
+        status: { in: ['CREATED', 'ACCEPTED', 'DELIVERING'] },
+        expiresAt: { lt: expect.any(Date) },
+        escrowStatus: 'HELD',
+      },
+      data: { status: 'EXPIRED', escrowStatus: 'REFUND_PENDING' },
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the logger
+vi.mock('../../src/config.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      fatal: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+import type { PrismaClient, ServiceWorkflow, ServiceWorkflowStep } from '@prisma/client';
+import type pino from 'pino';
+import { advanceWorkflows } from '../service-workflow-worker';
+
+interface FakeJob {
+  status: string;
+  escrowStatus: string;
+  deliverables: unknown;
+}
+
+type FakeWorkflow = ServiceWorkflow & { steps: ServiceWorkflowStep[] };
+
+function step(overrides: Partial<ServiceWorkflowStep>): ServiceWorkflowStep {
+  return {
+    id: 'step-1',
+    workflowId: 'wf-1',
+    key: 'trends',
+    capability: 'trend-analysis',
+    offeringSlug: null,
+    maxPriceUsdc: null,
+    dependsOn: [],
+    requirements: {},
+    inputs: {},
+    onCompensate: 'refund',
+    status: 'PENDING',
+    maxAttempts: 2,
+    attempts: 0,
+    jobId: null,
+    output: null,
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function workflow(steps: ServiceWorkflowStep[], overrides: Partial<ServiceWorkflow> = {}): FakeWorkflow {
+  return {
+    id: 'wf-1',
+    buyerAgentId: 'buyer',
+    name: 'Weekly thread',
+    status: 'RUNNING',
+    budgetUsdc: 10_000_000n,
+    spentUsdc: 0n,
+    error: null,
+    cancelRequestedAt: null,
+    startedAt: new Date(),
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    steps,
+    ...overrides,
+  };
+}
+
+/** Just enough of PrismaClient for a workflow tick, over one workflow and its jobs */
+function fakePrisma(wf: FakeWorkflow, jobs: Record<string, FakeJob>) {
+  const stepById = (id: string) => wf.steps.find((s) => s.id === id)!;
+  return {
+    serviceWorkflow: {
+      findMany: vi.fn(async () => [{ ...wf, steps: wf.steps.map((s) => ({ ...s })) }]),
+      updateMany: vi.fn(async ({ data }: { data: Partial<ServiceWorkflow> }) => {
+        Object.assign(wf, data);
+        return { count: 1 };
+      }),
+      update: vi.fn(async ({ data }: { data: Partial<ServiceWorkflow> & { spentUsdc?: unknown } }) => {
+        const { spentUsdc, ...rest } = data;
+        Object.assign(wf, rest);
+        if (spentUsdc && typeof spentUsdc === 'object') {
+          wf.spentUsdc += (spentUsdc as { increment: bigint }).increment;
+        }
+        return wf;
+      }),
+    },
+    serviceWorkflowStep: {
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<ServiceWorkflowStep> }) =>
+        Object.assign(stepById(where.id), data),
+      ),
+      updateMany: vi.fn(async ({ where }: { where: { id: string } }) => {
+        const row = stepById(where.id);
+        row.status = 'RUNNING';
+        row.attempts++;
+        return { count: 1 };
+      }),
+    },
+    serviceJob: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => jobs[where.id] ?? null),
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in
+          .filter((id) => jobs[id]?.status === 'COMPLETED' && jobs[id]?.escrowStatus === 'HELD')
+          .map((id) => ({ id })),
+      ),
+      update: vi.fn(async () => ({})),
+    },
+    $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+}
+
+function fakeClient() {
+  return {
+    approveJob: vi.fn(async () => ({})),
+    disputeJob: vi.fn(async () => ({ id: 'dispute-1', status: 'OPEN' })),
+    cancelJob: vi.fn(async () => ({})),
+  };
+}
+
+function fakeEngine(client: ReturnType<typeof fakeClient>) {
+  return {
+    getRunningAgentIds: () => ['buyer'],
+    getServiceClient: () => client,
+    hireService: vi.fn(async () => ({
+      job: { id: 'job-2' },
+      offeringSlug: 'trend-report',
+      priceUsdc: 3_000_000n,
+    })),
+  };
+}
+
+const logger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: () => logger,
+} as unknown as pino.Logger;
+
+async function tick(wf: FakeWorkflow, jobs: Record<string, FakeJob>, client = fakeClient()) {
+  const prisma = fakePrisma(wf, jobs);
+  const engine = fakeEngine(client);
+  await advanceWorkflows(
+    prisma as unknown as PrismaClient,
+    engine as unknown as Parameters<typeof advanceWorkflows>[1],
+    logger,
+  );
+  return { prisma, engine, client };
+}
+
+describe('advanceWorkflows', () => {
+  it('disputes an unusable delivery before hiring the retry', async () => {
+    const wf = workflow([step({ status: 'RUNNING', attempts: 1, jobId: 'job-1' })]);
+    const jobs = { 'job-1': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { error: 'timeout' } } };
+
+    const { engine, client } = await tick(wf, jobs);
+
+    expect(client.disputeJob).toHaveBeenCalledWith('job-1', expect.stringContaining('"trends"'));
+    expect(engine.hireService).toHaveBeenCalledTimes(1);
+    expect(client.disputeJob.mock.invocationCallOrder[0]).toBeLessThan(
+      engine.hireService.mock.invocationCallOrder[0]!,
+    );
+    expect(wf.steps[0]).toMatchObject({ status: 'RUNNING', attempts: 2, jobId: 'job-2' });
+    expect(wf.spentUsdc).toBe(3_000_000n);
+  });
+
+  it('keeps the attempt running while its unusable delivery cannot be disputed', async () => {
+    const wf = workflow([step({ status: 'RUNNING', attempts: 1, jobId: 'job-1' })]);
+    const jobs = { 'job-1': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { error: 'timeout' } } };
+    const client = fakeClient();
+    client.disputeJob.mockRejectedValueOnce(new Error('Service unavailable'));
+
+    const { engine } = await tick(wf, jobs, client);
+
+    expect(engine.hireService).not.toHaveBeenCalled();
+    expect(wf.steps[0]).toMatchObject({ status: 'RUNNING', attempts: 1, jobId: 'job-1' });
+  });
+
+  it('fails the step once its attempts are used up', async () => {
+    const wf = workflow([step({ status: 'RUNNING', attempts: 2, jobId: 'job-1' })]);
+    const jobs = { 'job-1': { status: 'REJECTED', escrowStatus: 'REFUND_PENDING', deliverables: null } };
+
+    const { engine, client } = await tick(wf, jobs);
+
+    expect(client.disputeJob).not.toHaveBeenCalled();
+    expect(engine.hireService).not.toHaveBeenCalled();
+    expect(wf.steps[0]!.status).toBe('FAILED');
+    // Nothing left to unwind, so compensation finishes in the same tick
+    expect(wf.status).toBe('FAILED');
+  });
+
+  it('caps each hire at what is left of the budget', async () => {
+    const wf = workflow([step({ maxPriceUsdc: 5_000_000n })], { spentUsdc: 7_000_000n });
+
+    const { engine } = await tick(wf, {});
+
+    expect(engine.hireService).toHaveBeenCalledWith(
+      'buyer',
+      'trend-analysis',
+      expect.objectContaining({ capability: 'trend-analysis' }),
+      { maxPriceUsdc: 3_000_000, offeringSlug: undefined },
+    );
+  });
+
+  it('fails the step without hiring when the budget is spent', async () => {
+    const wf = workflow([step({})], { spentUsdc: 10_000_000n });
+
+    const { engine } = await tick(wf, {});
+
+    expect(engine.hireService).not.toHaveBeenCalled();
+    expect(wf.steps[0]).toMatchObject({ status: 'FAILED', lastError: 'Workflow budget exhausted' });
+  });
+
+  it('approves every held step job once all steps complete', async () => {
+    const wf = workflow([
+      step({ id: 'step-1', key: 'trends', status: 'COMPLETED', jobId: 'job-1' }),
+      step({ id: 'step-2', key: 'thread', status: 'RUNNING', jobId: 'job-2', dependsOn: ['trends'] }),
+    ]);
+    const jobs = {
+      'job-1': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { trends: [] } },
+      'job-2': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { thread: 'gm' } },
+    };
+
+    const { client } = await tick(wf, jobs);
+
+    expect(client.approveJob.mock.calls.map(([id]) => id)).toEqual(['job-1', 'job-2']);
+    expect(wf.status).toBe('COMPLETED');
+  });
+
+  it('cancels, disputes or approves each step job when compensating', async () => {
+    const wf = workflow(
+      [
+        step({ id: 'step-1', key: 'trends', status: 'COMPLETED', jobId: 'job-1' }),
+        step({ id: 'step-2', key: 'thread', status: 'COMPLETED', jobId: 'job-2', onCompensate: 'keep' }),
+        step({ id: 'step-3', key: 'stats', status: 'RUNNING', jobId: 'job-3' }),
+      ],
+      { status: 'COMPENSATING', error: 'Step "review" failed' },
+    );
+    const jobs = {
+      'job-1': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { trends: [] } },
+      'job-2': { status: 'COMPLETED', escrowStatus: 'HELD', deliverables: { thread: 'gm' } },
+      'job-3': { status: 'ACCEPTED', escrowStatus: 'HELD', deliverables: null },
+    };
+
+    const { client } = await tick(wf, jobs);
+
+    expect(client.disputeJob).toHaveBeenCalledWith('job-1', expect.stringContaining('Step "review" failed'));
+    expect(client.approveJob).toHaveBeenCalledWith('job-2');
+    expect(client.cancelJob).toHaveBeenCalledWith('job-3');
+    expect(wf.steps.map((s) => s.status)).toEqual(['COMPENSATED', 'COMPLETED', 'COMPENSATED']);
+    expect(wf.status).toBe('FAILED');
+  });
+
+  it('waits for a step job still delivering before finishing compensation', async () => {
+    const wf = workflow([step({ status: 'RUNNING', jobId: 'job-1' })], {
+      status: 'COMPENSATING',
+      cancelRequestedAt: new Date(),
+    });
+    const jobs = { 'job-1': { status: 'DELIVERING', escrowStatus: 'HELD', deliverables: null } };
+
+    const { client } = await tick(wf, jobs);
+
+    expect(client.cancelJob).not.toHaveBeenCalled();
+    expect(wf.status).toBe('COMPENSATING');
+  });
+});
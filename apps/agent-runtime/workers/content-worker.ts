@@ -1,18 +1,23 @@
-import { Worker, type Job } from 'bullmq';
+import { Worker, UnrecoverableError, type Job } from 'bullmq';
 import type { Redis } from 'ioredis';
 import pino from 'pino';
 import { logger as rootLogger } from '../src/config.js';
-import { ContentPipeline } from '../src/core/content-pipeline.js';
-import { OpenRouterClient } from '../src/integrations/openrouter.js';
+import { ContentPipeline, ContentType } from '../src/core/content-pipeline.js';
+import { BudgetExceededError, type SpendLedger } from '../src/core/spend-ledger.js';
+import type { LLMClient } from '../src/integrations/llm.js';
 import { FalAiClient } from '../src/integrations/fal-ai.js';
-import { getStrategy } from '../src/strategies/posting.js';
+import type { ContentStrategy } from '../src/strategies/posting.js';
 
 interface ContentJobData {
   agentId: string;
   agentName: string;
   agentPersona: string;
+  /** A ContentType value, or 'auto' for the strategy's pick */
   contentType: string;
-  strategy: string;
+  /** Resolved from Agent.strategy by the scheduler */
+  strategy: ContentStrategy;
+  /** Set by content series and topic-only scheduled posts */
+  topic?: string;
 }
 
 interface ContentJobResult {
@@ -23,6 +28,10 @@ interface ContentJobResult {
   model: string;
   tokensUsed: number;
   parts?: string[];
+  topic?: string;
+  /** Prompt registry template + version the text was written from */
+  promptTemplate: string;
+  promptVersion: number;
   generatedAt: string;
 }
 
@@ -31,27 +40,33 @@ const CONCURRENCY = 5;
 
 export function createContentWorker(
   connection: Redis,
-  openrouterApiKey: string,
+  llm: LLMClient,
   falApiKey: string,
+  ledger?: SpendLedger,
 ): Worker<ContentJobData, ContentJobResult> {
   const logger: pino.Logger = rootLogger.child({ module: 'ContentWorker' });
-  const openrouter = new OpenRouterClient(openrouterApiKey);
   const falAi = new FalAiClient(falApiKey);
-  const pipeline = new ContentPipeline(openrouter, falAi);
+  const pipeline = new ContentPipeline(llm, falAi, ledger);
 
   const worker = new Worker<ContentJobData, ContentJobResult>(
     QUEUE_NAME,
     async (job: Job<ContentJobData>): Promise<ContentJobResult> => {
-      const { agentId, agentName, agentPersona, strategy: strategyName } = job.data;
+      const { agentId, agentName, agentPersona, strategy, topic } = job.data;
 
       logger.info(
-        { jobId: job.id, agentId, strategy: strategyName },
+        { jobId: job.id, agentId, strategy: strategy.name },
         'Processing content generation job',
       );
 
+      // Refused jobs are not retried: the budget will not recover
+      // before the retries run out
+      const budget = ledger ? await ledger.getStatus(agentId) : null;
+      if (budget?.state === 'refuse') {
+        throw new UnrecoverableError(`Spend budget exhausted: ${budget.reason}`);
+      }
+
       await job.updateProgress(10);
 
-      const strategy = getStrategy(strategyName);
       const agentConfig = {
         persona: agentPersona,
         name: agentName,
@@ -60,7 +75,18 @@ export function createContentWorker(
 
       await job.updateProgress(30);
 
-      const content = await pipeline.generateContent(agentConfig, strategy);
+      let content;
+      try {
+        content = await pipeline.generateContent(agentConfig, strategy, {
+          contentType: Object.values(ContentType).find((type) => type === job.data.contentType),
+          topic,
+        });
+      } catch (err) {
+        if (err instanceof BudgetExceededError) {
+          throw new UnrecoverableError(err.message);
+        }
+        throw err;
+      }
 
       await job.updateProgress(90);
 
@@ -72,6 +98,9 @@ export function createContentWorker(
         model: content.model,
         tokensUsed: content.tokensUsed,
         parts: content.parts,
+        topic: content.topic,
+        promptTemplate: content.prompt.template,
+        promptVersion: content.prompt.version,
         generatedAt: new Date().toISOString(),
       };
 
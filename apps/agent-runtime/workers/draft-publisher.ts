@@ -0,0 +1,344 @@
+/**
+ * Draft Publisher Worker
+ *
+ * Publishes the drafts supervised agents hold (src/core/supervision.ts):
+ *
+ * 1. PENDING drafts past their `autoPublishAt` are approved on the
+ *    creator's behalf (logged as an AUTO_PUBLISHED preference)
+ * 2. APPROVED drafts — approved or edited by the creator, or auto-approved
+ *    above — are claimed and posted: casts and threads as new casts,
+ *    mention replies and hunt pitches and follow-ups as replies to their
+ *    parent cast
+ * 3. The published casts are stored as Cast rows as they go out, thread
+ *    parts linked to each other; a hunt pitch also moves its
+ *    SocialHuntLead to REPLIED, a follow-up records its cast on its
+ *    nurture step, and a mention reply updates its AgentMention
+ *
+ * A draft that fails to post is marked FAILED with the error, and a
+ * pitch's lead with it, rather than retried — the creator can see why on the
+ * dashboard. The exception is a thread that got further this time before
+ * failing: it goes back to APPROVED and the next tick resumes from the
+ * failed part.
+ *
+ * Runs on a repeatable schedule (every 60 seconds).
+ */
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient, SocialHuntStatus, type AgentDraft, type ContentType, type Prisma } from '@prisma/client';
+import type { Redis } from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import { resumePoint, threadLinks } from '../src/core/threads.js';
+import type { NeynarClient, Cast as NeynarCast } from '../src/integrations/neynar.js';
+
+const QUEUE_NAME = 'draft-publisher';
+const BATCH_SIZE = 20; // Max drafts published per tick
+
+interface DraftPublisherJobData {
+  task: 'publish-drafts';
+  triggeredAt: string;
+}
+
+interface DraftPublisherJobResult {
+  autoApprovedCount: number;
+  publishedCount: number;
+  failedCount: number;
+  processedAt: string;
+}
+
+// ── Worker Factory ───────────────────────────────────────────────────────────
+
+/**
+ * Create the draft publisher worker and its scheduling queue.
+ *
+ * @param connection - Redis connection for BullMQ
+ * @param neynar - Neynar client the drafts are posted with
+ */
+export function createDraftPublisherWorker(connection: Redis, neynar: NeynarClient) {
+  const logger: pino.Logger = rootLogger.child({ module: 'DraftPublisher' });
+  const prisma = new PrismaClient();
+
+  const queue = new Queue<DraftPublisherJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<DraftPublisherJobData, DraftPublisherJobResult>(
+    QUEUE_NAME,
+    async (job: Job<DraftPublisherJobData>): Promise<DraftPublisherJobResult> => {
+      if (job.data.task !== 'publish-drafts') {
+        logger.warn({ task: job.data.task }, 'Unknown draft publisher task');
+        return { autoApprovedCount: 0, publishedCount: 0, failedCount: 0, processedAt: new Date().toISOString() };
+      }
+
+      const autoApprovedCount = await autoApproveDueDrafts(prisma, logger);
+      const { publishedCount, failedCount } = await publishApprovedDrafts(prisma, neynar, logger);
+
+      return { autoApprovedCount, publishedCount, failedCount, processedAt: new Date().toISOString() };
+    },
+    {
+      connection,
+      concurrency: 1, // Claims keep ticks safe, but serial ticks keep posting order
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 50 },
+    },
+  );
+
+  worker.on('completed', (job, result) => {
+    if (result.publishedCount > 0 || result.failedCount > 0) {
+      logger.info(
+        {
+          jobId: job.id,
+          autoApproved: result.autoApprovedCount,
+          published: result.publishedCount,
+          failed: result.failedCount,
+        },
+        'Draft publisher tick completed',
+      );
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error.message }, 'Draft publisher tick failed');
+  });
+
+  logger.info('Draft publisher worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Draft publisher worker shut down');
+    },
+  };
+}
+
+// ── Core Logic ───────────────────────────────────────────────────────────────
+
+/**
+ * Approve PENDING drafts whose auto-publish time has passed.
+ */
+async function autoApproveDueDrafts(prisma: PrismaClient, logger: pino.Logger): Promise<number> {
+  const due = await prisma.agentDraft.findMany({
+    where: { status: 'PENDING', autoPublishAt: { lte: new Date() } },
+    orderBy: { autoPublishAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let approved = 0;
+  for (const draft of due) {
+    const claimed = await prisma.agentDraft.updateMany({
+      where: { id: draft.id, status: 'PENDING' },
+      data: { status: 'APPROVED', reviewedAt: new Date() },
+    });
+    if (claimed.count === 0) continue; // The creator decided in the meantime
+
+    await prisma.agentPreferenceLog.create({
+      data: {
+        agentId: draft.agentId,
+        draftId: draft.id,
+        kind: draft.kind,
+        decision: 'AUTO_PUBLISHED',
+        context: (draft.context ?? {}) as Prisma.InputJsonValue,
+        generatedText: draft.generatedText,
+        publishedText: draft.generatedText,
+        promptTemplate: draft.promptTemplate,
+        promptVersion: draft.promptVersion,
+      },
+    });
+    approved++;
+  }
+
+  if (approved > 0) logger.info({ count: approved }, 'Auto-approved drafts past their timeout');
+  return approved;
+}
+
+async function publishApprovedDrafts(
+  prisma: PrismaClient,
+  neynar: NeynarClient,
+  logger: pino.Logger,
+): Promise<{ publishedCount: number; failedCount: number }> {
+  const approved = await prisma.agentDraft.findMany({
+    where: { status: 'APPROVED' },
+    orderBy: { reviewedAt: 'asc' },
+    take: BATCH_SIZE,
+    include: { agent: { select: { status: true, signerUuid: true } } },
+  });
+
+  let publishedCount = 0;
+  let failedCount = 0;
+
+  for (const draft of approved) {
+    const { signerUuid, status } = draft.agent;
+    // Paused agents keep their approved drafts until they resume
+    if (status !== 'ACTIVE' || !signerUuid || signerUuid.startsWith('demo-signer-')) continue;
+
+    // Claim before posting so an overlapping tick cannot post twice
+    const claimed = await prisma.agentDraft.updateMany({
+      where: { id: draft.id, status: 'APPROVED' },
+      data: { status: 'PUBLISHED', publishedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    // A thread resuming after a failure already has its first parts up
+    const castHashes = [...draft.castHashes];
+    const context = draft.context as Record<string, unknown> | null;
+
+    const recordCast = async (cast: NeynarCast, index: number): Promise<void> => {
+      castHashes.push(cast.hash);
+      await prisma.cast.create({
+        data: {
+          agentId: draft.agentId,
+          content: cast.text,
+          hash: cast.hash,
+          type: castType(draft),
+          publishedAt: new Date(),
+          // Images go out with the opening cast only
+          mediaUrl: index === 0 ? draft.mediaUrl : null,
+          promptTemplate: draft.promptTemplate,
+          promptVersion: draft.promptVersion,
+          // The post as a whole, for strategy tuning: on its first cast only
+          contentType: index === 0 ? draft.contentType : null,
+          topic: index === 0 && typeof context?.topic === 'string' ? context.topic : null,
+          ...(draft.kind === 'THREAD' ? threadLinks(castHashes, index) : { parentHash: draft.replyToHash }),
+        },
+      });
+      await prisma.agentDraft.update({ where: { id: draft.id }, data: { castHashes } });
+    };
+
+    try {
+      await postDraft(neynar, signerUuid, draft, recordCast);
+
+      if (draft.kind === 'HUNT_PITCH' && draft.leadId) {
+        await prisma.socialHuntLead.update({
+          where: { id: draft.leadId },
+          data: {
+            status: SocialHuntStatus.REPLIED,
+            replyCastHash: castHashes[0] ?? null,
+            pitchText: draft.text,
+            repliedAt: new Date(),
+          },
+        });
+      }
+
+      if (draft.kind === 'HUNT_FOLLOW_UP') {
+        // Its replies are watched from now on
+        await prisma.socialHuntNurtureStep.updateMany({
+          where: { draftId: draft.id },
+          data: { castHash: castHashes[0] ?? null, text: draft.text },
+        });
+      }
+
+      if (draft.kind === 'MENTION_REPLY' && draft.replyToHash) {
+        await prisma.agentMention.updateMany({
+          where: { agentId: draft.agentId, castHash: draft.replyToHash },
+          data: { status: 'REPLIED', replyText: draft.text, replyCastHash: castHashes[0] ?? null, repliedAt: new Date() },
+        });
+      }
+
+      publishedCount++;
+      logger.info({ draftId: draft.id, agentId: draft.agentId, kind: draft.kind, castHashes }, 'Draft published');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+
+      if (draft.kind === 'THREAD' && castHashes.length > draft.castHashes.length) {
+        // Got further this time: the next tick picks up from the failed part
+        await prisma.agentDraft.update({
+          where: { id: draft.id },
+          data: { status: 'APPROVED', errorMessage: message },
+        });
+        logger.warn(
+          { draftId: draft.id, agentId: draft.agentId, postedParts: castHashes.length, error: message },
+          'Thread failed partway, will resume',
+        );
+        continue;
+      }
+
+      await prisma.agentDraft.update({
+        where: { id: draft.id },
+        data: { status: 'FAILED', errorMessage: message },
+      });
+      // A failed follow-up leaves the lead nurturing
+      if (draft.kind === 'HUNT_PITCH' && draft.leadId) {
+        await prisma.socialHuntLead.update({
+          where: { id: draft.leadId },
+          data: { status: SocialHuntStatus.FAILED },
+        });
+      }
+
+      failedCount++;
+      logger.error({ draftId: draft.id, agentId: draft.agentId, error: message }, 'Draft failed to publish');
+    }
+  }
+
+  return { publishedCount, failedCount };
+}
+
+async function postDraft(
+  neynar: NeynarClient,
+  signerUuid: string,
+  draft: AgentDraft,
+  onCast: (cast: NeynarCast, index: number) => Promise<void>,
+): Promise<void> {
+  // Posts go to the channel the strategy picked when they were drafted
+  const context = draft.context as Record<string, unknown> | null;
+  const channelId = typeof context?.channelId === 'string' ? context.channelId : undefined;
+
+  switch (draft.kind) {
+    case 'THREAD':
+      await neynar.publishThread(signerUuid, draft.parts.length > 0 ? draft.parts : [draft.text], {
+        embeds: draft.mediaUrl ? [{ url: draft.mediaUrl }] : undefined,
+        channelId,
+        resume: resumePoint(draft.castHashes),
+        onPart: onCast,
+      });
+      return;
+
+    case 'MENTION_REPLY':
+    case 'HUNT_PITCH':
+    case 'HUNT_FOLLOW_UP':
+      if (!draft.replyToHash) throw new Error(`${draft.kind} draft has no parent cast`);
+      await onCast(await neynar.replyCast(signerUuid, draft.replyToHash, draft.text), 0);
+      return;
+
+    case 'CAST':
+      await onCast(
+        await neynar.publishCast(signerUuid, draft.text, {
+          embeds: draft.mediaUrl ? [{ url: draft.mediaUrl }] : undefined,
+          channelId,
+        }),
+        0,
+      );
+      return;
+  }
+}
+
+function castType(draft: AgentDraft): ContentType {
+  switch (draft.kind) {
+    case 'THREAD':
+      return 'THREAD';
+    case 'MENTION_REPLY':
+    case 'HUNT_PITCH':
+    case 'HUNT_FOLLOW_UP':
+      return 'REPLY';
+    case 'CAST':
+      return draft.contentType === 'media' ? 'MEDIA' : 'ORIGINAL';
+  }
+}
+
+// ── Scheduling ───────────────────────────────────────────────────────────────
+
+/**
+ * Register the repeatable draft publisher tick.
+ */
+export async function scheduleDraftPublisher(queue: Queue): Promise<void> {
+  await queue.add(
+    'publish-drafts',
+    { task: 'publish-drafts', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'draft-publisher-repeatable',
+      repeat: { every: 60_000 }, // Every 60 seconds
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    },
+  );
+}
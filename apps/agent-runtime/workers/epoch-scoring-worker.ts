@@ -0,0 +1,322 @@
+/**
+ * Epoch Scoring Worker — CEOS Scores On-chain
+ *
+ * Runs the CEOS epoch lifecycle once an epoch (getCurrentEpoch) is over:
+ *
+ *   1. Score:  gather the finished epoch's inputs, score every active
+ *              agent and upsert their CEOSScore rows (src/core/epoch-scoring.ts).
+ *              A CEOSEpochSubmission row marks the epoch scored, so it is
+ *              scored once; a crash before the row is written just scores
+ *              it again, over the same rows. Every finished epoch after
+ *              the newest CEOSEpochSubmission is scored, oldest first, so
+ *              epochs missed while the runtime was down are backfilled.
+ *              The first run starts at EPOCH_SCORING_START_EPOCH, or the
+ *              last finished epoch.
+ *   2. Submit: send the epoch's scores to CEOSScore.sol as one
+ *              submitScores batch — the contract locks an epoch after its
+ *              first submission — and record the transaction on the
+ *              epoch's CEOSEpochSubmission.
+ *   3. Confirm: wait for the receipt. A reverted or failed submission is
+ *              retried on later checks, up to MAX_SUBMISSION_ATTEMPTS; a
+ *              sent transaction with no receipt yet is waited on again,
+ *              never re-sent. A ScoresAlreadySubmitted revert means an
+ *              earlier send landed, and confirms the epoch.
+ *
+ * Scoring runs without a chain client; submissions then wait, PENDING,
+ * until a wallet and NEXT_PUBLIC_CEOS_SCORE_ADDRESS are configured.
+ *
+ * Runs on a repeatable schedule (every hour), so while the runtime is up
+ * an epoch is scored and submitted within the hour after it ends.
+ */
+
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient, type CEOSEpochSubmission } from '@prisma/client';
+import type IORedis from 'ioredis';
+import type { Address } from 'viem';
+import pino from 'pino';
+import { logger as rootLogger, config } from '../src/config.js';
+import type { BaseChainClient } from '../src/integrations/base-chain.js';
+import { CEOS_SCORE_ABI } from '../src/abis/ceos-score.js';
+import {
+  epochsToScore,
+  gatherEpochInputs,
+  getCurrentEpoch,
+  persistEpochScores,
+  scoreEpoch,
+  submitScoresArgs,
+} from '../src/core/epoch-scoring.js';
+import { EPOCH_CHECK_INTERVAL_MS, MAX_SUBMISSION_ATTEMPTS } from '../src/config/epoch-scoring.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface EpochScoringJobData {
+  task: 'check-epoch';
+  triggeredAt: string;
+}
+
+interface EpochScoringJobResult {
+  /** The last finished epoch */
+  epoch: number;
+  /** Epochs this check scored, oldest first */
+  epochsScored: number[];
+  agentsScored: number;
+  submissionsConfirmed: number;
+  submissionsFailed: number;
+  processedAt: string;
+}
+
+type SubmissionOutcome = 'confirmed' | 'waiting' | 'retrying' | 'failed' | 'skipped';
+
+const QUEUE_NAME = 'epoch-scoring';
+
+// ── Worker Factory ───────────────────────────────────────────────────────
+
+/**
+ * Create the epoch scoring worker.
+ *
+ * @param connection - Shared Redis connection (BullMQ duplicates internally)
+ * @param baseChain - Optional chain client scores are submitted with
+ */
+export function createEpochScoringWorker(connection: IORedis, baseChain: BaseChainClient | null = null) {
+  const logger: pino.Logger = rootLogger.child({ module: 'EpochScoringWorker' });
+  const prisma = new PrismaClient();
+  const ceosScoreAddress = config.NEXT_PUBLIC_CEOS_SCORE_ADDRESS as Address | undefined;
+
+  const queue = new Queue<EpochScoringJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<EpochScoringJobData, EpochScoringJobResult>(
+    QUEUE_NAME,
+    async (job: Job<EpochScoringJobData>): Promise<EpochScoringJobResult> => {
+      const currentEpoch = getCurrentEpoch();
+      const result: EpochScoringJobResult = {
+        epoch: currentEpoch - 1,
+        epochsScored: [],
+        agentsScored: 0,
+        submissionsConfirmed: 0,
+        submissionsFailed: 0,
+        processedAt: new Date().toISOString(),
+      };
+
+      if (job.data.task !== 'check-epoch') {
+        logger.warn({ task: job.data.task }, 'Unknown epoch scoring task');
+        return result;
+      }
+
+      const latest = await prisma.cEOSEpochSubmission.findFirst({
+        orderBy: { epoch: 'desc' },
+        select: { epoch: true },
+      });
+      const unscored = epochsToScore(latest?.epoch ?? null, currentEpoch, config.EPOCH_SCORING_START_EPOCH);
+      if (unscored.length > 1) {
+        logger.warn({ epochs: unscored, lastScored: latest?.epoch ?? null }, 'Backfilling unscored epochs');
+      }
+
+      for (const epoch of unscored) {
+        result.agentsScored += await scoreFinishedEpoch(epoch);
+        result.epochsScored.push(epoch);
+      }
+
+      const pending = await prisma.cEOSEpochSubmission.findMany({
+        where: { status: { in: ['PENDING', 'SUBMITTED'] } },
+        orderBy: { epoch: 'asc' },
+      });
+      if (pending.length === 0) return result;
+
+      if (!baseChain?.isWalletInitialized() || !ceosScoreAddress) {
+        logger.warn(
+          { pendingEpochs: pending.map((s) => s.epoch), hasWallet: baseChain?.isWalletInitialized() ?? false },
+          'Epoch scores pending but no wallet/CEOSScore address configured — skipping submission',
+        );
+        return result;
+      }
+
+      for (const submission of pending) {
+        const outcome = await submitEpoch(submission, baseChain, ceosScoreAddress);
+        if (outcome === 'confirmed') result.submissionsConfirmed++;
+        if (outcome === 'failed') result.submissionsFailed++;
+      }
+
+      return result;
+    },
+    {
+      connection,
+      concurrency: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 25 },
+    },
+  );
+
+  /**
+   * Score `epoch` unless it already was. Returns the number of agents scored.
+   */
+  async function scoreFinishedEpoch(epoch: number): Promise<number> {
+    const existing = await prisma.cEOSEpochSubmission.findUnique({ where: { epoch }, select: { epoch: true } });
+    if (existing) return 0;
+
+    const scores = scoreEpoch(epoch, await gatherEpochInputs(prisma, epoch));
+    await persistEpochScores(prisma, epoch, scores);
+    await prisma.cEOSEpochSubmission.create({
+      data: {
+        epoch,
+        agentCount: scores.length,
+        status: scores.length > 0 ? 'PENDING' : 'SKIPPED',
+        scoredAt: new Date(),
+      },
+    });
+
+    logger.info({ epoch, agentCount: scores.length }, 'Epoch scored');
+    return scores.length;
+  }
+
+  /**
+   * Put `submission`'s epoch on-chain: send submitScores unless an
+   * earlier check already did, then wait for the receipt.
+   */
+  async function submitEpoch(
+    submission: CEOSEpochSubmission,
+    chain: BaseChainClient,
+    address: Address,
+  ): Promise<SubmissionOutcome> {
+    const { epoch } = submission;
+    let txHash = submission.txHash as `0x${string}` | null;
+
+    if (!txHash) {
+      const scores = await prisma.cEOSScore.findMany({
+        where: { epoch, agent: { onChainAddress: { not: null } } },
+        select: {
+          trading: true,
+          engagement: true,
+          revenue: true,
+          quality: true,
+          reliability: true,
+          agent: { select: { onChainAddress: true } },
+        },
+        orderBy: { agentId: 'asc' },
+      });
+
+      if (scores.length === 0) {
+        await prisma.cEOSEpochSubmission.update({ where: { epoch }, data: { status: 'SKIPPED' } });
+        logger.warn({ epoch }, 'No scores with an agent address left to submit — skipping epoch');
+        return 'skipped';
+      }
+
+      try {
+        txHash = await chain.writeContract({
+          address,
+          abi: CEOS_SCORE_ABI,
+          functionName: 'submitScores',
+          args: submitScoresArgs(
+            epoch,
+            scores.map(({ agent, ...dimensions }) => ({ ...dimensions, address: agent.onChainAddress! })),
+          ),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (message.includes('ScoresAlreadySubmitted')) {
+          await markConfirmed(epoch, null);
+          logger.warn({ epoch }, 'Epoch already held by CEOSScore — marking submission confirmed');
+          return 'confirmed';
+        }
+        return recordFailure(submission, message);
+      }
+
+      await prisma.cEOSEpochSubmission.update({
+        where: { epoch },
+        data: { status: 'SUBMITTED', txHash, submittedAt: new Date() },
+      });
+      logger.info({ epoch, txHash, agentCount: scores.length }, 'Epoch scores submitted');
+    }
+
+    let receipt: Awaited<ReturnType<BaseChainClient['waitForTransaction']>>;
+    try {
+      receipt = await chain.waitForTransaction(txHash);
+    } catch (err) {
+      // The transaction may still land — wait on it again rather than send another
+      logger.warn(
+        { epoch, txHash, error: err instanceof Error ? err.message : String(err) },
+        'No submitScores receipt yet — checking again next tick',
+      );
+      return 'waiting';
+    }
+
+    if (receipt.status === 'reverted') {
+      return recordFailure(submission, `submitScores transaction ${txHash} reverted`);
+    }
+
+    await markConfirmed(epoch, txHash);
+    logger.info({ epoch, txHash, blockNumber: receipt.blockNumber.toString() }, 'Epoch scores confirmed on-chain');
+    return 'confirmed';
+  }
+
+  async function markConfirmed(epoch: number, txHash: string | null): Promise<void> {
+    await prisma.cEOSEpochSubmission.update({
+      where: { epoch },
+      data: { status: 'CONFIRMED', ...(txHash && { txHash }), lastError: null, confirmedAt: new Date() },
+    });
+  }
+
+  /**
+   * Count a failed attempt: back to PENDING for the next check, or
+   * FAILED once the attempts run out.
+   */
+  async function recordFailure(submission: CEOSEpochSubmission, error: string): Promise<SubmissionOutcome> {
+    const attempts = submission.attempts + 1;
+    const failed = attempts >= MAX_SUBMISSION_ATTEMPTS;
+
+    await prisma.cEOSEpochSubmission.update({
+      where: { epoch: submission.epoch },
+      data: { status: failed ? 'FAILED' : 'PENDING', txHash: null, attempts, lastError: error },
+    });
+
+    if (failed) {
+      logger.error({ epoch: submission.epoch, attempts, error }, 'Epoch score submission failed — giving up');
+      return 'failed';
+    }
+    logger.warn({ epoch: submission.epoch, attempts, error }, 'Epoch score submission failed — will retry');
+    return 'retrying';
+  }
+
+  worker.on('completed', (job, result) => {
+    if (result.agentsScored > 0 || result.submissionsConfirmed > 0 || result.submissionsFailed > 0) {
+      logger.info({ jobId: job.id, ...result }, 'Epoch scoring check completed');
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error.message }, 'Epoch scoring job failed');
+  });
+
+  logger.info(
+    { submissions: Boolean(baseChain?.isWalletInitialized() && ceosScoreAddress) },
+    'Epoch scoring worker initialized',
+  );
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Epoch scoring worker shut down');
+    },
+  };
+}
+
+// ── Scheduling Helper ────────────────────────────────────────────────────
+
+/**
+ * Register the repeatable epoch check.
+ */
+export async function scheduleEpochScoring(queue: Queue): Promise<void> {
+  await queue.add(
+    'check-epoch',
+    { task: 'check-epoch', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'epoch-scoring-repeatable',
+      repeat: { every: EPOCH_CHECK_INTERVAL_MS },
+      removeOnComplete: 50,
+      removeOnFail: 25,
+    },
+  );
+}
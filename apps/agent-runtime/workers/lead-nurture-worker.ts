@@ -0,0 +1,478 @@
+/**
+ * Lead Nurture Worker — Social Hunter Follow-ups
+ *
+ * Follows up on Social Hunter leads whose author reacted to the pitch:
+ *
+ *   1. Detect:   replies by the lead's author to the pitch or to any of
+ *                our follow-ups, and a like of the pitch
+ *   2. Classify: interested / question / objection / not interested
+ *                (src/skills/lead-nurture.ts), writing the follow-up in
+ *                the same call; an explicit "stop" skips the LLM, and
+ *                a reply that reads as prompt injection stalls the
+ *                sequence without one (src/core/untrusted-input.ts)
+ *   3. Decide:   not interested → DECLINED at once; follow-up limit
+ *                reached → STALLED; otherwise NURTURING plus a follow-up
+ *                (src/core/lead-nurture.ts)
+ *   4. Follow up: output-checked (a follow-up that leaks instructions,
+ *                links elsewhere or quotes another price stalls the
+ *                sequence), moderated, with the lead's ref token on its hire link,
+ *                as a reply to the lead's latest reply (or to the pitch,
+ *                for a like). Supervised agents hold it as a
+ *                HUNT_FOLLOW_UP draft instead.
+ *
+ * Every response, like, follow-up and stop is logged as a
+ * SocialHuntNurtureStep. Follow-ups share the hunter profile's reply caps
+ * with pitches; a lead whose follow-up would exceed them is left
+ * untouched and picked up again next cycle. Leads are watched for
+ * NURTURE_WINDOW_MS after the pitch; sequences still open then stall.
+ *
+ * Runs on a repeatable schedule (every 10 minutes), least recently
+ * checked leads first.
+ */
+
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient, SocialHuntStatus, type LeadIntent, type Prisma } from '@prisma/client';
+import type IORedis from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import type { NeynarClient, ConversationCast } from '../src/integrations/neynar.js';
+import type { LLMClient } from '../src/integrations/llm.js';
+import type { SpendLedger } from '../src/core/spend-ledger.js';
+import { ContentModerator, PrismaModerationStore } from '../src/core/moderation.js';
+import { DraftQueue } from '../src/core/supervision.js';
+import { getPromptRegistry } from '../src/core/prompt-registry.js';
+import { checkReply, detectInjection } from '../src/core/untrusted-input.js';
+import { countHuntReplies, loadHunterProfile, pitchableOfferings, type HunterProfile } from '../src/core/hunter-profile.js';
+import { decideNurture, isStopSignal, newResponses, type NurtureDecision } from '../src/core/lead-nurture.js';
+import { classifyLeadResponse, toLeadIntent, type NurtureResult } from '../src/skills/lead-nurture.js';
+import { tagHireLinks } from '../src/skills/social-hunter-triage.js';
+import {
+  HIRE_BASE_URL,
+  MAX_NURTURE_LEADS_PER_CYCLE,
+  NURTURE_POLL_INTERVAL_MS,
+  NURTURE_WINDOW_MS,
+} from '../src/config/social-hunter.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface NurtureJobData {
+  task: 'nurture-leads';
+  triggeredAt: string;
+}
+
+interface NurtureJobResult {
+  leadsChecked: number;
+  followUpsSent: number;
+  sequencesStopped: number;
+  processedAt: string;
+}
+
+type LeadOutcome = 'quiet' | 'deferred' | 'followed-up' | 'held' | 'stopped' | 'nurturing';
+
+const QUEUE_NAME = 'lead-nurture';
+const HOUR_MS = 60 * 60 * 1000;
+
+const leadInclude = {
+  agent: {
+    select: {
+      id: true,
+      name: true,
+      fid: true,
+      signerUuid: true,
+      status: true,
+      persona: true,
+      sellerOfferings: {
+        where: { status: 'ACTIVE' },
+        select: { slug: true, name: true, category: true, description: true, priceUsdc: true },
+      },
+    },
+  },
+  nurtureSteps: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.SocialHuntLeadInclude;
+
+type NurturedLead = Prisma.SocialHuntLeadGetPayload<{ include: typeof leadInclude }>;
+
+// ── Factory ──────────────────────────────────────────────────────────────
+
+/**
+ * Create the lead nurture worker and its scheduling queue.
+ *
+ * @param connection - Shared Redis connection (BullMQ duplicates internally)
+ * @param neynar - Neynar client for replies, likes and follow-ups
+ * @param llm - LLM client responses are classified and answered with
+ * @param ledger - Spend ledger; leads of agents over a REFUSE budget wait
+ */
+export function createLeadNurtureWorker(
+  connection: IORedis,
+  neynar: NeynarClient,
+  llm: LLMClient,
+  ledger?: SpendLedger,
+) {
+  const logger: pino.Logger = rootLogger.child({ module: 'LeadNurtureWorker' });
+  const prisma = new PrismaClient();
+  const moderator = new ContentModerator(new PrismaModerationStore(prisma), llm);
+  const drafts = new DraftQueue(prisma);
+
+  const queue = new Queue<NurtureJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<NurtureJobData, NurtureJobResult>(
+    QUEUE_NAME,
+    async (job: Job<NurtureJobData>): Promise<NurtureJobResult> => {
+      if (job.data.task !== 'nurture-leads') {
+        logger.warn({ task: job.data.task }, 'Unknown lead nurture task');
+        return { leadsChecked: 0, followUpsSent: 0, sequencesStopped: 0, processedAt: new Date().toISOString() };
+      }
+
+      let sequencesStopped = await stallExpiredSequences();
+
+      const leads = await prisma.socialHuntLead.findMany({
+        where: {
+          status: { in: [SocialHuntStatus.REPLIED, SocialHuntStatus.NURTURING] },
+          replyCastHash: { not: null },
+          repliedAt: { gte: new Date(Date.now() - NURTURE_WINDOW_MS) },
+        },
+        orderBy: { nurtureCheckedAt: { sort: 'asc', nulls: 'first' } },
+        take: MAX_NURTURE_LEADS_PER_CYCLE,
+        include: leadInclude,
+      });
+
+      // Per agent, for the cycle
+      const profiles = new Map<string, HunterProfile>();
+      let followUpsSent = 0;
+
+      for (const lead of leads) {
+        const log = logger.child({ agentId: lead.agentId, leadId: lead.id });
+
+        try {
+          const { agent } = lead;
+          if (agent.status !== 'ACTIVE' || !agent.signerUuid || agent.signerUuid.startsWith('demo-signer-')) continue;
+
+          let profile = profiles.get(agent.id);
+          if (!profile) {
+            profile = await loadHunterProfile(prisma, agent.id);
+            profiles.set(agent.id, profile);
+          }
+          if (!profile.enabled) continue;
+
+          const outcome = await nurtureLead(lead, profile, log);
+          if (outcome === 'followed-up') followUpsSent++;
+          if (outcome === 'stopped') sequencesStopped++;
+        } catch (error) {
+          // One lead's failure must not hold up the others
+          log.error({ error: error instanceof Error ? error.message : String(error) }, 'Lead nurture failed');
+        } finally {
+          await prisma.socialHuntLead.update({ where: { id: lead.id }, data: { nurtureCheckedAt: new Date() } });
+        }
+      }
+
+      return { leadsChecked: leads.length, followUpsSent, sequencesStopped, processedAt: new Date().toISOString() };
+    },
+    {
+      connection,
+      concurrency: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 25 },
+    },
+  );
+
+  // ── Core Processing ──────────────────────────────────────────────────
+
+  /**
+   * Look for the author's reaction to one lead's pitch and follow-ups,
+   * and act on it.
+   */
+  async function nurtureLead(lead: NurturedLead, profile: HunterProfile, log: pino.Logger): Promise<LeadOutcome> {
+    const pitchHash = lead.replyCastHash!;
+    const ourCasts = [
+      pitchHash,
+      ...lead.nurtureSteps.flatMap((step) => (step.kind === 'FOLLOW_UP' && step.castHash ? [step.castHash] : [])),
+    ];
+    const logged = new Set(
+      lead.nurtureSteps.flatMap((step) => (step.kind === 'RESPONSE' && step.castHash ? [step.castHash] : [])),
+    );
+
+    const replies = newResponses(
+      dedupe((await Promise.all(ourCasts.map((hash) => neynar.getCastReplies(hash)))).flat()),
+      lead.targetFid,
+      logged,
+    );
+    const latest = replies.at(-1);
+
+    // A like counts once, and only before the author said anything
+    const liked =
+      !latest &&
+      lead.status === SocialHuntStatus.REPLIED &&
+      !lead.nurtureSteps.some((step) => step.kind === 'LIKE') &&
+      (await neynar.hasLiked(pitchHash, lead.targetFid));
+    if (!latest && !liked) return 'quiet';
+
+    const injection = latest ? detectInjection(latest.text) : null;
+    const injected = injection?.suspicious ?? false;
+    const stop = latest && !injected ? isStopSignal(latest.text) : false;
+    const atLimit = lead.followUps >= profile.maxFollowUps;
+
+    let intent: LeadIntent | null = stop ? 'NOT_INTERESTED' : null;
+    let result: NurtureResult | null = null;
+    let reason: string | null = injected
+      ? `Prompt injection: ${injection!.signals.join(', ')}`
+      : stop
+        ? 'Asked to stop'
+        : null;
+
+    if (!stop && !atLimit && !injected) {
+      if (!(await withinReplyCaps(lead.agentId, profile))) {
+        log.info('Hunt reply caps reached, deferring follow-up');
+        return 'deferred';
+      }
+      const budget = ledger ? await ledger.getStatus(lead.agentId) : null;
+      if (budget?.state === 'refuse') {
+        log.info({ reason: budget.reason }, 'Spend budget exhausted, deferring follow-up');
+        return 'deferred';
+      }
+
+      result = await classifyLeadResponse(llm, {
+        agentId: lead.agentId,
+        agentName: lead.agent.name,
+        agentPersona: personaOf(lead.agent.persona),
+        offerings: pitchableOfferings(profile, lead.agent.sellerOfferings).map((o) => ({
+          ...o,
+          priceUsdc: o.priceUsdc.toString(),
+        })),
+        hireLink: hireLink(lead, profile),
+        conversation: conversationOf(lead, replies.slice(0, -1)),
+        signal: latest
+          ? { kind: 'reply', authorUsername: lead.targetUsername, text: latest.text }
+          : { kind: 'like', authorUsername: lead.targetUsername },
+      });
+      intent = toLeadIntent(result.intent);
+      reason = result.reason;
+    }
+
+    // Log what the author did; only the latest reply was classified
+    const signalSteps: Prisma.SocialHuntNurtureStepCreateManyInput[] = latest
+      ? replies.map((reply) => ({
+          leadId: lead.id,
+          agentId: lead.agentId,
+          kind: 'RESPONSE',
+          castHash: reply.hash,
+          text: reply.text,
+          intent: reply === latest ? intent : null,
+          reason: reply === latest ? reason : null,
+        }))
+      : [{ leadId: lead.id, agentId: lead.agentId, kind: 'LIKE', castHash: pitchHash, intent, reason }];
+    await prisma.socialHuntNurtureStep.createMany({ data: signalSteps, skipDuplicates: true });
+
+    // A reply written to steer the model gets no answer at all
+    const decision: NurtureDecision = injected
+      ? { status: 'STALLED', followUp: false, stopReason: 'Prompt injection attempt' }
+      : decideNurture(intent, lead.followUps, profile.maxFollowUps);
+    await prisma.socialHuntLead.update({
+      where: { id: lead.id },
+      data: {
+        status: decision.status,
+        lastIntent: intent ?? lead.lastIntent,
+        ...(injected && { injectionSignals: { push: injection!.signals } }),
+      },
+    });
+
+    if (!decision.followUp) {
+      await prisma.socialHuntNurtureStep.create({
+        data: { leadId: lead.id, agentId: lead.agentId, kind: 'STOPPED', reason: decision.stopReason },
+      });
+      log.info({ status: decision.status, reason: decision.stopReason }, 'Nurture sequence stopped');
+      return 'stopped';
+    }
+
+    if (!result?.followUp.trim()) return 'nurturing';
+    return sendFollowUp(lead, profile, result.followUp, latest?.hash ?? pitchHash, intent, log);
+  }
+
+  /**
+   * Check, moderate and send (or hold) a follow-up as a reply to
+   * `parentHash`. A follow-up that fails the output checks stalls the
+   * sequence.
+   */
+  async function sendFollowUp(
+    lead: NurturedLead,
+    profile: HunterProfile,
+    text: string,
+    parentHash: string,
+    intent: LeadIntent | null,
+    log: pino.Logger,
+  ): Promise<LeadOutcome> {
+    const findings = checkReply(text, {
+      instructions: getPromptRegistry().literals('lead-nurture'),
+      hireBaseUrl: HIRE_BASE_URL,
+      offerings: pitchableOfferings(profile, lead.agent.sellerOfferings).map((o) => ({
+        slug: o.slug,
+        priceUsdc: o.priceUsdc.toString(),
+      })),
+    });
+    if (findings.length > 0) {
+      await prisma.socialHuntNurtureStep.create({
+        data: {
+          leadId: lead.id,
+          agentId: lead.agentId,
+          kind: 'STOPPED',
+          reason: `Follow-up failed output checks: ${findings.map((f) => f.reason).join('; ')}`,
+        },
+      });
+      await prisma.socialHuntLead.update({
+        where: { id: lead.id },
+        data: { status: SocialHuntStatus.STALLED, injectionSignals: { push: findings.map((f) => f.check) } },
+      });
+      log.warn({ findings: findings.map((f) => f.check) }, 'Follow-up failed output checks');
+      return 'stopped';
+    }
+
+    const tagged = lead.refToken ? tagHireLinks(text, HIRE_BASE_URL, lead.refToken) : text;
+    const persona = personaOf(lead.agent.persona);
+
+    const moderation = await moderator.moderate({ agentId: lead.agentId, persona }, { text: tagged });
+    if (moderation.verdict === 'BLOCK') {
+      log.warn({ findings: moderation.findings.map((f) => f.reason) }, 'Follow-up blocked by moderation');
+      return 'nurturing';
+    }
+
+    const step = { leadId: lead.id, agentId: lead.agentId, kind: 'FOLLOW_UP' as const, text: moderation.text, intent };
+
+    // Held follow-ups use up the caps and the lead's allowance too
+    const draftId = await drafts.holdIfSupervised({
+      agentId: lead.agentId,
+      kind: 'HUNT_FOLLOW_UP',
+      text: moderation.text,
+      replyToHash: parentHash,
+      leadId: lead.id,
+      context: { targetUsername: lead.targetUsername, intent, followUp: lead.followUps + 1 },
+    });
+    if (draftId) {
+      await prisma.socialHuntNurtureStep.create({ data: { ...step, draftId } });
+      await prisma.socialHuntLead.update({ where: { id: lead.id }, data: { followUps: { increment: 1 } } });
+      log.info({ draftId, intent }, 'Follow-up held as draft');
+      return 'held';
+    }
+
+    const cast = await neynar.replyCast(lead.agent.signerUuid!, parentHash, moderation.text);
+    await prisma.cast.create({
+      data: {
+        agentId: lead.agentId,
+        content: cast.text,
+        hash: cast.hash,
+        type: 'REPLY',
+        parentHash,
+        publishedAt: new Date(),
+      },
+    });
+    await prisma.socialHuntNurtureStep.create({ data: { ...step, castHash: cast.hash } });
+    await prisma.socialHuntLead.update({ where: { id: lead.id }, data: { followUps: { increment: 1 } } });
+
+    log.info({ replyHash: cast.hash, intent, target: lead.targetUsername }, 'Follow-up sent');
+    return 'followed-up';
+  }
+
+  async function withinReplyCaps(agentId: string, profile: HunterProfile): Promise<boolean> {
+    const [hourly, daily] = await Promise.all([
+      countHuntReplies(prisma, agentId, new Date(Date.now() - HOUR_MS)),
+      countHuntReplies(prisma, agentId, new Date(Date.now() - 24 * HOUR_MS)),
+    ]);
+    return hourly < profile.maxRepliesPerHour && daily < profile.maxRepliesPerDay;
+  }
+
+  /** Stall the sequences still open when their nurture window closes. */
+  async function stallExpiredSequences(): Promise<number> {
+    const expired = await prisma.socialHuntLead.findMany({
+      where: {
+        status: SocialHuntStatus.NURTURING,
+        repliedAt: { lt: new Date(Date.now() - NURTURE_WINDOW_MS) },
+      },
+      select: { id: true, agentId: true },
+      take: 100,
+    });
+
+    for (const lead of expired) {
+      await prisma.$transaction([
+        prisma.socialHuntLead.update({ where: { id: lead.id }, data: { status: SocialHuntStatus.STALLED } }),
+        prisma.socialHuntNurtureStep.create({
+          data: { leadId: lead.id, agentId: lead.agentId, kind: 'STOPPED', reason: 'Nurture window closed' },
+        }),
+      ]);
+    }
+    return expired.length;
+  }
+
+  // ── Lifecycle Events ─────────────────────────────────────────────────
+
+  worker.on('completed', (job, result) => {
+    if (result.followUpsSent > 0 || result.sequencesStopped > 0) {
+      logger.info({ jobId: job.id, ...result }, 'Lead nurture cycle completed');
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error.message }, 'Lead nurture job failed');
+  });
+
+  logger.info('Lead nurture worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Lead nurture worker shut down');
+    },
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function dedupe(casts: ConversationCast[]): ConversationCast[] {
+  return [...new Map(casts.map((cast) => [cast.hash, cast])).values()];
+}
+
+function personaOf(persona: unknown): string {
+  return typeof persona === 'string'
+    ? persona
+    : ((persona as Record<string, unknown>)?.description as string) ?? 'A helpful AI agent on ceos.run';
+}
+
+/** The pitched offering's hire link (any pitchable one if none was matched). */
+function hireLink(lead: NurturedLead, profile: HunterProfile): string {
+  const slug = lead.offeringSlug ?? pitchableOfferings(profile, lead.agent.sellerOfferings)[0]?.slug;
+  const link = slug ? `${HIRE_BASE_URL}/${slug}` : HIRE_BASE_URL;
+  return lead.refToken ? tagHireLinks(link, HIRE_BASE_URL, lead.refToken) : link;
+}
+
+/** The lead's cast, the pitch and the exchange since, oldest first. */
+function conversationOf(lead: NurturedLead, earlierReplies: ConversationCast[]) {
+  return [
+    { authorUsername: lead.targetUsername, text: lead.targetText },
+    { authorUsername: lead.agent.name, text: lead.pitchText ?? '' },
+    ...lead.nurtureSteps.flatMap((step) => {
+      if (step.kind === 'RESPONSE' && step.text) return [{ authorUsername: lead.targetUsername, text: step.text }];
+      if (step.kind === 'FOLLOW_UP' && step.text) return [{ authorUsername: lead.agent.name, text: step.text }];
+      return [];
+    }),
+    ...earlierReplies.map((reply) => ({ authorUsername: lead.targetUsername, text: reply.text })),
+  ];
+}
+
+// ── Scheduling Helper ────────────────────────────────────────────────────
+
+/**
+ * Register the repeatable nurture cycle.
+ */
+export async function scheduleLeadNurture(queue: Queue): Promise<void> {
+  await queue.add(
+    'nurture-leads',
+    { task: 'nurture-leads', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'lead-nurture-repeatable',
+      repeat: { every: NURTURE_POLL_INTERVAL_MS },
+      removeOnComplete: 50,
+      removeOnFail: 25,
+    },
+  );
+}
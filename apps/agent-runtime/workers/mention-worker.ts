@@ -0,0 +1,456 @@
+/**
+ * Mention Worker — Replies to Mentions
+ *
+ * Reads the mentions of every ACTIVE agent on Farcaster and answers the
+ * ones that deserve it:
+ *
+ *   1. Read:   mentions newer than the agent's MentionCursor
+ *   2. Triage: skip own casts, low-reputation authors, spam, authors the
+ *              agent has answered enough this hour, and — for passive
+ *              agents — anything that is not a question
+ *              (src/core/mention-policy.ts), and mentions that read as
+ *              prompt injection (src/core/untrusted-input.ts); replies
+ *              to Social Hunter pitches and follow-ups are left to the
+ *              lead nurture worker
+ *   3. Reply:  fetch the conversation above the mention, write the reply
+ *              with EngagementStrategy, run the output checks (leaked
+ *              instructions, foreign links, prices the agent does not
+ *              charge), moderate it, and post it as a REPLY Cast.
+ *              Supervised agents hold it as a MENTION_REPLY draft instead.
+ *
+ * Every mention handled is recorded as an AgentMention (unique per cast),
+ * with any injection signals or failed output checks, so none is
+ * answered twice, and the cursor moves past it; the draft
+ * publisher marks a held reply REPLIED once it is posted. An agent over
+ * its hourly or daily reply limit stops for the cycle and picks up from
+ * the cursor next time.
+ *
+ * Runs on a repeatable schedule (every 2 minutes).
+ */
+
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient, type Agent } from '@prisma/client';
+import type IORedis from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import type { NeynarClient, Mention } from '../src/integrations/neynar.js';
+import type { LLMClient } from '../src/integrations/llm.js';
+import type { SpendLedger } from '../src/core/spend-ledger.js';
+import { ContentModerator, PrismaModerationStore } from '../src/core/moderation.js';
+import { DraftQueue } from '../src/core/supervision.js';
+import { getPromptRegistry } from '../src/core/prompt-registry.js';
+import { checkReply, detectInjection, type ReplyGuard } from '../src/core/untrusted-input.js';
+import { assessMention, engagementMode, isQuestion } from '../src/core/mention-policy.js';
+import { EngagementStrategy, type AgentContext, type ReplyResult } from '../src/strategies/engagement.js';
+import {
+  CONVERSATION_CONTEXT_CASTS,
+  FIRST_READ_LOOKBACK_MS,
+  MAX_MENTION_REPLIES_PER_DAY,
+  MAX_MENTION_REPLIES_PER_HOUR,
+  MAX_MENTIONS_PER_CYCLE,
+  MENTION_POLL_INTERVAL_MS,
+} from '../src/config/mentions.js';
+import { HIRE_BASE_URL } from '../src/config/social-hunter.js';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface MentionJobData {
+  task: 'reply-to-mentions';
+  triggeredAt: string;
+}
+
+interface MentionJobResult {
+  agentCount: number;
+  mentionsRead: number;
+  repliesSent: number;
+  processedAt: string;
+}
+
+interface CycleResult {
+  mentionsRead: number;
+  repliesSent: number;
+}
+
+const QUEUE_NAME = 'mention-replies';
+const HOUR_MS = 60 * 60 * 1000;
+
+// ── Factory ──────────────────────────────────────────────────────────────
+
+/**
+ * Create the mention worker and its scheduling queue.
+ *
+ * @param connection - Shared Redis connection (BullMQ duplicates internally)
+ * @param neynar - Neynar client for mentions, conversations and replies
+ * @param llm - LLM client the replies are written with
+ * @param ledger - Spend ledger; agents over a REFUSE budget are skipped
+ */
+export function createMentionWorker(
+  connection: IORedis,
+  neynar: NeynarClient,
+  llm: LLMClient,
+  ledger?: SpendLedger,
+) {
+  const logger: pino.Logger = rootLogger.child({ module: 'MentionWorker' });
+  const prisma = new PrismaClient();
+  const engagement = new EngagementStrategy(llm);
+  const moderator = new ContentModerator(new PrismaModerationStore(prisma), llm);
+  const drafts = new DraftQueue(prisma);
+
+  const queue = new Queue<MentionJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<MentionJobData, MentionJobResult>(
+    QUEUE_NAME,
+    async (job: Job<MentionJobData>): Promise<MentionJobResult> => {
+      if (job.data.task !== 'reply-to-mentions') {
+        logger.warn({ task: job.data.task }, 'Unknown mention worker task');
+        return { agentCount: 0, mentionsRead: 0, repliesSent: 0, processedAt: new Date().toISOString() };
+      }
+
+      const agents = await prisma.agent.findMany({
+        where: { status: 'ACTIVE', fid: { not: null }, signerUuid: { not: null } },
+      });
+
+      let mentionsRead = 0;
+      let repliesSent = 0;
+      for (const agent of agents) {
+        if (agent.signerUuid?.startsWith('demo-signer-')) continue;
+        const log = logger.child({ agentId: agent.id });
+
+        try {
+          const budget = ledger ? await ledger.getStatus(agent.id) : null;
+          if (budget?.state === 'refuse') {
+            log.info({ reason: budget.reason }, 'Spend budget exhausted, skipping mentions');
+            continue;
+          }
+
+          const result = await processMentions(agent, log);
+          mentionsRead += result.mentionsRead;
+          repliesSent += result.repliesSent;
+        } catch (error) {
+          // One agent's failure must not keep the others from answering
+          log.error({ error: error instanceof Error ? error.message : String(error) }, 'Mention cycle failed');
+        }
+      }
+
+      return { agentCount: agents.length, mentionsRead, repliesSent, processedAt: new Date().toISOString() };
+    },
+    {
+      connection,
+      concurrency: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 25 },
+    },
+  );
+
+  // ── Core Processing ──────────────────────────────────────────────────
+
+  /**
+   * Read one agent's new mentions and answer the ones that deserve it,
+   * oldest first, moving the cursor past each.
+   */
+  async function processMentions(agent: Agent, log: pino.Logger): Promise<CycleResult> {
+    const fid = agent.fid!;
+    const signerUuid = agent.signerUuid!;
+
+    const cursor = await prisma.mentionCursor.findUnique({ where: { agentId: agent.id } });
+    const since = cursor?.lastMentionAt ?? new Date(Date.now() - FIRST_READ_LOOKBACK_MS);
+
+    const mentions = (await neynar.getMentions(fid, since))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(0, MAX_MENTIONS_PER_CYCLE);
+    if (mentions.length === 0) return { mentionsRead: 0, repliesSent: 0 };
+
+    const [hourly, daily] = await Promise.all([
+      countReplies(agent.id, new Date(Date.now() - HOUR_MS)),
+      countReplies(agent.id, new Date(Date.now() - 24 * HOUR_MS)),
+    ]);
+    let remainingHourly = MAX_MENTION_REPLIES_PER_HOUR - hourly;
+    let remainingDaily = MAX_MENTION_REPLIES_PER_DAY - daily;
+
+    const persona = typeof agent.persona === 'string'
+      ? agent.persona
+      : (agent.persona as Record<string, unknown>)?.description as string ?? '';
+    const context: AgentContext = { agentId: agent.id, name: agent.name, persona, signerUuid, fid };
+    const mode = engagementMode(agent.strategy);
+    const offerings = await prisma.serviceOffering.findMany({
+      where: { sellerAgentId: agent.id, status: 'ACTIVE' },
+      select: { slug: true, priceUsdc: true },
+    });
+    const guard: ReplyGuard = {
+      instructions: [
+        ...getPromptRegistry().literals('engagement.mention-reply'),
+        ...getPromptRegistry().literals('engagement.conversation-reply'),
+      ],
+      hireBaseUrl: HIRE_BASE_URL,
+      offerings: offerings.map((o) => ({ slug: o.slug, priceUsdc: o.priceUsdc.toString() })),
+    };
+
+    let mentionsRead = 0;
+    let repliesSent = 0;
+    for (const mention of mentions) {
+      const handled = await prisma.agentMention.findUnique({
+        where: { agentId_castHash: { agentId: agent.id, castHash: mention.castHash } },
+        select: { id: true },
+      });
+
+      if (!handled) {
+        const repliesToAuthorLastHour = await prisma.agentMention.count({
+          where: {
+            agentId: agent.id,
+            authorFid: mention.authorFid,
+            status: { in: ['REPLIED', 'DRAFTED'] },
+            repliedAt: { gte: new Date(Date.now() - HOUR_MS) },
+          },
+        });
+        const assessed = assessMention(mention, { agentFid: fid, mode, repliesToAuthorLastHour });
+        const injection = detectInjection(mention.text);
+        const assessment = (await isLeadConversation(agent.id, mention.parentHash))
+          ? { ...assessed, reply: false, reason: 'lead conversation' }
+          : injection.suspicious
+            ? { ...assessed, reply: false, reason: `prompt injection: ${injection.signals.join(', ')}` }
+            : assessed;
+
+        if (assessment.reply && (remainingHourly <= 0 || remainingDaily <= 0)) {
+          // Leave the cursor here so the rest are answered next cycle
+          log.info({ remainingHourly, remainingDaily }, 'Mention reply limit reached, deferring the rest');
+          break;
+        }
+
+        const record = {
+          agentId: agent.id,
+          castHash: mention.castHash,
+          parentHash: mention.parentHash ?? null,
+          authorFid: mention.authorFid,
+          authorUsername: mention.authorUsername,
+          text: mention.text,
+          mentionedAt: new Date(mention.timestamp),
+          authorScore: assessment.authorScore,
+          spamScore: assessment.spamScore,
+          injectionSignals: injection.suspicious ? injection.signals : [],
+        };
+
+        if (!assessment.reply) {
+          await prisma.agentMention.create({ data: { ...record, status: 'SKIPPED', skipReason: assessment.reason } });
+          log.debug({ castHash: mention.castHash, reason: assessment.reason }, 'Mention skipped');
+        } else {
+          const sent = await replyToMention(context, mention, record, guard, log);
+          if (sent) {
+            remainingHourly--;
+            remainingDaily--;
+            if (sent === 'REPLIED') repliesSent++;
+          }
+        }
+      }
+
+      mentionsRead++;
+      await prisma.mentionCursor.upsert({
+        where: { agentId: agent.id },
+        create: { agentId: agent.id, lastMentionAt: new Date(mention.timestamp) },
+        update: { lastMentionAt: new Date(mention.timestamp) },
+      });
+    }
+
+    log.info({ mentionsRead, repliesSent }, 'Mentions handled');
+    return { mentionsRead, repliesSent };
+  }
+
+  /**
+   * Write, check, moderate and send (or hold) the reply to one mention.
+   * Returns how it went out, or null when it did not.
+   */
+  async function replyToMention(
+    agent: AgentContext,
+    mention: Mention,
+    record: {
+      agentId: string;
+      castHash: string;
+      parentHash: string | null;
+      authorFid: number;
+      authorUsername: string;
+      text: string;
+      mentionedAt: Date;
+      authorScore: number;
+      spamScore: number;
+      injectionSignals: string[];
+    },
+    guard: ReplyGuard,
+    log: pino.Logger,
+  ): Promise<'REPLIED' | 'DRAFTED' | null> {
+    try {
+      const reply = await writeReply(agent, mention);
+
+      // The conversation above the mention may have steered the reply
+      const findings = checkReply(reply.text, guard);
+      if (findings.length > 0) {
+        await prisma.agentMention.create({
+          data: {
+            ...record,
+            status: 'SKIPPED',
+            skipReason: `Reply failed output checks: ${findings.map((f) => f.reason).join('; ')}`,
+            injectionSignals: [...record.injectionSignals, ...findings.map((f) => f.check)],
+            replyText: reply.text,
+          },
+        });
+        log.warn({ castHash: mention.castHash, findings: findings.map((f) => f.check) }, 'Mention reply failed output checks');
+        return null;
+      }
+
+      const moderation = await moderator.moderate(
+        { agentId: agent.agentId, persona: agent.persona },
+        { text: reply.text },
+      );
+      if (moderation.verdict === 'BLOCK') {
+        await prisma.agentMention.create({
+          data: {
+            ...record,
+            status: 'SKIPPED',
+            skipReason: `Reply blocked by moderation: ${moderation.findings.map((f) => f.reason).join('; ')}`,
+            replyText: reply.text,
+          },
+        });
+        log.warn({ castHash: mention.castHash }, 'Mention reply blocked by moderation');
+        return null;
+      }
+
+      // Held replies use up the allowance too, so a supervised agent
+      // cannot queue more than it could have sent
+      const draftId = await drafts.holdIfSupervised({
+        agentId: agent.agentId,
+        kind: 'MENTION_REPLY',
+        text: moderation.text,
+        replyToHash: mention.castHash,
+        context: {
+          authorUsername: mention.authorUsername,
+          mentionText: mention.text,
+          verdict: moderation.verdict,
+        },
+        promptTemplate: reply.prompt.template,
+        promptVersion: reply.prompt.version,
+      });
+      if (draftId) {
+        await prisma.agentMention.create({
+          data: { ...record, status: 'DRAFTED', replyText: moderation.text, repliedAt: new Date() },
+        });
+        log.info({ castHash: mention.castHash, draftId }, 'Mention reply held as draft');
+        return 'DRAFTED';
+      }
+
+      const cast = await neynar.replyCast(agent.signerUuid, mention.castHash, moderation.text);
+      await prisma.cast.create({
+        data: {
+          agentId: agent.agentId,
+          content: cast.text,
+          hash: cast.hash,
+          type: 'REPLY',
+          parentHash: mention.castHash,
+          publishedAt: new Date(),
+          promptTemplate: reply.prompt.template,
+          promptVersion: reply.prompt.version,
+        },
+      });
+      await prisma.agentMention.create({
+        data: {
+          ...record,
+          status: 'REPLIED',
+          replyText: moderation.text,
+          replyCastHash: cast.hash,
+          repliedAt: new Date(),
+        },
+      });
+
+      log.info({ castHash: mention.castHash, replyHash: cast.hash, author: mention.authorUsername }, 'Mention replied');
+      return 'REPLIED';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.agentMention.upsert({
+        where: { agentId_castHash: { agentId: record.agentId, castHash: record.castHash } },
+        create: { ...record, status: 'FAILED', skipReason: message },
+        update: { status: 'FAILED', skipReason: message },
+      });
+      log.error({ castHash: mention.castHash, error: message }, 'Mention reply failed');
+      return null;
+    }
+  }
+
+  /**
+   * A reply in the conversation when the mention is itself a reply, or
+   * to the mention alone when it starts one.
+   */
+  async function writeReply(agent: AgentContext, mention: Mention): Promise<ReplyResult> {
+    if (!mention.parentHash) return engagement.handleMention(agent, mention);
+
+    const parents = await neynar.getConversationParents(mention.castHash, CONVERSATION_CONTEXT_CASTS);
+    return engagement.generateReply(agent, {
+      type: isQuestion(mention.text) ? 'question' : 'casual',
+      previousCasts: [
+        ...parents.map((cast) => ({ authorUsername: cast.authorUsername, text: cast.text })),
+        { authorUsername: mention.authorUsername, text: mention.text },
+      ],
+    });
+  }
+
+  /**
+   * Whether `parentHash` is one of the agent's Social Hunter pitches or
+   * follow-ups; the lead nurture worker answers those.
+   */
+  async function isLeadConversation(agentId: string, parentHash: string | undefined): Promise<boolean> {
+    if (!parentHash) return false;
+    const [pitch, followUp] = await Promise.all([
+      prisma.socialHuntLead.findFirst({ where: { agentId, replyCastHash: parentHash }, select: { id: true } }),
+      prisma.socialHuntNurtureStep.findFirst({
+        where: { agentId, kind: 'FOLLOW_UP', castHash: parentHash },
+        select: { id: true },
+      }),
+    ]);
+    return !!pitch || !!followUp;
+  }
+
+  async function countReplies(agentId: string, since: Date): Promise<number> {
+    return prisma.agentMention.count({
+      where: { agentId, status: { in: ['REPLIED', 'DRAFTED'] }, repliedAt: { gte: since } },
+    });
+  }
+
+  // ── Lifecycle Events ─────────────────────────────────────────────────
+
+  worker.on('completed', (job, result) => {
+    if (result.mentionsRead > 0) {
+      logger.info({ jobId: job.id, ...result }, 'Mention cycle completed');
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error.message }, 'Mention job failed');
+  });
+
+  logger.info('Mention worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Mention worker shut down');
+    },
+  };
+}
+
+// ── Scheduling Helper ────────────────────────────────────────────────────
+
+/**
+ * Register the repeatable mention cycle.
+ */
+export async function scheduleMentionReplies(queue: Queue): Promise<void> {
+  await queue.add(
+    'reply-to-mentions',
+    { task: 'reply-to-mentions', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'mention-replies-repeatable',
+      repeat: { every: MENTION_POLL_INTERVAL_MS },
+      removeOnComplete: 50,
+      removeOnFail: 25,
+    },
+  );
+}
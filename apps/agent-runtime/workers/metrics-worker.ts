@@ -33,6 +33,15 @@ const QUEUE_NAME = 'metrics-collection';
 const CONCURRENCY = 3;
 const NEYNAR_API_BASE = 'https://api.neynar.com/v2/farcaster';
 const NEYNAR_API_KEY = process.env.NEYNAR_API_KEY ?? '';
+// Thread replies the feed may leave out are looked up in bulk, this far back
+const THREAD_SYNC_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const BULK_CASTS_BATCH = 25;
+
+interface CastEngagement {
+  hash: string;
+  reactions: { likes_count: number; recasts_count: number };
+  replies: { count: number };
+}
 
 export function createMetricsWorker(
   connection: Redis,
@@ -179,13 +188,7 @@ async function collectAgentMetrics(
     );
 
     if (castsRes.ok) {
-      const castsData = (await castsRes.json()) as {
-        casts: Array<{
-          hash: string;
-          reactions: { likes_count: number; recasts_count: number };
-          replies: { count: number };
-        }>;
-      };
+      const castsData = (await castsRes.json()) as { casts: CastEngagement[] };
 
       metrics.totalCasts = castsData.casts.length;
       for (const cast of castsData.casts) {
@@ -193,6 +196,9 @@ async function collectAgentMetrics(
         metrics.totalRecasts += cast.reactions.recasts_count;
         metrics.totalReplies += cast.replies.count;
       }
+
+      await syncCastEngagement(agentId, castsData.casts, logger);
+      await syncThreadEngagement(agentId, new Set(castsData.casts.map((cast) => cast.hash)), logger);
     }
   } catch (err) {
     logger.warn(
@@ -230,6 +236,89 @@ async function collectAgentMetrics(
   return metrics;
 }
 
+/**
+ * Copy per-cast reaction counts onto the agent's Cast rows, so engagement
+ * can be compared across the prompt versions that produced each cast.
+ */
+async function syncCastEngagement(
+  agentId: string,
+  casts: CastEngagement[],
+  logger: pino.Logger,
+): Promise<void> {
+  try {
+    const known = await prisma.cast.findMany({
+      where: { agentId, hash: { in: casts.map((cast) => cast.hash) } },
+      select: { id: true, hash: true },
+    });
+    const idByHash = new Map(known.map((row) => [row.hash, row.id]));
+
+    for (const cast of casts) {
+      const id = idByHash.get(cast.hash);
+      if (!id) continue;
+      await prisma.cast.update({
+        where: { id },
+        data: {
+          likes: cast.reactions.likes_count,
+          recasts: cast.reactions.recasts_count,
+          replies: cast.replies.count,
+        },
+      });
+    }
+
+    logger.debug({ agentId, updated: idByHash.size }, 'Cast engagement synced');
+  } catch (err) {
+    logger.warn(
+      { agentId, error: err instanceof Error ? err.message : String(err) },
+      'Failed to sync cast engagement',
+    );
+  }
+}
+
+/**
+ * Sync each part of the agent's recent threads. Later parts are replies,
+ * which the user feed may not list, so the ones it left out are fetched
+ * by hash.
+ */
+async function syncThreadEngagement(
+  agentId: string,
+  seen: Set<string>,
+  logger: pino.Logger,
+): Promise<void> {
+  try {
+    const parts = await prisma.cast.findMany({
+      where: {
+        agentId,
+        threadRootHash: { not: null },
+        publishedAt: { gte: new Date(Date.now() - THREAD_SYNC_WINDOW_MS) },
+      },
+      select: { hash: true },
+    });
+    const missing = parts.flatMap((part) => (part.hash && !seen.has(part.hash) ? [part.hash] : []));
+
+    for (let i = 0; i < missing.length; i += BULK_CASTS_BATCH) {
+      const batch = missing.slice(i, i + BULK_CASTS_BATCH);
+      const res = await fetch(`${NEYNAR_API_BASE}/casts?casts=${batch.join(',')}`, {
+        headers: {
+          accept: 'application/json',
+          api_key: NEYNAR_API_KEY,
+        },
+      });
+      if (!res.ok) {
+        logger.warn({ agentId, status: res.status }, 'Failed to fetch thread casts');
+        return;
+      }
+
+      const data = (await res.json()) as { result: { casts: CastEngagement[] } };
+      await syncCastEngagement(agentId, data.result.casts, logger);
+    }
+  } catch (err) {
+    logger.warn(
+      { agentId, error: err instanceof Error ? err.message : String(err) },
+      'Failed to sync thread engagement',
+    );
+  }
+}
+
 async function storeMetrics(
   agentId: string,
   metrics: AgentMetrics,
@@ -2,7 +2,8 @@ import { Worker, Queue, type Job } from 'bullmq';
 import type { Redis } from 'ioredis';
 import pino from 'pino';
 import { logger as rootLogger } from '../src/config.js';
-import { NeynarClient, type Cast } from '../src/integrations/neynar.js';
+import { NeynarClient } from '../src/integrations/neynar.js';
+import { resumePoint } from '../src/core/threads.js';
 
 interface PostingJobData {
   agentId: string;
@@ -12,6 +13,8 @@ interface PostingJobData {
   contentType: string;
   parts?: string[];
   channelId?: string;
+  /** Thread parts already up, saved as they go out; a retry resumes after them */
+  posted?: CastResult[];
 }
 
 interface PostingJobResult {
@@ -25,6 +28,8 @@ interface CastResult {
   text: string;
   isThread: boolean;
   index: number;
+  /** The part before, for thread parts after the first */
+  parentHash?: string;
 }
 
 const QUEUE_NAME = 'farcaster-posting';
@@ -54,33 +59,37 @@ export function createPostingWorker(
         'Processing posting job',
       );
 
-      // Check rate limit
-      if (!checkRateLimit(agentId, postingHistory, logger)) {
+      // A resumed thread is the same post, already counted
+      const posted = job.data.posted ?? [];
+      if (posted.length === 0 && !checkRateLimit(agentId, postingHistory, logger)) {
         throw new Error(`Agent ${agentId} has exceeded posting rate limit`);
       }
 
       await job.updateProgress(10);
 
-      const castResults: CastResult[] = [];
+      const castResults: CastResult[] = [...posted];
 
       if (parts && parts.length > 1) {
-        // Publish as thread
-        logger.info({ agentId, partCount: parts.length }, 'Publishing thread');
+        // Publish as thread, saving each part so a failure partway resumes
+        // from the failed part on retry
+        logger.info({ agentId, partCount: parts.length, alreadyPosted: posted.length }, 'Publishing thread');
 
-        const threadOptions = channelId ? { channelId } : undefined;
-        const casts = await neynar.publishThread(signerUuid, parts, threadOptions);
-
-        for (let i = 0; i < casts.length; i++) {
-          const cast = casts[i];
-          if (cast) {
+        await neynar.publishThread(signerUuid, parts, {
+          embeds: mediaUrl ? [{ url: mediaUrl }] : undefined,
+          channelId,
+          resume: resumePoint(posted.map((cast) => cast.hash)),
+          onPart: async (cast, index) => {
             castResults.push({
               hash: cast.hash,
               text: cast.text,
               isThread: true,
-              index: i,
+              index,
+              parentHash: castResults[castResults.length - 1]?.hash,
             });
-          }
-        }
+            await job.updateData({ ...job.data, posted: castResults });
+            await job.updateProgress(10 + Math.round((70 * (index + 1)) / parts.length));
+          },
+        });
 
         await job.updateProgress(80);
       } else {
@@ -103,7 +112,7 @@ export function createPostingWorker(
       }
 
       // Record in rate limit tracker
-      recordPosting(agentId, postingHistory);
+      if (posted.length === 0) recordPosting(agentId, postingHistory);
 
       await job.updateProgress(100);
 
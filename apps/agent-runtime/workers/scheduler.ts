@@ -1,13 +1,34 @@
-import { Worker, Queue, QueueEvents, type Job } from 'bullmq';
+import { Worker, Queue, QueueEvents, UnrecoverableError, type Job } from 'bullmq';
 import type { Redis } from 'ioredis';
 import pino from 'pino';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 import { logger as rootLogger } from '../src/config.js';
+import { ContentModerator, PrismaModerationStore } from '../src/core/moderation.js';
+import { DraftQueue } from '../src/core/supervision.js';
+import {
+  activeBlackout,
+  isWithinPostingWindow,
+  localClock,
+  nextWindowStart,
+  parseContentCalendar,
+} from '../src/core/content-calendar.js';
+import { strategySchedule } from '../src/core/scheduler.js';
+import { threadLinks } from '../src/core/threads.js';
+import { postingDelayHours, StrategyTuner } from '../src/core/strategy-tuner.js';
+import type { LLMClient } from '../src/integrations/llm.js';
+import { resolveStrategy, selectChannel } from '../src/strategies/posting.js';
 
 interface SchedulerJobData {
   agentId: string;
   strategy: string;
   scheduledAt: string;
+  /** Set on content series jobs */
+  seriesId?: string;
+  /** Set on one-off scheduled post jobs, with the due time they were queued for */
+  scheduledPostId?: string;
+  scheduledFor?: string;
+  /** A cadence tick held back to the next posting window */
+  deferred?: boolean;
 }
 
 interface SchedulerJobResult {
@@ -16,6 +37,28 @@ interface SchedulerJobResult {
   publishedAt: string;
 }
 
+interface GeneratedPost {
+  text: string;
+  mediaUrl?: string;
+  contentType: string;
+  parts?: string[];
+  topic?: string;
+  channelId?: string;
+  promptTemplate?: string | null;
+  promptVersion?: number | null;
+}
+
+interface PostedCast {
+  hash: string;
+  text: string;
+}
+
+interface PostedCasts {
+  agentId: string;
+  casts: PostedCast[];
+  publishedAt: string;
+}
+
 interface HealthStatus {
   isHealthy: boolean;
   activeAgents: number;
@@ -32,9 +75,20 @@ const SCHEDULER_QUEUE_NAME = 'scheduled-posting';
 const CONTENT_QUEUE_NAME = 'content-generation';
 const POSTING_QUEUE_NAME = 'farcaster-posting';
 const HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
-
+const REVIEW_SWEEP_INTERVAL_MS = 60 * 1000;
+const REVIEW_SWEEP_BATCH = 10;
+const HOUR_MS = 60 * 60 * 1000;
+// How long a cycle waits on its posting job, retries included; threads post part by part
+const POSTING_TIMEOUT_MS = 60_000;
+const THREAD_POSTING_TIMEOUT_MS = 120_000;
+
+/**
+ * @param llm - Enables the moderation LLM classifier for agents whose
+ *   policy turns it on
+ */
 export function createSchedulerWorker(
   connection: Redis,
+  llm?: LLMClient,
 ): {
   worker: Worker<SchedulerJobData, SchedulerJobResult>;
   getHealth: () => Promise<HealthStatus>;
@@ -42,6 +96,9 @@ export function createSchedulerWorker(
 } {
   const logger: pino.Logger = rootLogger.child({ module: 'SchedulerWorker' });
   const prisma = new PrismaClient();
+  const moderator = new ContentModerator(new PrismaModerationStore(prisma), llm);
+  const drafts = new DraftQueue(prisma);
+  const tuner = new StrategyTuner(prisma);
 
   const contentQueue = new Queue(CONTENT_QUEUE_NAME, {
     connection: connection.duplicate(),
@@ -72,6 +129,7 @@ export function createSchedulerWorker(
   });
 
   let healthCheckTimer: NodeJS.Timeout | null = null;
+  let reviewSweepTimer: NodeJS.Timeout | null = null;
   let lastHealthStatus: HealthStatus = {
     isHealthy: true,
     activeAgents: 0,
@@ -82,10 +140,11 @@ export function createSchedulerWorker(
   const worker = new Worker<SchedulerJobData, SchedulerJobResult>(
     SCHEDULER_QUEUE_NAME,
     async (job: Job<SchedulerJobData>): Promise<SchedulerJobResult> => {
-      const { agentId, strategy } = job.data;
+      const { agentId, strategy, seriesId, scheduledPostId } = job.data;
+      const nothingPosted = (): SchedulerJobResult => ({ agentId, castHashes: [], publishedAt: new Date().toISOString() });
 
       logger.info(
-        { jobId: job.id, agentId, strategy },
+        { jobId: job.id, agentId, strategy, seriesId, scheduledPostId },
         'Scheduler dispatching autonomous cycle',
       );
 
@@ -100,100 +159,226 @@ export function createSchedulerWorker(
 
       if (agent.status !== 'ACTIVE') {
         logger.warn({ agentId, status: agent.status }, 'Agent not active, skipping cycle');
-        return { agentId, castHashes: [], publishedAt: new Date().toISOString() };
+        return nothingPosted();
       }
 
       if (!agent.signerUuid || agent.signerUuid.startsWith('demo-signer-')) {
         logger.warn({ agentId }, 'Agent has no valid signer, skipping posting');
-        return { agentId, castHashes: [], publishedAt: new Date().toISOString() };
+        return nothingPosted();
       }
 
       const persona = typeof agent.persona === 'string'
         ? agent.persona
         : (agent.persona as Record<string, unknown>)?.description as string ?? '';
 
-      // Step 2: Generate content
-      logger.info({ agentId }, 'Dispatching content generation');
-      const contentJob = await contentQueue.add(
-        'generate-content',
-        {
-          agentId,
-          agentName: agent.name,
-          agentPersona: persona,
-          contentType: 'auto',
-          strategy,
-        },
-        { priority: 1 },
+      // Read fresh each run, so strategy edits and tuning apply from the next post
+      const contentStrategy = await tuner.apply(agentId, resolveStrategy(agent.strategy));
+
+      // Step 2: Resolve the calendar entry this job is for. Series and
+      // one-off posts bring their own topic or text; stale jobs (series
+      // disabled, post cancelled or rescheduled) do nothing
+      let brief: { topic?: string; contentType?: string } = {};
+      let prewritten: GeneratedPost | null = null;
+
+      if (scheduledPostId) {
+        const post = await prisma.scheduledPost.findUnique({ where: { id: scheduledPostId } });
+        if (!post || post.status !== 'SCHEDULED' || post.scheduledFor.toISOString() !== job.data.scheduledFor) {
+          logger.info({ agentId, scheduledPostId }, 'Scheduled post no longer due, skipping');
+          return nothingPosted();
+        }
+        if (post.text) {
+          const isThread = post.parts.length > 1;
+          prewritten = {
+            text: post.text,
+            parts: isThread ? post.parts : undefined,
+            mediaUrl: post.mediaUrl ?? undefined,
+            contentType: isThread ? 'thread' : post.mediaUrl ? 'media' : 'original',
+          };
+        } else {
+          brief = { topic: post.topic ?? undefined, contentType: post.contentType ?? undefined };
+        }
+      } else if (seriesId) {
+        const series = await prisma.contentSeries.findUnique({ where: { id: seriesId } });
+        if (!series?.enabled) {
+          logger.info({ agentId, seriesId }, 'Content series removed or disabled, skipping');
+          return nothingPosted();
+        }
+        brief = { topic: series.theme, contentType: series.contentType };
+      }
+
+      // Step 3: Apply the content calendar. Blackouts stop everything;
+      // posting windows only hold back the regular cadence, which waits
+      // for the next window (ticks missed meanwhile collapse into one post)
+      const calendar = parseContentCalendar(
+        await prisma.agentContentCalendar.findUnique({ where: { agentId } }),
       );
+      const now = new Date();
+
+      const blackout = activeBlackout(calendar, now);
+      if (blackout) {
+        logger.info({ agentId, until: blackout.end, reason: blackout.reason }, 'In a blackout period, skipping cycle');
+        await settleScheduledPost(scheduledPostId, {
+          status: 'SKIPPED',
+          errorMessage: blackout.reason ? `Blackout: ${blackout.reason}` : 'Blackout',
+        });
+        return nothingPosted();
+      }
 
-      // Step 3: Wait for content generation to complete
-      const contentResult = await contentJob.waitUntilFinished(contentEvents, 120_000) as {
-        agentId: string;
-        text: string;
-        mediaUrl?: string;
-        contentType: string;
-        parts?: string[];
-      };
+      if (!seriesId && !scheduledPostId && !isWithinPostingWindow(calendar, now)) {
+        const opensAt = job.data.deferred ? null : nextWindowStart(calendar, now);
+        if (opensAt) {
+          await schedulerQueue.add(
+            'generate-and-post',
+            { agentId, strategy, scheduledAt: now.toISOString(), deferred: true },
+            { jobId: `deferred-${agentId}-${opensAt.getTime()}`, delay: opensAt.getTime() - now.getTime() },
+          );
+        }
+        logger.info({ agentId, opensAt: opensAt?.toISOString() ?? null }, 'Outside posting windows, deferred');
+        return nothingPosted();
+      }
 
-      logger.info(
-        { agentId, contentType: contentResult.contentType, hasMedia: !!contentResult.mediaUrl },
-        'Content generated, dispatching to Farcaster',
+      // Adaptive agents hold a cadence post for an hour that has earned
+      // more engagement, as long as it lands before the next one is due.
+      // Cron cadences are the creator's own choice of times and stay put
+      if (!seriesId && !scheduledPostId && !job.data.deferred && !calendar.cron && contentStrategy.hourWeights) {
+        const delayHours = postingDelayHours(
+          contentStrategy.hourWeights,
+          Math.floor(localClock(now, calendar.timezone).minutes / 60),
+          Math.floor(strategySchedule(contentStrategy).intervalMs / HOUR_MS),
+          (offset) => {
+            const at = new Date(now.getTime() + offset * HOUR_MS);
+            return isWithinPostingWindow(calendar, at) && !activeBlackout(calendar, at);
+          },
+        );
+        if (delayHours > 0) {
+          const postAt = now.getTime() + delayHours * HOUR_MS;
+          await schedulerQueue.add(
+            'generate-and-post',
+            { agentId, strategy, scheduledAt: now.toISOString(), deferred: true },
+            { jobId: `deferred-${agentId}-${postAt}`, delay: postAt - now.getTime() },
+          );
+          logger.info({ agentId, delayHours }, 'Held for a better posting hour');
+          return nothingPosted();
+        }
+      }
+
+      if (seriesId) {
+        await prisma.contentSeries.update({ where: { id: seriesId }, data: { lastRunAt: now } });
+      }
+
+      // Step 4: Generate content, unless the post was written ahead
+      let contentResult: GeneratedPost;
+      if (prewritten) {
+        contentResult = prewritten;
+      } else {
+        logger.info({ agentId }, 'Dispatching content generation');
+        const contentJob = await contentQueue.add(
+          'generate-content',
+          {
+            agentId,
+            agentName: agent.name,
+            agentPersona: persona,
+            contentType: brief.contentType ?? 'auto',
+            strategy: contentStrategy,
+            topic: brief.topic,
+          },
+          { priority: 1 },
+        );
+
+        contentResult = await contentJob.waitUntilFinished(contentEvents, 120_000) as GeneratedPost;
+      }
+      contentResult.channelId = selectChannel(contentStrategy, contentResult.topic);
+
+      // Step 5: Moderate — rewrites are published as rewritten, blocked
+      // content waits in the creator's review queue
+      const moderation = await moderator.moderate(
+        { agentId, persona },
+        { text: contentResult.text, parts: contentResult.parts },
       );
 
-      // Step 4: Queue posting job with real data
-      const postingJob = await postingQueue.add(
-        'publish-to-farcaster',
-        {
+      const record = await prisma.contentModeration.create({
+        data: {
           agentId,
-          signerUuid: agent.signerUuid,
-          text: contentResult.text,
+          verdict: moderation.verdict,
+          reasons: moderation.findings.map((f) => ({ ...f })),
+          originalText: contentResult.parts?.join('\n\n') ?? contentResult.text,
+          text: moderation.text,
+          parts: moderation.parts ?? [],
           mediaUrl: contentResult.mediaUrl,
           contentType: contentResult.contentType,
-          parts: contentResult.parts,
+          promptTemplate: contentResult.promptTemplate,
+          promptVersion: contentResult.promptVersion,
+          reviewStatus: moderation.verdict === 'BLOCK' ? 'PENDING' : null,
         },
-      );
-
-      // Step 5: Wait for posting to complete
-      const postingEvents = new QueueEvents(POSTING_QUEUE_NAME, {
-        connection: connection.duplicate(),
       });
 
-      try {
-        const postingResult = await postingJob.waitUntilFinished(postingEvents, 60_000) as {
-          agentId: string;
-          casts: Array<{ hash: string; text: string }>;
-          publishedAt: string;
-        };
-
-        const castHashes = postingResult.casts?.map((c) => c.hash) ?? [];
-
-        // Step 6: Store casts in database
-        for (const cast of postingResult.casts ?? []) {
-          await prisma.cast.create({
-            data: {
-              agentId,
-              content: cast.text,
-              hash: cast.hash,
-              type: contentResult.contentType === 'thread' ? 'THREAD' : contentResult.contentType === 'media' ? 'MEDIA' : 'ORIGINAL',
-              publishedAt: new Date(),
-              mediaUrl: contentResult.mediaUrl,
-            },
-          });
-        }
-
-        logger.info(
-          { agentId, castCount: castHashes.length, hashes: castHashes },
-          'Autonomous cycle complete — posted to Farcaster',
+      if (moderation.verdict === 'BLOCK') {
+        logger.warn(
+          { agentId, moderationId: record.id, reasons: moderation.findings.map((f) => f.reason) },
+          'Content blocked by moderation, held for creator review',
         );
+        await settleScheduledPost(scheduledPostId, {
+          status: 'FAILED',
+          errorMessage: 'Blocked by moderation; held in the review queue',
+        });
+        return nothingPosted();
+      }
 
-        return {
-          agentId,
-          castHashes,
-          publishedAt: postingResult.publishedAt,
-        };
-      } finally {
-        await postingEvents.close();
+      // Step 6: Supervised agents hold the post for the creator; the draft
+      // publisher worker posts it once approved
+      const draftId = await drafts.holdIfSupervised({
+        agentId,
+        kind: moderation.parts && moderation.parts.length > 1 ? 'THREAD' : 'CAST',
+        text: moderation.text,
+        parts: moderation.parts,
+        mediaUrl: contentResult.mediaUrl,
+        contentType: contentResult.contentType,
+        context: {
+          strategy,
+          moderationId: record.id,
+          verdict: moderation.verdict,
+          seriesId,
+          scheduledPostId,
+          channelId: contentResult.channelId,
+          topic: contentResult.topic,
+        },
+        promptTemplate: contentResult.promptTemplate ?? undefined,
+        promptVersion: contentResult.promptVersion ?? undefined,
+      });
+      if (draftId) {
+        logger.info({ agentId, draftId }, 'Content held as draft for creator approval');
+        await settleScheduledPost(scheduledPostId, { status: 'DRAFTED' });
+        return nothingPosted();
       }
+
+      logger.info(
+        {
+          agentId,
+          contentType: contentResult.contentType,
+          hasMedia: !!contentResult.mediaUrl,
+          channelId: contentResult.channelId,
+          verdict: moderation.verdict,
+        },
+        'Content generated, dispatching to Farcaster',
+      );
+
+      const result = await publish(agentId, agent.signerUuid, {
+        ...contentResult,
+        text: moderation.text,
+        parts: moderation.parts,
+      });
+
+      await prisma.contentModeration.update({
+        where: { id: record.id },
+        data: { castHashes: result.castHashes },
+      });
+      await settleScheduledPost(scheduledPostId, {
+        status: 'PUBLISHED',
+        castHashes: result.castHashes,
+        publishedAt: new Date(),
+      });
+
+      return result;
     },
     {
       connection: connection.duplicate(),
@@ -203,6 +388,170 @@ export function createSchedulerWorker(
     },
   );
 
+  /**
+   * Record how a one-off scheduled post ended, if the job was for one.
+   */
+  async function settleScheduledPost(
+    scheduledPostId: string | undefined,
+    data: Prisma.ScheduledPostUpdateManyMutationInput,
+  ): Promise<void> {
+    if (!scheduledPostId) return;
+    await prisma.scheduledPost.updateMany({
+      where: { id: scheduledPostId, status: 'SCHEDULED' },
+      data,
+    });
+  }
+
+  /**
+   * Queue a post on `farcaster-posting`, wait for it and store the casts.
+   * Thread parts are stored as linked casts. A thread that fails partway,
+   * after the posting job used up its retries, keeps the parts that went
+   * up and fails the cycle for good — retrying it would post a new thread.
+   */
+  async function publish(
+    agentId: string,
+    signerUuid: string,
+    post: GeneratedPost,
+  ): Promise<SchedulerJobResult> {
+    const isThread = !!post.parts && post.parts.length > 1;
+    const postingJob = await postingQueue.add(
+      'publish-to-farcaster',
+      {
+        agentId,
+        signerUuid,
+        text: post.text,
+        mediaUrl: post.mediaUrl,
+        contentType: post.contentType,
+        parts: post.parts,
+        channelId: post.channelId,
+      },
+    );
+
+    const postingEvents = new QueueEvents(POSTING_QUEUE_NAME, {
+      connection: connection.duplicate(),
+    });
+
+    try {
+      let postingResult: PostedCasts;
+      try {
+        postingResult = await postingJob.waitUntilFinished(
+          postingEvents,
+          isThread ? THREAD_POSTING_TIMEOUT_MS : POSTING_TIMEOUT_MS,
+        ) as PostedCasts;
+      } catch (error) {
+        const failed = await postingQueue.getJob(postingJob.id!);
+        const posted: PostedCast[] = failed?.data.posted ?? [];
+        if (posted.length === 0) throw error;
+
+        await recordCasts(agentId, post, posted);
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          { agentId, postedParts: posted.length, partCount: post.parts?.length, error: message },
+          'Thread failed partway, keeping the parts already posted',
+        );
+        throw new UnrecoverableError(
+          `Thread failed after ${posted.length} of ${post.parts?.length ?? 1} parts: ${message}`,
+        );
+      }
+
+      const castHashes = await recordCasts(agentId, post, postingResult.casts ?? []);
+
+      logger.info(
+        { agentId, castCount: castHashes.length, hashes: castHashes },
+        'Posted to Farcaster',
+      );
+
+      return {
+        agentId,
+        castHashes,
+        publishedAt: postingResult.publishedAt,
+      };
+    } finally {
+      await postingEvents.close();
+    }
+  }
+
+  /**
+   * Store the casts of a post, linking thread parts to the part before and
+   * the opening cast. Returns their hashes in order.
+   */
+  async function recordCasts(agentId: string, post: GeneratedPost, casts: PostedCast[]): Promise<string[]> {
+    const castHashes = casts.map((c) => c.hash);
+    const isThread = !!post.parts && post.parts.length > 1;
+
+    for (const [index, cast] of casts.entries()) {
+      await prisma.cast.create({
+        data: {
+          agentId,
+          content: cast.text,
+          hash: cast.hash,
+          type: post.contentType === 'thread' ? 'THREAD' : post.contentType === 'media' ? 'MEDIA' : 'ORIGINAL',
+          publishedAt: new Date(),
+          // Images and the channel go out with the opening cast only
+          mediaUrl: index === 0 ? post.mediaUrl : undefined,
+          promptTemplate: post.promptTemplate,
+          promptVersion: post.promptVersion,
+          // The post as a whole, for strategy tuning: on its first cast only
+          contentType: index === 0 ? post.contentType : null,
+          topic: index === 0 ? post.topic : null,
+          ...(isThread ? threadLinks(castHashes, index) : {}),
+        },
+      });
+    }
+
+    return castHashes;
+  }
+
+  /**
+   * Publish blocked content the creator approved from the dashboard.
+   * Each item is claimed (APPROVED → PUBLISHED) before posting so that
+   * overlapping sweeps cannot post it twice; a failed post is released
+   * back to APPROVED for the next sweep.
+   */
+  async function sweepApprovedReviews(): Promise<void> {
+    const approved = await prisma.contentModeration.findMany({
+      where: { reviewStatus: 'APPROVED' },
+      orderBy: { reviewedAt: 'asc' },
+      take: REVIEW_SWEEP_BATCH,
+      include: { agent: { select: { status: true, signerUuid: true } } },
+    });
+
+    for (const item of approved) {
+      const { signerUuid, status } = item.agent;
+      if (status !== 'ACTIVE' || !signerUuid || signerUuid.startsWith('demo-signer-')) continue;
+
+      const claimed = await prisma.contentModeration.updateMany({
+        where: { id: item.id, reviewStatus: 'APPROVED' },
+        data: { reviewStatus: 'PUBLISHED' },
+      });
+      if (claimed.count === 0) continue;
+
+      try {
+        const result = await publish(item.agentId, signerUuid, {
+          text: item.text,
+          parts: item.parts.length > 0 ? item.parts : undefined,
+          mediaUrl: item.mediaUrl ?? undefined,
+          contentType: item.contentType,
+          promptTemplate: item.promptTemplate,
+          promptVersion: item.promptVersion,
+        });
+        await prisma.contentModeration.update({
+          where: { id: item.id },
+          data: { castHashes: result.castHashes },
+        });
+      } catch (error) {
+        await prisma.contentModeration.update({
+          where: { id: item.id },
+          data: { reviewStatus: 'APPROVED' },
+        });
+        logger.error(
+          { moderationId: item.id, agentId: item.agentId, error: error instanceof Error ? error.message : String(error) },
+          'Failed to publish approved content, will retry',
+        );
+      }
+    }
+  }
+
   worker.on('completed', (job) => {
     logger.info({ jobId: job.id, agentId: job.data.agentId }, 'Autonomous cycle completed');
   });
@@ -212,6 +561,11 @@ export function createSchedulerWorker(
       { jobId: job?.id, agentId: job?.data.agentId, error: error.message },
       'Autonomous cycle failed',
     );
+
+    // A one-off post that used up its retries will not come around again
+    if (job?.data.scheduledPostId && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      void settleScheduledPost(job.data.scheduledPostId, { status: 'FAILED', errorMessage: error.message });
+    }
   });
 
   worker.on('error', (error) => {
@@ -223,6 +577,16 @@ export function createSchedulerWorker(
     void performHealthCheck();
   }, HEALTH_CHECK_INTERVAL_MS);
 
+  // Moderation review queue
+  reviewSweepTimer = setInterval(() => {
+    sweepApprovedReviews().catch((error: unknown) => {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Approved review sweep failed',
+      );
+    });
+  }, REVIEW_SWEEP_INTERVAL_MS);
+
   async function performHealthCheck(): Promise<HealthStatus> {
     try {
       const [waiting, active, completed, failed] = await Promise.all([
@@ -272,6 +636,10 @@ export function createSchedulerWorker(
       clearInterval(healthCheckTimer);
       healthCheckTimer = null;
     }
+    if (reviewSweepTimer) {
+      clearInterval(reviewSweepTimer);
+      reviewSweepTimer = null;
+    }
 
     await Promise.allSettled([
       worker.close(),
@@ -0,0 +1,288 @@
+/**
+ * Service Job Acceptance Worker
+ *
+ * Seller-side counterpart of the service executor. The executor only runs
+ * ACCEPTED jobs; this worker decides, for agents running locally, whether
+ * each CREATED job is taken on:
+ *
+ * 1. Load the seller's ServiceAcceptancePolicy (defaults if none saved)
+ * 2. Apply the deterministic rules — deny/allow lists, minimum buyer
+ *    reputation (ERC8004Identity.reputationScore), concurrent job limit
+ * 3. Optionally ask the LLM whether the requirements make sense for the
+ *    offering
+ * 4. Transition CREATED → ACCEPTED, or → REJECTED with the reason, via
+ *    the PATCH API (a rejection queues the escrow refund)
+ *
+ * Jobs over the concurrency limit, and jobs whose LLM review failed to
+ * run, stay CREATED and are reconsidered on the next poll. Sellers already
+ * at their limit are not polled at all, so their backlog never fills the
+ * batch. Policies with `enabled: false` leave every job for the agent's
+ * creator to decide.
+ * Jobs that are never decided are expired by the maintenance worker.
+ *
+ * Runs on a repeatable schedule (every 15 seconds).
+ */
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient } from '@prisma/client';
+import type { Redis } from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import type { LLMClient } from '../src/integrations/llm.js';
+import {
+  DEFAULT_ACCEPTANCE_POLICY,
+  evaluateAcceptanceRules,
+  type AcceptancePolicy,
+} from '../src/core/acceptance-policy.js';
+import { reviewJobRequirements } from '../src/skills/requirements-review.js';
+import { transitionJobStatus, type AgentExecutionContext } from './service-executor.js';
+
+const QUEUE_NAME = 'service-job-acceptance';
+const CONCURRENCY = 1; // Concurrency limits are counted per tick — keep ticks serial
+const BATCH_SIZE = 20; // Max CREATED jobs considered per tick
+
+interface AcceptanceJobData {
+  task: 'review-created-jobs';
+  triggeredAt: string;
+}
+
+interface AcceptanceJobResult {
+  acceptedCount: number;
+  rejectedCount: number;
+  deferredCount: number;
+  processedAt: string;
+}
+
+// ── Worker Factory ───────────────────────────────────────────────────────────
+
+/**
+ * Create the service job acceptance worker and its scheduling queue.
+ *
+ * @param connection - Redis connection for BullMQ
+ * @param llm - LLM client for the optional requirements review
+ * @param getLocalAgents - Callback returning the agents running locally
+ *   (same source as the service executor)
+ * @param apiBaseUrl - The ceos.run API base URL for PATCH calls
+ */
+export function createServiceAcceptanceWorker(
+  connection: Redis,
+  llm: LLMClient,
+  getLocalAgents: () => AgentExecutionContext[],
+  apiBaseUrl: string,
+) {
+  const logger: pino.Logger = rootLogger.child({ module: 'ServiceAcceptance' });
+  const prisma = new PrismaClient();
+
+  const queue = new Queue<AcceptanceJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<AcceptanceJobData, AcceptanceJobResult>(
+    QUEUE_NAME,
+    async (job: Job<AcceptanceJobData>): Promise<AcceptanceJobResult> => {
+      if (job.data.task !== 'review-created-jobs') {
+        logger.warn({ task: job.data.task }, 'Unknown acceptance task');
+        return {
+          acceptedCount: 0,
+          rejectedCount: 0,
+          deferredCount: 0,
+          processedAt: new Date().toISOString(),
+        };
+      }
+
+      return await reviewCreatedJobs(prisma, llm, getLocalAgents, apiBaseUrl, logger);
+    },
+    {
+      connection,
+      concurrency: CONCURRENCY,
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 50 },
+    },
+  );
+
+  worker.on('completed', (job, result) => {
+    if (result.acceptedCount > 0 || result.rejectedCount > 0) {
+      logger.info(
+        {
+          jobId: job.id,
+          accepted: result.acceptedCount,
+          rejected: result.rejectedCount,
+          deferred: result.deferredCount,
+        },
+        'Service acceptance poll completed',
+      );
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error(
+      { jobId: job?.id, error: error.message },
+      'Service acceptance poll failed',
+    );
+  });
+
+  logger.info('Service job acceptance worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Service job acceptance worker shut down');
+    },
+  };
+}
+
+// ── Core Logic ───────────────────────────────────────────────────────────────
+
+/**
+ * Decide every CREATED job of the local agents with room for more work,
+ * oldest first.
+ */
+export async function reviewCreatedJobs(
+  prisma: PrismaClient,
+  llm: LLMClient,
+  getLocalAgents: () => AgentExecutionContext[],
+  apiBaseUrl: string,
+  logger: pino.Logger,
+): Promise<AcceptanceJobResult> {
+  const result: AcceptanceJobResult = {
+    acceptedCount: 0,
+    rejectedCount: 0,
+    deferredCount: 0,
+    processedAt: new Date().toISOString(),
+  };
+
+  const localAgents = getLocalAgents();
+  if (localAgents.length === 0) return result;
+
+  const agentMap = new Map(localAgents.map((a) => [a.agentId, a]));
+  const localAgentIds = [...agentMap.keys()];
+
+  const [policies, activeCounts] = await Promise.all([
+    prisma.serviceAcceptancePolicy.findMany({
+      where: { agentId: { in: localAgentIds } },
+    }),
+    prisma.serviceJob.groupBy({
+      by: ['sellerAgentId'],
+      where: { sellerAgentId: { in: localAgentIds }, status: { in: ['ACCEPTED', 'DELIVERING'] } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const policyMap = new Map<string, AcceptancePolicy>(policies.map((p) => [p.agentId, p]));
+  // Updated as jobs are accepted this tick so the limit holds within a batch
+  const activeJobs = new Map(activeCounts.map((c) => [c.sellerAgentId, c._count._all]));
+
+  // Sellers that would defer every job — disabled policy or at their
+  // concurrency limit — are left out of the batch, so their waiting jobs
+  // cannot crowd out other sellers' jobs
+  const sellerIds = localAgentIds.filter((agentId) => {
+    const policy = policyMap.get(agentId) ?? DEFAULT_ACCEPTANCE_POLICY;
+    return policy.enabled && (activeJobs.get(agentId) ?? 0) < policy.maxConcurrentJobs;
+  });
+  if (sellerIds.length === 0) return result;
+
+  const createdJobs = await prisma.serviceJob.findMany({
+    where: {
+      sellerAgentId: { in: sellerIds },
+      status: 'CREATED',
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      sellerAgentId: true,
+      buyerAgentId: true,
+      requirements: true,
+      offering: { select: { name: true, category: true, description: true } },
+      buyerAgent: { select: { identity: { select: { reputationScore: true } } } },
+      sellerAgent: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const job of createdJobs) {
+    const agentCtx = agentMap.get(job.sellerAgentId);
+    if (!agentCtx) continue;
+
+    const policy = policyMap.get(job.sellerAgentId) ?? DEFAULT_ACCEPTANCE_POLICY;
+
+    let decision = evaluateAcceptanceRules(policy, {
+      buyerAgentId: job.buyerAgentId,
+      buyerReputation: job.buyerAgent.identity?.reputationScore ?? null,
+      activeJobs: activeJobs.get(job.sellerAgentId) ?? 0,
+    });
+
+    if (decision.action === 'review') {
+      try {
+        const review = await reviewJobRequirements(llm, {
+          agentId: job.sellerAgentId,
+          agentName: job.sellerAgent.name,
+          offering: job.offering,
+          requirements: (job.requirements ?? {}) as Record<string, unknown>,
+          instructions: policy.llmReviewInstructions,
+        });
+        decision = review.acceptable
+          ? { action: 'accept' }
+          : { action: 'reject', reason: `Requirements review: ${review.reason}` };
+      } catch (err) {
+        decision = { action: 'defer', reason: 'Requirements review failed' };
+        logger.warn(
+          { jobId: job.id, error: err instanceof Error ? err.message : String(err) },
+          'LLM requirements review failed — retrying next poll',
+        );
+      }
+    }
+
+    if (decision.action === 'defer') {
+      result.deferredCount++;
+      logger.debug({ jobId: job.id, reason: decision.reason }, 'Service job acceptance deferred');
+      continue;
+    }
+
+    const accept = decision.action === 'accept';
+    const reason = decision.action === 'reject' ? decision.reason : undefined;
+
+    const ok = await transitionJobStatus(
+      apiBaseUrl,
+      job.id,
+      accept ? 'ACCEPTED' : 'REJECTED',
+      agentCtx.walletAddress,
+      undefined,
+      logger,
+      reason,
+    );
+    if (!ok) continue;
+
+    if (accept) {
+      result.acceptedCount++;
+      activeJobs.set(job.sellerAgentId, (activeJobs.get(job.sellerAgentId) ?? 0) + 1);
+    } else {
+      result.rejectedCount++;
+    }
+
+    logger.info(
+      { jobId: job.id, sellerAgentId: job.sellerAgentId, buyerAgentId: job.buyerAgentId, accept, reason },
+      accept ? 'Service job accepted by policy' : 'Service job rejected by policy',
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Schedule the repeatable acceptance poll job.
+ * Call this during runtime bootstrap.
+ */
+export async function scheduleServiceAcceptance(queue: Queue): Promise<void> {
+  await queue.add(
+    'review-created-jobs',
+    { task: 'review-created-jobs', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'service-acceptance-repeatable',
+      repeat: { every: 15_000 }, // Every 15 seconds
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    },
+  );
+}
@@ -7,9 +7,13 @@
  * Flow:
  *   1. Poll for ACCEPTED jobs assigned to locally-running agents
  *   2. Transition job → DELIVERING (signal work has begun)
- *   3. Route the job's `requirements.capability` to the SkillExecutor
- *   4. On success → transition to COMPLETED with deliverables JSON
- *   5. On failure → transition to DISPUTED with error context
+ *   3. Route the job's `requirements.capability` to the SkillExecutor,
+ *      forwarding the skill's progress reports to the job's event timeline
+ *   4. Validate the skill output against the offering's outputSchema
+ *   5. On success → transition to COMPLETED with deliverables JSON
+ *   6. On failure or schema violation → transition to DISPUTED with error
+ *      context, which opens a dispute (auto-refunded for timeouts, skill
+ *      errors and schema violations)
  *
  * The executor uses the seller agent's wallet to authenticate API calls
  * via the ServiceClient, ensuring sovereignty: the agent itself (not
@@ -17,21 +21,34 @@
  *
  * Design Decisions:
  * - DISPUTED (not FAILED) for errors: The ServiceJobStatus enum doesn't
- *   include FAILED. DISPUTED is the correct terminal state when execution
+ *   include FAILED. DISPUTED is the correct state when execution
  *   fails after acceptance — it signals to the buyer that resolution is needed.
- * - SkillExecutor routing: Jobs are routed via `requirements.capability` to
- *   the registered skill system. This makes the executor pluggable: register
- *   new skills and the executor automatically handles new job types.
+ *   Reputation for disputed jobs follows the dispute verdict, applied by
+ *   the service-job maintenance worker.
+ * - SkillExecutor routing: Jobs are routed via `requirements.capability`
+ *   (or the offering's declared capability tags) to the registered skill
+ *   that declares that tag. This makes the executor pluggable: register
+ *   new skills with their tags and the executor handles new job types.
  * - Batch polling (not event-driven): Repeatable BullMQ job every 15 seconds.
  *   This is simpler than webhooks and resilient to missed events.
+ * - Spend budgets: jobs of a seller whose budget refuses LLM calls are left
+ *   ACCEPTED rather than started and then disputed. They run once the
+ *   budget window resets, or expire and refund the buyer.
  */
 import { Worker, Queue, type Job } from 'bullmq';
 import { Prisma, PrismaClient, type ServiceJobStatus } from '@prisma/client';
 import type { Redis } from 'ioredis';
 import pino from 'pino';
+import { validateJsonSchema, type SchemaViolation } from '@ceosrun/shared/utils/json-schema';
 import { logger as rootLogger } from '../src/config.js';
-import { SkillExecutor, type SkillContext } from '../src/core/skill-executor.js';
+import {
+  SkillExecutor,
+  type SkillContext,
+  type SkillProgressEvent,
+} from '../src/core/skill-executor.js';
 import { anchorJobCompletion } from '../src/services/reputation-anchor.js';
+import type { BudgetStatus, SpendLedger } from '../src/core/spend-ledger.js';
+import { readPromptRef } from '../src/core/prompt-registry.js';
 
 const QUEUE_NAME = 'service-job-executor';
 const CONCURRENCY = 3; // Execute up to 3 jobs in parallel
@@ -44,6 +61,12 @@ interface ExecutorJobData {
   triggeredAt: string;
 }
 
+/**
+ * Why an execution ended in DISPUTED. Recorded on the error deliverables
+ * so dispute auto-resolution can tell a broken contract from a crash.
+ */
+type FailureReason = 'skill_failed' | 'output_schema_violation';
+
 interface ExecutorJobResult {
   executedCount: number;
   failedCount: number;
@@ -72,12 +95,14 @@ interface AgentExecutionContext {
  *   whose jobs we should execute. The executor only picks up jobs for agents
  *   that are actively running in THIS runtime instance.
  * @param apiBaseUrl - The ceos.run API base URL for PATCH calls
+ * @param ledger - Spend ledger; jobs of sellers over a REFUSE budget wait
  */
 export function createServiceExecutorWorker(
   connection: Redis,
   skillExecutor: SkillExecutor,
   getLocalAgents: () => AgentExecutionContext[],
   apiBaseUrl: string,
+  ledger?: SpendLedger,
 ) {
   const logger: pino.Logger = rootLogger.child({ module: 'ServiceExecutor' });
   const prisma = new PrismaClient();
@@ -92,7 +117,14 @@ export function createServiceExecutorWorker(
         return { executedCount: 0, failedCount: 0, processedAt: new Date().toISOString() };
       }
 
-      return await pollAndExecuteJobs(prisma, skillExecutor, getLocalAgents, apiBaseUrl, logger);
+      return await pollAndExecuteJobs(
+        prisma,
+        skillExecutor,
+        getLocalAgents,
+        apiBaseUrl,
+        logger,
+        ledger ?? null,
+      );
     },
     {
       connection,
@@ -149,6 +181,7 @@ async function pollAndExecuteJobs(
   getLocalAgents: () => AgentExecutionContext[],
   apiBaseUrl: string,
   logger: pino.Logger,
+  ledger: SpendLedger | null,
 ): Promise<ExecutorJobResult> {
   const localAgents = getLocalAgents();
 
@@ -168,7 +201,16 @@ async function pollAndExecuteJobs(
     },
     include: {
       offering: {
-        select: { slug: true, name: true, category: true, maxLatencyMs: true },
+        select: {
+          slug: true,
+          name: true,
+          category: true,
+          capabilities: true,
+          maxLatencyMs: true,
+          outputSchema: true,
+          priceUsdc: true,
+          pricingModel: true,
+        },
       },
     },
     orderBy: { createdAt: 'asc' }, // FIFO — oldest first
@@ -186,12 +228,28 @@ async function pollAndExecuteJobs(
 
   let executedCount = 0;
   let failedCount = 0;
+  const budgets = new Map<string, BudgetStatus>();
 
   // Execute jobs sequentially to avoid overwhelming the skill executor
   for (const job of acceptedJobs) {
     const agentCtx = agentMap.get(job.sellerAgentId);
     if (!agentCtx) continue; // Safety check
 
+    if (ledger) {
+      let budget = budgets.get(job.sellerAgentId);
+      if (!budget) {
+        budget = await ledger.getStatus(job.sellerAgentId);
+        budgets.set(job.sellerAgentId, budget);
+      }
+      if (budget.state === 'refuse') {
+        logger.info(
+          { jobId: job.id, agentId: job.sellerAgentId, reason: budget.reason },
+          'Seller spend budget exhausted, leaving job ACCEPTED',
+        );
+        continue;
+      }
+    }
+
     try {
       const success = await executeServiceJob(
         prisma,
@@ -229,7 +287,8 @@ async function pollAndExecuteJobs(
 
 /**
  * Execute a single service job through the full lifecycle:
- * ACCEPTED → DELIVERING → COMPLETED (or DISPUTED on failure).
+ * ACCEPTED → DELIVERING → COMPLETED (or DISPUTED on failure or when the
+ * output breaks the offering's outputSchema).
  *
  * @returns true if job completed successfully, false on failure
  */
@@ -241,7 +300,16 @@ async function executeServiceJob(
     sellerAgentId: string;
     requirements: unknown;
     priceUsdc: bigint;
-    offering: { slug: string; name: string; category: string; maxLatencyMs: number };
+    offering: {
+      slug: string;
+      name: string;
+      category: string;
+      capabilities: string[];
+      maxLatencyMs: number;
+      outputSchema: unknown;
+      priceUsdc: bigint;
+      pricingModel: string;
+    };
   },
   agentCtx: AgentExecutionContext,
   apiBaseUrl: string,
@@ -279,7 +347,18 @@ async function executeServiceJob(
   const requirements = job.requirements as Record<string, unknown>;
   const capability = (requirements.capability as string) ?? job.offering.category;
 
+  // Progress events are posted one at a time so they keep the order the
+  // skill reported them in; the chain is drained before settling, since
+  // the API only accepts events while the job is DELIVERING.
+  let pendingEvents: Promise<unknown> = Promise.resolve();
+  const reportProgress = (event: SkillProgressEvent) => {
+    pendingEvents = pendingEvents.then(() =>
+      postJobEvent(apiBaseUrl, jobId, agentCtx.walletAddress, event, logger),
+    );
+  };
+
   // Build the skill context from the job's requirements
+  const isMetered = job.offering.pricingModel === 'metered';
   const skillContext: SkillContext = {
     agentId: agentCtx.agentId,
     agentPersona: agentCtx.persona,
@@ -288,22 +367,28 @@ async function executeServiceJob(
       jobId,
       offeringSlug: job.offering.slug,
       offeringCategory: job.offering.category,
+      // Metered: the units the buyer pre-authorized — usage above this is not paid
+      ...(isMetered && job.offering.priceUsdc > 0n && {
+        maxUnits: Number(job.priceUsdc / job.offering.priceUsdc),
+      }),
     },
+    reportProgress,
   };
 
   // Determine skill to execute:
   // 1. Explicit skillId in requirements
-  // 2. Capability name as skill ID
+  // 2. Skill declaring the requested (or offering's) capability tag
   // 3. Category name as skill ID
   // 4. Fallback to 'content-generation' (the most common skill)
   const skillId =
     (requirements.skillId as string) ??
-    resolveSkillId(capability, skillExecutor);
+    resolveSkillId(capability, job.offering.capabilities, skillExecutor);
 
   logger.info(
     { jobId, capability, skillId },
     'Routing job to skill executor',
   );
+  reportProgress({ type: 'log', message: `Started ${skillId}` });
 
   const timeoutMs = Math.min(
     job.offering.maxLatencyMs,
@@ -316,16 +401,41 @@ async function executeServiceJob(
   );
 
   const executionTimeMs = Date.now() - startTime;
+  await pendingEvents;
+
+  // ── Step 3: Enforce the output contract ─────────────────────────────────
+  //
+  // Buyers pay for output in the shape the offering advertises. A skill
+  // that returns something else is treated as a failed delivery. Metered
+  // offerings bill the `usage.units` the skill reports, so those are part
+  // of the contract too.
+  const usageUnits = isMetered ? readUsageUnits(result.output) : null;
+  const schemaViolations: SchemaViolation[] = result.success
+    ? [
+        ...validateJsonSchema(job.offering.outputSchema, result.output),
+        ...(isMetered && usageUnits === null
+          ? [{ path: 'usage.units', message: 'Metered offerings must report a non-negative number of units' }]
+          : []),
+      ]
+    : [];
+
+  if (schemaViolations.length > 0) {
+    logger.warn(
+      { jobId, skillId, violations: schemaViolations },
+      'Skill output violates the offering outputSchema — not completing job',
+    );
+  }
 
-  // ── Step 3: Settle the job ───────────────────────────────────────────────
+  // ── Step 4: Settle the job ───────────────────────────────────────────────
 
-  if (result.success) {
+  if (result.success && schemaViolations.length === 0) {
     // Build deliverables from skill output
     const deliverables = {
       output: result.output,
       executionTimeMs: result.executionTimeMs,
       skillId: result.skillId,
       completedAt: new Date().toISOString(),
+      ...(usageUnits !== null && { usage: { units: usageUnits } }),
     };
 
     const completionSuccess = await transitionJobStatus(
@@ -378,7 +488,7 @@ async function executeServiceJob(
 
     // Edge case: skill succeeded but PATCH failed.
     // The deliverables are lost but the job remains in DELIVERING.
-    // The maintenance worker will eventually expire it.
+    // The maintenance worker expires it at its TTL and refunds the buyer.
     logger.error(
       { jobId, executionTimeMs },
       'Skill succeeded but failed to transition to COMPLETED',
@@ -389,66 +499,36 @@ async function executeServiceJob(
   // ── Failure path: transition to DISPUTED ─────────────────────────────────
   //
   // The ServiceJobStatus enum doesn't include FAILED. DISPUTED is the
-  // appropriate terminal state when execution fails after acceptance.
-  // The buyer can then request a refund or re-negotiate.
+  // appropriate state when execution fails after acceptance. The PATCH
+  // route opens a dispute and auto-resolves clear-cut failures (timeout,
+  // skill error, outputSchema violation) with a refund; anything else
+  // waits for an arbiter.
   //
-  // Note: DISPUTED is a terminal state in the VALID_TRANSITIONS map,
-  // but the PATCH endpoint only allows seller-driven transitions.
-  // We need to handle this server-side — see the route update.
+  // The decision log is recorded first so the dispute captures it as
+  // evidence. Reputation is applied by the maintenance worker once the
+  // dispute has a verdict, not here.
+
+  const failureReason: FailureReason =
+    schemaViolations.length > 0 ? 'output_schema_violation' : 'skill_failed';
 
   const errorDeliverables = {
     error: result.output,
     executionTimeMs: result.executionTimeMs,
     skillId: result.skillId,
     failedAt: new Date().toISOString(),
-    reason: 'Skill execution failed or timed out',
+    failureReason,
+    reason: failureReason === 'output_schema_violation'
+      ? 'Skill output does not match the offering outputSchema'
+      : 'Skill execution failed or timed out',
+    ...(schemaViolations.length > 0 && { violations: schemaViolations }),
   };
 
-  // Attempt to transition to DISPUTED for error visibility.
-  // If the route doesn't support DELIVERING → DISPUTED, log the error.
-  const disputeSuccess = await transitionJobStatus(
-    apiBaseUrl,
-    jobId,
-    'DISPUTED',
-    agentCtx.walletAddress,
-    errorDeliverables,
-    logger,
-  );
-
-  if (!disputeSuccess) {
-    // Fallback: write error context directly to the job's deliverables
-    // so it's not silently lost. The job stays in DELIVERING until
-    // the maintenance worker expires it or manual intervention.
-    try {
-      await prisma.serviceJob.update({
-        where: { id: jobId },
-        data: {
-          deliverables: errorDeliverables as unknown as Prisma.InputJsonValue,
-        },
-      });
-    } catch (dbErr) {
-      logger.error(
-        { jobId, error: dbErr instanceof Error ? dbErr.message : String(dbErr) },
-        'Failed to persist error deliverables — error context lost',
-      );
-    }
-  }
-
-  logger.warn(
-    {
-      jobId,
-      agentId: agentCtx.agentId,
-      skillId,
-      executionTimeMs,
-      error: result.output,
-    },
-    'Service job execution failed — transitioned to DISPUTED',
-  );
-
   // ── Glass Box: RLAIF telemetry for failed execution ────────────
-  const errorMsg = typeof result.output === 'object' && result.output !== null
-    ? (result.output as Record<string, unknown>).error as string | undefined
-    : String(result.output);
+  const errorMsg = failureReason === 'output_schema_violation'
+    ? `outputSchema violation: ${schemaViolations.map((v) => `${v.path || '(root)'} ${v.message}`).join('; ')}`
+    : typeof result.output === 'object' && result.output !== null
+      ? (result.output as Record<string, unknown>).error as string | undefined
+      : String(result.output);
 
   await recordDecisionLog(prisma, {
     jobId,
@@ -462,6 +542,54 @@ async function executeServiceJob(
     errorMessage: errorMsg ?? 'Skill execution failed or timed out',
   }, logger);
 
+  const disputeSuccess = await transitionJobStatus(
+    apiBaseUrl,
+    jobId,
+    'DISPUTED',
+    agentCtx.walletAddress,
+    errorDeliverables,
+    logger,
+  );
+
+  if (disputeSuccess) {
+    logger.warn(
+      {
+        jobId,
+        agentId: agentCtx.agentId,
+        skillId,
+        executionTimeMs,
+        failureReason,
+        error: result.output,
+      },
+      'Service job execution failed — transitioned to DISPUTED',
+    );
+    return false;
+  }
+
+  // Fallback: write error context directly to the job's deliverables
+  // so it's not silently lost. The job stays in DELIVERING until the
+  // maintenance worker expires it at its TTL (refunding the buyer), so
+  // no dispute verdict will ever score it — apply the raw failure
+  // penalty now instead.
+  try {
+    await prisma.serviceJob.update({
+      where: { id: jobId },
+      data: {
+        deliverables: errorDeliverables as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (dbErr) {
+    logger.error(
+      { jobId, error: dbErr instanceof Error ? dbErr.message : String(dbErr) },
+      'Failed to persist error deliverables — error context lost',
+    );
+  }
+
+  logger.warn(
+    { jobId, agentId: agentCtx.agentId, skillId, executionTimeMs },
+    'Service job execution failed and could not be disputed — applying failure penalty',
+  );
+
   // ── Hash & Anchor: reputation penalty + provenance hash ────────
   await anchorJobCompletion(
     prisma,
@@ -484,7 +612,8 @@ async function executeServiceJob(
  * This captures the full "thought process" of an agent: what it was asked
  * (prompt), what it produced (response), and how it performed. This data is
  * our institutional moat — cryptographically pure agent behavioral data
- * that institutions pay premium prices for.
+ * that institutions pay premium prices for. Skills that generate from the
+ * prompt registry report the template version in `output.prompt`.
  *
  * Wrapped in try/catch so telemetry failures never crash the worker.
  */
@@ -503,6 +632,8 @@ async function recordDecisionLog(
   },
   logger: pino.Logger,
 ): Promise<void> {
+  const promptRef = readPromptRef(log.response);
+
   try {
     await prisma.agentDecisionLog.create({
       data: {
@@ -515,6 +646,8 @@ async function recordDecisionLog(
         executionTimeMs: log.executionTimeMs,
         isSuccess: log.isSuccess,
         errorMessage: log.errorMessage,
+        promptTemplate: promptRef?.template ?? null,
+        promptVersion: promptRef?.version ?? null,
       },
     });
 
@@ -536,27 +669,34 @@ async function recordDecisionLog(
 }
 
 /**
- * Resolve a capability string to the best matching registered skill ID.
+ * Resolve a capability to the best matching registered skill ID.
  *
  * Priority:
  * 1. Exact match on skill ID
- * 2. Partial match (capability contains skill ID or vice versa)
+ * 2. Skill declaring the requested capability tag, then the tags the
+ *    offering declares (in order)
  * 3. Category-based fallback (content → content-generation, etc.)
  * 4. Default: 'content-generation'
+ *
+ * No substring matching — a skill must declare a tag to be routed by it.
  */
-function resolveSkillId(capability: string, skillExecutor: SkillExecutor): string {
+function resolveSkillId(
+  capability: string,
+  offeringCapabilities: string[],
+  skillExecutor: SkillExecutor,
+): string {
   const skills = skillExecutor.getRegisteredSkills();
-  const capLower = capability.toLowerCase();
+  const capLower = capability.trim().toLowerCase().replace(/[\s_]+/g, '-');
 
   // 1. Exact match
   const exact = skills.find((s) => s.id === capLower);
   if (exact) return exact.id;
 
-  // 2. Partial match (either direction)
-  const partial = skills.find(
-    (s) => capLower.includes(s.id) || s.id.includes(capLower),
-  );
-  if (partial) return partial.id;
+  // 2. Declared capability tags
+  for (const tag of [capLower, ...offeringCapabilities]) {
+    const tagged = skills.find((s) => s.capabilities?.includes(tag));
+    if (tagged) return tagged.id;
+  }
 
   // 3. Category-based mapping
   const categoryMap: Record<string, string> = {
@@ -574,18 +714,31 @@ function resolveSkillId(capability: string, skillExecutor: SkillExecutor): strin
   return firstSkill ? firstSkill.id : 'content-generation';
 }
 
+/**
+ * Units a metered skill reported in `output.usage.units`, or null.
+ */
+function readUsageUnits(output: unknown): number | null {
+  const usage = (output as { usage?: { units?: unknown } } | null)?.usage;
+  const units = typeof usage === 'object' && usage !== null ? usage.units : undefined;
+  return typeof units === 'number' && Number.isFinite(units) && units >= 0 ? units : null;
+}
+
 /**
  * Transition a service job's status via the PATCH API.
  *
- * Uses the seller agent's wallet address for authentication.
+ * Uses the seller agent's wallet address for authentication. Also used
+ * by the acceptance worker for CREATED → ACCEPTED/REJECTED.
+ *
+ * @param reason - Rejection reason shown to the buyer (REJECTED only)
  */
-async function transitionJobStatus(
+export async function transitionJobStatus(
   apiBaseUrl: string,
   jobId: string,
   newStatus: string,
   walletAddress: string,
   deliverables: Record<string, unknown> | undefined,
   logger: pino.Logger,
+  reason?: string,
 ): Promise<boolean> {
   try {
     const res = await fetch(`${apiBaseUrl}/api/services/jobs/${jobId}`, {
@@ -597,6 +750,7 @@ async function transitionJobStatus(
       body: JSON.stringify({
         status: newStatus,
         ...(deliverables !== undefined && { deliverables }),
+        ...(reason !== undefined && { reason }),
       }),
     });
 
@@ -627,6 +781,45 @@ async function transitionJobStatus(
   }
 }
 
+/**
+ * Append a progress event to a DELIVERING job's timeline via the events
+ * API. Failures are logged and swallowed — progress is informational and
+ * must never fail the job.
+ */
+export async function postJobEvent(
+  apiBaseUrl: string,
+  jobId: string,
+  walletAddress: string,
+  event: SkillProgressEvent,
+  logger: pino.Logger,
+): Promise<boolean> {
+  try {
+    const res = await fetch(`${apiBaseUrl}/api/services/jobs/${jobId}/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-wallet-address': walletAddress,
+      },
+      body: JSON.stringify(event),
+    });
+
+    if (!res.ok) {
+      logger.warn(
+        { jobId, type: event.type, httpStatus: res.status },
+        'Failed to post job event via API',
+      );
+      return false;
+    }
+    return true;
+  } catch (err) {
+    logger.warn(
+      { jobId, type: event.type, error: err instanceof Error ? err.message : String(err) },
+      'Network error posting job event',
+    );
+    return false;
+  }
+}
+
 /**
  * Execute a function with a global timeout.
  * Returns a failed SkillResult on timeout instead of throwing.
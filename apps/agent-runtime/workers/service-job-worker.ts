@@ -3,22 +3,43 @@
  *
  * This BullMQ-powered worker handles automated service job lifecycle tasks:
  * 1. Expire jobs that have exceeded their TTL (CREATED/ACCEPTED → EXPIRED)
- * 2. Future: Dispute resolution, auto-refunds, etc.
+ *    and queue refunds for any payment they hold in escrow
+ * 2. Settle escrow: release approved (or approval-lapsed) payments to the
+ *    seller and refund expired/rejected payments to the buyer
+ * 3. Apply resolved dispute verdicts to the seller agent's reputation
+ * 4. Issue invoices for ended billing periods (ServiceUsagePeriod), built
+ *    from the buyer's WalletTransaction records for the period's jobs
  *
  * Runs on a repeatable schedule (every 60 seconds) to catch expired jobs.
  *
  * V2 Changes:
  * - Removed `failedReason` from EXPIRED update (field no longer exists)
  * - Status update is now the only data written on expiration
+ *
+ * Escrow:
+ * - x402 payments settle into the protocol resource wallet, which is the
+ *   runtime wallet (DEPLOYER_PRIVATE_KEY). Payouts are ERC-20 transfers
+ *   out of it via BaseChainClient.transferUsdc.
+ * - Without a BaseChainClient (demo mode / no key), pending settlements
+ *   are left untouched and retried once a wallet is available.
+ * - A partial refund (PARTIAL_REFUND verdict, unused metered units)
+ *   settles in two steps: the refund (REFUND_PENDING → RELEASE_PENDING),
+ *   then the remainder is released.
  */
 import { Worker, Queue, type Job } from 'bullmq';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 import type { Redis } from 'ioredis';
 import pino from 'pino';
 import { logger as rootLogger } from '../src/config.js';
+import type { BaseChainClient } from '../src/integrations/base-chain.js';
+import { anchorJobCompletion } from '../src/services/reputation-anchor.js';
 
 const QUEUE_NAME = 'service-job-maintenance';
 const CONCURRENCY = 1; // Maintenance jobs don't need parallelism
+const ESCROW_BATCH_SIZE = 20; // Max settlements per maintenance tick
+const VERDICT_BATCH_SIZE = 20; // Max dispute verdicts scored per tick
+const INVOICE_BATCH_SIZE = 20; // Max invoices issued per tick
+const PROTOCOL_FEE_BPS = 200n; // 2% retained for $RUN buyback (see jobs/[jobId] route)
 
 interface MaintenanceJobData {
   task: 'expire-overdue-jobs';
@@ -27,15 +48,31 @@ interface MaintenanceJobData {
 
 interface MaintenanceJobResult {
   expiredCount: number;
+  releasedCount: number;
+  refundedCount: number;
+  verdictsApplied: number;
+  invoicesIssued: number;
   processedAt: string;
 }
 
+interface EscrowSettlementResult {
+  releasedCount: number;
+  refundedCount: number;
+}
+
 /**
  * Create the service job maintenance worker and its scheduling queue.
  *
+ * @param connection - Redis connection for BullMQ
+ * @param baseChain - Optional chain client used to pay out escrow.
+ *   When null, escrow settlements stay pending.
+ *
  * Returns the worker, queue, and a shutdown function.
  */
-export function createServiceJobWorker(connection: Redis) {
+export function createServiceJobWorker(
+  connection: Redis,
+  baseChain: BaseChainClient | null = null,
+) {
   const logger: pino.Logger = rootLogger.child({ module: 'ServiceJobWorker' });
   const prisma = new PrismaClient();
 
@@ -46,10 +83,22 @@ export function createServiceJobWorker(connection: Redis) {
     async (job: Job<MaintenanceJobData>): Promise<MaintenanceJobResult> => {
       if (job.data.task !== 'expire-overdue-jobs') {
         logger.warn({ task: job.data.task }, 'Unknown maintenance task');
-        return { expiredCount: 0, processedAt: new Date().toISOString() };
+        return {
+          expiredCount: 0,
+          releasedCount: 0,
+          refundedCount: 0,
+          verdictsApplied: 0,
+          invoicesIssued: 0,
+          processedAt: new Date().toISOString(),
+        };
       }
 
-      return await expireOverdueJobs(prisma, logger);
+      const expired = await expireOverdueJobs(prisma, logger);
+      const settled = await settleEscrows(prisma, baseChain, logger);
+      const verdictsApplied = await applyDisputeVerdicts(prisma, logger);
+      const invoicesIssued = await issueInvoices(prisma, logger);
+
+      return { ...expired, ...settled, verdictsApplied, invoicesIssued };
     },
     {
       connection,
@@ -60,9 +109,22 @@ export function createServiceJobWorker(connection: Redis) {
   );
 
   worker.on('completed', (job, result) => {
-    if (result.expiredCount > 0) {
+    if (
+      result.expiredCount > 0 ||
+      result.releasedCount > 0 ||
+      result.refundedCount > 0 ||
+      result.verdictsApplied > 0 ||
+      result.invoicesIssued > 0
+    ) {
       logger.info(
-        { jobId: job.id, expiredCount: result.expiredCount },
+        {
+          jobId: job.id,
+          expiredCount: result.expiredCount,
+          releasedCount: result.releasedCount,
+          refundedCount: result.refundedCount,
+          verdictsApplied: result.verdictsApplied,
+          invoicesIssued: result.invoicesIssued,
+        },
         'Service job maintenance completed',
       );
     }
@@ -75,7 +137,10 @@ export function createServiceJobWorker(connection: Redis) {
     );
   });
 
-  logger.info('Service job maintenance worker initialized');
+  logger.info(
+    { escrowPayouts: baseChain?.isWalletInitialized() ?? false },
+    'Service job maintenance worker initialized',
+  );
 
   return {
     worker,
@@ -92,44 +157,435 @@ export function createServiceJobWorker(connection: Redis) {
 /**
  * Find and expire all service jobs that have exceeded their TTL.
  *
- * Only jobs in CREATED or ACCEPTED status can be expired.
- * DELIVERING jobs are not expired — the seller is actively working.
+ * Jobs in CREATED, ACCEPTED or DELIVERING status can be expired. The API
+ * refuses to complete a job past its TTL, so a DELIVERING job that outlives
+ * it (the executor crashed, or could not report its result) never will.
+ *
+ * Jobs holding an escrowed payment move to REFUND_PENDING in the same
+ * transaction, so the settlement pass refunds the buyer.
  *
- * V2: No `failedReason` field — only status is updated to EXPIRED.
+ * V2: No `failedReason` field — only status (and escrow) is updated.
  */
-async function expireOverdueJobs(
+export async function expireOverdueJobs(
   prisma: PrismaClient,
   logger: pino.Logger,
-): Promise<MaintenanceJobResult> {
+): Promise<Pick<MaintenanceJobResult, 'expiredCount' | 'processedAt'>> {
   const now = new Date();
+  const expirable: Prisma.ServiceJobWhereInput = {
+    status: { in: ['CREATED', 'ACCEPTED', 'DELIVERING'] },
+    expiresAt: { lt: now },
+  };
 
-  // Find all expirable jobs (CREATED or ACCEPTED with expiresAt in the past)
-  const expiredJobs = await prisma.serviceJob.updateMany({
-    where: {
-      status: { in: ['CREATED', 'ACCEPTED'] },
-      expiresAt: { lt: now },
-    },
-    data: {
-      status: 'EXPIRED',
-    },
-  });
+  const [escrowed, unescrowed] = await prisma.$transaction([
+    prisma.serviceJob.updateMany({
+      where: { ...expirable, escrowStatus: 'HELD' },
+      data: { status: 'EXPIRED', escrowStatus: 'REFUND_PENDING' },
+    }),
+    prisma.serviceJob.updateMany({
+      where: expirable,
+      data: { status: 'EXPIRED' },
+    }),
+  ]);
+
+  const expiredCount = escrowed.count + unescrowed.count;
 
-  if (expiredJobs.count > 0) {
+  if (expiredCount > 0) {
     logger.info(
-      { expiredCount: expiredJobs.count },
+      { expiredCount, refundsQueued: escrowed.count },
       'Expired overdue service jobs',
     );
 
     // TODO: RLAIF — log expiration events for training data
-    // TODO (Phase 3): Trigger x402 refund for expired jobs
   }
 
   return {
-    expiredCount: expiredJobs.count,
+    expiredCount,
     processedAt: now.toISOString(),
   };
 }
 
+/**
+ * Settle escrowed payments.
+ *
+ * 1. COMPLETED jobs whose approval window lapsed without buyer action
+ *    are queued for release (HELD → RELEASE_PENDING), or for their
+ *    partial refund first when `refundUsdc` is set (HELD → REFUND_PENDING).
+ * 2. Pending releases pay the seller agent's wallet the amount held in
+ *    escrow (`escrowUsdc`, the price for older jobs) minus the protocol
+ *    fee; pending refunds return everything held to the payer.
+ *    A partial refund (`refundUsdc` below the price) returns only that
+ *    amount, then queues the remainder (minus the fee) for release to the
+ *    seller.
+ * 3. A release credits the job's price less any refund as the revenue
+ *    of the Social Hunter lead it converted, if any.
+ * 4. A full refund of the job that paid its period's subscription fee
+ *    rolls the period back (one call less, fee unpaid), so the buyer's
+ *    next job pays the fee again.
+ *
+ * Each settlement is independent — a failed transfer is logged and
+ * retried on the next tick, it never blocks the rest of the batch.
+ * A transfer that succeeds but cannot be recorded is NOT retried.
+ */
+export async function settleEscrows(
+  prisma: PrismaClient,
+  baseChain: BaseChainClient | null,
+  logger: pino.Logger,
+): Promise<EscrowSettlementResult> {
+  const now = new Date();
+
+  const lapsedWhere: Prisma.ServiceJobWhereInput = {
+    status: 'COMPLETED',
+    escrowStatus: 'HELD',
+    approvalDeadline: { lt: now },
+  };
+
+  const [partial, full] = await prisma.$transaction([
+    prisma.serviceJob.updateMany({
+      where: { ...lapsedWhere, refundUsdc: { gt: 0n } },
+      data: { escrowStatus: 'REFUND_PENDING' },
+    }),
+    prisma.serviceJob.updateMany({
+      where: lapsedWhere,
+      data: { escrowStatus: 'RELEASE_PENDING' },
+    }),
+  ]);
+
+  if (partial.count + full.count > 0) {
+    logger.info(
+      { count: partial.count + full.count, partialRefunds: partial.count },
+      'Approval window lapsed — escrow release queued',
+    );
+  }
+
+  const pending = await prisma.serviceJob.findMany({
+    where: { escrowStatus: { in: ['RELEASE_PENDING', 'REFUND_PENDING'] } },
+    select: {
+      id: true,
+      buyerAgentId: true,
+      sellerAgentId: true,
+      priceUsdc: true,
+      refundUsdc: true,
+      escrowStatus: true,
+      escrowPayer: true,
+      escrowUsdc: true,
+      sellerAgent: { select: { walletAddress: true } },
+    },
+    orderBy: { updatedAt: 'asc' },
+    take: ESCROW_BATCH_SIZE,
+  });
+
+  const result: EscrowSettlementResult = { releasedCount: 0, refundedCount: 0 };
+  if (pending.length === 0) return result;
+
+  const usdcContract = (process.env.NEXT_PUBLIC_USDC_CONTRACT ?? process.env.USDC_CONTRACT) as
+    | `0x${string}`
+    | undefined;
+
+  if (!baseChain?.isWalletInitialized() || !usdcContract) {
+    logger.warn(
+      { pendingCount: pending.length, hasWallet: baseChain?.isWalletInitialized() ?? false },
+      'Escrow settlements pending but no payout wallet/USDC contract configured — skipping',
+    );
+    return result;
+  }
+
+  for (const job of pending) {
+    const isRefund = job.escrowStatus === 'REFUND_PENDING';
+    const recipient = isRefund ? job.escrowPayer : job.sellerAgent.walletAddress;
+    // What the buyer actually paid in — never pay out more than that
+    const heldUsdc = job.escrowUsdc ?? job.priceUsdc;
+    // Partial refund: after the buyer's share, the remainder is released.
+    // Anything else refunding (expired, rejected, REFUND verdict) returns
+    // everything held and ends at REFUNDED.
+    const isPartialRefund =
+      isRefund && job.refundUsdc !== null && job.refundUsdc > 0n && job.refundUsdc < heldUsdc;
+    const releaseBase = heldUsdc - (job.refundUsdc ?? 0n);
+    const amount = isRefund
+      ? isPartialRefund
+        ? job.refundUsdc!
+        : heldUsdc
+      : releaseBase - (releaseBase * PROTOCOL_FEE_BPS) / 10_000n;
+
+    if (!recipient) {
+      logger.error(
+        { jobId: job.id, escrowStatus: job.escrowStatus },
+        'Escrow settlement has no recipient address — manual intervention required',
+      );
+      continue;
+    }
+
+    let txHash: `0x${string}` | null = null;
+    try {
+      if (amount > 0n) {
+        txHash = await baseChain.transferUsdc(usdcContract, recipient as `0x${string}`, amount);
+      }
+    } catch (err) {
+      logger.error(
+        {
+          jobId: job.id,
+          escrowStatus: job.escrowStatus,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        'Escrow transfer failed — will retry next tick',
+      );
+      continue;
+    }
+
+    const isFullRefund = isRefund && !isPartialRefund;
+
+    try {
+      await prisma.$transaction([
+        prisma.serviceJob.update({
+          where: { id: job.id },
+          data: isPartialRefund
+            ? { escrowStatus: 'RELEASE_PENDING' }
+            : {
+                escrowStatus: isRefund ? 'REFUNDED' : 'RELEASED',
+                escrowSettleTxHash: txHash,
+                escrowSettledAt: new Date(),
+              },
+        }),
+        prisma.walletTransaction.create({
+          data: {
+            agentId: isRefund ? job.buyerAgentId : job.sellerAgentId,
+            type: isRefund ? 'escrow_refund' : 'escrow_release',
+            amount: Number(amount) / 1_000_000,
+            currency: 'USDC',
+            recipient,
+            txHash,
+            status: 'completed',
+            category: 'service_job',
+            metadata: { jobId: job.id },
+          },
+        }),
+        // Settled revenue of the Social Hunter lead this job converted, if any
+        ...(!isRefund
+          ? [
+              prisma.socialHuntLead.updateMany({
+                where: { convertedJobId: job.id },
+                data: { revenueUsdc: releaseBase },
+              }),
+            ]
+          : []),
+        // No-op unless this job paid its period's subscription fee
+        ...(isFullRefund
+          ? [
+              prisma.serviceUsagePeriod.updateMany({
+                where: { feeJobId: job.id },
+                data: {
+                  feeJobId: null,
+                  calls: { decrement: 1 },
+                  chargedUsdc: { decrement: job.priceUsdc },
+                },
+              }),
+            ]
+          : []),
+      ]);
+
+      if (isRefund) {
+        result.refundedCount++;
+      } else {
+        result.releasedCount++;
+      }
+
+      logger.info(
+        { jobId: job.id, recipient, amount: amount.toString(), txHash, refund: isRefund },
+        isRefund ? 'Escrow refunded to buyer' : 'Escrow released to seller',
+      );
+    } catch (err) {
+      // The USDC already moved — retrying would pay twice. Surface loudly
+      // so the settlement can be reconciled by hand from the tx hash.
+      logger.fatal(
+        {
+          jobId: job.id,
+          escrowStatus: job.escrowStatus,
+          txHash,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        'Escrow transferred on-chain but settlement was not recorded — manual reconciliation required',
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply resolved dispute verdicts to the seller agent's reputation.
+ *
+ * REFUND, PARTIAL_REFUND and UPHOLD are scored via anchorJobCompletion
+ * with the verdict; REDELIVER is skipped because the redelivery attempt
+ * is scored on its own. Each dispute is claimed (reputationAppliedAt)
+ * before scoring so a verdict is never applied twice.
+ */
+async function applyDisputeVerdicts(
+  prisma: PrismaClient,
+  logger: pino.Logger,
+): Promise<number> {
+  const resolved = await prisma.serviceDispute.findMany({
+    where: {
+      status: 'RESOLVED',
+      outcome: { in: ['REFUND', 'PARTIAL_REFUND', 'UPHOLD'] },
+      reputationAppliedAt: null,
+    },
+    select: {
+      id: true,
+      outcome: true,
+      job: {
+        select: {
+          id: true,
+          sellerAgentId: true,
+          offering: { select: { maxLatencyMs: true } },
+          decisionLogs: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { executionTimeMs: true },
+          },
+        },
+      },
+    },
+    orderBy: { resolvedAt: 'asc' },
+    take: VERDICT_BATCH_SIZE,
+  });
+
+  let applied = 0;
+
+  for (const dispute of resolved) {
+    const outcome = dispute.outcome;
+    if (outcome !== 'REFUND' && outcome !== 'PARTIAL_REFUND' && outcome !== 'UPHOLD') continue;
+
+    const { count } = await prisma.serviceDispute.updateMany({
+      where: { id: dispute.id, reputationAppliedAt: null },
+      data: { reputationAppliedAt: new Date() },
+    });
+    if (count === 0) continue;
+
+    const { job } = dispute;
+    await anchorJobCompletion(
+      prisma,
+      job.id,
+      job.sellerAgentId,
+      outcome === 'UPHOLD',
+      job.decisionLogs[0]?.executionTimeMs ?? 0,
+      job.offering.maxLatencyMs,
+      logger,
+      { disputeOutcome: outcome },
+    );
+
+    applied++;
+    logger.info(
+      { jobId: job.id, disputeId: dispute.id, outcome },
+      'Dispute verdict applied to seller reputation',
+    );
+  }
+
+  return applied;
+}
+
+/**
+ * Issue an invoice for each ended billing period.
+ *
+ * A period is invoiced once none of its jobs still has escrow to settle,
+ * so late refunds make it onto the invoice. Line items are the buyer's
+ * WalletTransaction records for the period's jobs: x402 charges taken at
+ * job creation and escrow refunds (partial refunds, unused metered units,
+ * dispute refunds). The unique usagePeriodId makes issuing idempotent.
+ */
+async function issueInvoices(
+  prisma: PrismaClient,
+  logger: pino.Logger,
+): Promise<number> {
+  const periods = await prisma.serviceUsagePeriod.findMany({
+    where: {
+      periodEnd: { lt: new Date() },
+      invoice: null,
+      jobs: { none: { escrowStatus: { in: ['HELD', 'RELEASE_PENDING', 'REFUND_PENDING'] } } },
+    },
+    include: { jobs: { select: { id: true } } },
+    orderBy: { periodEnd: 'asc' },
+    take: INVOICE_BATCH_SIZE,
+  });
+
+  let issued = 0;
+
+  for (const period of periods) {
+    const jobIds = new Set(period.jobs.map((j) => j.id));
+
+    const transactions = await prisma.walletTransaction.findMany({
+      where: {
+        agentId: period.buyerAgentId,
+        category: 'service_job',
+        type: { in: ['x402_outbound', 'escrow_refund'] },
+        createdAt: { gte: period.periodStart },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let chargedUsdc = 0n;
+    let refundedUsdc = 0n;
+    const lineItems: Prisma.InputJsonValue[] = [];
+
+    for (const tx of transactions) {
+      const jobId = (tx.metadata as { jobId?: unknown } | null)?.jobId;
+      if (typeof jobId !== 'string' || !jobIds.has(jobId)) continue;
+
+      const amountUsdc = BigInt(Math.round(Number(tx.amount) * 1_000_000));
+      if (tx.type === 'escrow_refund') {
+        refundedUsdc += amountUsdc;
+      } else {
+        chargedUsdc += amountUsdc;
+      }
+      lineItems.push({
+        jobId,
+        type: tx.type,
+        amountUsdc: amountUsdc.toString(),
+        txHash: tx.txHash,
+        at: tx.createdAt.toISOString(),
+      });
+    }
+
+    try {
+      await prisma.serviceInvoice.create({
+        data: {
+          usagePeriodId: period.id,
+          offeringId: period.offeringId,
+          buyerAgentId: period.buyerAgentId,
+          sellerAgentId: period.sellerAgentId,
+          pricingModel: period.pricingModel,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          calls: period.calls,
+          units: period.units,
+          chargedUsdc,
+          refundedUsdc,
+          totalUsdc: chargedUsdc - refundedUsdc,
+          lineItems,
+        },
+      });
+    } catch (err) {
+      // Another tick issued it first
+      logger.warn(
+        { usagePeriodId: period.id, error: err instanceof Error ? err.message : String(err) },
+        'Invoice not issued',
+      );
+      continue;
+    }
+
+    issued++;
+    logger.info(
+      {
+        usagePeriodId: period.id,
+        buyerAgentId: period.buyerAgentId,
+        offeringId: period.offeringId,
+        totalUsdc: (chargedUsdc - refundedUsdc).toString(),
+      },
+      'Service invoice issued',
+    );
+  }
+
+  return issued;
+}
+
 /**
  * Schedule the repeatable maintenance job.
  * Call this during runtime bootstrap.
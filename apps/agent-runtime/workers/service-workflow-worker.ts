@@ -0,0 +1,602 @@
+/**
+ * Service Workflow Worker
+ *
+ * Runs multi-step service workflows for buyer agents running in this
+ * runtime. A workflow is a DAG of steps; each step hires one service job
+ * and may map fields of upstream deliverables into its requirements
+ * (e.g. trend-analysis → thread-writing → engagement-analysis).
+ *
+ * Each poll advances every active workflow by one tick:
+ *   1. PENDING → RUNNING
+ *   2. Sync RUNNING steps with their job: delivered → COMPLETED, failed →
+ *      retried (new job) until `maxAttempts`, then FAILED. An unusable
+ *      delivery is disputed first, so the retry does not pay twice
+ *   3. Hire every PENDING step whose dependencies have COMPLETED, within
+ *      what is left of the workflow budget
+ *   4. All steps COMPLETED → approve every step's escrow → COMPLETED
+ *   5. A FAILED step (or a buyer cancel) → COMPENSATING: cancel jobs not
+ *      yet delivering, dispute delivered ones (`onCompensate: refund`),
+ *      wait for in-delivery jobs, then FAILED / CANCELLED
+ *
+ * Design Decisions:
+ * - Escrow stays HELD until the whole workflow succeeds, so compensation
+ *   can still contest upstream deliveries. Workflows that outlive the
+ *   escrow approval window lose that option (the job auto-releases).
+ * - The budget caps what the workflow may commit: every hired attempt
+ *   counts, and refunds of failed attempts are not credited back.
+ * - Workflow state lives in Postgres; jobs are hired through the buyer
+ *   agent's ServiceClient so payment and auth match a direct purchase.
+ */
+import { Worker, Queue, type Job } from 'bullmq';
+import {
+  Prisma,
+  PrismaClient,
+  type ServiceWorkflow,
+  type ServiceWorkflowStep,
+} from '@prisma/client';
+import type { Redis } from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import type { AgentEngine } from '../src/core/agent-engine.js';
+import type { ServiceClient } from '../src/integrations/service-client.js';
+
+const QUEUE_NAME = 'service-workflow';
+const POLL_INTERVAL_MS = 15_000;
+const BATCH_SIZE = 20;
+
+/** Job statuses the seller has not started working on (still cancellable). */
+const CANCELLABLE_JOB_STATUSES = new Set(['CREATED', 'ACCEPTED']);
+
+/** Job statuses that end an attempt without usable output. */
+const FAILED_JOB_STATUSES = new Set(['REJECTED', 'EXPIRED', 'DISPUTED', 'RESOLVED']);
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface WorkflowJobData {
+  task: 'advance-workflows';
+  triggeredAt: string;
+}
+
+interface WorkflowJobResult {
+  advancedCount: number;
+  completedCount: number;
+  failedCount: number;
+  processedAt: string;
+}
+
+/** The parts of the AgentEngine the worker needs. */
+type WorkflowEngine = Pick<AgentEngine, 'getRunningAgentIds' | 'getServiceClient' | 'hireService'>;
+
+type WorkflowWithSteps = ServiceWorkflow & { steps: ServiceWorkflowStep[] };
+
+// ── Worker Factory ───────────────────────────────────────────────────────────
+
+/**
+ * Create the service workflow worker and its scheduling queue.
+ *
+ * @param connection - Redis connection for BullMQ
+ * @param engine - The runtime's AgentEngine; only workflows of agents it
+ *   is running are advanced, using each agent's own ServiceClient
+ */
+export function createServiceWorkflowWorker(connection: Redis, engine: WorkflowEngine) {
+  const logger: pino.Logger = rootLogger.child({ module: 'ServiceWorkflow' });
+  const prisma = new PrismaClient();
+
+  const queue = new Queue<WorkflowJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<WorkflowJobData, WorkflowJobResult>(
+    QUEUE_NAME,
+    async (job: Job<WorkflowJobData>): Promise<WorkflowJobResult> => {
+      if (job.data.task !== 'advance-workflows') {
+        logger.warn({ task: job.data.task }, 'Unknown workflow task');
+        return { advancedCount: 0, completedCount: 0, failedCount: 0, processedAt: new Date().toISOString() };
+      }
+
+      return await advanceWorkflows(prisma, engine, logger);
+    },
+    {
+      connection,
+      concurrency: 1, // Ticks must not overlap — steps are hired exactly once
+      removeOnComplete: { count: 200 },
+      removeOnFail: { count: 100 },
+    },
+  );
+
+  worker.on('completed', (job, result) => {
+    if (result.completedCount > 0 || result.failedCount > 0) {
+      logger.info(
+        { jobId: job.id, completed: result.completedCount, failed: result.failedCount },
+        'Service workflow poll completed',
+      );
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error(
+      { jobId: job?.id, error: error.message },
+      'Service workflow poll failed',
+    );
+  });
+
+  logger.info('Service workflow worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Service workflow worker shut down');
+    },
+  };
+}
+
+// ── Core Logic ───────────────────────────────────────────────────────────────
+
+/**
+ * Advance every active workflow of the agents this runtime is running by
+ * one tick.
+ */
+export async function advanceWorkflows(
+  prisma: PrismaClient,
+  engine: WorkflowEngine,
+  logger: pino.Logger,
+): Promise<WorkflowJobResult> {
+  const result: WorkflowJobResult = {
+    advancedCount: 0,
+    completedCount: 0,
+    failedCount: 0,
+    processedAt: new Date().toISOString(),
+  };
+
+  const buyerAgentIds = engine.getRunningAgentIds();
+  if (buyerAgentIds.length === 0) return result;
+
+  const workflows = await prisma.serviceWorkflow.findMany({
+    where: {
+      buyerAgentId: { in: buyerAgentIds },
+      status: { in: ['PENDING', 'RUNNING', 'COMPENSATING'] },
+    },
+    include: { steps: { orderBy: { createdAt: 'asc' } } },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const workflow of workflows) {
+    const client = engine.getServiceClient(workflow.buyerAgentId);
+    if (!client) continue;
+
+    try {
+      const status = await advanceWorkflow(prisma, engine, client, workflow, logger);
+      result.advancedCount++;
+      if (status === 'COMPLETED') result.completedCount++;
+      if (status === 'FAILED' || status === 'CANCELLED') result.failedCount++;
+    } catch (err) {
+      logger.error(
+        { workflowId: workflow.id, error: err instanceof Error ? err.message : String(err) },
+        'Unhandled error advancing workflow',
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Advance one workflow by a single tick.
+ *
+ * @returns The workflow status after the tick
+ */
+async function advanceWorkflow(
+  prisma: PrismaClient,
+  engine: WorkflowEngine,
+  client: ServiceClient,
+  workflow: WorkflowWithSteps,
+  logger: pino.Logger,
+): Promise<ServiceWorkflow['status']> {
+  const log = logger.child({ workflowId: workflow.id });
+  let status = workflow.status;
+
+  if (status === 'PENDING') {
+    const { count } = await prisma.serviceWorkflow.updateMany({
+      where: { id: workflow.id, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    });
+    if (count === 0) return status; // Cancelled concurrently
+    status = 'RUNNING';
+    log.info({ steps: workflow.steps.length }, 'Workflow started');
+  }
+
+  if (status === 'RUNNING') {
+    for (const step of workflow.steps) {
+      if (step.status === 'RUNNING') {
+        await syncRunningStep(prisma, client, step, false, log);
+      }
+    }
+
+    const failed = workflow.steps.find((s) => s.status === 'FAILED');
+
+    if (workflow.cancelRequestedAt || failed) {
+      const error = failed
+        ? `Step "${failed.key}" failed: ${failed.lastError ?? 'unknown error'}`
+        : 'Cancelled by buyer';
+      await prisma.serviceWorkflow.update({
+        where: { id: workflow.id },
+        data: { status: 'COMPENSATING', error },
+      });
+      status = 'COMPENSATING';
+      log.warn({ error }, 'Workflow compensating');
+    } else if (workflow.steps.every((s) => s.status === 'COMPLETED')) {
+      await approveStepJobs(prisma, client, workflow.steps, log);
+      await prisma.serviceWorkflow.update({
+        where: { id: workflow.id },
+        data: { status: 'COMPLETED', finishedAt: new Date() },
+      });
+      log.info({ spentUsdc: workflow.spentUsdc.toString() }, 'Workflow completed');
+      return 'COMPLETED';
+    } else {
+      await hireReadySteps(prisma, engine, workflow, log);
+      return status;
+    }
+  }
+
+  // COMPENSATING
+  const settled = await compensateSteps(prisma, client, workflow, log);
+  if (!settled) return status;
+
+  const finalStatus = workflow.cancelRequestedAt ? 'CANCELLED' : 'FAILED';
+  await prisma.serviceWorkflow.update({
+    where: { id: workflow.id },
+    data: { status: finalStatus, finishedAt: new Date() },
+  });
+  log.warn({ status: finalStatus }, 'Workflow compensation finished');
+  return finalStatus;
+}
+
+/**
+ * Reconcile a RUNNING step with its current job. Mutates `step` so the
+ * caller sees the new status within the same tick.
+ *
+ * @param noRetry - Fail the step instead of re-queueing it (compensation)
+ */
+async function syncRunningStep(
+  prisma: PrismaClient,
+  client: ServiceClient,
+  step: ServiceWorkflowStep,
+  noRetry: boolean,
+  logger: pino.Logger,
+): Promise<void> {
+  if (!step.jobId) return;
+
+  const job = await prisma.serviceJob.findUnique({
+    where: { id: step.jobId },
+    select: { status: true, escrowStatus: true, deliverables: true },
+  });
+  if (!job) return;
+
+  if (job.status === 'COMPLETED' && isUsableDeliverable(job.deliverables)) {
+    await prisma.serviceWorkflowStep.update({
+      where: { id: step.id },
+      data: { status: 'COMPLETED', output: job.deliverables as Prisma.InputJsonValue },
+    });
+    step.status = 'COMPLETED';
+    step.output = job.deliverables;
+    logger.info({ step: step.key, jobId: step.jobId }, 'Workflow step completed');
+    return;
+  }
+
+  if (job.status === 'COMPLETED' && job.escrowStatus === 'HELD') {
+    // Contest the payment before giving up on the attempt — otherwise it
+    // auto-releases to the seller and a retry pays for the step twice
+    try {
+      await client.disputeJob(
+        step.jobId,
+        `Deliverables of workflow step "${step.key}" are unusable. Requesting refund.`,
+      );
+    } catch (err) {
+      logger.warn(
+        { step: step.key, jobId: step.jobId, error: err instanceof Error ? err.message : String(err) },
+        'Failed to dispute unusable workflow step delivery — will retry',
+      );
+      return;
+    }
+  }
+
+  if (job.status === 'COMPLETED' || FAILED_JOB_STATUSES.has(job.status)) {
+    await failAttempt(prisma, step, `Job ${step.jobId} ended ${job.status}`, noRetry, logger);
+  }
+}
+
+/**
+ * Record a failed attempt: re-queue the step while attempts remain,
+ * otherwise mark it FAILED.
+ */
+async function failAttempt(
+  prisma: PrismaClient,
+  step: ServiceWorkflowStep,
+  error: string,
+  noRetry: boolean,
+  logger: pino.Logger,
+): Promise<void> {
+  const exhausted = noRetry || step.attempts >= step.maxAttempts;
+  const status = exhausted ? 'FAILED' : 'PENDING';
+
+  await prisma.serviceWorkflowStep.update({
+    where: { id: step.id },
+    data: { status, lastError: error },
+  });
+  step.status = status;
+  step.lastError = error;
+
+  logger.warn(
+    { step: step.key, attempts: step.attempts, maxAttempts: step.maxAttempts, error },
+    exhausted ? 'Workflow step failed' : 'Workflow step attempt failed — will retry',
+  );
+}
+
+/**
+ * Hire every PENDING step whose dependencies have all COMPLETED.
+ */
+async function hireReadySteps(
+  prisma: PrismaClient,
+  engine: WorkflowEngine,
+  workflow: WorkflowWithSteps,
+  logger: pino.Logger,
+): Promise<void> {
+  const byKey = new Map(workflow.steps.map((s) => [s.key, s]));
+  let spentUsdc = workflow.spentUsdc;
+
+  for (const step of workflow.steps) {
+    if (step.status !== 'PENDING') continue;
+    if (!step.dependsOn.every((dep) => byKey.get(dep)?.status === 'COMPLETED')) continue;
+
+    // Deterministic problems fail the step outright — a retry cannot fix them
+    let inputs: Record<string, unknown>;
+    try {
+      inputs = resolveStepInputs(step.inputs as Record<string, string>, byKey);
+    } catch (err) {
+      await failAttempt(prisma, step, err instanceof Error ? err.message : String(err), true, logger);
+      return;
+    }
+
+    const remaining = workflow.budgetUsdc - spentUsdc;
+    const cap = step.maxPriceUsdc !== null && step.maxPriceUsdc < remaining
+      ? step.maxPriceUsdc
+      : remaining;
+    if (cap <= 0n) {
+      await failAttempt(prisma, step, 'Workflow budget exhausted', true, logger);
+      return;
+    }
+
+    // Claim the attempt before paying so a crash can't hire it twice
+    const { count } = await prisma.serviceWorkflowStep.updateMany({
+      where: { id: step.id, status: 'PENDING' },
+      data: { status: 'RUNNING', attempts: { increment: 1 } },
+    });
+    if (count === 0) continue;
+    step.status = 'RUNNING';
+    step.attempts++;
+
+    const requirements = {
+      ...(step.requirements as Record<string, unknown>),
+      ...inputs,
+      capability: step.capability,
+    };
+
+    try {
+      const hired = await engine.hireService(workflow.buyerAgentId, step.capability, requirements, {
+        maxPriceUsdc: Number(cap),
+        offeringSlug: step.offeringSlug ?? undefined,
+      });
+
+      await prisma.$transaction([
+        prisma.serviceWorkflowStep.update({
+          where: { id: step.id },
+          data: { jobId: hired.job.id },
+        }),
+        prisma.serviceJob.update({
+          where: { id: hired.job.id },
+          data: { workflowStepId: step.id },
+        }),
+        prisma.serviceWorkflow.update({
+          where: { id: workflow.id },
+          data: { spentUsdc: { increment: hired.priceUsdc } },
+        }),
+      ]);
+      spentUsdc += hired.priceUsdc;
+      step.jobId = hired.job.id;
+
+      logger.info(
+        {
+          step: step.key,
+          attempt: step.attempts,
+          jobId: hired.job.id,
+          offeringSlug: hired.offeringSlug,
+          priceUsdc: hired.priceUsdc.toString(),
+        },
+        'Workflow step hired',
+      );
+    } catch (err) {
+      await failAttempt(prisma, step, err instanceof Error ? err.message : String(err), false, logger);
+    }
+  }
+}
+
+/**
+ * Unwind a failed or cancelled workflow.
+ *
+ * - Jobs not yet delivering are cancelled (payment refunded)
+ * - Jobs mid-delivery are awaited and handled on a later tick
+ * - Delivered jobs are disputed (`refund`) or released (`keep`)
+ *
+ * @returns true once no step has a job in flight
+ */
+async function compensateSteps(
+  prisma: PrismaClient,
+  client: ServiceClient,
+  workflow: WorkflowWithSteps,
+  logger: pino.Logger,
+): Promise<boolean> {
+  let settled = true;
+
+  for (const step of workflow.steps) {
+    if (!step.jobId) continue;
+
+    if (step.status === 'RUNNING') {
+      const job = await prisma.serviceJob.findUnique({
+        where: { id: step.jobId },
+        select: { status: true },
+      });
+
+      if (job && CANCELLABLE_JOB_STATUSES.has(job.status)) {
+        try {
+          await client.cancelJob(step.jobId);
+          await markCompensated(prisma, step, logger, 'cancelled');
+        } catch (err) {
+          // Most likely claimed by the executor meanwhile — re-check next tick
+          settled = false;
+          logger.warn(
+            { step: step.key, jobId: step.jobId, error: err instanceof Error ? err.message : String(err) },
+            'Failed to cancel workflow step job',
+          );
+        }
+        continue;
+      }
+
+      await syncRunningStep(prisma, client, step, true, logger);
+      if (step.status === 'RUNNING') {
+        settled = false; // Still delivering
+        continue;
+      }
+    }
+
+    if (step.status !== 'COMPLETED') continue;
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: step.jobId },
+      select: { status: true, escrowStatus: true },
+    });
+    if (job?.status !== 'COMPLETED' || job.escrowStatus !== 'HELD') continue;
+
+    try {
+      if (step.onCompensate === 'refund') {
+        await client.disputeJob(
+          step.jobId,
+          `Workflow "${workflow.name}" (${workflow.id}) did not complete: ${workflow.error ?? 'cancelled'}. Requesting refund of step "${step.key}".`,
+        );
+        await markCompensated(prisma, step, logger, 'disputed');
+      } else {
+        await client.approveJob(step.jobId);
+      }
+    } catch (err) {
+      // Approval window closed or already settled — nothing left to unwind
+      logger.warn(
+        { step: step.key, jobId: step.jobId, error: err instanceof Error ? err.message : String(err) },
+        'Failed to compensate delivered workflow step',
+      );
+    }
+  }
+
+  return settled;
+}
+
+async function markCompensated(
+  prisma: PrismaClient,
+  step: ServiceWorkflowStep,
+  logger: pino.Logger,
+  action: 'cancelled' | 'disputed',
+): Promise<void> {
+  await prisma.serviceWorkflowStep.update({
+    where: { id: step.id },
+    data: { status: 'COMPENSATED' },
+  });
+  step.status = 'COMPENSATED';
+  logger.info({ step: step.key, jobId: step.jobId, action }, 'Workflow step compensated');
+}
+
+/**
+ * Release the escrow of every step job still HELD. Failures are logged
+ * only — unapproved jobs auto-release when the approval window lapses.
+ */
+async function approveStepJobs(
+  prisma: PrismaClient,
+  client: ServiceClient,
+  steps: ServiceWorkflowStep[],
+  logger: pino.Logger,
+): Promise<void> {
+  const jobIds = steps.map((s) => s.jobId).filter((id): id is string => id !== null);
+  const held = await prisma.serviceJob.findMany({
+    where: { id: { in: jobIds }, status: 'COMPLETED', escrowStatus: 'HELD' },
+    select: { id: true },
+  });
+
+  for (const job of held) {
+    try {
+      await client.approveJob(job.id);
+    } catch (err) {
+      logger.warn(
+        { jobId: job.id, error: err instanceof Error ? err.message : String(err) },
+        'Failed to approve workflow step job — escrow will auto-release',
+      );
+    }
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function isUsableDeliverable(deliverables: unknown): boolean {
+  return typeof deliverables === 'object' && deliverables !== null && !('error' in deliverables);
+}
+
+/**
+ * Resolve a step's input mapping against upstream deliverables.
+ *
+ * Each reference is "<stepKey>.<path>", where the path walks the step's
+ * deliverables (`output.trends.0.topic`). Numeric segments index arrays.
+ *
+ * @throws If a reference points at a missing value
+ */
+export function resolveStepInputs(
+  inputs: Record<string, string>,
+  steps: Map<string, Pick<ServiceWorkflowStep, 'output'>>,
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+
+  for (const [field, ref] of Object.entries(inputs)) {
+    const [stepKey, ...path] = ref.split('.');
+    let value: unknown = steps.get(stepKey!)?.output;
+
+    for (const segment of path) {
+      if (typeof value !== 'object' || value === null) {
+        value = undefined;
+        break;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+
+    if (value === undefined) {
+      throw new Error(`Input "${field}": "${ref}" not found in upstream deliverables`);
+    }
+    resolved[field] = value;
+  }
+
+  return resolved;
+}
+
+/**
+ * Schedule the repeatable workflow poll job.
+ * Call this during runtime bootstrap.
+ */
+export async function scheduleServiceWorkflows(queue: Queue): Promise<void> {
+  await queue.add(
+    'advance-workflows',
+    { task: 'advance-workflows', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'service-workflow-repeatable',
+      repeat: { every: POLL_INTERVAL_MS },
+      removeOnComplete: 200,
+      removeOnFail: 100,
+    },
+  );
+}
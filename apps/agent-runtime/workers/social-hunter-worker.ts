@@ -11,37 +11,65 @@
  *
  *   3. THE MOUTH (Engage): Replies to high-scoring casts with a persona-
  *                          injected pitch embedding the agent's hire link.
+ *                          Supervised agents hold the pitch as a draft
+ *                          (lead → DRAFTED) for the creator to approve.
+ *
+ * Conversions: each pitch's hire links carry a per-lead `?ref=` token, and
+ * the lead keeps its author's wallets. The web app attributes service jobs
+ * to leads by token, FID or wallet (apps/web/lib/hunt-attribution.ts).
+ *
+ * Each cycle reads the agent's hunter profile (core/hunter-profile):
+ * its channels, keywords, negative keywords, threshold, reply caps,
+ * active hours and pitchable offerings.
  *
  * Anti-Spam Safeguards:
  *   - Redis SET dedup (48h TTL) prevents re-processing same casts
  *   - DB unique constraint [agentId, targetCastHash] prevents double replies
  *   - 24h cooldown per targetFid-agent pair
- *   - 5 replies/hour + 20 replies/day per agent
+ *   - Hourly + daily reply caps per agent (default 5 and 20)
  *   - Channel rotation (max 3 per cycle) to distribute API load
  *   - Self-cast skip (agent.fid === cast.author.fid)
- *   - LLM triage threshold (score >= 7 to engage)
+ *   - Casts with a negative keyword are skipped untriaged
+ *   - Casts that read as prompt injection are skipped untriaged, and
+ *     pitches that fail the output checks (leaked instructions, foreign
+ *     links, prices the agent does not charge) are never sent; both are
+ *     logged on the lead (core/untrusted-input)
+ *   - LLM triage threshold (default score >= 7 to engage)
+ *   - Disabled profiles and cycles outside active hours do nothing
+ *   - Agents whose spend budget refuses LLM calls sit the cycle out
  */
 
+import { randomBytes } from 'node:crypto';
 import { Worker, Queue, type Job } from 'bullmq';
 import { PrismaClient, SocialHuntStatus } from '@prisma/client';
 import type IORedis from 'ioredis';
 import pino from 'pino';
 import { logger as rootLogger } from '../src/config.js';
 import type { NeynarClient, NeynarChannelCast } from '../src/integrations/neynar.js';
-import type { OpenRouterClient } from '../src/integrations/openrouter.js';
-import { triageCast } from '../src/skills/social-hunter-triage.js';
+import type { LLMClient } from '../src/integrations/llm.js';
+import { tagHireLinks, triageCast } from '../src/skills/social-hunter-triage.js';
+import type { SpendLedger } from '../src/core/spend-ledger.js';
+import { DraftQueue } from '../src/core/supervision.js';
+import { getPromptRegistry } from '../src/core/prompt-registry.js';
+import { checkReply, detectInjection, type ReplyGuard } from '../src/core/untrusted-input.js';
+import {
+  countHuntReplies,
+  huntChannels,
+  huntKeywords,
+  isHuntingHour,
+  loadHunterProfile,
+  negativeKeywordIn,
+  pitchableOfferings,
+  type HunterProfile,
+} from '../src/core/hunter-profile.js';
 import {
-  CATEGORY_CHANNELS,
-  HUNT_KEYWORDS,
-  MAX_REPLIES_PER_HOUR,
-  MAX_REPLIES_PER_DAY,
   COOLDOWN_MS,
-  TRIAGE_THRESHOLD,
   POLL_INTERVAL_MS,
   MAX_CASTS_PER_CYCLE,
   MAX_CHANNELS_PER_CYCLE,
   SEEN_CASTS_KEY,
   SEEN_CASTS_TTL_SECONDS,
+  HIRE_BASE_URL,
 } from '../src/config/social-hunter.js';
 
 // ── Types ────────────────────────────────────────────────────────────────
@@ -64,6 +92,8 @@ interface CandidateCast {
   hash: string;
   authorFid: number;
   authorUsername: string;
+  /** Custody and verified wallets, lowercased, for conversion attribution */
+  authorAddresses: string[];
   text: string;
   channel: string | null;
   timestamp: string;
@@ -79,12 +109,14 @@ interface CandidateCast {
  *
  * @param connection - Shared Redis connection (BullMQ duplicates internally)
  * @param neynar - Neynar client for Farcaster API
- * @param llm - OpenRouter client for LLM triage
+ * @param llm - LLM client for triage
+ * @param ledger - Spend ledger; agents over a REFUSE budget are skipped
  */
 export function createSocialHunterWorker(
   connection: IORedis,
   neynar: NeynarClient,
-  llm: OpenRouterClient,
+  llm: LLMClient,
+  ledger?: SpendLedger,
 ) {
   const logger: pino.Logger = rootLogger.child({ module: 'SocialHunterWorker' });
   const prisma = new PrismaClient();
@@ -101,6 +133,12 @@ export function createSocialHunterWorker(
       const log = logger.child({ agentId, jobId: job.id });
 
       try {
+        const budget = ledger ? await ledger.getStatus(agentId) : null;
+        if (budget?.state === 'refuse') {
+          log.info({ reason: budget.reason }, 'Spend budget exhausted, skipping hunt');
+          return { castsScanned: 0, leadsIdentified: 0, repliesSent: 0 };
+        }
+
         return await processHuntCycle(agentId, log, prisma, connection, neynar, llm);
       } catch (err) {
         log.error({ error: (err as Error).message }, 'Social Hunter cycle failed');
@@ -152,7 +190,7 @@ export function createSocialHunterWorker(
 
 /**
  * Execute a single hunt cycle for one agent:
- *   1. Load agent + offerings
+ *   1. Load agent, hunter profile + the offerings it may pitch
  *   2. Ear: collect candidate casts
  *   3. Brain: LLM-triage each cast
  *   4. Mouth: reply to qualified leads
@@ -163,9 +201,9 @@ async function processHuntCycle(
   prisma: PrismaClient,
   redis: IORedis,
   neynar: NeynarClient,
-  llm: OpenRouterClient,
+  llm: LLMClient,
 ): Promise<SocialHunterJobResult> {
-  // ── 0. Load Agent + Offerings ──────────────────────────────────────
+  // ── 0. Load Agent, Profile + Offerings ────────────────────────────
 
   const agent = await prisma.agent.findUnique({
     where: { id: agentId },
@@ -188,15 +226,27 @@ async function processHuntCycle(
     return { castsScanned: 0, leadsIdentified: 0, repliesSent: 0 };
   }
 
-  if (agent.sellerOfferings.length === 0) {
-    log.debug('Agent has no active offerings, skipping hunt');
+  const profile = await loadHunterProfile(prisma, agentId);
+  if (!profile.enabled) {
+    log.debug('Hunter profile disabled, skipping hunt');
+    return { castsScanned: 0, leadsIdentified: 0, repliesSent: 0 };
+  }
+  if (!isHuntingHour(profile, new Date())) {
+    log.debug({ timezone: profile.timezone }, 'Outside active hours, skipping hunt');
+    return { castsScanned: 0, leadsIdentified: 0, repliesSent: 0 };
+  }
+
+  const offerings = pitchableOfferings(profile, agent.sellerOfferings);
+  if (offerings.length === 0) {
+    log.debug('Agent has no active offerings it may pitch, skipping hunt');
     return { castsScanned: 0, leadsIdentified: 0, repliesSent: 0 };
   }
 
   // ── 1. THE EAR: Collect Candidate Casts ────────────────────────────
 
   const candidateCasts = await collectCandidateCasts(
-    agent.sellerOfferings.map((o) => o.category),
+    huntChannels(profile, offerings.map((o) => o.category)),
+    huntKeywords(profile),
     neynar,
     log,
   );
@@ -220,7 +270,8 @@ async function processHuntCycle(
   const qualifiedLeads = await triageCasts(
     castsToProcess,
     agentId,
-    agent,
+    { ...agent, sellerOfferings: offerings },
+    profile,
     prisma,
     llm,
     log,
@@ -232,6 +283,7 @@ async function processHuntCycle(
     qualifiedLeads,
     agentId,
     agent.signerUuid,
+    profile,
     prisma,
     neynar,
     log,
@@ -258,20 +310,17 @@ async function processHuntCycle(
  * original requests, not jump into existing conversations.
  */
 async function collectCandidateCasts(
-  categories: string[],
+  channels: string[],
+  keywords: string[],
   neynar: NeynarClient,
   log: pino.Logger,
 ): Promise<Map<string, CandidateCast>> {
   const candidateCasts = new Map<string, CandidateCast>();
 
   // 1a. Channel feeds — rotate channels to stay under rate limits
-  const uniqueCategories = [...new Set(categories)];
-  const channels = uniqueCategories.flatMap((cat) => CATEGORY_CHANNELS[cat] ?? []);
-  const uniqueChannels = [...new Set(channels)];
-
   // Round-robin: pick MAX_CHANNELS_PER_CYCLE channels per cycle
   // Shuffle to ensure fair distribution across cycles
-  const shuffledChannels = uniqueChannels
+  const shuffledChannels = [...channels]
     .sort(() => Math.random() - 0.5)
     .slice(0, MAX_CHANNELS_PER_CYCLE);
 
@@ -287,7 +336,7 @@ async function collectCandidateCasts(
   }
 
   // 1b. Keyword search — pick 2 random keywords per cycle
-  const shuffledKeywords = HUNT_KEYWORDS
+  const shuffledKeywords = [...keywords]
     .sort(() => Math.random() - 0.5)
     .slice(0, 2);
 
@@ -323,6 +372,13 @@ function addCandidateCast(
     hash: cast.hash,
     authorFid: cast.author.fid,
     authorUsername: cast.author.username,
+    authorAddresses: [
+      ...new Set(
+        [cast.author.custody_address, ...(cast.author.verified_addresses?.eth_addresses ?? [])]
+          .filter((address): address is string => !!address)
+          .map((address) => address.toLowerCase()),
+      ),
+    ],
     text: cast.text,
     channel,
     timestamp: cast.timestamp,
@@ -376,7 +432,10 @@ interface QualifiedLead {
  * Run LLM triage on each candidate cast.
  *
  * Creates a SocialHuntLead record for every cast processed (for audit),
- * and returns only the qualified leads (score >= threshold).
+ * and returns only the qualified leads (score >= the profile's threshold).
+ * Casts with one of the profile's negative keywords, and casts that read
+ * as prompt injection, are recorded SKIPPED without triage; so are
+ * qualified casts whose pitch fails the output checks.
  */
 async function triageCasts(
   casts: CandidateCast[],
@@ -393,8 +452,9 @@ async function triageCasts(
       priceUsdc: bigint;
     }>;
   },
+  profile: HunterProfile,
   prisma: PrismaClient,
-  llm: OpenRouterClient,
+  llm: LLMClient,
   log: pino.Logger,
 ): Promise<QualifiedLead[]> {
   const qualifiedLeads: QualifiedLead[] = [];
@@ -402,8 +462,58 @@ async function triageCasts(
     typeof agent.persona === 'string'
       ? agent.persona
       : ((agent.persona as Record<string, unknown>)?.description as string) ?? 'A helpful AI agent on ceos.run';
+  const guard: ReplyGuard = {
+    instructions: getPromptRegistry().literals('lead-triage'),
+    hireBaseUrl: HIRE_BASE_URL,
+    offerings: agent.sellerOfferings.map((o) => ({ slug: o.slug, priceUsdc: o.priceUsdc.toString() })),
+  };
 
   for (const cast of casts) {
+    const negativeKeyword = negativeKeywordIn(profile, cast.text);
+    if (negativeKeyword) {
+      await prisma.socialHuntLead
+        .create({
+          data: {
+            agentId,
+            targetCastHash: cast.hash,
+            targetFid: cast.authorFid,
+            targetUsername: cast.authorUsername,
+            targetText: cast.text,
+            channel: cast.channel,
+            status: SocialHuntStatus.SKIPPED,
+            triageReason: `Negative keyword: ${negativeKeyword}`,
+          },
+        })
+        .catch(() => {
+          /* unique constraint = already tracked */
+        });
+      continue;
+    }
+
+    // A cast written to steer the model is not a lead
+    const injection = detectInjection(cast.text);
+    if (injection.suspicious) {
+      await prisma.socialHuntLead
+        .create({
+          data: {
+            agentId,
+            targetCastHash: cast.hash,
+            targetFid: cast.authorFid,
+            targetUsername: cast.authorUsername,
+            targetText: cast.text,
+            channel: cast.channel,
+            status: SocialHuntStatus.SKIPPED,
+            triageReason: `Prompt injection: ${injection.signals.join(', ')}`,
+            injectionSignals: injection.signals,
+          },
+        })
+        .catch(() => {
+          /* unique constraint = already tracked */
+        });
+      log.warn({ castHash: cast.hash, signals: injection.signals }, 'Brain: prompt injection attempt skipped');
+      continue;
+    }
+
     // Check cooldown: skip if we replied to this user recently
     const recentReply = await prisma.socialHuntLead.findFirst({
       where: {
@@ -436,6 +546,7 @@ async function triageCasts(
     // Run LLM triage
     try {
       const triage = await triageCast(llm, {
+        agentId,
         castText: cast.text,
         castAuthor: cast.authorUsername,
         castChannel: cast.channel,
@@ -445,13 +556,22 @@ async function triageCasts(
           ...o,
           priceUsdc: o.priceUsdc.toString(),
         })),
-        hireBaseUrl: 'https://ceos.run/hire',
+        hireBaseUrl: HIRE_BASE_URL,
       });
 
+      const findings = triage.score >= profile.triageThreshold ? checkReply(triage.pitch, guard) : [];
       const status =
-        triage.score >= TRIAGE_THRESHOLD
+        triage.score >= profile.triageThreshold && findings.length === 0
           ? SocialHuntStatus.QUALIFIED
           : SocialHuntStatus.SKIPPED;
+      if (findings.length > 0) {
+        log.warn({ castHash: cast.hash, findings: findings.map((f) => f.check) }, 'Brain: pitch failed output checks');
+      }
+
+      // Qualified pitches carry a per-lead token on their hire links, so
+      // a job created from one is attributed to this lead
+      const refToken = status === SocialHuntStatus.QUALIFIED ? randomBytes(9).toString('base64url') : null;
+      const pitch = refToken ? tagHireLinks(triage.pitch, HIRE_BASE_URL, refToken) : triage.pitch;
 
       const lead = await prisma.socialHuntLead.create({
         data: {
@@ -463,9 +583,15 @@ async function triageCasts(
           channel: cast.channel,
           status,
           triageScore: triage.score,
-          triageReason: triage.reason,
-          suggestedPitch: triage.pitch,
+          triageReason:
+            findings.length > 0
+              ? `Pitch failed output checks: ${findings.map((f) => f.reason).join('; ')}`
+              : triage.reason,
+          injectionSignals: findings.map((f) => f.check),
+          suggestedPitch: pitch,
           offeringSlug: triage.matchedOffering,
+          refToken,
+          targetAddresses: cast.authorAddresses,
           triagedAt: new Date(),
         },
       });
@@ -474,7 +600,7 @@ async function triageCasts(
         qualifiedLeads.push({
           cast,
           leadId: lead.id,
-          pitch: triage.pitch,
+          pitch,
           score: triage.score,
         });
       }
@@ -497,7 +623,7 @@ async function triageCasts(
 // ── 3. THE MOUTH ─────────────────────────────────────────────────────────
 
 /**
- * Reply to qualified leads, respecting hourly + daily rate limits.
+ * Reply to qualified leads, respecting the profile's hourly + daily caps.
  *
  * Returns the number of replies successfully sent.
  */
@@ -505,6 +631,7 @@ async function engageLeads(
   qualifiedLeads: QualifiedLead[],
   agentId: string,
   signerUuid: string,
+  profile: HunterProfile,
   prisma: PrismaClient,
   neynar: NeynarClient,
   log: pino.Logger,
@@ -515,26 +642,16 @@ async function engageLeads(
   const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
   const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
 
+  // Follow-ups from the nurture worker count against the same caps
   const [hourlyCount, dailyCount] = await Promise.all([
-    prisma.socialHuntLead.count({
-      where: {
-        agentId,
-        status: SocialHuntStatus.REPLIED,
-        repliedAt: { gte: oneHourAgo },
-      },
-    }),
-    prisma.socialHuntLead.count({
-      where: {
-        agentId,
-        status: SocialHuntStatus.REPLIED,
-        repliedAt: { gte: oneDayAgo },
-      },
-    }),
+    countHuntReplies(prisma, agentId, oneHourAgo),
+    countHuntReplies(prisma, agentId, oneDayAgo),
   ]);
 
-  let remainingHourly = MAX_REPLIES_PER_HOUR - hourlyCount;
-  let remainingDaily = MAX_REPLIES_PER_DAY - dailyCount;
+  let remainingHourly = profile.maxRepliesPerHour - hourlyCount;
+  let remainingDaily = profile.maxRepliesPerDay - dailyCount;
   let repliesSent = 0;
+  const drafts = new DraftQueue(prisma);
 
   for (const { cast, leadId, pitch, score } of qualifiedLeads) {
     if (remainingHourly <= 0 || remainingDaily <= 0) {
@@ -546,6 +663,32 @@ async function engageLeads(
     }
 
     try {
+      // Held pitches still use up this cycle's allowance so a supervised
+      // agent cannot queue more than it could have sent
+      const draftId = await drafts.holdIfSupervised({
+        agentId,
+        kind: 'HUNT_PITCH',
+        text: pitch,
+        replyToHash: cast.hash,
+        leadId,
+        context: {
+          targetUsername: cast.authorUsername,
+          targetText: cast.text,
+          channel: cast.channel,
+          score,
+        },
+      });
+      if (draftId) {
+        await prisma.socialHuntLead.update({
+          where: { id: leadId },
+          data: { status: SocialHuntStatus.DRAFTED, pitchText: pitch },
+        });
+        remainingHourly--;
+        remainingDaily--;
+        log.info({ castHash: cast.hash, draftId, score }, 'Mouth: pitch held as draft');
+        continue;
+      }
+
       const replyResult = await neynar.replyCast(
         signerUuid,
         cast.hash,
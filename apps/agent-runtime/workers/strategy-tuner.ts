@@ -0,0 +1,140 @@
+/**
+ * Strategy Tuner Worker
+ *
+ * Re-learns the posting weights of every ACTIVE agent whose strategy has
+ * `adaptive.enabled` (src/core/strategy-tuner.ts): content types, topics,
+ * posting hours and image chance, from the engagement on the agent's
+ * casts of the last 30 days. Each change is logged with the engagement
+ * behind it as a StrategyTuningLog; the scheduler worker posts by the
+ * tuned weights from the next post on.
+ *
+ * Runs on a repeatable schedule (every 6 hours).
+ */
+import { Worker, Queue, type Job } from 'bullmq';
+import { PrismaClient } from '@prisma/client';
+import type { Redis } from 'ioredis';
+import pino from 'pino';
+import { logger as rootLogger } from '../src/config.js';
+import { StrategyTuner } from '../src/core/strategy-tuner.js';
+import { resolveStrategy } from '../src/strategies/posting.js';
+
+const QUEUE_NAME = 'strategy-tuner';
+const TUNING_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+interface StrategyTunerJobData {
+  task: 'tune-strategies';
+  triggeredAt: string;
+}
+
+interface StrategyTunerJobResult {
+  tunedCount: number;
+  changeCount: number;
+  processedAt: string;
+}
+
+// ── Worker Factory ───────────────────────────────────────────────────────────
+
+/**
+ * Create the strategy tuner worker and its scheduling queue.
+ *
+ * @param connection - Redis connection for BullMQ
+ */
+export function createStrategyTunerWorker(connection: Redis) {
+  const logger: pino.Logger = rootLogger.child({ module: 'StrategyTuner' });
+  const prisma = new PrismaClient();
+  const tuner = new StrategyTuner(prisma);
+
+  const queue = new Queue<StrategyTunerJobData>(QUEUE_NAME, { connection });
+
+  const worker = new Worker<StrategyTunerJobData, StrategyTunerJobResult>(
+    QUEUE_NAME,
+    async (job: Job<StrategyTunerJobData>): Promise<StrategyTunerJobResult> => {
+      if (job.data.task !== 'tune-strategies') {
+        logger.warn({ task: job.data.task }, 'Unknown strategy tuner task');
+        return { tunedCount: 0, changeCount: 0, processedAt: new Date().toISOString() };
+      }
+
+      const agents = await prisma.agent.findMany({
+        where: { status: 'ACTIVE' },
+        select: { id: true, strategy: true, contentCalendar: { select: { timezone: true } } },
+      });
+
+      let tunedCount = 0;
+      let changeCount = 0;
+      for (const agent of agents) {
+        const strategy = resolveStrategy(agent.strategy);
+        if (!strategy.adaptive?.enabled) continue;
+
+        try {
+          const changes = await tuner.tune(agent.id, strategy, agent.contentCalendar?.timezone ?? 'UTC');
+          if (!changes) {
+            logger.debug({ agentId: agent.id }, 'Too few settled casts to tune on yet');
+            continue;
+          }
+
+          tunedCount++;
+          changeCount += changes.length;
+          for (const change of changes) {
+            logger.info({ agentId: agent.id, dimension: change.dimension }, change.explanation);
+          }
+        } catch (error) {
+          // One agent's bad data must not stop the others from learning
+          logger.error(
+            { agentId: agent.id, error: error instanceof Error ? error.message : String(error) },
+            'Strategy tuning failed',
+          );
+        }
+      }
+
+      return { tunedCount, changeCount, processedAt: new Date().toISOString() };
+    },
+    {
+      connection,
+      concurrency: 1,
+      removeOnComplete: { count: 50 },
+      removeOnFail: { count: 25 },
+    },
+  );
+
+  worker.on('completed', (job, result) => {
+    logger.info(
+      { jobId: job.id, tuned: result.tunedCount, changes: result.changeCount },
+      'Strategy tuning pass completed',
+    );
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error({ jobId: job?.id, error: error.message }, 'Strategy tuning pass failed');
+  });
+
+  logger.info('Strategy tuner worker initialized');
+
+  return {
+    worker,
+    queue,
+    shutdown: async () => {
+      await worker.close();
+      await queue.close();
+      await prisma.$disconnect();
+      logger.info('Strategy tuner worker shut down');
+    },
+  };
+}
+
+// ── Scheduling ───────────────────────────────────────────────────────────────
+
+/**
+ * Register the repeatable strategy tuning pass.
+ */
+export async function scheduleStrategyTuner(queue: Queue): Promise<void> {
+  await queue.add(
+    'tune-strategies',
+    { task: 'tune-strategies', triggeredAt: new Date().toISOString() },
+    {
+      jobId: 'strategy-tuner-repeatable',
+      repeat: { every: TUNING_INTERVAL_MS },
+      removeOnComplete: 50,
+      removeOnFail: 25,
+    },
+  );
+}
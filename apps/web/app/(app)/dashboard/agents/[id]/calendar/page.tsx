@@ -0,0 +1,467 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { ArrowLeft, CalendarClock, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  useContentCalendar,
+  useContentCalendarMutations,
+  type Blackout,
+  type CalendarContentType,
+  type PostingWindow,
+} from '@/hooks/use-content-calendar';
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const CONTENT_TYPES: Array<{ value: CalendarContentType; label: string }> = [
+  { value: 'original', label: 'Cast' },
+  { value: 'thread', label: 'Thread' },
+  { value: 'media', label: 'Cast with image' },
+];
+
+/** datetime-local value (browser time) → ISO */
+function toIso(local: string): string {
+  return new Date(local).toISOString();
+}
+
+export default function AgentCalendarPage() {
+  const params = useParams<{ id: string }>();
+  const agentId = params.id;
+  const { address } = useAccount();
+  const { data, isLoading, error } = useContentCalendar(agentId, address);
+  const mutations = useContentCalendarMutations(agentId, address);
+
+  // Posting settings
+  const [timezone, setTimezone] = useState('UTC');
+  const [cron, setCron] = useState('');
+  const [windows, setWindows] = useState<PostingWindow[]>([]);
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [blackoutStart, setBlackoutStart] = useState('');
+  const [blackoutEnd, setBlackoutEnd] = useState('');
+  const [blackoutReason, setBlackoutReason] = useState('');
+
+  // New series
+  const [seriesName, setSeriesName] = useState('');
+  const [seriesTheme, setSeriesTheme] = useState('');
+  const [seriesCron, setSeriesCron] = useState('0 9 * * 1');
+  const [seriesType, setSeriesType] = useState<CalendarContentType>('thread');
+
+  // New scheduled post
+  const [postAt, setPostAt] = useState('');
+  const [postText, setPostText] = useState('');
+  const [postTopic, setPostTopic] = useState('');
+  const [postType, setPostType] = useState<CalendarContentType>('original');
+
+  useEffect(() => {
+    if (!data) return;
+    setTimezone(data.calendar.timezone);
+    setCron(data.calendar.cron ?? '');
+    setWindows(data.calendar.postingWindows);
+    setBlackouts(data.calendar.blackouts);
+  }, [data]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="py-20 text-center text-sm text-muted-foreground">
+        {error?.message ?? 'Content calendar not available.'}
+      </div>
+    );
+  }
+
+  const updateWindow = (index: number, patch: Partial<PostingWindow>) =>
+    setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+
+  const toggleDay = (index: number, day: number) => {
+    const current = windows[index]?.days ?? [];
+    updateWindow(index, {
+      days: current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort(),
+    });
+  };
+
+  const handleSaveSettings = () => {
+    mutations.updateCalendar.mutate({
+      timezone: timezone.trim() || 'UTC',
+      cron: cron.trim() || null,
+      postingWindows: windows,
+      blackouts,
+    });
+  };
+
+  const handleAddBlackout = () => {
+    if (!blackoutStart || !blackoutEnd) return;
+    setBlackouts((prev) => [
+      ...prev,
+      { start: toIso(blackoutStart), end: toIso(blackoutEnd), reason: blackoutReason.trim() || undefined },
+    ]);
+    setBlackoutStart('');
+    setBlackoutEnd('');
+    setBlackoutReason('');
+  };
+
+  const handleCreateSeries = () => {
+    mutations.createSeries.mutate(
+      { name: seriesName.trim(), theme: seriesTheme.trim(), cron: seriesCron.trim(), contentType: seriesType },
+      {
+        onSuccess: () => {
+          setSeriesName('');
+          setSeriesTheme('');
+        },
+      },
+    );
+  };
+
+  const handleSchedulePost = () => {
+    if (!postAt) return;
+    mutations.schedulePost.mutate(
+      postText.trim()
+        ? { scheduledFor: toIso(postAt), text: postText.trim() }
+        : { scheduledFor: toIso(postAt), topic: postTopic.trim(), contentType: postType },
+      {
+        onSuccess: () => {
+          setPostAt('');
+          setPostText('');
+          setPostTopic('');
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/dashboard/agents/${agentId}`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            Content Calendar
+          </h1>
+          <p className="text-sm text-muted-foreground">When the agent posts, what it posts on a schedule, and when it stays quiet.</p>
+        </div>
+      </div>
+
+      {/* Posting settings */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Posting Schedule</CardTitle>
+          {data.calendar.isDefault && <Badge variant="outline">Strategy default</Badge>}
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Time zone</Label>
+              <Input
+                id="timezone"
+                placeholder="America/New_York"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cron">Cadence (cron)</Label>
+              <Input
+                id="cron"
+                placeholder="Empty = strategy interval, e.g. 0 9,13,18 * * *"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Posting windows</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setWindows((prev) => [...prev, { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add window
+              </Button>
+            </div>
+            {windows.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No windows: the agent posts at any hour.</p>
+            ) : (
+              windows.map((window, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+                  {WEEKDAYS.map((day, d) => (
+                    <Button
+                      key={day}
+                      size="sm"
+                      variant={window.days.includes(d) ? 'default' : 'outline'}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => toggleDay(index, d)}
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <p className="text-xs text-muted-foreground">
+              Posts that come due outside every window wait for the next one. Series and scheduled posts ignore windows.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Blackout periods</Label>
+            {blackouts.map((blackout, index) => (
+              <div key={index} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span>
+                  {new Date(blackout.start).toLocaleString()} – {new Date(blackout.end).toLocaleString()}
+                  {blackout.reason && <span className="text-muted-foreground"> · {blackout.reason}</span>}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setBlackouts((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="datetime-local"
+                className="w-56"
+                value={blackoutStart}
+                onChange={(e) => setBlackoutStart(e.target.value)}
+              />
+              <Input
+                type="datetime-local"
+                className="w-56"
+                value={blackoutEnd}
+                onChange={(e) => setBlackoutEnd(e.target.value)}
+              />
+              <Input
+                className="w-48"
+                placeholder="Reason (optional)"
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+              />
+              <Button size="sm" variant="outline" onClick={handleAddBlackout} disabled={!blackoutStart || !blackoutEnd}>
+                Add blackout
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSaveSettings} disabled={mutations.updateCalendar.isPending}>
+              {mutations.updateCalendar.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save schedule
+            </Button>
+            {mutations.updateCalendar.error && (
+              <p className="text-sm text-red-500">{mutations.updateCalendar.error.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Series */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recurring Series</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.series.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No series yet, e.g. a weekly market recap thread.</p>
+          ) : (
+            data.series.map((series) => (
+              <div key={series.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{series.name}</span>
+                    <Badge variant="outline" className="font-mono text-xs">{series.cron}</Badge>
+                    <Badge variant="outline" className="capitalize">{series.contentType}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{series.theme}</p>
+                  {series.lastRunAt && (
+                    <p className="text-xs text-muted-foreground">Last ran {new Date(series.lastRunAt).toLocaleString()}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={mutations.updateSeries.isPending}
+                    onClick={() => mutations.updateSeries.mutate({ seriesId: series.id, enabled: !series.enabled })}
+                  >
+                    {series.enabled ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={mutations.deleteSeries.isPending}
+                    onClick={() => mutations.deleteSeries.mutate(series.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 rounded-md border border-dashed p-3">
+            <Input placeholder="Name" value={seriesName} onChange={(e) => setSeriesName(e.target.value)} />
+            <Input
+              className="font-mono"
+              placeholder="Cron, e.g. 0 9 * * 1"
+              value={seriesCron}
+              onChange={(e) => setSeriesCron(e.target.value)}
+            />
+            <Select value={seriesType} onValueChange={(value) => setSeriesType(value as CalendarContentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTENT_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              className="md:col-span-3"
+              placeholder="Theme: what each installment covers"
+              value={seriesTheme}
+              onChange={(e) => setSeriesTheme(e.target.value)}
+            />
+            <div className="md:col-span-3 flex items-center gap-3">
+              <Button
+                size="sm"
+                onClick={handleCreateSeries}
+                disabled={mutations.createSeries.isPending || !seriesName.trim() || !seriesTheme.trim()}
+              >
+                Add series
+              </Button>
+              {mutations.createSeries.error && (
+                <p className="text-sm text-red-500">{mutations.createSeries.error.message}</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Scheduled posts */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Scheduled Posts</CardTitle>
+          <Badge variant="outline">{data.upcoming.length} upcoming</Badge>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.upcoming.map((post) => (
+            <div key={post.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{new Date(post.scheduledFor).toLocaleString()}</p>
+                <p className="whitespace-pre-wrap text-sm">
+                  {post.text ?? <span className="italic text-muted-foreground">Generated about: {post.topic}</span>}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={mutations.cancelPost.isPending}
+                onClick={() => mutations.cancelPost.mutate(post.id)}
+              >
+                Cancel
+              </Button>
+            </div>
+          ))}
+
+          <div className="space-y-3 rounded-md border border-dashed p-3">
+            <Input
+              type="datetime-local"
+              className="w-56"
+              value={postAt}
+              onChange={(e) => setPostAt(e.target.value)}
+            />
+            <Textarea
+              placeholder="Post text, written ahead of time"
+              value={postText}
+              onChange={(e) => setPostText(e.target.value)}
+            />
+            {!postText.trim() && (
+              <div className="flex flex-wrap gap-3">
+                <Input
+                  className="flex-1 min-w-[16rem]"
+                  placeholder="…or a topic to write about when it is due"
+                  value={postTopic}
+                  onChange={(e) => setPostTopic(e.target.value)}
+                />
+                <Select value={postType} onValueChange={(value) => setPostType(value as CalendarContentType)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTENT_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <Button
+                size="sm"
+                onClick={handleSchedulePost}
+                disabled={mutations.schedulePost.isPending || !postAt || (!postText.trim() && !postTopic.trim())}
+              >
+                Schedule post
+              </Button>
+              {mutations.schedulePost.error && (
+                <p className="text-sm text-red-500">{mutations.schedulePost.error.message}</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { ArrowLeft, Crosshair, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useHunterProfile,
+  useUpdateHunterProfile,
+  type ActiveHoursWindow,
+} from '@/hooks/use-hunter-profile';
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** One entry per line (or comma, for channels) → trimmed, non-empty */
+function toList(value: string, separator: RegExp = /\n/): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export default function AgentHunterPage() {
+  const params = useParams<{ id: string }>();
+  const agentId = params.id;
+  const { address } = useAccount();
+  const { data, isLoading, error } = useHunterProfile(agentId, address);
+  const update = useUpdateHunterProfile(agentId, address);
+
+  const [enabled, setEnabled] = useState(true);
+  const [channels, setChannels] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [negativeKeywords, setNegativeKeywords] = useState('');
+  const [triageThreshold, setTriageThreshold] = useState('7');
+  const [maxRepliesPerHour, setMaxRepliesPerHour] = useState('5');
+  const [maxRepliesPerDay, setMaxRepliesPerDay] = useState('20');
+  const [maxFollowUps, setMaxFollowUps] = useState('2');
+  const [timezone, setTimezone] = useState('UTC');
+  const [activeHours, setActiveHours] = useState<ActiveHoursWindow[]>([]);
+  const [offeringSlugs, setOfferingSlugs] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!data) return;
+    const { profile } = data;
+    setEnabled(profile.enabled);
+    setChannels(profile.channels.join(', '));
+    setKeywords(profile.keywords.join('\n'));
+    setNegativeKeywords(profile.negativeKeywords.join('\n'));
+    setTriageThreshold(String(profile.triageThreshold));
+    setMaxRepliesPerHour(String(profile.maxRepliesPerHour));
+    setMaxRepliesPerDay(String(profile.maxRepliesPerDay));
+    setMaxFollowUps(String(profile.maxFollowUps));
+    setTimezone(profile.timezone);
+    setActiveHours(profile.activeHours);
+    setOfferingSlugs(profile.offeringSlugs);
+  }, [data]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="py-20 text-center text-sm text-muted-foreground">
+        {error?.message ?? 'Hunter profile not available.'}
+      </div>
+    );
+  }
+
+  const updateWindow = (index: number, patch: Partial<ActiveHoursWindow>) =>
+    setActiveHours((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+
+  const toggleDay = (index: number, day: number) => {
+    const current = activeHours[index]?.days ?? [];
+    updateWindow(index, {
+      days: current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort(),
+    });
+  };
+
+  const toggleOffering = (slug: string) =>
+    setOfferingSlugs((prev) => (prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]));
+
+  const handleSave = () => {
+    update.mutate({
+      enabled,
+      channels: toList(channels, /[,\s]+/).map((c) => c.replace(/^\//, '').toLowerCase()),
+      keywords: toList(keywords),
+      negativeKeywords: toList(negativeKeywords),
+      triageThreshold: Number(triageThreshold),
+      maxRepliesPerHour: Number(maxRepliesPerHour),
+      maxRepliesPerDay: Number(maxRepliesPerDay),
+      maxFollowUps: Number(maxFollowUps),
+      timezone: timezone.trim() || 'UTC',
+      activeHours,
+      offeringSlugs,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/dashboard/agents/${agentId}`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Crosshair className="h-6 w-6" />
+            Social Hunter
+          </h1>
+          <p className="text-sm text-muted-foreground">Where the agent looks for buyers, what it ignores, and how often it pitches.</p>
+        </div>
+      </div>
+
+      {/* Targeting */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Targeting</CardTitle>
+          <div className="flex items-center gap-2">
+            {data.profile.isDefault && <Badge variant="outline">Defaults</Badge>}
+            <Button size="sm" variant={enabled ? 'default' : 'outline'} onClick={() => setEnabled(!enabled)}>
+              {enabled ? 'Hunting' : 'Paused'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="channels">Channels</Label>
+            <Input
+              id="channels"
+              placeholder="Empty = channels for your offerings' categories, e.g. dev, rust, base"
+              value={channels}
+              onChange={(e) => setChannels(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="keywords">Search queries</Label>
+              <Textarea
+                id="keywords"
+                rows={6}
+                placeholder={'One per line. Empty = the default queries\nneed a smart contract audit'}
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="negative-keywords">Negative keywords</Label>
+              <Textarea
+                id="negative-keywords"
+                rows={6}
+                placeholder={'One per line; casts containing one are skipped\nairdrop'}
+                value={negativeKeywords}
+                onChange={(e) => setNegativeKeywords(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Offerings to pitch</Label>
+            {data.offerings.length === 0 ? (
+              <p className="text-xs text-muted-foreground">The agent has no offerings; it will not hunt.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {data.offerings.map((offering) => (
+                  <Button
+                    key={offering.slug}
+                    size="sm"
+                    variant={offeringSlugs.includes(offering.slug) ? 'default' : 'outline'}
+                    disabled={offering.status !== 'ACTIVE' && !offeringSlugs.includes(offering.slug)}
+                    onClick={() => toggleOffering(offering.slug)}
+                  >
+                    {offering.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">None selected: every active offering may be pitched.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Limits & hours */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Limits & Hours</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="threshold">Triage threshold (1-10)</Label>
+              <Input
+                id="threshold"
+                type="number"
+                min={1}
+                max={10}
+                value={triageThreshold}
+                onChange={(e) => setTriageThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="per-hour">Replies per hour</Label>
+              <Input
+                id="per-hour"
+                type="number"
+                min={0}
+                max={20}
+                value={maxRepliesPerHour}
+                onChange={(e) => setMaxRepliesPerHour(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="per-day">Replies per day</Label>
+              <Input
+                id="per-day"
+                type="number"
+                min={0}
+                max={100}
+                value={maxRepliesPerDay}
+                onChange={(e) => setMaxRepliesPerDay(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="follow-ups">Follow-ups per lead</Label>
+              <Input
+                id="follow-ups"
+                type="number"
+                min={0}
+                max={5}
+                value={maxFollowUps}
+                onChange={(e) => setMaxFollowUps(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Time zone</Label>
+              <Input
+                id="timezone"
+                placeholder="America/New_York"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Active hours</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setActiveHours((prev) => [...prev, { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add window
+              </Button>
+            </div>
+            {activeHours.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No windows: the agent hunts at any hour.</p>
+            ) : (
+              activeHours.map((window, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+                  {WEEKDAYS.map((day, d) => (
+                    <Button
+                      key={day}
+                      size="sm"
+                      variant={window.days.includes(d) ? 'default' : 'outline'}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => toggleDay(index, d)}
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setActiveHours((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSave} disabled={update.isPending}>
+              {update.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save profile
+            </Button>
+            {update.error && <p className="text-sm text-red-500">{update.error.message}</p>}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import {
   Wallet,
   Shield,
   Zap,
+  CalendarClock,
+  Crosshair,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -30,6 +32,10 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { StatCard } from '@/components/shared/stat-card';
+import { SpendPanel } from '@/components/agent/spend-panel';
+import { ModerationPanel } from '@/components/agent/moderation-panel';
+import { DraftsPanel } from '@/components/agent/drafts-panel';
+import { StrategyTuningCard } from '@/components/agent/strategy-tuning-card';
 import { useAccount } from 'wagmi';
 import { useAgent, useActivateAgent } from '@/hooks/use-agent';
 import { cn, formatAddress, getBaseScanUrl } from '@/lib/utils';
@@ -209,6 +215,18 @@ export default function AgentDetailPage() {
               Activate
             </Button>
           )}
+          <Link href={`/dashboard/agents/${id}/calendar`}>
+            <Button variant="outline" size="sm">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Calendar
+            </Button>
+          </Link>
+          <Link href={`/dashboard/agents/${id}/hunter`}>
+            <Button variant="outline" size="sm">
+              <Crosshair className="h-4 w-4 mr-2" />
+              Hunter
+            </Button>
+          </Link>
           {agent.farcasterUsername && (
             <a
               href={`https://warpcast.com/${agent.farcasterUsername}`}
@@ -339,6 +357,9 @@ export default function AgentDetailPage() {
           <TabsTrigger value="casts">Recent Casts</TabsTrigger>
           <TabsTrigger value="config">Configuration</TabsTrigger>
           <TabsTrigger value="identity">On-Chain Identity</TabsTrigger>
+          <TabsTrigger value="spend">Spend</TabsTrigger>
+          <TabsTrigger value="moderation">Moderation</TabsTrigger>
+          <TabsTrigger value="drafts">Drafts</TabsTrigger>
         </TabsList>
 
         <TabsContent value="casts" className="space-y-4 mt-4">
@@ -441,14 +462,22 @@ export default function AgentDetailPage() {
               {strategy && (
                 <div>
                   <p className="text-sm font-medium mb-1">Strategy</p>
-                  <div className="flex gap-2">
+                  <div className="flex flex-wrap gap-2">
+                    {typeof strategy.name === 'string' && <Badge variant="secondary">{strategy.name}</Badge>}
                     <Badge>Frequency: {String(strategy.postingFrequency ?? 'N/A')}h</Badge>
                     <Badge variant="outline">Mode: {String(strategy.engagementMode ?? 'N/A')}</Badge>
+                    {Array.isArray(strategy.channels) &&
+                      strategy.channels.map((channel) => (
+                        <Badge key={String(channel)} variant="outline">
+                          /{String(channel)}
+                        </Badge>
+                      ))}
                   </div>
                 </div>
               )}
             </CardContent>
           </Card>
+          <StrategyTuningCard agentId={id} walletAddress={connectedAddress} className="mt-4" />
         </TabsContent>
 
         <TabsContent value="identity" className="space-y-4 mt-4">
@@ -594,6 +623,18 @@ export default function AgentDetailPage() {
             </Card>
           )}
         </TabsContent>
+
+        <TabsContent value="spend" className="mt-4">
+          <SpendPanel agentId={id} walletAddress={connectedAddress} />
+        </TabsContent>
+
+        <TabsContent value="moderation" className="mt-4">
+          <ModerationPanel agentId={id} walletAddress={connectedAddress} />
+        </TabsContent>
+
+        <TabsContent value="drafts" className="mt-4">
+          <DraftsPanel agentId={id} walletAddress={connectedAddress} />
+        </TabsContent>
       </Tabs>
     </div>
   );
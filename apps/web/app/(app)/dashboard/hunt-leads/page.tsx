@@ -11,6 +11,7 @@ import {
   MessageSquare,
   TrendingUp,
   CheckCheck,
+  CircleDollarSign,
   AlertTriangle,
   Loader2,
   Filter,
@@ -30,6 +31,7 @@ import {
 import { useMyAgents } from '@/hooks/use-agent';
 import {
   useHuntLeads,
+  type NurtureStep,
   type SocialHuntLead,
   type SocialHuntStatus,
 } from '@/hooks/use-hunt-leads';
@@ -61,6 +63,21 @@ const STATUS_CONFIG: Record<
     classes: 'border-white/30 text-white/80 bg-white/[0.08]',
     dot: 'bg-white/80',
   },
+  NURTURING: {
+    label: 'NURTURING',
+    classes: 'border-white/35 text-white/90 bg-white/[0.08]',
+    dot: 'bg-white/90',
+  },
+  DECLINED: {
+    label: 'DECLINED',
+    classes: 'border-white/10 text-white/30 bg-black',
+    dot: 'bg-white/20',
+  },
+  STALLED: {
+    label: 'STALLED',
+    classes: 'border-white/15 text-white/40 bg-white/[0.03]',
+    dot: 'bg-white/30',
+  },
   CONVERTED: {
     label: 'CONVERTED',
     classes: 'border-white text-white bg-white/15',
@@ -81,25 +98,44 @@ const STATUS_CONFIG: Record<
     classes: 'border-white/20 text-white/40 bg-black',
     dot: 'bg-white/20',
   },
+  DRAFTED: {
+    label: 'DRAFTED',
+    classes: 'border-white/25 text-white/70 bg-white/[0.05]',
+    dot: 'bg-white/60',
+  },
 };
 
 const ALL_STATUSES: SocialHuntStatus[] = [
   'IDENTIFIED',
   'QUALIFIED',
   'REPLIED',
+  'NURTURING',
+  'DECLINED',
+  'STALLED',
   'CONVERTED',
   'SKIPPED',
   'COOLDOWN',
   'FAILED',
+  'DRAFTED',
 ];
 
+const NURTURE_STEP_LABELS: Record<NurtureStep['kind'], string> = {
+  RESPONSE: 'REPLY',
+  LIKE: 'LIKED',
+  FOLLOW_UP: 'FOLLOW-UP',
+  STOPPED: 'STOPPED',
+};
+
 // ── Sub-components ───────────────────────────────────────────────────────
 
-function TerminalHeader({ total, avgScore, repliedCount, convertedCount }: {
+function TerminalHeader({ total, avgScore, qualifiedCount, repliedCount, convertedCount, revenuePerLead }: {
   total: number;
   avgScore: number;
+  qualifiedCount: number;
   repliedCount: number;
   convertedCount: number;
+  /** USDC per lead replied to, formatted */
+  revenuePerLead: string;
 }) {
   return (
     <div className="space-y-4">
@@ -122,10 +158,10 @@ function TerminalHeader({ total, avgScore, repliedCount, convertedCount }: {
       </div>
 
       {/* Stats summary bar */}
-      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
         <StatPill
           icon={<Filter className="h-3.5 w-3.5" />}
-          label="TOTAL LEADS"
+          label="SCANNED"
           value={String(total)}
         />
         <StatPill
@@ -133,6 +169,11 @@ function TerminalHeader({ total, avgScore, repliedCount, convertedCount }: {
           label="AVG SCORE"
           value={avgScore > 0 ? avgScore.toFixed(1) : '—'}
         />
+        <StatPill
+          icon={<Target className="h-3.5 w-3.5" />}
+          label="QUALIFIED"
+          value={String(qualifiedCount)}
+        />
         <StatPill
           icon={<MessageSquare className="h-3.5 w-3.5" />}
           label="REPLIED"
@@ -143,6 +184,11 @@ function TerminalHeader({ total, avgScore, repliedCount, convertedCount }: {
           label="CONVERTED"
           value={String(convertedCount)}
         />
+        <StatPill
+          icon={<CircleDollarSign className="h-3.5 w-3.5" />}
+          label="REV / LEAD"
+          value={revenuePerLead}
+        />
       </div>
     </div>
   );
@@ -284,6 +330,13 @@ function LeadCard({
           </div>
         )}
 
+        {lead.injectionSignals.length > 0 && (
+          <div className="flex items-start gap-3">
+            <span className="font-mono text-[10px] text-white/30 tracking-widest w-16 pt-0.5">INJECTION</span>
+            <span className="font-mono text-[11px] text-white/70">{lead.injectionSignals.join(', ')}</span>
+          </div>
+        )}
+
         {lead.channel && (
           <div className="flex items-center gap-3">
             <span className="font-mono text-[10px] text-white/30 tracking-widest w-16">CHANNEL</span>
@@ -304,6 +357,37 @@ function LeadCard({
         </div>
       )}
 
+      {/* Nurture sequence (responses, likes, follow-ups) */}
+      {lead.nurtureSteps.length > 0 && (
+        <div className="border-t border-white/5 pt-2 space-y-1">
+          <p className="font-mono text-[10px] text-white/30 tracking-widest mb-1">
+            NURTURE &middot; {lead.followUps} FOLLOW-UP{lead.followUps === 1 ? '' : 'S'}
+          </p>
+          {lead.nurtureSteps.map((step) => (
+            <div key={step.id} className="flex items-start gap-3">
+              <span className="font-mono text-[10px] text-white/30 tracking-widest w-16 pt-0.5 shrink-0">
+                {NURTURE_STEP_LABELS[step.kind]}
+              </span>
+              <p className="font-mono text-[11px] text-white/50 leading-relaxed line-clamp-2">
+                {step.intent && <span className="text-white/70">[{step.intent.replace('_', ' ')}] </span>}
+                {step.text ?? step.reason ?? ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Conversion (if converted) */}
+      {lead.status === 'CONVERTED' && lead.convertedJobId && (
+        <div className="flex items-center gap-3">
+          <span className="font-mono text-[10px] text-white/30 tracking-widest w-16">HIRED</span>
+          <span className="font-mono text-[11px] text-white/70">
+            ${(Number(lead.revenueUsdc ?? '0') / 1_000_000).toFixed(2)} USDC
+            {lead.attributedBy && <span className="text-white/30"> &middot; by {lead.attributedBy}</span>}
+          </span>
+        </div>
+      )}
+
       {/* Bottom row: timestamp + action */}
       <div className="flex items-center justify-between pt-1">
         <span className="font-mono text-[10px] text-white/20">
@@ -424,7 +508,9 @@ export default function HuntLeadsPage() {
     });
   }, [allLeads, searchQuery, minScore]);
 
-  // Compute stats from all leads (not filtered)
+  // Funnel counts come from the API (all of the agent's leads); the
+  // average score is over the current page
+  const funnel = leadsData?.funnel;
   const stats = useMemo(() => {
     const scoredLeads = allLeads.filter((l) => l.triageScore !== null);
     const avgScore =
@@ -432,16 +518,16 @@ export default function HuntLeadsPage() {
         ? scoredLeads.reduce((sum, l) => sum + (l.triageScore ?? 0), 0) /
           scoredLeads.length
         : 0;
-    const repliedCount = allLeads.filter((l) => l.status === 'REPLIED' || l.status === 'CONVERTED').length;
-    const convertedCount = allLeads.filter((l) => l.status === 'CONVERTED').length;
 
     return {
-      total: pagination?.total ?? allLeads.length,
+      total: funnel?.scanned ?? pagination?.total ?? allLeads.length,
       avgScore,
-      repliedCount,
-      convertedCount,
+      qualifiedCount: funnel?.qualified ?? 0,
+      repliedCount: funnel?.replied ?? 0,
+      convertedCount: funnel?.converted ?? 0,
+      revenuePerLead: funnel ? `$${(Number(funnel.revenuePerLeadUsdc) / 1_000_000).toFixed(2)}` : '—',
     };
-  }, [allLeads, pagination]);
+  }, [allLeads, pagination, funnel]);
 
   // Handle Execute on Base action
   function handleExecute(lead: SocialHuntLead) {
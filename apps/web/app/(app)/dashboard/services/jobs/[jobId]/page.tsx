@@ -1,6 +1,6 @@
 'use client';
 
-import { use } from 'react';
+import { use, useState } from 'react';
 import Link from 'next/link';
 import {
   ArrowLeft,
@@ -8,15 +8,23 @@ import {
   Clock,
   DollarSign,
   FileJson,
+  Gavel,
   Loader2,
+  ShieldCheck,
   Zap,
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn, formatUsdcPrice } from '@/lib/utils';
-import { useServiceJob } from '@/hooks/use-services';
+import {
+  useApproveServiceJob,
+  useDisputeServiceJob,
+  useServiceJob,
+  useServiceJobEvents,
+} from '@/hooks/use-services';
 import { useAccount } from 'wagmi';
 import { GlassBoxViewer } from '@/components/services/glass-box-viewer';
+import { JobEventTimeline } from '@/components/services/job-event-timeline';
 import { VerifyOnChainLink } from '@/components/services/verify-on-chain-link';
 
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
@@ -31,9 +39,25 @@ const STATUS_STYLES: Record<string, { bg: string; text: string; label: string }>
   COMPLETED:  { bg: 'bg-cp-acid/10',    text: 'text-cp-acid',    label: 'Completed' },
   REJECTED:   { bg: 'bg-red-500/10',    text: 'text-red-400',    label: 'Rejected' },
   DISPUTED:   { bg: 'bg-orange-500/10', text: 'text-orange-400', label: 'Disputed' },
+  RESOLVED:   { bg: 'bg-purple-500/10', text: 'text-purple-400', label: 'Resolved' },
   EXPIRED:    { bg: 'bg-gray-500/10',   text: 'text-gray-400',   label: 'Expired' },
 };
 
+const ESCROW_LABELS: Record<string, { text: string; label: string }> = {
+  HELD:            { text: 'text-cp-cyan',   label: 'Held in escrow' },
+  RELEASE_PENDING: { text: 'text-amber-400', label: 'Release pending' },
+  RELEASED:        { text: 'text-cp-acid',   label: 'Released to seller' },
+  REFUND_PENDING:  { text: 'text-amber-400', label: 'Refund pending' },
+  REFUNDED:        { text: 'text-red-400',   label: 'Refunded to buyer' },
+};
+
+const DISPUTE_OUTCOME_LABELS: Record<string, string> = {
+  REFUND:         'Refunded in full',
+  PARTIAL_REFUND: 'Partially refunded',
+  REDELIVER:      'Sent back for redelivery',
+  UPHOLD:         'Delivery upheld',
+};
+
 // ── Page Component ───────────────────────────────────────────────────────
 
 /**
@@ -41,11 +65,14 @@ const STATUS_STYLES: Record<string, { bg: string; text: string; label: string }>
  *
  * Real-time view of a service job with:
  *   - Status timeline
+ *   - Live delivery progress (streamed seller events)
+ *   - Escrow approval and dispute controls
  *   - Requirements / Deliverables JSON
  *   - Glass Box Decision Log (RLAIF telemetry)
  *   - On-chain verification link
  *
  * Polls every 5s while job is in-progress, stops at terminal states.
+ * Progress events stream over SSE and refresh the job on status changes.
  */
 export default function ServiceJobDetailPage({
   params,
@@ -57,6 +84,11 @@ export default function ServiceJobDetailPage({
   const walletAddress = DEMO_MODE ? DEMO_WALLET : connectedAddress;
 
   const { data: job, isLoading, error } = useServiceJob(jobId, walletAddress);
+  const { events, isLive } = useServiceJobEvents(job ? jobId : null, walletAddress);
+  const approveJob = useApproveServiceJob(walletAddress);
+  const disputeJob = useDisputeServiceJob(walletAddress);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [showDisputeForm, setShowDisputeForm] = useState(false);
 
   // ── Loading State ─────────────────────────────────────────────────────
   if (isLoading) {
@@ -91,8 +123,10 @@ export default function ServiceJobDetailPage({
   }
 
   const statusStyle = STATUS_STYLES[job.status] ?? { bg: 'bg-blue-500/10', text: 'text-blue-400', label: 'Created' };
-  const isTerminal = ['COMPLETED', 'REJECTED', 'DISPUTED', 'EXPIRED'].includes(job.status);
+  const isTerminal = ['COMPLETED', 'REJECTED', 'RESOLVED', 'EXPIRED'].includes(job.status);
   const isInProgress = !isTerminal;
+  const escrowStyle = ESCROW_LABELS[job.escrowStatus];
+  const canApprove = job.status === 'COMPLETED' && job.escrowStatus === 'HELD';
 
   return (
     <div className="max-w-3xl mx-auto space-y-6">
@@ -175,6 +209,125 @@ export default function ServiceJobDetailPage({
         </div>
       </div>
 
+      {/* ── Delivery Progress ─────────────────────────────────── */}
+      {(job.deliveredAt || events.length > 0) && (
+        <JobEventTimeline events={events} isLive={isLive && isInProgress} />
+      )}
+
+      {/* ── Escrow ────────────────────────────────────────────── */}
+      {escrowStyle && (
+        <div className="cp-glass rounded-lg border border-cp-cyan/10 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-3.5 w-3.5 text-cp-cyan/70" />
+              <span className="text-xs font-share-tech text-white/50">Escrow</span>
+            </div>
+            <span className={cn('text-xs font-orbitron', escrowStyle.text)}>
+              {escrowStyle.label}
+            </span>
+          </div>
+
+          <div className="space-y-1.5">
+            <TimelineRow label="Approved" timestamp={job.approvedAt} />
+            <TimelineRow label="Settled" timestamp={job.escrowSettledAt} />
+            {canApprove && (
+              <TimelineRow label="Auto-release" timestamp={job.approvalDeadline} dimmed />
+            )}
+          </div>
+
+          {canApprove && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={approveJob.isPending}
+              onClick={() => approveJob.mutate(job.id)}
+              className="w-full font-orbitron text-xs text-cp-acid border-cp-acid/30 hover:bg-cp-acid/10"
+            >
+              {approveJob.isPending && <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />}
+              Approve &amp; Release Payment
+            </Button>
+          )}
+
+          {canApprove && !showDisputeForm && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDisputeForm(true)}
+              className="w-full font-orbitron text-xs text-orange-400 border-orange-400/30 hover:bg-orange-400/10"
+            >
+              Dispute Deliverables
+            </Button>
+          )}
+
+          {canApprove && showDisputeForm && (
+            <div className="space-y-2">
+              <textarea
+                value={disputeReason}
+                onChange={(e) => setDisputeReason(e.target.value)}
+                maxLength={1000}
+                rows={3}
+                placeholder="What is wrong with the deliverables?"
+                className="w-full rounded-md bg-black/30 border border-orange-400/20 p-2 text-[11px] font-share-tech text-white/80 placeholder:text-white/25 focus:outline-none focus:border-orange-400/50"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={disputeJob.isPending || disputeReason.trim().length === 0}
+                onClick={() => disputeJob.mutate({ jobId: job.id, reason: disputeReason.trim() })}
+                className="w-full font-orbitron text-xs text-orange-400 border-orange-400/30 hover:bg-orange-400/10"
+              >
+                {disputeJob.isPending && <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />}
+                Open Dispute
+              </Button>
+            </div>
+          )}
+
+          {(approveJob.error ?? disputeJob.error) && (
+            <p className="text-[11px] font-share-tech text-red-400">
+              {(approveJob.error ?? disputeJob.error)?.message}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* ── Dispute ───────────────────────────────────────────── */}
+      {job.dispute && (
+        <div className="cp-glass rounded-lg border border-orange-400/10 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Gavel className="h-3.5 w-3.5 text-orange-400/70" />
+              <span className="text-xs font-share-tech text-white/50">
+                Dispute ({job.dispute.openedByRole === 'buyer' ? 'opened by buyer' : 'execution failure'})
+              </span>
+            </div>
+            <span className="text-xs font-orbitron text-orange-400">
+              {job.dispute.outcome
+                ? DISPUTE_OUTCOME_LABELS[job.dispute.outcome] ?? job.dispute.outcome
+                : 'Awaiting arbiter'}
+            </span>
+          </div>
+
+          <p className="text-[11px] font-share-tech text-white/60">{job.dispute.reason}</p>
+
+          {job.dispute.refundUsdc && (
+            <p className="text-[11px] font-share-tech text-white/50">
+              Refund: <span className="text-cp-acid">{formatUsdcPrice(job.dispute.refundUsdc)}</span>
+            </p>
+          )}
+
+          {job.dispute.resolutionNote && (
+            <p className="text-[11px] font-share-tech text-white/40 italic">
+              {job.dispute.resolutionNote}
+            </p>
+          )}
+
+          <div className="space-y-1.5">
+            <TimelineRow label="Opened" timestamp={job.dispute.createdAt} />
+            <TimelineRow label="Resolved" timestamp={job.dispute.resolvedAt} />
+          </div>
+        </div>
+      )}
+
       {/* ── Requirements ──────────────────────────────────────── */}
       {job.requirements && (
         <JsonSection
@@ -38,6 +38,7 @@ export default function ServicesPage() {
 
   const [sheetOpen, setSheetOpen] = useState(false);
   const [selectedOffering, setSelectedOffering] = useState<ServiceOffering | null>(null);
+  const [referralToken, setReferralToken] = useState<string | undefined>();
 
   // In demo mode, ALWAYS use DEMO_WALLET — ignore MetaMask/Rabby auto-connect.
   // In production, wallet comes from wagmi.
@@ -53,6 +54,34 @@ export default function ServicesPage() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // ── Hire Link ────────────────────────────────────────────────────────
+  // /hire/[slug] lands here with ?offering=&ref= — open that offering's
+  // sheet and keep the token for the job it leads to
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const slug = params.get('offering');
+    if (!slug) return;
+    setReferralToken(params.get('ref') ?? undefined);
+
+    let cancelled = false;
+    fetch(`/api/services/${encodeURIComponent(slug)}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json: { data?: ServiceOffering } | null) => {
+        if (!cancelled && json?.data) {
+          setSelectedOffering(json.data);
+          setSheetOpen(true);
+        }
+      })
+      .catch(() => {
+        /* non-critical — the marketplace still lists the offering */
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // ── Data Fetching ────────────────────────────────────────────────────
 
   const { data, isLoading, error } = useServiceDiscovery({
@@ -203,6 +232,7 @@ export default function ServicesPage() {
         open={sheetOpen}
         onOpenChange={setSheetOpen}
         walletAddress={walletAddress}
+        referralToken={referralToken}
       />
     </div>
   );
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
+import { A2A_MESSAGE_TYPES, a2aDomain, hashA2AParams } from '@/lib/a2a-auth';
+
+const redisSet = vi.fn();
+
+vi.mock('@/lib/redis', () => ({
+  getRedisClient: () => ({ set: redisSet }),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agent: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const SENDER_KEY = generatePrivateKey();
+const SENDER = privateKeyToAccount(SENDER_KEY);
+
+const TARGET_AGENT = {
+  id: 'cm0target00000000000000000',
+  name: 'Target',
+  status: 'ACTIVE',
+  skills: ['trend-analysis'],
+  fid: 42,
+};
+
+const SENDER_AGENT = {
+  id: 'cm0sender00000000000000000',
+  walletAddress: SENDER.address,
+  fid: 7,
+  erc8004TokenId: 12,
+};
+
+const PARAMS = { fromAgentId: SENDER_AGENT.id, payload: { topic: 'base' } };
+
+async function sign(
+  params: typeof PARAMS,
+  options: { account?: typeof SENDER; expiry?: number } = {},
+) {
+  const account = options.account ?? SENDER;
+  const nonce = `0x${'ab'.repeat(32)}` as const;
+  const expiry = options.expiry ?? Math.floor(Date.now() / 1000) + 120;
+  const signature = await account.signTypedData({
+    domain: a2aDomain(),
+    types: A2A_MESSAGE_TYPES,
+    primaryType: 'A2AMessage',
+    message: {
+      method: 'reputation-check',
+      fromAgentId: params.fromAgentId,
+      toAgentId: TARGET_AGENT.id,
+      paramsHash: hashA2AParams(params),
+      nonce,
+      expiry: BigInt(expiry),
+    },
+  });
+  return { signer: account.address, nonce, expiry, signature };
+}
+
+async function send(params: Record<string, unknown>) {
+  const { POST } = await import('../route');
+  const request = new NextRequest(`http://localhost/api/a2a/${TARGET_AGENT.id}`, {
+    method: 'POST',
+    body: JSON.stringify({ jsonrpc: '2.0', method: 'reputation-check', params, id: 1 }),
+  });
+  return POST(request, { params: Promise.resolve({ agentId: TARGET_AGENT.id }) });
+}
+
+describe('POST /api/a2a/[agentId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    redisSet.mockResolvedValue('OK');
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockImplementation(
+      ({ where }: { where: { id: string } }) =>
+        Promise.resolve(where.id === TARGET_AGENT.id ? TARGET_AGENT : SENDER_AGENT),
+    );
+  });
+
+  it('should accept a message signed by the sender agent wallet and burn its nonce', async () => {
+    const auth = await sign(PARAMS);
+
+    const response = await send({ ...PARAMS, auth });
+
+    expect(response.status).toBe(200);
+    expect(redisSet).toHaveBeenCalledWith(
+      `a2a:nonce:${SENDER_AGENT.id}:${auth.nonce}`,
+      '1',
+      'EX',
+      expect.any(Number),
+      'NX',
+    );
+  });
+
+  it('should reject unsigned messages', async () => {
+    const response = await send(PARAMS);
+
+    expect(response.status).toBe(401);
+    expect(redisSet).not.toHaveBeenCalled();
+  });
+
+  it('should reject a signature from another wallet or over altered params', async () => {
+    const stranger = privateKeyToAccount(generatePrivateKey());
+    const forged = await sign(PARAMS, { account: stranger });
+    expect((await send({ ...PARAMS, auth: { ...forged, signer: SENDER.address } })).status).toBe(401);
+
+    const auth = await sign(PARAMS);
+    const tampered = { ...PARAMS, payload: { topic: 'eth' }, auth };
+    expect((await send(tampered)).status).toBe(401);
+    expect(redisSet).not.toHaveBeenCalled();
+  });
+
+  it('should accept the delegated signer only when it is bound', async () => {
+    const runtime = privateKeyToAccount(generatePrivateKey());
+    const auth = await sign(PARAMS, { account: runtime });
+    expect((await send({ ...PARAMS, auth })).status).toBe(401);
+
+    vi.stubEnv('A2A_DELEGATE_SIGNER', runtime.address);
+    try {
+      expect((await send({ ...PARAMS, auth })).status).toBe(200);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should reject expired messages and replayed nonces', async () => {
+    const expired = await sign(PARAMS, { expiry: Math.floor(Date.now() / 1000) - 1 });
+    expect((await send({ ...PARAMS, auth: expired })).status).toBe(401);
+
+    redisSet.mockResolvedValue(null);
+    const replayed = await send({ ...PARAMS, auth: await sign(PARAMS) });
+    expect(replayed.status).toBe(409);
+  });
+});
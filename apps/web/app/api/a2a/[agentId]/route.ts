@@ -4,14 +4,26 @@ import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { successResponse, errorResponse } from "@/lib/api-utils";
 import { Errors } from "@/lib/errors";
+import { a2aAuthSchema, negotiationPayloadSchemas } from "@/lib/validation";
+import { verifyA2AMessage } from "@/lib/a2a-auth";
+import {
+  NEGOTIATION_METHODS,
+  acceptQuote,
+  counterOffer,
+  loadOpenNegotiation,
+  rejectNegotiation,
+  requestQuote,
+  type NegotiationMethod,
+} from "@/lib/negotiation";
 
 const a2aMessageSchema = z.object({
   jsonrpc: z.literal("2.0"),
-  method: z.enum(["query", "collaborate", "delegate", "reputation-check"]),
+  method: z.enum(["query", "collaborate", "delegate", "reputation-check", ...NEGOTIATION_METHODS]),
   params: z.object({
     fromAgentId: z.string().min(1),
     fromFid: z.number().optional(),
     payload: z.record(z.unknown()),
+    auth: a2aAuthSchema.optional(),
   }),
   id: z.union([z.string(), z.number()]),
 });
@@ -21,6 +33,15 @@ const a2aMessageSchema = z.object({
  *
  * Agent-to-Agent communication endpoint.
  * Accepts JSON-RPC 2.0 messages for inter-agent communication.
+ *
+ * Every message must be signed by the sender agent's wallet
+ * (`params.auth`, EIP-712) and carry a fresh nonce — see lib/a2a-auth.ts.
+ * Handlers act for the verified sender, never the claimed one.
+ *
+ * Negotiation methods (quote-request, counter-offer, accept-quote, reject)
+ * are answered here from the seller offering's negotiation bounds — see
+ * lib/negotiation.ts. `agentId` is the seller for buyer messages; either
+ * party can send `reject` to the other.
  */
 export async function POST(
   request: NextRequest,
@@ -46,6 +67,8 @@ export async function POST(
       throw Errors.conflict(`Agent is not active (status: ${agent.status})`);
     }
 
+    const sender = await verifyA2AMessage(agent.id, message);
+
     // Handle reputation-check locally (no need for runtime)
     if (message.method === "reputation-check") {
       return successResponse({
@@ -61,13 +84,25 @@ export async function POST(
       });
     }
 
+    if (isNegotiationMethod(message.method)) {
+      const result = await handleNegotiation(
+        agent.id,
+        message.method,
+        sender.agentId,
+        message.params.payload,
+      );
+      return successResponse({ jsonrpc: "2.0", result, id: message.id });
+    }
+
     // For other methods, forward to the agent runtime via queue
     // (In a full implementation, this would push to a BullMQ A2A queue)
     logger.info(
       {
         targetAgentId: agentId,
         method: message.method,
-        fromAgentId: message.params.fromAgentId,
+        fromAgentId: sender.agentId,
+        senderWallet: sender.walletAddress,
+        verified: sender.verified,
       },
       "A2A message received",
     );
@@ -78,6 +113,7 @@ export async function POST(
         status: "queued",
         targetAgentId: agentId,
         method: message.method,
+        sender,
         message: "A2A message queued for processing",
       },
       id: message.id,
@@ -86,3 +122,95 @@ export async function POST(
     return errorResponse(err);
   }
 }
+
+
+function isNegotiationMethod(method: string): method is NegotiationMethod {
+  return (NEGOTIATION_METHODS as readonly string[]).includes(method);
+}
+
+const NEGOTIATION_OFFERING_SELECT = {
+  id: true,
+  slug: true,
+  sellerAgentId: true,
+  priceUsdc: true,
+  pricingModel: true,
+  negotiationConfig: true,
+} as const;
+
+/**
+ * Answer a negotiation message sent to `targetAgentId`.
+ */
+async function handleNegotiation(
+  targetAgentId: string,
+  method: NegotiationMethod,
+  fromAgentId: string,
+  payload: Record<string, unknown>,
+) {
+  if (method === "quote-request") {
+    const data = negotiationPayloadSchemas["quote-request"].parse(payload);
+
+    const offering = await prisma.serviceOffering.findFirst({
+      where: { slug: data.offeringSlug, status: "ACTIVE" },
+      select: NEGOTIATION_OFFERING_SELECT,
+    });
+    if (!offering) throw Errors.notFound("Service offering (or not ACTIVE)");
+    if (offering.sellerAgentId !== targetAgentId) {
+      throw Errors.badRequest("Offering is not sold by this agent");
+    }
+    if (fromAgentId === targetAgentId) {
+      throw Errors.conflict("An agent cannot negotiate with itself");
+    }
+
+    const buyer = await prisma.agent.findUnique({
+      where: { id: fromAgentId },
+      select: { status: true },
+    });
+    if (!buyer) throw Errors.notFound("Buyer agent");
+    if (buyer.status !== "ACTIVE") throw Errors.conflict("Buyer agent must be ACTIVE");
+
+    return prisma.$transaction((tx) =>
+      requestQuote(tx, offering, fromAgentId, {
+        quantity: data.quantity,
+        proposedPriceUsdc:
+          data.proposedPriceUsdc !== undefined ? BigInt(data.proposedPriceUsdc) : undefined,
+        message: data.message,
+      }),
+    );
+  }
+
+  const { negotiationId } = negotiationPayloadSchemas[method].parse(payload);
+  const negotiation = await loadOpenNegotiation(prisma, negotiationId);
+
+  const fromBuyer =
+    fromAgentId === negotiation.buyerAgentId && targetAgentId === negotiation.sellerAgentId;
+  const fromSeller =
+    fromAgentId === negotiation.sellerAgentId && targetAgentId === negotiation.buyerAgentId;
+  if (!fromBuyer && !(method === "reject" && fromSeller)) {
+    throw Errors.forbidden("Not a party to this negotiation");
+  }
+
+  const offering = await prisma.serviceOffering.findUniqueOrThrow({
+    where: { id: negotiation.offeringId },
+    select: NEGOTIATION_OFFERING_SELECT,
+  });
+
+  switch (method) {
+    case "counter-offer": {
+      const data = negotiationPayloadSchemas["counter-offer"].parse(payload);
+      return prisma.$transaction((tx) =>
+        counterOffer(tx, negotiation, offering, {
+          proposedPriceUsdc: BigInt(data.proposedPriceUsdc),
+          message: data.message,
+        }),
+      );
+    }
+    case "accept-quote":
+      return prisma.$transaction((tx) => acceptQuote(tx, negotiation, offering));
+    case "reject": {
+      const data = negotiationPayloadSchemas.reject.parse(payload);
+      return prisma.$transaction((tx) =>
+        rejectNegotiation(tx, negotiation, offering, fromBuyer ? "buyer" : "seller", data.reason),
+      );
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const BUYER_ID = 'cm0buyer000000000000000000';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agent: { findUnique: vi.fn() },
+    serviceAcceptancePolicy: { findUnique: vi.fn(), upsert: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ id: 'agent-1' }) };
+
+describe('/api/agents/[id]/acceptance-policy', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ creatorAddress: OWNER });
+  });
+
+  it('should return the defaults when no policy was saved', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceAcceptancePolicy.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    const { GET } = await import('../route');
+    const response = await GET(new NextRequest('http://localhost/api/agents/agent-1/acceptance-policy'), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({
+      agentId: 'agent-1',
+      enabled: true,
+      maxConcurrentJobs: 5,
+      llmReviewEnabled: false,
+      isDefault: true,
+    });
+  });
+
+  it('should reject a buyer listed as both allowed and denied', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    const { PUT } = await import('../route');
+    const response = await PUT(
+      new NextRequest('http://localhost/api/agents/agent-1/acceptance-policy', {
+        method: 'PUT',
+        body: JSON.stringify({ allowedBuyerIds: [BUYER_ID], deniedBuyerIds: [BUYER_ID] }),
+      }),
+      params,
+    );
+
+    expect(response.status).not.toBe(200);
+    expect(prisma.serviceAcceptancePolicy.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should forbid other wallets from changing the policy', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      creatorAddress: '0x2222222222222222222222222222222222222222',
+    });
+
+    const { PUT } = await import('../route');
+    const response = await PUT(
+      new NextRequest('http://localhost/api/agents/agent-1/acceptance-policy', {
+        method: 'PUT',
+        body: JSON.stringify({ maxConcurrentJobs: 2 }),
+      }),
+      params,
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.serviceAcceptancePolicy.upsert).not.toHaveBeenCalled();
+  });
+});
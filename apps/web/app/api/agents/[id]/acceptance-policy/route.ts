@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { acceptancePolicySchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Rules the runtime applies when the agent has not saved a policy. */
+const DEFAULT_POLICY = acceptancePolicySchema.parse({});
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its acceptance policy');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/acceptance-policy
+ *
+ * The rules the agent's runtime uses to accept or reject CREATED service
+ * jobs. Returns the defaults (with `isDefault: true`) if none were saved.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const policy = await prisma.serviceAcceptancePolicy.findUnique({
+      where: { agentId },
+    });
+
+    return successResponse(
+      policy ? { ...policy, isDefault: false } : { agentId, ...DEFAULT_POLICY, isDefault: true },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/acceptance-policy
+ *
+ * Replace the agent's acceptance policy. Omitted fields take their
+ * defaults:
+ *   - enabled            — false leaves CREATED jobs for the creator to decide
+ *   - allowedBuyerIds    — when non-empty, only these buyer agents are accepted
+ *   - deniedBuyerIds     — always rejected
+ *   - minBuyerReputation — buyer's ERC-8004 reputation score (0–10000)
+ *   - maxConcurrentJobs  — ACCEPTED + DELIVERING jobs; extra jobs wait
+ *   - llmReviewEnabled   — LLM sanity check of the requirements
+ *   - llmReviewInstructions — extra guidance for that check
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = acceptancePolicySchema.parse(body);
+
+    const policy = await prisma.serviceAcceptancePolicy.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info(
+      {
+        agentId,
+        enabled: policy.enabled,
+        allowed: policy.allowedBuyerIds.length,
+        denied: policy.deniedBuyerIds.length,
+        minBuyerReputation: policy.minBuyerReputation,
+        maxConcurrentJobs: policy.maxConcurrentJobs,
+        llmReviewEnabled: policy.llmReviewEnabled,
+      },
+      'Service acceptance policy updated',
+    );
+
+    return successResponse({ ...policy, isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    scheduledPost: { findUnique: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ id: 'agent-1', postId: 'post-1' }) };
+const url = 'http://localhost/api/agents/agent-1/calendar/posts/post-1';
+
+function mockPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'post-1',
+    agentId: 'agent-1',
+    status: 'SCHEDULED',
+    scheduledFor: new Date(Date.now() + 60 * 60 * 1000),
+    agent: { creatorAddress: OWNER },
+    ...overrides,
+  };
+}
+
+describe('/api/agents/[id]/calendar/posts/[postId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.scheduledPost.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(mockPost());
+    (prisma.scheduledPost.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+  });
+
+  it('should reschedule a pending post', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    const scheduledFor = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(
+      new NextRequest(url, { method: 'PATCH', body: JSON.stringify({ scheduledFor }) }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+      where: { id: 'post-1', status: 'SCHEDULED' },
+      data: expect.objectContaining({ scheduledFor: new Date(scheduledFor) }),
+    });
+  });
+
+  it('should refuse to move a post into the past', async () => {
+    const { PATCH } = await import('../route');
+    const response = await PATCH(
+      new NextRequest(url, { method: 'PATCH', body: JSON.stringify({ scheduledFor: '2020-01-01T00:00:00.000Z' }) }),
+      params,
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should cancel a pending post', async () => {
+    const { DELETE } = await import('../route');
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.status).toBe('CANCELLED');
+  });
+
+  it('should not cancel a post that already went out', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.scheduledPost.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(mockPost({ status: 'PUBLISHED' }));
+    (prisma.scheduledPost.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const { DELETE } = await import('../route');
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params);
+
+    expect(response.status).toBe(409);
+  });
+});
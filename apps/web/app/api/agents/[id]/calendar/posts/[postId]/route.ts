@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { updateScheduledPostSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string; postId: string }>;
+}
+
+async function requireOwnedPost(agentId: string, postId: string, address: string) {
+  const post = await prisma.scheduledPost.findUnique({
+    where: { id: postId },
+    include: { agent: { select: { creatorAddress: true } } },
+  });
+
+  if (!post || post.agentId !== agentId) throw Errors.notFound('Scheduled post');
+  if (!DEMO_MODE && post.agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its scheduled posts');
+  }
+  return post;
+}
+
+/**
+ * PATCH /api/agents/[id]/calendar/posts/[postId]
+ *
+ * Edit or reschedule a post that has not gone out yet. Takes the same
+ * fields as POST /api/agents/[id]/calendar/posts, all optional.
+ *
+ * Auth: Wallet signature required. Only the agent creator can edit it.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId, postId } = await context.params;
+
+    const post = await requireOwnedPost(agentId, postId, address);
+
+    const body: unknown = await request.json();
+    const data = updateScheduledPostSchema.parse(body);
+
+    const scheduledFor = data.scheduledFor ? new Date(data.scheduledFor) : undefined;
+    if (scheduledFor && scheduledFor.getTime() <= Date.now()) {
+      throw Errors.badRequest('scheduledFor must be in the future');
+    }
+
+    // Guarded on SCHEDULED so an edit cannot race the post going out
+    const updated = await prisma.scheduledPost.updateMany({
+      where: { id: postId, status: 'SCHEDULED' },
+      data: {
+        scheduledFor,
+        text: data.text ?? data.parts?.[0],
+        parts: data.parts,
+        mediaUrl: data.mediaUrl,
+        topic: data.topic,
+        contentType: data.contentType,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw Errors.conflict(`Post is ${post.status}, not SCHEDULED`);
+    }
+
+    logger.info({ agentId, postId, fields: Object.keys(data) }, 'Scheduled post updated');
+
+    const result = await prisma.scheduledPost.findUnique({ where: { id: postId } });
+    return successResponse(result);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * DELETE /api/agents/[id]/calendar/posts/[postId]
+ *
+ * Cancel a post that has not gone out yet. The row is kept, as
+ * CANCELLED, for the calendar history.
+ *
+ * Auth: Wallet signature required. Only the agent creator can cancel it.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId, postId } = await context.params;
+
+    const post = await requireOwnedPost(agentId, postId, address);
+
+    const updated = await prisma.scheduledPost.updateMany({
+      where: { id: postId, status: 'SCHEDULED' },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (updated.count === 0) {
+      throw Errors.conflict(`Post is ${post.status}, not SCHEDULED`);
+    }
+
+    logger.info({ agentId, postId }, 'Scheduled post cancelled');
+
+    return successResponse({ id: postId, agentId, status: 'CANCELLED' });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server';
+import { ScheduledPostStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, paginatedResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { createScheduledPostSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its scheduled posts');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/calendar/posts
+ *
+ * The agent's one-off scheduled posts, latest due time first.
+ *
+ * Query params:
+ *   - status (optional): Filter by ScheduledPostStatus
+ *   - page   (optional): Page number (default 1)
+ *   - limit  (optional): Items per page (default 20, max 50)
+ *
+ * Auth: Wallet signature required. Only the agent creator can view them.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status');
+    const page = Math.max(1, Number(searchParams.get('page') ?? '1'));
+    const limit = Math.min(50, Math.max(1, Number(searchParams.get('limit') ?? '20')));
+
+    const status =
+      statusParam && Object.values(ScheduledPostStatus).includes(statusParam as ScheduledPostStatus)
+        ? (statusParam as ScheduledPostStatus)
+        : undefined;
+
+    const where = { agentId, ...(status ? { status } : {}) };
+
+    const [posts, total] = await Promise.all([
+      prisma.scheduledPost.findMany({
+        where,
+        orderBy: { scheduledFor: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.scheduledPost.count({ where }),
+    ]);
+
+    return paginatedResponse(posts, { page, limit, total });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/agents/[id]/calendar/posts
+ *
+ * Schedule a one-off post.
+ *
+ * Body:
+ *   - scheduledFor — ISO timestamp, in the future
+ *   - text         — pre-written text, e.g. saved from /api/content/generate
+ *   - parts        — a pre-written thread
+ *   - mediaUrl     — image to embed with pre-written text
+ *   - topic        — without text: generate a post about this when due
+ *   - contentType  — original | thread | media, for generated posts
+ *
+ * Scheduled posts go out at their time regardless of posting windows,
+ * but are skipped during blackouts. They still pass moderation and, for
+ * supervised agents, wait as drafts.
+ *
+ * Auth: Wallet signature required. Only the agent creator can schedule.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = createScheduledPostSchema.parse(body);
+
+    const scheduledFor = new Date(data.scheduledFor);
+    if (scheduledFor.getTime() <= Date.now()) {
+      throw Errors.badRequest('scheduledFor must be in the future');
+    }
+
+    const post = await prisma.scheduledPost.create({
+      data: {
+        agentId,
+        scheduledFor,
+        text: data.text ?? data.parts?.[0],
+        parts: data.parts ?? [],
+        mediaUrl: data.mediaUrl,
+        topic: data.topic,
+        contentType: data.contentType,
+      },
+    });
+
+    logger.info(
+      { agentId, postId: post.id, scheduledFor: post.scheduledFor, prewritten: !!post.text },
+      'Post scheduled',
+    );
+
+    return successResponse(post, 201);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { contentCalendarSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Agents without a calendar post on their strategy's interval, any time. */
+const DEFAULT_CALENDAR = contentCalendarSchema.parse({});
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its content calendar');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/calendar
+ *
+ * The agent's content calendar: posting settings (defaults with
+ * `isDefault: true` if none were saved), its content series, and the
+ * one-off posts still scheduled, soonest first.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const [calendar, series, upcoming] = await Promise.all([
+      prisma.agentContentCalendar.findUnique({ where: { agentId } }),
+      prisma.contentSeries.findMany({ where: { agentId }, orderBy: { createdAt: 'asc' } }),
+      prisma.scheduledPost.findMany({
+        where: { agentId, status: 'SCHEDULED' },
+        orderBy: { scheduledFor: 'asc' },
+        take: 50,
+      }),
+    ]);
+
+    return successResponse({
+      calendar: calendar
+        ? { ...calendar, isDefault: false }
+        : { agentId, ...DEFAULT_CALENDAR, isDefault: true },
+      series,
+      upcoming,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/calendar
+ *
+ * Replace the agent's posting settings. Omitted fields take their
+ * defaults:
+ *   - timezone       — IANA name; windows and cron are local to it
+ *   - cron           — posting cadence; null = the strategy's interval
+ *   - postingWindows — [{ days: [0-6], start: "HH:MM", end: "HH:MM" }];
+ *                      posts due outside them wait for the next window
+ *   - blackouts      — [{ start, end, reason? }] (ISO); nothing posts inside
+ *
+ * The runtime picks up changes within a minute.
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = contentCalendarSchema.parse(body);
+
+    const calendar = await prisma.agentContentCalendar.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info(
+      {
+        agentId,
+        timezone: calendar.timezone,
+        cron: calendar.cron,
+        windows: data.postingWindows.length,
+        blackouts: data.blackouts.length,
+      },
+      'Content calendar updated',
+    );
+
+    return successResponse({ ...calendar, isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
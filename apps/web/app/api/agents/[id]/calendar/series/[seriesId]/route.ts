@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { updateContentSeriesSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string; seriesId: string }>;
+}
+
+async function requireOwnedSeries(agentId: string, seriesId: string, address: string) {
+  const series = await prisma.contentSeries.findUnique({
+    where: { id: seriesId },
+    include: { agent: { select: { creatorAddress: true } } },
+  });
+
+  if (!series || series.agentId !== agentId) throw Errors.notFound('Content series');
+  if (!DEMO_MODE && series.agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its content series');
+  }
+}
+
+/**
+ * PATCH /api/agents/[id]/calendar/series/[seriesId]
+ *
+ * Update a content series; any of name, theme, cron, contentType,
+ * enabled. Disable a series to pause it without losing it.
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId, seriesId } = await context.params;
+
+    await requireOwnedSeries(agentId, seriesId, address);
+
+    const body: unknown = await request.json();
+    const data = updateContentSeriesSchema.parse(body);
+
+    const series = await prisma.contentSeries.update({
+      where: { id: seriesId },
+      data,
+    });
+
+    logger.info({ agentId, seriesId, fields: Object.keys(data) }, 'Content series updated');
+
+    return successResponse(series);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * DELETE /api/agents/[id]/calendar/series/[seriesId]
+ *
+ * Auth: Wallet signature required. Only the agent creator can delete it.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId, seriesId } = await context.params;
+
+    await requireOwnedSeries(agentId, seriesId, address);
+
+    await prisma.contentSeries.delete({ where: { id: seriesId } });
+
+    logger.info({ agentId, seriesId }, 'Content series deleted');
+
+    return successResponse({ id: seriesId, deleted: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { createContentSeriesSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+/** Keeps one agent from flooding its feed with recurring jobs. */
+const MAX_SERIES_PER_AGENT = 10;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its content series');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/calendar/series
+ *
+ * The agent's recurring themed posts, oldest first.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view them.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const series = await prisma.contentSeries.findMany({
+      where: { agentId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return successResponse(series);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/agents/[id]/calendar/series
+ *
+ * Add a recurring themed post, e.g. a weekly market recap thread.
+ *
+ * Body:
+ *   - name        — shown on the dashboard
+ *   - theme       — what each installment is written about
+ *   - cron        — when it posts, in the calendar's time zone
+ *   - contentType — original | thread | media (default thread)
+ *   - enabled     — default true
+ *
+ * Series post at their own times regardless of posting windows, but not
+ * during blackouts.
+ *
+ * Auth: Wallet signature required. Only the agent creator can add one.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = createContentSeriesSchema.parse(body);
+
+    const existing = await prisma.contentSeries.count({ where: { agentId } });
+    if (existing >= MAX_SERIES_PER_AGENT) {
+      throw Errors.badRequest(`An agent can run at most ${MAX_SERIES_PER_AGENT} content series`);
+    }
+
+    const series = await prisma.contentSeries.create({
+      data: { agentId, ...data },
+    });
+
+    logger.info({ agentId, seriesId: series.id, cron: series.cron }, 'Content series created');
+
+    return successResponse(series, 201);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -1,7 +1,8 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { SocialHuntStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { paginatedResponse, errorResponse } from '@/lib/api-utils';
+import { errorResponse } from '@/lib/api-utils';
+import { buildHuntFunnel } from '@/lib/hunt-attribution';
 import { Errors } from '@/lib/errors';
 import { verifyWalletSignature } from '@/lib/auth';
 import { authenticatedLimiter } from '@/lib/rate-limit';
@@ -15,7 +16,13 @@ interface RouteContext {
 /**
  * GET /api/agents/[id]/hunt-leads
  *
- * Retrieve Social Hunter leads for an agent's dashboard.
+ * Retrieve Social Hunter leads for an agent's dashboard, with the
+ * agent's whole funnel alongside the page: scanned → qualified → replied
+ * → converted, and the settled revenue of converted leads (micro-USDC
+ * strings).
+ * Converted leads carry the job they converted with and how it was
+ * attributed (lib/hunt-attribution.ts); pitched leads carry their
+ * nurture sequence, oldest step first.
  *
  * Query params:
  *   - status  (optional): Filter by SocialHuntStatus
@@ -59,17 +66,37 @@ export async function GET(request: NextRequest, context: RouteContext) {
       ...(status ? { status } : {}),
     };
 
-    const [leads, total] = await Promise.all([
+    const [leads, total, statusCounts, revenue] = await Promise.all([
       prisma.socialHuntLead.findMany({
         where,
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
         take: limit,
+        include: { nurtureSteps: { orderBy: { createdAt: 'asc' } } },
       }),
       prisma.socialHuntLead.count({ where }),
+      prisma.socialHuntLead.groupBy({
+        by: ['status'],
+        where: { agentId },
+        _count: { _all: true },
+      }),
+      prisma.socialHuntLead.aggregate({
+        where: { agentId, status: SocialHuntStatus.CONVERTED },
+        _sum: { revenueUsdc: true },
+      }),
     ]);
 
-    return paginatedResponse(leads, { page, limit, total });
+    const funnel = buildHuntFunnel(
+      Object.fromEntries(statusCounts.map((group) => [group.status, group._count._all])),
+      revenue._sum.revenueUsdc ?? 0n,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: leads.map((lead) => ({ ...lead, revenueUsdc: lead.revenueUsdc?.toString() ?? null })),
+      pagination: { page, limit, total },
+      funnel,
+    });
   } catch (err) {
     return errorResponse(err);
   }
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agent: { findUnique: vi.fn() },
+    serviceOffering: { findMany: vi.fn() },
+    socialHunterProfile: { findUnique: vi.fn(), upsert: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ id: 'agent-1' }) };
+const url = 'http://localhost/api/agents/agent-1/hunter-profile';
+
+function put(body: unknown) {
+  return new NextRequest(url, { method: 'PUT', body: JSON.stringify(body) });
+}
+
+describe('/api/agents/[id]/hunter-profile', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ creatorAddress: OWNER });
+    (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([{ slug: 'rust-audit' }]);
+    (prisma.socialHunterProfile.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    (prisma.socialHunterProfile.upsert as ReturnType<typeof vi.fn>).mockImplementation(
+      ({ create }: { create: Record<string, unknown> }) => Promise.resolve({ id: 'profile-1', ...create }),
+    );
+  });
+
+  it('should report the defaults for an agent without a profile', async () => {
+    const { GET } = await import('../route');
+    const response = await GET(new NextRequest(url), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.profile).toMatchObject({
+      isDefault: true,
+      enabled: true,
+      channels: [],
+      triageThreshold: 7,
+      maxRepliesPerHour: 5,
+      maxRepliesPerDay: 20,
+    });
+  });
+
+  it('should save a profile, filling in omitted fields', async () => {
+    const { prisma } = await import('@/lib/prisma');
+
+    const { PUT } = await import('../route');
+    const response = await PUT(
+      put({ channels: ['Rust', 'dev'], negativeKeywords: ['airdrop'], triageThreshold: 8, offeringSlugs: ['rust-audit'] }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.socialHunterProfile.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          agentId: 'agent-1',
+          channels: ['rust', 'dev'],
+          negativeKeywords: ['airdrop'],
+          triageThreshold: 8,
+          maxRepliesPerDay: 20,
+          activeHours: [],
+        }),
+      }),
+    );
+  });
+
+  it('should reject offerings the agent does not sell', async () => {
+    const { prisma } = await import('@/lib/prisma');
+
+    const { PUT } = await import('../route');
+    const response = await PUT(put({ offeringSlugs: ['rust-audit', 'someone-elses'] }), params);
+
+    expect(response.status).toBe(400);
+    expect(prisma.socialHunterProfile.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should reject an hourly cap above the daily cap', async () => {
+    const { PUT } = await import('../route');
+    const response = await PUT(put({ maxRepliesPerHour: 10, maxRepliesPerDay: 5 }), params);
+
+    expect(response.status).toBe(422);
+  });
+
+  it('should only let the creator edit the profile', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ creatorAddress: '0xsomeoneelse' });
+
+    const { PUT } = await import('../route');
+    const response = await PUT(put({}), params);
+
+    expect(response.status).toBe(403);
+  });
+});
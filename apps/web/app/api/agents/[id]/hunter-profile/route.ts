@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { socialHunterProfileSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Agents without a profile hunt with the runtime defaults. */
+const DEFAULT_PROFILE = socialHunterProfileSchema.parse({});
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its Social Hunter profile');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/hunter-profile
+ *
+ * The agent's Social Hunter profile (defaults with `isDefault: true` if
+ * none was saved), and its offerings for choosing which may be pitched.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const [profile, offerings] = await Promise.all([
+      prisma.socialHunterProfile.findUnique({ where: { agentId } }),
+      prisma.serviceOffering.findMany({
+        where: { sellerAgentId: agentId },
+        select: { slug: true, name: true, category: true, status: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return successResponse({
+      profile: profile
+        ? { ...profile, isDefault: false }
+        : { agentId, ...DEFAULT_PROFILE, isDefault: true },
+      offerings,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/hunter-profile
+ *
+ * Replace the agent's Social Hunter profile. Omitted fields take their
+ * defaults:
+ *   - enabled                — false stops the hunter for this agent
+ *   - channels, keywords     — where to look; empty = the defaults for
+ *                              the offerings' categories
+ *   - negativeKeywords       — casts containing one are skipped untriaged
+ *   - triageThreshold        — min LLM score (1-10) to pitch
+ *   - maxRepliesPerHour/Day  — reply caps (pitches and follow-ups)
+ *   - maxFollowUps           — follow-ups per lead after the pitch
+ *   - timezone, activeHours  — [{ days: [0-6], start: "HH:MM", end: "HH:MM" }];
+ *                              empty = any time
+ *   - offeringSlugs          — offerings it may pitch; empty = all active
+ *
+ * The runtime reads it at the start of the next hunt cycle.
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const parsed = socialHunterProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      throw Errors.validationFailed(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    const data = parsed.data;
+
+    if (data.offeringSlugs.length > 0) {
+      const owned = await prisma.serviceOffering.findMany({
+        where: { sellerAgentId: agentId, slug: { in: data.offeringSlugs } },
+        select: { slug: true },
+      });
+      const missing = data.offeringSlugs.filter((slug) => !owned.some((o) => o.slug === slug));
+      if (missing.length > 0) {
+        throw Errors.badRequest(`Not offerings of this agent: ${missing.join(', ')}`);
+      }
+    }
+
+    const profile = await prisma.socialHunterProfile.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info(
+      {
+        agentId,
+        enabled: profile.enabled,
+        channels: profile.channels.length,
+        keywords: profile.keywords.length,
+        triageThreshold: profile.triageThreshold,
+      },
+      'Social Hunter profile updated',
+    );
+
+    return successResponse({ ...profile, isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    contentModeration: { findUnique: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ id: 'agent-1', reviewId: 'review-1' }) };
+
+function patch(action: string) {
+  return new NextRequest('http://localhost/api/agents/agent-1/moderation/reviews/review-1', {
+    method: 'PATCH',
+    body: JSON.stringify({ action }),
+  });
+}
+
+describe('PATCH /api/agents/[id]/moderation/reviews/[reviewId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.contentModeration.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'review-1',
+      agentId: 'agent-1',
+      reviewStatus: 'PENDING',
+      agent: { creatorAddress: OWNER },
+    });
+  });
+
+  it('should approve pending content for publishing', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.contentModeration.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch('approve'), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.reviewStatus).toBe('APPROVED');
+    expect(prisma.contentModeration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'review-1', reviewStatus: 'PENDING' },
+      data: { reviewStatus: 'APPROVED', reviewedAt: expect.any(Date) },
+    });
+  });
+
+  it('should refuse to decide twice', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.contentModeration.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch('reject'), params);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should forbid other wallets', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.contentModeration.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'review-1',
+      agentId: 'agent-1',
+      reviewStatus: 'PENDING',
+      agent: { creatorAddress: '0x2222222222222222222222222222222222222222' },
+    });
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch('approve'), params);
+
+    expect(response.status).toBe(403);
+    expect(prisma.contentModeration.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { moderationReviewSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string; reviewId: string }>;
+}
+
+/**
+ * PATCH /api/agents/[id]/moderation/reviews/[reviewId]
+ *
+ * Decide on content that moderation blocked. Approving queues it for the
+ * runtime, which publishes approved content within a minute; rejecting
+ * discards it.
+ *
+ * Body: { action: "approve" | "reject" }
+ *
+ * Auth: Wallet signature required. Only the agent creator can decide.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId, reviewId } = await context.params;
+
+    const review = await prisma.contentModeration.findUnique({
+      where: { id: reviewId },
+      include: { agent: { select: { creatorAddress: true } } },
+    });
+
+    if (!review || review.agentId !== agentId) throw Errors.notFound('Moderation review');
+    if (!DEMO_MODE && review.agent.creatorAddress !== address) {
+      throw Errors.forbidden('Only the agent creator can review its blocked content');
+    }
+
+    const body: unknown = await request.json();
+    const { action } = moderationReviewSchema.parse(body);
+
+    // Guarded on PENDING so a double click cannot approve twice
+    const updated = await prisma.contentModeration.updateMany({
+      where: { id: reviewId, reviewStatus: 'PENDING' },
+      data: {
+        reviewStatus: action === 'approve' ? 'APPROVED' : 'REJECTED',
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw Errors.conflict(`Review is ${review.reviewStatus ?? 'not blocked'}, not PENDING`);
+    }
+
+    logger.info({ agentId, reviewId, action }, 'Moderation review decided');
+
+    return successResponse({
+      id: reviewId,
+      agentId,
+      reviewStatus: action === 'approve' ? 'APPROVED' : 'REJECTED',
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
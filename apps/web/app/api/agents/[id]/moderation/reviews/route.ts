@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { ModerationReviewStatus, ModerationVerdict } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { paginatedResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/agents/[id]/moderation/reviews
+ *
+ * Moderation results for the agent's generated content, newest first.
+ * Blocked content carries a reviewStatus; PENDING items are the review
+ * queue the creator approves or rejects.
+ *
+ * Query params:
+ *   - status  (optional): Filter by ModerationReviewStatus
+ *   - verdict (optional): Filter by ModerationVerdict (PASS, REWRITE, BLOCK)
+ *   - page    (optional): Page number (default 1)
+ *   - limit   (optional): Items per page (default 20, max 50)
+ *
+ * Auth: Wallet signature required. Only the agent creator can view them.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    const agent = await prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { creatorAddress: true },
+    });
+
+    if (!agent) throw Errors.notFound('Agent');
+    if (!DEMO_MODE && agent.creatorAddress !== address) {
+      throw Errors.forbidden('Only the agent creator can view moderation reviews');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status');
+    const verdictParam = searchParams.get('verdict');
+    const page = Math.max(1, Number(searchParams.get('page') ?? '1'));
+    const limit = Math.min(50, Math.max(1, Number(searchParams.get('limit') ?? '20')));
+
+    const status =
+      statusParam && Object.values(ModerationReviewStatus).includes(statusParam as ModerationReviewStatus)
+        ? (statusParam as ModerationReviewStatus)
+        : undefined;
+    const verdict =
+      verdictParam && Object.values(ModerationVerdict).includes(verdictParam as ModerationVerdict)
+        ? (verdictParam as ModerationVerdict)
+        : undefined;
+
+    const where = {
+      agentId,
+      ...(status ? { reviewStatus: status } : {}),
+      ...(verdict ? { verdict } : {}),
+    };
+
+    const [reviews, total] = await Promise.all([
+      prisma.contentModeration.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.contentModeration.count({ where }),
+    ]);
+
+    return paginatedResponse(reviews, { page, limit, total });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { moderationPolicySchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Guardrails the runtime applies when the agent has not saved a policy. */
+const DEFAULT_POLICY = moderationPolicySchema.parse({});
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its moderation policy');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/moderation
+ *
+ * The guardrails the agent's runtime applies to generated content before
+ * posting. Returns the defaults (with `isDefault: true`) if none were
+ * saved.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const policy = await prisma.agentModerationPolicy.findUnique({
+      where: { agentId },
+    });
+
+    return successResponse(
+      policy ? { ...policy, isDefault: false } : { agentId, ...DEFAULT_POLICY, isDefault: true },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/moderation
+ *
+ * Replace the agent's moderation policy. Omitted fields take their
+ * defaults:
+ *   - bannedTopics        — phrases; posts that mention one are blocked
+ *   - bannedWords         — masked out of posts
+ *   - financialAdvice     — disclaim (or block) advice-like posts
+ *   - scamPatterns        — block wallet-drainer and giveaway patterns
+ *   - pii                 — redact emails and phone numbers, block keys
+ *   - duplicateWindowDays — block near-copies of recent casts; 0 = off
+ *   - llmClassifier       — LLM review of posts the rules let through
+ *
+ * Blocked posts wait for review at /api/agents/[id]/moderation/reviews.
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = moderationPolicySchema.parse(body);
+
+    const policy = await prisma.agentModerationPolicy.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info(
+      {
+        agentId,
+        bannedTopics: policy.bannedTopics.length,
+        bannedWords: policy.bannedWords.length,
+        financialAdvice: policy.financialAdvice,
+        scamPatterns: policy.scamPatterns,
+        pii: policy.pii,
+        duplicateWindowDays: policy.duplicateWindowDays,
+        llmClassifier: policy.llmClassifier,
+      },
+      'Moderation policy updated',
+    );
+
+    return successResponse({ ...policy, isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agent: { findUnique: vi.fn() },
+    agentSpendBudget: { findUnique: vi.fn(), upsert: vi.fn() },
+    agentSpendEntry: { aggregate: vi.fn(), groupBy: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ id: 'agent-1' }) };
+
+describe('/api/agents/[id]/spend', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ creatorAddress: OWNER });
+  });
+
+  it('should report spend by model against the budget', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentSpendBudget.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      dailyLimitUsdc: 50_000n,
+      monthlyLimitUsdc: null,
+      onExhausted: 'DOWNGRADE',
+    });
+    (prisma.agentSpendEntry.aggregate as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _sum: { costUsdc: 60_000n },
+    });
+    (prisma.agentSpendEntry.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        kind: 'LLM',
+        provider: 'openrouter',
+        model: 'anthropic/claude-sonnet-4',
+        _sum: { costUsdc: 40_000n, promptTokens: 9_000, completionTokens: 800 },
+        _count: { _all: 12 },
+      },
+      {
+        kind: 'IMAGE',
+        provider: 'fal',
+        model: 'fal-ai/flux-pro/v1.1-ultra',
+        _sum: { costUsdc: 120_000n, promptTokens: 0, completionTokens: 0 },
+        _count: { _all: 2 },
+      },
+    ]);
+
+    const { GET } = await import('../route');
+    const response = await GET(new NextRequest('http://localhost/api/agents/agent-1/spend'), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({
+      budget: { dailyLimitUsdc: '50000', monthlyLimitUsdc: null, onExhausted: 'DOWNGRADE', isDefault: false },
+      state: 'downgrade',
+      spent: { todayUsdc: '60000', monthUsdc: '160000' },
+    });
+    expect(body.data.byModel.map((row: { model: string }) => row.model)).toEqual([
+      'fal-ai/flux-pro/v1.1-ultra',
+      'anthropic/claude-sonnet-4',
+    ]);
+  });
+
+  it('should save limits as micro-USDC', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentSpendBudget.upsert as ReturnType<typeof vi.fn>).mockImplementation(({ create }) =>
+      Promise.resolve(create),
+    );
+
+    const { PUT } = await import('../route');
+    const response = await PUT(
+      new NextRequest('http://localhost/api/agents/agent-1/spend', {
+        method: 'PUT',
+        body: JSON.stringify({ dailyLimitUsdc: '2000000' }),
+      }),
+      params,
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(prisma.agentSpendBudget.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { agentId: 'agent-1', dailyLimitUsdc: 2_000_000n, monthlyLimitUsdc: null, onExhausted: 'REFUSE' },
+      }),
+    );
+    expect(body.data).toMatchObject({ dailyLimitUsdc: '2000000', onExhausted: 'REFUSE' });
+  });
+
+  it('should forbid other wallets from changing the budget', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      creatorAddress: '0x2222222222222222222222222222222222222222',
+    });
+
+    const { PUT } = await import('../route');
+    const response = await PUT(
+      new NextRequest('http://localhost/api/agents/agent-1/spend', {
+        method: 'PUT',
+        body: JSON.stringify({ dailyLimitUsdc: null }),
+      }),
+      params,
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.agentSpendBudget.upsert).not.toHaveBeenCalled();
+  });
+});
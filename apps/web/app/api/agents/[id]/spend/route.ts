@@ -0,0 +1,165 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { spendBudgetSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its spend budget');
+  }
+}
+
+type BudgetFields = {
+  dailyLimitUsdc: bigint | null;
+  monthlyLimitUsdc: bigint | null;
+  onExhausted: 'REFUSE' | 'DOWNGRADE';
+};
+
+function serializeBudget(budget: BudgetFields) {
+  return {
+    dailyLimitUsdc: budget.dailyLimitUsdc?.toString() ?? null,
+    monthlyLimitUsdc: budget.monthlyLimitUsdc?.toString() ?? null,
+    onExhausted: budget.onExhausted,
+  };
+}
+
+/**
+ * What the runtime will do with the agent's next call — mirrors
+ * evaluateBudget() in apps/agent-runtime/src/core/spend-ledger.ts.
+ */
+function budgetState(budget: BudgetFields | null, todayUsdc: bigint, monthUsdc: bigint) {
+  if (!budget) return 'ok';
+  const exhausted =
+    (budget.dailyLimitUsdc !== null && todayUsdc >= budget.dailyLimitUsdc) ||
+    (budget.monthlyLimitUsdc !== null && monthUsdc >= budget.monthlyLimitUsdc);
+  if (!exhausted) return 'ok';
+  return budget.onExhausted === 'DOWNGRADE' ? 'downgrade' : 'refuse';
+}
+
+/**
+ * GET /api/agents/[id]/spend
+ *
+ * The agent's LLM and image spend for the current UTC day and month,
+ * broken down by model, alongside its budget. Returns the budget as
+ * unlimited (with `isDefault: true`) if none was saved. Amounts are
+ * micro-USDC strings.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const now = new Date();
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const [budget, today, byModel] = await Promise.all([
+      prisma.agentSpendBudget.findUnique({ where: { agentId } }),
+      prisma.agentSpendEntry.aggregate({
+        where: { agentId, createdAt: { gte: dayStart } },
+        _sum: { costUsdc: true },
+      }),
+      prisma.agentSpendEntry.groupBy({
+        by: ['kind', 'provider', 'model'],
+        where: { agentId, createdAt: { gte: monthStart } },
+        _sum: { costUsdc: true, promptTokens: true, completionTokens: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const todayUsdc = today._sum.costUsdc ?? 0n;
+    const monthUsdc = byModel.reduce((sum, row) => sum + (row._sum.costUsdc ?? 0n), 0n);
+
+    return successResponse({
+      agentId,
+      budget: budget
+        ? { ...serializeBudget(budget), isDefault: false }
+        : { ...spendBudgetSchema.parse({}), isDefault: true },
+      state: budgetState(budget, todayUsdc, monthUsdc),
+      periods: {
+        dayStart: dayStart.toISOString(),
+        monthStart: monthStart.toISOString(),
+      },
+      spent: {
+        todayUsdc: todayUsdc.toString(),
+        monthUsdc: monthUsdc.toString(),
+      },
+      byModel: byModel
+        .map((row) => ({
+          kind: row.kind,
+          provider: row.provider,
+          model: row.model,
+          calls: row._count._all,
+          promptTokens: row._sum.promptTokens ?? 0,
+          completionTokens: row._sum.completionTokens ?? 0,
+          costUsdc: (row._sum.costUsdc ?? 0n).toString(),
+        }))
+        .sort((a, b) => Number(BigInt(b.costUsdc) - BigInt(a.costUsdc))),
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/spend
+ *
+ * Replace the agent's spend budget. Omitted fields take their defaults:
+ *   - dailyLimitUsdc   — micro-USDC per UTC day; null = no limit
+ *   - monthlyLimitUsdc — micro-USDC per UTC month; null = no limit
+ *   - onExhausted      — REFUSE stops content, hunting and service
+ *                        execution; DOWNGRADE moves LLM calls to a cheaper
+ *                        model and stops image generation
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const parsed = spendBudgetSchema.parse(body);
+    const data = {
+      dailyLimitUsdc: parsed.dailyLimitUsdc === null ? null : BigInt(parsed.dailyLimitUsdc),
+      monthlyLimitUsdc: parsed.monthlyLimitUsdc === null ? null : BigInt(parsed.monthlyLimitUsdc),
+      onExhausted: parsed.onExhausted,
+    };
+
+    const budget = await prisma.agentSpendBudget.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info({ agentId, ...serializeBudget(budget) }, 'Agent spend budget updated');
+
+    return successResponse({ agentId, ...serializeBudget(budget), isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
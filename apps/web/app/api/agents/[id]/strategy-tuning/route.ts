@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+/** How many weight changes the log returns. */
+const LOG_LIMIT = 50;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true, strategy: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can view its strategy tuning');
+  }
+  return agent;
+}
+
+/**
+ * GET /api/agents/[id]/strategy-tuning
+ *
+ * What the runtime learned for an adaptive strategy: the weights it posts
+ * by now (`tuning`, null until enough casts have settled) and the latest
+ * weight changes with the engagement behind each (`log`, newest first).
+ * `enabled` mirrors the strategy's `adaptive.enabled`; it is switched
+ * through the agent's strategy (PUT /api/agents/[id]).
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    const agent = await requireOwnedAgent(agentId, address);
+    const strategy = agent.strategy as { adaptive?: { enabled?: boolean } } | null;
+
+    const [tuning, log] = await Promise.all([
+      prisma.agentStrategyTuning.findUnique({ where: { agentId } }),
+      prisma.strategyTuningLog.findMany({
+        where: { agentId },
+        orderBy: { createdAt: 'desc' },
+        take: LOG_LIMIT,
+      }),
+    ]);
+
+    return successResponse({
+      enabled: strategy?.adaptive?.enabled === true,
+      tuning,
+      log,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { supervisionPolicySchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Agents without a saved policy publish on their own. */
+const DEFAULT_POLICY = supervisionPolicySchema.parse({});
+
+async function requireOwnedAgent(agentId: string, address: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+    select: { creatorAddress: true },
+  });
+
+  if (!agent) throw Errors.notFound('Agent');
+  if (!DEMO_MODE && agent.creatorAddress !== address) {
+    throw Errors.forbidden('Only the agent creator can manage its supervision policy');
+  }
+}
+
+/**
+ * GET /api/agents/[id]/supervision
+ *
+ * Whether the agent holds generated content for approval. Returns the
+ * defaults (supervision off, `isDefault: true`) if none were saved.
+ *
+ * Auth: Wallet signature required. Only the agent creator can view it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const policy = await prisma.agentSupervisionPolicy.findUnique({
+      where: { agentId },
+    });
+
+    return successResponse(
+      policy ? { ...policy, isDefault: false } : { agentId, ...DEFAULT_POLICY, isDefault: true },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/agents/[id]/supervision
+ *
+ * Replace the agent's supervision policy. Omitted fields take their
+ * defaults:
+ *   - enabled                 — hold content as drafts at all
+ *   - holdPosts               — scheduled casts and threads
+ *   - holdReplies             — replies to mentions
+ *   - holdPitches             — Social Hunter pitches
+ *   - autoPublishAfterMinutes — publish untouched drafts after this long;
+ *                               null = wait for the creator
+ *
+ * Held drafts are listed and decided at /api/drafts.
+ *
+ * Auth: Wallet signature required. Only the agent creator can update it.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { id: agentId } = await context.params;
+
+    await requireOwnedAgent(agentId, address);
+
+    const body: unknown = await request.json();
+    const data = supervisionPolicySchema.parse(body);
+
+    const policy = await prisma.agentSupervisionPolicy.upsert({
+      where: { agentId },
+      create: { agentId, ...data },
+      update: data,
+    });
+
+    logger.info(
+      {
+        agentId,
+        enabled: policy.enabled,
+        holdPosts: policy.holdPosts,
+        holdReplies: policy.holdReplies,
+        holdPitches: policy.holdPitches,
+        autoPublishAfterMinutes: policy.autoPublishAfterMinutes,
+      },
+      'Supervision policy updated',
+    );
+
+    return successResponse({ ...policy, isDefault: false });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
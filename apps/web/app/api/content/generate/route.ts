@@ -6,71 +6,42 @@ import { Errors } from "@/lib/errors";
 import { verifyWalletSignature } from "@/lib/auth";
 import { authenticatedLimiter } from "@/lib/rate-limit";
 import { generateContentSchema } from "@/lib/validation";
-import OpenAI from "openai";
+import { generateText, resolveLLMRoute } from "@/lib/llm";
+import { renderPreviewPrompt } from "@/lib/prompts";
 
 // ---------------------------------------------------------------------------
-// OpenRouter client (lightweight, scoped to this route)
+// Content generation prompt
 // ---------------------------------------------------------------------------
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY ?? "";
-const DEFAULT_MODEL = "anthropic/claude-sonnet-4";
-
-function getOpenRouterClient(): OpenAI {
-  return new OpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey: OPENROUTER_API_KEY,
-    defaultHeaders: {
-      "HTTP-Referer": "https://ceos.run",
-      "X-Title": "ceos.run Content Generator",
-    },
-  });
-}
-
-// ---------------------------------------------------------------------------
-// Content generation prompt builder
-// ---------------------------------------------------------------------------
-
-function buildPrompt(
+function renderPrompt(
   agentName: string,
   persona: Record<string, unknown>,
   contentType: string,
   topic?: string | null,
   replyTo?: string | null,
-): string {
-  const tone = (persona.tone as string) ?? "informative";
-  const style = (persona.style as string) ?? "conversational";
+) {
   const topics = (persona.topics as string[]) ?? [];
-  const customPrompt = (persona.customPrompt as string) ?? "";
-
   const topicHint = topic
     ? `Focus on: ${topic}`
     : topics.length > 0
       ? `Topics of interest: ${topics.join(", ")}`
       : "";
 
-  if (contentType === "REPLY" && replyTo) {
-    return `You are ${agentName}, an AI agent on Farcaster. Tone: ${tone}. Style: ${style}.
-${customPrompt}
-
-Reply to this cast concisely (max 320 chars):
-"${replyTo}"
-
-${topicHint}`;
-  }
-
-  if (contentType === "THREAD") {
-    return `You are ${agentName}, an AI agent on Farcaster. Tone: ${tone}. Style: ${style}.
-${customPrompt}
-
-Write a 3-part thread on Farcaster. Each part max 320 chars. Separate parts with "---".
-${topicHint}`;
-  }
-
-  return `You are ${agentName}, an AI agent on Farcaster. Tone: ${tone}. Style: ${style}.
-${customPrompt}
-
-Write a single engaging Farcaster cast (max 320 chars). Be original and thought-provoking.
-${topicHint}`;
+  const name =
+    contentType === "REPLY" && replyTo
+      ? "preview.reply"
+      : contentType === "THREAD"
+        ? "preview.thread"
+        : "preview.cast";
+
+  return renderPreviewPrompt(name, {
+    agentName,
+    tone: (persona.tone as string) ?? "informative",
+    style: (persona.style as string) ?? "conversational",
+    customPrompt: (persona.customPrompt as string) ?? "",
+    topicHint,
+    replyTo: replyTo ?? "",
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -80,9 +51,11 @@ ${topicHint}`;
 /**
  * POST /api/content/generate
  *
- * Generate content for an agent using OpenRouter AI.
+ * Generate content for an agent with the LLM provider its `content`
+ * task routes to (OpenRouter unless LLM_CONFIG says otherwise).
  *
- * Returns generated text synchronously for preview/review.
+ * Returns generated text synchronously for preview/review, with the
+ * preview prompt template version used (lib/prompts.ts).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -112,8 +85,8 @@ export async function POST(request: NextRequest) {
 
     const persona = agent.persona as Record<string, unknown>;
 
-    // Build prompt and call OpenRouter
-    const prompt = buildPrompt(
+    // Render prompt and call the agent's content provider
+    const { prompt, systemPrompt, template, version } = renderPrompt(
       agent.name,
       persona,
       data.type,
@@ -121,38 +94,34 @@ export async function POST(request: NextRequest) {
       data.replyTo ?? null,
     );
 
-    if (!OPENROUTER_API_KEY) {
-      logger.warn("OPENROUTER_API_KEY not set, returning generation context only");
+    const route = resolveLLMRoute(agent.id, "content");
+    if (!route.ready) {
+      logger.warn({ provider: route.name }, "LLM provider API key not set, returning generation context only");
       return successResponse({
         agentId: agent.id,
         type: data.type,
         generationContext: { prompt },
-        message: "OpenRouter API key not configured. Set OPENROUTER_API_KEY to enable AI generation.",
+        prompt: { template, version },
+        message: `LLM provider "${route.name}" is not configured. Set its API key to enable AI generation.`,
       });
     }
 
-    const client = getOpenRouterClient();
-
-    const completion = await client.chat.completions.create({
-      model: DEFAULT_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: `You are ${agent.name}. Write content as this agent for Farcaster (similar to Twitter). Keep it within 320 characters per cast.`,
-        },
-        { role: "user", content: prompt },
-      ],
-      max_tokens: data.type === "THREAD" ? 800 : 200,
+    const {
+      text: generatedText,
+      model,
+      tokensUsed,
+      provider,
+    } = await generateText(prompt, {
+      agentId: agent.id,
+      task: "content",
+      systemPrompt,
+      maxTokens: data.type === "THREAD" ? 800 : 200,
       temperature: 0.8,
     });
 
-    const generatedText = completion.choices[0]?.message?.content ?? "";
-    const model = completion.model ?? DEFAULT_MODEL;
-    const tokensUsed = completion.usage?.total_tokens ?? 0;
-
     logger.info(
-      { agentId: agent.id, type: data.type, model, tokensUsed },
-      "Content generated via OpenRouter",
+      { agentId: agent.id, type: data.type, provider, model, tokensUsed, template, version },
+      "Content generated",
     );
 
     return successResponse({
@@ -161,6 +130,7 @@ export async function POST(request: NextRequest) {
       content: generatedText,
       model,
       tokensUsed,
+      prompt: { template, version },
     });
   } catch (err) {
     return errorResponse(err);
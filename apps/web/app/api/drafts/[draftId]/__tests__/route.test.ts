@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(OWNER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+const tx = {
+  agentDraft: { updateMany: vi.fn() },
+  agentPreferenceLog: { create: vi.fn() },
+  socialHuntLead: { update: vi.fn() },
+};
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agentDraft: { findUnique: vi.fn() },
+    $transaction: vi.fn((fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ draftId: 'draft-1' }) };
+
+function patch(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/drafts/draft-1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+function mockDraft(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'draft-1',
+    agentId: 'agent-1',
+    kind: 'CAST',
+    status: 'PENDING',
+    text: 'Generated take',
+    parts: [],
+    generatedText: 'Generated take',
+    leadId: null,
+    context: { strategy: 'balanced' },
+    promptTemplate: 'posting.cast',
+    promptVersion: 2,
+    agent: { creatorAddress: OWNER },
+    ...overrides,
+  };
+}
+
+describe('PATCH /api/drafts/[draftId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentDraft.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(mockDraft());
+    tx.agentDraft.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should approve an edited draft and log the edit as a preference', async () => {
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch({ action: 'edit', text: 'Sharper take' }), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ status: 'APPROVED', text: 'Sharper take' });
+    expect(tx.agentDraft.updateMany).toHaveBeenCalledWith({
+      where: { id: 'draft-1', status: 'PENDING' },
+      data: { status: 'APPROVED', reviewedAt: expect.any(Date), text: 'Sharper take', parts: [] },
+    });
+    expect(tx.agentPreferenceLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        decision: 'EDITED',
+        generatedText: 'Generated take',
+        publishedText: 'Sharper take',
+        promptTemplate: 'posting.cast',
+      }),
+    });
+  });
+
+  it('should skip the lead of a rejected pitch', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentDraft.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      mockDraft({ kind: 'HUNT_PITCH', leadId: 'lead-1' }),
+    );
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch({ action: 'reject' }), params);
+
+    expect(response.status).toBe(200);
+    expect(tx.agentPreferenceLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ decision: 'REJECTED', publishedText: null }),
+    });
+    expect(tx.socialHuntLead.update).toHaveBeenCalledWith({
+      where: { id: 'lead-1' },
+      data: { status: 'SKIPPED' },
+    });
+  });
+
+  it('should refuse to decide twice', async () => {
+    tx.agentDraft.updateMany.mockResolvedValue({ count: 0 });
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch({ action: 'approve' }), params);
+
+    expect(response.status).toBe(409);
+    expect(tx.agentPreferenceLog.create).not.toHaveBeenCalled();
+  });
+
+  it('should require every part when editing a thread', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentDraft.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      mockDraft({ kind: 'THREAD', parts: ['One', 'Two'] }),
+    );
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch({ action: 'edit', text: 'One' }), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should forbid other wallets', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agentDraft.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      mockDraft({ agent: { creatorAddress: '0x2222222222222222222222222222222222222222' } }),
+    );
+
+    const { PATCH } = await import('../route');
+    const response = await PATCH(patch({ action: 'approve' }), params);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,107 @@
+import { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { successResponse, errorResponse } from '@/lib/api-utils';
+import { Errors } from '@/lib/errors';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+import { draftDecisionSchema } from '@/lib/validation';
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+interface RouteContext {
+  params: Promise<{ draftId: string }>;
+}
+
+/**
+ * PATCH /api/drafts/[draftId]
+ *
+ * Decide on a draft a supervised agent is holding. Approved and edited
+ * drafts are published by the runtime within a minute; rejected ones are
+ * discarded (a rejected Social Hunter pitch skips its lead).
+ *
+ * Every decision is stored as an AgentPreferenceLog next to the agent's
+ * decision logs, pairing the generated text with what the creator let
+ * through.
+ *
+ * Body:
+ *   { action: "approve" }
+ *   { action: "edit", text, parts? }  — parts required for thread drafts
+ *   { action: "reject" }
+ *
+ * Auth: Wallet signature required. Only the agent creator can decide.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { draftId } = await context.params;
+
+    const draft = await prisma.agentDraft.findUnique({
+      where: { id: draftId },
+      include: { agent: { select: { creatorAddress: true } } },
+    });
+
+    if (!draft) throw Errors.notFound('Draft');
+    if (!DEMO_MODE && draft.agent.creatorAddress !== address) {
+      throw Errors.forbidden('Only the agent creator can decide on its drafts');
+    }
+
+    const body: unknown = await request.json();
+    const decision = draftDecisionSchema.parse(body);
+
+    if (decision.action === 'edit' && draft.kind === 'THREAD' && !decision.parts) {
+      throw Errors.badRequest('Edits to a thread draft must include every part');
+    }
+
+    const edited =
+      decision.action === 'edit'
+        ? { text: decision.text, parts: decision.parts ?? draft.parts }
+        : { text: draft.text, parts: draft.parts };
+    const status = decision.action === 'reject' ? 'REJECTED' : 'APPROVED';
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      // Guarded on PENDING so a double click, or the auto-publish sweep,
+      // cannot decide twice
+      const updated = await tx.agentDraft.updateMany({
+        where: { id: draftId, status: 'PENDING' },
+        data: { status, reviewedAt: now, ...edited },
+      });
+
+      if (updated.count === 0) {
+        throw Errors.conflict(`Draft is ${draft.status}, not PENDING`);
+      }
+
+      await tx.agentPreferenceLog.create({
+        data: {
+          agentId: draft.agentId,
+          draftId,
+          kind: draft.kind,
+          decision: decision.action === 'edit' ? 'EDITED' : status,
+          context: (draft.context ?? {}) as Prisma.InputJsonValue,
+          generatedText: draft.generatedText,
+          publishedText:
+            status === 'REJECTED' ? null : edited.parts.length > 0 ? edited.parts.join('\n\n') : edited.text,
+          promptTemplate: draft.promptTemplate,
+          promptVersion: draft.promptVersion,
+        },
+      });
+
+      // A rejected follow-up leaves the lead's sequence as it is
+      if (status === 'REJECTED' && draft.kind === 'HUNT_PITCH' && draft.leadId) {
+        await tx.socialHuntLead.update({
+          where: { id: draft.leadId },
+          data: { status: 'SKIPPED' },
+        });
+      }
+    });
+
+    logger.info({ agentId: draft.agentId, draftId, kind: draft.kind, action: decision.action }, 'Draft decided');
+
+    return successResponse({ id: draftId, agentId: draft.agentId, status, ...edited });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
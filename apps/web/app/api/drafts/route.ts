@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { DraftKind, DraftStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { paginatedResponse, errorResponse } from '@/lib/api-utils';
+import { verifyWalletSignature } from '@/lib/auth';
+import { authenticatedLimiter } from '@/lib/rate-limit';
+
+/**
+ * GET /api/drafts
+ *
+ * Drafts held by the creator's supervised agents, newest first. Serves
+ * both the dashboard and the miniapp, so it spans all of the wallet's
+ * agents unless `agentId` narrows it.
+ *
+ * Query params:
+ *   - agentId (optional): Only this agent's drafts
+ *   - status  (optional): Filter by DraftStatus (default: all)
+ *   - kind    (optional): Filter by DraftKind
+ *   - page    (optional): Page number (default 1)
+ *   - limit   (optional): Items per page (default 20, max 50)
+ *
+ * Auth: Wallet signature required.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+
+    const { searchParams } = new URL(request.url);
+    const agentIdParam = searchParams.get('agentId');
+    const statusParam = searchParams.get('status');
+    const kindParam = searchParams.get('kind');
+    const page = Math.max(1, Number(searchParams.get('page') ?? '1'));
+    const limit = Math.min(50, Math.max(1, Number(searchParams.get('limit') ?? '20')));
+
+    const status =
+      statusParam && Object.values(DraftStatus).includes(statusParam as DraftStatus)
+        ? (statusParam as DraftStatus)
+        : undefined;
+    const kind =
+      kindParam && Object.values(DraftKind).includes(kindParam as DraftKind)
+        ? (kindParam as DraftKind)
+        : undefined;
+
+    const where = {
+      agent: { creatorAddress: address },
+      ...(agentIdParam ? { agentId: agentIdParam } : {}),
+      ...(status ? { status } : {}),
+      ...(kind ? { kind } : {}),
+    };
+
+    const [drafts, total] = await Promise.all([
+      prisma.agentDraft.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { agent: { select: { name: true, pfpUrl: true } } },
+      }),
+      prisma.agentDraft.count({ where }),
+    ]);
+
+    return paginatedResponse(drafts, { page, limit, total });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@/lib/rate-limit', () => ({
+  publicLimiter: { check: vi.fn() },
+  getClientIp: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    cast: { groupBy: vi.fn() },
+  },
+}));
+
+describe('GET /api/prompts/performance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should compare engagement per cast across template versions', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.cast.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([
+      {
+        promptTemplate: 'post.original',
+        promptVersion: 2,
+        _count: { _all: 4 },
+        _sum: { likes: 20, recasts: 4, replies: 6 },
+      },
+      {
+        promptTemplate: 'post.original',
+        promptVersion: 1,
+        _count: { _all: 3 },
+        _sum: { likes: 6, recasts: 0, replies: 3 },
+      },
+    ]);
+
+    const { GET } = await import('../route');
+    const response = await GET(new NextRequest('http://localhost/api/prompts/performance?template=post.original'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.versions).toEqual([
+      { template: 'post.original', version: 1, casts: 3, likes: 6, recasts: 0, replies: 3, engagementPerCast: 3 },
+      { template: 'post.original', version: 2, casts: 4, likes: 20, recasts: 4, replies: 6, engagementPerCast: 7.5 },
+    ]);
+    expect(prisma.cast.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ promptTemplate: 'post.original' }),
+      }),
+    );
+  });
+
+  it('should scope the comparison to one agent', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.cast.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+    const { GET } = await import('../route');
+    const response = await GET(new NextRequest('http://localhost/api/prompts/performance?agentId=agent-1&days=7'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ days: 7, versions: [] });
+    expect(prisma.cast.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ agentId: 'agent-1', promptTemplate: { not: null } }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,74 @@
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { publicLimiter, getClientIp } from "@/lib/rate-limit";
+
+const querySchema = z.object({
+  template: z.string().min(1).max(100).optional(),
+  agentId: z.string().min(1).optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * GET /api/prompts/performance
+ *
+ * Engagement of published casts grouped by the prompt template version
+ * that generated them, for comparing versions under a traffic split
+ * (PROMPT_CONFIG). Likes, recasts and replies are the per-cast counts the
+ * runtime's metrics worker refreshes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request);
+    publicLimiter.check(ip);
+
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const query = querySchema.parse(params);
+    const since = new Date(Date.now() - query.days * 24 * 60 * 60 * 1000);
+
+    const groups = await prisma.cast.groupBy({
+      by: ["promptTemplate", "promptVersion"],
+      where: {
+        promptTemplate: query.template ?? { not: null },
+        promptVersion: { not: null },
+        publishedAt: { gte: since },
+        ...(query.agentId && { agentId: query.agentId }),
+      },
+      _count: { _all: true },
+      _sum: { likes: true, recasts: true, replies: true },
+    });
+
+    const versions = groups
+      .map((group) => {
+        const casts = group._count._all;
+        const likes = group._sum.likes ?? 0;
+        const recasts = group._sum.recasts ?? 0;
+        const replies = group._sum.replies ?? 0;
+
+        return {
+          template: group.promptTemplate!,
+          version: group.promptVersion!,
+          casts,
+          likes,
+          recasts,
+          replies,
+          engagementPerCast: casts > 0 ? round((likes + recasts + replies) / casts) : 0,
+        };
+      })
+      .sort((a, b) => a.template.localeCompare(b.template) || a.version - b.version);
+
+    return successResponse({
+      since: since.toISOString(),
+      days: query.days,
+      versions,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
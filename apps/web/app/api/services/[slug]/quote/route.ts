@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { quoteForBuyer, serializeUsagePeriod } from "@/lib/pricing";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * GET /api/services/[slug]/quote
+ *
+ * Price the buyer's next job under the offering's pricing model — the
+ * amount the X-PAYMENT header of POST /api/services/jobs must cover.
+ * Includes the buyer's usage in the current billing period.
+ *
+ * Query params:
+ *   buyerAgentId — the purchasing agent (must belong to the caller)
+ *   maxUnits     — metered offerings: cap on the units to pre-authorize
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { slug } = await context.params;
+
+    const params = request.nextUrl.searchParams;
+    const buyerAgentId = params.get("buyerAgentId");
+    if (!buyerAgentId) throw Errors.badRequest("buyerAgentId is required");
+
+    const maxUnitsParam = params.get("maxUnits");
+    const maxUnits = maxUnitsParam !== null ? Number(maxUnitsParam) : undefined;
+    if (maxUnits !== undefined && (!Number.isInteger(maxUnits) || maxUnits < 1)) {
+      throw Errors.badRequest("maxUnits must be a positive integer");
+    }
+
+    const offering = await prisma.serviceOffering.findFirst({
+      where: { slug, status: "ACTIVE" },
+      select: { id: true, slug: true, priceUsdc: true, pricingModel: true, pricingConfig: true },
+    });
+    if (!offering) throw Errors.notFound("Service offering (or not ACTIVE)");
+
+    const buyerAgent = await prisma.agent.findUnique({
+      where: { id: buyerAgentId },
+      select: { creatorAddress: true },
+    });
+    if (!buyerAgent) throw Errors.notFound("Buyer agent");
+
+    // GOD MODE: In demo mode, skip ownership check — any wallet can use demo agents.
+    if (!DEMO_MODE && buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Agent does not belong to you");
+    }
+
+    const { charge, window, period } = await quoteForBuyer(
+      prisma,
+      offering,
+      buyerAgentId,
+      maxUnits,
+    );
+
+    return successResponse({
+      offeringSlug: offering.slug,
+      pricingModel: charge.pricingModel,
+      pricingConfig: offering.pricingConfig,
+      chargeUsdc: charge.chargeUsdc.toString(),
+      authorizedUnits: charge.authorizedUnits ?? null,
+      description: charge.description,
+      periodStart: window.periodStart,
+      periodEnd: window.periodEnd,
+      usage: period ? serializeUsagePeriod(period) : null,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -7,6 +7,7 @@ import { Errors } from "@/lib/errors";
 import { verifyWalletSignature } from "@/lib/auth";
 import { authenticatedLimiter, publicLimiter, getClientIp } from "@/lib/rate-limit";
 import { updateServiceOfferingSchema } from "@/lib/validation";
+import { toPublicOffering } from "@/lib/negotiation";
 
 type RouteContext = { params: Promise<{ slug: string }> };
 
@@ -32,7 +33,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
     if (!offering) throw Errors.notFound("Service offering");
 
     return successResponse({
-      ...offering,
+      ...toPublicOffering(offering),
       priceUsdc: offering.priceUsdc.toString(),
     });
   } catch (err) {
@@ -75,11 +76,18 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         ...(data.name !== undefined && { name: data.name }),
         ...(data.description !== undefined && { description: data.description }),
         ...(data.category !== undefined && { category: data.category }),
+        ...(data.capabilities !== undefined && {
+          capabilities: data.capabilities,
+        }),
         ...(data.priceUsdc !== undefined && {
           priceUsdc: BigInt(data.priceUsdc),
         }),
         ...(data.pricingModel !== undefined && {
           pricingModel: data.pricingModel,
+          pricingConfig: (data.pricingConfig as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        }),
+        ...(data.negotiationConfig !== undefined && {
+          negotiationConfig: (data.negotiationConfig as Prisma.InputJsonValue) ?? Prisma.DbNull,
         }),
         ...(data.inputSchema !== undefined && {
           inputSchema: data.inputSchema as Prisma.InputJsonValue,
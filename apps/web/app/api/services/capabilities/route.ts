@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { CAPABILITY_REGISTRY } from "@ceosrun/shared/utils/capabilities";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { publicLimiter, getClientIp } from "@/lib/rate-limit";
+
+/**
+ * GET /api/services/capabilities
+ *
+ * List the capability tags offerings may declare, grouped by category.
+ * Public endpoint — sellers use it to tag offerings, buyers to query
+ * /api/services/discover?capability=<tag>.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    publicLimiter.check(getClientIp(request));
+
+    return successResponse({ capabilities: CAPABILITY_REGISTRY });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@/lib/rate-limit', () => ({
+  publicLimiter: { check: vi.fn() },
+  getClientIp: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceOffering: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+}));
+
+function offering(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'off-1',
+    name: 'Trend Alpha Scanner',
+    slug: 'trend-alpha',
+    description: 'Ranked alpha signals across DEXs.',
+    category: 'analysis',
+    capabilities: ['trend-analysis'],
+    priceUsdc: 5_000_000n,
+    pricingModel: 'per_call',
+    avgRating: 4.5,
+    completedJobs: 10,
+    totalJobs: 12,
+    maxLatencyMs: 30_000,
+    avgLatencyMs: 8_000,
+    inputSchema: {
+      type: 'object',
+      properties: { chain: { type: 'string' }, limit: { type: 'integer' } },
+      required: ['chain'],
+    },
+    sellerAgent: {
+      id: 'agent-1',
+      name: 'Cipher',
+      walletAddress: '0x1111111111111111111111111111111111111111',
+      pfpUrl: null,
+      identity: { reputationScore: 5000, tokenId: 1 },
+    },
+    ...overrides,
+  };
+}
+
+async function discover(query: string) {
+  const { GET } = await import('../route');
+  return GET(new NextRequest(`http://localhost/api/services/discover?${query}`));
+}
+
+describe('GET /api/services/discover', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should rank a declared capability tag above a keyword match', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      offering({
+        id: 'off-2',
+        slug: 'viral-thread',
+        name: 'Viral Thread Generator',
+        description: 'Threads about any trend analysis topic.',
+        category: 'content',
+        capabilities: ['thread-writing'],
+        priceUsdc: 1_000_000n,
+      }),
+      offering(),
+    ]);
+    (prisma.serviceOffering.count as ReturnType<typeof vi.fn>).mockResolvedValue(2);
+
+    const response = await discover('capability=Trend%20Analysis');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.capability).toBe('trend-analysis');
+    expect(body.data.offerings.map((o: { slug: string }) => o.slug)).toEqual([
+      'trend-alpha',
+      'viral-thread',
+    ]);
+    expect(body.data.offerings[0].relevanceBreakdown.capability).toBe(1);
+    expect(body.data.offerings[1].relevanceBreakdown.capability).toBe(0.3);
+  });
+
+  it('should score offerings whose inputSchema cannot accept the requirements as 0', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([offering()]);
+    (prisma.serviceOffering.count as ReturnType<typeof vi.fn>).mockResolvedValue(1);
+
+    const requirements = encodeURIComponent(JSON.stringify({ limit: 5 }));
+    const response = await discover(`capability=trend-analysis&requirements=${requirements}`);
+    const body = await response.json();
+
+    expect(body.data.offerings[0].relevance).toBe(0);
+    expect(body.data.offerings[0].relevanceBreakdown.schema).toBe(0);
+  });
+
+  it('should not count executor routing keys against the inputSchema', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([offering()]);
+    (prisma.serviceOffering.count as ReturnType<typeof vi.fn>).mockResolvedValue(1);
+
+    const requirements = encodeURIComponent(
+      JSON.stringify({ chain: 'base', capability: 'trend-analysis', skillId: 'trend-scan' }),
+    );
+    const response = await discover(`capability=trend-analysis&requirements=${requirements}`);
+    const body = await response.json();
+
+    expect(body.data.offerings[0].relevanceBreakdown.schema).toBe(1);
+  });
+
+  it('should filter on the capability tag and the legacy text fallback', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (prisma.serviceOffering.count as ReturnType<typeof vi.fn>).mockResolvedValue(0);
+
+    await discover('capability=rug-radar');
+
+    const args = (prisma.serviceOffering.findMany as ReturnType<typeof vi.fn>).mock.calls[0]![0];
+    expect(args.where.OR[0]).toEqual({ capabilities: { has: 'rug-detection' } });
+  });
+});
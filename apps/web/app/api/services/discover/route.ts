@@ -1,21 +1,35 @@
 import { NextRequest } from "next/server";
 import { Prisma } from "@prisma/client";
+import { resolveCapability } from "@ceosrun/shared/utils/capabilities";
 import { prisma } from "@/lib/prisma";
 import { successResponse, errorResponse } from "@/lib/api-utils";
 import { publicLimiter, getClientIp } from "@/lib/rate-limit";
 import { serviceDiscoveryQuerySchema } from "@/lib/validation";
+import { scoreOfferings } from "@/lib/service-discovery";
+import { getNegotiationConfig } from "@/lib/negotiation";
+
+/** Max candidates scored in memory for relevance sorting. */
+const RELEVANCE_CANDIDATE_LIMIT = 200;
 
 /**
  * GET /api/services/discover
  *
- * Discovery endpoint with filtering, search, sorting, and pagination.
+ * Discovery endpoint with filtering, relevance ranking, sorting, and pagination.
  *
  * Query params:
- *   category    — filter by category
- *   maxPrice    — max micro-USDC price
- *   capability  — case-insensitive search on name + description
- *   sort        — rating | price_asc | price_desc | newest | jobs_completed
- *   page, limit — pagination (max 50)
+ *   category     — filter by category
+ *   maxPrice     — max micro-USDC price
+ *   capability   — capability tag or alias from the shared registry
+ *                  (e.g. "trend-analysis"); unknown values fall back to a
+ *                  case-insensitive search on name + description
+ *   requirements — JSON object the buyer intends to send; scored against
+ *                  each offering's inputSchema
+ *   sort         — relevance | rating | price_asc | price_desc | newest | jobs_completed
+ *                  (default: relevance when capability/requirements given, else rating)
+ *   page, limit  — pagination (max 50)
+ *
+ * Every offering carries a `relevance` score in [0, 1] and its
+ * per-signal `relevanceBreakdown` (see lib/service-discovery.ts).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -34,16 +48,24 @@ export async function GET(request: NextRequest) {
       where.priceUsdc = { lte: BigInt(query.maxPrice) };
     }
 
+    const capability = query.capability ? resolveCapability(query.capability) : undefined;
+
     if (query.capability) {
+      // Declared tags first; text match is kept as a low-relevance fallback
+      // for offerings listed before capability tags existed.
       where.OR = [
+        ...(capability ? [{ capabilities: { has: capability.tag } }] : []),
         { name: { contains: query.capability, mode: "insensitive" } },
         { description: { contains: query.capability, mode: "insensitive" } },
       ];
     }
 
-    // Sort mapping
+    const sort =
+      query.sort ?? (query.capability || query.requirements ? "relevance" : "rating");
+
+    // Sort mapping (relevance is computed in memory below)
     let orderBy: Prisma.ServiceOfferingOrderByWithRelationInput;
-    switch (query.sort) {
+    switch (sort) {
       case "price_asc":
         orderBy = { priceUsdc: "asc" };
         break;
@@ -54,6 +76,7 @@ export async function GET(request: NextRequest) {
         orderBy = { completedJobs: "desc" };
         break;
       case "rating":
+      case "relevance":
         orderBy = { avgRating: { sort: "desc", nulls: "last" } };
         break;
       case "newest":
@@ -63,6 +86,7 @@ export async function GET(request: NextRequest) {
     }
 
     const skip = (query.page - 1) * query.limit;
+    const byRelevance = sort === "relevance";
 
     const [offerings, total] = await Promise.all([
       prisma.serviceOffering.findMany({
@@ -81,30 +105,54 @@ export async function GET(request: NextRequest) {
           },
         },
         orderBy,
-        skip,
-        take: query.limit,
+        skip: byRelevance ? 0 : skip,
+        take: byRelevance ? RELEVANCE_CANDIDATE_LIMIT : query.limit,
       }),
       prisma.serviceOffering.count({ where }),
     ]);
 
-    const serialized = offerings.map((o) => ({
+    const scored = scoreOfferings(
+      offerings.map((o) => ({
+        ...o,
+        reputationScore: o.sellerAgent.identity?.reputationScore ?? 0,
+      })),
+      {
+        capability,
+        capabilityText: query.capability,
+        requirements: query.requirements,
+      },
+    );
+
+    const page = byRelevance
+      ? scored
+          .sort((a, b) => b.relevance - a.relevance)
+          .slice(skip, skip + query.limit)
+      : scored;
+
+    const serialized = page.map((o) => ({
       id: o.id,
       name: o.name,
       slug: o.slug,
       category: o.category,
+      capabilities: o.capabilities,
       priceUsdc: o.priceUsdc.toString(),
       pricingModel: o.pricingModel,
+      pricingConfig: o.pricingConfig,
+      negotiable: getNegotiationConfig(o) !== null,
       avgRating: o.avgRating,
       completedJobs: o.completedJobs,
       totalJobs: o.totalJobs,
       maxLatencyMs: o.maxLatencyMs,
       avgLatencyMs: o.avgLatencyMs,
+      inputSchema: o.inputSchema,
+      relevance: o.relevance,
+      relevanceBreakdown: o.relevanceBreakdown,
       sellerAgent: {
         id: o.sellerAgent.id,
         name: o.sellerAgent.name,
         walletAddress: o.sellerAgent.walletAddress,
         pfpUrl: o.sellerAgent.pfpUrl,
-        reputationScore: o.sellerAgent.identity?.reputationScore ?? 0,
+        reputationScore: o.reputationScore,
       },
     }));
 
@@ -113,6 +161,8 @@ export async function GET(request: NextRequest) {
       total,
       page: query.page,
       limit: query.limit,
+      // Echo the resolved tag so buyers can see how their query was read
+      capability: capability?.tag ?? null,
     });
   } catch (err) {
     return errorResponse(err);
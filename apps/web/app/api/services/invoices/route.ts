@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+
+/**
+ * GET /api/services/invoices
+ *
+ * List invoices of the caller's agents. An invoice is issued per buyer and
+ * offering for each ended billing period (see lib/pricing.ts), built from
+ * the buyer's WalletTransaction records for that period's jobs.
+ *
+ * Query params:
+ *   agentId — filter by specific agent
+ *   role    — "buyer" | "seller" (filter perspective)
+ *   page, limit — pagination
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const page = Math.max(1, Number(params.page) || 1);
+    const limit = Math.min(50, Math.max(1, Number(params.limit) || 20));
+    const skip = (page - 1) * limit;
+
+    const userAgents = await prisma.agent.findMany({
+      where: { creatorAddress: address },
+      select: { id: true },
+    });
+    const userAgentIds = userAgents.map((a) => a.id);
+
+    if (userAgentIds.length === 0) {
+      return successResponse({ invoices: [], total: 0, page, limit });
+    }
+
+    const agentId = params.agentId as string | undefined;
+    const role = params.role as string | undefined;
+
+    if (agentId && !userAgentIds.includes(agentId)) {
+      throw Errors.forbidden("Agent does not belong to you");
+    }
+
+    const agentFilter = agentId ?? { in: userAgentIds };
+    const where: Prisma.ServiceInvoiceWhereInput =
+      role === "buyer"
+        ? { buyerAgentId: agentFilter }
+        : role === "seller"
+          ? { sellerAgentId: agentFilter }
+          : { OR: [{ buyerAgentId: agentFilter }, { sellerAgentId: agentFilter }] };
+
+    const [invoices, total] = await Promise.all([
+      prisma.serviceInvoice.findMany({
+        where,
+        orderBy: { issuedAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.serviceInvoice.count({ where }),
+    ]);
+
+    return successResponse({
+      invoices: invoices.map((invoice) => ({
+        ...invoice,
+        units: invoice.units.toString(),
+        chargedUsdc: invoice.chargedUsdc.toString(),
+        refundedUsdc: invoice.refundedUsdc.toString(),
+        totalUsdc: invoice.totalUsdc.toString(),
+      })),
+      total,
+      page,
+      limit,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
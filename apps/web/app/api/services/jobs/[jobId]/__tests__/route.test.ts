@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const SELLER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(SELLER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => {
+  const serviceJob = {
+    findUnique: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+  };
+  const tx = {
+    serviceJob,
+    serviceUsagePeriod: { update: vi.fn() },
+    $executeRaw: vi.fn(),
+  };
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('@/lib/disputes', () => ({
+  openDispute: vi.fn(() => Promise.resolve({ disputeId: 'dispute-1', autoResolved: null })),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    offeringId: 'offering-1',
+    sellerAgentId: 'seller-1',
+    status: 'DELIVERING',
+    escrowStatus: 'HELD',
+    priceUsdc: 1_000_000n,
+    refundUsdc: null,
+    usagePeriodId: null,
+    acceptedAt: new Date(Date.now() - 60_000),
+    createdAt: new Date(Date.now() - 120_000),
+    expiresAt: new Date(Date.now() + 600_000),
+    offering: { pricingModel: 'per_call', pricingConfig: null, sellerAgent: { creatorAddress: SELLER } },
+    ...overrides,
+  };
+}
+
+async function transition(body: Record<string, unknown>) {
+  const { PATCH } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/jobs/job-1', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+  return PATCH(request, { params: Promise.resolve({ jobId: 'job-1' }) });
+}
+
+describe('PATCH /api/services/jobs/[jobId]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job());
+    (prisma.serviceJob.findUniqueOrThrow as ReturnType<typeof vi.fn>).mockResolvedValue(job({ status: 'COMPLETED' }));
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+  });
+
+  it('should complete the job only if its status and escrow are unchanged', async () => {
+    const { prisma } = await import('@/lib/prisma');
+
+    const response = await transition({ status: 'COMPLETED', deliverables: { summary: 'done' } });
+
+    expect(response.status).toBe(200);
+    expect(prisma.serviceJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', status: 'DELIVERING', escrowStatus: 'HELD' },
+      data: expect.objectContaining({ status: 'COMPLETED', approvalDeadline: expect.any(Date) }),
+    });
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 409 without counting the completion when the job moved meanwhile', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const response = await transition({ status: 'COMPLETED', deliverables: { summary: 'done' } });
+
+    expect(response.status).toBe(409);
+    expect(prisma.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 without opening a dispute when the job moved meanwhile', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    const { openDispute } = await import('@/lib/disputes');
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const response = await transition({ status: 'DISPUTED', deliverables: { reason: 'timeout' } });
+
+    expect(response.status).toBe(409);
+    expect(openDispute).not.toHaveBeenCalled();
+  });
+
+  it('should not queue a refund over a job the expiry worker already settled', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job({ status: 'CREATED' }));
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const response = await transition({ status: 'REJECTED', reason: 'Out of scope' });
+
+    expect(response.status).toBe(409);
+    expect(prisma.serviceJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', status: 'CREATED', escrowStatus: 'HELD' },
+      data: expect.objectContaining({ status: 'REJECTED', escrowStatus: 'REFUND_PENDING' }),
+    });
+    expect(prisma.serviceJob.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const BUYER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(BUYER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceJob: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function completedJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    status: 'COMPLETED',
+    escrowStatus: 'HELD',
+    priceUsdc: 1_000_000n,
+    buyerAgent: { creatorAddress: BUYER },
+    ...overrides,
+  };
+}
+
+async function approve() {
+  const { POST } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/jobs/job-1/approve', {
+    method: 'POST',
+  });
+  return POST(request, { params: Promise.resolve({ jobId: 'job-1' }) });
+}
+
+describe('POST /api/services/jobs/[jobId]/approve', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should queue escrow release for a COMPLETED job', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(completedJob());
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+    (prisma.serviceJob.findUniqueOrThrow as ReturnType<typeof vi.fn>).mockResolvedValue(
+      completedJob({ escrowStatus: 'RELEASE_PENDING' }),
+    );
+
+    const response = await approve();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.escrowStatus).toBe('RELEASE_PENDING');
+    expect(body.data.priceUsdc).toBe('1000000');
+    expect(prisma.serviceJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', escrowStatus: 'HELD' },
+      data: expect.objectContaining({ escrowStatus: 'RELEASE_PENDING' }),
+    });
+  });
+
+  it('should reject approval from a non-buyer', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      completedJob({ buyerAgent: { creatorAddress: '0x2222222222222222222222222222222222222222' } }),
+    );
+
+    const response = await approve();
+
+    expect(response.status).toBe(403);
+    expect(prisma.serviceJob.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject approval when nothing is held in escrow', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      completedJob({ escrowStatus: 'RELEASED' }),
+    );
+
+    const response = await approve();
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should reject approval of a job that is still in progress', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      completedJob({ status: 'DELIVERING' }),
+    );
+
+    const response = await approve();
+
+    expect(response.status).toBe(409);
+  });
+});
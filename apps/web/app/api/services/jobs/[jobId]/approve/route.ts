@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { getReleaseEscrowStatus } from "@/lib/escrow";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * POST /api/services/jobs/[jobId]/approve
+ *
+ * Buyer approves a COMPLETED job's deliverables, releasing the escrowed
+ * payment to the seller. Only the buyer agent's creator can approve.
+ *
+ * The release itself is asynchronous: escrow moves HELD → RELEASE_PENDING
+ * and the runtime's service-job maintenance worker executes the USDC
+ * transfer. If the buyer never approves, the worker releases the escrow
+ * once `approvalDeadline` passes. A metered job with unused pre-authorized
+ * units refunds those to the buyer first (HELD → REFUND_PENDING).
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        buyerAgent: { select: { creatorAddress: true } },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    // Only buyer creator can approve (bypassed in DEMO_MODE for buyer agents)
+    if (!DEMO_MODE && job.buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the buyer agent's creator can approve a job");
+    }
+
+    if (job.status !== "COMPLETED") {
+      throw Errors.conflict("Can only approve COMPLETED jobs");
+    }
+
+    if (job.escrowStatus !== "HELD") {
+      throw Errors.conflict(
+        `Escrow is ${job.escrowStatus} — nothing to release`,
+      );
+    }
+
+    // Conditional update guards against a concurrent auto-release
+    const { count } = await prisma.serviceJob.updateMany({
+      where: { id: jobId, escrowStatus: "HELD" },
+      data: { escrowStatus: getReleaseEscrowStatus(job), approvedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw Errors.conflict("Escrow was settled concurrently");
+    }
+
+    const updatedJob = await prisma.serviceJob.findUniqueOrThrow({
+      where: { id: jobId },
+      include: {
+        offering: { select: { slug: true, name: true, category: true } },
+      },
+    });
+
+    logger.info(
+      { jobId, priceUsdc: job.priceUsdc.toString() },
+      "Service job approved by buyer — escrow release queued",
+    );
+
+    return successResponse({
+      ...updatedJob,
+      priceUsdc: updatedJob.priceUsdc.toString(),
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const BUYER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(BUYER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceJob: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function acceptedJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    status: 'ACCEPTED',
+    escrowStatus: 'HELD',
+    priceUsdc: 1_000_000n,
+    refundUsdc: null,
+    buyerAgent: { creatorAddress: BUYER },
+    ...overrides,
+  };
+}
+
+async function cancel() {
+  const { POST } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/jobs/job-1/cancel', {
+    method: 'POST',
+  });
+  return POST(request, { params: Promise.resolve({ jobId: 'job-1' }) });
+}
+
+describe('POST /api/services/jobs/[jobId]/cancel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject the job and queue a refund of the held payment', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(acceptedJob());
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+    (prisma.serviceJob.findUniqueOrThrow as ReturnType<typeof vi.fn>).mockResolvedValue(
+      acceptedJob({ status: 'REJECTED', escrowStatus: 'REFUND_PENDING' }),
+    );
+
+    const response = await cancel();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.escrowStatus).toBe('REFUND_PENDING');
+    expect(prisma.serviceJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', status: { in: ['CREATED', 'ACCEPTED'] } },
+      data: { status: 'REJECTED', escrowStatus: 'REFUND_PENDING' },
+    });
+  });
+
+  it('should refuse once delivery has started', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      acceptedJob({ status: 'DELIVERING' }),
+    );
+    (prisma.serviceJob.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 0 });
+
+    const response = await cancel();
+
+    expect(response.status).toBe(409);
+  });
+});
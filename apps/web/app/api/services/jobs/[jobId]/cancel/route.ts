@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/** Jobs the seller has not started working on yet. */
+const CANCELLABLE_STATUSES = ["CREATED", "ACCEPTED"] as const;
+
+/**
+ * POST /api/services/jobs/[jobId]/cancel
+ *
+ * Buyer withdraws a job before the seller starts delivering. The job
+ * becomes REJECTED and a held payment is queued for refund, exactly as
+ * if the seller had rejected it. Used by workflow compensation.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        buyerAgent: { select: { creatorAddress: true } },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    // Only buyer creator can cancel (bypassed in DEMO_MODE for buyer agents)
+    if (!DEMO_MODE && job.buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the buyer agent's creator can cancel a job");
+    }
+
+    // Conditional update guards against the executor claiming the job
+    const { count } = await prisma.serviceJob.updateMany({
+      where: { id: jobId, status: { in: [...CANCELLABLE_STATUSES] } },
+      data: {
+        status: "REJECTED",
+        ...(job.escrowStatus === "HELD" && { escrowStatus: "REFUND_PENDING" }),
+      },
+    });
+
+    if (count === 0) {
+      throw Errors.conflict(`Cannot cancel a ${job.status} job — delivery has started or finished`);
+    }
+
+    const updatedJob = await prisma.serviceJob.findUniqueOrThrow({
+      where: { id: jobId },
+      include: {
+        offering: { select: { slug: true, name: true, category: true } },
+      },
+    });
+
+    logger.info(
+      { jobId, escrowStatus: updatedJob.escrowStatus },
+      "Service job cancelled by buyer",
+    );
+
+    return successResponse({
+      ...updatedJob,
+      priceUsdc: updatedJob.priceUsdc.toString(),
+      refundUsdc: updatedJob.refundUsdc?.toString() ?? null,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
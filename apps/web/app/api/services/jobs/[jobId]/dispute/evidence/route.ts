@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { disputeEvidenceSchema } from "@/lib/validation";
+import { buildDecisionLogExcerpt } from "@/lib/disputes";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * POST /api/services/jobs/[jobId]/dispute/evidence
+ *
+ * Attach evidence to the job's open dispute. Buyer or seller creator only.
+ *
+ * Kinds:
+ *   deliverable  — a JSON deliverable (e.g. the seller's corrected output)
+ *   decision_log — reference to one of this job's AgentDecisionLogs; the
+ *                  server stores an excerpt so arbiters see what was run
+ *   note         — free-text statement
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const body: unknown = await request.json();
+    const data = disputeEvidenceSchema.parse(body);
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        buyerAgent: { select: { creatorAddress: true } },
+        sellerAgent: { select: { creatorAddress: true } },
+        disputes: {
+          where: { status: "OPEN" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    const isBuyer = job.buyerAgent.creatorAddress === address;
+    const isSeller = job.sellerAgent.creatorAddress === address;
+    if (!DEMO_MODE && !isBuyer && !isSeller) {
+      throw Errors.forbidden("Only the buyer or seller can submit evidence");
+    }
+
+    const dispute = job.disputes[0];
+    if (!dispute) throw Errors.conflict("Job has no open dispute");
+
+    let content: Prisma.InputJsonValue;
+    let decisionLogId: string | null = null;
+
+    if (data.kind === "decision_log") {
+      const log = await prisma.agentDecisionLog.findFirst({
+        where: { id: data.decisionLogId, jobId },
+      });
+      if (!log) throw Errors.notFound("Decision log");
+      content = buildDecisionLogExcerpt(log);
+      decisionLogId = log.id;
+    } else if (data.kind === "deliverable") {
+      content = data.content as Prisma.InputJsonValue;
+    } else {
+      content = { text: data.text };
+    }
+
+    const evidence = await prisma.disputeEvidence.create({
+      data: {
+        disputeId: dispute.id,
+        submittedBy: address,
+        role: isBuyer ? "buyer" : "seller",
+        kind: data.kind,
+        content,
+        decisionLogId,
+      },
+    });
+
+    logger.info(
+      { jobId, disputeId: dispute.id, evidenceId: evidence.id, kind: data.kind },
+      "Dispute evidence submitted",
+    );
+
+    return successResponse(evidence, 201);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const ARBITER = '0x3333333333333333333333333333333333333333';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(ARBITER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    serviceJob: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    serviceDispute: {
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function disputedJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    status: 'DISPUTED',
+    escrowStatus: 'HELD',
+    priceUsdc: 1_000_000n,
+    disputes: [{ id: 'dispute-1' }],
+    ...overrides,
+  };
+}
+
+async function resolve(body: Record<string, unknown>) {
+  const { POST } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/jobs/job-1/dispute/resolve', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ jobId: 'job-1' }) });
+}
+
+describe('POST /api/services/jobs/[jobId]/dispute/resolve', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubEnv('DISPUTE_ARBITER_ADDRESSES', ARBITER);
+
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceDispute.updateMany as ReturnType<typeof vi.fn>).mockResolvedValue({ count: 1 });
+    (prisma.serviceDispute.findUniqueOrThrow as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'dispute-1',
+      status: 'RESOLVED',
+      refundUsdc: null,
+      job: { id: 'job-1', status: 'RESOLVED', escrowStatus: 'REFUND_PENDING' },
+    });
+  });
+
+  it('should queue a full refund on REFUND', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(disputedJob());
+
+    const response = await resolve({ outcome: 'REFUND' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.serviceJob.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { status: 'RESOLVED', escrowStatus: 'REFUND_PENDING' },
+    });
+    expect(prisma.serviceDispute.update).toHaveBeenCalledWith({
+      where: { id: 'dispute-1' },
+      data: expect.objectContaining({ outcome: 'REFUND', resolvedBy: ARBITER }),
+    });
+  });
+
+  it('should record the refund amount on PARTIAL_REFUND', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(disputedJob());
+
+    const response = await resolve({ outcome: 'PARTIAL_REFUND', refundUsdc: '400000' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.serviceJob.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { status: 'RESOLVED', refundUsdc: 400_000n, escrowStatus: 'REFUND_PENDING' },
+    });
+  });
+
+  it('should reject a partial refund that covers the full price', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(disputedJob());
+
+    const response = await resolve({ outcome: 'PARTIAL_REFUND', refundUsdc: '1000000' });
+
+    expect(response.status).toBe(400);
+    expect(prisma.serviceJob.update).not.toHaveBeenCalled();
+  });
+
+  it('should send the job back to ACCEPTED on REDELIVER', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(disputedJob());
+
+    const response = await resolve({ outcome: 'REDELIVER' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.serviceJob.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({ status: 'ACCEPTED', completedAt: null }),
+    });
+  });
+
+  it('should reject resolution from a non-arbiter', async () => {
+    vi.stubEnv('DISPUTE_ARBITER_ADDRESSES', '0x4444444444444444444444444444444444444444');
+
+    const response = await resolve({ outcome: 'UPHOLD' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject resolution when no dispute is open', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(
+      disputedJob({ status: 'RESOLVED', disputes: [] }),
+    );
+
+    const response = await resolve({ outcome: 'UPHOLD' });
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { resolveDisputeSchema } from "@/lib/validation";
+import { isArbiter, resolveDispute } from "@/lib/disputes";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+/**
+ * POST /api/services/jobs/[jobId]/dispute/resolve
+ *
+ * Arbiter decides the job's open dispute. Only wallets listed in
+ * DISPUTE_ARBITER_ADDRESSES may resolve — there is no DEMO_MODE bypass,
+ * since a verdict moves escrowed funds.
+ *
+ * Outcomes:
+ *   REFUND         — full refund to the buyer
+ *   PARTIAL_REFUND — `refundUsdc` to the buyer, remainder to the seller
+ *   UPHOLD         — release to the seller
+ *   REDELIVER      — job returns to ACCEPTED for another attempt
+ *
+ * Payouts are executed by the runtime's service-job maintenance worker,
+ * which also applies the verdict to the seller's reputation.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    if (!isArbiter(address)) {
+      throw Errors.forbidden("Only a dispute arbiter can resolve disputes");
+    }
+
+    const body: unknown = await request.json();
+    const data = resolveDisputeSchema.parse(body);
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        disputes: {
+          where: { status: "OPEN" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    const dispute = job.disputes[0];
+    if (job.status !== "DISPUTED" || !dispute) {
+      throw Errors.conflict("Job has no open dispute");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Conditional close guards against a concurrent resolution
+      const { count } = await tx.serviceDispute.updateMany({
+        where: { id: dispute.id, status: "OPEN" },
+        data: { status: "RESOLVED" },
+      });
+
+      if (count === 0) {
+        throw Errors.conflict("Dispute was resolved concurrently");
+      }
+
+      await resolveDispute(tx, job, dispute.id, {
+        outcome: data.outcome,
+        refundUsdc:
+          data.refundUsdc !== undefined ? BigInt(data.refundUsdc) : undefined,
+        resolvedBy: address,
+        note: data.note,
+      });
+    });
+
+    const resolved = await prisma.serviceDispute.findUniqueOrThrow({
+      where: { id: dispute.id },
+      include: {
+        job: { select: { id: true, status: true, escrowStatus: true } },
+      },
+    });
+
+    return successResponse({
+      ...resolved,
+      refundUsdc: resolved.refundUsdc?.toString() ?? null,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
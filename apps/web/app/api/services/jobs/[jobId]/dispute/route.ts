@@ -0,0 +1,141 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { openDisputeSchema } from "@/lib/validation";
+import { isArbiter, openDispute } from "@/lib/disputes";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * GET /api/services/jobs/[jobId]/dispute
+ *
+ * Fetch the job's disputes (newest first) with their evidence.
+ * Caller must be the buyer creator, seller creator, or an arbiter.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        buyerAgent: { select: { creatorAddress: true } },
+        sellerAgent: { select: { creatorAddress: true } },
+        disputes: {
+          orderBy: { createdAt: "desc" },
+          include: { evidence: { orderBy: { createdAt: "asc" } } },
+        },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    const isParty =
+      job.buyerAgent.creatorAddress === address ||
+      job.sellerAgent.creatorAddress === address;
+    if (!DEMO_MODE && !isParty && !isArbiter(address)) {
+      throw Errors.forbidden("Not authorized to view this dispute");
+    }
+
+    return successResponse({
+      jobId,
+      status: job.status,
+      escrowStatus: job.escrowStatus,
+      disputes: job.disputes.map((d) => ({
+        ...d,
+        refundUsdc: d.refundUsdc?.toString() ?? null,
+      })),
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/services/jobs/[jobId]/dispute
+ *
+ * Buyer contests a COMPLETED job's deliverables. Only possible while the
+ * payment is still HELD in escrow and the approval window is open —
+ * once approved or auto-released, the sale is final.
+ *
+ * Moves the job COMPLETED → DISPUTED, which also stops the auto-release.
+ * The current deliverables and latest decision log are attached as
+ * evidence; both sides can add more via /dispute/evidence.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const body: unknown = await request.json();
+    const data = openDisputeSchema.parse(body);
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      include: {
+        buyerAgent: { select: { creatorAddress: true } },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    // Only buyer creator can dispute (bypassed in DEMO_MODE for buyer agents)
+    if (!DEMO_MODE && job.buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the buyer agent's creator can dispute a job");
+    }
+
+    if (job.status !== "COMPLETED") {
+      throw Errors.conflict("Can only dispute COMPLETED jobs");
+    }
+
+    if (
+      job.escrowStatus !== "HELD" ||
+      !job.approvalDeadline ||
+      job.approvalDeadline < new Date()
+    ) {
+      throw Errors.conflict("The approval window for this job has closed");
+    }
+
+    const { disputeId } = await prisma.$transaction(async (tx) => {
+      // Conditional update guards against a concurrent approval/auto-release
+      const { count } = await tx.serviceJob.updateMany({
+        where: { id: jobId, status: "COMPLETED", escrowStatus: "HELD" },
+        data: { status: "DISPUTED" },
+      });
+
+      if (count === 0) {
+        throw Errors.conflict("Escrow was settled concurrently");
+      }
+
+      return openDispute(
+        tx,
+        job,
+        { agentId: job.buyerAgentId, role: "buyer", submittedBy: address },
+        data.reason,
+      );
+    });
+
+    const dispute = await prisma.serviceDispute.findUniqueOrThrow({
+      where: { id: disputeId },
+      include: { evidence: { orderBy: { createdAt: "asc" } } },
+    });
+
+    logger.info({ jobId, disputeId }, "Service job disputed by buyer");
+
+    return successResponse(
+      { ...dispute, refundUsdc: dispute.refundUsdc?.toString() ?? null },
+      201,
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const SELLER = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(SELLER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceJob: { findUnique: vi.fn() },
+    serviceJobEvent: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const params = { params: Promise.resolve({ jobId: 'job-1' }) };
+
+function job(status: string) {
+  return {
+    status,
+    buyerAgent: { creatorAddress: BUYER },
+    sellerAgent: { creatorAddress: SELLER },
+  };
+}
+
+function storedEvent(seq: number, type: string, fields: Record<string, unknown> = {}) {
+  return {
+    id: `evt-${seq}`,
+    jobId: 'job-1',
+    seq,
+    type,
+    progress: null,
+    message: null,
+    data: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...fields,
+  };
+}
+
+function postEvent(body: unknown) {
+  return new NextRequest('http://localhost/api/services/jobs/job-1/events', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/services/jobs/[jobId]/events', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { verifyWalletSignature } = await import('@/lib/auth');
+    (verifyWalletSignature as ReturnType<typeof vi.fn>).mockResolvedValue(SELLER);
+  });
+
+  it('should append a progress event with the next sequence number', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job('DELIVERING'));
+    (prisma.serviceJobEvent.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ seq: 2 });
+    (prisma.serviceJobEvent.create as ReturnType<typeof vi.fn>).mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => Promise.resolve(storedEvent(3, 'progress', data)),
+    );
+
+    const { POST } = await import('../route');
+    const response = await POST(postEvent({ type: 'progress', progress: 40 }), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(prisma.serviceJobEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ jobId: 'job-1', seq: 3, type: 'progress', progress: 40 }),
+    });
+    expect(body.data).toMatchObject({ seq: 3, type: 'progress', progress: 40 });
+  });
+
+  it('should only accept events while the job is DELIVERING', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job('COMPLETED'));
+
+    const { POST } = await import('../route');
+    const response = await POST(postEvent({ type: 'log', message: 'late' }), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.serviceJobEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should forbid the buyer from posting events', async () => {
+    const { verifyWalletSignature } = await import('@/lib/auth');
+    (verifyWalletSignature as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER);
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job('DELIVERING'));
+
+    const { POST } = await import('../route');
+    const response = await POST(postEvent({ type: 'progress', progress: 10 }), params);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should stream stored events and close once the job is final', async () => {
+    const { verifyWalletSignature } = await import('@/lib/auth');
+    (verifyWalletSignature as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER);
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceJob.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(job('COMPLETED'));
+    (prisma.serviceJobEvent.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      storedEvent(2, 'progress', { progress: 50 }),
+      storedEvent(3, 'artifact', { data: { draft: 'hello' } }),
+    ]);
+
+    const { GET } = await import('../route');
+    const response = await GET(
+      new NextRequest('http://localhost/api/services/jobs/job-1/events', {
+        headers: { accept: 'text/event-stream', 'last-event-id': '1' },
+      }),
+      params,
+    );
+    const text = await response.text();
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(prisma.serviceJobEvent.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { jobId: 'job-1', seq: { gt: 1 } } }),
+    );
+    expect(text).toContain('id: 2\nevent: progress\n');
+    expect(text).toContain('id: 3\nevent: artifact\n');
+    expect(text).toContain('event: status\ndata: {"status":"COMPLETED"}');
+    expect(text.indexOf('id: 3')).toBeGreaterThan(text.indexOf('id: 2'));
+  });
+});
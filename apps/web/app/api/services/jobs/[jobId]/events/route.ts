@@ -0,0 +1,219 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { serviceJobEventSchema, serviceJobEventsQuerySchema } from "@/lib/validation";
+import {
+  FINAL_JOB_STATUSES,
+  appendJobEvent,
+  formatSseMessage,
+  serializeJobEvent,
+} from "@/lib/job-events";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+const EVENTS_PAGE_SIZE = 200;
+const STREAM_POLL_INTERVAL_MS = 1_000;
+const STREAM_HEARTBEAT_MS = 15_000;
+/** Streams end after this long; the client reconnects with Last-Event-ID. */
+const STREAM_MAX_DURATION_MS = 5 * 60_000;
+const STREAM_RETRY_MS = 3_000;
+
+/**
+ * GET /api/services/jobs/[jobId]/events
+ *
+ * The job's progress events, oldest first. Buyer or seller creator only.
+ *
+ * With `Accept: text/event-stream` the response is a Server-Sent Events
+ * stream: every stored event is sent as `event: <type>` with `id: <seq>`,
+ * followed by new ones as the seller pushes them. A `status` event is
+ * sent on connect and whenever the job's status changes. The stream ends
+ * once the job reaches a final status.
+ *
+ * Query: ?after=<seq> — only events after this sequence number. The
+ * Last-Event-ID header of a reconnecting EventSource takes precedence.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const query = serviceJobEventsQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    const lastEventId = Number(request.headers.get("last-event-id"));
+    const after = Math.max(query.after, Number.isInteger(lastEventId) ? lastEventId : 0);
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      select: {
+        status: true,
+        buyerAgent: { select: { creatorAddress: true } },
+        sellerAgent: { select: { creatorAddress: true } },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    const isBuyer = job.buyerAgent.creatorAddress === address;
+    const isSeller = job.sellerAgent.creatorAddress === address;
+    if (!DEMO_MODE && !isBuyer && !isSeller) {
+      throw Errors.forbidden("Not authorized to view this job");
+    }
+
+    if (!request.headers.get("accept")?.includes("text/event-stream")) {
+      const events = await prisma.serviceJobEvent.findMany({
+        where: { jobId, seq: { gt: after } },
+        orderBy: { seq: "asc" },
+        take: EVENTS_PAGE_SIZE,
+      });
+      return successResponse({
+        status: job.status,
+        events: events.map(serializeJobEvent),
+      });
+    }
+
+    return new Response(streamJobEvents(jobId, after, request.signal), {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/services/jobs/[jobId]/events
+ *
+ * Push a progress event for a DELIVERING job. Seller creator only.
+ *
+ * Body (by type):
+ *   progress — { progress: 0–100, message? }
+ *   artifact — { data: {...}, message? }  partial deliverable
+ *   log      — { message }
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { jobId } = await context.params;
+
+    const body: unknown = await request.json();
+    const data = serviceJobEventSchema.parse(body);
+
+    const job = await prisma.serviceJob.findUnique({
+      where: { id: jobId },
+      select: {
+        status: true,
+        sellerAgent: { select: { creatorAddress: true } },
+      },
+    });
+
+    if (!job) throw Errors.notFound("Service job");
+
+    // Only seller creator can report progress (bypassed in DEMO_MODE for executor)
+    if (!DEMO_MODE && job.sellerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the seller agent's creator can post job events");
+    }
+
+    if (job.status !== "DELIVERING") {
+      throw Errors.conflict(`Cannot post events while the job is ${job.status}`);
+    }
+
+    const event = await appendJobEvent(jobId, data);
+
+    logger.debug({ jobId, seq: event.seq, type: event.type }, "Service job event recorded");
+
+    return successResponse(serializeJobEvent(event), 201);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * Poll the database for new events and status changes and forward them
+ * as SSE messages until the job is final, the client disconnects or
+ * STREAM_MAX_DURATION_MS passes.
+ */
+function streamJobEvents(
+  jobId: string,
+  after: number,
+  signal: AbortSignal,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastWriteAt = startedAt;
+      let lastSeq = after;
+      let lastStatus: string | null = null;
+
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      send(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+      try {
+        while (!cancelled && !signal.aborted && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+          // Status first: events are only accepted while DELIVERING, so
+          // once a final status is read every event is already stored.
+          const job = await prisma.serviceJob.findUnique({
+            where: { id: jobId },
+            select: { status: true },
+          });
+          if (!job) break;
+
+          const events = await prisma.serviceJobEvent.findMany({
+            where: { jobId, seq: { gt: lastSeq } },
+            orderBy: { seq: "asc" },
+            take: EVENTS_PAGE_SIZE,
+          });
+
+          for (const event of events) {
+            send(formatSseMessage(event.type, serializeJobEvent(event), event.seq));
+            lastSeq = event.seq;
+          }
+
+          if (job.status !== lastStatus) {
+            send(formatSseMessage("status", { status: job.status }));
+            lastStatus = job.status;
+          }
+
+          if (FINAL_JOB_STATUSES.includes(job.status) && events.length < EVENTS_PAGE_SIZE) {
+            break;
+          }
+
+          if (Date.now() - lastWriteAt >= STREAM_HEARTBEAT_MS) send(": keep-alive\n\n");
+
+          await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+        }
+      } catch (err) {
+        logger.warn(
+          { jobId, error: err instanceof Error ? err.message : String(err) },
+          "Service job event stream failed",
+        );
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
@@ -7,6 +7,10 @@ import { Errors } from "@/lib/errors";
 import { verifyWalletSignature } from "@/lib/auth";
 import { authenticatedLimiter } from "@/lib/rate-limit";
 import { updateServiceJobSchema } from "@/lib/validation";
+import { getApprovalDeadline } from "@/lib/escrow";
+import { openDispute } from "@/lib/disputes";
+import { getPricingModel, getReportedUnits, settleMeteredUsage } from "@/lib/pricing";
+import { toPublicOffering } from "@/lib/negotiation";
 
 type RouteContext = { params: Promise<{ jobId: string }> };
 
@@ -79,6 +83,9 @@ async function queueBuybackJob(
  * execution fails or times out. Signals to the buyer that the seller
  * attempted fulfillment but encountered an error. The buyer can then
  * request a refund or re-negotiate via the dispute resolution flow.
+ *
+ * DISPUTED → RESOLVED | ACCEPTED happen only through dispute resolution
+ * (see lib/disputes.ts), never through this route.
  */
 const VALID_TRANSITIONS: Record<ServiceJobStatus, ServiceJobStatus[]> = {
   CREATED: ["ACCEPTED", "REJECTED"],
@@ -87,6 +94,7 @@ const VALID_TRANSITIONS: Record<ServiceJobStatus, ServiceJobStatus[]> = {
   COMPLETED: [],
   REJECTED: [],
   DISPUTED: [],
+  RESOLVED: [],
   EXPIRED: [],
 };
 
@@ -143,6 +151,23 @@ export async function GET(request: NextRequest, context: RouteContext) {
             createdAt: true,
           },
         },
+        // Latest dispute (if any) — evidence is served by the dispute route
+        disputes: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: {
+            id: true,
+            status: true,
+            openedByRole: true,
+            reason: true,
+            outcome: true,
+            refundUsdc: true,
+            resolvedBy: true,
+            resolutionNote: true,
+            resolvedAt: true,
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -161,12 +186,15 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     // Glass Box: extract the latest decision log (if any) for the UI
     const latestDecisionLog = job.decisionLogs?.[0] ?? null;
+    const { disputes, ...jobFields } = job;
+    const latestDispute = disputes[0] ?? null;
 
     return successResponse({
-      ...job,
+      ...jobFields,
       priceUsdc: job.priceUsdc.toString(),
+      refundUsdc: job.refundUsdc?.toString() ?? null,
       buyerAgent: buyerSafe,
-      offering: { ...job.offering, sellerAgent: sellerSafe },
+      offering: { ...toPublicOffering(job.offering), sellerAgent: sellerSafe },
       // Glass Box provenance data — exposed to buyer/seller for transparency
       glassBox: latestDecisionLog
         ? {
@@ -181,6 +209,12 @@ export async function GET(request: NextRequest, context: RouteContext) {
             createdAt: latestDecisionLog.createdAt,
           }
         : null,
+      dispute: latestDispute
+        ? {
+            ...latestDispute,
+            refundUsdc: latestDispute.refundUsdc?.toString() ?? null,
+          }
+        : null,
     });
   } catch (err) {
     return errorResponse(err);
@@ -195,10 +229,26 @@ export async function GET(request: NextRequest, context: RouteContext) {
  * State machine:
  *   CREATED  → ACCEPTED | REJECTED
  *   ACCEPTED → DELIVERING
- *   DELIVERING → COMPLETED
- *   (COMPLETED, REJECTED, DISPUTED, EXPIRED are terminal)
+ *   DELIVERING → COMPLETED | DISPUTED
+ *   (COMPLETED, REJECTED, RESOLVED, EXPIRED are terminal; DISPUTED is
+ *    left only through dispute resolution)
  *
  * On COMPLETED: update offering stats (completedJobs, avgLatencyMs) in $transaction.
+ *
+ * Escrow side effects:
+ *   COMPLETED — start the buyer approval window (auto-release at the deadline).
+ *               Metered offerings must report `deliverables.usage.units`; the
+ *               unused part of the pre-authorized charge becomes `refundUsdc`
+ *   REJECTED  — queue a refund of the held payment to the buyer
+ *               (`reason` is kept on the job as rejectionReason)
+ *
+ * On DISPUTED: open a dispute with the failed deliverables and latest
+ * decision log as evidence. Clear-cut executor failures (timeout, skill
+ * error) are auto-resolved with a refund in the same transaction.
+ *
+ * Every write is conditional on the status and escrow status read here,
+ * so a transition racing the maintenance worker (expiry, auto-release)
+ * or another request fails with 409 instead of overwriting it.
  */
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
@@ -246,8 +296,11 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Metered billing outcome, set on COMPLETED
+    let metered: { billedUnits: number; refundUsdc: bigint } | null = null;
+
     // Build update data with timestamps
-    const updateData: Prisma.ServiceJobUpdateInput = {
+    const updateData: Prisma.ServiceJobUpdateManyMutationInput = {
       status: newStatus,
       ...(data.deliverables !== undefined && {
         deliverables: data.deliverables as Prisma.InputJsonValue,
@@ -259,27 +312,48 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     } else if (newStatus === "DELIVERING") {
       updateData.deliveredAt = new Date();
     } else if (newStatus === "COMPLETED") {
-      updateData.completedAt = new Date();
+      if (getPricingModel(job.offering) === "metered") {
+        const units = getReportedUnits(data.deliverables);
+        if (units === null) {
+          throw Errors.validationFailed("Metered offerings must report usage on completion", [
+            { path: "deliverables.usage.units", message: "Required" },
+          ]);
+        }
+        metered = settleMeteredUsage(job.offering, job.priceUsdc, units);
+        updateData.usageUnits = metered.billedUnits;
+        if (metered.refundUsdc > 0n) updateData.refundUsdc = metered.refundUsdc;
+      }
+
+      const completedAt = new Date();
+      updateData.completedAt = completedAt;
       updateData.deliverables =
         (data.deliverables as Prisma.InputJsonValue) ?? Prisma.JsonNull;
+      if (job.escrowStatus === "HELD") {
+        updateData.approvalDeadline = getApprovalDeadline(completedAt);
+      }
+    } else if (newStatus === "REJECTED") {
+      updateData.rejectionReason = data.reason ?? null;
+      if (job.escrowStatus === "HELD") updateData.escrowStatus = "REFUND_PENDING";
     }
 
+    // Only apply the transition to the job as it was read above
+    const unchanged: Prisma.ServiceJobWhereInput = {
+      id: jobId,
+      status: job.status,
+      escrowStatus: job.escrowStatus,
+    };
+
     if (newStatus === "COMPLETED") {
       // Atomic update: job + offering stats in transaction
       const latencyMs = Math.round(
         Date.now() - (job.acceptedAt?.getTime() ?? job.createdAt.getTime()),
       );
 
-      const [updatedJob] = await prisma.$transaction([
-        prisma.serviceJob.update({
-          where: { id: jobId },
-          data: updateData,
-          include: {
-            offering: { select: { slug: true, name: true, category: true } },
-            buyerAgent: { select: { id: true, name: true, pfpUrl: true } },
-          },
-        }),
-        prisma.$executeRaw`
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.serviceJob.updateMany({ where: unchanged, data: updateData });
+        if (count === 0) throw Errors.conflict("Job was updated concurrently");
+
+        await tx.$executeRaw`
           UPDATE service_offerings
           SET completed_jobs = completed_jobs + 1,
               avg_latency_ms = CASE
@@ -288,8 +362,22 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
               END,
               updated_at = NOW()
           WHERE id = ${job.offeringId}
-        `,
-      ]);
+        `;
+        if (metered && job.usagePeriodId) {
+          await tx.serviceUsagePeriod.update({
+            where: { id: job.usagePeriodId },
+            data: { units: { increment: metered.billedUnits } },
+          });
+        }
+      });
+
+      const updatedJob = await prisma.serviceJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: {
+          offering: { select: { slug: true, name: true, category: true } },
+          buyerAgent: { select: { id: true, name: true, pfpUrl: true } },
+        },
+      });
 
       // ── 2% Protocol Fee → $RUN Buyback & Burn ────────────────────────
       //
@@ -301,7 +389,8 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       // Phase 2 (when FeeSplitter is deployed): Execute via Uniswap V3.
       //
       const PROTOCOL_FEE_BPS = 200; // 2% = 200 basis points
-      const buybackAmount = (job.priceUsdc * BigInt(PROTOCOL_FEE_BPS)) / 10_000n;
+      const billedUsdc = job.priceUsdc - (metered?.refundUsdc ?? 0n);
+      const buybackAmount = (billedUsdc * BigInt(PROTOCOL_FEE_BPS)) / 10_000n;
 
       await queueBuybackJob(jobId, buybackAmount);
 
@@ -309,6 +398,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         {
           jobId,
           priceUsdc: job.priceUsdc.toString(),
+          billedUsdc: billedUsdc.toString(),
           buybackAmount: buybackAmount.toString(),
           protocolFeeBps: PROTOCOL_FEE_BPS,
         },
@@ -318,13 +408,61 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return successResponse({
         ...updatedJob,
         priceUsdc: updatedJob.priceUsdc.toString(),
+        refundUsdc: updatedJob.refundUsdc?.toString() ?? null,
+      });
+    }
+
+    if (newStatus === "DISPUTED") {
+      const reason =
+        typeof data.deliverables?.reason === "string"
+          ? data.deliverables.reason
+          : "Executor failed to deliver";
+
+      const { disputeId, autoResolved } = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.serviceJob.updateMany({ where: unchanged, data: updateData });
+        if (count === 0) throw Errors.conflict("Job was updated concurrently");
+
+        const disputedJob = await tx.serviceJob.findUniqueOrThrow({ where: { id: jobId } });
+        return openDispute(
+          tx,
+          disputedJob,
+          { agentId: job.sellerAgentId, role: "executor", submittedBy: address },
+          reason,
+        );
+      });
+
+      const updatedJob = await prisma.serviceJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: {
+          offering: { select: { slug: true, name: true, category: true } },
+          buyerAgent: { select: { id: true, name: true, pfpUrl: true } },
+        },
+      });
+
+      logger.info(
+        {
+          jobId,
+          disputeId,
+          autoResolved: autoResolved?.resolvedBy ?? null,
+          status: updatedJob.status,
+          escrowStatus: updatedJob.escrowStatus,
+        },
+        "Service job disputed",
+      );
+
+      return successResponse({
+        ...updatedJob,
+        priceUsdc: updatedJob.priceUsdc.toString(),
+        refundUsdc: updatedJob.refundUsdc?.toString() ?? null,
       });
     }
 
-    // Non-COMPLETED transitions
-    const updatedJob = await prisma.serviceJob.update({
+    // Remaining transitions
+    const { count } = await prisma.serviceJob.updateMany({ where: unchanged, data: updateData });
+    if (count === 0) throw Errors.conflict("Job was updated concurrently");
+
+    const updatedJob = await prisma.serviceJob.findUniqueOrThrow({
       where: { id: jobId },
-      data: updateData,
       include: {
         offering: { select: { slug: true, name: true, category: true } },
         buyerAgent: { select: { id: true, name: true, pfpUrl: true } },
@@ -332,7 +470,12 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     });
 
     logger.info(
-      { jobId, from: job.status, to: newStatus },
+      {
+        jobId,
+        from: job.status,
+        to: newStatus,
+        escrowStatus: updatedJob.escrowStatus,
+      },
       "Service job status transitioned",
     );
 
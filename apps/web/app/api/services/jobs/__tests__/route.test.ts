@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const BUYER = '0x1111111111111111111111111111111111111111';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(BUYER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+const tx = {
+  serviceUsagePeriod: { create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  serviceJob: { create: vi.fn() },
+  walletTransaction: { create: vi.fn() },
+  serviceOffering: { update: vi.fn() },
+  serviceNegotiation: { updateMany: vi.fn() },
+};
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceOffering: { findFirst: vi.fn(), update: vi.fn() },
+    serviceUsagePeriod: { findUnique: vi.fn() },
+    agent: { findUnique: vi.fn() },
+    serviceJob: { create: vi.fn() },
+    serviceNegotiation: { findUnique: vi.fn() },
+    $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  },
+}));
+
+vi.mock('@/lib/x402-service', () => ({
+  parseX402Header: vi.fn(() => null),
+  verifyServicePayment: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const OFFERING = {
+  id: 'off-1',
+  sellerAgentId: 'cm0seller00000000000000000',
+  priceUsdc: 5_000_000n,
+  pricingModel: 'per_call',
+  pricingConfig: null,
+  slug: 'trend-alpha',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      chains: { type: 'array', items: { type: 'string' } },
+      timeframe: { type: 'string', enum: ['1h', '4h', '24h', '7d'] },
+    },
+    required: ['chains', 'timeframe'],
+  },
+};
+
+async function createJob(requirements: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  const { POST } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/jobs', {
+    method: 'POST',
+    body: JSON.stringify({
+      buyerAgentId: 'cm0buyer000000000000000000',
+      offeringSlug: 'trend-alpha',
+      requirements,
+      ...extra,
+    }),
+  });
+  return POST(request);
+}
+
+const BUYER_AGENT = {
+  id: 'cm0buyer000000000000000000',
+  creatorAddress: BUYER,
+  status: 'ACTIVE',
+};
+
+describe('POST /api/services/jobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.serviceUsagePeriod.create.mockResolvedValue({ id: 'period-1' });
+    tx.serviceUsagePeriod.updateMany.mockResolvedValue({ count: 1 });
+    tx.serviceJob.create.mockResolvedValue({ id: 'job-1', priceUsdc: 5_000_000n, escrowStatus: 'NONE' });
+  });
+
+  it('should reject requirements that violate the inputSchema with field details', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(OFFERING);
+
+    const response = await createJob({ chains: 'base', timeframe: '2h' });
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+    expect(body.error.details).toEqual([
+      { path: 'chains', message: 'Expected array, got string' },
+      { path: 'timeframe', message: 'Must be one of "1h", "4h", "24h", "7d"' },
+    ]);
+    expect(prisma.agent.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should ignore executor routing keys when validating', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...OFFERING,
+      inputSchema: { ...OFFERING.inputSchema, additionalProperties: false },
+    });
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    const response = await createJob({
+      chains: ['base'],
+      timeframe: '24h',
+      capability: 'trend-analysis',
+    });
+
+    expect(response.status).toBe(201);
+    expect(tx.serviceUsagePeriod.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ pricingModel: 'per_call', calls: 1, chargedUsdc: 5_000_000n }),
+    });
+  });
+
+  it('should not charge subscription calls included in the current period', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...OFFERING,
+      pricingModel: 'subscription',
+      pricingConfig: { periodDays: 30, includedCalls: 5 },
+    });
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'period-1',
+      calls: 2,
+      feeJobId: 'job-0',
+    });
+
+    const response = await createJob({ chains: ['base'], timeframe: '24h' });
+
+    expect(response.status).toBe(201);
+    expect(tx.serviceUsagePeriod.updateMany).toHaveBeenCalledWith({
+      where: { id: 'period-1', calls: 2, feeJobId: 'job-0' },
+      data: { calls: { increment: 1 }, chargedUsdc: { increment: 0n } },
+    });
+    expect(tx.serviceJob.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ priceUsdc: 0n, usagePeriodId: 'period-1' }),
+      }),
+    );
+    expect(tx.serviceUsagePeriod.update).not.toHaveBeenCalled();
+  });
+
+  it('should charge the subscription fee again once the job that paid it was refunded', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...OFFERING,
+      pricingModel: 'subscription',
+      pricingConfig: { periodDays: 30, includedCalls: 5 },
+    });
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    // Rolled back by the settlement pass: one call left, no fee job
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'period-1',
+      calls: 1,
+      feeJobId: null,
+    });
+
+    const response = await createJob({ chains: ['base'], timeframe: '24h' });
+
+    expect(response.status).toBe(201);
+    expect(tx.serviceJob.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ priceUsdc: 5_000_000n, usagePeriodId: 'period-1' }),
+      }),
+    );
+    expect(tx.serviceUsagePeriod.update).toHaveBeenCalledWith({
+      where: { id: 'period-1' },
+      data: { feeJobId: 'job-1' },
+    });
+  });
+
+  it('should reject a job when usage changed since it was priced', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(OFFERING);
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'period-1',
+      calls: 3,
+    });
+    tx.serviceUsagePeriod.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await createJob({ chains: ['base'], timeframe: '24h' });
+
+    expect(response.status).toBe(409);
+    expect(tx.serviceJob.create).not.toHaveBeenCalled();
+  });
+
+  it('should queue a refund when usage changed after the payment settled', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    const x402 = await import('@/lib/x402-service');
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(OFFERING);
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: 'period-1',
+      calls: 3,
+    });
+    (prisma.serviceJob.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'job-refund' });
+    (x402.parseX402Header as ReturnType<typeof vi.fn>).mockReturnValueOnce({});
+    (x402.verifyServicePayment as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      txHash: '0xpaid',
+      payer: '0xPAYER',
+      payee: '0xESCROW',
+      amount: 5_000_000n,
+    });
+    tx.serviceUsagePeriod.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await createJob({ chains: ['base'], timeframe: '24h' });
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error.message).toContain('the payment will be refunded');
+    expect(tx.serviceJob.create).not.toHaveBeenCalled();
+    expect(prisma.serviceJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: 'REJECTED',
+        escrowStatus: 'REFUND_PENDING',
+        escrowPayer: '0xpayer',
+        escrowUsdc: 5_000_000n,
+        paymentTxHash: '0xpaid',
+      }),
+      select: { id: true },
+    });
+  });
+
+  it('should charge the agreed price of a signed negotiation quote', async () => {
+    process.env.QUOTE_SIGNING_SECRET = 'test-quote-secret';
+    const { signQuote } = await import('@/lib/negotiation');
+    const { prisma } = await import('@/lib/prisma');
+    const negotiation = {
+      id: 'cm0negotiation000000000000',
+      offeringId: OFFERING.id,
+      buyerAgentId: BUYER_AGENT.id,
+      status: 'ACCEPTED',
+      agreedPriceUsdc: 4_000_000n,
+      quantity: 10,
+      jobsUsed: 2,
+      quoteExpiresAt: new Date(Date.now() + 60_000),
+    };
+    const signature = signQuote({
+      negotiationId: negotiation.id,
+      offeringId: negotiation.offeringId,
+      buyerAgentId: negotiation.buyerAgentId,
+      priceUsdc: negotiation.agreedPriceUsdc,
+      quantity: negotiation.quantity,
+      expiresAt: negotiation.quoteExpiresAt,
+    });
+    (prisma.serviceOffering.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(OFFERING);
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(BUYER_AGENT);
+    (prisma.serviceUsagePeriod.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    (prisma.serviceNegotiation.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(negotiation);
+    tx.serviceNegotiation.updateMany.mockResolvedValue({ count: 1 });
+
+    const response = await createJob(
+      { chains: ['base'], timeframe: '24h' },
+      { quote: { negotiationId: negotiation.id, signature } },
+    );
+
+    expect(response.status).toBe(201);
+    expect(tx.serviceNegotiation.updateMany).toHaveBeenCalledWith({
+      where: { id: negotiation.id, jobsUsed: 2 },
+      data: { jobsUsed: { increment: 1 } },
+    });
+    expect(tx.serviceJob.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ priceUsdc: 4_000_000n, negotiationId: negotiation.id }),
+      }),
+    );
+
+    const tampered = await createJob(
+      { chains: ['base'], timeframe: '24h' },
+      { quote: { negotiationId: negotiation.id, signature: '0'.repeat(64) } },
+    );
+    expect(tampered.status).toBe(402);
+
+    // Quote used up concurrently after this buyer's payment settled
+    const x402 = await import('@/lib/x402-service');
+    (x402.parseX402Header as ReturnType<typeof vi.fn>).mockReturnValueOnce({});
+    (x402.verifyServicePayment as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      txHash: '0xpaid',
+      payer: '0xPAYER',
+      payee: '0xESCROW',
+      amount: 4_000_000n,
+    });
+    (prisma.serviceJob.create as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 'job-refund' });
+    tx.serviceNegotiation.updateMany.mockResolvedValue({ count: 0 });
+
+    const raced = await createJob(
+      { chains: ['base'], timeframe: '24h' },
+      { quote: { negotiationId: negotiation.id, signature } },
+    );
+    expect(raced.status).toBe(409);
+    expect(prisma.serviceJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ escrowStatus: 'REFUND_PENDING', escrowUsdc: 4_000_000n }),
+      select: { id: true },
+    });
+  });
+});
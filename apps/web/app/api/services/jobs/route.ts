@@ -3,11 +3,16 @@ import { Prisma, ServiceJobStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { successResponse, errorResponse } from "@/lib/api-utils";
-import { Errors } from "@/lib/errors";
+import { AppError, Errors } from "@/lib/errors";
 import { verifyWalletSignature } from "@/lib/auth";
 import { authenticatedLimiter } from "@/lib/rate-limit";
 import { createServiceJobSchema } from "@/lib/validation";
+import { validateJsonSchema } from "@ceosrun/shared/utils/json-schema";
 import { parseX402Header, verifyServicePayment } from "@/lib/x402-service";
+import { quoteForBuyer } from "@/lib/pricing";
+import { loadNegotiatedQuote } from "@/lib/negotiation";
+import { attributeHuntConversion } from "@/lib/hunt-attribution";
+import { stripRoutingKeys } from "@/lib/service-discovery";
 
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
 
@@ -17,11 +22,24 @@ const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
  * Create a service job (buyer purchases a service).
  *
  * Flow:
- *   1. Resolve offering by slug, verify ACTIVE
+ *   1. Resolve offering by slug, verify ACTIVE; validate requirements
+ *      against its inputSchema (422 with per-field details)
  *   2. Verify buyer agent belongs to caller
  *   3. Prevent self-purchase
- *   4. Calculate expiresAt from ttlMinutes
- *   5. Create job + increment offering.totalJobs atomically
+ *   4. Price the job under the offering's pricing model (lib/pricing.ts),
+ *      or at the agreed price of a signed negotiation quote
+ *      (lib/negotiation.ts), and calculate expiresAt from ttlMinutes
+ *   5. Verify x402 payment for that charge — funds are held in escrow
+ *      (not paid to seller). Jobs covered by a subscription charge nothing.
+ *   6. Create job, count it in the buyer's usage period (and against the
+ *      quote's quantity), record the charge as a WalletTransaction and
+ *      increment offering.totalJobs atomically
+ *   7. Attribute the job to the Social Hunter lead that pitched the buyer,
+ *      if any (lib/hunt-attribution.ts)
+ *
+ * If step 6 fails after the payment settled (usage or the quote changed
+ * concurrently), the payment is recorded as a REJECTED job with its
+ * escrow pending refund, so the maintenance worker returns the USDC.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -34,13 +52,31 @@ export async function POST(request: NextRequest) {
     // 1. Resolve offering by slug
     const offering = await prisma.serviceOffering.findFirst({
       where: { slug: data.offeringSlug, status: "ACTIVE" },
-      select: { id: true, sellerAgentId: true, priceUsdc: true, slug: true },
+      select: {
+        id: true,
+        sellerAgentId: true,
+        priceUsdc: true,
+        pricingModel: true,
+        pricingConfig: true,
+        slug: true,
+        inputSchema: true,
+      },
     });
 
     if (!offering) {
       throw Errors.notFound("Service offering (or not ACTIVE)");
     }
 
+    // Reject bad input before any payment is taken
+    const input = stripRoutingKeys(data.requirements);
+    const violations = validateJsonSchema(offering.inputSchema, input);
+    if (violations.length > 0) {
+      throw Errors.validationFailed(
+        `requirements do not match the inputSchema of "${offering.slug}"`,
+        violations,
+      );
+    }
+
     // 2. Verify buyer agent ownership
     const buyerAgent = await prisma.agent.findUnique({
       where: { id: data.buyerAgentId },
@@ -62,25 +98,48 @@ export async function POST(request: NextRequest) {
       throw Errors.conflict("An agent cannot purchase its own service");
     }
 
-    // 4. Calculate expiry
+    // 4. Price the job and calculate expiry
+    const { charge, window, period } = await quoteForBuyer(
+      prisma,
+      offering,
+      data.buyerAgentId,
+      data.maxUnits,
+    );
+
+    const negotiated = data.quote
+      ? await loadNegotiatedQuote(prisma, data.quote, offering.id, data.buyerAgentId)
+      : null;
+    if (negotiated) {
+      if (charge.pricingModel !== "per_call") {
+        throw Errors.conflict("Offering is no longer priced per call — the quote does not apply");
+      }
+      charge.chargeUsdc = negotiated.priceUsdc;
+      charge.description = `Negotiated price for quote ${negotiated.negotiationId}`;
+    }
     const expiresAt = new Date(Date.now() + data.ttlMinutes * 60 * 1000);
 
     // ── x402 Payment Verification (Pay-Before-Create) ─────────────────
     //
     // Parse the X-PAYMENT header containing the signed EIP-3009 USDC
     // transfer. If present, verify via the CDP facilitator before
-    // creating the job. The USDC is transferred on-chain first.
+    // creating the job. The USDC is transferred on-chain first — into
+    // the protocol resource wallet, where it is held in escrow until the
+    // buyer approves the delivery (see lib/escrow.ts).
     //
     let paymentTxHash: string | null = null;
+    let escrowPayer: string | null = null;
+    let escrowUsdc: bigint | null = null;
 
     const paymentData = parseX402Header(request);
-    if (paymentData) {
+    if (paymentData && charge.chargeUsdc > 0n) {
       const verified = await verifyServicePayment(
         paymentData,
-        offering.priceUsdc,
+        charge.chargeUsdc,
         "/api/services/jobs",
       );
       paymentTxHash = verified.txHash;
+      escrowPayer = verified.payer.toLowerCase();
+      escrowUsdc = verified.amount;
 
       logger.info(
         {
@@ -88,10 +147,11 @@ export async function POST(request: NextRequest) {
           payer: verified.payer,
           amount: verified.amount.toString(),
           offeringSlug: offering.slug,
+          pricingModel: charge.pricingModel,
         },
-        "x402 service payment verified — creating job",
+        "x402 service payment verified — holding in escrow and creating job",
       );
-    } else {
+    } else if (charge.chargeUsdc > 0n) {
       // No X-PAYMENT header — log warning but allow job creation.
       // In production, this gate should be strict (throw if missing).
       // Kept permissive during development/testnet phase.
@@ -101,7 +161,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 5. Create job + increment totalJobs atomically
+    // 6. Create job + usage + increment totalJobs atomically
     //
     // In DEMO_MODE, auto-accept the job so the BullMQ Service Executor
     // picks it up immediately. In production, jobs start as CREATED and
@@ -109,16 +169,71 @@ export async function POST(request: NextRequest) {
     const initialStatus: ServiceJobStatus = DEMO_MODE ? "ACCEPTED" : "CREATED";
     const acceptedAt = DEMO_MODE ? new Date() : undefined;
 
-    const [job] = await prisma.$transaction([
-      prisma.serviceJob.create({
+    const job = await prisma.$transaction(async (tx) => {
+      // The charge was priced from `period.calls` — a concurrent job in the
+      // same period would change it, so only count this one if it didn't.
+      let usagePeriodId: string;
+      if (period) {
+        const { count } = await tx.serviceUsagePeriod.updateMany({
+          where: { id: period.id, calls: period.calls, feeJobId: period.feeJobId },
+          data: {
+            calls: { increment: 1 },
+            chargedUsdc: { increment: charge.chargeUsdc },
+          },
+        });
+        if (count === 0) {
+          throw Errors.conflict("Usage changed concurrently — request a new quote and retry");
+        }
+        usagePeriodId = period.id;
+      } else {
+        try {
+          const created = await tx.serviceUsagePeriod.create({
+            data: {
+              offeringId: offering.id,
+              buyerAgentId: data.buyerAgentId,
+              sellerAgentId: offering.sellerAgentId,
+              pricingModel: charge.pricingModel,
+              periodStart: window.periodStart,
+              periodEnd: window.periodEnd,
+              calls: 1,
+              chargedUsdc: charge.chargeUsdc,
+            },
+          });
+          usagePeriodId = created.id;
+        } catch (err) {
+          if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+            throw Errors.conflict("Usage changed concurrently — request a new quote and retry");
+          }
+          throw err;
+        }
+      }
+
+      // Each job uses up one of the quote's `quantity`
+      if (negotiated) {
+        const { count } = await tx.serviceNegotiation.updateMany({
+          where: { id: negotiated.negotiationId, jobsUsed: negotiated.jobsUsed },
+          data: { jobsUsed: { increment: 1 } },
+        });
+        if (count === 0) {
+          throw Errors.conflict("Quote was used concurrently — retry");
+        }
+      }
+
+      const created = await tx.serviceJob.create({
         data: {
           offeringId: offering.id,
           buyerAgentId: data.buyerAgentId,
           sellerAgentId: offering.sellerAgentId,
           status: initialStatus,
           requirements: data.requirements as Prisma.InputJsonValue,
-          priceUsdc: offering.priceUsdc,
+          priceUsdc: charge.chargeUsdc,
           paymentTxHash,
+          escrowStatus: escrowPayer ? "HELD" : "NONE",
+          escrowPayer,
+          escrowUsdc,
+          usagePeriodId,
+          negotiationId: negotiated?.negotiationId ?? null,
+          referralToken: data.ref ?? null,
           acceptedAt,
           expiresAt,
         },
@@ -130,20 +245,86 @@ export async function POST(request: NextRequest) {
             select: { id: true, name: true, pfpUrl: true },
           },
         },
-      }),
-      prisma.serviceOffering.update({
+      });
+
+      // The period's subscription fee is paid by this job — if it is
+      // refunded, the settlement pass rolls the period back
+      if (charge.subscriptionFee) {
+        await tx.serviceUsagePeriod.update({
+          where: { id: usagePeriodId },
+          data: { feeJobId: created.id },
+        });
+      }
+
+      // Buyer-side ledger entry — invoices are built from these
+      if (escrowPayer && escrowUsdc !== null) {
+        await tx.walletTransaction.create({
+          data: {
+            agentId: data.buyerAgentId,
+            type: "x402_outbound",
+            amount: Number(escrowUsdc) / 1_000_000,
+            currency: "USDC",
+            serviceUrl: "/api/services/jobs",
+            txHash: paymentTxHash,
+            status: "completed",
+            category: "service_job",
+            metadata: {
+              jobId: created.id,
+              offeringId: offering.id,
+              pricingModel: charge.pricingModel,
+              usagePeriodId,
+              ...(negotiated && { negotiationId: negotiated.negotiationId }),
+            },
+          },
+        });
+      }
+
+      await tx.serviceOffering.update({
         where: { id: offering.id },
         data: { totalJobs: { increment: 1 } },
-      }),
-    ]);
+      });
+
+      return created;
+    }).catch(async (err: unknown) => {
+      // The USDC already settled into escrow — leave a refundable record
+      if (escrowPayer && escrowUsdc !== null) {
+        await recordUnplacedPayment({
+          offeringId: offering.id,
+          buyerAgentId: data.buyerAgentId,
+          sellerAgentId: offering.sellerAgentId,
+          requirements: data.requirements as Prisma.InputJsonValue,
+          priceUsdc: charge.chargeUsdc,
+          paymentTxHash,
+          escrowPayer,
+          escrowUsdc,
+          expiresAt,
+          reason: err instanceof Error ? err.message : String(err),
+        });
+        if (err instanceof AppError) {
+          throw new AppError(err.code, `${err.message} — the payment will be refunded`, err.statusCode);
+        }
+      }
+      throw err;
+    });
+
+    // 7. Attribution is bookkeeping — it never fails the purchase
+    const attribution = await attributeHuntConversion(prisma, job).catch((err: unknown) => {
+      logger.warn({ jobId: job.id, err }, "Social Hunter attribution failed");
+      return null;
+    });
+    if (attribution) {
+      logger.info({ jobId: job.id, ...attribution }, "Service job attributed to Social Hunter lead");
+    }
 
     logger.info(
       {
         jobId: job.id,
         offeringSlug: offering.slug,
         buyerAgentId: data.buyerAgentId,
-        priceUsdc: offering.priceUsdc.toString(),
+        priceUsdc: charge.chargeUsdc.toString(),
+        pricingModel: charge.pricingModel,
         paymentTxHash,
+        escrowStatus: job.escrowStatus,
         status: initialStatus,
         demoMode: DEMO_MODE,
       },
@@ -153,7 +334,16 @@ export async function POST(request: NextRequest) {
     );
 
     return successResponse(
-      { ...job, priceUsdc: job.priceUsdc.toString() },
+      {
+        ...job,
+        priceUsdc: job.priceUsdc.toString(),
+        pricing: {
+          pricingModel: charge.pricingModel,
+          authorizedUnits: charge.authorizedUnits ?? null,
+          description: charge.description,
+          negotiationId: negotiated?.negotiationId ?? null,
+        },
+      },
       201,
     );
   } catch (err) {
@@ -161,6 +351,52 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Record a settled payment whose job could not be created, as a REJECTED
+ * job with its escrow queued for refund. Never throws: the error that
+ * stopped the job is what the buyer sees.
+ */
+async function recordUnplacedPayment(payment: {
+  offeringId: string;
+  buyerAgentId: string;
+  sellerAgentId: string;
+  requirements: Prisma.InputJsonValue;
+  priceUsdc: bigint;
+  paymentTxHash: string | null;
+  escrowPayer: string;
+  escrowUsdc: bigint;
+  expiresAt: Date;
+  reason: string;
+}): Promise<void> {
+  const { reason, ...job } = payment;
+  try {
+    const refund = await prisma.serviceJob.create({
+      data: {
+        ...job,
+        status: "REJECTED",
+        rejectionReason: `Not created: ${reason}`,
+        escrowStatus: "REFUND_PENDING",
+      },
+      select: { id: true },
+    });
+    logger.warn(
+      { jobId: refund.id, paymentTxHash: payment.paymentTxHash, reason },
+      "Paid job could not be created — payment queued for refund",
+    );
+  } catch (err) {
+    logger.error(
+      {
+        paymentTxHash: payment.paymentTxHash,
+        payer: payment.escrowPayer,
+        amount: payment.escrowUsdc.toString(),
+        reason,
+        error: err instanceof Error ? err.message : String(err),
+      },
+      "Paid job could not be created and the refund was not recorded — manual refund required",
+    );
+  }
+}
+
 /**
  * GET /api/services/jobs
  *
@@ -257,6 +493,7 @@ export async function GET(request: NextRequest) {
     const serialized = jobs.map((j) => ({
       ...j,
       priceUsdc: j.priceUsdc.toString(),
+      refundUsdc: j.refundUsdc?.toString() ?? null,
     }));
 
     return successResponse({ jobs: serialized, total, page, limit });
@@ -7,6 +7,7 @@ import { Errors } from "@/lib/errors";
 import { verifyWalletSignature } from "@/lib/auth";
 import { authenticatedLimiter, publicLimiter, getClientIp } from "@/lib/rate-limit";
 import { createServiceOfferingSchema, paginationSchema } from "@/lib/validation";
+import { toPublicOffering } from "@/lib/negotiation";
 
 /**
  * Helper: generate a URL-safe slug from a name + random suffix.
@@ -51,7 +52,7 @@ export async function GET(request: NextRequest) {
 
     // Serialize BigInt fields to string for JSON
     const serialized = services.map((s) => ({
-      ...s,
+      ...toPublicOffering(s),
       priceUsdc: s.priceUsdc.toString(),
     }));
 
@@ -66,6 +67,8 @@ export async function GET(request: NextRequest) {
  *
  * Register a new service offering. Requires wallet auth.
  * The caller must be the creator of the seller agent.
+ * `capabilities` must be tags from the shared capability registry
+ * (GET /api/services/capabilities).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -107,8 +110,11 @@ export async function POST(request: NextRequest) {
         name: data.name,
         description: data.description,
         category: data.category,
+        capabilities: data.capabilities,
         priceUsdc: BigInt(data.priceUsdc),
         pricingModel: data.pricingModel,
+        pricingConfig: (data.pricingConfig as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        negotiationConfig: (data.negotiationConfig as Prisma.InputJsonValue) ?? Prisma.DbNull,
         inputSchema: data.inputSchema as Prisma.InputJsonValue,
         outputSchema: data.outputSchema as Prisma.InputJsonValue,
         maxLatencyMs: data.maxLatencyMs,
@@ -122,7 +128,12 @@ export async function POST(request: NextRequest) {
     });
 
     logger.info(
-      { slug, agentId: data.sellerAgentId, category: data.category },
+      {
+        slug,
+        agentId: data.sellerAgentId,
+        category: data.category,
+        capabilities: data.capabilities,
+      },
       "Service offering created",
     );
 
@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { serializeWorkflow } from "@/lib/workflows";
+
+type RouteContext = { params: Promise<{ workflowId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * POST /api/services/workflows/[workflowId]/cancel
+ *
+ * Cancel a workflow. A PENDING workflow has hired nothing and is
+ * cancelled immediately. A RUNNING workflow is flagged; the buyer's
+ * runtime then compensates its steps (cancelling in-flight jobs,
+ * disputing delivered ones) and finishes it as CANCELLED.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { workflowId } = await context.params;
+
+    const workflow = await prisma.serviceWorkflow.findUnique({
+      where: { id: workflowId },
+      include: { buyerAgent: { select: { creatorAddress: true } } },
+    });
+
+    if (!workflow) throw Errors.notFound("Service workflow");
+
+    if (!DEMO_MODE && workflow.buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the buyer agent's creator can cancel this workflow");
+    }
+
+    // Conditional updates guard against the runtime advancing concurrently
+    const now = new Date();
+    let count = 0;
+
+    if (workflow.status === "PENDING") {
+      ({ count } = await prisma.serviceWorkflow.updateMany({
+        where: { id: workflowId, status: "PENDING" },
+        data: { status: "CANCELLED", cancelRequestedAt: now, finishedAt: now },
+      }));
+    } else if (workflow.status === "RUNNING") {
+      ({ count } = await prisma.serviceWorkflow.updateMany({
+        where: { id: workflowId, status: "RUNNING", cancelRequestedAt: null },
+        data: { cancelRequestedAt: now },
+      }));
+    }
+
+    if (count === 0) {
+      throw Errors.conflict(`Cannot cancel a ${workflow.status} workflow`);
+    }
+
+    const updated = await prisma.serviceWorkflow.findUniqueOrThrow({
+      where: { id: workflowId },
+      include: { steps: { orderBy: { createdAt: "asc" } } },
+    });
+
+    logger.info(
+      { workflowId, status: updated.status },
+      "Service workflow cancellation requested by buyer",
+    );
+
+    return successResponse(serializeWorkflow(updated));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
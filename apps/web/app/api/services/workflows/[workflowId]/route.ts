@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { serializeWorkflow } from "@/lib/workflows";
+
+type RouteContext = { params: Promise<{ workflowId: string }> };
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * GET /api/services/workflows/[workflowId]
+ *
+ * Workflow detail with every step and the service jobs hired for it
+ * (one per attempt). Only the buyer agent's creator can read it.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+    const { workflowId } = await context.params;
+
+    const workflow = await prisma.serviceWorkflow.findUnique({
+      where: { id: workflowId },
+      include: {
+        buyerAgent: { select: { id: true, name: true, creatorAddress: true } },
+        steps: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            jobs: {
+              select: {
+                id: true,
+                status: true,
+                escrowStatus: true,
+                priceUsdc: true,
+                createdAt: true,
+                offering: { select: { slug: true, name: true } },
+              },
+              orderBy: { createdAt: "asc" },
+            },
+          },
+        },
+      },
+    });
+
+    if (!workflow) throw Errors.notFound("Service workflow");
+
+    if (!DEMO_MODE && workflow.buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the buyer agent's creator can view this workflow");
+    }
+
+    return successResponse(serializeWorkflow(workflow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
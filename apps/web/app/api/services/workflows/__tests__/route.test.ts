@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const BUYER = '0x1111111111111111111111111111111111111111';
+const BUYER_AGENT_ID = 'cm0buyer000000000000000000';
+
+vi.mock('@/lib/auth', () => ({
+  verifyWalletSignature: vi.fn(() => Promise.resolve(BUYER)),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  authenticatedLimiter: { check: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    agent: { findUnique: vi.fn(), findMany: vi.fn() },
+    serviceWorkflow: { create: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+async function createWorkflow(steps: unknown[]) {
+  const { POST } = await import('../route');
+  const request = new NextRequest('http://localhost/api/services/workflows', {
+    method: 'POST',
+    body: JSON.stringify({
+      buyerAgentId: BUYER_AGENT_ID,
+      name: 'Trend thread',
+      budgetUsdc: '20000000',
+      steps,
+    }),
+  });
+  return POST(request);
+}
+
+describe('POST /api/services/workflows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a workflow with its steps', async () => {
+    const { prisma } = await import('@/lib/prisma');
+    (prisma.agent.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: BUYER_AGENT_ID,
+      creatorAddress: BUYER,
+      status: 'ACTIVE',
+    });
+    (prisma.serviceWorkflow.create as ReturnType<typeof vi.fn>).mockImplementation(
+      ({ data }: { data: { budgetUsdc: bigint; steps: { create: unknown[] } } }) =>
+        Promise.resolve({
+          id: 'wf-1',
+          status: 'PENDING',
+          budgetUsdc: data.budgetUsdc,
+          spentUsdc: 0n,
+          steps: data.steps.create.map((step, i) => ({ id: `step-${i}`, ...(step as object) })),
+        }),
+    );
+
+    const response = await createWorkflow([
+      { key: 'trend', capability: 'trend-analysis' },
+      {
+        key: 'draft',
+        capability: 'thread-writing',
+        dependsOn: ['trend'],
+        inputs: { topic: 'trend.output.trends.0.topic' },
+        maxPriceUsdc: '5000000',
+      },
+    ]);
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.budgetUsdc).toBe('20000000');
+    expect(body.data.steps[1]).toMatchObject({
+      key: 'draft',
+      dependsOn: ['trend'],
+      maxPriceUsdc: '5000000',
+      maxAttempts: 2,
+      onCompensate: 'refund',
+    });
+  });
+
+  it('should reject a dependency cycle with details', async () => {
+    const response = await createWorkflow([
+      { key: 'a', capability: 'trend-analysis', dependsOn: ['b'] },
+      { key: 'b', capability: 'thread-writing', dependsOn: ['a'] },
+    ]);
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error.details).toEqual([
+      { path: 'steps', message: 'Dependency cycle: a → b → a' },
+    ]);
+  });
+
+  it('should reject inputs that read from a step outside dependsOn', async () => {
+    const response = await createWorkflow([
+      { key: 'trend', capability: 'trend-analysis' },
+      { key: 'draft', capability: 'thread-writing', inputs: { topic: 'trend.output.topic' } },
+    ]);
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error.details[0].path).toBe('steps.1.inputs.topic');
+  });
+});
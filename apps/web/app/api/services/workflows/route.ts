@@ -0,0 +1,153 @@
+import { NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { successResponse, errorResponse } from "@/lib/api-utils";
+import { Errors } from "@/lib/errors";
+import { verifyWalletSignature } from "@/lib/auth";
+import { authenticatedLimiter } from "@/lib/rate-limit";
+import { createWorkflowSchema } from "@/lib/validation";
+import { serializeWorkflow, validateWorkflowGraph } from "@/lib/workflows";
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/**
+ * POST /api/services/workflows
+ *
+ * Define a multi-step workflow for a buyer agent. Steps form a DAG;
+ * each step's `inputs` map fields of upstream deliverables into its
+ * requirements. The workflow starts PENDING and is run by the buyer
+ * agent's runtime, which hires one service job per step.
+ *
+ * Rejects invalid graphs (duplicate keys, unknown dependencies, cycles,
+ * inputs reading from non-dependencies) with 422 and per-field details.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+
+    const body: unknown = await request.json();
+    const data = createWorkflowSchema.parse(body);
+
+    const graphErrors = validateWorkflowGraph(data.steps);
+    if (graphErrors.length > 0) {
+      throw Errors.validationFailed("Invalid workflow graph", graphErrors);
+    }
+
+    const buyerAgent = await prisma.agent.findUnique({
+      where: { id: data.buyerAgentId },
+      select: { id: true, creatorAddress: true, status: true },
+    });
+
+    if (!buyerAgent) throw Errors.notFound("Buyer agent");
+
+    // GOD MODE: In demo mode, skip ownership check — any wallet can use demo agents.
+    if (!DEMO_MODE && buyerAgent.creatorAddress !== address) {
+      throw Errors.forbidden("Only the agent creator can create workflows");
+    }
+    if (buyerAgent.status !== "ACTIVE") {
+      throw Errors.conflict("Buyer agent must be ACTIVE");
+    }
+
+    const workflow = await prisma.serviceWorkflow.create({
+      data: {
+        buyerAgentId: data.buyerAgentId,
+        name: data.name,
+        budgetUsdc: BigInt(data.budgetUsdc),
+        steps: {
+          create: data.steps.map((step) => ({
+            key: step.key,
+            capability: step.capability,
+            offeringSlug: step.offeringSlug,
+            maxPriceUsdc: step.maxPriceUsdc ? BigInt(step.maxPriceUsdc) : null,
+            dependsOn: step.dependsOn,
+            requirements: step.requirements as Prisma.InputJsonValue,
+            inputs: step.inputs,
+            maxAttempts: step.maxAttempts,
+            onCompensate: step.onCompensate,
+          })),
+        },
+      },
+      include: { steps: true },
+    });
+
+    logger.info(
+      {
+        workflowId: workflow.id,
+        buyerAgentId: data.buyerAgentId,
+        steps: data.steps.length,
+        budgetUsdc: data.budgetUsdc,
+      },
+      "Service workflow created",
+    );
+
+    return successResponse(serializeWorkflow(workflow), 201);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * GET /api/services/workflows
+ *
+ * List workflows of the caller's agents.
+ *
+ * Query params:
+ *   agentId — filter by buyer agent
+ *   status  — filter by workflow status
+ *   page, limit — pagination
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = await verifyWalletSignature(request);
+    authenticatedLimiter.check(address);
+
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const page = Math.max(1, Number(params.page) || 1);
+    const limit = Math.min(50, Math.max(1, Number(params.limit) || 20));
+    const skip = (page - 1) * limit;
+
+    const userAgents = await prisma.agent.findMany({
+      where: { creatorAddress: address },
+      select: { id: true },
+    });
+    const userAgentIds = userAgents.map((a) => a.id);
+
+    if (userAgentIds.length === 0) {
+      return successResponse({ workflows: [], total: 0, page, limit });
+    }
+
+    const agentId = params.agentId as string | undefined;
+    const status = params.status as string | undefined;
+
+    if (agentId && !userAgentIds.includes(agentId)) {
+      throw Errors.forbidden("Agent does not belong to you");
+    }
+
+    const where: Prisma.ServiceWorkflowWhereInput = {
+      buyerAgentId: agentId ?? { in: userAgentIds },
+      ...(status && { status: status as Prisma.EnumServiceWorkflowStatusFilter }),
+    };
+
+    const [workflows, total] = await Promise.all([
+      prisma.serviceWorkflow.findMany({
+        where,
+        include: { steps: { orderBy: { createdAt: "asc" } } },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.serviceWorkflow.count({ where }),
+    ]);
+
+    return successResponse({
+      workflows: workflows.map(serializeWorkflow),
+      total,
+      page,
+      limit,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation';
+
+/** Shape of the Social Hunter tokens (createServiceJobSchema.ref) */
+const REF_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+interface HirePageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ ref?: string | string[] }>;
+}
+
+/**
+ * /hire/[slug] — Hire links in Social Hunter pitches
+ *
+ * Opens the offering's hire sheet in the marketplace, carrying the pitch's
+ * `?ref=` token along so the job it leads to is attributed to the lead.
+ * A malformed token is dropped rather than failing the purchase.
+ */
+export default async function HirePage({ params, searchParams }: HirePageProps) {
+  const { slug } = await params;
+  const { ref } = await searchParams;
+
+  const query = new URLSearchParams({ offering: slug });
+  if (typeof ref === 'string' && REF_PATTERN.test(ref)) {
+    query.set('ref', ref);
+  }
+
+  redirect(`/dashboard/services?${query.toString()}`);
+}
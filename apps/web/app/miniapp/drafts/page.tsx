@@ -0,0 +1,26 @@
+"use client";
+
+import { MiniAppProvider } from "@/components/miniapp/miniapp-provider";
+import { DraftsPanel } from "@/components/agent/drafts-panel";
+
+function DraftsContent() {
+  // MiniAppProvider only renders children client-side, once it has read
+  // the same query string: the frame passes the creator's wallet
+  const address = new URLSearchParams(window.location.search).get("address") ?? undefined;
+
+  return <DraftsPanel walletAddress={address} className="p-4" />;
+}
+
+export default function MiniAppDraftsPage() {
+  return (
+    <MiniAppProvider>
+      <div className="dark min-h-screen bg-[#0A0A0A] text-white">
+        <header className="border-b border-white/5 p-4">
+          <h1 className="text-xl font-bold">Drafts</h1>
+          <p className="text-sm text-white/40">Approve, edit or reject what your agents want to post</p>
+        </header>
+        <DraftsContent />
+      </div>
+    </MiniAppProvider>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useSupervisionPolicy,
+  useUpdateSupervisionPolicy,
+  usePendingDrafts,
+  useDecideDraft,
+  type AgentDraft,
+  type DraftKind,
+} from '@/hooks/use-agent-drafts';
+import { cn } from '@/lib/utils';
+
+interface DraftsPanelProps {
+  /** Omit to list drafts of every agent the wallet owns (miniapp) */
+  agentId?: string;
+  walletAddress?: string;
+  className?: string;
+}
+
+type HoldKey = 'holdPosts' | 'holdReplies' | 'holdPitches';
+
+const holds: Array<{ key: HoldKey; label: string }> = [
+  { key: 'holdPosts', label: 'Scheduled casts and threads' },
+  { key: 'holdReplies', label: 'Replies to mentions' },
+  { key: 'holdPitches', label: 'Social Hunter pitches' },
+];
+
+const kindLabels: Record<DraftKind, string> = {
+  CAST: 'Cast',
+  THREAD: 'Thread',
+  MENTION_REPLY: 'Mention reply',
+  HUNT_PITCH: 'Pitch',
+  HUNT_FOLLOW_UP: 'Follow-up',
+};
+
+/** Thread parts are edited as one text, separated by blank lines. */
+const PART_SEPARATOR = '\n\n';
+
+function DraftItem({ draft, walletAddress, showAgent }: { draft: AgentDraft; walletAddress?: string; showAgent: boolean }) {
+  const decide = useDecideDraft(walletAddress);
+  const isThread = draft.kind === 'THREAD';
+  const original = isThread ? draft.parts.join(PART_SEPARATOR) : draft.text;
+  const [text, setText] = useState(original);
+  const targetText = typeof draft.context?.targetText === 'string' ? draft.context.targetText : null;
+
+  const handleApprove = () => {
+    if (text.trim() === original.trim()) {
+      decide.mutate({ draftId: draft.id, decision: { action: 'approve' } });
+      return;
+    }
+    const parts = isThread
+      ? text
+          .split(PART_SEPARATOR)
+          .map((part) => part.trim())
+          .filter(Boolean)
+      : undefined;
+    decide.mutate({
+      draftId: draft.id,
+      decision: { action: 'edit', text: parts?.[0] ?? text.trim(), parts },
+    });
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="outline">{kindLabels[draft.kind]}</Badge>
+        {showAgent && <span className="font-medium text-foreground">{draft.agent.name}</span>}
+        <span>{new Date(draft.createdAt).toLocaleString()}</span>
+        {draft.autoPublishAt && (
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            auto-publishes {new Date(draft.autoPublishAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+      {targetText && (
+        <p className="border-l-2 pl-2 text-xs text-muted-foreground line-clamp-3">{targetText}</p>
+      )}
+      <Textarea value={text} rows={isThread ? 8 : 4} onChange={(e) => setText(e.target.value)} />
+      {isThread && <p className="text-xs text-muted-foreground">Separate thread parts with a blank line.</p>}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={decide.isPending || !text.trim()} onClick={handleApprove}>
+          {text.trim() === original.trim() ? 'Approve' : 'Save & approve'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={decide.isPending}
+          onClick={() => decide.mutate({ draftId: draft.id, decision: { action: 'reject' } })}
+        >
+          Reject
+        </Button>
+      </div>
+      {decide.error && <p className="text-sm text-red-500">{decide.error.message}</p>}
+    </div>
+  );
+}
+
+function SupervisionSettings({ agentId, walletAddress }: { agentId: string; walletAddress?: string }) {
+  const { data: policy } = useSupervisionPolicy(agentId, walletAddress);
+  const updatePolicy = useUpdateSupervisionPolicy(agentId, walletAddress);
+
+  const [enabled, setEnabled] = useState(false);
+  const [held, setHeld] = useState<Record<HoldKey, boolean>>({
+    holdPosts: true,
+    holdReplies: true,
+    holdPitches: true,
+  });
+  const [autoPublish, setAutoPublish] = useState('');
+
+  useEffect(() => {
+    if (!policy) return;
+    setEnabled(policy.enabled);
+    setHeld({ holdPosts: policy.holdPosts, holdReplies: policy.holdReplies, holdPitches: policy.holdPitches });
+    setAutoPublish(policy.autoPublishAfterMinutes === null ? '' : String(policy.autoPublishAfterMinutes));
+  }, [policy]);
+
+  const handleSave = () => {
+    const minutes = Math.round(Number(autoPublish));
+    updatePolicy.mutate({
+      enabled,
+      ...held,
+      autoPublishAfterMinutes: autoPublish.trim() && minutes > 0 ? minutes : null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Supervised Mode</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-start gap-3 text-sm">
+          <input type="checkbox" className="mt-1" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          <span>
+            <span className="font-medium">Hold content for my approval</span>
+            <span className="block text-xs text-muted-foreground">
+              The agent drafts instead of posting; you approve, edit or reject each draft.
+            </span>
+          </span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {holds.map((hold) => (
+            <label key={hold.key} className="flex items-center gap-3 rounded-md border p-3 text-sm">
+              <input
+                type="checkbox"
+                disabled={!enabled}
+                checked={held[hold.key]}
+                onChange={(e) => setHeld((prev) => ({ ...prev, [hold.key]: e.target.checked }))}
+              />
+              {hold.label}
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="auto-publish">Auto-publish untouched drafts after (minutes)</Label>
+          <Input
+            id="auto-publish"
+            type="number"
+            min="5"
+            placeholder="Never"
+            disabled={!enabled}
+            value={autoPublish}
+            onChange={(e) => setAutoPublish(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={updatePolicy.isPending}>
+            {updatePolicy.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+          {updatePolicy.error && <p className="text-sm text-red-500">{updatePolicy.error.message}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DraftsPanel({ agentId, walletAddress, className }: DraftsPanelProps) {
+  const { data: drafts, isLoading } = usePendingDrafts(agentId, walletAddress);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Drafts</CardTitle>
+          <Badge variant="outline">{drafts?.length ?? 0} waiting</Badge>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !drafts || drafts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No drafts waiting for you.</p>
+          ) : (
+            drafts.map((draft) => (
+              <DraftItem key={draft.id} draft={draft} walletAddress={walletAddress} showAgent={!agentId} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {agentId && <SupervisionSettings agentId={agentId} walletAddress={walletAddress} />}
+    </div>
+  );
+}
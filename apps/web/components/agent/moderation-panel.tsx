@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useModerationPolicy,
+  useUpdateModerationPolicy,
+  usePendingModerationReviews,
+  useDecideModerationReview,
+  type UpdateModerationPolicyInput,
+} from '@/hooks/use-agent-moderation';
+import { cn } from '@/lib/utils';
+
+interface ModerationPanelProps {
+  agentId: string;
+  walletAddress?: string;
+  className?: string;
+}
+
+type CheckKey = 'financialAdvice' | 'scamPatterns' | 'pii' | 'llmClassifier';
+
+const checks: Array<{ key: CheckKey; label: string; hint: string }> = [
+  { key: 'financialAdvice', label: 'Financial advice', hint: 'Adds a disclaimer, or blocks if there is no room' },
+  { key: 'scamPatterns', label: 'Scam patterns', hint: 'Blocks seed-phrase, wallet-connect and giveaway bait' },
+  { key: 'pii', label: 'Personal data', hint: 'Redacts emails and phone numbers, blocks private keys' },
+  { key: 'llmClassifier', label: 'LLM classifier', hint: 'Second opinion from a model; counts toward spend' },
+];
+
+/** "a, b ,c" → ["a", "b", "c"] */
+function toList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function ModerationPanel({ agentId, walletAddress, className }: ModerationPanelProps) {
+  const { data: policy, isLoading } = useModerationPolicy(agentId, walletAddress);
+  const updatePolicy = useUpdateModerationPolicy(agentId, walletAddress);
+  const { data: reviews } = usePendingModerationReviews(agentId, walletAddress);
+  const decide = useDecideModerationReview(agentId, walletAddress);
+
+  const [topics, setTopics] = useState('');
+  const [words, setWords] = useState('');
+  const [duplicateDays, setDuplicateDays] = useState('14');
+  const [enabled, setEnabled] = useState<Record<CheckKey, boolean>>({
+    financialAdvice: true,
+    scamPatterns: true,
+    pii: true,
+    llmClassifier: false,
+  });
+
+  useEffect(() => {
+    if (!policy) return;
+    setTopics(policy.bannedTopics.join(', '));
+    setWords(policy.bannedWords.join(', '));
+    setDuplicateDays(String(policy.duplicateWindowDays));
+    setEnabled({
+      financialAdvice: policy.financialAdvice,
+      scamPatterns: policy.scamPatterns,
+      pii: policy.pii,
+      llmClassifier: policy.llmClassifier,
+    });
+  }, [policy]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    const input: UpdateModerationPolicyInput = {
+      bannedTopics: toList(topics),
+      bannedWords: toList(words),
+      duplicateWindowDays: Math.max(0, Math.round(Number(duplicateDays) || 0)),
+      ...enabled,
+    };
+    updatePolicy.mutate(input);
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Review Queue</CardTitle>
+          <Badge variant="outline">{reviews?.length ?? 0} pending</Badge>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!reviews || reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing blocked. Blocked posts wait here for your decision.</p>
+          ) : (
+            reviews.map((review) => (
+              <div key={review.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <ShieldAlert className="h-4 w-4 text-red-500" />
+                  <span className="capitalize">{review.contentType}</span>
+                  <span>·</span>
+                  <span>{new Date(review.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="whitespace-pre-wrap text-sm">
+                  {review.parts.length > 0 ? review.parts.join('\n\n') : review.text}
+                </p>
+                <ul className="space-y-1">
+                  {review.reasons.map((reason, i) => (
+                    <li key={i} className="text-xs text-muted-foreground">
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          'mr-2',
+                          reason.verdict === 'BLOCK'
+                            ? 'bg-red-500/10 text-red-500 border-red-500/20'
+                            : 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+                        )}
+                      >
+                        {reason.check}
+                      </Badge>
+                      {reason.reason}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={decide.isPending}
+                    onClick={() => decide.mutate({ reviewId: review.id, action: 'approve' })}
+                  >
+                    Approve &amp; publish
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={decide.isPending}
+                    onClick={() => decide.mutate({ reviewId: review.id, action: 'reject' })}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+          {decide.error && <p className="text-sm text-red-500">{decide.error.message}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Guardrails</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="banned-topics">Banned topics</Label>
+            <Textarea
+              id="banned-topics"
+              placeholder="politics, competitor names, ..."
+              value={topics}
+              onChange={(e) => setTopics(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Comma-separated. Posts that mention one are blocked.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="banned-words">Banned words</Label>
+            <Input
+              id="banned-words"
+              placeholder="Comma-separated; masked out of posts"
+              value={words}
+              onChange={(e) => setWords(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {checks.map((check) => (
+              <label key={check.key} className="flex items-start gap-3 rounded-md border p-3 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={enabled[check.key]}
+                  onChange={(e) => setEnabled((prev) => ({ ...prev, [check.key]: e.target.checked }))}
+                />
+                <span>
+                  <span className="font-medium">{check.label}</span>
+                  <span className="block text-xs text-muted-foreground">{check.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="duplicate-days">Block repeats of casts from the last (days)</Label>
+            <Input
+              id="duplicate-days"
+              type="number"
+              min="0"
+              max="90"
+              value={duplicateDays}
+              onChange={(e) => setDuplicateDays(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSave} disabled={updatePolicy.isPending}>
+              {updatePolicy.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save guardrails
+            </Button>
+            {updatePolicy.error && <p className="text-sm text-red-500">{updatePolicy.error.message}</p>}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
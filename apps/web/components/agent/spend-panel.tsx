@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Image as ImageIcon, MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useAgentSpend,
+  useUpdateSpendBudget,
+  type BudgetExhaustedAction,
+} from '@/hooks/use-agent-spend';
+import { cn } from '@/lib/utils';
+
+interface SpendPanelProps {
+  agentId: string;
+  walletAddress?: string;
+  className?: string;
+}
+
+const stateBadges = {
+  ok: { label: 'Within budget', className: 'bg-green-500/10 text-green-500 border-green-500/20' },
+  downgrade: { label: 'Downgraded', className: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' },
+  refuse: { label: 'Paused — budget spent', className: 'bg-red-500/10 text-red-500 border-red-500/20' },
+};
+
+/** Micro-USDC → "$0.0123". Spend is often fractions of a cent. */
+function formatSpend(microUsdc: string): string {
+  const value = Number(microUsdc) / 1_000_000;
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+}
+
+/** Dollar input → micro-USDC string; blank means no limit. */
+function toMicroUsdc(dollars: string): string | null {
+  const trimmed = dollars.trim();
+  if (trimmed === '') return null;
+  return Math.round(Number(trimmed) * 1_000_000).toString();
+}
+
+function toDollars(microUsdc: string | null): string {
+  return microUsdc === null ? '' : String(Number(microUsdc) / 1_000_000);
+}
+
+function SpendMeter({ label, spent, limit }: { label: string; spent: string; limit: string | null }) {
+  const percent = limit ? Math.min(100, (Number(spent) / Math.max(1, Number(limit))) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between">
+        <p className="text-sm font-medium">{label}</p>
+        <p className="text-sm text-muted-foreground">
+          {formatSpend(spent)}
+          {limit ? ` of ${formatSpend(limit)}` : ' · no limit'}
+        </p>
+      </div>
+      {limit && <Progress value={percent} className={cn('h-2', percent >= 100 && '[&>div]:bg-red-500')} />}
+    </div>
+  );
+}
+
+export function SpendPanel({ agentId, walletAddress, className }: SpendPanelProps) {
+  const { data: spend, isLoading, error } = useAgentSpend(agentId, walletAddress);
+  const updateBudget = useUpdateSpendBudget(agentId, walletAddress);
+
+  const [daily, setDaily] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [onExhausted, setOnExhausted] = useState<BudgetExhaustedAction>('REFUSE');
+
+  useEffect(() => {
+    if (!spend) return;
+    setDaily(toDollars(spend.budget.dailyLimitUsdc));
+    setMonthly(toDollars(spend.budget.monthlyLimitUsdc));
+    setOnExhausted(spend.budget.onExhausted);
+  }, [spend]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !spend) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          {error instanceof Error ? error.message : 'Spend data unavailable.'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const badge = stateBadges[spend.state];
+  const handleSave = () => {
+    updateBudget.mutate({
+      dailyLimitUsdc: toMicroUsdc(daily),
+      monthlyLimitUsdc: toMicroUsdc(monthly),
+      onExhausted,
+    });
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">LLM &amp; Image Spend</CardTitle>
+          <Badge variant="outline" className={badge.className}>
+            {badge.label}
+          </Badge>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <SpendMeter label="Today (UTC)" spent={spend.spent.todayUsdc} limit={spend.budget.dailyLimitUsdc} />
+          <SpendMeter label="This month" spent={spend.spent.monthUsdc} limit={spend.budget.monthlyLimitUsdc} />
+
+          {spend.byModel.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No paid calls this month.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {spend.byModel.map((row) => (
+                <div key={`${row.kind}:${row.provider}:${row.model}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {row.kind === 'IMAGE' ? (
+                    <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <MessageSquare className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-mono text-xs">{row.model}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.provider} · {row.calls} calls
+                      {row.kind === 'LLM' && ` · ${(row.promptTokens + row.completionTokens).toLocaleString()} tokens`}
+                    </p>
+                  </div>
+                  <p className="font-medium">{formatSpend(row.costUsdc)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Budget</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="daily-limit">Daily limit (USD)</Label>
+              <Input
+                id="daily-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={daily}
+                onChange={(e) => setDaily(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="monthly-limit">Monthly limit (USD)</Label>
+              <Input
+                id="monthly-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={monthly}
+                onChange={(e) => setMonthly(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>When exhausted</Label>
+              <Select value={onExhausted} onValueChange={(v) => setOnExhausted(v as BudgetExhaustedAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="REFUSE">Pause paid work</SelectItem>
+                  <SelectItem value="DOWNGRADE">Switch to a cheaper model</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Pausing stops content, lead hunting and service jobs until the day or month resets.
+            Downgrading keeps the agent running on a cheaper model and stops image generation.
+          </p>
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSave} disabled={updateBudget.isPending}>
+              {updateBudget.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save budget
+            </Button>
+            {updateBudget.error && (
+              <p className="text-sm text-red-500">{updateBudget.error.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
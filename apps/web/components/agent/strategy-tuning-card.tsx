@@ -0,0 +1,90 @@
+'use client';
+
+import { Loader2, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useStrategyTuning, type TuningDimension } from '@/hooks/use-strategy-tuning';
+
+interface StrategyTuningCardProps {
+  agentId: string;
+  walletAddress?: string;
+  className?: string;
+}
+
+const dimensionLabels: Record<TuningDimension, string> = {
+  CONTENT_TYPE: 'Content',
+  TOPIC: 'Topics',
+  HOUR: 'Hours',
+  MEDIA: 'Images',
+};
+
+export function StrategyTuningCard({ agentId, walletAddress, className }: StrategyTuningCardProps) {
+  const { data, isLoading } = useStrategyTuning(agentId, walletAddress);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          Adaptive Strategy
+        </CardTitle>
+        <Badge variant={data?.enabled ? 'default' : 'outline'}>{data?.enabled ? 'Learning' : 'Off'}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !data?.enabled ? (
+          <p className="text-sm text-muted-foreground">
+            Set <code>adaptive.enabled</code> in the agent&apos;s strategy to let it shift its content mix, topics,
+            posting hours and images towards what earns engagement.
+          </p>
+        ) : !data.tuning ? (
+          <p className="text-sm text-muted-foreground">
+            Still collecting engagement. Weights start moving once enough casts have had a day to settle.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {Object.entries(data.tuning.contentWeights).map(([type, weight]) => (
+                <div key={type} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="capitalize">{type}</span>
+                    <span className="text-muted-foreground">{Math.round(weight * 100)}%</span>
+                  </div>
+                  <Progress value={weight * 100} className="h-1.5" />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {data.tuning.mediaProbability !== null &&
+                  `Image chance: ${Math.round(data.tuning.mediaProbability * 100)}% · `}
+                Learned from {data.tuning.sampleSize} casts, {new Date(data.tuning.tunedAt).toLocaleString()}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Why it changed</p>
+              {data.log.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No changes yet.</p>
+              ) : (
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                  {data.log.map((entry) => (
+                    <li key={entry.id} className="rounded-md border p-2 text-xs space-y-1">
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Badge variant="outline">{dimensionLabels[entry.dimension]}</Badge>
+                        <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                      </div>
+                      <p>{entry.explanation}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -42,6 +42,8 @@ interface HireAgentSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   walletAddress: string | undefined;
+  /** Hire link token the buyer arrived with, credited to the pitch's lead */
+  referralToken?: string;
 }
 
 type SubmitState = 'idle' | 'submitting' | 'success';
@@ -61,6 +63,7 @@ export function HireAgentSheet({
   open,
   onOpenChange,
   walletAddress,
+  referralToken,
 }: HireAgentSheetProps) {
   // ── State ────────────────────────────────────────────────────────────
 
@@ -171,6 +174,7 @@ export function HireAgentSheet({
         offeringSlug: offering.slug,
         requirements: parsedReqs,
         ttlMinutes: Number(ttlMinutes) || 30,
+        ref: referralToken,
       });
 
       // Show success state — user can click "View Job" or close manually
@@ -186,7 +190,7 @@ export function HireAgentSheet({
         );
       }
     }
-  }, [offering, buyerAgentId, requirements, ttlMinutes, createJob, onOpenChange]);
+  }, [offering, buyerAgentId, requirements, ttlMinutes, referralToken, createJob, onOpenChange]);
 
   if (!offering) return null;
 
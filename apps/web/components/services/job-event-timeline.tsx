@@ -0,0 +1,110 @@
+'use client';
+
+import { Activity, FileJson, Gauge, Terminal } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ServiceJobEvent } from '@/hooks/use-services';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface JobEventTimelineProps {
+  events: ServiceJobEvent[];
+  /** True while the event stream is connected */
+  isLive: boolean;
+  className?: string;
+}
+
+const EVENT_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  progress: Gauge,
+  artifact: FileJson,
+  log: Terminal,
+};
+
+// ── Component ────────────────────────────────────────────────────────────
+
+/**
+ * Live timeline of the progress events a seller pushes while delivering
+ * a job — percentage updates, partial artifacts and log lines, oldest
+ * first. The progress bar follows the latest progress event.
+ */
+export function JobEventTimeline({ events, isLive, className }: JobEventTimelineProps) {
+  const latestProgress = [...events].reverse().find((e) => e.progress !== null)?.progress ?? null;
+
+  return (
+    <div
+      className={cn(
+        'cp-glass rounded-lg border border-cp-cyan/10 overflow-hidden',
+        className,
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-cp-cyan/10 bg-cp-cyan/5">
+        <Activity className="h-3.5 w-3.5 text-cp-cyan/60" />
+        <span className="text-[10px] font-orbitron uppercase tracking-widest text-cp-cyan/70">
+          Delivery Progress
+        </span>
+        <div className="flex-1" />
+        {isLive && (
+          <div className="flex items-center gap-1.5">
+            <div className="h-1.5 w-1.5 rounded-full bg-cp-acid animate-pulse" />
+            <span className="text-[9px] font-share-tech text-cp-acid uppercase">Live</span>
+          </div>
+        )}
+      </div>
+
+      {latestProgress !== null && (
+        <div className="px-4 pt-3">
+          <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+            <div
+              className="h-full bg-cp-acid/70 transition-all duration-500"
+              style={{ width: `${latestProgress}%` }}
+            />
+          </div>
+          <p className="mt-1 text-right text-[10px] font-mono text-white/40">{latestProgress}%</p>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="px-4 py-3 text-[11px] font-share-tech text-white/30">
+          Waiting for the seller to report progress...
+        </p>
+      ) : (
+        <ol className="px-4 py-3 space-y-2 max-h-72 overflow-y-auto">
+          {events.map((event) => (
+            <TimelineEvent key={event.seq} event={event} />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// ── Sub-components ────────────────────────────────────────────────────────
+
+function TimelineEvent({ event }: { event: ServiceJobEvent }) {
+  const Icon = EVENT_ICONS[event.type] ?? Terminal;
+  const time = new Date(event.createdAt).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  return (
+    <li className="flex gap-2 text-[11px] font-share-tech">
+      <Icon className="h-3 w-3 mt-0.5 shrink-0 text-white/30" />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="text-white/60">
+            {event.message ??
+              (event.type === 'progress' ? `${event.progress}% complete` : 'Partial result')}
+          </span>
+          <span className="shrink-0 font-mono text-white/25">{time}</span>
+        </div>
+        {event.data && (
+          <pre className="mt-1 p-2 rounded bg-black/30 text-[10px] font-mono text-white/50 overflow-x-auto max-h-32">
+            {JSON.stringify(event.data, null, 2)}
+          </pre>
+        )}
+      </div>
+    </li>
+  );
+}
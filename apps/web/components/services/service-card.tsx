@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { formatUsdcPrice, formatCompactNumber, cn } from '@/lib/utils';
 import type { ServiceOffering, ServiceCategory } from '@/hooks/use-services';
 import { getTierForScore, TIER_LABELS } from '@ceosrun/shared/types';
+import { getCapability } from '@ceosrun/shared/utils/capabilities';
 import { getTierColor } from '@/lib/leaderboard-utils';
 
 // ── Category Color Map (shared across marketplace components) ────────────
@@ -88,6 +89,20 @@ export function ServiceCard({ offering, onHire }: ServiceCardProps) {
           {offering.pricingModel.replace('_', ' ')}
         </span>
 
+        {/* Capability tags */}
+        {offering.capabilities.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {offering.capabilities.map((tag) => (
+              <span
+                key={tag}
+                className="text-[9px] font-share-tech text-cp-cyan/70 bg-cp-cyan/5 border border-cp-cyan/10 rounded px-1.5 py-0.5"
+              >
+                {getCapability(tag)?.label ?? tag}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Provider bar */}
         <div className="flex items-center gap-2 mb-3">
           <div className="w-6 h-6 rounded-full bg-cp-cyan/20 border border-cp-cyan/30 flex items-center justify-center">
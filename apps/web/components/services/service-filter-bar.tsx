@@ -24,6 +24,7 @@ const CATEGORIES: (ServiceCategory | 'all')[] = [
 ];
 
 const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'rating', label: 'Top Rated' },
   { value: 'jobs_completed', label: 'Most Jobs' },
   { value: 'newest', label: 'Newest' },
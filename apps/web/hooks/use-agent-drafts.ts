@@ -0,0 +1,160 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface SupervisionPolicy {
+  enabled: boolean;
+  holdPosts: boolean;
+  holdReplies: boolean;
+  holdPitches: boolean;
+  /** null = drafts wait for the creator indefinitely */
+  autoPublishAfterMinutes: number | null;
+  isDefault: boolean;
+}
+
+export type UpdateSupervisionPolicyInput = Omit<SupervisionPolicy, 'isDefault'>;
+
+export type DraftKind = 'CAST' | 'THREAD' | 'MENTION_REPLY' | 'HUNT_PITCH' | 'HUNT_FOLLOW_UP';
+export type DraftStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED' | 'FAILED';
+
+export interface AgentDraft {
+  id: string;
+  agentId: string;
+  kind: DraftKind;
+  status: DraftStatus;
+  text: string;
+  parts: string[];
+  generatedText: string;
+  mediaUrl: string | null;
+  replyToHash: string | null;
+  context: Record<string, unknown> | null;
+  autoPublishAt: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+  agent: { name: string; pfpUrl: string | null };
+}
+
+export type DraftDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; text: string; parts?: string[] }
+  | { action: 'reject' };
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function fetchSupervisionPolicy(agentId: string, walletAddress?: string): Promise<SupervisionPolicy> {
+  const res = await fetch(`/api/agents/${agentId}/supervision`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<SupervisionPolicy>(res, 'Failed to fetch supervision policy');
+}
+
+async function updateSupervisionPolicy(
+  agentId: string,
+  input: UpdateSupervisionPolicyInput,
+  walletAddress?: string,
+): Promise<SupervisionPolicy> {
+  const res = await fetch(`/api/agents/${agentId}/supervision`, {
+    method: 'PUT',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify(input),
+  });
+  return unwrap<SupervisionPolicy>(res, 'Failed to update supervision policy');
+}
+
+async function fetchPendingDrafts(agentId: string | undefined, walletAddress?: string): Promise<AgentDraft[]> {
+  const query = new URLSearchParams({ status: 'PENDING', limit: '50' });
+  if (agentId) query.set('agentId', agentId);
+
+  const res = await fetch(`/api/drafts?${query.toString()}`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<AgentDraft[]>(res, 'Failed to fetch drafts');
+}
+
+async function decideDraft(
+  draftId: string,
+  decision: DraftDecision,
+  walletAddress?: string,
+): Promise<{ id: string; status: DraftStatus }> {
+  const res = await fetch(`/api/drafts/${draftId}`, {
+    method: 'PATCH',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify(decision),
+  });
+  return unwrap(res, 'Failed to decide on draft');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useSupervisionPolicy(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['supervision-policy', agentId, walletAddress],
+    queryFn: () => fetchSupervisionPolicy(agentId!, walletAddress),
+    enabled: !!agentId,
+  });
+}
+
+export function useUpdateSupervisionPolicy(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateSupervisionPolicyInput) => updateSupervisionPolicy(agentId, input, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['supervision-policy', agentId] });
+    },
+  });
+}
+
+/**
+ * Drafts waiting for a decision — one agent's, or every agent of the
+ * wallet when `agentId` is omitted (miniapp).
+ */
+export function usePendingDrafts(agentId?: string, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['agent-drafts', agentId ?? 'all', walletAddress],
+    queryFn: () => fetchPendingDrafts(agentId, walletAddress),
+    refetchInterval: 30_000,
+  });
+}
+
+export function useDecideDraft(walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ draftId, decision }: { draftId: string; decision: DraftDecision }) =>
+      decideDraft(draftId, decision, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['agent-drafts'] });
+    },
+  });
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface ModerationPolicy {
+  bannedTopics: string[];
+  bannedWords: string[];
+  financialAdvice: boolean;
+  scamPatterns: boolean;
+  pii: boolean;
+  /** 0 = duplicate check off */
+  duplicateWindowDays: number;
+  llmClassifier: boolean;
+  isDefault: boolean;
+}
+
+export type UpdateModerationPolicyInput = Omit<ModerationPolicy, 'isDefault'>;
+
+export type ModerationVerdict = 'PASS' | 'REWRITE' | 'BLOCK';
+export type ModerationReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED';
+
+export interface ModerationReason {
+  check: string;
+  verdict: Exclude<ModerationVerdict, 'PASS'>;
+  reason: string;
+}
+
+export interface ModerationReview {
+  id: string;
+  agentId: string;
+  verdict: ModerationVerdict;
+  reasons: ModerationReason[];
+  originalText: string;
+  text: string;
+  parts: string[];
+  mediaUrl: string | null;
+  contentType: string;
+  reviewStatus: ModerationReviewStatus | null;
+  reviewedAt: string | null;
+  castHashes: string[];
+  createdAt: string;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function fetchModerationPolicy(agentId: string, walletAddress?: string): Promise<ModerationPolicy> {
+  const res = await fetch(`/api/agents/${agentId}/moderation`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<ModerationPolicy>(res, 'Failed to fetch moderation policy');
+}
+
+async function updateModerationPolicy(
+  agentId: string,
+  input: UpdateModerationPolicyInput,
+  walletAddress?: string,
+): Promise<ModerationPolicy> {
+  const res = await fetch(`/api/agents/${agentId}/moderation`, {
+    method: 'PUT',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify(input),
+  });
+  return unwrap<ModerationPolicy>(res, 'Failed to update moderation policy');
+}
+
+async function fetchPendingReviews(agentId: string, walletAddress?: string): Promise<ModerationReview[]> {
+  const res = await fetch(`/api/agents/${agentId}/moderation/reviews?status=PENDING&limit=50`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<ModerationReview[]>(res, 'Failed to fetch moderation reviews');
+}
+
+async function decideReview(
+  agentId: string,
+  reviewId: string,
+  action: 'approve' | 'reject',
+  walletAddress?: string,
+): Promise<{ id: string; reviewStatus: ModerationReviewStatus }> {
+  const res = await fetch(`/api/agents/${agentId}/moderation/reviews/${reviewId}`, {
+    method: 'PATCH',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify({ action }),
+  });
+  return unwrap(res, 'Failed to review content');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useModerationPolicy(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['moderation-policy', agentId, walletAddress],
+    queryFn: () => fetchModerationPolicy(agentId!, walletAddress),
+    enabled: !!agentId,
+  });
+}
+
+export function useUpdateModerationPolicy(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateModerationPolicyInput) => updateModerationPolicy(agentId, input, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['moderation-policy', agentId] });
+    },
+  });
+}
+
+export function usePendingModerationReviews(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['moderation-reviews', agentId, walletAddress],
+    queryFn: () => fetchPendingReviews(agentId!, walletAddress),
+    enabled: !!agentId,
+    refetchInterval: 60_000,
+  });
+}
+
+export function useDecideModerationReview(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ reviewId, action }: { reviewId: string; action: 'approve' | 'reject' }) =>
+      decideReview(agentId, reviewId, action, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['moderation-reviews', agentId] });
+    },
+  });
+}
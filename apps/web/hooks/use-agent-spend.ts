@@ -0,0 +1,110 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export type BudgetExhaustedAction = 'REFUSE' | 'DOWNGRADE';
+
+export interface SpendBudget {
+  /** Micro-USDC per UTC day; null = no limit */
+  dailyLimitUsdc: string | null;
+  /** Micro-USDC per UTC month; null = no limit */
+  monthlyLimitUsdc: string | null;
+  onExhausted: BudgetExhaustedAction;
+  isDefault: boolean;
+}
+
+export interface SpendByModel {
+  kind: 'LLM' | 'IMAGE';
+  provider: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsdc: string;
+}
+
+export interface AgentSpend {
+  agentId: string;
+  budget: SpendBudget;
+  /** What the runtime does with the agent's next paid call */
+  state: 'ok' | 'downgrade' | 'refuse';
+  periods: { dayStart: string; monthStart: string };
+  spent: { todayUsdc: string; monthUsdc: string };
+  byModel: SpendByModel[];
+}
+
+export type UpdateSpendBudgetInput = Omit<SpendBudget, 'isDefault'>;
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function fetchAgentSpend(agentId: string, walletAddress?: string): Promise<AgentSpend> {
+  const res = await fetch(`/api/agents/${agentId}/spend`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<AgentSpend>(res, 'Failed to fetch agent spend');
+}
+
+async function updateSpendBudget(
+  agentId: string,
+  input: UpdateSpendBudgetInput,
+  walletAddress?: string,
+): Promise<SpendBudget> {
+  const res = await fetch(`/api/agents/${agentId}/spend`, {
+    method: 'PUT',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify(input),
+  });
+  return unwrap<SpendBudget>(res, 'Failed to update spend budget');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useAgentSpend(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['agent-spend', agentId, walletAddress],
+    queryFn: () => fetchAgentSpend(agentId!, walletAddress),
+    enabled: !!agentId,
+    refetchInterval: 60_000,
+  });
+}
+
+export function useUpdateSpendBudget(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateSpendBudgetInput) => updateSpendBudget(agentId, input, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['agent-spend', agentId] });
+    },
+  });
+}
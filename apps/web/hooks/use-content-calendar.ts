@@ -0,0 +1,173 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface PostingWindow {
+  /** 0 = Sunday … 6 = Saturday; empty = every day */
+  days: number[];
+  /** "HH:MM" in the calendar's time zone */
+  start: string;
+  end: string;
+}
+
+export interface Blackout {
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+export interface ContentCalendar {
+  timezone: string;
+  /** null = the strategy's interval */
+  cron: string | null;
+  postingWindows: PostingWindow[];
+  blackouts: Blackout[];
+  isDefault: boolean;
+}
+
+export type UpdateContentCalendarInput = Omit<ContentCalendar, 'isDefault'>;
+
+export type CalendarContentType = 'original' | 'thread' | 'media';
+
+export interface ContentSeries {
+  id: string;
+  name: string;
+  theme: string;
+  cron: string;
+  contentType: CalendarContentType;
+  enabled: boolean;
+  lastRunAt: string | null;
+}
+
+export type CreateContentSeriesInput = Pick<ContentSeries, 'name' | 'theme' | 'cron' | 'contentType'>;
+
+export type ScheduledPostStatus = 'SCHEDULED' | 'PUBLISHED' | 'DRAFTED' | 'SKIPPED' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduledPost {
+  id: string;
+  status: ScheduledPostStatus;
+  scheduledFor: string;
+  text: string | null;
+  parts: string[];
+  mediaUrl: string | null;
+  topic: string | null;
+  contentType: CalendarContentType | null;
+  castHashes: string[];
+  errorMessage: string | null;
+}
+
+export interface CreateScheduledPostInput {
+  scheduledFor: string;
+  text?: string;
+  topic?: string;
+  contentType?: CalendarContentType;
+}
+
+export interface CalendarOverview {
+  calendar: ContentCalendar;
+  series: ContentSeries[];
+  upcoming: ScheduledPost[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function send<T>(url: string, method: string, body: unknown, walletAddress: string | undefined, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: walletHeaders(walletAddress),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return unwrap<T>(res, fallback);
+}
+
+async function fetchCalendar(agentId: string, walletAddress?: string): Promise<CalendarOverview> {
+  const res = await fetch(`/api/agents/${agentId}/calendar`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<CalendarOverview>(res, 'Failed to fetch content calendar');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useContentCalendar(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['content-calendar', agentId, walletAddress],
+    queryFn: () => fetchCalendar(agentId!, walletAddress),
+    enabled: !!agentId,
+  });
+}
+
+/**
+ * Mutations on the calendar, its series and scheduled posts; each
+ * refetches the calendar overview on success.
+ */
+export function useContentCalendarMutations(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+  const base = `/api/agents/${agentId}/calendar`;
+  const onSuccess = () => {
+    void queryClient.invalidateQueries({ queryKey: ['content-calendar', agentId] });
+  };
+
+  return {
+    updateCalendar: useMutation({
+      mutationFn: (input: UpdateContentCalendarInput) =>
+        send<ContentCalendar>(base, 'PUT', input, walletAddress, 'Failed to update content calendar'),
+      onSuccess,
+    }),
+    createSeries: useMutation({
+      mutationFn: (input: CreateContentSeriesInput) =>
+        send<ContentSeries>(`${base}/series`, 'POST', input, walletAddress, 'Failed to create series'),
+      onSuccess,
+    }),
+    updateSeries: useMutation({
+      mutationFn: ({ seriesId, ...input }: Partial<ContentSeries> & { seriesId: string }) =>
+        send<ContentSeries>(`${base}/series/${seriesId}`, 'PATCH', input, walletAddress, 'Failed to update series'),
+      onSuccess,
+    }),
+    deleteSeries: useMutation({
+      mutationFn: (seriesId: string) =>
+        send<{ id: string }>(`${base}/series/${seriesId}`, 'DELETE', undefined, walletAddress, 'Failed to delete series'),
+      onSuccess,
+    }),
+    schedulePost: useMutation({
+      mutationFn: (input: CreateScheduledPostInput) =>
+        send<ScheduledPost>(`${base}/posts`, 'POST', input, walletAddress, 'Failed to schedule post'),
+      onSuccess,
+    }),
+    cancelPost: useMutation({
+      mutationFn: (postId: string) =>
+        send<{ id: string }>(`${base}/posts/${postId}`, 'DELETE', undefined, walletAddress, 'Failed to cancel post'),
+      onSuccess,
+    }),
+  };
+}
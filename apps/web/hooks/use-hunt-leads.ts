@@ -8,10 +8,27 @@ export type SocialHuntStatus =
   | 'IDENTIFIED'
   | 'QUALIFIED'
   | 'REPLIED'
+  | 'NURTURING'
+  | 'DECLINED'
+  | 'STALLED'
   | 'CONVERTED'
   | 'SKIPPED'
   | 'COOLDOWN'
-  | 'FAILED';
+  | 'FAILED'
+  | 'DRAFTED';
+
+export type LeadIntent = 'INTERESTED' | 'QUESTION' | 'OBJECTION' | 'NOT_INTERESTED';
+
+/** One step of a lead's nurture sequence, after the pitch */
+export interface NurtureStep {
+  id: string;
+  kind: 'RESPONSE' | 'LIKE' | 'FOLLOW_UP' | 'STOPPED';
+  castHash: string | null;
+  text: string | null;
+  intent: LeadIntent | null;
+  reason: string | null;
+  createdAt: string;
+}
 
 export interface SocialHuntLead {
   id: string;
@@ -25,10 +42,20 @@ export interface SocialHuntLead {
   triageScore: number | null;
   triageReason: string | null;
   suggestedPitch: string | null;
+  /** Prompt-injection signals in the lead's casts, output checks its replies failed */
+  injectionSignals: string[];
   replyCastHash: string | null;
   offeringSlug: string | null;
   pitchText: string | null;
+  followUps: number;
+  lastIntent: LeadIntent | null;
+  /** Oldest first */
+  nurtureSteps: NurtureStep[];
   convertedJobId: string | null;
+  /** How the converting job was matched to the lead */
+  attributedBy: 'token' | 'wallet' | null;
+  /** Micro-USDC, set once the converting job's escrow is released */
+  revenueUsdc: string | null;
   triagedAt: string | null;
   repliedAt: string | null;
   convertedAt: string | null;
@@ -36,6 +63,18 @@ export interface SocialHuntLead {
   updatedAt: string;
 }
 
+/** The agent's whole funnel, not just the page */
+export interface HuntFunnel {
+  scanned: number;
+  qualified: number;
+  replied: number;
+  converted: number;
+  conversionRate: number;
+  /** Settled revenue, micro-USDC */
+  revenueUsdc: string;
+  revenuePerLeadUsdc: string;
+}
+
 export interface HuntLeadsFilters {
   status?: SocialHuntStatus;
   page?: number;
@@ -50,6 +89,7 @@ interface HuntLeadsApiResponse {
     limit: number;
     total: number;
   };
+  funnel: HuntFunnel;
 }
 
 interface HuntLeadsResult {
@@ -59,6 +99,7 @@ interface HuntLeadsResult {
     limit: number;
     total: number;
   };
+  funnel: HuntFunnel;
 }
 
 // ── Constants ────────────────────────────────────────────────────────────
@@ -104,6 +145,7 @@ async function fetchHuntLeads(
   return {
     leads: json.data,
     pagination: json.pagination,
+    funnel: json.funnel,
   };
 }
 
@@ -0,0 +1,117 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface ActiveHoursWindow {
+  /** 0 = Sunday … 6 = Saturday; empty = every day */
+  days: number[];
+  /** "HH:MM" in the profile's time zone */
+  start: string;
+  end: string;
+}
+
+export interface HunterProfile {
+  enabled: boolean;
+  /** Empty = the defaults for the offerings' categories */
+  channels: string[];
+  /** Empty = the runtime defaults */
+  keywords: string[];
+  negativeKeywords: string[];
+  triageThreshold: number;
+  maxRepliesPerHour: number;
+  maxRepliesPerDay: number;
+  /** Follow-ups per lead after the pitch */
+  maxFollowUps: number;
+  timezone: string;
+  activeHours: ActiveHoursWindow[];
+  /** Empty = every active offering */
+  offeringSlugs: string[];
+  isDefault: boolean;
+}
+
+export type UpdateHunterProfileInput = Omit<HunterProfile, 'isDefault'>;
+
+export interface HunterOffering {
+  slug: string;
+  name: string;
+  category: string;
+  status: string;
+}
+
+export interface HunterProfileOverview {
+  profile: HunterProfile;
+  offerings: HunterOffering[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function fetchHunterProfile(agentId: string, walletAddress?: string): Promise<HunterProfileOverview> {
+  const res = await fetch(`/api/agents/${agentId}/hunter-profile`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<HunterProfileOverview>(res, 'Failed to fetch hunter profile');
+}
+
+async function updateHunterProfile(
+  agentId: string,
+  input: UpdateHunterProfileInput,
+  walletAddress?: string,
+): Promise<HunterProfile> {
+  const res = await fetch(`/api/agents/${agentId}/hunter-profile`, {
+    method: 'PUT',
+    headers: walletHeaders(walletAddress),
+    body: JSON.stringify(input),
+  });
+  return unwrap<HunterProfile>(res, 'Failed to update hunter profile');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useHunterProfile(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['hunter-profile', agentId, walletAddress],
+    queryFn: () => fetchHunterProfile(agentId!, walletAddress),
+    enabled: !!agentId,
+  });
+}
+
+export function useUpdateHunterProfile(agentId: string, walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateHunterProfileInput) => updateHunterProfile(agentId, input, walletAddress),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['hunter-profile', agentId] });
+    },
+  });
+}
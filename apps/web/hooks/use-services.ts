@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 // ── Types ────────────────────────────────────────────────────────────────
@@ -12,6 +13,7 @@ export type ServiceCategory =
   | 'networking';
 
 export type SortOption =
+  | 'relevance'
   | 'rating'
   | 'price_asc'
   | 'price_desc'
@@ -23,9 +25,15 @@ export interface ServiceOffering {
   name: string;
   slug: string;
   category: ServiceCategory;
+  /** Capability tags from the shared registry */
+  capabilities: string[];
   /** Micro-USDC as string (BigInt serialized). */
   priceUsdc: string;
+  /** per_call | subscription | metered | tiered — what priceUsdc means depends on it */
   pricingModel: string;
+  pricingConfig: Record<string, unknown> | null;
+  /** The seller accepts A2A price negotiation */
+  negotiable: boolean;
   avgRating: number | null;
   completedJobs: number;
   totalJobs: number;
@@ -39,6 +47,8 @@ export interface ServiceOffering {
     /** Flattened from ERC8004Identity.reputationScore (0-10000 scale) */
     reputationScore?: number;
   };
+  /** 0–1 match score for the current query */
+  relevance: number;
 }
 
 /** Shape returned by the API (wrapped in successResponse envelope). */
@@ -74,6 +84,8 @@ interface CreateJobInput {
   offeringSlug: string;
   requirements: Record<string, unknown>;
   ttlMinutes?: number;
+  /** Social Hunter hire link token (`?ref=`) the buyer arrived with */
+  ref?: string;
 }
 
 export interface CreateJobResponse {
@@ -106,6 +118,14 @@ export interface ServiceJobDetail {
   buyerFeedback: string | null;
   paymentTxHash: string | null;
   buybackTxHash: string | null;
+  /** NONE | HELD | RELEASE_PENDING | RELEASED | REFUND_PENDING | REFUNDED */
+  escrowStatus: string;
+  approvalDeadline: string | null;
+  approvedAt: string | null;
+  escrowSettleTxHash: string | null;
+  escrowSettledAt: string | null;
+  /** Micro-USDC refunded by a PARTIAL_REFUND dispute verdict */
+  refundUsdc: string | null;
   expiresAt: string;
   acceptedAt: string | null;
   deliveredAt: string | null;
@@ -141,6 +161,36 @@ export interface ServiceJobDetail {
     anchoredAt: string | null;
     createdAt: string;
   } | null;
+  /** Latest dispute (null if the job was never disputed) */
+  dispute: {
+    id: string;
+    /** OPEN | RESOLVED */
+    status: string;
+    /** buyer | executor */
+    openedByRole: string;
+    reason: string;
+    /** REFUND | PARTIAL_REFUND | REDELIVER | UPHOLD */
+    outcome: string | null;
+    refundUsdc: string | null;
+    resolvedBy: string | null;
+    resolutionNote: string | null;
+    resolvedAt: string | null;
+    createdAt: string;
+  } | null;
+}
+
+/** Progress event pushed by the seller while the job is DELIVERING */
+export interface ServiceJobEvent {
+  /** 1, 2, 3… in the order the seller sent them */
+  seq: number;
+  /** progress | artifact | log */
+  type: string;
+  /** 0–100, set on progress events */
+  progress: number | null;
+  message: string | null;
+  /** Partial deliverable, set on artifact events */
+  data: Record<string, unknown> | null;
+  createdAt: string;
 }
 
 /** API envelope for job detail response. */
@@ -153,6 +203,9 @@ interface JobDetailApiResponse {
 
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
 const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+const TERMINAL_JOB_STATUSES = ['COMPLETED', 'REJECTED', 'RESOLVED', 'EXPIRED'];
+/** Wait before reopening an event stream the server ended early */
+const EVENT_STREAM_RETRY_MS = 3000;
 
 // ── Fetch Functions ──────────────────────────────────────────────────────
 
@@ -176,6 +229,55 @@ async function fetchServiceJob(
   return json.data;
 }
 
+/**
+ * Read the job's Server-Sent Events stream until the server ends it.
+ * Uses fetch rather than EventSource so the wallet headers can be sent.
+ */
+async function readServiceJobEvents(
+  jobId: string,
+  after: number,
+  walletAddress: string | undefined,
+  signal: AbortSignal,
+  onMessage: (event: string, data: unknown) => void,
+): Promise<void> {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+
+  const effectiveWallet = walletAddress || (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+
+  const res = await fetch(`/api/services/jobs/${jobId}/events?after=${after}`, { headers, signal });
+  if (!res.ok || !res.body) {
+    throw new Error('Failed to open job event stream');
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) onMessage(event, JSON.parse(data));
+    }
+  }
+}
+
 async function fetchServices(filters: DiscoverFilters): Promise<DiscoverResponse> {
   const params = new URLSearchParams();
 
@@ -232,6 +334,62 @@ async function createJob(
   return json.data;
 }
 
+async function approveJob(
+  jobId: string,
+  walletAddress?: string,
+): Promise<void> {
+  const headers: Record<string, string> = {};
+
+  const effectiveWallet = walletAddress || (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+
+  const res = await fetch(`/api/services/jobs/${jobId}/approve`, {
+    method: 'POST',
+    headers,
+  });
+
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: 'Failed to approve job' }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      'Failed to approve job';
+    throw new Error(msg);
+  }
+}
+
+async function disputeJob(
+  jobId: string,
+  reason: string,
+  walletAddress?: string,
+): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  const effectiveWallet = walletAddress || (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+
+  const res = await fetch(`/api/services/jobs/${jobId}/dispute`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ reason }),
+  });
+
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: 'Failed to dispute job' }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      'Failed to dispute job';
+    throw new Error(msg);
+  }
+}
+
 // ── Hooks ────────────────────────────────────────────────────────────────
 
 export function useServiceDiscovery(filters: DiscoverFilters) {
@@ -251,12 +409,64 @@ export function useServiceJob(jobId: string | null, walletAddress?: string) {
     refetchInterval: (query) => {
       const status = query.state.data?.status;
       if (!status) return 5000;
-      const terminal = ['COMPLETED', 'REJECTED', 'DISPUTED', 'EXPIRED'];
-      return terminal.includes(status) ? false : 5000;
+      return TERMINAL_JOB_STATUSES.includes(status) ? false : 5000;
     },
   });
 }
 
+/**
+ * Live timeline of a job's progress events. Streams while the job is in
+ * progress, reconnecting from the last received event when the server
+ * ends the stream, and refreshes the job query on every status change.
+ */
+export function useServiceJobEvents(jobId: string | null, walletAddress?: string) {
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<ServiceJobEvent[]>([]);
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    let lastSeq = 0;
+    let finished = false;
+    setEvents([]);
+
+    const onMessage = (event: string, data: unknown) => {
+      if (event === 'status') {
+        const { status } = data as { status: string };
+        finished = TERMINAL_JOB_STATUSES.includes(status);
+        void queryClient.invalidateQueries({ queryKey: ['services', 'job', jobId] });
+        return;
+      }
+      const jobEvent = data as ServiceJobEvent;
+      if (jobEvent.seq <= lastSeq) return;
+      lastSeq = jobEvent.seq;
+      setEvents((prev) => [...prev, jobEvent]);
+    };
+
+    const run = async () => {
+      while (!controller.signal.aborted && !finished) {
+        setIsLive(true);
+        try {
+          await readServiceJobEvents(jobId, lastSeq, walletAddress, controller.signal, onMessage);
+        } catch {
+          if (controller.signal.aborted) return;
+        }
+        setIsLive(false);
+        if (!finished) {
+          await new Promise((resolve) => setTimeout(resolve, EVENT_STREAM_RETRY_MS));
+        }
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [jobId, walletAddress, queryClient]);
+
+  return { events, isLive };
+}
+
 export function useCreateServiceJob(walletAddress?: string) {
   const queryClient = useQueryClient();
 
@@ -267,3 +477,26 @@ export function useCreateServiceJob(walletAddress?: string) {
     },
   });
 }
+
+export function useApproveServiceJob(walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => approveJob(jobId, walletAddress),
+    onSuccess: (_data, jobId) => {
+      void queryClient.invalidateQueries({ queryKey: ['services', 'job', jobId] });
+    },
+  });
+}
+
+export function useDisputeServiceJob(walletAddress?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, reason }: { jobId: string; reason: string }) =>
+      disputeJob(jobId, reason, walletAddress),
+    onSuccess: (_data, { jobId }) => {
+      void queryClient.invalidateQueries({ queryKey: ['services', 'job', jobId] });
+    },
+  });
+}
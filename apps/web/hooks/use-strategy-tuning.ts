@@ -0,0 +1,83 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export type TuningDimension = 'CONTENT_TYPE' | 'TOPIC' | 'HOUR' | 'MEDIA';
+
+export interface StrategyTuning {
+  contentWeights: Record<string, number>;
+  topicWeights: Record<string, number>;
+  /** 24 weights, local hours of the agent's calendar */
+  hourWeights: number[];
+  mediaProbability: number | null;
+  sampleSize: number;
+  tunedAt: string;
+}
+
+export interface StrategyTuningLogEntry {
+  id: string;
+  dimension: TuningDimension;
+  before: Record<string, number>;
+  after: Record<string, number>;
+  explanation: string;
+  sampleSize: number;
+  createdAt: string;
+}
+
+export interface StrategyTuningState {
+  enabled: boolean;
+  /** null until enough casts have settled to learn from */
+  tuning: StrategyTuning | null;
+  /** Newest first */
+  log: StrategyTuningLogEntry[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+const DEMO_WALLET = '0xDE00000000000000000000000000000000000001';
+
+// ── Fetch Functions ──────────────────────────────────────────────────────
+
+function walletHeaders(walletAddress?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const effectiveWallet = walletAddress ?? (DEMO_MODE ? DEMO_WALLET : undefined);
+  if (effectiveWallet) {
+    headers['x-wallet-address'] = effectiveWallet;
+  }
+  return headers;
+}
+
+async function unwrap<T>(res: Response, fallback: string): Promise<T> {
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({ message: fallback }));
+    const msg =
+      (errBody as { error?: { message?: string } }).error?.message ??
+      (errBody as { message?: string }).message ??
+      fallback;
+    throw new Error(msg);
+  }
+
+  const json = (await res.json()) as { data: T };
+  return json.data;
+}
+
+async function fetchStrategyTuning(agentId: string, walletAddress?: string): Promise<StrategyTuningState> {
+  const res = await fetch(`/api/agents/${agentId}/strategy-tuning`, {
+    headers: walletHeaders(walletAddress),
+  });
+  return unwrap<StrategyTuningState>(res, 'Failed to fetch strategy tuning');
+}
+
+// ── Hooks ────────────────────────────────────────────────────────────────
+
+export function useStrategyTuning(agentId: string | null | undefined, walletAddress?: string) {
+  return useQuery({
+    queryKey: ['strategy-tuning', agentId, walletAddress],
+    queryFn: () => fetchStrategyTuning(agentId!, walletAddress),
+    enabled: !!agentId,
+    staleTime: 5 * 60_000, // Tuning runs every few hours
+  });
+}
@@ -74,6 +74,11 @@ describe('Errors factory', () => {
     expect(error.code).toBe('VALIDATION_ERROR');
   });
 
+  it('should serialize validationFailed details', () => {
+    const error = Errors.validationFailed('Bad payload', [{ path: 'chains', message: 'Required' }]);
+    expect(error.toJSON().error.details).toEqual([{ path: 'chains', message: 'Required' }]);
+  });
+
   it('should create internal with 500 status', () => {
     const error = Errors.internal();
     expect(error.statusCode).toBe(500);
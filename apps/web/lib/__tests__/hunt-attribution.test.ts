@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import {
+  attributeHuntConversion,
+  buildHuntFunnel,
+  HUNT_ATTRIBUTION_WINDOW_MS,
+  type AttributableJob,
+} from '@/lib/hunt-attribution';
+
+const JOB: AttributableJob = {
+  id: 'job-1',
+  sellerAgentId: 'seller-1',
+  buyerAgentId: 'buyer-1',
+  createdAt: new Date('2026-10-19T12:00:00Z'),
+  referralToken: null,
+  escrowPayer: '0xPAYER',
+};
+
+/** Leads found per where-clause key: refToken or targetAddresses. */
+function mockDb(leadsBy: { token?: string; wallet?: string }) {
+  const findFirst = vi.fn(({ where }: { where: Prisma.SocialHuntLeadWhereInput }) => {
+    const id = where.refToken ? leadsBy.token : where.targetAddresses ? leadsBy.wallet : undefined;
+    return Promise.resolve(id ? { id } : null);
+  });
+  const updateMany = vi.fn(() => Promise.resolve({ count: 1 }));
+
+  const db = {
+    agent: {
+      findUnique: vi.fn(() =>
+        Promise.resolve({ walletAddress: '0xBUYER', creatorAddress: '0xCREATOR', onChainAddress: null, fid: 77 }),
+      ),
+    },
+    socialHuntLead: { findFirst, updateMany },
+  };
+  return { db: db as unknown as Prisma.TransactionClient, findFirst, updateMany };
+}
+
+describe('attributeHuntConversion', () => {
+  it('should prefer the hire link token over the wallet', async () => {
+    const { db, updateMany } = mockDb({ token: 'lead-token', wallet: 'lead-wallet' });
+
+    const result = await attributeHuntConversion(db, { ...JOB, referralToken: 'abcdefgh1234' });
+
+    expect(result).toEqual({ leadId: 'lead-token', method: 'token' });
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'lead-token', status: { in: ['REPLIED', 'NURTURING', 'STALLED'] } },
+      data: expect.objectContaining({
+        status: 'CONVERTED',
+        convertedJobId: 'job-1',
+        attributedBy: 'token',
+      }),
+    });
+  });
+
+  it('should leave revenue to the escrow release, not book the price', async () => {
+    const { db, updateMany } = mockDb({ wallet: 'lead-wallet' });
+
+    await attributeHuntConversion(db, JOB);
+
+    expect(updateMany.mock.calls[0]![0].data).not.toHaveProperty('revenueUsdc');
+  });
+
+  it('should only match pitched leads of the seller within the window', async () => {
+    const { db, findFirst } = mockDb({ wallet: 'lead-wallet' });
+
+    await attributeHuntConversion(db, JOB);
+
+    expect(findFirst.mock.calls[0]![0].where).toMatchObject({
+      agentId: 'seller-1',
+      status: { in: ['REPLIED', 'NURTURING', 'STALLED'] },
+      repliedAt: { gte: new Date(JOB.createdAt.getTime() - HUNT_ATTRIBUTION_WINDOW_MS), lte: JOB.createdAt },
+    });
+  });
+
+  it('should fall back to the buyer wallets, lowercased', async () => {
+    const { db, findFirst } = mockDb({ wallet: 'lead-wallet' });
+
+    const result = await attributeHuntConversion(db, JOB);
+
+    expect(result).toEqual({ leadId: 'lead-wallet', method: 'wallet' });
+    expect(findFirst.mock.calls[0]![0].where).toMatchObject({
+      targetAddresses: { hasSome: ['0xbuyer', '0xcreator', '0xpayer'] },
+    });
+  });
+
+  it('should not match the buying agent FID against the lead author', async () => {
+    const { db, findFirst } = mockDb({});
+
+    expect(await attributeHuntConversion(db, JOB)).toBeNull();
+    expect(findFirst.mock.calls.map(([{ where }]) => where)).not.toContainEqual(
+      expect.objectContaining({ targetFid: expect.anything() }),
+    );
+  });
+
+  it('should not attribute when the lead was claimed by another job', async () => {
+    const { db, updateMany } = mockDb({ wallet: 'lead-wallet' });
+    updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await attributeHuntConversion(db, JOB)).toBeNull();
+  });
+});
+
+describe('buildHuntFunnel', () => {
+  it('should count each stage from the statuses leads reached', () => {
+    const funnel = buildHuntFunnel(
+      { SKIPPED: 50, COOLDOWN: 5, QUALIFIED: 3, DRAFTED: 1, FAILED: 1, REPLIED: 4, NURTURING: 2, DECLINED: 1, STALLED: 1, CONVERTED: 2 },
+      12_000_000n,
+    );
+
+    expect(funnel).toEqual({
+      scanned: 70,
+      qualified: 15,
+      replied: 10,
+      converted: 2,
+      conversionRate: 0.2,
+      revenueUsdc: '12000000',
+      revenuePerLeadUsdc: '1200000',
+    });
+  });
+
+  it('should report nothing earned before any reply', () => {
+    expect(buildHuntFunnel({}, 0n)).toMatchObject({ scanned: 0, conversionRate: 0, revenuePerLeadUsdc: '0' });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import {
+  decideOnProposal,
+  getAskPrice,
+  getNegotiationConfig,
+  requestQuote,
+  signQuote,
+  verifyQuoteSignature,
+  type NegotiationConfig,
+} from '@/lib/negotiation';
+
+process.env.QUOTE_SIGNING_SECRET = 'test-quote-secret';
+
+const CONFIG: NegotiationConfig = {
+  enabled: true,
+  floorPriceUsdc: '3000000',
+  volumeDiscounts: [
+    { minQuantity: 10, discountBps: 1000 },
+    { minQuantity: 50, discountBps: 3000 },
+  ],
+  maxRounds: 3,
+  quoteTtlMinutes: 60,
+};
+
+describe('getNegotiationConfig', () => {
+  it('should only negotiate enabled per_call offerings', () => {
+    expect(getNegotiationConfig({ pricingModel: 'per_call', negotiationConfig: CONFIG })).toEqual(CONFIG);
+    expect(getNegotiationConfig({ pricingModel: 'per_call', negotiationConfig: null })).toBeNull();
+    expect(
+      getNegotiationConfig({ pricingModel: 'per_call', negotiationConfig: { ...CONFIG, enabled: false } }),
+    ).toBeNull();
+    expect(getNegotiationConfig({ pricingModel: 'subscription', negotiationConfig: CONFIG })).toBeNull();
+  });
+});
+
+describe('getAskPrice', () => {
+  it('should apply the best volume discount the jobs already bought qualify for', () => {
+    expect(getAskPrice(5_000_000n, CONFIG, 1).askUsdc).toBe(5_000_000n);
+    expect(getAskPrice(5_000_000n, CONFIG, 10)).toEqual({
+      askUsdc: 4_500_000n,
+      floorUsdc: 3_000_000n,
+      discountBps: 1000,
+    });
+  });
+
+  it('should never ask below the floor', () => {
+    expect(getAskPrice(4_000_000n, CONFIG, 50).askUsdc).toBe(3_000_000n);
+  });
+
+  it('should hold the list price for fixed-price offerings', () => {
+    expect(getAskPrice(5_000_000n, null, 100)).toEqual({
+      askUsdc: 5_000_000n,
+      floorUsdc: 5_000_000n,
+      discountBps: 0,
+    });
+  });
+});
+
+describe('requestQuote', () => {
+  const offering = {
+    id: 'off-1',
+    slug: 'trend-alpha',
+    sellerAgentId: 'seller-1',
+    priceUsdc: 5_000_000n,
+    pricingModel: 'per_call',
+    negotiationConfig: CONFIG,
+  };
+
+  function mockDb(purchasedJobs: number) {
+    const create = vi.fn(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ id: 'neg-1', status: 'OPEN', round: 1, jobsUsed: 0, ...data }),
+    );
+    const count = vi.fn(() => Promise.resolve(purchasedJobs));
+    const db = {
+      serviceJob: { count },
+      serviceNegotiation: { create },
+      serviceNegotiationRound: { createMany: vi.fn() },
+    };
+    return { db: db as unknown as Prisma.TransactionClient, create, count };
+  }
+
+  it('should not discount a large quantity the buyer has not bought', async () => {
+    const { db, create, count } = mockDb(0);
+
+    const reply = await requestQuote(db, offering, 'buyer-1', { quantity: 1000 });
+
+    expect(count).toHaveBeenCalledWith({
+      where: { offeringId: 'off-1', buyerAgentId: 'buyer-1', escrowStatus: 'RELEASED' },
+    });
+    expect(create.mock.calls[0]![0].data.standingOfferUsdc).toBe(5_000_000n);
+    expect(reply.offerUsdc).toBe('5000000');
+  });
+
+  it('should discount by the jobs the buyer already bought', async () => {
+    const { db } = mockDb(12);
+
+    const reply = await requestQuote(db, offering, 'buyer-1', { quantity: 1 });
+
+    expect(reply.offerUsdc).toBe('4500000');
+  });
+});
+
+describe('decideOnProposal', () => {
+  const base = { standingOfferUsdc: 5_000_000n, floorUsdc: 3_000_000n, isFinal: false };
+
+  it('should accept the standing offer when the buyer meets it', () => {
+    expect(decideOnProposal({ ...base, proposedUsdc: 6_000_000n })).toMatchObject({
+      action: 'accept',
+      priceUsdc: 5_000_000n,
+    });
+  });
+
+  it('should counter halfway, but not below the floor', () => {
+    expect(decideOnProposal({ ...base, proposedUsdc: 4_000_000n })).toMatchObject({
+      action: 'counter',
+      priceUsdc: 4_500_000n,
+    });
+    expect(decideOnProposal({ ...base, proposedUsdc: 500_000n })).toMatchObject({
+      action: 'counter',
+      priceUsdc: 3_000_000n,
+    });
+  });
+
+  it('should accept a proposal within 1% of its next counter', () => {
+    const decision = decideOnProposal({ ...base, standingOfferUsdc: 4_080_000n, proposedUsdc: 4_000_000n });
+    expect(decision).toMatchObject({ action: 'accept', priceUsdc: 4_000_000n, rule: 'converged' });
+  });
+
+  it('should settle on the floor in the final round', () => {
+    expect(decideOnProposal({ ...base, isFinal: true, proposedUsdc: 3_000_000n }).action).toBe('accept');
+    expect(decideOnProposal({ ...base, isFinal: true, proposedUsdc: 2_999_999n }).action).toBe('reject');
+  });
+});
+
+describe('quote signatures', () => {
+  const terms = {
+    negotiationId: 'neg-1',
+    offeringId: 'off-1',
+    buyerAgentId: 'buyer-1',
+    priceUsdc: 4_000_000n,
+    quantity: 10,
+    expiresAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  it('should verify its own signature and reject altered terms', () => {
+    const signature = signQuote(terms);
+    expect(verifyQuoteSignature(terms, signature)).toBe(true);
+    expect(verifyQuoteSignature({ ...terms, priceUsdc: 1n }, signature)).toBe(false);
+    expect(verifyQuoteSignature(terms, 'abcd')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { AppError } from '@/lib/errors';
+import { getBillingPeriod, quoteJobCharge, settleMeteredUsage } from '@/lib/pricing';
+
+const SUBSCRIPTION = {
+  priceUsdc: 20_000_000n,
+  pricingModel: 'subscription',
+  pricingConfig: { periodDays: 30, includedCalls: 3, overagePriceUsdc: '500000' },
+};
+
+const METERED = {
+  priceUsdc: 2_000n,
+  pricingModel: 'metered',
+  pricingConfig: { unit: 'tokens', maxUnitsPerCall: 1_000 },
+};
+
+const TIERED = {
+  priceUsdc: 0n,
+  pricingModel: 'tiered',
+  pricingConfig: {
+    tiers: [
+      { upToCalls: 10, priceUsdc: '1000000' },
+      { upToCalls: 100, priceUsdc: '800000' },
+      { upToCalls: null, priceUsdc: '500000' },
+    ],
+  },
+};
+
+describe('quoteJobCharge', () => {
+  it('should charge the listed price for per_call and unknown models', () => {
+    const offering = { priceUsdc: 5_000_000n, pricingModel: 'per_call', pricingConfig: null };
+    expect(quoteJobCharge(offering, 7).chargeUsdc).toBe(5_000_000n);
+    expect(quoteJobCharge({ ...offering, pricingModel: 'bespoke' }, 0).pricingModel).toBe('per_call');
+  });
+
+  it('should charge the subscription fee on the first call, then include calls, then overage', () => {
+    expect(quoteJobCharge(SUBSCRIPTION, 0).chargeUsdc).toBe(20_000_000n);
+    expect(quoteJobCharge(SUBSCRIPTION, 1).chargeUsdc).toBe(0n);
+    expect(quoteJobCharge(SUBSCRIPTION, 2).chargeUsdc).toBe(0n);
+    expect(quoteJobCharge(SUBSCRIPTION, 3).chargeUsdc).toBe(500_000n);
+  });
+
+  it('should charge the subscription fee again when the job that paid it was refunded', () => {
+    expect(quoteJobCharge(SUBSCRIPTION, 2, undefined, false)).toMatchObject({
+      chargeUsdc: 20_000_000n,
+      subscriptionFee: true,
+    });
+    expect(quoteJobCharge(SUBSCRIPTION, 2, undefined, true).chargeUsdc).toBe(0n);
+  });
+
+  it('should refuse calls beyond the subscription without an overage price', () => {
+    const offering = {
+      ...SUBSCRIPTION,
+      pricingConfig: { periodDays: 30, includedCalls: 3 },
+    };
+    expect(() => quoteJobCharge(offering, 3)).toThrow(AppError);
+  });
+
+  it('should pre-authorize metered units up to the offering cap', () => {
+    expect(quoteJobCharge(METERED, 0)).toMatchObject({ chargeUsdc: 2_000_000n, authorizedUnits: 1_000 });
+    expect(quoteJobCharge(METERED, 0, 250)).toMatchObject({ chargeUsdc: 500_000n, authorizedUnits: 250 });
+    expect(quoteJobCharge(METERED, 0, 5_000).authorizedUnits).toBe(1_000);
+  });
+
+  it('should price tiered calls by their number within the period', () => {
+    expect(quoteJobCharge(TIERED, 0).chargeUsdc).toBe(1_000_000n);
+    expect(quoteJobCharge(TIERED, 10).chargeUsdc).toBe(800_000n);
+    expect(quoteJobCharge(TIERED, 500).chargeUsdc).toBe(500_000n);
+  });
+});
+
+describe('settleMeteredUsage', () => {
+  it('should refund the unused part of the authorization', () => {
+    expect(settleMeteredUsage(METERED, 2_000_000n, 400)).toEqual({
+      billedUnits: 400,
+      refundUsdc: 1_200_000n,
+    });
+  });
+
+  it('should never bill more than was authorized', () => {
+    expect(settleMeteredUsage(METERED, 500_000n, 10_000)).toEqual({
+      billedUnits: 250,
+      refundUsdc: 0n,
+    });
+  });
+});
+
+describe('getBillingPeriod', () => {
+  it('should align periods to fixed windows so every call in one shares a start', () => {
+    const a = getBillingPeriod(SUBSCRIPTION, new Date('2026-03-02T10:00:00Z'));
+    const b = getBillingPeriod(SUBSCRIPTION, new Date('2026-03-05T23:59:00Z'));
+
+    expect(a.periodStart).toEqual(b.periodStart);
+    expect(a.periodEnd.getTime() - a.periodStart.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(a.periodStart.getTime()).toBeLessThanOrEqual(new Date('2026-03-02T10:00:00Z').getTime());
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { ESCROW_WALLET } = vi.hoisted(() => ({ ESCROW_WALLET: '0xE5C0000000000000000000000000000000000001' }));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { x402Payment: { create: vi.fn() } },
+}));
+
+vi.mock('@/lib/x402-config', () => ({
+  X402_CONFIG: {
+    facilitatorUrl: 'https://facilitator.test',
+    resourceWallet: ESCROW_WALLET,
+    network: 'base',
+    chainId: 84532,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { verifyServicePayment, type X402PaymentData } from '@/lib/x402-service';
+
+function payment(to: string, value = '5000000'): X402PaymentData {
+  return {
+    signature: '0xsig',
+    payload: {
+      from: '0x1111111111111111111111111111111111111111',
+      to,
+      value,
+      validAfter: '0',
+      validBefore: '9999999999',
+      nonce: '0x01',
+    },
+  };
+}
+
+describe('verifyServicePayment', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockResolvedValue({ ok: true, json: () => Promise.resolve({ valid: true, txHash: '0xtx' }) });
+  });
+
+  it('should settle a payment into the escrow wallet', async () => {
+    const verified = await verifyServicePayment(
+      payment(ESCROW_WALLET.toLowerCase(), '6000000'),
+      5_000_000n,
+      '/api/services/jobs',
+    );
+
+    expect(verified).toMatchObject({ txHash: '0xtx', amount: 6_000_000n });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a payment to any other address before settling it', async () => {
+    await expect(
+      verifyServicePayment(payment('0x2222222222222222222222222222222222222222'), 5_000_000n, '/api/services/jobs'),
+    ).rejects.toThrow('not the escrow wallet');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject a payment below the price', async () => {
+    await expect(
+      verifyServicePayment(payment(ESCROW_WALLET, '4999999'), 5_000_000n, '/api/services/jobs'),
+    ).rejects.toThrow('Insufficient payment');
+  });
+});
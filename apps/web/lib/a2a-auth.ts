@@ -0,0 +1,181 @@
+import { keccak256, stringToHex, verifyTypedData } from "viem";
+import type { z } from "zod";
+import { canonicalJson } from "@ceosrun/shared/utils/canonical-json";
+import { prisma } from "@/lib/prisma";
+import { getRedisClient } from "@/lib/redis";
+import { logger } from "@/lib/logger";
+import { Errors } from "@/lib/errors";
+import type { a2aAuthSchema } from "@/lib/validation";
+
+/**
+ * Authenticated A2A messages.
+ *
+ * Every JSON-RPC envelope sent to /api/a2a/[agentId] carries
+ * `params.auth`: an EIP-712 signature by the sender agent's wallet over
+ * the method, both agent ids, a hash of the remaining params, a single-use
+ * nonce and an expiry. Nonces are claimed in Redis until the message
+ * expires, so a captured envelope cannot be replayed.
+ *
+ * Agent wallets are custodial, so the agent runtime signs for the agents it
+ * hosts with its own wallet. That wallet is only accepted when it is bound
+ * here as the delegated signer (A2A_DELEGATE_SIGNER); any other signer must
+ * be the sender agent's wallet.
+ *
+ * The agent runtime signs with the same domain and types
+ * (apps/agent-runtime/src/integrations/a2a-signing.ts) — keep them in step.
+ */
+
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+/** Longest an envelope may stay valid — bounds the nonce store too. */
+export const A2A_MAX_TTL_SECONDS = 600;
+
+export const A2A_MESSAGE_TYPES = {
+  A2AMessage: [
+    { name: "method", type: "string" },
+    { name: "fromAgentId", type: "string" },
+    { name: "toAgentId", type: "string" },
+    { name: "paramsHash", type: "bytes32" },
+    { name: "nonce", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+} as const;
+
+export function a2aDomain() {
+  return {
+    name: "ceos.run A2A",
+    version: "1",
+    chainId: Number(process.env.NEXT_PUBLIC_CHAIN_ID ?? 8453),
+  } as const;
+}
+
+/**
+ * The wallet allowed to sign A2A messages on behalf of any agent — the agent
+ * runtime's wallet. Unset means only agents' own wallets are accepted.
+ */
+function delegateSigner(): string | null {
+  const address = process.env.A2A_DELEGATE_SIGNER?.trim();
+  return address ? address.toLowerCase() : null;
+}
+
+export type A2AAuth = z.infer<typeof a2aAuthSchema>;
+
+/** The sender of an A2A message, as established by its signature. */
+export interface A2ASender {
+  agentId: string;
+  walletAddress: string | null;
+  fid: number | null;
+  erc8004TokenId: number | null;
+  /** False only in demo mode, where unsigned messages are let through */
+  verified: boolean;
+}
+
+interface SignedA2AMessage {
+  method: string;
+  params: {
+    fromAgentId: string;
+    fromFid?: number;
+    payload: Record<string, unknown>;
+    auth?: A2AAuth;
+  };
+}
+
+/** keccak256 of the signed params — everything but `auth` itself. */
+export function hashA2AParams(params: SignedA2AMessage["params"]): `0x${string}` {
+  const signed: Partial<SignedA2AMessage["params"]> = { ...params };
+  delete signed.auth;
+  return keccak256(stringToHex(canonicalJson(signed)));
+}
+
+/**
+ * Verify that `message` was signed for `toAgentId` by its sender agent's
+ * wallet or the delegated signer, and burn its nonce. Returns the verified
+ * sender.
+ *
+ * In demo mode an unsigned message is accepted as its claimed sender,
+ * matching verifyWalletSignature.
+ */
+export async function verifyA2AMessage(
+  toAgentId: string,
+  message: SignedA2AMessage,
+): Promise<A2ASender> {
+  const { fromAgentId, fromFid, auth } = message.params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id: fromAgentId },
+    select: { id: true, walletAddress: true, fid: true, erc8004TokenId: true },
+  });
+  if (!agent) throw Errors.unauthorized("Unknown sender agent");
+  if (fromFid !== undefined && fromFid !== agent.fid) {
+    throw Errors.unauthorized("fromFid does not belong to the sender agent");
+  }
+
+  const sender = {
+    agentId: agent.id,
+    walletAddress: agent.walletAddress,
+    fid: agent.fid,
+    erc8004TokenId: agent.erc8004TokenId,
+  };
+
+  if (!auth) {
+    if (DEMO_MODE) {
+      logger.info({ fromAgentId }, "Demo mode: unsigned A2A message accepted");
+      return { ...sender, verified: false };
+    }
+    throw Errors.unauthorized("A2A message must be signed by the sender agent's wallet");
+  }
+
+  if (!agent.walletAddress) {
+    throw Errors.forbidden("Sender agent has no wallet to sign A2A messages with");
+  }
+  const signer = auth.signer.toLowerCase();
+  const delegated = signer === delegateSigner();
+  if (!delegated && signer !== agent.walletAddress.toLowerCase()) {
+    throw Errors.unauthorized("A2A signer is neither the sender agent's wallet nor the delegated signer");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (auth.expiry <= now) {
+    throw Errors.unauthorized("A2A message has expired");
+  }
+  if (auth.expiry > now + A2A_MAX_TTL_SECONDS) {
+    throw Errors.badRequest(`A2A message expiry must be within ${A2A_MAX_TTL_SECONDS}s`);
+  }
+
+  let valid = false;
+  try {
+    valid = await verifyTypedData({
+      address: auth.signer as `0x${string}`,
+      domain: a2aDomain(),
+      types: A2A_MESSAGE_TYPES,
+      primaryType: "A2AMessage",
+      message: {
+        method: message.method,
+        fromAgentId,
+        toAgentId,
+        paramsHash: hashA2AParams(message.params),
+        nonce: auth.nonce as `0x${string}`,
+        expiry: BigInt(auth.expiry),
+      },
+      signature: auth.signature as `0x${string}`,
+    });
+  } catch (err) {
+    logger.warn({ fromAgentId, err }, "A2A signature verification failed");
+  }
+  if (!valid) throw Errors.unauthorized("Invalid A2A message signature");
+
+  // Claim the nonce only once the signature holds, so forged envelopes
+  // cannot burn a sender's nonces.
+  const claimed = await getRedisClient().set(
+    `a2a:nonce:${agent.id}:${auth.nonce.toLowerCase()}`,
+    "1",
+    "EX",
+    auth.expiry - now,
+    "NX",
+  );
+  if (claimed !== "OK") {
+    throw Errors.conflict("A2A message nonce has already been used");
+  }
+
+  return { ...sender, verified: true };
+}
@@ -0,0 +1,275 @@
+/**
+ * Service Job Disputes
+ *
+ * A job enters DISPUTED either when the autonomous executor fails to
+ * deliver (DELIVERING → DISPUTED) or when the buyer contests a COMPLETED
+ * delivery inside the escrow approval window. Each dispute collects
+ * evidence from both sides and ends with one of four outcomes:
+ *
+ *   REFUND         → job RESOLVED, escrow refunded in full
+ *   PARTIAL_REFUND → job RESOLVED, part refunded, remainder released
+ *   UPHOLD         → job RESOLVED, escrow released to the seller
+ *   REDELIVER      → job back to ACCEPTED for another executor attempt
+ *
+ * Clear-cut cases are decided by auto-resolution rules; everything else
+ * waits for an arbiter (DISPUTE_ARBITER_ADDRESSES). The agent runtime
+ * feeds the final verdict into the seller's reputation.
+ */
+
+import { Prisma, type DisputeOutcome, type ServiceJob } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getReleaseEscrowStatus } from "@/lib/escrow";
+
+/** TTL granted to a job sent back for redelivery. */
+const REDELIVERY_TTL_MS = 30 * 60 * 1000;
+
+/** Max characters of a decision log response kept as evidence. */
+const EXCERPT_MAX_CHARS = 2000;
+
+export type DisputeRole = "buyer" | "seller" | "executor";
+
+export interface DisputeVerdict {
+  outcome: DisputeOutcome;
+  /** Micro-USDC refunded to the buyer (PARTIAL_REFUND only). */
+  refundUsdc?: bigint;
+  resolvedBy: string;
+  note?: string;
+}
+
+// ── Arbiters ─────────────────────────────────────────────────────────────────
+
+/** Wallet addresses allowed to decide disputes (comma-separated env var). */
+export function getArbiterAddresses(): string[] {
+  return (process.env.DISPUTE_ARBITER_ADDRESSES ?? "")
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isArbiter(address: string): boolean {
+  return getArbiterAddresses().includes(address.toLowerCase());
+}
+
+// ── Auto-Resolution ──────────────────────────────────────────────────────────
+
+/**
+ * Decide a dispute without an arbiter when the failure is unambiguous.
+ *
+ * Rules (first match wins):
+ *   skill-timeout — the executor hit its global timeout → full refund
+ *   skill-error   — the skill threw before producing output → full refund
+ *   output-schema — the output violated the offering's outputSchema → full refund
+ *
+ * @returns A verdict, or null if the dispute needs a human arbiter
+ */
+export function evaluateAutoResolution(
+  openedByRole: DisputeRole,
+  deliverables: unknown,
+): DisputeVerdict | null {
+  // Buyer-opened disputes contest real output — always arbitrated.
+  if (openedByRole !== "executor") return null;
+  if (typeof deliverables !== "object" || deliverables === null) return null;
+
+  const d = deliverables as Record<string, unknown>;
+
+  if (d.skillId === "timeout") {
+    return {
+      outcome: "REFUND",
+      resolvedBy: "auto:skill-timeout",
+      note: "Skill execution timed out — buyer refunded in full.",
+    };
+  }
+
+  if (d.skillId === "error") {
+    return {
+      outcome: "REFUND",
+      resolvedBy: "auto:skill-error",
+      note: "Skill failed before producing output — buyer refunded in full.",
+    };
+  }
+
+  if (d.failureReason === "output_schema_violation") {
+    return {
+      outcome: "REFUND",
+      resolvedBy: "auto:output-schema",
+      note: "Deliverables did not match the offering's outputSchema — buyer refunded in full.",
+    };
+  }
+
+  return null;
+}
+
+// ── Evidence ─────────────────────────────────────────────────────────────────
+
+/**
+ * Build a decision log excerpt suitable for evidence. Prompts are omitted
+ * (they are RLAIF data), and the response is truncated.
+ */
+export function buildDecisionLogExcerpt(log: {
+  id: string;
+  modelUsed: string;
+  executionTimeMs: number;
+  isSuccess: boolean;
+  errorMessage: string | null;
+  response: Prisma.JsonValue;
+  createdAt: Date;
+}): Prisma.InputJsonObject {
+  const response = JSON.stringify(log.response) ?? "null";
+  return {
+    decisionLogId: log.id,
+    modelUsed: log.modelUsed,
+    executionTimeMs: log.executionTimeMs,
+    isSuccess: log.isSuccess,
+    errorMessage: log.errorMessage,
+    response:
+      response.length > EXCERPT_MAX_CHARS
+        ? `${response.slice(0, EXCERPT_MAX_CHARS)}…`
+        : response,
+    createdAt: log.createdAt.toISOString(),
+  };
+}
+
+// ── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Open a dispute for a job that has just moved to DISPUTED, attach the
+ * current deliverables and latest decision log as evidence, and apply an
+ * auto-resolution verdict if one matches.
+ *
+ * Must run inside the same transaction as the status change.
+ */
+export async function openDispute(
+  tx: Prisma.TransactionClient,
+  job: Pick<ServiceJob, "id" | "priceUsdc" | "escrowStatus" | "refundUsdc" | "deliverables">,
+  opener: { agentId: string; role: DisputeRole; submittedBy: string },
+  reason: string,
+): Promise<{ disputeId: string; autoResolved: DisputeVerdict | null }> {
+  const dispute = await tx.serviceDispute.create({
+    data: {
+      jobId: job.id,
+      openedByAgentId: opener.agentId,
+      openedByRole: opener.role,
+      reason,
+    },
+  });
+
+  if (job.deliverables !== null) {
+    await tx.disputeEvidence.create({
+      data: {
+        disputeId: dispute.id,
+        submittedBy: opener.submittedBy,
+        role: opener.role,
+        kind: "deliverable",
+        content: job.deliverables as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  const latestLog = await tx.agentDecisionLog.findFirst({
+    where: { jobId: job.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (latestLog) {
+    await tx.disputeEvidence.create({
+      data: {
+        disputeId: dispute.id,
+        submittedBy: opener.submittedBy,
+        role: opener.role,
+        kind: "decision_log",
+        content: buildDecisionLogExcerpt(latestLog),
+        decisionLogId: latestLog.id,
+      },
+    });
+  }
+
+  const verdict = evaluateAutoResolution(opener.role, job.deliverables);
+  if (verdict) {
+    await resolveDispute(tx, job, dispute.id, verdict);
+  }
+
+  return { disputeId: dispute.id, autoResolved: verdict };
+}
+
+/**
+ * Apply a verdict: close the dispute, move the job to its post-dispute
+ * state and queue the matching escrow settlement.
+ *
+ * @throws {AppError} If a PARTIAL_REFUND amount is out of range
+ */
+export async function resolveDispute(
+  tx: Prisma.TransactionClient,
+  job: Pick<ServiceJob, "id" | "priceUsdc" | "escrowStatus" | "refundUsdc">,
+  disputeId: string,
+  verdict: DisputeVerdict,
+): Promise<void> {
+  const { outcome } = verdict;
+
+  if (outcome === "PARTIAL_REFUND") {
+    const refund = verdict.refundUsdc;
+    if (refund === undefined || refund <= 0n || refund >= job.priceUsdc) {
+      throw Errors.badRequest(
+        "PARTIAL_REFUND requires refundUsdc between 0 and the job price (exclusive)",
+      );
+    }
+  }
+
+  const escrowHeld = job.escrowStatus === "HELD";
+  const jobUpdate: Prisma.ServiceJobUpdateInput = {};
+
+  switch (outcome) {
+    case "REFUND":
+      jobUpdate.status = "RESOLVED";
+      // Full price back, including any metered share already set aside
+      if (job.refundUsdc) jobUpdate.refundUsdc = null;
+      if (escrowHeld) jobUpdate.escrowStatus = "REFUND_PENDING";
+      break;
+    case "PARTIAL_REFUND":
+      jobUpdate.status = "RESOLVED";
+      jobUpdate.refundUsdc = verdict.refundUsdc;
+      if (escrowHeld) jobUpdate.escrowStatus = "REFUND_PENDING";
+      break;
+    case "UPHOLD":
+      jobUpdate.status = "RESOLVED";
+      if (escrowHeld) jobUpdate.escrowStatus = getReleaseEscrowStatus(job);
+      break;
+    case "REDELIVER": {
+      // Back into the executor queue with a fresh TTL; escrow stays HELD.
+      const now = new Date();
+      jobUpdate.status = "ACCEPTED";
+      jobUpdate.acceptedAt = now;
+      jobUpdate.deliveredAt = null;
+      jobUpdate.completedAt = null;
+      jobUpdate.approvalDeadline = null;
+      jobUpdate.deliverables = Prisma.JsonNull;
+      jobUpdate.expiresAt = new Date(now.getTime() + REDELIVERY_TTL_MS);
+      break;
+    }
+  }
+
+  await tx.serviceJob.update({ where: { id: job.id }, data: jobUpdate });
+
+  await tx.serviceDispute.update({
+    where: { id: disputeId },
+    data: {
+      status: "RESOLVED",
+      outcome,
+      refundUsdc: verdict.refundUsdc ?? null,
+      resolvedBy: verdict.resolvedBy,
+      resolutionNote: verdict.note ?? null,
+      resolvedAt: new Date(),
+    },
+  });
+
+  logger.info(
+    {
+      jobId: job.id,
+      disputeId,
+      outcome,
+      resolvedBy: verdict.resolvedBy,
+      refundUsdc: verdict.refundUsdc?.toString(),
+    },
+    "Service job dispute resolved",
+  );
+}
@@ -3,8 +3,14 @@ import { z } from 'zod';
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
 
 const serverEnvSchema = z.object({
-  // AI Services
-  OPENROUTER_API_KEY: z.string().min(1),
+  // AI Services — keys for the providers LLM_CONFIG routes to (see lib/llm.ts)
+  OPENROUTER_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  LLM_CONFIG: z.string().optional(),
+  LLM_CONFIG_PATH: z.string().optional(),
+  PROMPT_CONFIG: z.string().optional(),
+  PROMPT_CONFIG_PATH: z.string().optional(),
   FAL_KEY: z.string().min(1),
 
   // Social
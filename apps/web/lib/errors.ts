@@ -1,27 +1,39 @@
+export interface ErrorDetail {
+  path: string;
+  message: string;
+}
+
 /**
  * Standard application error with HTTP status code.
  */
 export class AppError extends Error {
   public readonly code: string;
   public readonly statusCode: number;
+  /** Per-field problems, e.g. JSON Schema violations. */
+  public readonly details?: ErrorDetail[];
 
-  constructor(code: string, message: string, statusCode: number = 500) {
+  constructor(code: string, message: string, statusCode: number = 500, details?: ErrorDetail[]) {
     super(message);
     this.name = "AppError";
     this.code = code;
     this.statusCode = statusCode;
+    this.details = details;
     Object.setPrototypeOf(this, AppError.prototype);
   }
 
   /**
    * Serialize to the standard API error shape.
    */
-  toJSON(): { success: false; error: { code: string; message: string } } {
+  toJSON(): {
+    success: false;
+    error: { code: string; message: string; details?: ErrorDetail[] };
+  } {
     return {
       success: false,
       error: {
         code: this.code,
         message: this.message,
+        ...(this.details && { details: this.details }),
       },
     };
   }
@@ -53,8 +65,8 @@ export const Errors = {
   internal: (message: string = "Internal server error") =>
     new AppError("INTERNAL_ERROR", message, 500),
 
-  validationFailed: (message: string) =>
-    new AppError("VALIDATION_ERROR", message, 422),
+  validationFailed: (message: string, details?: ErrorDetail[]) =>
+    new AppError("VALIDATION_ERROR", message, 422, details),
 
   paymentRequired: (message: string = "Payment required") =>
     new AppError("PAYMENT_REQUIRED", message, 402),
@@ -0,0 +1,44 @@
+/**
+ * Service Job Escrow
+ *
+ * x402 payments for service jobs settle into the protocol resource wallet
+ * (the escrow) instead of going straight to the seller. The job row tracks
+ * the escrow lifecycle in `escrowStatus`:
+ *
+ *   HELD → RELEASE_PENDING → RELEASED   (buyer approved / window lapsed)
+ *   HELD → REFUND_PENDING  → REFUNDED   (job rejected or expired)
+ *
+ * A job with `refundUsdc` set (partial-refund verdict, unused metered
+ * authorization) returns that share first and then releases the rest:
+ *
+ *   HELD → REFUND_PENDING → RELEASE_PENDING → RELEASED
+ *
+ * The API only moves escrow into the *_PENDING states. The actual USDC
+ * transfers are executed by the agent runtime's service-job maintenance
+ * worker, which holds the escrow wallet key.
+ */
+
+const DEFAULT_APPROVAL_WINDOW_HOURS = 24;
+
+/**
+ * How long a buyer has to approve (or dispute) a COMPLETED job before the
+ * escrow is released to the seller automatically.
+ */
+export const ESCROW_APPROVAL_WINDOW_MS =
+  (Number(process.env.ESCROW_APPROVAL_WINDOW_HOURS) || DEFAULT_APPROVAL_WINDOW_HOURS) *
+  60 * 60 * 1000;
+
+/** Compute the auto-release deadline for a job completed at `completedAt`. */
+export function getApprovalDeadline(completedAt: Date): Date {
+  return new Date(completedAt.getTime() + ESCROW_APPROVAL_WINDOW_MS);
+}
+
+/**
+ * Escrow status that pays out an accepted job: straight to release, or
+ * via the buyer's share first when part of the price is refundable.
+ */
+export function getReleaseEscrowStatus(job: {
+  refundUsdc: bigint | null;
+}): "RELEASE_PENDING" | "REFUND_PENDING" {
+  return job.refundUsdc !== null && job.refundUsdc > 0n ? "REFUND_PENDING" : "RELEASE_PENDING";
+}
@@ -0,0 +1,155 @@
+/**
+ * Social Hunter Conversion Attribution
+ *
+ * The runtime's Social Hunter replies to Farcaster casts with pitches
+ * for the seller's offerings. When a service job is created, it is
+ * attributed to the seller's latest pitched lead (REPLIED, NURTURING or
+ * STALLED) within the attribution window that matches, trying in order:
+ *
+ *   1. token  — the `?ref=` token of the pitch's hire link the buyer
+ *               arrived with (ServiceJob.referralToken, carried from
+ *               /hire/[slug] into the marketplace's hire sheet)
+ *   2. wallet — a buyer wallet (agent, creator or x402 payer) is one of
+ *               the author's verified wallets
+ *
+ * The lead's author is a person, and the buying agent's own Farcaster
+ * account never is, so FIDs are not matched.
+ *
+ * The lead moves to CONVERTED with the job and the method. A lead
+ * converts once; later jobs are not attributed to it again.
+ *
+ * Revenue is settled revenue, not the booked price: the runtime's
+ * service-job maintenance worker sets the lead's `revenueUsdc` to the
+ * job's price less any refund when its escrow is RELEASED. Jobs that are
+ * refunded, expire or are rejected never add revenue, and neither do
+ * jobs paid without escrow or subscription calls included for free.
+ */
+
+import type { Prisma, SocialHuntStatus } from "@prisma/client";
+
+const DEFAULT_ATTRIBUTION_WINDOW_DAYS = 14;
+
+/** How long after a pitch a job still counts as its conversion. */
+export const HUNT_ATTRIBUTION_WINDOW_MS =
+  (Number(process.env.HUNT_ATTRIBUTION_WINDOW_DAYS) || DEFAULT_ATTRIBUTION_WINDOW_DAYS) *
+  24 * 60 * 60 * 1000;
+
+export type AttributionMethod = "token" | "wallet";
+
+export interface HuntAttribution {
+  leadId: string;
+  method: AttributionMethod;
+}
+
+/** Pitched leads that can still convert; DECLINED ones asked us to stop */
+const CONVERTIBLE_STATUSES: SocialHuntStatus[] = ["REPLIED", "NURTURING", "STALLED"];
+
+export interface AttributableJob {
+  id: string;
+  sellerAgentId: string;
+  buyerAgentId: string;
+  createdAt: Date;
+  referralToken: string | null;
+  escrowPayer: string | null;
+}
+
+/**
+ * Attribute `job` to the Social Hunter lead it converted, if any. Returns
+ * the lead and how it was matched, or null.
+ */
+export async function attributeHuntConversion(
+  db: Prisma.TransactionClient,
+  job: AttributableJob,
+): Promise<HuntAttribution | null> {
+  const buyer = await db.agent.findUnique({
+    where: { id: job.buyerAgentId },
+    select: { walletAddress: true, creatorAddress: true, onChainAddress: true },
+  });
+
+  const matchers: Array<[AttributionMethod, Prisma.SocialHuntLeadWhereInput]> = [];
+  if (job.referralToken) matchers.push(["token", { refToken: job.referralToken }]);
+
+  const wallets = [buyer?.walletAddress, buyer?.creatorAddress, buyer?.onChainAddress, job.escrowPayer]
+    .filter((address): address is string => !!address)
+    .map((address) => address.toLowerCase());
+  if (wallets.length > 0) matchers.push(["wallet", { targetAddresses: { hasSome: wallets } }]);
+
+  const replied: Prisma.SocialHuntLeadWhereInput = {
+    agentId: job.sellerAgentId,
+    status: { in: CONVERTIBLE_STATUSES },
+    repliedAt: { gte: new Date(job.createdAt.getTime() - HUNT_ATTRIBUTION_WINDOW_MS), lte: job.createdAt },
+  };
+
+  for (const [method, where] of matchers) {
+    const lead = await db.socialHuntLead.findFirst({
+      where: { ...replied, ...where },
+      orderBy: { repliedAt: "desc" },
+      select: { id: true },
+    });
+    if (!lead) continue;
+
+    // Guarded on the status so two jobs cannot both claim the lead
+    const { count } = await db.socialHuntLead.updateMany({
+      where: { id: lead.id, status: { in: CONVERTIBLE_STATUSES } },
+      data: {
+        status: "CONVERTED",
+        convertedJobId: job.id,
+        convertedAt: new Date(),
+        attributedBy: method,
+      },
+    });
+    if (count > 0) return { leadId: lead.id, method };
+  }
+
+  return null;
+}
+
+// ── Funnel ───────────────────────────────────────────────────────────────
+
+export interface HuntFunnel {
+  /** Every cast the hunter triaged */
+  scanned: number;
+  /** Scored at or above the triage threshold */
+  qualified: number;
+  /** Pitched, whatever came of it */
+  replied: number;
+  converted: number;
+  /** converted / replied */
+  conversionRate: number;
+  /** Settled (escrow-released) revenue in micro-USDC, as strings */
+  revenueUsdc: string;
+  revenuePerLeadUsdc: string;
+}
+
+/** Statuses a lead only reaches once it was pitched */
+const PITCHED_STATUSES: SocialHuntStatus[] = ["REPLIED", "NURTURING", "DECLINED", "STALLED", "CONVERTED"];
+
+/** Statuses a lead only reaches once it qualified */
+const QUALIFIED_STATUSES: SocialHuntStatus[] = ["QUALIFIED", "DRAFTED", "FAILED", ...PITCHED_STATUSES];
+
+/**
+ * The scanned → qualified → replied → converted funnel from lead counts
+ * per status and the settled revenue of converted leads. Revenue per
+ * lead is over the leads replied to.
+ */
+export function buildHuntFunnel(
+  counts: Partial<Record<SocialHuntStatus, number>>,
+  revenueUsdc: bigint,
+): HuntFunnel {
+  const count = (status: SocialHuntStatus) => counts[status] ?? 0;
+
+  const scanned = Object.values(counts).reduce((sum, n) => sum + (n ?? 0), 0);
+  const qualified = QUALIFIED_STATUSES.reduce((sum, status) => sum + count(status), 0);
+  const converted = count("CONVERTED");
+  const replied = PITCHED_STATUSES.reduce((sum, status) => sum + count(status), 0);
+
+  return {
+    scanned,
+    qualified,
+    replied,
+    converted,
+    conversionRate: replied > 0 ? converted / replied : 0,
+    revenueUsdc: revenueUsdc.toString(),
+    revenuePerLeadUsdc: (replied > 0 ? revenueUsdc / BigInt(replied) : 0n).toString(),
+  };
+}
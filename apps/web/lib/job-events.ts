@@ -0,0 +1,90 @@
+/**
+ * Service Job Events
+ *
+ * While a job is DELIVERING the seller can push incremental progress —
+ * a percentage, partial artifacts, log lines — so long-running jobs are
+ * not a black box to the buyer. Events are stored as ServiceJobEvent rows
+ * numbered 1, 2, 3… per job in the order the API received them.
+ *
+ * Buyers read them from GET /api/services/jobs/[jobId]/events, either as
+ * a JSON page or as a Server-Sent Events stream. The SSE `id` of each
+ * event is its `seq`, so a reconnecting EventSource resumes where it left
+ * off through the Last-Event-ID header.
+ */
+import { Prisma, type ServiceJobEvent, type ServiceJobStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { Errors } from "@/lib/errors";
+
+/** Job statuses after which no further events can arrive. */
+export const FINAL_JOB_STATUSES: ServiceJobStatus[] = [
+  "COMPLETED",
+  "REJECTED",
+  "RESOLVED",
+  "EXPIRED",
+];
+
+/** Concurrent appends race for the next `seq`; retry on the unique clash. */
+const MAX_APPEND_ATTEMPTS = 3;
+
+export interface JobEventInput {
+  type: "progress" | "artifact" | "log";
+  progress?: number;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Append an event to a job's timeline with the next sequence number.
+ */
+export async function appendJobEvent(
+  jobId: string,
+  input: JobEventInput,
+): Promise<ServiceJobEvent> {
+  for (let attempt = 1; ; attempt++) {
+    const last = await prisma.serviceJobEvent.findFirst({
+      where: { jobId },
+      orderBy: { seq: "desc" },
+      select: { seq: true },
+    });
+
+    try {
+      return await prisma.serviceJobEvent.create({
+        data: {
+          jobId,
+          seq: (last?.seq ?? 0) + 1,
+          type: input.type,
+          progress: input.progress ?? null,
+          message: input.message ?? null,
+          data: (input.data as Prisma.InputJsonValue | undefined) ?? Prisma.JsonNull,
+        },
+      });
+    } catch (err) {
+      const seqTaken =
+        err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+      if (!seqTaken) throw err;
+      if (attempt >= MAX_APPEND_ATTEMPTS) {
+        throw Errors.conflict("Too many concurrent events for this job — retry");
+      }
+    }
+  }
+}
+
+export function serializeJobEvent(event: ServiceJobEvent) {
+  return {
+    seq: event.seq,
+    type: event.type,
+    progress: event.progress,
+    message: event.message,
+    data: event.data,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Encode one Server-Sent Events message. `id` is omitted for events that
+ * must not move the client's Last-Event-ID (status changes).
+ */
+export function formatSseMessage(event: string, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
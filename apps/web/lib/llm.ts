@@ -0,0 +1,158 @@
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import {
+  loadLLMConfig,
+  resolveLLMRoute as routeFor,
+  type LLMConfig,
+  type LLMProviderConfig,
+  type LLMTask,
+} from "@ceosrun/shared/utils/llm-config";
+
+/**
+ * LLM provider routing for the web app.
+ *
+ * Reads the same LLM config as the agent runtime (LLM_CONFIG inline JSON
+ * or LLM_CONFIG_PATH), with the schema and defaults shared through
+ * @ceosrun/shared/utils/llm-config, so a content preview uses the provider
+ * and model the agent's runtime would. Without a config, everything goes
+ * to OpenRouter. Spend budgets (and `budgetFallback`) are the runtime's.
+ */
+
+let cachedConfig: LLMConfig | null = null;
+
+function getLLMConfig(): LLMConfig {
+  if (!cachedConfig) cachedConfig = loadLLMConfig();
+  return cachedConfig;
+}
+
+export interface LLMCall {
+  agentId?: string;
+  /** Routing task, e.g. "content" */
+  task?: LLMTask;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMResult {
+  text: string;
+  model: string;
+  tokensUsed: number;
+  provider: string;
+}
+
+/** The provider and model a call for `agentId` / `task` routes to. */
+export function resolveLLMRoute(agentId?: string, task?: LLMTask) {
+  const config = getLLMConfig();
+  const route = routeFor(config, agentId, task);
+
+  const provider = config.providers[route.provider];
+  if (!provider) throw new Error(`LLM provider "${route.provider}" is not configured`);
+
+  const model = provider.type === "fixture" ? "fixture" : (route.model ?? provider.defaultModel);
+  const apiKey = "apiKeyEnv" in provider && provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined;
+  const needsKey = provider.type !== "fixture" && provider.type !== "openai-compatible";
+
+  return { name: route.provider, provider, model, apiKey, ready: !needsKey || !!apiKey };
+}
+
+/**
+ * Complete `prompt` with the routed provider. Callers should check
+ * `resolveLLMRoute(...).ready` first to degrade gracefully without keys.
+ */
+export async function generateText(prompt: string, call: LLMCall): Promise<LLMResult> {
+  const route = resolveLLMRoute(call.agentId, call.task);
+  const { provider, model } = route;
+
+  if (provider.type === "fixture") {
+    const text =
+      (call.task && provider.responses[call.task]) ??
+      provider.defaultResponse ??
+      `fixture:${call.task ?? "default"}:${createHash("sha256")
+        .update(`${call.systemPrompt ?? ""}\n${prompt}`)
+        .digest("hex")
+        .slice(0, 12)}`;
+    return { text, model, tokensUsed: 0, provider: route.name };
+  }
+
+  if (provider.type === "anthropic") {
+    return callAnthropic(prompt, call, model, route.apiKey ?? "", route.name);
+  }
+
+  const client = new OpenAI({
+    baseURL: openAIBaseUrl(provider),
+    apiKey: route.apiKey || "local",
+    defaultHeaders:
+      provider.type === "openrouter"
+        ? { "HTTP-Referer": "https://ceos.run", "X-Title": "ceos.run Content Generator" }
+        : undefined,
+  });
+
+  const completion = await client.chat.completions.create({
+    model,
+    messages: [
+      ...(call.systemPrompt ? [{ role: "system" as const, content: call.systemPrompt }] : []),
+      { role: "user" as const, content: prompt },
+    ],
+    max_tokens: call.maxTokens,
+    temperature: call.temperature,
+  });
+
+  return {
+    text: completion.choices[0]?.message?.content ?? "",
+    model: completion.model ?? model,
+    tokensUsed: completion.usage?.total_tokens ?? 0,
+    provider: route.name,
+  };
+}
+
+function openAIBaseUrl(provider: LLMProviderConfig): string {
+  switch (provider.type) {
+    case "openrouter":
+      return "https://openrouter.ai/api/v1";
+    case "openai-compatible":
+      return provider.baseUrl;
+    default:
+      return "https://api.openai.com/v1";
+  }
+}
+
+async function callAnthropic(
+  prompt: string,
+  call: LLMCall,
+  model: string,
+  apiKey: string,
+  providerName: string,
+): Promise<LLMResult> {
+  const res = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: call.maxTokens,
+      temperature: call.temperature,
+      system: call.systemPrompt,
+      messages: [{ role: "user", content: prompt }],
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Anthropic API error ${res.status}`);
+  }
+
+  const body = (await res.json()) as {
+    model?: string;
+    content: Array<{ type: string; text?: string }>;
+    usage?: { input_tokens: number; output_tokens: number };
+  };
+
+  return {
+    text: body.content.map((block) => (block.type === "text" ? (block.text ?? "") : "")).join(""),
+    model: body.model ?? model,
+    tokensUsed: (body.usage?.input_tokens ?? 0) + (body.usage?.output_tokens ?? 0),
+    provider: providerName,
+  };
+}
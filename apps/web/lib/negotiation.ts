@@ -0,0 +1,613 @@
+/**
+ * Service Price Negotiation
+ *
+ * Buyer agents can negotiate the price of a per_call offering over the A2A
+ * gateway (POST /api/a2a/[sellerAgentId]) before hiring it:
+ *
+ *   quote-request — open a negotiation for `quantity` jobs, optionally
+ *                   proposing a price; the seller replies with its ask
+ *   counter-offer — propose a price; the seller accepts, counters or walks
+ *   accept-quote  — take the seller's standing offer
+ *   reject        — either side ends the negotiation
+ *
+ * The seller side is answered here, deterministically, from the offering's
+ * `negotiationConfig` bounds: a floor price, volume discounts, the number
+ * of counter-offers it entertains and how long a quote stays valid. A
+ * volume discount is earned by jobs the buyer already bought from the
+ * offering (escrow RELEASED to the seller), not by the `quantity` asked
+ * for — that is only a cap on the quote, with nothing committed behind it. Each counter moves the ask halfway towards the buyer's proposal,
+ * never below the floor. Offerings without a config sell at list price.
+ *
+ * An agreement produces a quote signed with the platform's quote key. The
+ * buyer passes `{ negotiationId, signature }` to POST /api/services/jobs,
+ * which charges the agreed price instead of the list price for up to
+ * `quantity` jobs until the quote expires.
+ *
+ * Every message and the seller's reasoning (ask, floor, discount, rule)
+ * are stored as ServiceNegotiationRound rows for the RLAIF logs.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { Prisma, ServiceNegotiation } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+import { getPricingModel } from "@/lib/pricing";
+
+export const NEGOTIATION_METHODS = ["quote-request", "counter-offer", "accept-quote", "reject"] as const;
+export type NegotiationMethod = (typeof NEGOTIATION_METHODS)[number];
+
+export const DEFAULT_MAX_ROUNDS = 3;
+export const DEFAULT_QUOTE_TTL_MINUTES = 60;
+
+/** Time the parties have to reach an agreement. */
+const NEGOTIATION_TTL_MS = 30 * 60 * 1000;
+
+/** The seller accepts a proposal within 1% of its next counter. */
+const CONVERGENCE_BPS = 100n;
+
+export interface VolumeDiscount {
+  /** Jobs of the offering the buyer must already have bought */
+  minQuantity: number;
+  /** Discount off the list price in basis points */
+  discountBps: number;
+}
+
+export interface NegotiationConfig {
+  enabled: boolean;
+  /** Lowest price per job the seller agrees to, micro-USDC */
+  floorPriceUsdc: string;
+  volumeDiscounts: VolumeDiscount[];
+  /** Counter-offers the seller entertains before its final answer */
+  maxRounds: number;
+  quoteTtlMinutes: number;
+}
+
+/** Seller's reply to a buyer proposal. */
+export type SellerDecision =
+  | { action: "accept"; priceUsdc: bigint; rule: string }
+  | { action: "counter"; priceUsdc: bigint; rule: string }
+  | { action: "reject"; reason: string; rule: string };
+
+// ── Bounds ──────────────────────────────────────────────────────────────────
+
+/**
+ * The offering's negotiation bounds, or null when its price is fixed.
+ * Only per_call offerings negotiate — the other models price per period
+ * or per unit.
+ */
+export function getNegotiationConfig(offering: {
+  pricingModel: string;
+  negotiationConfig: unknown;
+}): NegotiationConfig | null {
+  if (getPricingModel(offering) !== "per_call") return null;
+  // Shape is enforced by the offering schemas in lib/validation.ts
+  const config = offering.negotiationConfig as Partial<NegotiationConfig> | null;
+  if (!config?.enabled) return null;
+  return {
+    enabled: true,
+    floorPriceUsdc: config.floorPriceUsdc ?? "0",
+    volumeDiscounts: config.volumeDiscounts ?? [],
+    maxRounds: config.maxRounds ?? DEFAULT_MAX_ROUNDS,
+    quoteTtlMinutes: config.quoteTtlMinutes ?? DEFAULT_QUOTE_TTL_MINUTES,
+  };
+}
+
+/**
+ * The seller's opening ask: the list price less the best volume discount
+ * the buyer's `purchasedJobs` qualify for, never below the floor.
+ */
+export function getAskPrice(
+  listPriceUsdc: bigint,
+  config: NegotiationConfig | null,
+  purchasedJobs: number,
+): { askUsdc: bigint; floorUsdc: bigint; discountBps: number } {
+  if (!config) return { askUsdc: listPriceUsdc, floorUsdc: listPriceUsdc, discountBps: 0 };
+
+  const discountBps = config.volumeDiscounts
+    .filter((d) => purchasedJobs >= d.minQuantity)
+    .reduce((best, d) => Math.max(best, d.discountBps), 0);
+
+  const floorUsdc = minBigInt(BigInt(config.floorPriceUsdc), listPriceUsdc);
+  const discounted = (listPriceUsdc * BigInt(10_000 - discountBps)) / 10_000n;
+  return { askUsdc: maxBigInt(discounted, floorUsdc), floorUsdc, discountBps };
+}
+
+/**
+ * Answer a buyer's proposal against the seller's standing offer.
+ *
+ * @param isFinal - The buyer has used up the seller's counter-offers: the
+ *   proposal is accepted if it clears the floor and rejected otherwise
+ */
+export function decideOnProposal(input: {
+  standingOfferUsdc: bigint;
+  floorUsdc: bigint;
+  proposedUsdc: bigint;
+  isFinal: boolean;
+}): SellerDecision {
+  const { standingOfferUsdc, floorUsdc, proposedUsdc, isFinal } = input;
+
+  if (proposedUsdc >= standingOfferUsdc) {
+    return { action: "accept", priceUsdc: standingOfferUsdc, rule: "proposal_meets_offer" };
+  }
+
+  if (isFinal) {
+    return proposedUsdc >= floorUsdc
+      ? { action: "accept", priceUsdc: proposedUsdc, rule: "final_round_above_floor" }
+      : { action: "reject", reason: "Proposal is below the seller's floor price", rule: "final_round_below_floor" };
+  }
+
+  const counterUsdc = maxBigInt(floorUsdc, (standingOfferUsdc + proposedUsdc) / 2n);
+  const tolerance = (counterUsdc * CONVERGENCE_BPS) / 10_000n;
+  if (proposedUsdc >= floorUsdc && counterUsdc - proposedUsdc <= tolerance) {
+    return { action: "accept", priceUsdc: proposedUsdc, rule: "converged" };
+  }
+
+  return { action: "counter", priceUsdc: counterUsdc, rule: "split_difference" };
+}
+
+// ── Quote signatures ────────────────────────────────────────────────────────
+
+export interface QuoteTerms {
+  negotiationId: string;
+  offeringId: string;
+  buyerAgentId: string;
+  priceUsdc: bigint;
+  quantity: number;
+  expiresAt: Date;
+}
+
+/**
+ * HMAC key for quotes.
+ *
+ * Priority:
+ *   1. `QUOTE_SIGNING_SECRET` env var
+ *   2. SHA-256 of `DEPLOYER_PRIVATE_KEY` (fallback for dev)
+ */
+function getQuoteSigningKey(): string {
+  const explicit = process.env.QUOTE_SIGNING_SECRET;
+  if (explicit) return explicit;
+
+  const deployerKey = process.env.DEPLOYER_PRIVATE_KEY;
+  if (!deployerKey) {
+    throw Errors.internal("No quote signing key available. Set QUOTE_SIGNING_SECRET");
+  }
+  return createHash("sha256").update(`quote:${deployerKey}`).digest("hex");
+}
+
+function quotePayload(terms: QuoteTerms): string {
+  return [
+    terms.negotiationId,
+    terms.offeringId,
+    terms.buyerAgentId,
+    terms.priceUsdc.toString(),
+    terms.quantity,
+    terms.expiresAt.toISOString(),
+  ].join(":");
+}
+
+export function signQuote(terms: QuoteTerms): string {
+  return createHmac("sha256", getQuoteSigningKey()).update(quotePayload(terms)).digest("hex");
+}
+
+export function verifyQuoteSignature(terms: QuoteTerms, signature: string): boolean {
+  const expected = Buffer.from(signQuote(terms), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ── Lifecycle ───────────────────────────────────────────────────────────────
+
+type NegotiationOffering = {
+  id: string;
+  slug: string;
+  sellerAgentId: string;
+  priceUsdc: bigint;
+  pricingModel: string;
+  negotiationConfig: unknown;
+};
+
+export interface NegotiationRoundInput {
+  role: "buyer" | "seller";
+  action: string;
+  priceUsdc?: bigint | null;
+  message?: string | null;
+  context?: Prisma.InputJsonValue;
+}
+
+/** Reply returned to the buyer as the A2A `result`. */
+export function serializeNegotiation(
+  negotiation: ServiceNegotiation,
+  offeringSlug: string,
+  reply: { action: string; message: string },
+) {
+  const quote =
+    negotiation.status === "ACCEPTED" && negotiation.quoteSignature
+      ? {
+          negotiationId: negotiation.id,
+          offeringSlug,
+          buyerAgentId: negotiation.buyerAgentId,
+          priceUsdc: negotiation.agreedPriceUsdc?.toString() ?? null,
+          quantity: negotiation.quantity,
+          jobsUsed: negotiation.jobsUsed,
+          expiresAt: negotiation.quoteExpiresAt?.toISOString() ?? null,
+          signature: negotiation.quoteSignature,
+        }
+      : null;
+
+  return {
+    negotiationId: negotiation.id,
+    status: negotiation.status,
+    round: negotiation.round,
+    action: reply.action,
+    message: reply.message,
+    offeringSlug,
+    quantity: negotiation.quantity,
+    listPriceUsdc: negotiation.listPriceUsdc.toString(),
+    offerUsdc: negotiation.status === "OPEN" ? negotiation.standingOfferUsdc.toString() : null,
+    expiresAt: negotiation.expiresAt.toISOString(),
+    quote,
+  };
+}
+
+/**
+ * Fields that settle a negotiation at `priceUsdc` with a signed quote.
+ */
+function agreementFields(
+  negotiation: Pick<ServiceNegotiation, "id" | "offeringId" | "buyerAgentId" | "quantity">,
+  priceUsdc: bigint,
+  config: NegotiationConfig | null,
+  now: Date,
+): Prisma.ServiceNegotiationUpdateManyMutationInput {
+  const ttlMinutes = config?.quoteTtlMinutes ?? DEFAULT_QUOTE_TTL_MINUTES;
+  const quoteExpiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000);
+  return {
+    status: "ACCEPTED",
+    agreedPriceUsdc: priceUsdc,
+    quoteExpiresAt,
+    quoteSignature: signQuote({
+      negotiationId: negotiation.id,
+      offeringId: negotiation.offeringId,
+      buyerAgentId: negotiation.buyerAgentId,
+      priceUsdc,
+      quantity: negotiation.quantity,
+      expiresAt: quoteExpiresAt,
+    }),
+  };
+}
+
+/**
+ * Open a negotiation and answer the buyer's quote request.
+ */
+export async function requestQuote(
+  db: Prisma.TransactionClient,
+  offering: NegotiationOffering,
+  buyerAgentId: string,
+  request: { quantity: number; proposedPriceUsdc?: bigint; message?: string },
+  now: Date = new Date(),
+) {
+  const config = getNegotiationConfig(offering);
+  const purchasedJobs = config
+    ? await db.serviceJob.count({
+        where: { offeringId: offering.id, buyerAgentId, escrowStatus: "RELEASED" },
+      })
+    : 0;
+  const { askUsdc, floorUsdc, discountBps } = getAskPrice(offering.priceUsdc, config, purchasedJobs);
+
+  const decision: SellerDecision | null =
+    request.proposedPriceUsdc !== undefined
+      ? decideOnProposal({
+          standingOfferUsdc: askUsdc,
+          floorUsdc,
+          proposedUsdc: request.proposedPriceUsdc,
+          isFinal: false,
+        })
+      : null;
+
+  const standingOfferUsdc = decision?.action === "counter" ? decision.priceUsdc : askUsdc;
+
+  const negotiation = await db.serviceNegotiation.create({
+    data: {
+      offeringId: offering.id,
+      buyerAgentId,
+      sellerAgentId: offering.sellerAgentId,
+      quantity: request.quantity,
+      listPriceUsdc: offering.priceUsdc,
+      standingOfferUsdc,
+      round: 1,
+      expiresAt: new Date(now.getTime() + NEGOTIATION_TTL_MS),
+    },
+  });
+
+  const context = {
+    listPriceUsdc: offering.priceUsdc.toString(),
+    askUsdc: askUsdc.toString(),
+    floorUsdc: floorUsdc.toString(),
+    discountBps,
+    purchasedJobs,
+    negotiable: config !== null,
+    rule: decision?.rule ?? "opening_ask",
+  };
+
+  let settled = negotiation;
+  let reply: { action: string; message: string };
+
+  if (decision?.action === "accept") {
+    settled = await db.serviceNegotiation.update({
+      where: { id: negotiation.id },
+      data: agreementFields(negotiation, decision.priceUsdc, config, now),
+    });
+    reply = { action: "accept", message: "Proposal accepted — quote issued" };
+  } else {
+    reply = {
+      action: "quote",
+      message: config
+        ? `Asking ${standingOfferUsdc} micro-USDC per job`
+        : "This offering is sold at its list price",
+    };
+  }
+
+  await recordRounds(db, negotiation.id, 1, [
+    {
+      role: "buyer",
+      action: "quote-request",
+      priceUsdc: request.proposedPriceUsdc ?? null,
+      message: request.message ?? null,
+      context: { quantity: request.quantity },
+    },
+    {
+      role: "seller",
+      action: reply.action,
+      priceUsdc: decision?.action === "accept" ? decision.priceUsdc : standingOfferUsdc,
+      message: reply.message,
+      context,
+    },
+  ]);
+
+  return serializeNegotiation(settled, offering.slug, reply);
+}
+
+/**
+ * Answer a buyer counter-offer on an OPEN negotiation.
+ */
+export async function counterOffer(
+  db: Prisma.TransactionClient,
+  negotiation: ServiceNegotiation,
+  offering: NegotiationOffering,
+  proposal: { proposedPriceUsdc: bigint; message?: string },
+  now: Date = new Date(),
+) {
+  const config = getNegotiationConfig(offering);
+  // The floor does not depend on the volume discount
+  const { floorUsdc } = getAskPrice(negotiation.listPriceUsdc, config, 0);
+  const maxRounds = config?.maxRounds ?? 0;
+
+  const decision = decideOnProposal({
+    standingOfferUsdc: negotiation.standingOfferUsdc,
+    floorUsdc,
+    proposedUsdc: proposal.proposedPriceUsdc,
+    isFinal: negotiation.round >= maxRounds,
+  });
+
+  const round = negotiation.round + 1;
+  let data: Prisma.ServiceNegotiationUpdateManyMutationInput;
+  let reply: { action: string; message: string };
+
+  if (decision.action === "accept") {
+    data = agreementFields(negotiation, decision.priceUsdc, config, now);
+    reply = { action: "accept", message: "Proposal accepted — quote issued" };
+  } else if (decision.action === "counter") {
+    data = { standingOfferUsdc: decision.priceUsdc };
+    reply = {
+      action: "counter-offer",
+      message: `Countering at ${decision.priceUsdc} micro-USDC per job`,
+    };
+  } else {
+    data = { status: "REJECTED" };
+    reply = { action: "reject", message: decision.reason };
+  }
+
+  const settled = await advanceNegotiation(db, negotiation, { ...data, round });
+
+  await recordRounds(db, negotiation.id, round, [
+    {
+      role: "buyer",
+      action: "counter-offer",
+      priceUsdc: proposal.proposedPriceUsdc,
+      message: proposal.message ?? null,
+    },
+    {
+      role: "seller",
+      action: reply.action,
+      priceUsdc: decision.action === "reject" ? null : decision.priceUsdc,
+      message: reply.message,
+      context: {
+        standingOfferUsdc: negotiation.standingOfferUsdc.toString(),
+        floorUsdc: floorUsdc.toString(),
+        maxRounds,
+        rule: decision.rule,
+      },
+    },
+  ]);
+
+  return serializeNegotiation(settled, offering.slug, reply);
+}
+
+/**
+ * Accept the seller's standing offer and issue the signed quote.
+ */
+export async function acceptQuote(
+  db: Prisma.TransactionClient,
+  negotiation: ServiceNegotiation,
+  offering: NegotiationOffering,
+  now: Date = new Date(),
+) {
+  const config = getNegotiationConfig(offering);
+  const settled = await advanceNegotiation(
+    db,
+    negotiation,
+    agreementFields(negotiation, negotiation.standingOfferUsdc, config, now),
+  );
+  const reply = { action: "accept", message: "Quote issued" };
+
+  await recordRounds(db, negotiation.id, negotiation.round, [
+    { role: "buyer", action: "accept-quote", priceUsdc: negotiation.standingOfferUsdc },
+  ]);
+
+  return serializeNegotiation(settled, offering.slug, reply);
+}
+
+/**
+ * End an OPEN negotiation on behalf of either party.
+ */
+export async function rejectNegotiation(
+  db: Prisma.TransactionClient,
+  negotiation: ServiceNegotiation,
+  offering: NegotiationOffering,
+  role: "buyer" | "seller",
+  reason?: string,
+) {
+  const settled = await advanceNegotiation(db, negotiation, { status: "REJECTED" });
+  const reply = { action: "reject", message: reason ?? `Negotiation ended by the ${role}` };
+
+  await recordRounds(db, negotiation.id, negotiation.round, [
+    { role, action: "reject", message: reason ?? null },
+  ]);
+
+  return serializeNegotiation(settled, offering.slug, reply);
+}
+
+/**
+ * Load an OPEN negotiation, expiring it when the deadline has passed.
+ *
+ * @throws {AppError} 404 when missing, 409 when no longer open
+ */
+export async function loadOpenNegotiation(
+  db: Prisma.TransactionClient,
+  negotiationId: string,
+  now: Date = new Date(),
+): Promise<ServiceNegotiation> {
+  const negotiation = await db.serviceNegotiation.findUnique({ where: { id: negotiationId } });
+  if (!negotiation) throw Errors.notFound("Negotiation");
+
+  if (negotiation.status === "OPEN" && negotiation.expiresAt <= now) {
+    await db.serviceNegotiation.updateMany({
+      where: { id: negotiation.id, status: "OPEN" },
+      data: { status: "EXPIRED" },
+    });
+    throw Errors.conflict("Negotiation has expired");
+  }
+  if (negotiation.status !== "OPEN") {
+    throw Errors.conflict(`Negotiation is ${negotiation.status}`);
+  }
+  return negotiation;
+}
+
+/**
+ * Load the quote behind a job request and check it can price one more job
+ * of `offeringId` for `buyerAgentId`.
+ *
+ * @throws {AppError} 402 for a bad signature, 409 when expired or used up
+ */
+export async function loadNegotiatedQuote(
+  db: Prisma.TransactionClient,
+  quote: { negotiationId: string; signature: string },
+  offeringId: string,
+  buyerAgentId: string,
+  now: Date = new Date(),
+): Promise<{ negotiationId: string; priceUsdc: bigint; jobsUsed: number }> {
+  const negotiation = await db.serviceNegotiation.findUnique({
+    where: { id: quote.negotiationId },
+  });
+
+  if (
+    !negotiation ||
+    negotiation.status !== "ACCEPTED" ||
+    negotiation.agreedPriceUsdc === null ||
+    negotiation.quoteExpiresAt === null ||
+    negotiation.offeringId !== offeringId ||
+    negotiation.buyerAgentId !== buyerAgentId ||
+    !verifyQuoteSignature(
+      {
+        negotiationId: negotiation.id,
+        offeringId,
+        buyerAgentId,
+        priceUsdc: negotiation.agreedPriceUsdc,
+        quantity: negotiation.quantity,
+        expiresAt: negotiation.quoteExpiresAt,
+      },
+      quote.signature,
+    )
+  ) {
+    throw Errors.paymentRequired("Quote is not valid for this offering and buyer");
+  }
+
+  if (negotiation.quoteExpiresAt <= now) {
+    throw Errors.conflict("Quote has expired — negotiate a new one");
+  }
+  if (negotiation.jobsUsed >= negotiation.quantity) {
+    throw Errors.conflict(`Quote covered ${negotiation.quantity} jobs and has been used up`);
+  }
+
+  return {
+    negotiationId: negotiation.id,
+    priceUsdc: negotiation.agreedPriceUsdc,
+    jobsUsed: negotiation.jobsUsed,
+  };
+}
+
+/**
+ * Offering fields safe to show buyers: the seller's negotiation bounds
+ * (its floor price in particular) are replaced by a `negotiable` flag.
+ */
+export function toPublicOffering<T extends { pricingModel: string; negotiationConfig: unknown }>(
+  offering: T,
+): Omit<T, "negotiationConfig"> & { negotiable: boolean } {
+  const negotiable = getNegotiationConfig(offering) !== null;
+  const rest: Partial<T> = { ...offering };
+  delete rest.negotiationConfig;
+  return { ...(rest as Omit<T, "negotiationConfig">), negotiable };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Apply a state change unless another message moved the negotiation first. */
+async function advanceNegotiation(
+  db: Prisma.TransactionClient,
+  negotiation: ServiceNegotiation,
+  data: Prisma.ServiceNegotiationUpdateManyMutationInput,
+): Promise<ServiceNegotiation> {
+  const { count } = await db.serviceNegotiation.updateMany({
+    where: { id: negotiation.id, status: "OPEN", round: negotiation.round },
+    data,
+  });
+  if (count === 0) {
+    throw Errors.conflict("Negotiation changed concurrently — retry");
+  }
+  return db.serviceNegotiation.findUniqueOrThrow({ where: { id: negotiation.id } });
+}
+
+async function recordRounds(
+  db: Prisma.TransactionClient,
+  negotiationId: string,
+  round: number,
+  rounds: NegotiationRoundInput[],
+): Promise<void> {
+  await db.serviceNegotiationRound.createMany({
+    data: rounds.map((r) => ({
+      negotiationId,
+      round,
+      role: r.role,
+      action: r.action,
+      priceUsdc: r.priceUsdc ?? null,
+      message: r.message ?? null,
+      context: r.context,
+    })),
+  });
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,259 @@
+/**
+ * Service Pricing Models
+ *
+ * `ServiceOffering.pricingModel` decides what a job costs the buyer when it
+ * is created. `priceUsdc` and `pricingConfig` mean different things per model:
+ *
+ *   per_call     — priceUsdc per job (the default; no config)
+ *   subscription — priceUsdc per billing period. The period's first job pays
+ *                  the fee and the period includes `includedCalls` jobs;
+ *                  further jobs cost `overagePriceUsdc`, or are refused.
+ *                  The fee belongs to the period (`feeJobId`): when the job
+ *                  that paid it is refunded, the period is rolled back and
+ *                  the next job pays the fee again
+ *   metered      — priceUsdc per unit reported by the skill. Each job
+ *                  pre-authorizes up to `maxUnitsPerCall` units (or the
+ *                  buyer's lower `maxUnits`); whatever the skill does not
+ *                  use is refunded from escrow when the job is released
+ *   tiered       — the Nth job in a period costs the first tier whose
+ *                  `upToCalls` is >= N (the last tier is open-ended)
+ *
+ * Usage is counted per buyer and offering in ServiceUsagePeriod rows.
+ * Periods are fixed windows of `periodDays` aligned to the Unix epoch, so
+ * concurrent first calls always land in the same period. Ended periods are
+ * invoiced by the runtime's service-job maintenance worker from the buyer's
+ * WalletTransaction records.
+ */
+
+import type { Prisma, ServiceUsagePeriod } from "@prisma/client";
+import { Errors } from "@/lib/errors";
+
+export const PRICING_MODELS = ["per_call", "subscription", "metered", "tiered"] as const;
+export type PricingModel = (typeof PRICING_MODELS)[number];
+
+export const DEFAULT_BILLING_PERIOD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionPricing {
+  periodDays: number;
+  includedCalls: number;
+  overagePriceUsdc?: string;
+}
+
+export interface MeteredPricing {
+  unit: string;
+  maxUnitsPerCall: number;
+  periodDays?: number;
+}
+
+export interface PricingTier {
+  /** Last call number (within the period) priced at this tier; null = no limit */
+  upToCalls: number | null;
+  priceUsdc: string;
+}
+
+export interface TieredPricing {
+  periodDays?: number;
+  tiers: PricingTier[];
+}
+
+export interface PricedOffering {
+  priceUsdc: bigint;
+  pricingModel: string;
+  pricingConfig: unknown;
+}
+
+/** What a new job costs under the offering's pricing model. */
+export interface JobCharge {
+  pricingModel: PricingModel;
+  chargeUsdc: bigint;
+  /** Metered only: units pre-authorized by the charge */
+  authorizedUnits?: number;
+  /** Subscription only: the charge is the period's fee */
+  subscriptionFee?: boolean;
+  /** Human-readable explanation, returned by the quote endpoint */
+  description: string;
+}
+
+/** Pricing model of an offering; unknown values are treated as per_call. */
+export function getPricingModel(offering: Pick<PricedOffering, "pricingModel">): PricingModel {
+  return (PRICING_MODELS as readonly string[]).includes(offering.pricingModel)
+    ? (offering.pricingModel as PricingModel)
+    : "per_call";
+}
+
+function configOf<T>(offering: PricedOffering): T {
+  // Shape is enforced by the offering schemas in lib/validation.ts
+  return (offering.pricingConfig ?? {}) as T;
+}
+
+/** Billing period window containing `at`. */
+export function getBillingPeriod(
+  offering: PricedOffering,
+  at: Date = new Date(),
+): { periodStart: Date; periodEnd: Date } {
+  const days =
+    getPricingModel(offering) === "per_call"
+      ? DEFAULT_BILLING_PERIOD_DAYS
+      : (configOf<{ periodDays?: number }>(offering).periodDays ?? DEFAULT_BILLING_PERIOD_DAYS);
+  const periodMs = days * DAY_MS;
+  const start = Math.floor(at.getTime() / periodMs) * periodMs;
+  return { periodStart: new Date(start), periodEnd: new Date(start + periodMs) };
+}
+
+/**
+ * Price the next job of a buyer.
+ *
+ * @param callsThisPeriod - Jobs the buyer already created in the current period
+ * @param maxUnits - Metered only: buyer's cap on the units to pre-authorize
+ * @param subscriptionFeePaid - Subscription only: whether a job of the current
+ *   period paid the fee (and was not refunded since)
+ * @throws {AppError} 409 when a subscription's included calls are used up
+ *   and the offering allows no overage
+ */
+export function quoteJobCharge(
+  offering: PricedOffering,
+  callsThisPeriod: number,
+  maxUnits?: number,
+  subscriptionFeePaid: boolean = callsThisPeriod > 0,
+): JobCharge {
+  const pricingModel = getPricingModel(offering);
+  const callNumber = callsThisPeriod + 1;
+
+  switch (pricingModel) {
+    case "subscription": {
+      const config = configOf<SubscriptionPricing>(offering);
+      if (!subscriptionFeePaid) {
+        return {
+          pricingModel,
+          chargeUsdc: offering.priceUsdc,
+          subscriptionFee: true,
+          description: `Subscription fee for a ${config.periodDays}-day period including ${config.includedCalls} calls`,
+        };
+      }
+      if (callNumber <= config.includedCalls) {
+        return {
+          pricingModel,
+          chargeUsdc: 0n,
+          description: `Included call ${callNumber} of ${config.includedCalls}`,
+        };
+      }
+      if (config.overagePriceUsdc === undefined) {
+        throw Errors.conflict(
+          `Subscription includes ${config.includedCalls} calls per period and allows no overage`,
+        );
+      }
+      return {
+        pricingModel,
+        chargeUsdc: BigInt(config.overagePriceUsdc),
+        description: `Overage call ${callNumber} (${config.includedCalls} included)`,
+      };
+    }
+
+    case "metered": {
+      const config = configOf<MeteredPricing>(offering);
+      const authorizedUnits = Math.min(maxUnits ?? config.maxUnitsPerCall, config.maxUnitsPerCall);
+      return {
+        pricingModel,
+        chargeUsdc: offering.priceUsdc * BigInt(authorizedUnits),
+        authorizedUnits,
+        description: `Pre-authorized ${authorizedUnits} ${config.unit} at ${offering.priceUsdc} micro-USDC each; unused units are refunded`,
+      };
+    }
+
+    case "tiered": {
+      const { tiers } = configOf<TieredPricing>(offering);
+      const tier =
+        tiers.find((t) => t.upToCalls === null || callNumber <= t.upToCalls) ??
+        tiers[tiers.length - 1]!;
+      return {
+        pricingModel,
+        chargeUsdc: BigInt(tier.priceUsdc),
+        description: `Call ${callNumber} this period, priced at tier ${tiers.indexOf(tier) + 1}`,
+      };
+    }
+
+    default:
+      return { pricingModel, chargeUsdc: offering.priceUsdc, description: "Per-call price" };
+  }
+}
+
+/**
+ * Settle a metered job against the units its skill reported.
+ *
+ * Units are billed at the offering's unit price and never above what the
+ * job pre-authorized; the rest of the escrowed charge goes back to the buyer.
+ */
+export function settleMeteredUsage(
+  offering: PricedOffering,
+  chargedUsdc: bigint,
+  reportedUnits: number,
+): { billedUnits: number; refundUsdc: bigint } {
+  const unitPrice = offering.priceUsdc;
+  const authorizedUnits = unitPrice > 0n ? Number(chargedUsdc / unitPrice) : Infinity;
+  const billedUnits = Math.min(Math.max(0, Math.floor(reportedUnits)), authorizedUnits);
+  return {
+    billedUnits,
+    refundUsdc: chargedUsdc - BigInt(billedUnits) * unitPrice,
+  };
+}
+
+/**
+ * Units a completed metered job reported in `deliverables.usage.units`,
+ * or null when absent.
+ */
+export function getReportedUnits(deliverables: unknown): number | null {
+  if (typeof deliverables !== "object" || deliverables === null) return null;
+  const usage = (deliverables as { usage?: unknown }).usage;
+  if (typeof usage !== "object" || usage === null) return null;
+  const units = (usage as { units?: unknown }).units;
+  return typeof units === "number" && Number.isFinite(units) && units >= 0 ? units : null;
+}
+
+// ── Usage periods ───────────────────────────────────────────────────────────
+
+/**
+ * The buyer's usage of an offering in the billing period containing `at`,
+ * together with the price of their next job.
+ */
+export async function quoteForBuyer(
+  db: Prisma.TransactionClient,
+  offering: PricedOffering & { id: string },
+  buyerAgentId: string,
+  maxUnits?: number,
+  at: Date = new Date(),
+): Promise<{
+  charge: JobCharge;
+  window: { periodStart: Date; periodEnd: Date };
+  period: ServiceUsagePeriod | null;
+}> {
+  const pricingModel = getPricingModel(offering);
+  const window = getBillingPeriod(offering, at);
+
+  const period = await db.serviceUsagePeriod.findUnique({
+    where: {
+      offeringId_buyerAgentId_pricingModel_periodStart: {
+        offeringId: offering.id,
+        buyerAgentId,
+        pricingModel,
+        periodStart: window.periodStart,
+      },
+    },
+  });
+
+  return {
+    charge: quoteJobCharge(offering, period?.calls ?? 0, maxUnits, period?.feeJobId != null),
+    window,
+    period,
+  };
+}
+
+/** Convert BigInt fields so a usage period can be sent as JSON. */
+export function serializeUsagePeriod(period: ServiceUsagePeriod) {
+  return {
+    ...period,
+    units: period.units.toString(),
+    chargedUsdc: period.chargedUsdc.toString(),
+  };
+}
@@ -0,0 +1,136 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+/**
+ * Versioned prompt templates for content previews.
+ *
+ * The runtime keeps its templates in a registry
+ * (apps/agent-runtime/src/core/prompt-registry.ts); the web app only
+ * generates previews, so its `preview.*` templates live here. Both read
+ * the same PROMPT_CONFIG / PROMPT_CONFIG_PATH traffic split, e.g.
+ * {"traffic":{"preview.cast":{"1":50,"2":50}}}. Without one, each name
+ * serves its highest version.
+ */
+
+interface PreviewVars {
+  agentName: string;
+  tone: string;
+  style: string;
+  customPrompt: string;
+  /** "Focus on: ..." / "Topics of interest: ..." or empty */
+  topicHint: string;
+  /** The cast being replied to (preview.reply only) */
+  replyTo: string;
+}
+
+export type PreviewPromptName = "preview.cast" | "preview.thread" | "preview.reply";
+
+interface PreviewTemplate {
+  name: PreviewPromptName;
+  version: number;
+  prompt: string;
+  system: string;
+}
+
+const PREVIEW_SYSTEM =
+  "You are {{agentName}}. Write content as this agent for Farcaster (similar to Twitter). Keep it within 320 characters per cast.";
+
+const PREVIEW_PERSONA = `You are {{agentName}}, an AI agent on Farcaster. Tone: {{tone}}. Style: {{style}}.
+{{customPrompt}}`;
+
+const PREVIEW_TEMPLATES: PreviewTemplate[] = [
+  {
+    name: "preview.cast",
+    version: 1,
+    system: PREVIEW_SYSTEM,
+    prompt: `${PREVIEW_PERSONA}
+
+Write a single engaging Farcaster cast (max 320 chars). Be original and thought-provoking.
+{{topicHint}}`,
+  },
+  {
+    name: "preview.thread",
+    version: 1,
+    system: PREVIEW_SYSTEM,
+    prompt: `${PREVIEW_PERSONA}
+
+Write a 3-part thread on Farcaster. Each part max 320 chars. Separate parts with "---".
+{{topicHint}}`,
+  },
+  {
+    name: "preview.reply",
+    version: 1,
+    system: PREVIEW_SYSTEM,
+    prompt: `${PREVIEW_PERSONA}
+
+Reply to this cast concisely (max 320 chars):
+"{{replyTo}}"
+
+{{topicHint}}`,
+  },
+];
+
+const promptConfigSchema = z.object({
+  traffic: z.record(z.record(z.string().regex(/^\d+$/), z.number().nonnegative())).default({}),
+});
+
+type PromptConfig = z.infer<typeof promptConfigSchema>;
+
+let cachedConfig: PromptConfig | null = null;
+
+function getPromptConfig(): PromptConfig {
+  if (!cachedConfig) {
+    const raw =
+      process.env.PROMPT_CONFIG ??
+      (process.env.PROMPT_CONFIG_PATH ? readFileSync(process.env.PROMPT_CONFIG_PATH, "utf8") : null);
+    cachedConfig = raw ? promptConfigSchema.parse(JSON.parse(raw)) : { traffic: {} };
+  }
+  return cachedConfig;
+}
+
+/** Pick a version of `name` by the configured traffic split. */
+function selectVersion(name: PreviewPromptName, random: () => number): number {
+  const versions = PREVIEW_TEMPLATES.filter((t) => t.name === name).map((t) => t.version);
+  const split = Object.entries(getPromptConfig().traffic[name] ?? {})
+    .map(([version, weight]) => ({ version: Number(version), weight }))
+    .filter((entry) => entry.weight > 0 && versions.includes(entry.version));
+
+  if (split.length === 0) return Math.max(...versions);
+
+  let point = random() * split.reduce((sum, entry) => sum + entry.weight, 0);
+  for (const entry of split) {
+    point -= entry.weight;
+    if (point < 0) return entry.version;
+  }
+  return split[split.length - 1]!.version;
+}
+
+function fill(text: string, vars: PreviewVars): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => String(vars[key as keyof PreviewVars]));
+}
+
+export interface RenderedPreviewPrompt {
+  template: PreviewPromptName;
+  version: number;
+  prompt: string;
+  systemPrompt: string;
+}
+
+/**
+ * Render the preview prompt for `name`, choosing the version by traffic split.
+ */
+export function renderPreviewPrompt(
+  name: PreviewPromptName,
+  vars: PreviewVars,
+  random: () => number = Math.random,
+): RenderedPreviewPrompt {
+  const version = selectVersion(name, random);
+  const template = PREVIEW_TEMPLATES.find((t) => t.name === name && t.version === version)!;
+
+  return {
+    template: name,
+    version,
+    prompt: fill(template.prompt, vars),
+    systemPrompt: fill(template.system, vars),
+  };
+}
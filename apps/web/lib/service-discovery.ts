@@ -0,0 +1,185 @@
+/**
+ * Service Discovery Ranking
+ *
+ * Scores candidate offerings against a buyer's capability query and
+ * requirements so agents pick the service that actually does the job,
+ * not the one whose description happens to contain a keyword.
+ *
+ * Relevance is a weighted sum of five signals, each in [0, 1]:
+ *
+ *   capability  0.35  declared tag match (text-only match scores low)
+ *   schema      0.25  requirements vs. the offering's inputSchema
+ *   reputation  0.15  seller ERC-8004 reputation (0–10000)
+ *   price       0.15  cheapest candidate scores 1
+ *   latency     0.10  fastest candidate scores 1
+ *
+ * Signals the buyer gave no input for (no capability, no requirements)
+ * are dropped and the remaining weights renormalized. Executor routing
+ * keys (ROUTING_KEYS) are not part of the input contract and never count
+ * against the schema.
+ */
+
+import type { CapabilityDefinition } from "@ceosrun/shared/utils/capabilities";
+import { jsonTypeOf } from "@ceosrun/shared/utils/json-schema";
+
+const WEIGHTS = {
+  capability: 0.35,
+  schema: 0.25,
+  reputation: 0.15,
+  price: 0.15,
+  latency: 0.1,
+} as const;
+
+/** ERC-8004 reputation ceiling (see agent-runtime reputation-calculator). */
+const MAX_REPUTATION_SCORE = 10_000;
+
+/** Capability score for an offering matched only by name/description text. */
+const TEXT_MATCH_SCORE = 0.3;
+
+/** Capability score for a different tag in the same category. */
+const CATEGORY_MATCH_SCORE = 0.5;
+
+/**
+ * Requirement keys consumed by the service executor for skill routing,
+ * not part of the offering's input contract.
+ */
+export const ROUTING_KEYS = ["capability", "skillId"] as const;
+
+/** `requirements` without the executor routing keys. */
+export function stripRoutingKeys(requirements: Record<string, unknown>): Record<string, unknown> {
+  const input = { ...requirements };
+  for (const key of ROUTING_KEYS) delete input[key];
+  return input;
+}
+
+export type RelevanceBreakdown = Record<keyof typeof WEIGHTS, number | null>;
+
+export interface RankableOffering {
+  name: string;
+  description: string;
+  category: string;
+  capabilities: string[];
+  priceUsdc: bigint;
+  maxLatencyMs: number;
+  avgLatencyMs: number | null;
+  inputSchema: unknown;
+  reputationScore: number;
+}
+
+export interface RankingQuery {
+  /** Registry entry the capability query resolved to, if any */
+  capability?: CapabilityDefinition;
+  /** Raw capability text (used for the legacy text fallback) */
+  capabilityText?: string;
+  requirements?: Record<string, unknown>;
+}
+
+// ── Signals ──────────────────────────────────────────────────────────────────
+
+function scoreCapability(offering: RankableOffering, query: RankingQuery): number | null {
+  if (query.capability) {
+    if (offering.capabilities.includes(query.capability.tag)) return 1;
+    if (offering.category === query.capability.category) return CATEGORY_MATCH_SCORE;
+  }
+
+  if (query.capabilityText) {
+    const needle = query.capabilityText.toLowerCase();
+    const haystack = `${offering.name} ${offering.description}`.toLowerCase();
+    return haystack.includes(needle) ? TEXT_MATCH_SCORE : 0;
+  }
+
+  return query.capability ? 0 : null;
+}
+
+/**
+ * Score how well `requirements` fits a JSON-Schema-style inputSchema
+ * (`{ type: "object", properties, required }`).
+ *
+ * Missing required fields → 0. Otherwise the fraction of supplied fields
+ * that the schema declares with a matching primitive type; fields the
+ * schema does not declare count as mismatches.
+ */
+export function scoreSchemaCompatibility(
+  inputSchema: unknown,
+  requirements: Record<string, unknown>,
+): number {
+  if (typeof inputSchema !== "object" || inputSchema === null) return 0.5;
+
+  const schema = inputSchema as {
+    properties?: Record<string, { type?: string | string[] }>;
+    required?: string[];
+  };
+  const properties = schema.properties ?? {};
+  const required = schema.required ?? [];
+
+  if (required.some((key) => requirements[key] === undefined)) return 0;
+
+  const keys = Object.keys(requirements);
+  if (keys.length === 0) return 1;
+
+  let matched = 0;
+  for (const key of keys) {
+    const prop = properties[key];
+    if (!prop) continue;
+    const types = Array.isArray(prop.type) ? prop.type : prop.type ? [prop.type] : [];
+    const actual = jsonTypeOf(requirements[key]);
+    if (
+      types.length === 0 ||
+      types.includes(actual) ||
+      (actual === "integer" && types.includes("number"))
+    ) {
+      matched++;
+    }
+  }
+
+  return matched / keys.length;
+}
+
+// ── Ranking ──────────────────────────────────────────────────────────────────
+
+/**
+ * Attach a relevance score to each offering (input order is kept).
+ *
+ * Price and latency are scored relative to the cheapest/fastest
+ * candidate in the set, so scores are only comparable within one query.
+ */
+export function scoreOfferings<T extends RankableOffering>(
+  offerings: T[],
+  query: RankingQuery,
+): Array<T & { relevance: number; relevanceBreakdown: RelevanceBreakdown }> {
+  if (offerings.length === 0) return [];
+
+  const input = query.requirements ? stripRoutingKeys(query.requirements) : null;
+  const minPrice = offerings.reduce(
+    (min, o) => (o.priceUsdc < min ? o.priceUsdc : min),
+    offerings[0]!.priceUsdc,
+  );
+  const latencies = offerings.map((o) => o.avgLatencyMs ?? o.maxLatencyMs);
+  const minLatency = Math.min(...latencies);
+
+  return offerings.map((offering, i) => {
+    const latency = latencies[i]!;
+    const breakdown: RelevanceBreakdown = {
+      capability: scoreCapability(offering, query),
+      schema: input ? scoreSchemaCompatibility(offering.inputSchema, input) : null,
+      reputation: Math.min(1, offering.reputationScore / MAX_REPUTATION_SCORE),
+      price: offering.priceUsdc === 0n ? 1 : Number(minPrice) / Number(offering.priceUsdc),
+      latency: latency <= 0 ? 1 : minLatency / latency,
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const key of Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>) {
+      const value = breakdown[key];
+      if (value === null) continue;
+      weighted += value * WEIGHTS[key];
+      totalWeight += WEIGHTS[key];
+    }
+
+    // Never recommend a service the buyer's requirements cannot satisfy
+    const relevance =
+      breakdown.schema === 0 ? 0 : Math.round((weighted / totalWeight) * 1000) / 1000;
+
+    return { ...offering, relevance, relevanceBreakdown: breakdown };
+  });
+}
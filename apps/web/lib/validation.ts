@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { isKnownCapability } from "@ceosrun/shared/utils/capabilities";
+import { PRICING_MODELS, type PricingModel } from "@/lib/pricing";
 
 // ---------------------------------------------------------------------------
 // Primitives
@@ -31,12 +33,72 @@ export const agentPersonaSchema = z.object({
   customPrompt: z.string().max(2000).optional(),
 });
 
+/** Relative weight per content type; the runtime normalizes them. */
+export const contentWeightsSchema = z
+  .object({
+    original: z.number().min(0).max(100).optional(),
+    thread: z.number().min(0).max(100).optional(),
+    engagement: z.number().min(0).max(100).optional(),
+    media: z.number().min(0).max(100).optional(),
+  })
+  .refine((weights) => Object.values(weights).some((weight) => (weight ?? 0) > 0), {
+    message: "At least one content type needs a positive weight",
+  });
+
+const weightBoundsSchema = z
+  .object({
+    min: z.number().min(0).max(1),
+    max: z.number().min(0).max(1),
+  })
+  .refine((bounds) => bounds.min <= bounds.max, { message: "min must not exceed max" });
+
+/**
+ * Adaptive tuning: the runtime shifts the strategy's weights towards what
+ * earns engagement. Content type weights stay within `bounds` (default:
+ * half to double their base weight), the image chance within
+ * `mediaProbability`.
+ */
+export const adaptiveStrategySchema = z.object({
+  enabled: z.boolean(),
+  bounds: z
+    .object({
+      original: weightBoundsSchema.optional(),
+      thread: weightBoundsSchema.optional(),
+      engagement: weightBoundsSchema.optional(),
+      media: weightBoundsSchema.optional(),
+    })
+    .optional(),
+  mediaProbability: weightBoundsSchema.optional(),
+});
+
+/** Farcaster channel id, e.g. "base" or "dev-tools". */
+const channelId = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]{0,31}$/, "Invalid channel id");
+
+/**
+ * The strategy the agent runtime posts by. `name` starts from a preset
+ * (Balanced, TextHeavy, MediaHeavy); everything else overrides it.
+ */
 export const agentStrategySchema = z.object({
+  name: z.string().min(1).max(50).optional(),
+  /** Hours between posts */
   postingFrequency: z.number().min(1).max(100),
   engagementMode: z.enum(["passive", "active", "aggressive"]),
   trendTracking: z.boolean(),
   replyProbability: z.number().min(0).max(1),
   mediaGeneration: z.boolean(),
+  contentWeights: contentWeightsSchema.optional(),
+  /** Chance of an image on original, thread and engagement posts */
+  mediaProbability: z.number().min(0).max(1).optional(),
+  topics: z.array(z.string().min(1).max(100)).max(20).optional(),
+  channels: z.array(channelId).max(10).optional(),
+  /** Topic → the channel posts on it go to */
+  topicChannels: z
+    .record(z.string().min(1).max(100), channelId)
+    .refine((map) => Object.keys(map).length <= 20, "At most 20 topic channels")
+    .optional(),
+  adaptive: adaptiveStrategySchema.optional(),
 });
 
 export const createAgentSchema = z.object({
@@ -104,6 +166,127 @@ export const generateContentSchema = z.object({
   replyTo: z.string().optional(),
 });
 
+// ---------------------------------------------------------------------------
+// Content Calendar Schemas
+// ---------------------------------------------------------------------------
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM");
+
+/** 5 fields, or 6 with seconds; BullMQ rejects the rest when scheduling */
+const cronExpression = z
+  .string()
+  .trim()
+  .max(100)
+  .regex(/^[\d*/,\-?LW#A-Za-z]+(\s+[\d*/,\-?LW#A-Za-z]+){4,5}$/, "Invalid cron expression");
+
+/** Weekly local time range; one ending before it starts runs past midnight */
+const timeWindow = z
+  .object({
+    days: z.array(z.number().int().min(0).max(6)).max(7).default([]),
+    start: clockTime,
+    end: clockTime,
+  })
+  .refine((w) => w.start !== w.end, { message: "A window cannot start and end at the same time" });
+
+/** Content types a calendar entry can ask for (runtime ContentType values) */
+const calendarContentType = z.enum(["original", "thread", "media"]);
+
+export const contentCalendarSchema = z.object({
+  timezone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+  /** Posting cadence; null = the strategy's interval */
+  cron: cronExpression.nullable().default(null),
+  postingWindows: z.array(timeWindow).max(20).default([]),
+  blackouts: z
+    .array(
+      z
+        .object({
+          start: z.string().datetime(),
+          end: z.string().datetime(),
+          reason: z.string().trim().max(200).optional(),
+        })
+        .refine((b) => Date.parse(b.start) < Date.parse(b.end), { message: "A blackout must end after it starts" }),
+    )
+    .max(50)
+    .default([]),
+});
+
+const contentSeriesFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  /** What each installment is about */
+  theme: z.string().trim().min(1).max(1000),
+  cron: cronExpression,
+  contentType: calendarContentType,
+  enabled: z.boolean(),
+});
+
+export const createContentSeriesSchema = contentSeriesFields.extend({
+  contentType: calendarContentType.default("thread"),
+  enabled: z.boolean().default(true),
+});
+
+export const updateContentSeriesSchema = contentSeriesFields.partial();
+
+const scheduledPostFields = z.object({
+  scheduledFor: z.string().datetime(),
+  /** Pre-written (or pre-generated) text */
+  text: z.string().trim().min(1).max(1024).optional(),
+  /** A pre-written thread; `text` defaults to the first part */
+  parts: z.array(z.string().trim().min(1).max(1024)).min(2).max(10).optional(),
+  mediaUrl: z.string().url().optional(),
+  /** Without text, the post is generated about this when it comes due */
+  topic: z.string().trim().min(1).max(1000).optional(),
+  contentType: calendarContentType.optional(),
+});
+
+export const createScheduledPostSchema = scheduledPostFields.refine((p) => p.text || p.parts || p.topic, {
+  message: "Provide text, thread parts or a topic",
+  path: ["text"],
+});
+
+export const updateScheduledPostSchema = scheduledPostFields.partial();
+
+// ---------------------------------------------------------------------------
+// Social Hunter Schemas
+// ---------------------------------------------------------------------------
+
+const huntKeyword = z.string().trim().min(2).max(100);
+
+export const socialHunterProfileSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    /** Farcaster channel ids; empty = the defaults for the offerings' categories */
+    channels: z
+      .array(z.string().trim().toLowerCase().regex(/^[a-z0-9-]{1,32}$/, "Invalid channel id"))
+      .max(20)
+      .default([]),
+    /** Cast search queries; empty = the runtime defaults */
+    keywords: z.array(huntKeyword).max(30).default([]),
+    negativeKeywords: z.array(huntKeyword).max(50).default([]),
+    triageThreshold: z.number().int().min(1).max(10).default(7),
+    maxRepliesPerHour: z.number().int().min(0).max(20).default(5),
+    maxRepliesPerDay: z.number().int().min(0).max(100).default(20),
+    /** Follow-ups per lead after the pitch; 0 = never follow up */
+    maxFollowUps: z.number().int().min(0).max(5).default(2),
+    timezone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+    /** Empty = any time */
+    activeHours: z.array(timeWindow).max(20).default([]),
+    /** Offerings the hunter may pitch; empty = every active one */
+    offeringSlugs: z.array(z.string().min(1).max(60)).max(50).default([]),
+  })
+  .refine((p) => p.maxRepliesPerHour <= p.maxRepliesPerDay, {
+    message: "The hourly cap cannot exceed the daily cap",
+    path: ["maxRepliesPerHour"],
+  });
+
 // ---------------------------------------------------------------------------
 // ERC-8004 Schemas
 // ---------------------------------------------------------------------------
@@ -138,6 +321,119 @@ const SERVICE_CATEGORIES = [
   "networking",
 ] as const;
 
+const capabilityTags = z
+  .array(
+    z.string().refine(isKnownCapability, (tag) => ({
+      message: `Unknown capability "${tag}" — see GET /api/services/capabilities`,
+    })),
+  )
+  .min(1)
+  .max(8)
+  .transform((tags) => Array.from(new Set(tags)));
+
+const microUsdc = z
+  .string()
+  .regex(/^\d+$/, "Must be a non-negative integer string (micro-USDC)");
+
+const billingPeriodDays = z.number().int().min(1).max(365);
+
+/** `pricingConfig` shape per pricing model — see lib/pricing.ts */
+const pricingConfigSchemas: Record<PricingModel, z.ZodTypeAny> = {
+  per_call: z.null().optional(),
+  subscription: z
+    .object({
+      periodDays: billingPeriodDays,
+      includedCalls: z.number().int().min(1).max(1_000_000),
+      overagePriceUsdc: microUsdc.optional(),
+    })
+    .strict(),
+  metered: z
+    .object({
+      unit: z.string().min(1).max(40),
+      maxUnitsPerCall: z.number().int().min(1).max(10_000_000),
+      periodDays: billingPeriodDays.optional(),
+    })
+    .strict(),
+  tiered: z
+    .object({
+      periodDays: billingPeriodDays.optional(),
+      tiers: z
+        .array(
+          z.object({
+            upToCalls: z.number().int().min(1).nullable(),
+            priceUsdc: microUsdc,
+          }),
+        )
+        .min(1)
+        .max(10)
+        .refine(
+          (tiers) =>
+            tiers.every((tier, i) => {
+              if (i === tiers.length - 1) return true;
+              const next = tiers[i + 1]!.upToCalls;
+              return tier.upToCalls !== null && (next === null || next > tier.upToCalls);
+            }),
+          "Tiers must have ascending upToCalls; only the last may be null",
+        ),
+    })
+    .strict(),
+};
+
+function checkPricingConfig(
+  data: { pricingModel?: PricingModel; pricingConfig?: unknown },
+  ctx: z.RefinementCtx,
+) {
+  if (data.pricingModel === undefined) {
+    if (data.pricingConfig !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "pricingConfig requires pricingModel",
+        path: ["pricingModel"],
+      });
+    }
+    return;
+  }
+
+  const result = pricingConfigSchemas[data.pricingModel].safeParse(data.pricingConfig);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["pricingConfig", ...issue.path] });
+    }
+  }
+}
+
+/** Seller bounds for A2A price negotiation — see lib/negotiation.ts */
+const negotiationConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    floorPriceUsdc: microUsdc,
+    volumeDiscounts: z
+      .array(
+        z.object({
+          minQuantity: z.number().int().min(2).max(10_000),
+          discountBps: z.number().int().min(1).max(9_000),
+        }),
+      )
+      .max(10)
+      .default([]),
+    maxRounds: z.number().int().min(0).max(10).default(3),
+    quoteTtlMinutes: z.number().int().min(1).max(7 * 24 * 60).default(60),
+  })
+  .strict();
+
+function checkNegotiationConfig(
+  data: { pricingModel?: PricingModel; negotiationConfig?: { enabled: boolean } | null },
+  ctx: z.RefinementCtx,
+) {
+  if (data.negotiationConfig?.enabled && data.pricingModel && data.pricingModel !== "per_call") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Only per_call offerings can be negotiated",
+      path: ["negotiationConfig"],
+    });
+  }
+}
+
 export const createServiceOfferingSchema = z.object({
   sellerAgentId: z.string().cuid(),
   name: z.string().min(3).max(120),
@@ -149,38 +445,68 @@ export const createServiceOfferingSchema = z.object({
     .optional(),
   description: z.string().min(10).max(2000),
   category: z.enum(SERVICE_CATEGORIES),
+  capabilities: capabilityTags,
   priceUsdc: z
     .string()
     .regex(/^\d+$/, "Must be a non-negative integer string (micro-USDC)"),
-  pricingModel: z.string().min(1).max(50).default("per_call"),
+  pricingModel: z.enum(PRICING_MODELS).default("per_call"),
+  pricingConfig: z.record(z.unknown()).nullable().optional(),
+  negotiationConfig: negotiationConfigSchema.nullable().optional(),
   inputSchema: z.record(z.unknown()),
   outputSchema: z.record(z.unknown()),
   maxLatencyMs: z.coerce.number().int().min(1000).max(300000).default(30000),
+}).superRefine((data, ctx) => {
+  checkPricingConfig(data, ctx);
+  checkNegotiationConfig(data, ctx);
 });
 
 export const updateServiceOfferingSchema = z.object({
   name: z.string().min(3).max(120).optional(),
   description: z.string().min(10).max(2000).optional(),
   category: z.enum(SERVICE_CATEGORIES).optional(),
+  capabilities: capabilityTags.optional(),
   priceUsdc: z
     .string()
     .regex(/^\d+$/, "Must be a non-negative integer string (micro-USDC)")
     .optional(),
-  pricingModel: z.string().min(1).max(50).optional(),
+  /** Model and config are replaced together */
+  pricingModel: z.enum(PRICING_MODELS).optional(),
+  pricingConfig: z.record(z.unknown()).nullable().optional(),
+  /** null removes the bounds (fixed list price) */
+  negotiationConfig: negotiationConfigSchema.nullable().optional(),
   inputSchema: z.record(z.unknown()).optional(),
   outputSchema: z.record(z.unknown()).optional(),
   maxLatencyMs: z.coerce.number().int().min(1000).max(300000).optional(),
   status: z.enum(["ACTIVE", "PAUSED", "DELISTED"]).optional(),
+}).superRefine((data, ctx) => {
+  checkPricingConfig(data, ctx);
+  checkNegotiationConfig(data, ctx);
 });
 
 export const serviceDiscoveryQuerySchema = z.object({
   category: z.string().optional(),
   maxPrice: z.coerce.number().int().optional(),
   capability: z.string().max(200).optional(),
+  /** JSON-encoded buyer requirements, scored against each inputSchema */
+  requirements: z
+    .string()
+    .max(4000)
+    .transform((raw, ctx) => {
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+          return parsed as Record<string, unknown>;
+        }
+      } catch {
+        // fall through
+      }
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "requirements must be a JSON object" });
+      return z.NEVER;
+    })
+    .optional(),
   sort: z
-    .enum(["rating", "price_asc", "price_desc", "newest", "jobs_completed"])
-    .optional()
-    .default("rating"),
+    .enum(["relevance", "rating", "price_asc", "price_desc", "newest", "jobs_completed"])
+    .optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(50).default(20),
 });
@@ -190,18 +516,210 @@ export const createServiceJobSchema = z.object({
   offeringSlug: z.string().min(1).max(100),
   requirements: z.record(z.unknown()),
   ttlMinutes: z.coerce.number().int().min(1).max(1440).default(30),
+  /** Metered offerings: cap on the units to pre-authorize (defaults to the offering's maxUnitsPerCall) */
+  maxUnits: z.number().int().min(1).optional(),
+  /** Signed quote from an A2A negotiation — replaces the list price */
+  quote: z
+    .object({
+      negotiationId: z.string().cuid(),
+      signature: z.string().regex(/^[a-f0-9]{64}$/),
+    })
+    .optional(),
+  /** Social Hunter hire link token (`?ref=`) the buyer arrived with */
+  ref: z.string().regex(/^[A-Za-z0-9_-]{8,64}$/).optional(),
 });
 
 export const updateServiceJobSchema = z.object({
   status: z.enum(["ACCEPTED", "DELIVERING", "COMPLETED", "REJECTED", "DISPUTED"]),
   deliverables: z.record(z.unknown()).optional(),
+  /** Shown to the buyer when the seller rejects a CREATED job */
+  reason: z.string().min(1).max(500).optional(),
+});
+
+/** Incremental progress pushed by the seller while a job is DELIVERING */
+export const serviceJobEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("progress"),
+    progress: z.number().int().min(0).max(100),
+    message: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal("artifact"),
+    data: z.record(z.unknown()),
+    message: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal("log"),
+    message: z.string().min(1).max(2000),
+  }),
+]);
+
+export const serviceJobEventsQuerySchema = z.object({
+  /** Resume after this sequence number (EventSource sends it as Last-Event-ID) */
+  after: z.coerce.number().int().min(0).default(0),
+});
+
+/** Sender signature on an A2A envelope (`params.auth`) — see lib/a2a-auth.ts */
+export const a2aAuthSchema = z.object({
+  signer: ethereumAddress,
+  /** Random bytes32, single use per sender */
+  nonce: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid nonce"),
+  /** Unix seconds after which the message is void */
+  expiry: z.number().int().positive(),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature"),
+});
+
+/** A2A negotiation payloads (`params.payload`) by method — see lib/negotiation.ts */
+export const negotiationPayloadSchemas = {
+  "quote-request": z.object({
+    offeringSlug: z.string().min(1).max(100),
+    quantity: z.number().int().min(1).max(10_000).default(1),
+    proposedPriceUsdc: microUsdc.optional(),
+    message: z.string().max(500).optional(),
+  }),
+  "counter-offer": z.object({
+    negotiationId: z.string().cuid(),
+    proposedPriceUsdc: microUsdc,
+    message: z.string().max(500).optional(),
+  }),
+  "accept-quote": z.object({
+    negotiationId: z.string().cuid(),
+  }),
+  reject: z.object({
+    negotiationId: z.string().cuid(),
+    reason: z.string().max(500).optional(),
+  }),
+};
+
+/** Seller-side rules applied by the runtime to CREATED jobs */
+export const acceptancePolicySchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    allowedBuyerIds: z.array(z.string().cuid()).max(100).default([]),
+    deniedBuyerIds: z.array(z.string().cuid()).max(100).default([]),
+    minBuyerReputation: z.number().int().min(0).max(10000).nullable().default(null),
+    maxConcurrentJobs: z.number().int().min(1).max(100).default(5),
+    llmReviewEnabled: z.boolean().default(false),
+    llmReviewInstructions: z.string().max(2000).nullable().default(null),
+  })
+  .refine(
+    (d) => !d.allowedBuyerIds.some((id) => d.deniedBuyerIds.includes(id)),
+    { message: "A buyer cannot be both allowed and denied", path: ["deniedBuyerIds"] },
+  );
+
+/** Per-agent LLM + image spend limits, enforced by the runtime */
+export const spendBudgetSchema = z.object({
+  dailyLimitUsdc: microUsdc.nullable().default(null),
+  monthlyLimitUsdc: microUsdc.nullable().default(null),
+  onExhausted: z.enum(["REFUSE", "DOWNGRADE"]).default("REFUSE"),
+});
+
+/** Per-agent brand guardrails, applied by the runtime before posting */
+export const moderationPolicySchema = z.object({
+  bannedTopics: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  bannedWords: z.array(z.string().trim().min(1).max(50)).max(200).default([]),
+  financialAdvice: z.boolean().default(true),
+  scamPatterns: z.boolean().default(true),
+  pii: z.boolean().default(true),
+  duplicateWindowDays: z.number().int().min(0).max(90).default(14),
+  llmClassifier: z.boolean().default(false),
+});
+
+export const moderationReviewSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+});
+
+/** Supervised mode: which generated content waits for creator approval */
+export const supervisionPolicySchema = z.object({
+  enabled: z.boolean().default(false),
+  holdPosts: z.boolean().default(true),
+  holdReplies: z.boolean().default(true),
+  holdPitches: z.boolean().default(true),
+  /** null = drafts wait for the creator indefinitely */
+  autoPublishAfterMinutes: z.number().int().min(5).max(7 * 24 * 60).nullable().default(null),
 });
 
+export const draftDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("edit"),
+    text: z.string().trim().min(1).max(1024),
+    /** Thread drafts only; replaces every part */
+    parts: z.array(z.string().trim().min(1).max(1024)).min(2).max(10).optional(),
+  }),
+  z.object({ action: z.literal("reject") }),
+]);
+
 export const rateServiceJobSchema = z.object({
   rating: z.number().int().min(1).max(5),
   feedback: z.string().max(500).optional(),
 });
 
+export const openDisputeSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+export const disputeEvidenceSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("deliverable"),
+    content: z.record(z.unknown()),
+  }),
+  z.object({
+    kind: z.literal("decision_log"),
+    decisionLogId: z.string().min(1),
+  }),
+  z.object({
+    kind: z.literal("note"),
+    text: z.string().min(1).max(2000),
+  }),
+]);
+
+export const resolveDisputeSchema = z
+  .object({
+    outcome: z.enum(["REFUND", "PARTIAL_REFUND", "REDELIVER", "UPHOLD"]),
+    /** Micro-USDC refunded to the buyer — required for PARTIAL_REFUND. */
+    refundUsdc: z.string().regex(/^\d+$/).optional(),
+    note: z.string().max(1000).optional(),
+  })
+  .refine((d) => d.outcome !== "PARTIAL_REFUND" || d.refundUsdc !== undefined, {
+    message: "refundUsdc is required for PARTIAL_REFUND",
+    path: ["refundUsdc"],
+  });
+
+// ---------------------------------------------------------------------------
+// Service Workflow Schemas
+// ---------------------------------------------------------------------------
+
+const workflowStepKey = z
+  .string()
+  .regex(/^[a-z0-9]+(?:[-_][a-z0-9]+)*$/, "Lowercase alphanumeric, - or _")
+  .max(40);
+
+export const workflowStepSchema = z.object({
+  key: workflowStepKey,
+  capability: z.string().min(1).max(100),
+  offeringSlug: z.string().min(1).max(100).optional(),
+  maxPriceUsdc: z
+    .string()
+    .regex(/^\d+$/, "Must be a non-negative integer string (micro-USDC)")
+    .optional(),
+  dependsOn: z.array(workflowStepKey).max(10).default([]),
+  requirements: z.record(z.unknown()).default({}),
+  /** Requirement field → "<stepKey>.<path>" into an upstream step's deliverables */
+  inputs: z.record(z.string().min(1).max(200)).default({}),
+  maxAttempts: z.number().int().min(1).max(5).default(2),
+  onCompensate: z.enum(["refund", "keep"]).default("refund"),
+});
+
+export const createWorkflowSchema = z.object({
+  buyerAgentId: z.string().cuid(),
+  name: z.string().min(1).max(120),
+  budgetUsdc: z
+    .string()
+    .regex(/^\d+$/, "Must be a non-negative integer string (micro-USDC)"),
+  steps: z.array(workflowStepSchema).min(1).max(10),
+});
+
 // ---------------------------------------------------------------------------
 // Metrics query
 // ---------------------------------------------------------------------------
@@ -0,0 +1,133 @@
+/**
+ * Service Workflows
+ *
+ * A workflow is a DAG of service jobs hired by one buyer agent. Each step
+ * names a capability (or pins an offering) and may map fields of upstream
+ * deliverables into its own requirements:
+ *
+ *   { key: "draft", capability: "thread-writing", dependsOn: ["trend"],
+ *     inputs: { topic: "trend.output.trends.0.topic" } }
+ *
+ * The API only stores and validates the graph. The buyer's agent runtime
+ * (service-workflow-worker) hires the steps, retries failed attempts,
+ * enforces the budget cap, and compensates earlier steps when a later
+ * one fails: in-flight jobs are cancelled, delivered ones disputed.
+ */
+
+import type { ServiceWorkflow, ServiceWorkflowStep } from "@prisma/client";
+import type { ErrorDetail } from "@/lib/errors";
+
+export interface WorkflowStepDefinition {
+  key: string;
+  dependsOn: string[];
+  inputs: Record<string, string>;
+}
+
+/**
+ * Check that the steps form a DAG whose input mappings only read from
+ * declared dependencies.
+ *
+ * @returns Problems found (empty when the graph is valid)
+ */
+export function validateWorkflowGraph(steps: WorkflowStepDefinition[]): ErrorDetail[] {
+  const details: ErrorDetail[] = [];
+  const keys = new Set<string>();
+
+  steps.forEach((step, i) => {
+    if (keys.has(step.key)) {
+      details.push({ path: `steps.${i}.key`, message: `Duplicate step key "${step.key}"` });
+    }
+    keys.add(step.key);
+  });
+
+  steps.forEach((step, i) => {
+    for (const dep of step.dependsOn) {
+      if (dep === step.key) {
+        details.push({ path: `steps.${i}.dependsOn`, message: "A step cannot depend on itself" });
+      } else if (!keys.has(dep)) {
+        details.push({ path: `steps.${i}.dependsOn`, message: `Unknown step "${dep}"` });
+      }
+    }
+
+    for (const [field, ref] of Object.entries(step.inputs)) {
+      const source = ref.split(".")[0]!;
+      if (!step.dependsOn.includes(source)) {
+        details.push({
+          path: `steps.${i}.inputs.${field}`,
+          message: `"${ref}" must read from a step listed in dependsOn`,
+        });
+      }
+    }
+  });
+
+  if (details.length === 0) {
+    const cycle = findCycle(steps);
+    if (cycle) {
+      details.push({ path: "steps", message: `Dependency cycle: ${cycle.join(" → ")}` });
+    }
+  }
+
+  return details;
+}
+
+/** Depth-first search for a dependency cycle; returns its keys if found. */
+function findCycle(steps: WorkflowStepDefinition[]): string[] | null {
+  const deps = new Map(steps.map((s) => [s.key, s.dependsOn]));
+  const state = new Map<string, "visiting" | "done">();
+  const trail: string[] = [];
+
+  const visit = (key: string): string[] | null => {
+    if (state.get(key) === "done") return null;
+    if (state.get(key) === "visiting") {
+      return [...trail.slice(trail.indexOf(key)), key];
+    }
+
+    state.set(key, "visiting");
+    trail.push(key);
+    for (const dep of deps.get(key) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    state.set(key, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.key);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// ── Serialization ────────────────────────────────────────────────────────────
+
+type WorkflowWithSteps = ServiceWorkflow & {
+  steps: Array<
+    ServiceWorkflowStep & {
+      jobs?: Array<{
+        id: string;
+        status: string;
+        escrowStatus: string;
+        priceUsdc: bigint;
+        createdAt: Date;
+      }>;
+    }
+  >;
+};
+
+/** Convert BigInt fields so the workflow can be sent as JSON. */
+export function serializeWorkflow(workflow: WorkflowWithSteps) {
+  return {
+    ...workflow,
+    budgetUsdc: workflow.budgetUsdc.toString(),
+    spentUsdc: workflow.spentUsdc.toString(),
+    steps: workflow.steps.map((step) => ({
+      ...step,
+      maxPriceUsdc: step.maxPriceUsdc?.toString() ?? null,
+      ...(step.jobs && {
+        jobs: step.jobs.map((job) => ({ ...job, priceUsdc: job.priceUsdc.toString() })),
+      }),
+    })),
+  };
+}
@@ -144,10 +144,16 @@ export function parseX402Header(request: Request): X402PaymentData | null {
  * into the job's `paymentTxHash` field.
  *
  * @param paymentData - Parsed X-PAYMENT header data
+ * The transfer must pay the protocol resource wallet: that is the escrow
+ * the runtime later refunds or releases from, so a payment to any other
+ * address is rejected before it is settled.
+ *
+ * @param paymentData - Parsed X-PAYMENT header data
  * @param expectedAmount - The offering's priceUsdc (BigInt, 6 decimals)
  * @param endpoint - The API route recording this payment (e.g., "/api/services/jobs")
  * @returns VerifiedPayment with txHash, payer, payee, amount
- * @throws {Error} If payment amount is insufficient or facilitator rejects
+ * @throws {Error} If the payee is not the escrow wallet, the payment amount
+ *   is insufficient or the facilitator rejects
  */
 export async function verifyServicePayment(
   paymentData: X402PaymentData,
@@ -156,6 +162,13 @@ export async function verifyServicePayment(
 ): Promise<VerifiedPayment> {
   const paidAmount = BigInt(paymentData.payload.value);
 
+  // Gate: funds must land in the escrow (resource) wallet
+  if (paymentData.payload.to.toLowerCase() !== X402_CONFIG.resourceWallet.toLowerCase()) {
+    throw new Error(
+      `[x402] Payment payee ${paymentData.payload.to} is not the escrow wallet.`,
+    );
+  }
+
   // Gate: paid amount must cover the offering price
   if (paidAmount < expectedAmount) {
     throw new Error(
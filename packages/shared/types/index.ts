@@ -19,6 +19,7 @@ export interface ApiError {
   error: {
     code: string;
     message: string;
+    details?: Array<{ path: string; message: string }>;
   };
 }
 
@@ -0,0 +1,27 @@
+/* ============================================================
+ * @ceosrun/shared — Canonical JSON
+ *
+ * JSON with object keys sorted at every level, so two parties
+ * hash the same bytes however a value was built. The A2A
+ * envelope signature covers a hash of this encoding: the agent
+ * runtime signs it and the API verifies it.
+ * ============================================================ */
+
+/**
+ * Serialise `value` with sorted object keys. Keys whose value is
+ * `undefined` are dropped, as JSON.stringify would.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
@@ -0,0 +1,149 @@
+/* ============================================================
+ * @ceosrun/shared — Service Capability Registry
+ *
+ * Canonical capability tags that service offerings declare and
+ * buyer agents search by. Tags are validated against this
+ * registry on offering create/update, so discovery can match
+ * on structure instead of keywords in free-text descriptions.
+ * ============================================================ */
+
+export type CapabilityCategory =
+  | "content"
+  | "analysis"
+  | "trading"
+  | "engagement"
+  | "networking";
+
+export interface CapabilityDefinition {
+  /** Canonical kebab-case tag stored on ServiceOffering.capabilities */
+  tag: string;
+  label: string;
+  category: CapabilityCategory;
+  description: string;
+  /** Alternate spellings a buyer might search for (lowercase) */
+  aliases: readonly string[];
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const CAPABILITY_REGISTRY: readonly CapabilityDefinition[] = [
+  // ── Content ─────────────────────────────────────────────────
+  {
+    tag: "content-generation",
+    label: "Content Generation",
+    category: "content",
+    description: "Original posts and casts in the agent's voice",
+    aliases: ["content", "post-writing", "cast-writing"],
+  },
+  {
+    tag: "thread-writing",
+    label: "Thread Writing",
+    category: "content",
+    description: "Multi-part threads optimized for reach",
+    aliases: ["threads", "viral-thread", "thread-generation"],
+  },
+  {
+    tag: "image-generation",
+    label: "Image Generation",
+    category: "content",
+    description: "AI-generated images and media for posts",
+    aliases: ["images", "image", "media-generation"],
+  },
+  // ── Analysis ────────────────────────────────────────────────
+  {
+    tag: "trend-analysis",
+    label: "Trend Analysis",
+    category: "analysis",
+    description: "Detect and rank emerging trends and alpha signals",
+    aliases: ["trends", "trend-detection", "alpha-signals"],
+  },
+  {
+    tag: "yield-analysis",
+    label: "Yield Analysis",
+    category: "analysis",
+    description: "Compare DeFi yields and recommend allocations",
+    aliases: ["yield", "yield-optimization", "defi-yield"],
+  },
+  {
+    tag: "contract-audit",
+    label: "Contract Audit",
+    category: "analysis",
+    description: "Smart contract risk and trust scoring",
+    aliases: ["audit", "trust-score", "contract-analysis"],
+  },
+  {
+    tag: "token-research",
+    label: "Token Research",
+    category: "analysis",
+    description: "Fundamentals and on-chain research on a token",
+    aliases: ["research", "token-analysis"],
+  },
+  // ── Trading ─────────────────────────────────────────────────
+  {
+    tag: "rug-detection",
+    label: "Rug Detection",
+    category: "trading",
+    description: "Flag likely rug pulls and honeypots before entry",
+    aliases: ["rug-pull", "rug-radar", "honeypot-detection"],
+  },
+  {
+    tag: "trade-signals",
+    label: "Trade Signals",
+    category: "trading",
+    description: "Entry and exit signals for a token or pair",
+    aliases: ["signals", "trading-signals"],
+  },
+  // ── Engagement ──────────────────────────────────────────────
+  {
+    tag: "sentiment-analysis",
+    label: "Sentiment Analysis",
+    category: "engagement",
+    description: "Measure community sentiment around a topic or token",
+    aliases: ["sentiment", "sentiment-pulse"],
+  },
+  {
+    tag: "engagement-analysis",
+    label: "Engagement Analysis",
+    category: "engagement",
+    description: "Audience and engagement metrics for an account",
+    aliases: ["engagement", "audience-analysis"],
+  },
+  // ── Networking ──────────────────────────────────────────────
+  {
+    tag: "agent-discovery",
+    label: "Agent Discovery",
+    category: "networking",
+    description: "Find agents to collaborate or partner with",
+    aliases: ["networking", "partner-matching"],
+  },
+];
+
+const BY_TAG = new Map(CAPABILITY_REGISTRY.map((c) => [c.tag, c]));
+
+const BY_ALIAS = new Map(
+  CAPABILITY_REGISTRY.flatMap((c) => c.aliases.map((a) => [a, c] as const)),
+);
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+export function isKnownCapability(tag: string): boolean {
+  return BY_TAG.has(tag);
+}
+
+export function getCapability(tag: string): CapabilityDefinition | undefined {
+  return BY_TAG.get(tag);
+}
+
+/**
+ * Resolve a free-form capability query to a registry entry.
+ * Matches the canonical tag or an alias after normalizing case,
+ * whitespace and underscores ("Trend Analysis" → "trend-analysis").
+ */
+export function resolveCapability(query: string): CapabilityDefinition | undefined {
+  const normalized = query.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return BY_TAG.get(normalized) ?? BY_ALIAS.get(normalized);
+}
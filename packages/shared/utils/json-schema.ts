@@ -0,0 +1,183 @@
+/* ============================================================
+ * @ceosrun/shared — JSON Schema validation
+ *
+ * Validates service job payloads against the JSON Schema an
+ * offering declares (`inputSchema` / `outputSchema`). Supports
+ * the subset sellers actually use:
+ *
+ *   type (incl. "integer" and type arrays), enum, const,
+ *   properties, required, additionalProperties,
+ *   items, minItems, maxItems,
+ *   minLength, maxLength, pattern,
+ *   minimum, maximum, exclusiveMinimum, exclusiveMaximum
+ *
+ * Unknown keywords (description, format, $schema, …) are ignored,
+ * so a richer schema degrades to a looser check, never a false
+ * rejection. Used by both the API (job requirements) and the
+ * agent runtime's executor (deliverables).
+ * ============================================================ */
+
+export interface SchemaViolation {
+  /** Dotted path to the offending value ("" for the root). */
+  path: string;
+  message: string;
+}
+
+/** Stop collecting after this many violations — enough to fix a payload. */
+const MAX_VIOLATIONS = 20;
+
+type Schema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, unknown>;
+  required?: string[];
+  additionalProperties?: boolean | Record<string, unknown>;
+  items?: unknown;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+};
+
+/**
+ * JSON type name of a value. Integers report "integer"; callers treat
+ * "integer" as satisfying "number".
+ */
+export function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  return base === "" ? String(key) : `${base}.${key}`;
+}
+
+function validateNode(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  violations: SchemaViolation[],
+): void {
+  if (violations.length >= MAX_VIOLATIONS || !isSchema(schema)) return;
+
+  const actual = jsonTypeOf(value);
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const ok = allowed.some(
+      (t) => t === actual || (t === "number" && actual === "integer"),
+    );
+    if (!ok) {
+      violations.push({ path, message: `Expected ${allowed.join(" | ")}, got ${actual}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    violations.push({ path, message: `Must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+  ) {
+    violations.push({
+      path,
+      message: `Must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined) {
+      let re: RegExp | null = null;
+      try {
+        re = new RegExp(schema.pattern, "u");
+      } catch {
+        // An invalid pattern is the seller's bug — don't reject the payload for it
+      }
+      if (re && !re.test(value)) {
+        violations.push({ path, message: `Must match pattern ${schema.pattern}` });
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push({ path, message: `Must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      violations.push({ path, message: `Must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `Must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => validateNode(schema.items, item, joinPath(path, i), violations));
+    }
+  }
+
+  if (actual === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, unknown> = isSchema(schema.properties) ? schema.properties : {};
+
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) {
+        violations.push({ path: joinPath(path, key), message: "Required" });
+      }
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in properties) {
+        validateNode(properties[key], child, joinPath(path, key), violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: joinPath(path, key), message: "Unexpected property" });
+      } else if (isSchema(schema.additionalProperties)) {
+        validateNode(schema.additionalProperties, child, joinPath(path, key), violations);
+      }
+    }
+  }
+}
+
+/**
+ * Validate `value` against a JSON Schema.
+ *
+ * A missing or non-object schema accepts everything — offerings listed
+ * before schemas were enforced keep working.
+ *
+ * @returns Violations found (empty when valid), capped at 20
+ */
+export function validateJsonSchema(schema: unknown, value: unknown): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateNode(schema, value, "", violations);
+  return violations.slice(0, MAX_VIOLATIONS);
+}
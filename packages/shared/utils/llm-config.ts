@@ -0,0 +1,154 @@
+/* ============================================================
+ * @ceosrun/shared — LLM routing config
+ *
+ * Which provider and model serve each model call, by agent and
+ * task. Read from LLM_CONFIG (inline JSON) or a file at
+ * LLM_CONFIG_PATH by both the agent runtime (src/core/llm-router.ts)
+ * and the web app (lib/llm.ts), so a preview in the app uses the
+ * provider and model the agent's runtime would. Without a config,
+ * everything goes to OpenRouter.
+ *
+ * Server-only: loading a config file uses node:fs.
+ * ============================================================ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+/** What a model call is for — the unit of per-task routing. */
+export const LLM_TASKS = [
+  "content",
+  "image-prompt",
+  "engagement",
+  "trends",
+  "lead-triage",
+  "lead-nurture",
+  "requirements-review",
+  "moderation",
+] as const;
+
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+/** Model a hosted provider uses when neither the route nor the caller names one. */
+export const DEFAULT_LLM_MODELS = {
+  openrouter: "anthropic/claude-sonnet-4",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-sonnet-4-20250514",
+} as const;
+
+export const llmProviderConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openrouter"),
+    /** Env var holding the key (default OPENROUTER_API_KEY) */
+    apiKeyEnv: z.string().default("OPENROUTER_API_KEY"),
+    defaultModel: z.string().default(DEFAULT_LLM_MODELS.openrouter),
+  }),
+  z.object({
+    type: z.literal("openai"),
+    apiKeyEnv: z.string().default("OPENAI_API_KEY"),
+    defaultModel: z.string().default(DEFAULT_LLM_MODELS.openai),
+  }),
+  z.object({
+    type: z.literal("anthropic"),
+    apiKeyEnv: z.string().default("ANTHROPIC_API_KEY"),
+    defaultModel: z.string().default(DEFAULT_LLM_MODELS.anthropic),
+  }),
+  z.object({
+    type: z.literal("openai-compatible"),
+    baseUrl: z.string().url(),
+    apiKeyEnv: z.string().optional(),
+    defaultModel: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("fixture"),
+    responses: z.record(z.enum(LLM_TASKS), z.string()).default({}),
+    defaultResponse: z.string().optional(),
+  }),
+]);
+
+export const llmRouteSchema = z.object({
+  provider: z.string().min(1),
+  /** Overrides the caller's model hint and the provider default */
+  model: z.string().min(1).optional(),
+});
+
+const taskRoutesSchema = z.record(z.enum(LLM_TASKS), llmRouteSchema);
+
+export const llmConfigSchema = z
+  .object({
+    providers: z.record(llmProviderConfigSchema),
+    default: llmRouteSchema,
+    tasks: taskRoutesSchema.default({}),
+    agents: z
+      .record(
+        z.object({
+          default: llmRouteSchema.optional(),
+          tasks: taskRoutesSchema.default({}),
+        }),
+      )
+      .default({}),
+    /** Where calls go once an agent's budget is exhausted in DOWNGRADE mode */
+    budgetFallback: llmRouteSchema.optional(),
+  })
+  .superRefine((config, ctx) => {
+    const routes = [
+      config.default,
+      config.budgetFallback,
+      ...Object.values(config.tasks),
+      ...Object.values(config.agents).flatMap((agent) => [
+        agent.default,
+        ...Object.values(agent.tasks),
+      ]),
+    ];
+    for (const route of routes) {
+      if (route && !(route.provider in config.providers)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown provider "${route.provider}"`,
+        });
+      }
+    }
+  });
+
+export type LLMConfig = z.infer<typeof llmConfigSchema>;
+export type LLMProviderConfig = z.infer<typeof llmProviderConfigSchema>;
+export type LLMRoute = z.infer<typeof llmRouteSchema>;
+
+/** Used when no LLM config is set: everything on OpenRouter. */
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  providers: {
+    openrouter: {
+      type: "openrouter",
+      apiKeyEnv: "OPENROUTER_API_KEY",
+      defaultModel: DEFAULT_LLM_MODELS.openrouter,
+    },
+  },
+  default: { provider: "openrouter" },
+  tasks: {},
+  agents: {},
+  budgetFallback: { provider: "openrouter", model: "openai/gpt-4o-mini" },
+};
+
+/**
+ * Read the LLM config from LLM_CONFIG (inline JSON) or LLM_CONFIG_PATH.
+ *
+ * @throws If the config is not valid JSON or does not match the schema
+ */
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const raw = env.LLM_CONFIG ?? (env.LLM_CONFIG_PATH ? readFileSync(env.LLM_CONFIG_PATH, "utf8") : null);
+  if (!raw) return DEFAULT_LLM_CONFIG;
+
+  const result = llmConfigSchema.safeParse(JSON.parse(raw));
+  if (!result.success) {
+    throw new Error(`Invalid LLM config: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * The route a call for `agentId` and `task` takes, most specific first:
+ * agents[agentId].tasks[task], agents[agentId].default, tasks[task], default.
+ */
+export function resolveLLMRoute(config: LLMConfig, agentId?: string, task?: LLMTask): LLMRoute {
+  const agent = agentId ? config.agents[agentId] : undefined;
+  return (task && agent?.tasks[task]) || agent?.default || (task && config.tasks[task]) || config.default;
+}
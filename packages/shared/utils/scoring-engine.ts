@@ -2,7 +2,8 @@
  * @ceosrun/shared — CEOS Score v2 Scoring Engine
  *
  * Percentile-based normalization with log-scale and sigmoid
- * transforms for fair scoring across agents.
+ * transforms for fair scoring across agents. The agent runtime
+ * scores each epoch with it (src/core/epoch-scoring.ts).
  * ============================================================ */
 
 import {
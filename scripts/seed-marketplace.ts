@@ -112,6 +112,7 @@ interface OfferingSeed {
   slug: string;
   description: string;
   category: string;
+  capabilities: string[];
   priceUsdc: bigint;
   pricingModel: string;
   inputSchema: Record<string, unknown>;
@@ -133,6 +134,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'Real-time DeFi trend analysis across 14 DEXs on Base, Optimism, and Arbitrum. Returns ranked alpha signals with confidence scores and suggested entry points.',
     category: 'analysis',
+    capabilities: ['trend-analysis', 'trade-signals'],
     priceUsdc: BigInt(5_000_000), // $5.00
     pricingModel: 'per_call',
     inputSchema: {
@@ -190,6 +192,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'Comprehensive yield farming analysis. Evaluates LP positions, staking rewards, and impermanent loss risk across DeFi protocols.',
     category: 'analysis',
+    capabilities: ['yield-analysis'],
     priceUsdc: BigInt(12_000_000), // $12.00
     pricingModel: 'per_call',
     inputSchema: {
@@ -234,6 +237,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'AI-crafted Farcaster thread optimized for engagement. Trained on 50K+ viral posts. Includes hook, body, CTA, and optional media suggestions.',
     category: 'content',
+    capabilities: ['thread-writing', 'content-generation'],
     priceUsdc: BigInt(2_000_000), // $2.00
     pricingModel: 'per_call',
     inputSchema: {
@@ -289,6 +293,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'Real-time social sentiment analysis on any topic, project, or token. Aggregates Farcaster, CT, and on-chain social signals.',
     category: 'engagement',
+    capabilities: ['sentiment-analysis'],
     priceUsdc: BigInt(3_500_000), // $3.50
     pricingModel: 'per_call',
     inputSchema: {
@@ -334,6 +339,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'Instant security assessment of any EVM smart contract. Analyzes bytecode patterns, permission structures, and known vulnerability signatures.',
     category: 'analysis',
+    capabilities: ['contract-audit'],
     priceUsdc: BigInt(8_000_000), // $8.00
     pricingModel: 'per_call',
     inputSchema: {
@@ -377,6 +383,7 @@ const OFFERINGS: OfferingSeed[] = [
     description:
       'Proactive rug pull detection for new token launches. Cross-references deployer history, liquidity locks, and honeypot patterns.',
     category: 'trading',
+    capabilities: ['rug-detection'],
     priceUsdc: BigInt(4_000_000), // $4.00
     pricingModel: 'per_call',
     inputSchema: {
@@ -471,6 +478,7 @@ async function main() {
         name: offering.name,
         description: offering.description,
         category: offering.category,
+        capabilities: offering.capabilities,
         priceUsdc: offering.priceUsdc,
         pricingModel: offering.pricingModel,
         inputSchema: offering.inputSchema as Prisma.InputJsonValue,
@@ -488,6 +496,7 @@ async function main() {
         slug: offering.slug,
         description: offering.description,
         category: offering.category,
+        capabilities: offering.capabilities,
         priceUsdc: offering.priceUsdc,
         pricingModel: offering.pricingModel,
         inputSchema: offering.inputSchema as Prisma.InputJsonValue,